@@ -32,6 +32,21 @@ export default [
         clearInterval: 'readonly',
         fetch: 'readonly',
         localStorage: 'readonly',
+        Blob: 'readonly',
+        // Streams / Fetch API globals (SSE transport)
+        AbortController: 'readonly',
+        AbortSignal: 'readonly',
+        ReadableStream: 'readonly',
+        Response: 'readonly',
+        TextDecoder: 'readonly',
+        TextEncoder: 'readonly',
+        // Web Worker globals (stream worker)
+        Worker: 'readonly',
+        MessageEvent: 'readonly',
+        ErrorEvent: 'readonly',
+        self: 'readonly',
+        structuredClone: 'readonly',
+        queueMicrotask: 'readonly',
         // Node globals (for config files)
         process: 'readonly',
         __dirname: 'readonly',
@@ -97,6 +112,8 @@ export default [
       'no-console': ['warn', { allow: ['warn', 'error'] }],
       'no-debugger': 'error',
       'no-unused-vars': 'off', // Handled by TypeScript
+      'no-redeclare': 'off', // Replaced by the TypeScript-aware version below
+      '@typescript-eslint/no-redeclare': 'error', // Allows overloads and type/value pairs
     },
     settings: {
       react: {
@@ -0,0 +1,164 @@
+#!/usr/bin/env node
+/* eslint-env node */
+/**
+ * Fixture Diff Script
+ *
+ * Prints a structural diff between two versions of a fixture, for review
+ * when a fixture is re-recorded. Accepts JSON fixtures, NDJSON event logs
+ * and SSE transcripts (see parseFixture in fixtureRepository).
+ *
+ * Usage:
+ *   npm run fixtures:diff -- <before> <after> [--tolerance <ms>] [--json]
+ *
+ * Exits with 1 when the fixtures differ, 2 on usage or load errors.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { diffFixtures, loadFixture } from '../src/lib/streaming/fixtureRepository.ts';
+
+// ANSI color codes
+const colors = {
+  reset: '\x1b[0m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+  dim: '\x1b[2m',
+};
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(argv) {
+  const files = [];
+  let tolerance = 0;
+  let json = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--json') {
+      json = true;
+    } else if (argv[i] === '--tolerance') {
+      tolerance = Number(argv[++i]);
+    } else {
+      files.push(argv[i]);
+    }
+  }
+
+  if (files.length !== 2 || Number.isNaN(tolerance)) {
+    console.error('Usage: npm run fixtures:diff -- <before> <after> [--tolerance <ms>] [--json]');
+    process.exit(2);
+  }
+
+  return { files, tolerance, json };
+}
+
+/**
+ * Read and parse a fixture file
+ */
+function readFixture(file) {
+  try {
+    return loadFixture(fs.readFileSync(file, 'utf8'), { source: path.basename(file) });
+  } catch (error) {
+    console.error(`${colors.red}${error.message}${colors.reset}`);
+    process.exit(2);
+  }
+}
+
+/**
+ * Format a value for display
+ */
+function formatValue(value) {
+  const text = JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+/**
+ * Format a JSON path change
+ */
+function formatChange(change) {
+  switch (change.kind) {
+    case 'added':
+      return `${change.path}: ${colors.green}+ ${formatValue(change.after)}${colors.reset}`;
+    case 'removed':
+      return `${change.path}: ${colors.red}- ${formatValue(change.before)}${colors.reset}`;
+    default:
+      return `${change.path}: ${formatValue(change.before)} → ${formatValue(change.after)}`;
+  }
+}
+
+/**
+ * Format a drift in milliseconds
+ */
+function formatDrift(ms) {
+  return `${ms > 0 ? '+' : ''}${ms}ms`;
+}
+
+/**
+ * Print the diff for review
+ */
+function printDiff(diff, [before, after], tolerance) {
+  console.log(`\nFixture diff: ${before} → ${after}\n`);
+
+  for (const change of diff.metadata) {
+    console.log(`  ${colors.cyan}metadata${colors.reset}  ${formatChange(change)}`);
+  }
+
+  for (const event of diff.events) {
+    const label = `${event.id} ${colors.dim}(${event.type})${colors.reset}`;
+
+    if (event.change === 'inserted') {
+      console.log(`  ${colors.green}+ inserted${colors.reset}  ${label} at #${event.afterIndex}`);
+      continue;
+    }
+
+    if (event.change === 'removed') {
+      console.log(`  ${colors.red}- removed${colors.reset}   ${label} from #${event.beforeIndex}`);
+      continue;
+    }
+
+    const notes = [];
+    if (event.reordered) {
+      notes.push(`moved #${event.beforeIndex} → #${event.afterIndex}`);
+    }
+    if (Math.abs(event.timingDrift) > tolerance) {
+      notes.push(`drift ${formatDrift(event.timingDrift)}`);
+    }
+
+    console.log(`  ${colors.yellow}~ changed${colors.reset}   ${label} ${notes.join(', ')}`.trimEnd());
+    for (const change of event.dataChanges) {
+      console.log(`      ${formatChange(change)}`);
+    }
+  }
+
+  const { summary, timing } = diff;
+  console.log(
+    `\n${summary.inserted} inserted, ${summary.removed} removed, ${summary.reordered} reordered, ` +
+      `${summary.modified} modified, ${summary.drifted} drifted, ${summary.unchanged} unchanged`
+  );
+  console.log(
+    `Timing: max drift ${timing.maxDrift}ms, duration ${formatDrift(timing.durationDelta)}\n`
+  );
+}
+
+/**
+ * Main execution
+ */
+function main() {
+  const { files, tolerance, json } = parseArgs(process.argv.slice(2));
+  const diff = diffFixtures(readFixture(files[0]), readFixture(files[1]), {
+    timingTolerance: tolerance,
+  });
+
+  if (json) {
+    console.log(JSON.stringify(diff, null, 2));
+  } else if (diff.identical) {
+    console.log(`${colors.green}✓ Fixtures are identical${colors.reset}`);
+  } else {
+    printDiff(diff, files, tolerance);
+  }
+
+  process.exit(diff.identical ? 0 : 1);
+}
+
+main();
@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+/* eslint-env node */
+/**
+ * Fixture Runner Script
+ *
+ * Replays a fixture through a stream store (the same core that backs
+ * useStreamProcessor) on a virtual clock, and prints each event at the time
+ * a client would receive it. The replay finishes instantly regardless of the
+ * fixture's real duration.
+ *
+ * Usage:
+ *   npm run fixtures:run -- <fixture> [--speed fast|normal|slow] [--json]
+ *
+ * Scripted fixtures wait for client events and are rejected.
+ *
+ * Exits with 1 when the stream ends in an error, 2 on usage or load errors.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { loadFixture } from '../src/lib/streaming/fixtureRepository.ts';
+import { createStreamStore } from '../src/lib/streaming/streamStore.ts';
+import { VirtualClock } from '../src/lib/utils/clock.ts';
+
+// ANSI color codes
+const colors = {
+  reset: '\x1b[0m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  cyan: '\x1b[36m',
+  dim: '\x1b[2m',
+};
+
+const SPEEDS = ['fast', 'normal', 'slow'];
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(argv) {
+  const files = [];
+  let speed = 'normal';
+  let json = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--json') {
+      json = true;
+    } else if (argv[i] === '--speed') {
+      speed = argv[++i];
+    } else {
+      files.push(argv[i]);
+    }
+  }
+
+  if (files.length !== 1 || !SPEEDS.includes(speed)) {
+    console.error('Usage: npm run fixtures:run -- <fixture> [--speed fast|normal|slow] [--json]');
+    process.exit(2);
+  }
+
+  return { file: files[0], speed, json };
+}
+
+/**
+ * Read and parse a fixture file
+ */
+function readFixture(file) {
+  try {
+    return loadFixture(fs.readFileSync(file, 'utf8'), { source: path.basename(file) });
+  } catch (error) {
+    console.error(`${colors.red}${error.message}${colors.reset}`);
+    process.exit(2);
+  }
+}
+
+/**
+ * Count events by type
+ */
+function countByType(counts, event) {
+  return { ...counts, [event.type]: (counts[event.type] ?? 0) + 1 };
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  const { file, speed, json } = parseArgs(process.argv.slice(2));
+  const fixture = readFixture(file);
+  const fixtureId = fixture.metadata.id;
+
+  if (fixture.script) {
+    const reason = 'it waits for client events, so it cannot be replayed here';
+    console.error(`${colors.red}${fixtureId} is scripted: ${reason}${colors.reset}`);
+    process.exit(2);
+  }
+
+  const clock = new VirtualClock();
+  const timeline = [];
+  const store = createStreamStore({
+    events: fixture.events,
+    delayProfile: speed,
+    clock,
+    reducer: countByType,
+    initialState: {},
+    onEvent: (event) => {
+      timeline.push({ at: clock.now(), id: event.id, type: event.type });
+      if (!json) {
+        const at = `+${clock.now()}ms`.padStart(9);
+        const type = `${colors.cyan}${event.type}${colors.reset}`;
+        console.log(`  ${colors.dim}${at}${colors.reset}  ${event.id} ${type}`);
+      }
+    },
+  });
+
+  if (!json) {
+    console.log(`\nReplaying ${fixtureId} at ${speed} speed\n`);
+  }
+
+  const done = store.start();
+  await clock.runAll();
+  await done;
+
+  const { state, data, eventCount } = store.getSnapshot();
+  const durationMs = clock.now();
+
+  if (json) {
+    console.log(
+      JSON.stringify(
+        {
+          fixtureId,
+          speed,
+          status: state.status,
+          error: state.status === 'error' ? state.error.message : undefined,
+          eventCount,
+          durationMs,
+          eventsByType: data,
+          timeline,
+        },
+        null,
+        2
+      )
+    );
+  } else {
+    const types = Object.entries(data)
+      .map(([type, count]) => `${type} × ${count}`)
+      .join(', ');
+
+    console.log(`\n${eventCount} events in ${durationMs}ms: ${types}`);
+    if (state.status === 'error') {
+      console.log(`${colors.red}✗ Stream failed: ${state.error.message}${colors.reset}\n`);
+    } else {
+      console.log(`${colors.green}✓ Stream ${state.status}${colors.reset}\n`);
+    }
+  }
+
+  process.exit(state.status === 'error' ? 1 : 0);
+}
+
+main();
@@ -69,7 +69,7 @@ describe('App', () => {
       render(<App />);
 
       // Wait for lazy loaded Home component
-      const progressIndicator = await screen.findByText(/7 of 7 patterns implemented/i);
+      const progressIndicator = await screen.findByText(/9 of 9 patterns implemented/i);
       expect(progressIndicator).toBeInTheDocument();
     });
 
@@ -108,6 +108,24 @@ const SchemaExchangeDemo = lazy(
     )
 );
 
+const ToolUseDemo = lazy(
+  () =>
+    import('./patterns/tool-use-stream/ToolUseDemo').then(
+      (module) => ({
+        default: module.default
+      })
+    )
+);
+
+const SubAgentDemo = lazy(
+  () =>
+    import('./patterns/sub-agent-orchestration/SubAgentDemo').then(
+      (module) => ({
+        default: module.default
+      })
+    )
+);
+
 /**
  * Loading fallback component
  * Displayed while lazy-loaded components are being fetched
@@ -252,6 +270,26 @@ function AppRoutes(): JSX.Element {
                 }
               />
 
+              {/* Tool-Use Stream Pattern Demo */}
+              <Route
+                path="/patterns/tool-use-stream"
+                element={
+                  <PatternErrorBoundary patternName="Tool-Use-Stream">
+                    <ToolUseDemo />
+                  </PatternErrorBoundary>
+                }
+              />
+
+              {/* Sub-Agent Orchestration Pattern Demo */}
+              <Route
+                path="/patterns/sub-agent-orchestration"
+                element={
+                  <PatternErrorBoundary patternName="Sub-Agent-Orchestration">
+                    <SubAgentDemo />
+                  </PatternErrorBoundary>
+                }
+              />
+
               {/* Redirect old routes to new structure */}
               <Route path="/chain-of-reasoning" element={<Navigate to="/patterns/chain-of-reasoning" replace />} />
 
@@ -171,6 +171,20 @@ describe('EventList', () => {
     });
   });
 
+  describe('direction markers', () => {
+    it('should mark events sent by the client', () => {
+      const events = [
+        createMockCapturedEvent(0, 'await_input'),
+        { ...createMockCapturedEvent(1, 'input_submission'), direction: 'outbound' as const },
+      ];
+
+      render(<EventList events={events} />);
+
+      expect(screen.getAllByText('↑ sent')).toHaveLength(1);
+      expect(screen.getByTitle('Sent by the client')).toBeInTheDocument();
+    });
+  });
+
   describe('timestamps', () => {
     it('should display timestamps in correct format', () => {
       const timestamp = new Date('2024-01-01T12:34:56.789Z').getTime();
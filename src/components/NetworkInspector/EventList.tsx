@@ -36,6 +36,7 @@ export interface EventListProps {
  *
  * Displays a scrollable list of stream events with:
  * - Event type badges
+ * - Direction markers for events the client sent (bidirectional sessions)
  * - Timestamps
  * - Compact preview of event data
  * - Selection highlighting
@@ -67,18 +68,42 @@ export function EventList({
       reasoning: '#0969da',
       answer: '#1a7f37',
       memory: '#8250df',
+      'memory.create': '#8250df',
+      'memory.update': '#8250df',
+      'memory.prune': '#cf222e',
+      'memory.pin': '#bf8700',
+      message: '#1a7f37',
       await_input: '#bf8700',
       input_submission: '#9a6700',
+      text: '#1a7f37',
+      resume: '#0969da',
+      timeout: '#bc4c00',
       checkpoint: '#0969da',
       validation: '#cf222e',
+      checkpoint_response: '#9a6700',
+      checkpoint_resume: '#0969da',
+      budget_analysis: '#6639ba',
+      final_plan: '#1a7f37',
       schema: '#6639ba',
       table_row: '#0969da',
       table_meta: '#57606a',
       agent_patch: '#8250df',
       user_patch: '#1f883d',
+      patch_ack: '#0969da',
+      section_complete: '#1a7f37',
+      conflict: '#cf222e',
       schema_definition: '#6639ba',
       payload: '#0969da',
+      payload_delta: '#0969da',
       schema_error: '#d1242f',
+      tool_call_start: '#8250df',
+      tool_call_delta: '#8250df',
+      tool_result: '#1a7f37',
+      tool_error: '#cf222e',
+      agent_spawn: '#0550ae',
+      agent_event: '#57606a',
+      agent_complete: '#1a7f37',
+      reconnected: '#bc4c00',
     };
 
     return colorMap[type] || '#57606a';
@@ -224,6 +249,20 @@ export function EventList({
                       #{captured.sequence}
                     </span>
 
+                    {/* Direction marker */}
+                    {captured.direction === 'outbound' && (
+                      <span
+                        title="Sent by the client"
+                        style={{
+                          fontSize: '11px',
+                          fontWeight: 600,
+                          color: '#9a6700',
+                        }}
+                      >
+                        ↑ sent
+                      </span>
+                    )}
+
                     {/* Event type badge */}
                     <span
                       style={{
@@ -98,6 +98,31 @@ describe('NetworkInspector', () => {
       expect(onExportEvents).toHaveBeenCalled();
     });
 
+    it('should disable save fixture button when no events', () => {
+      render(<NetworkInspector events={[]} />);
+
+      expect(screen.getByText('Save fixture')).toBeDisabled();
+    });
+
+    it('should download the session as a fixture', async () => {
+      const user = userEvent.setup();
+      const createObjectURL = vi.fn((_blob: Blob) => 'blob:fixture');
+      vi.stubGlobal('URL', { createObjectURL, revokeObjectURL: vi.fn() });
+
+      render(
+        <NetworkInspector
+          events={[createMockCapturedEvent(0, 'answer', { text: 'Hi', isFinal: true })]}
+          pattern="chain-of-reasoning"
+        />
+      );
+
+      await user.click(screen.getByText('Save fixture'));
+
+      const fixture = JSON.parse(await createObjectURL.mock.calls[0][0].text());
+      expect(fixture.metadata).toMatchObject({ pattern: 'chain-of-reasoning', eventCount: 1 });
+      vi.unstubAllGlobals();
+    });
+
     it('should render clear button', () => {
       render(<NetworkInspector events={[createMockCapturedEvent(0)]} />);
 
@@ -242,6 +267,12 @@ describe('NetworkInspector', () => {
       const activeButton = screen.getByRole('button', { name: /reasoning \(1\)/ });
       expect(activeButton.getAttribute('aria-pressed')).toBe('true');
     });
+
+    it('should only show channel filters for multiplexed streams', () => {
+      render(<NetworkInspector events={[createMockCapturedEvent(0)]} />);
+
+      expect(screen.queryByRole('button', { name: /^Channel / })).not.toBeInTheDocument();
+    });
   });
 
   describe('event selection and details', () => {
@@ -396,6 +427,27 @@ describe('NetworkInspector', () => {
   });
 
   describe('event filtering', () => {
+    it('should filter events by channel when a channel badge is clicked', async () => {
+      const user = userEvent.setup();
+      const onFilterChange = vi.fn();
+      const onChannel = (sequence: number, channel: string): CapturedEvent => {
+        const captured = createMockCapturedEvent(sequence, 'answer');
+        return { ...captured, event: { ...captured.event, channel } };
+      };
+      const events = [onChannel(0, 'thoughts'), onChannel(1, 'tokens'), onChannel(2, 'tokens')];
+
+      const { container } = render(
+        <NetworkInspector events={events} onFilterChange={onFilterChange} />
+      );
+
+      const channelButton = screen.getByRole('button', { name: 'Channel tokens (2)' });
+      await user.click(channelButton);
+
+      expect(onFilterChange).toHaveBeenCalledWith({ channels: ['tokens'] });
+      expect(channelButton.getAttribute('aria-pressed')).toBe('true');
+      expect(container.querySelectorAll('[role="button"]').length).toBe(2);
+    });
+
     it('should filter events by type when badge is clicked', async () => {
       const user = userEvent.setup();
       const events = [
@@ -10,6 +10,8 @@
 import React, { useState, useCallback } from 'react';
 import type { CapturedEvent, EventFilter } from '@/lib/hooks/useNetworkCapture';
 import type { EventType } from '@/types/events';
+import { recordCapturedEvents, serializeFixture } from '@/lib/streaming/fixtureRecorder';
+import { getEventChannel } from '@/lib/streaming/multiplex';
 import { EventList } from './EventList';
 import { JsonViewer } from './JsonViewer';
 
@@ -32,6 +34,9 @@ export interface NetworkInspectorProps {
   /** Callback to export events */
   onExportEvents?: () => void;
 
+  /** Pattern the captured events belong to (recorded in saved fixtures) */
+  pattern?: string;
+
   /** Optional CSS class name */
   className?: string;
 
@@ -42,15 +47,37 @@ export interface NetworkInspectorProps {
   title?: string;
 }
 
+/**
+ * Download a JSON string as a file
+ *
+ * @param json - File contents
+ * @param filename - Suggested file name
+ */
+function downloadJson(json: string, filename: string): void {
+  const blob = new Blob([json], { type: 'application/json' });
+  // eslint-disable-next-line no-undef
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  // eslint-disable-next-line no-undef
+  URL.revokeObjectURL(url);
+}
+
 /**
  * Network Inspector - Developer tool for visualizing stream events
  *
  * This component provides a comprehensive view of all streaming events with:
  * - Real-time event capture and display
  * - Filtering by event type
+ * - Filtering by channel, for multiplexed streams
  * - Search functionality
  * - Detailed JSON inspection
  * - Export to JSON file
+ * - Save the session as a replayable fixture
  * - Event statistics
  *
  * Performance Characteristics:
@@ -84,6 +111,7 @@ export function NetworkInspector({
   onFilterChange,
   onClearEvents,
   onExportEvents,
+  pattern,
   className = '',
   compact = false,
   title = 'Network Inspector',
@@ -95,6 +123,9 @@ export function NetworkInspector({
   const [selectedTypes, setSelectedTypes] = useState<EventType[]>(
     filter.types || []
   );
+  const [selectedChannels, setSelectedChannels] = useState<string[]>(
+    filter.channels || []
+  );
   const [isCollapsed, setIsCollapsed] = useState(false);
 
   /**
@@ -129,6 +160,24 @@ export function NetworkInspector({
     [selectedTypes, filter, onFilterChange]
   );
 
+  /**
+   * Handle channel filter toggle
+   */
+  const handleChannelToggle = useCallback(
+    (channel: string): void => {
+      const newChannels = selectedChannels.includes(channel)
+        ? selectedChannels.filter((c) => c !== channel)
+        : [...selectedChannels, channel];
+
+      setSelectedChannels(newChannels);
+      onFilterChange?.({
+        ...filter,
+        channels: newChannels.length > 0 ? newChannels : undefined,
+      });
+    },
+    [selectedChannels, filter, onFilterChange]
+  );
+
   /**
    * Handle export to JSON file
    */
@@ -139,21 +188,19 @@ export function NetworkInspector({
     }
 
     // Default export implementation
-    const jsonStr = JSON.stringify(events, null, 2);
-    // eslint-disable-next-line no-undef
-    const blob = new Blob([jsonStr], { type: 'application/json' });
-    // eslint-disable-next-line no-undef
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `network-events-${Date.now()}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    // eslint-disable-next-line no-undef
-    URL.revokeObjectURL(url);
+    downloadJson(JSON.stringify(events, null, 2), `network-events-${Date.now()}.json`);
   }, [events, onExportEvents]);
 
+  /**
+   * Save the captured session as a fixture JSON file
+   */
+  const handleSaveFixture = useCallback((): void => {
+    const id = `${pattern ?? 'session'}-recording-${Date.now()}`;
+    const fixture = recordCapturedEvents(events, { id, pattern });
+
+    downloadJson(serializeFixture(fixture), `${id}.json`);
+  }, [events, pattern]);
+
   /**
    * Get unique event types from captured events
    */
@@ -161,6 +208,22 @@ export function NetworkInspector({
     new Set(events.map((e) => e.event.type))
   ).sort();
 
+  /**
+   * Get channels of captured events (only shown for multiplexed streams)
+   */
+  const uniqueChannels = events.some((e) => e.event.channel !== undefined)
+    ? Array.from(new Set(events.map((e) => getEventChannel(e.event)))).sort()
+    : [];
+
+  const eventCountByChannel = events.reduce(
+    (acc, captured) => {
+      const channel = getEventChannel(captured.event);
+      acc[channel] = (acc[channel] || 0) + 1;
+      return acc;
+    },
+    {} as Record<string, number>
+  );
+
   /**
    * Get event count by type for statistics
    */
@@ -176,6 +239,7 @@ export function NetworkInspector({
   /**
    * Filter events based on current filter settings
    * - Type filter: Show only events matching selected types (OR logic)
+   * - Channel filter: Show only events on selected channels (OR logic)
    * - Search filter: Search across event type, data, and timestamps
    */
   const filteredEvents = events.filter((captured) => {
@@ -186,6 +250,13 @@ export function NetworkInspector({
       }
     }
 
+    // Apply channel filter if channels are selected
+    if (selectedChannels.length > 0) {
+      if (!selectedChannels.includes(getEventChannel(captured.event))) {
+        return false;
+      }
+    }
+
     // Apply search filter if search query exists
     if (searchQuery.trim()) {
       const query = searchQuery.toLowerCase();
@@ -309,6 +380,23 @@ export function NetworkInspector({
           >
             Export
           </button>
+          <button
+            onClick={handleSaveFixture}
+            disabled={events.length === 0}
+            style={{
+              padding: '4px 12px',
+              fontSize: '12px',
+              fontWeight: 500,
+              color: events.length === 0 ? '#8c959f' : '#24292f',
+              backgroundColor: '#ffffff',
+              border: '1px solid #d0d7de',
+              borderRadius: '6px',
+              cursor: events.length === 0 ? 'not-allowed' : 'pointer',
+            }}
+            title="Save this session as a replayable fixture"
+          >
+            Save fixture
+          </button>
           <button
             onClick={onClearEvents}
             disabled={events.length === 0}
@@ -405,6 +493,42 @@ export function NetworkInspector({
                 })}
               </div>
             )}
+
+            {/* Channel filters */}
+            {uniqueChannels.length > 0 && (
+              <div
+                style={{
+                  display: 'flex',
+                  flexWrap: 'wrap',
+                  gap: '6px',
+                  marginTop: '6px',
+                }}
+              >
+                {uniqueChannels.map((channel) => {
+                  const isSelected = selectedChannels.includes(channel);
+                  return (
+                    <button
+                      key={channel}
+                      onClick={() => handleChannelToggle(channel)}
+                      style={{
+                        padding: '4px 8px',
+                        fontSize: '11px',
+                        fontWeight: 500,
+                        color: isSelected ? '#ffffff' : '#8250df',
+                        backgroundColor: isSelected ? '#8250df' : '#fbefff',
+                        border: '1px solid #d0d7de',
+                        borderRadius: '12px',
+                        cursor: 'pointer',
+                      }}
+                      aria-pressed={isSelected}
+                      aria-label={`Channel ${channel} (${eventCountByChannel[channel]})`}
+                    >
+                      #{channel} ({eventCountByChannel[channel]})
+                    </button>
+                  );
+                })}
+              </div>
+            )}
           </div>
 
           {/* Main content area */}
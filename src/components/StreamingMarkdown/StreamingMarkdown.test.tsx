@@ -0,0 +1,76 @@
+/**
+ * StreamingMarkdown Component Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { StreamingMarkdown } from './StreamingMarkdown';
+
+describe('StreamingMarkdown', () => {
+  describe('Rendering', () => {
+    it('should render headings, lists, tables and code', () => {
+      render(
+        <StreamingMarkdown
+          text={
+            '# Sprint 24\n\n- **Auth** overhaul\n- Dashboard\n\n| Item | Points |\n|:--|--:|\n| Auth | 13 |\n\n```ts\nconst points = 13;\n```'
+          }
+        />
+      );
+
+      expect(screen.getByRole('heading', { name: 'Sprint 24' })).toBeInTheDocument();
+      expect(screen.getAllByRole('listitem')).toHaveLength(2);
+      expect(screen.getByText('Auth', { selector: 'strong' })).toBeInTheDocument();
+      expect(screen.getByRole('cell', { name: '13' })).toHaveStyle({ textAlign: 'right' });
+      expect(screen.getByText('const points = 13;')).toHaveClass('language-ts');
+    });
+
+    it('should only render safe link targets as links', () => {
+      render(
+        <StreamingMarkdown text="[history](https://example.com) [bad](javascript:alert(1))" />
+      );
+
+      expect(screen.getByRole('link', { name: 'history' })).toHaveAttribute(
+        'href',
+        'https://example.com'
+      );
+      expect(screen.queryByRole('link', { name: 'bad' })).not.toBeInTheDocument();
+      expect(screen.getByText(/bad/)).toBeInTheDocument();
+    });
+  });
+
+  describe('Streaming', () => {
+    it('should render partial markdown and mark the region busy', () => {
+      const { container } = render(
+        <StreamingMarkdown text={'Setup:\n\n```ts\nconst committed ='} streaming />
+      );
+
+      expect(screen.getByText('const committed =')).toBeInTheDocument();
+      expect(screen.getByTestId('streaming-markdown')).toHaveAttribute('aria-busy', 'true');
+      expect(container.querySelector('[aria-hidden="true"]')).toBeInTheDocument();
+    });
+
+    it('should keep finished blocks while the tail grows', () => {
+      const { rerender } = render(
+        <StreamingMarkdown text={'# Plan\n\nIntro paragraph.\n\n- item'} streaming />
+      );
+      const heading = screen.getByRole('heading', { name: 'Plan' });
+
+      rerender(
+        <StreamingMarkdown text={'# Plan\n\nIntro paragraph.\n\n- item one\n- item'} streaming />
+      );
+
+      expect(screen.getByRole('heading', { name: 'Plan' })).toBe(heading);
+      expect(screen.getAllByRole('listitem')).toHaveLength(2);
+    });
+
+    it('should render unmatched markers as text once complete', () => {
+      const { rerender } = render(<StreamingMarkdown text="Total: **29" streaming />);
+      expect(screen.getByText('29', { selector: 'strong' })).toBeInTheDocument();
+
+      rerender(<StreamingMarkdown text="Total: **29" />);
+
+      expect(screen.getByText('Total: **29')).toBeInTheDocument();
+      expect(screen.getByTestId('streaming-markdown')).toHaveAttribute('aria-busy', 'false');
+    });
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * StreamingMarkdown Component - StreamFlow PM Design System
+ *
+ * Renders markdown that is still being streamed. The text is handed to an
+ * IncrementalMarkdownParser, so each update only re-parses the open tail of
+ * the document, and finished blocks keep their identity and skip re-render.
+ *
+ * Features:
+ * - Tolerates unterminated code fences, lists, tables and emphasis mid-stream
+ * - Headings, paragraphs, lists, tables, block quotes, code and rules
+ * - Only safe link targets (http, https, mailto, relative) become links
+ * - Streaming cursor and aria-busy while text is arriving
+ *
+ * @example
+ * ```tsx
+ * <StreamingMarkdown text={answer} streaming={isStreaming} />
+ * ```
+ */
+
+import { memo, useMemo, useRef } from 'react';
+import {
+  IncrementalMarkdownParser,
+  type InlineNode,
+  type MarkdownBlock,
+  type TableAlignment,
+} from '@/lib/markdown/incrementalMarkdown';
+import styles from './StreamingMarkdown.module.css';
+
+export interface StreamingMarkdownProps {
+  /**
+   * Markdown received so far
+   */
+  text: string;
+
+  /**
+   * Whether more text may still arrive
+   * @default false
+   */
+  streaming?: boolean;
+
+  /**
+   * Optional className for additional styling
+   */
+  className?: string;
+}
+
+/**
+ * Link targets that are safe to render as anchors
+ */
+const SAFE_HREF = /^(?:https?:|mailto:|[^:]*$)/i;
+
+/**
+ * Render inline nodes
+ */
+function InlineContent({ nodes }: { nodes: InlineNode[] }): JSX.Element {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        switch (node.kind) {
+          case 'text':
+            return node.text;
+          case 'break':
+            return <br key={index} />;
+          case 'code':
+            return (
+              <code key={index} className={styles.inlineCode}>
+                {node.text}
+              </code>
+            );
+          case 'strong':
+            return (
+              <strong key={index}>
+                <InlineContent nodes={node.children} />
+              </strong>
+            );
+          case 'emphasis':
+            return (
+              <em key={index}>
+                <InlineContent nodes={node.children} />
+              </em>
+            );
+          case 'link':
+            return SAFE_HREF.test(node.href) ? (
+              <a key={index} href={node.href} className={styles.link}>
+                <InlineContent nodes={node.children} />
+              </a>
+            ) : (
+              <InlineContent key={index} nodes={node.children} />
+            );
+        }
+      })}
+    </>
+  );
+}
+
+/**
+ * Convert a column alignment to a style
+ */
+function alignStyle(align: TableAlignment | undefined) {
+  return align ? { textAlign: align } : undefined;
+}
+
+/**
+ * Render one block
+ *
+ * Memoized so blocks the parser has marked stable (same object) are skipped.
+ * Headings are shifted down two levels so an answer's `#` title nests under
+ * the page's own headings.
+ */
+const MarkdownBlockView = memo(function MarkdownBlockView({
+  block,
+}: {
+  block: MarkdownBlock;
+}): JSX.Element {
+  switch (block.kind) {
+    case 'heading': {
+      const Heading = `h${Math.min(block.level + 2, 6)}` as 'h3' | 'h4' | 'h5' | 'h6';
+      return (
+        <Heading className={styles.heading}>
+          <InlineContent nodes={block.content} />
+        </Heading>
+      );
+    }
+    case 'paragraph':
+      return (
+        <p className={styles.paragraph}>
+          <InlineContent nodes={block.content} />
+        </p>
+      );
+    case 'code':
+      return (
+        <pre className={styles.codeBlock} data-closed={block.closed}>
+          <code className={block.language ? `language-${block.language}` : undefined}>
+            {block.code}
+          </code>
+        </pre>
+      );
+    case 'list': {
+      const items = block.items.map((item, index) => (
+        <li key={index}>
+          <InlineContent nodes={item.content} />
+          {item.children.map((child, childIndex) => (
+            <MarkdownBlockView key={childIndex} block={child} />
+          ))}
+        </li>
+      ));
+      return block.ordered ? (
+        <ol className={styles.list} start={block.start}>
+          {items}
+        </ol>
+      ) : (
+        <ul className={styles.list}>{items}</ul>
+      );
+    }
+    case 'table':
+      return (
+        <div className={styles.tableWrapper}>
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                {block.header.map((cell, index) => (
+                  <th key={index} style={alignStyle(block.align[index])}>
+                    <InlineContent nodes={cell} />
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((cell, index) => (
+                    <td key={index} style={alignStyle(block.align[index])}>
+                      <InlineContent nodes={cell} />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'blockquote':
+      return (
+        <blockquote className={styles.blockquote}>
+          {block.children.map((child, index) => (
+            <MarkdownBlockView key={index} block={child} />
+          ))}
+        </blockquote>
+      );
+    case 'rule':
+      return <hr className={styles.rule} />;
+  }
+});
+
+/**
+ * StreamingMarkdown component
+ */
+export function StreamingMarkdown({
+  text,
+  streaming = false,
+  className = '',
+}: StreamingMarkdownProps): JSX.Element {
+  const parserRef = useRef<IncrementalMarkdownParser | null>(null);
+  if (parserRef.current === null) {
+    parserRef.current = new IncrementalMarkdownParser();
+  }
+
+  const parser = parserRef.current;
+  const blocks = useMemo(() => parser.setText(text, !streaming), [parser, text, streaming]);
+
+  const classNames = [styles.markdown, className].filter(Boolean).join(' ');
+
+  return (
+    <div className={classNames} aria-busy={streaming} data-testid="streaming-markdown">
+      {blocks.map((block, index) => (
+        <MarkdownBlockView key={index} block={block} />
+      ))}
+      {streaming && <span className={styles.cursor} aria-hidden="true" />}
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+/**
+ * Streaming Markdown Component - Barrel Export
+ */
+
+export { StreamingMarkdown } from './StreamingMarkdown';
+export type { StreamingMarkdownProps } from './StreamingMarkdown';
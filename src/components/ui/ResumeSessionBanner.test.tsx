@@ -0,0 +1,81 @@
+/**
+ * ResumeSessionBanner Component Tests
+ *
+ * Tests for the banner offering to resume a run saved before a reload.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ResumeSessionBanner } from './ResumeSessionBanner';
+
+describe('ResumeSessionBanner', () => {
+  it('describes how far the saved run got', () => {
+    render(
+      <ResumeSessionBanner
+        eventCount={12}
+        savedAt={Date.now()}
+        onResume={vi.fn()}
+        onDiscard={vi.fn()}
+      />
+    );
+
+    expect(screen.getByRole('region', { name: 'Unfinished run' })).toHaveTextContent(
+      'Your last run stopped after 12 events'
+    );
+  });
+
+  it('uses the singular for one event', () => {
+    render(
+      <ResumeSessionBanner
+        eventCount={1}
+        savedAt={Date.now()}
+        onResume={vi.fn()}
+        onDiscard={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText(/stopped after 1 event\b/)).toBeInTheDocument();
+  });
+
+  it('names the prompt the run was waiting on', () => {
+    render(
+      <ResumeSessionBanner
+        eventCount={5}
+        savedAt={Date.now()}
+        pending={{
+          id: 'await-1',
+          type: 'await_input',
+          timestamp: 1000,
+          data: { requestId: 'r1', prompt: 'Project details?', inputType: 'text' },
+        }}
+        onResume={vi.fn()}
+        onDiscard={vi.fn()}
+      />
+    );
+
+    expect(
+      screen.getByText('It is waiting for your answer to “Project details?”')
+    ).toBeInTheDocument();
+  });
+
+  it('calls onResume and onDiscard from its buttons', async () => {
+    const user = userEvent.setup();
+    const onResume = vi.fn();
+    const onDiscard = vi.fn();
+    render(
+      <ResumeSessionBanner
+        eventCount={3}
+        savedAt={Date.now()}
+        onResume={onResume}
+        onDiscard={onDiscard}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Resume where you left off' }));
+    expect(onResume).toHaveBeenCalledTimes(1);
+
+    await user.click(screen.getByRole('button', { name: 'Start over' }));
+    expect(onDiscard).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * ResumeSessionBanner Component - StreamFlow PM Design System
+ *
+ * Offers to resume a run interrupted by a page reload, for demos whose
+ * stream saves its progress (see lib/streaming/sessionPersistence). A run
+ * that stopped on a prompt says which question is still waiting.
+ *
+ * @example
+ * ```tsx
+ * {savedSession && !isStreaming && (
+ *   <ResumeSessionBanner
+ *     eventCount={savedSession.position}
+ *     savedAt={savedSession.savedAt}
+ *     pending={savedSession.pending}
+ *     onResume={resumeSession}
+ *     onDiscard={discardSession}
+ *   />
+ * )}
+ * ```
+ */
+
+import type { PendingPrompt } from '@/lib/streaming/sessionPersistence';
+import { Button } from './Button';
+import { Card } from './Card';
+import styles from './ResumeSessionBanner.module.css';
+
+export interface ResumeSessionBannerProps {
+  /**
+   * Events the saved run had received
+   */
+  eventCount: number;
+
+  /**
+   * When the run was saved (ms since the epoch)
+   */
+  savedAt: number;
+
+  /**
+   * Await-input or checkpoint prompt the run was waiting on, if any
+   */
+  pending?: PendingPrompt | null;
+
+  /**
+   * Continue the saved run
+   */
+  onResume: () => void;
+
+  /**
+   * Drop the saved run
+   */
+  onDiscard: () => void;
+
+  /**
+   * Optional className for additional styling
+   */
+  className?: string;
+}
+
+/**
+ * ResumeSessionBanner component for offering a saved run after a reload
+ */
+export function ResumeSessionBanner({
+  eventCount,
+  savedAt,
+  pending = null,
+  onResume,
+  onDiscard,
+  className = '',
+}: ResumeSessionBannerProps): JSX.Element {
+  const savedTime = new Date(savedAt).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  const question =
+    pending?.type === 'await_input'
+      ? pending.data.prompt
+      : (pending?.data.question ?? pending?.data.name);
+
+  return (
+    <Card
+      className={`${styles.banner} ${className}`}
+      variant="outlined"
+      padding="md"
+      role="region"
+      aria-label="Unfinished run"
+    >
+      <div className={styles.content}>
+        <p className={styles.message}>
+          Your last run stopped after {eventCount} {eventCount === 1 ? 'event' : 'events'}{' '}
+          <span className={styles.savedAt}>(saved at {savedTime})</span>
+          {question && (
+            <span className={styles.pending}>It is waiting for your answer to “{question}”</span>
+          )}
+        </p>
+        <div className={styles.actions}>
+          <Button onClick={onResume} variant="primary" size="sm">
+            Resume where you left off
+          </Button>
+          <Button onClick={onDiscard} variant="ghost" size="sm">
+            Start over
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
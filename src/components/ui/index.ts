@@ -21,3 +21,6 @@ export type { SpinnerProps } from './Spinner';
 
 export { ScenarioCard } from './ScenarioCard';
 export type { ScenarioCardProps } from './ScenarioCard';
+
+export { ResumeSessionBanner } from './ResumeSessionBanner';
+export type { ResumeSessionBannerProps } from './ResumeSessionBanner';
@@ -13,8 +13,18 @@ export type {
   NetworkCaptureResult,
 } from './useNetworkCapture';
 
+export { useSessionPersistence } from './useSessionPersistence';
+export type {
+  UseSessionPersistenceOptions,
+  UseSessionPersistenceResult,
+} from './useSessionPersistence';
+
+export { useLifecycle } from './useLifecycle';
+export type { UseLifecycleOptions, UseLifecycleResult } from './useLifecycle';
+
 export { useStreamProcessor } from './useStreamProcessor';
 export type {
+  StreamProcessorState,
   UseStreamProcessorOptions,
   UseStreamProcessorResult,
 } from './useStreamProcessor';
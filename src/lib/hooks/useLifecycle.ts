@@ -0,0 +1,96 @@
+/**
+ * Lifecycle Hook
+ *
+ * Binds a lifecycle state machine (lib/streaming/lifecycle) to React, for
+ * pattern hooks that drive their own streams. Each transition is checked
+ * against the shared table, so a pattern hook rejects an invalid transition
+ * exactly like StreamSession and useStreamProcessor do.
+ *
+ * @module lib/hooks/useLifecycle
+ */
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import {
+  createLifecycle,
+  type LifecycleAction,
+  type LifecycleEvent,
+  type LifecyclePhase,
+  type LifecycleTransition,
+} from '@/lib/streaming/lifecycle';
+
+/**
+ * Options for useLifecycle
+ */
+export interface UseLifecycleOptions {
+  /** What is transitioning, used in error messages (default: 'demo') */
+  subject?: string;
+
+  /** Called after each transition */
+  onTransition?: (transition: LifecycleTransition) => void;
+}
+
+/**
+ * Result returned by useLifecycle
+ */
+export interface UseLifecycleResult {
+  /** Current phase */
+  phase: LifecyclePhase;
+
+  /** Check whether the current phase accepts an action */
+  can: (action: LifecycleAction) => boolean;
+
+  /** Apply an action; throws LifecycleTransitionError and stays put if invalid */
+  transition: (action: LifecycleAction) => LifecyclePhase;
+
+  /** Apply the transition an event implies, if the current phase accepts it */
+  observe: (event: LifecycleEvent) => LifecyclePhase;
+
+  /** Begin a new run from any phase: reset (unless idle), then start */
+  restart: () => LifecyclePhase;
+}
+
+/**
+ * Hook for a component-owned stream lifecycle
+ *
+ * The functions read the machine rather than the rendered phase, so stream
+ * loops running between renders see transitions immediately. They are
+ * stable across renders.
+ *
+ * @param options - Subject for error messages and a transition observer
+ * @returns Current phase and guarded transition functions
+ *
+ * @example
+ * ```typescript
+ * const lifecycle = useLifecycle();
+ *
+ * const start = async () => {
+ *   lifecycle.restart();
+ *   for await (const event of stream) {
+ *     lifecycle.observe(event);
+ *     handle(event);
+ *   }
+ *   lifecycle.transition('complete');
+ * };
+ *
+ * return <button disabled={!lifecycle.can('pause')}>Pause</button>;
+ * ```
+ */
+export function useLifecycle(options: UseLifecycleOptions = {}): UseLifecycleResult {
+  const { subject = 'demo', onTransition } = options;
+  const [machine] = useState(() => createLifecycle({ subject }));
+  const phase = useSyncExternalStore(machine.subscribe, machine.getPhase);
+
+  useEffect(() => {
+    if (onTransition) {
+      return machine.subscribe(onTransition);
+    }
+  }, [machine, onTransition]);
+
+  return {
+    phase,
+    can: machine.can,
+    transition: machine.transition,
+    observe: machine.observe,
+    restart: machine.restart,
+  };
+}
@@ -6,6 +6,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useNetworkCapture } from './useNetworkCapture';
 import type { StreamEvent } from '@/types/events';
+import type { EnrichedStreamEvent } from '@/lib/streaming/streamSession';
 
 describe('useNetworkCapture', () => {
   // Helper to create mock events
@@ -54,6 +55,24 @@ describe('useNetworkCapture', () => {
       expect(result.current.events[2].sequence).toBe(2);
     });
 
+    it('should record the direction of outbound events', () => {
+      const { result } = renderHook(() => useNetworkCapture());
+      const outbound: EnrichedStreamEvent = {
+        ...createMockEvent('input_submission'),
+        metadata: { source: 'mock', sessionId: 's1', sequenceNumber: 1, direction: 'outbound' },
+      };
+
+      act(() => {
+        result.current.captureEvent(createMockEvent('await_input'));
+        result.current.captureEvent(outbound);
+      });
+
+      expect(result.current.events.map((captured) => captured.direction)).toEqual([
+        'inbound',
+        'outbound',
+      ]);
+    });
+
     it('should set capturedAt timestamp', () => {
       const { result } = renderHook(() => useNetworkCapture());
 
@@ -147,6 +166,25 @@ describe('useNetworkCapture', () => {
       expect(result.current.filteredEvents).toHaveLength(2);
     });
 
+    it('should filter by channel, treating untagged events as the default channel', () => {
+      const { result } = renderHook(() => useNetworkCapture());
+
+      act(() => {
+        result.current.captureEvent(createMockEvent('reasoning', { channel: 'reasoning' }));
+        result.current.captureEvent(createMockEvent('answer', { channel: 'answer' }));
+        result.current.captureEvent(createMockEvent('memory'));
+      });
+
+      act(() => {
+        result.current.setFilter({ channels: ['answer', 'default'] });
+      });
+
+      expect(result.current.filteredEvents.map((captured) => captured.event.type)).toEqual([
+        'answer',
+        'memory',
+      ]);
+    });
+
     it('should filter by search query in event type', () => {
       const { result } = renderHook(() => useNetworkCapture());
 
@@ -9,6 +9,9 @@
 
 import { useState, useCallback, useMemo } from 'react';
 import type { StreamEvent, EventType } from '@/types/events';
+import type { EventDirection } from '@/lib/streaming/inboundChannel';
+import { getEventChannel } from '@/lib/streaming/multiplex';
+import type { EnrichedStreamEvent } from '@/lib/streaming/streamSession';
 
 /**
  * Captured event with additional metadata for network inspector
@@ -22,6 +25,9 @@ export interface CapturedEvent {
 
   /** Capture timestamp (may differ from event timestamp) */
   capturedAt: number;
+
+  /** 'outbound' for events the client sent to the stream (default: 'inbound') */
+  direction?: EventDirection;
 }
 
 /**
@@ -31,6 +37,9 @@ export interface EventFilter {
   /** Filter by event types */
   types?: EventType[];
 
+  /** Filter by channel (multiplexed streams; 'default' matches events without one) */
+  channels?: string[];
+
   /** Search query for event content */
   search?: string;
 
@@ -78,7 +87,7 @@ export interface NetworkCaptureResult {
  *
  * This hook provides:
  * - Real-time event capture with minimal performance impact
- * - Filtering by type, search query, and time range
+ * - Filtering by type, channel, search query, and time range
  * - Export functionality for debugging
  * - Event statistics
  *
@@ -107,6 +116,7 @@ export function useNetworkCapture(): NetworkCaptureResult {
    */
   const captureEvent = useCallback((event: StreamEvent): void => {
     const capturedAt = Date.now();
+    const direction = (event as EnrichedStreamEvent).metadata?.direction ?? 'inbound';
 
     setEvents((prev) => [
       ...prev,
@@ -114,6 +124,7 @@ export function useNetworkCapture(): NetworkCaptureResult {
         event,
         sequence: prev.length,
         capturedAt,
+        direction,
       },
     ]);
   }, []);
@@ -139,6 +150,13 @@ export function useNetworkCapture(): NetworkCaptureResult {
       );
     }
 
+    // Filter by channel
+    if (filter.channels && filter.channels.length > 0) {
+      result = result.filter((captured) =>
+        filter.channels?.includes(getEventChannel(captured.event))
+      );
+    }
+
     // Filter by search query
     if (filter.search && filter.search.trim() !== '') {
       const searchLower = filter.search.toLowerCase();
@@ -0,0 +1,193 @@
+/**
+ * Session Persistence Hook
+ *
+ * Saves the runs of a pattern hook (see lib/streaming/sessionPersistence) so
+ * a reload can offer to resume them. Pattern hooks keep their state in React
+ * rather than in a stream store, so the events of the run are saved instead
+ * (`RecordedRun`): the ones the stream delivered and the answers the client
+ * sent. Resuming reads the saved events through the hook again, which
+ * rebuilds its state in one pass, and continues the stream after them.
+ *
+ * @module lib/hooks/useSessionPersistence
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { StreamEvent } from '@/types/events';
+import { systemClock, type Clock } from '@/lib/utils/clock';
+import { generateSessionId } from '@/lib/streaming/mockSSE';
+import {
+  clearSession,
+  createSessionRecorder,
+  isSentEvent,
+  loadSession,
+  pruneSessions,
+  type PersistedSession,
+  type RecordedRun,
+  type SessionRecorder,
+} from '@/lib/streaming/sessionPersistence';
+
+/**
+ * Options for useSessionPersistence
+ */
+export interface UseSessionPersistenceOptions {
+  /** Key to save runs under; nothing is saved or offered without one */
+  persistKey?: string;
+
+  /** Clock for save throttling, `savedAt` and expiry (default: systemClock) */
+  clock?: Clock;
+}
+
+/**
+ * Result returned by useSessionPersistence
+ */
+export interface UseSessionPersistenceResult {
+  /** Run saved before a reload, until a run begins or it is discarded */
+  savedSession: PersistedSession<RecordedRun> | null;
+
+  /**
+   * Start recording a run of a scenario, prompt or fixture, optionally
+   * continuing a saved one
+   *
+   * @returns Session ID for the run (the saved one when resuming)
+   */
+  begin: (fixtureId?: string, resumed?: PersistedSession<RecordedRun> | null) => string;
+
+  /** Record an event delivered or sent (events of the resumed run are skipped) */
+  observe: (event: StreamEvent) => void;
+
+  /** End the run: a closed run has nothing to resume; a failed one keeps its progress */
+  finish: (status: 'closed' | 'error') => void;
+
+  /** Drop the saved session */
+  discardSession: () => void;
+}
+
+/**
+ * Hook for saving and resuming the runs of a pattern hook
+ *
+ * Progress is saved while the run streams (throttled), when the page is
+ * hidden and when the component unmounts. A run that completes or is
+ * stopped by the user removes its save.
+ *
+ * @param options - Storage key and clock
+ * @returns Saved session and the functions a stream loop calls
+ *
+ * @example
+ * ```typescript
+ * const { savedSession, begin, observe, finish } = useSessionPersistence({
+ *   persistKey: 'tool-use-stream',
+ * });
+ *
+ * const run = async (resumed: PersistedSession<RecordedRun> | null) => {
+ *   const scenario = resumed?.fixtureId ?? selectedScenario;
+ *   const sessionId = begin(scenario, resumed);
+ *   const stream = readPatternStream(createTransport(scenario), readToolUseEvent, {
+ *     sessionId,
+ *     history: resumed?.data.events,
+ *     onEvent: observe,
+ *   });
+ *
+ *   for await (const event of stream) {
+ *     processEvent(event);
+ *   }
+ *   finish('closed');
+ * };
+ * ```
+ */
+export function useSessionPersistence(
+  options: UseSessionPersistenceOptions = {}
+): UseSessionPersistenceResult {
+  const { persistKey, clock = systemClock } = options;
+
+  // Run saved by an earlier page load, offered once on mount
+  const [savedSession, setSavedSession] = useState<PersistedSession<RecordedRun> | null>(() => {
+    if (!persistKey) return null;
+    pruneSessions({ clock });
+    return loadSession<RecordedRun>(persistKey, { clock });
+  });
+
+  const recorderRef = useRef<SessionRecorder<RecordedRun> | null>(null);
+  const runRef = useRef<RecordedRun>({ events: [] });
+  const deliveredRef = useRef(0);
+  const historyRef = useRef<WeakSet<StreamEvent>>(new WeakSet());
+
+  const begin = useCallback(
+    (fixtureId?: string, resumed: PersistedSession<RecordedRun> | null = null): string => {
+      const sessionId = resumed ? resumed.sessionId : generateSessionId();
+      const history = resumed?.data.events ?? [];
+
+      recorderRef.current?.dispose();
+      runRef.current = { events: [...history] };
+      deliveredRef.current = history.filter((event) => !isSentEvent(event)).length;
+      historyRef.current = new WeakSet(history);
+      setSavedSession(null);
+
+      if (!persistKey) {
+        recorderRef.current = null;
+        return sessionId;
+      }
+
+      const recorder = createSessionRecorder<RecordedRun>(persistKey, { fixtureId, clock });
+      recorder.begin(sessionId, resumed);
+      recorderRef.current = recorder;
+      return sessionId;
+    },
+    [persistKey, clock]
+  );
+
+  const observe = useCallback((event: StreamEvent): void => {
+    const recorder = recorderRef.current;
+    if (!recorder || historyRef.current.has(event)) return;
+
+    runRef.current.events.push(event);
+    if (!isSentEvent(event)) {
+      deliveredRef.current++;
+    }
+
+    recorder.observe(event);
+    recorder.record({
+      state: { status: 'active' },
+      phase: 'streaming',
+      data: runRef.current,
+      eventCount: deliveredRef.current,
+    });
+  }, []);
+
+  const finish = useCallback((status: 'closed' | 'error'): void => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+
+    if (status === 'closed') {
+      recorder.record({
+        state: { status: 'closed' },
+        phase: 'closed',
+        data: runRef.current,
+        eventCount: deliveredRef.current,
+      });
+    } else {
+      recorder.flush();
+    }
+    recorder.dispose();
+    recorderRef.current = null;
+  }, []);
+
+  const discardSession = useCallback((): void => {
+    if (persistKey) clearSession(persistKey);
+    setSavedSession(null);
+  }, [persistKey]);
+
+  // Save progress before the page unloads and when the pattern unmounts
+  useEffect(() => {
+    const flush = () => recorderRef.current?.flush();
+    window.addEventListener('pagehide', flush);
+
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+      recorderRef.current?.dispose();
+      recorderRef.current = null;
+    };
+  }, []);
+
+  return { savedSession, begin, observe, finish, discardSession };
+}
@@ -9,6 +9,7 @@
  * - Network Inspector integration
  * - Fixture loading
  * - State management
+ * - Reducers and selectors
  *
  * @module lib/hooks/useStreamProcessor.test
  */
@@ -16,9 +17,11 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { renderHook, waitFor, act } from '@testing-library/react';
 import { useStreamProcessor } from './useStreamProcessor';
+import type { StreamReducer } from '@/lib/streaming/streamReducer';
 import type { StreamEvent, ReasoningEvent, AnswerEvent } from '@/types/events';
 import { registerFixture, clearFixtures, createFixture } from '@/lib/streaming/fixtureRepository';
 import type { DelayProfile } from '@/lib/streaming/mockSSE';
+import { loadSession, saveSession } from '@/lib/streaming/sessionPersistence';
 
 // ============================================================================
 // Test Fixtures
@@ -60,6 +63,26 @@ function createTestFixture(_id: string, eventCount: number): StreamEvent[] {
   return events;
 }
 
+/**
+ * Reasoning steps and answer folded from the test fixture
+ */
+interface ReasoningState {
+  steps: string[];
+  answer: string | null;
+}
+
+const reasoningReducer: StreamReducer<ReasoningState, ReasoningEvent | AnswerEvent> = (
+  state,
+  event
+) => {
+  if (event.type === 'reasoning') {
+    return { ...state, steps: [...state.steps, event.data.summary] };
+  }
+  return { ...state, answer: event.data.text };
+};
+
+const INITIAL_REASONING: ReasoningState = { steps: [], answer: null };
+
 // ============================================================================
 // Test Setup
 // ============================================================================
@@ -109,9 +132,9 @@ describe('useStreamProcessor', () => {
 
       // Initially should be streaming with no events
       expect(result.current.isStreaming).toBe(true);
-      expect(result.current.events).toHaveLength(0);
+      expect(result.current.data).toHaveLength(0);
       expect(result.current.error).toBeNull();
-      expect(result.current.state).toBe('active');
+      expect(result.current.state.status).toBe('active');
 
       // Wait for all events to be processed
       await waitFor(
@@ -122,14 +145,14 @@ describe('useStreamProcessor', () => {
       );
 
       // Should have received all 3 events
-      expect(result.current.events).toHaveLength(3);
-      expect(result.current.events[0].type).toBe('reasoning');
-      expect(result.current.events[1].type).toBe('reasoning');
-      expect(result.current.events[2].type).toBe('answer');
+      expect(result.current.data).toHaveLength(3);
+      expect(result.current.data[0].type).toBe('reasoning');
+      expect(result.current.data[1].type).toBe('reasoning');
+      expect(result.current.data[2].type).toBe('answer');
 
       // Stream should be closed (completed)
       expect(result.current.isStreaming).toBe(false);
-      expect(result.current.state).toBe('closed');
+      expect(result.current.state.status).toBe('closed');
       expect(result.current.error).toBeNull();
     });
 
@@ -149,9 +172,9 @@ describe('useStreamProcessor', () => {
         { timeout: 3000 }
       );
 
-      expect(result.current.events).toHaveLength(10);
+      expect(result.current.data).toHaveLength(10);
       expect(result.current.isStreaming).toBe(false);
-      expect(result.current.state).toBe('closed');
+      expect(result.current.state.status).toBe('closed');
     });
 
     it('should respect delay profiles', async () => {
@@ -194,7 +217,7 @@ describe('useStreamProcessor', () => {
       );
 
       // TypeScript should infer correct event types
-      const events = result.current.events;
+      const events = result.current.data;
       expect(events[0].type).toBe('reasoning');
 
       if (events[0].type === 'reasoning') {
@@ -295,7 +318,7 @@ describe('useStreamProcessor', () => {
       });
 
       expect(result.current.isStreaming).toBe(false);
-      expect(result.current.state).toBe('paused');
+      expect(result.current.state.status).toBe('paused');
 
       // Wait to ensure no new events arrive while paused
       await new Promise((resolve) => setTimeout(resolve, 1000));
@@ -309,7 +332,7 @@ describe('useStreamProcessor', () => {
       });
 
       expect(result.current.isStreaming).toBe(true);
-      expect(result.current.state).toBe('active');
+      expect(result.current.state.status).toBe('active');
 
       // Wait for more events
       await waitFor(
@@ -337,7 +360,8 @@ describe('useStreamProcessor', () => {
       );
 
       expect(result.current.isStreaming).toBe(false);
-      expect(result.current.state).toBe('closed');
+      expect(result.current.state.status).toBe('closed');
+      expect(result.current.phase).toBe('completed');
 
       // Reset the stream
       act(() => {
@@ -361,7 +385,7 @@ describe('useStreamProcessor', () => {
       );
 
       expect(result.current.isStreaming).toBe(false);
-      expect(result.current.state).toBe('closed');
+      expect(result.current.state.status).toBe('closed');
     });
 
     it('should handle multiple pause/resume cycles', async () => {
@@ -378,12 +402,12 @@ describe('useStreamProcessor', () => {
       act(() => {
         result.current.pause();
       });
-      expect(result.current.state).toBe('paused');
+      expect(result.current.state.status).toBe('paused');
 
       act(() => {
         result.current.resume();
       });
-      expect(result.current.state).toBe('active');
+      expect(result.current.state.status).toBe('active');
 
       // Cycle 2: Pause and resume again
       await waitFor(() => expect(result.current.eventCount).toBeGreaterThanOrEqual(5));
@@ -391,12 +415,12 @@ describe('useStreamProcessor', () => {
       act(() => {
         result.current.pause();
       });
-      expect(result.current.state).toBe('paused');
+      expect(result.current.state.status).toBe('paused');
 
       act(() => {
         result.current.resume();
       });
-      expect(result.current.state).toBe('active');
+      expect(result.current.state.status).toBe('active');
 
       // Should eventually complete
       await waitFor(
@@ -406,6 +430,17 @@ describe('useStreamProcessor', () => {
         { timeout: 5000 }
       );
     });
+
+    it('should reject pause and resume outside the streaming and paused phases', () => {
+      const { result } = renderHook(() =>
+        useStreamProcessor({ fixtureId: 'test-fixture-small', autoStart: false })
+      );
+
+      expect(result.current.phase).toBe('idle');
+      expect(() => result.current.pause()).toThrow('Cannot pause: stream not streaming');
+      expect(() => result.current.resume()).toThrow('Cannot resume: stream not paused');
+      expect(result.current.phase).toBe('idle');
+    });
   });
 
   // ==========================================================================
@@ -431,7 +466,7 @@ describe('useStreamProcessor', () => {
 
       expect(result.current.error).toBeInstanceOf(Error);
       expect(result.current.isStreaming).toBe(false);
-      expect(result.current.state).toBe('error');
+      expect(result.current.state).toEqual({ status: 'error', error: result.current.error });
     });
   });
 
@@ -519,7 +554,7 @@ describe('useStreamProcessor', () => {
 
       // Should not be streaming
       expect(result.current.isStreaming).toBe(false);
-      expect(result.current.state).toBe('idle');
+      expect(result.current.state.status).toBe('idle');
 
       // Wait a bit to ensure no events arrive
       await new Promise((resolve) => setTimeout(resolve, 500));
@@ -624,7 +659,7 @@ describe('useStreamProcessor', () => {
 
       // Capture states as they change
       const captureState = () => {
-        const currentState = result.current.state;
+        const currentState = result.current.state.status;
         if (!states.includes(currentState)) {
           states.push(currentState);
         }
@@ -676,7 +711,260 @@ describe('useStreamProcessor', () => {
       }
 
       expect(result.current.eventCount).toBe(10);
-      expect(result.current.events.length).toBe(10);
+      expect(result.current.data.length).toBe(10);
+    });
+  });
+
+  // ==========================================================================
+  // Reducer and Selector Tests
+  // ==========================================================================
+
+  describe('Reducers and Selectors', () => {
+    it('should fold events into reducer state', async () => {
+      const { result } = renderHook(() =>
+        useStreamProcessor({
+          fixtureId: 'test-fixture-small',
+          delayProfile: 'fast',
+          reducer: reasoningReducer,
+          initialState: INITIAL_REASONING,
+        })
+      );
+
+      expect(result.current.data).toBe(INITIAL_REASONING);
+
+      await waitFor(
+        () => {
+          expect(result.current.state.status).toBe('closed');
+        },
+        { timeout: 2000 }
+      );
+
+      expect(result.current.data).toEqual({
+        steps: ['Reasoning step 1', 'Reasoning step 2'],
+        answer: 'Final answer',
+      });
+      expect(result.current.eventCount).toBe(3);
+    });
+
+    it('should restore the initial state on reset', async () => {
+      const { result } = renderHook(() =>
+        useStreamProcessor({
+          fixtureId: 'test-fixture-small',
+          delayProfile: 'fast',
+          reducer: reasoningReducer,
+          initialState: INITIAL_REASONING,
+        })
+      );
+
+      await waitFor(() => expect(result.current.state.status).toBe('closed'), { timeout: 2000 });
+
+      act(() => {
+        result.current.reset();
+      });
+
+      await waitFor(() => expect(result.current.data).toBe(INITIAL_REASONING), { timeout: 1000 });
+      await waitFor(() => expect(result.current.data.answer).toBe('Final answer'), {
+        timeout: 2000,
+      });
+    });
+
+    it('should keep derived values whose content did not change', async () => {
+      const renders: Array<{ data: ReasoningState; labels: string[] }> = [];
+
+      const { result } = renderHook(() => {
+        const processor = useStreamProcessor({
+          fixtureId: 'test-fixture-small',
+          delayProfile: 'fast',
+          reducer: reasoningReducer,
+          initialState: INITIAL_REASONING,
+          // Inline selectors build new arrays on every call
+          selectors: {
+            labels: (state: ReasoningState) => state.steps.map((step) => step.toUpperCase()),
+          },
+        });
+        renders.push({ data: processor.data, labels: processor.derived.labels });
+        return processor;
+      });
+
+      await waitFor(() => expect(result.current.state.status).toBe('closed'), { timeout: 2000 });
+
+      // The answer changed the data after the last step, but not the steps
+      const afterSteps = renders.filter((render) => render.data.steps.length === 2);
+      expect(new Set(afterSteps.map((render) => render.data)).size).toBe(2);
+      expect(new Set(afterSteps.map((render) => render.labels)).size).toBe(1);
+      expect(result.current.derived.labels).toEqual(['REASONING STEP 1', 'REASONING STEP 2']);
+    });
+  });
+
+  describe('Worker Mode', () => {
+    it('should fall back to the main thread when workers are unavailable', async () => {
+      vi.stubGlobal('Worker', undefined);
+
+      const { result } = renderHook(() =>
+        useStreamProcessor({
+          fixtureId: 'test-fixture-small',
+          delayProfile: 'fast',
+          reducer: reasoningReducer,
+          initialState: INITIAL_REASONING,
+          worker: {},
+        })
+      );
+
+      await waitFor(() => expect(result.current.state.status).toBe('closed'), { timeout: 2000 });
+      vi.unstubAllGlobals();
+
+      expect(result.current.thread).toBe('main');
+      expect(result.current.data.answer).toBe('Final answer');
+    });
+
+    it('should start the worker and terminate it on unmount', () => {
+      const worker = {
+        postMessage: vi.fn(),
+        addEventListener: vi.fn(),
+        terminate: vi.fn(),
+      };
+      const createWorker = () => worker as unknown as Worker;
+
+      const { result, unmount } = renderHook(() =>
+        useStreamProcessor({ fixtureId: 'test-fixture-small', worker: { createWorker } })
+      );
+
+      expect(result.current.thread).toBe('worker');
+      expect(result.current.state.status).toBe('active');
+      // The fixture is resolved to its events before they are posted
+      expect(worker.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'start',
+          source: expect.objectContaining({
+            events: expect.arrayContaining([expect.objectContaining({ id: 'answer-final' })]),
+          }),
+        })
+      );
+
+      unmount();
+
+      expect(worker.terminate).toHaveBeenCalled();
+    });
+  });
+
+  describe('Session Persistence', () => {
+    afterEach(() => {
+      localStorage.clear();
+    });
+
+    it('should offer a saved session instead of auto-starting', () => {
+      saveSession('reasoning-demo', {
+        sessionId: 'session-saved',
+        fixtureId: 'test-fixture-small',
+        position: 1,
+        data: { steps: ['Reasoning step 1'], answer: null },
+        pending: null,
+      });
+
+      const { result } = renderHook(() =>
+        useStreamProcessor({
+          fixtureId: 'test-fixture-small',
+          reducer: reasoningReducer,
+          initialState: INITIAL_REASONING,
+          persistKey: 'reasoning-demo',
+        })
+      );
+
+      expect(result.current.state.status).toBe('idle');
+      expect(result.current.savedSession).toMatchObject({
+        sessionId: 'session-saved',
+        position: 1,
+      });
+    });
+
+    it('should resume where the saved session left off', async () => {
+      saveSession('reasoning-demo', {
+        sessionId: 'session-saved',
+        fixtureId: 'test-fixture-small',
+        position: 1,
+        data: { steps: ['Restored step'], answer: null },
+        pending: null,
+      });
+      const onEvent = vi.fn();
+
+      const { result } = renderHook(() =>
+        useStreamProcessor({
+          fixtureId: 'test-fixture-small',
+          delayProfile: 'fast',
+          reducer: reasoningReducer,
+          initialState: INITIAL_REASONING,
+          onEvent,
+          persistKey: 'reasoning-demo',
+        })
+      );
+
+      act(() => {
+        result.current.resumeSession();
+      });
+
+      expect(result.current.savedSession).toBeNull();
+      await waitFor(() => expect(result.current.state.status).toBe('closed'), { timeout: 2000 });
+
+      // Only the events after the saved position are replayed
+      expect(result.current.data).toEqual({
+        steps: ['Restored step', 'Reasoning step 2'],
+        answer: 'Final answer',
+      });
+      expect(result.current.eventCount).toBe(3);
+      expect(onEvent).toHaveBeenCalledTimes(2);
+
+      // A completed stream has nothing left to resume
+      expect(loadSession('reasoning-demo')).toBeNull();
+    });
+
+    it('should start over when the saved session is discarded', async () => {
+      saveSession('reasoning-demo', {
+        sessionId: 'session-saved',
+        fixtureId: 'test-fixture-small',
+        position: 1,
+        data: { steps: ['Restored step'], answer: null },
+        pending: null,
+      });
+
+      const { result } = renderHook(() =>
+        useStreamProcessor({
+          fixtureId: 'test-fixture-small',
+          delayProfile: 'fast',
+          reducer: reasoningReducer,
+          initialState: INITIAL_REASONING,
+          persistKey: 'reasoning-demo',
+        })
+      );
+
+      act(() => {
+        result.current.discardSession();
+      });
+
+      await waitFor(() => expect(result.current.state.status).toBe('closed'), { timeout: 2000 });
+      expect(result.current.data.steps).toEqual(['Reasoning step 1', 'Reasoning step 2']);
+    });
+
+    it('should save progress when unmounted mid-stream', async () => {
+      const { result, unmount } = renderHook(() =>
+        useStreamProcessor({
+          fixtureId: 'test-fixture-large',
+          delayProfile: 'slow',
+          reducer: reasoningReducer,
+          initialState: INITIAL_REASONING,
+          persistKey: 'reasoning-demo',
+        })
+      );
+
+      await waitFor(() => expect(result.current.eventCount).toBeGreaterThan(0), {
+        timeout: 3000,
+      });
+      const { eventCount, data } = result.current;
+      unmount();
+
+      expect(loadSession('reasoning-demo', { fixtureId: 'test-fixture-large' })).toMatchObject({
+        position: eventCount,
+        data,
+      });
     });
   });
 });
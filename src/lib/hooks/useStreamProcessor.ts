@@ -2,51 +2,132 @@
  * Stream Processor Hook
  *
  * Core React hook for consuming mock streams in pattern demonstrations.
- * This hook provides the foundation for all pattern implementations by managing
- * stream state, lifecycle, and integration with the Network Inspector.
+ * This hook provides the foundation for all pattern implementations by binding
+ * a stream store (`createStreamStore`) to React with `useSyncExternalStore`.
+ * Stream consumption itself has no React dependency; see lib/streaming/streamStore.
  *
  * Key features:
  * - Consumes async generators from mock SSE infrastructure
- * - Manages streaming state (events, isStreaming, errors)
+ * - Folds events into typed pattern state with a stream reducer
+ * - Projects state through selectors, sharing unchanged structure
+ * - Manages streaming lifecycle as a discriminated union (idle, active, paused, closed, error)
+ * - Reports the lifecycle phase from the shared state machine (lib/streaming/lifecycle)
  * - Provides pause/resume/reset controls
  * - Integrates with Network Inspector for event capture
+ * - Optionally validates and reduces events in a web worker
+ * - Optionally persists progress so a reload can resume where it left off
  * - Ensures proper cleanup to prevent memory leaks
  * - Type-safe generic interface for pattern-specific events
  *
  * @module lib/hooks/useStreamProcessor
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
 import type { StreamEvent } from '@/types/events';
 import {
-  createMockStreamWithHandle,
+  generateSessionId,
   type DelayProfile,
+  type FaultInjectionConfig,
+  type StreamTransport,
+  type TimingModel,
 } from '@/lib/streaming/mockSSE';
-import { getFixtureEvents } from '@/lib/streaming/fixtureRepository';
+import {
+  appendEvent,
+  selectState,
+  type SelectedState,
+  type StreamReducer,
+  type StreamSelectors,
+} from '@/lib/streaming/streamReducer';
+import {
+  createStreamStore,
+  type StreamLifecycle,
+  type StreamStoreReducerOptions,
+} from '@/lib/streaming/streamStore';
+import { createStreamWorkerStore, type StreamWorkerOptions } from '@/lib/streaming/streamWorker';
+import {
+  clearSession,
+  createSessionRecorder,
+  loadSession,
+  pruneSessions,
+  type PersistedSession,
+} from '@/lib/streaming/sessionPersistence';
+import type { LifecyclePhase } from '@/lib/streaming/lifecycle';
 
 /**
- * Options for configuring the stream processor
+ * Lifecycle of the processed stream
+ *
+ * Only the `error` state carries an error, so narrowing on `status` is
+ * enough to read it safely.
  */
-export interface UseStreamProcessorOptions {
+export type StreamProcessorState = StreamLifecycle;
+
+/**
+ * Options for configuring the stream source and playback
+ */
+export interface StreamProcessorSourceOptions {
   /** Fixture ID to load from repository */
   fixtureId: string;
 
   /** Delay profile for timing control (default: 'normal') */
   delayProfile?: DelayProfile;
 
+  /** Timing model overriding the delay profile (keep stable across renders) */
+  timing?: TimingModel;
+
+  /** Seeded faults to inject for resilience testing (keep stable across renders) */
+  faults?: FaultInjectionConfig;
+
   /** Optional callback for each event (e.g., network inspector capture) */
   onEvent?: (event: StreamEvent) => void;
 
   /** Whether to auto-start streaming (default: true) */
   autoStart?: boolean;
+
+  /**
+   * Optional transport factory used instead of the fixture repository
+   * Called once per (re)start, e.g. `() => new SSETransport({ url })`.
+   */
+  createTransport?: () => StreamTransport;
+
+  /**
+   * Validate and reduce events in a web worker (keep `createWorker` stable across renders)
+   * Falls back to the main thread where workers are unavailable; see lib/streaming/streamWorker.
+   */
+  worker?: StreamWorkerOptions;
+
+  /**
+   * Save progress under this key so a reload can resume (state must be JSON-serializable)
+   * When a saved session exists, the stream waits for resumeSession() or discardSession().
+   */
+  persistKey?: string;
 }
 
+/**
+ * Options for configuring the stream processor
+ */
+export type UseStreamProcessorOptions<
+  T extends StreamEvent = StreamEvent,
+  S = T[],
+  D extends StreamSelectors<S> = Record<never, never>,
+> = StreamProcessorSourceOptions &
+  StreamStoreReducerOptions<T, S> & {
+    /** Named projections of state, recomputed when state changes */
+    selectors?: D;
+  };
+
 /**
  * Result returned by useStreamProcessor hook
  */
-export interface UseStreamProcessorResult<T extends StreamEvent> {
-  /** Array of all events received so far */
-  events: T[];
+export interface UseStreamProcessorResult<
+  T extends StreamEvent,
+  S = T[],
+  D extends StreamSelectors<S> = Record<never, never>,
+> {
+  /** Reducer state (all events received so far, without a reducer) */
+  data: S;
+
+  /** Selector results, structurally shared with the previous results */
+  derived: SelectedState<D>;
 
   /** Whether the stream is currently active */
   isStreaming: boolean;
@@ -54,46 +135,63 @@ export interface UseStreamProcessorResult<T extends StreamEvent> {
   /** Error if stream failed, null otherwise */
   error: Error | null;
 
-  /** Pause event emission */
+  /** Pause event emission; throws LifecycleTransitionError unless streaming */
   pause: () => void;
 
-  /** Resume event emission */
+  /** Resume event emission; throws LifecycleTransitionError unless paused */
   resume: () => void;
 
   /** Reset stream to initial state and restart */
   reset: () => void;
 
-  /** Current stream state ('idle', 'streaming', 'paused', 'completed', 'error', 'closed') */
-  state: string;
+  /** Current stream lifecycle */
+  state: StreamProcessorState;
+
+  /** Current lifecycle phase (distinguishes awaiting, completed and closed) */
+  phase: LifecyclePhase;
 
   /** Number of events processed */
   eventCount: number;
+
+  /** Where events are validated and reduced */
+  thread: 'main' | 'worker';
+
+  /** Progress saved before a reload, until it is resumed or discarded (persistKey only) */
+  savedSession: PersistedSession<S> | null;
+
+  /** Continue the saved session where it left off */
+  resumeSession: () => void;
+
+  /** Drop the saved session and start over (if autoStart) */
+  discardSession: () => void;
 }
 
 /**
  * Hook for processing mock streams in pattern demonstrations
  *
  * This hook is the core streaming infrastructure used by all pattern implementations.
- * It consumes async generators from the mock SSE system, manages state, and provides
- * control over stream playback.
+ * It consumes async generators from the mock SSE system, folds each event into
+ * state with a stream reducer, and provides control over stream playback.
  *
  * The hook ensures:
  * - Proper cleanup on component unmount (no memory leaks)
  * - Type-safe event handling with generics
+ * - One render per event (lifecycle, state and count update together)
+ * - The reducer and onEvent may change between renders without restarting
  * - Integration with Network Inspector via onEvent callback
  * - Stable references for callbacks (useCallback)
  * - Error boundary compatible error handling
  *
  * @template T - The specific StreamEvent type for this pattern
+ * @template S - Reducer state (default: the array of events)
+ * @template D - Selectors projecting the state
  * @param options - Configuration options
- * @returns Stream processor result with events and control functions
+ * @returns Stream processor result with state and control functions
  *
  * @example Basic usage
  * ```tsx
  * function ChainOfReasoningDemo() {
- *   const { events, isStreaming, pause, resume } = useStreamProcessor<
- *     ReasoningEvent | AnswerEvent
- *   >({
+ *   const { data: events, isStreaming } = useStreamProcessor<ReasoningEvent | AnswerEvent>({
  *     fixtureId: 'chain-of-reasoning-sprint-planning',
  *     delayProfile: 'normal'
  *   });
@@ -109,12 +207,36 @@ export interface UseStreamProcessorResult<T extends StreamEvent> {
  * }
  * ```
  *
+ * @example With a reducer and selectors
+ * ```tsx
+ * const reasoningReducer: StreamReducer<ReasoningState, ReasoningEvent | AnswerEvent> = (
+ *   state,
+ *   event
+ * ) => (event.type === 'reasoning' ? { ...state, steps: [...state.steps, event.data] } : state);
+ *
+ * const selectors = {
+ *   confident: (state: ReasoningState) => state.steps.filter((step) => step.confidence > 0.8),
+ * };
+ *
+ * function ChainOfReasoningDemo() {
+ *   const { data, derived, state } = useStreamProcessor({
+ *     fixtureId: 'chain-of-reasoning-sprint-planning',
+ *     reducer: reasoningReducer,
+ *     initialState: { steps: [] },
+ *     selectors,
+ *   });
+ *
+ *   // derived.confident keeps its identity until a confident step arrives
+ *   return <StepList steps={derived.confident} failed={state.status === 'error'} />;
+ * }
+ * ```
+ *
  * @example With Network Inspector integration
  * ```tsx
  * function ChainOfReasoningDemo() {
  *   const { captureEvent } = useNetworkCapture();
  *
- *   const { events, isStreaming } = useStreamProcessor({
+ *   const { data, isStreaming } = useStreamProcessor({
  *     fixtureId: 'chain-of-reasoning-sprint-planning',
  *     delayProfile: 'normal',
  *     onEvent: captureEvent  // Capture events for Network Inspector
@@ -124,10 +246,55 @@ export interface UseStreamProcessorResult<T extends StreamEvent> {
  * }
  * ```
  *
+ * @example Against a local SSE server
+ * ```tsx
+ * const createTransport = useCallback(
+ *   () => new SSETransport({ url: 'http://localhost:8787/replay/sprint-planning' }),
+ *   []
+ * );
+ *
+ * const { data } = useStreamProcessor({
+ *   fixtureId: 'chain-of-reasoning-sprint-planning',
+ *   createTransport,  // Keep stable to avoid restarting the stream
+ * });
+ * ```
+ *
+ * @example Off the main thread
+ * ```tsx
+ * // Module scope keeps the factory stable; a new one would restart the stream
+ * const createWorker = () => new Worker(new URL('./table.worker.ts', import.meta.url));
+ *
+ * const { data, thread } = useStreamProcessor({
+ *   fixtureId: 'tabular-stream-sprint-tasks',
+ *   reducer: tableReducer, // Must match the reducer exposed by table.worker.ts
+ *   initialState: initialTable,
+ *   worker: { createWorker },
+ * });
+ * ```
+ *
+ * @example Resuming after a reload
+ * ```tsx
+ * const { data, savedSession, resumeSession, discardSession } = useStreamProcessor({
+ *   fixtureId: 'chain-of-reasoning-sprint-planning',
+ *   reducer: reasoningReducer,
+ *   initialState: { steps: [], answer: '' },
+ *   persistKey: 'chain-of-reasoning',
+ * });
+ *
+ * if (savedSession) {
+ *   return (
+ *     <p>
+ *       <button onClick={resumeSession}>Resume where you left off</button>
+ *       <button onClick={discardSession}>Start over</button>
+ *     </p>
+ *   );
+ * }
+ * ```
+ *
  * @example With manual control
  * ```tsx
  * function ChainOfReasoningDemo() {
- *   const { events, pause, resume, reset, state } = useStreamProcessor({
+ *   const { pause, resume, reset, state } = useStreamProcessor({
  *     fixtureId: 'chain-of-reasoning-sprint-planning',
  *     delayProfile: 'normal',
  *     autoStart: false  // Don't auto-start
@@ -138,181 +305,215 @@ export interface UseStreamProcessorResult<T extends StreamEvent> {
  *       <button onClick={pause}>Pause</button>
  *       <button onClick={resume}>Resume</button>
  *       <button onClick={reset}>Restart</button>
- *       <p>State: {state}</p>
+ *       <p>State: {state.status}</p>
  *     </div>
  *   );
  * }
  * ```
  */
-export function useStreamProcessor<T extends StreamEvent = StreamEvent>(
-  options: UseStreamProcessorOptions
-): UseStreamProcessorResult<T> {
-  const { fixtureId, delayProfile = 'normal', onEvent, autoStart = true } = options;
-
-  // State management
-  const [events, setEvents] = useState<T[]>([]);
-  const [isStreaming, setIsStreaming] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-  const [state, setState] = useState<string>('idle');
-
-  // Refs for stream control and cleanup
-  const streamHandleRef = useRef<ReturnType<typeof createMockStreamWithHandle>['handle'] | null>(
-    null
+export function useStreamProcessor<
+  T extends StreamEvent = StreamEvent,
+  S = T[],
+  D extends StreamSelectors<S> = Record<never, never>,
+>(options: UseStreamProcessorOptions<T, S, D>): UseStreamProcessorResult<T, S, D> {
+  const {
+    fixtureId,
+    delayProfile = 'normal',
+    timing,
+    faults,
+    onEvent,
+    autoStart = true,
+    createTransport,
+    worker,
+    persistKey,
+    selectors,
+  } = options;
+
+  // Latest callbacks, so inline reducers and handlers don't recreate the store
+  const reducerRef = useRef(options.reducer ?? (appendEvent as unknown as StreamReducer<S, T>));
+  reducerRef.current = options.reducer ?? reducerRef.current;
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+  const initialStateRef = useRef<S>(options.initialState ?? ([] as unknown as S));
+  const hasReducer = options.reducer !== undefined;
+
+  // Progress saved by an earlier page load, offered once on mount
+  const [savedSession, setSavedSession] = useState<PersistedSession<S> | null>(() => {
+    if (!persistKey) return null;
+    pruneSessions();
+    return loadSession<S>(persistKey, { fixtureId });
+  });
+  const savedSessionRef = useRef(savedSession);
+  savedSessionRef.current = savedSession;
+
+  const recorder = useMemo(
+    () => (persistKey ? createSessionRecorder<S>(persistKey, { fixtureId }) : null),
+    [persistKey, fixtureId]
   );
-  const consumptionCancelledRef = useRef(false);
-  const mountedRef = useRef(true);
-
-  /**
-   * Start or restart the stream
-   * Loads fixture events and begins streaming
-   */
-  const startStream = useCallback(() => {
-    // Reset state
-    setEvents([]);
-    setError(null);
-    setIsStreaming(true);
-    setState('active');
-    consumptionCancelledRef.current = false;
-
-    // Async stream consumption
-    (async () => {
-      try {
-        // Load fixture events from repository
-        const fixtureEvents = getFixtureEvents(fixtureId);
-
-        // Create mock stream with control handle
-        const { stream, handle } = createMockStreamWithHandle({
-          events: fixtureEvents,
-          delayProfile,
-        });
+  const recorderRef = useRef(recorder);
+  recorderRef.current = recorder;
 
-        // Store handle for external control
-        streamHandleRef.current = handle;
-
-        // Consume stream events
-        for await (const enrichedEvent of stream) {
-          // Check if consumption was cancelled
-          if (consumptionCancelledRef.current || !mountedRef.current) {
-            handle.close();
-            break;
-          }
-
-          // Extract original event from enriched event
-          const originalEvent = enrichedEvent as unknown as T;
-
-          // Update events array
-          setEvents((prev) => [...prev, originalEvent]);
-
-          // Call onEvent callback if provided (for Network Inspector)
-          if (onEvent) {
-            onEvent(originalEvent);
-          }
-
-          // Update state based on stream state
-          const currentState = handle.getState();
-          setState(currentState);
-        }
-
-        // Stream completed successfully
-        if (!consumptionCancelledRef.current && mountedRef.current) {
-          setIsStreaming(false);
-          setState('closed');
-        }
-      } catch (err) {
-        // Handle stream errors
-        if (mountedRef.current) {
-          const error = err instanceof Error ? err : new Error(String(err));
-          setError(error);
-          setIsStreaming(false);
-          setState('error');
-        }
-      }
-    })();
-  }, [fixtureId, delayProfile, onEvent]);
+  // Compared by field, so an inline `worker: {}` does not restart the stream
+  const useWorker = worker !== undefined;
+  const { createWorker, batchMs } = worker ?? {};
 
   /**
-   * Pause the stream
-   * Stream can be resumed later from the same position
+   * One store per source configuration
+   * Changing the fixture, timing, transport or worker replaces the store.
    */
-  const pause = useCallback((): void => {
-    if (streamHandleRef.current) {
-      streamHandleRef.current.pause();
-      setIsStreaming(false);
-      setState('paused');
+  const store = useMemo(() => {
+    const storeOptions = {
+      fixtureId,
+      createTransport,
+      delayProfile,
+      timing,
+      faults,
+      onEvent: (event: StreamEvent) => {
+        recorderRef.current?.observe(event);
+        onEventRef.current?.(event);
+      },
+      reducer: (state: S, event: T) => reducerRef.current(state, event),
+      initialState: initialStateRef.current,
+    };
+
+    if (!useWorker) {
+      return { ...createStreamStore<T, S>(storeOptions), thread: 'main' as const };
     }
-  }, []);
+
+    // The worker entry supplies the reducer; this one only runs in the main-thread fallback
+    return hasReducer
+      ? createStreamWorkerStore<T, S>({ ...storeOptions, createWorker, batchMs })
+      : createStreamWorkerStore<T, S>({
+          ...storeOptions,
+          createWorker,
+          batchMs,
+          reducer: undefined,
+          initialState: undefined,
+        });
+  }, [
+    fixtureId,
+    createTransport,
+    delayProfile,
+    timing,
+    faults,
+    useWorker,
+    createWorker,
+    batchMs,
+    hasReducer,
+  ]);
+
+  const snapshot = useSyncExternalStore(store.subscribe, store.getSnapshot);
+
+  // Whether the previous store was streaming when it was replaced
+  const restartRef = useRef(false);
 
   /**
-   * Resume a paused stream
-   * Continues from where it was paused
+   * Start a run with a new session ID, or continue a saved session
    */
-  const resume = useCallback((): void => {
-    if (streamHandleRef.current) {
-      streamHandleRef.current.resume();
-      setIsStreaming(true);
-      setState('active');
-    }
-  }, []);
+  const startRun = useCallback(
+    (resumed: PersistedSession<S> | null = null): Promise<void> => {
+      const sessionId = resumed ? resumed.sessionId : generateSessionId();
+      recorderRef.current?.begin(sessionId, resumed);
+
+      return store.start({
+        sessionId,
+        resumeFrom: resumed ? { data: resumed.data, eventCount: resumed.position } : undefined,
+      });
+    },
+    [store]
+  );
 
   /**
-   * Reset the stream and restart from beginning
-   * Clears all events and reloads fixture
+   * Effect: Save progress while the stream runs, and before the page unloads
+   * Declared before the start effect so its cleanup saves before the store stops.
    */
-  const reset = useCallback((): void => {
-    // Close current stream if active
-    if (streamHandleRef.current) {
-      streamHandleRef.current.close();
-      consumptionCancelledRef.current = true;
-    }
+  useEffect(() => {
+    if (!recorder) return;
 
-    // Restart stream after a brief delay to ensure cleanup
-    setTimeout(() => {
-      if (mountedRef.current) {
-        startStream();
-      }
-    }, 0);
-  }, [startStream]);
+    const unsubscribe = store.subscribe(() => recorder.record(store.getSnapshot()));
+    const flush = () => recorder.flush();
+    window.addEventListener('pagehide', flush);
+
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      unsubscribe();
+      recorder.flush();
+      recorder.dispose();
+    };
+  }, [store, recorder]);
 
   /**
-   * Effect: Auto-start stream on mount (if autoStart is true)
+   * Effect: Start the store (on mount if autoStart and there is no saved
+   * session to offer, or when a streaming store is replaced by a new
+   * configuration) and stop it on cleanup
    */
   useEffect(() => {
-    if (autoStart) {
-      startStream();
+    if ((autoStart && !savedSessionRef.current) || restartRef.current) {
+      void startRun();
     }
 
     return () => {
-      // Cleanup on unmount
-      mountedRef.current = false;
-      consumptionCancelledRef.current = true;
-
-      if (streamHandleRef.current) {
-        streamHandleRef.current.close();
-      }
+      restartRef.current = store.getSnapshot().state.status === 'active';
+      store.stop();
     };
-  }, [autoStart, startStream]);
+  }, [store, autoStart, startRun]);
+
+  // Terminate the worker (if any) when the store is replaced or on unmount
+  useEffect(
+    () => () => {
+      if ('dispose' in store) store.dispose();
+    },
+    [store]
+  );
 
   /**
-   * Effect: Handle fixture ID or delay profile changes
-   * Restart stream with new configuration
+   * Reset the stream and restart from beginning
+   * Restores the initial state and reloads fixture
    */
-  useEffect(() => {
-    // Only restart if stream is currently active
-    if (isStreaming) {
-      reset();
+  const reset = useCallback((): void => {
+    void startRun();
+  }, [startRun]);
+
+  const resumeSession = useCallback((): void => {
+    const saved = savedSessionRef.current;
+    if (!saved) return;
+
+    savedSessionRef.current = null;
+    setSavedSession(null);
+    void startRun(saved);
+  }, [startRun]);
+
+  const discardSession = useCallback((): void => {
+    if (persistKey) clearSession(persistKey);
+    savedSessionRef.current = null;
+    setSavedSession(null);
+
+    if (autoStart) {
+      void startRun();
     }
-    // Intentionally not including 'reset' in deps to avoid infinite loop
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [fixtureId, delayProfile]);
+  }, [persistKey, autoStart, startRun]);
+
+  // Selectors rerun when state changes; unchanged results keep their identity
+  const derivedRef = useRef<SelectedState<D>>();
+  const derived = useMemo(() => {
+    derivedRef.current = selectState(selectors ?? ({} as D), snapshot.data, derivedRef.current);
+    return derivedRef.current;
+  }, [selectors, snapshot.data]);
 
   return {
-    events,
-    isStreaming,
-    error,
-    pause,
-    resume,
+    data: snapshot.data,
+    derived,
+    isStreaming: snapshot.state.status === 'active',
+    error: snapshot.state.status === 'error' ? snapshot.state.error : null,
+    pause: store.pause,
+    resume: store.resume,
     reset,
-    state,
-    eventCount: events.length,
+    state: snapshot.state,
+    phase: snapshot.phase,
+    eventCount: snapshot.eventCount,
+    thread: store.thread,
+    savedSession,
+    resumeSession,
+    discardSession,
   };
 }
@@ -0,0 +1,232 @@
+/**
+ * Tests for incremental markdown parsing
+ *
+ * @module lib/markdown/incrementalMarkdown.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { chunkText } from '@/lib/streaming/tokenChunking';
+import { IncrementalMarkdownParser, parseInline, parseMarkdown } from './incrementalMarkdown';
+
+const document = `# Sprint 24 Plan (Nov 13-24)
+
+## High Priority
+
+### 1. User Authentication Overhaul (13 points)
+*Reasoning: Top business value item (reason-1), unblocks payment work (reason-3)*
+- OAuth 2.0 integration with Google/GitHub
+- Secure session management
+  with refresh tokens
+  - Nested: rotate every 24h
+- **Owner:** Backend team (3 engineers)
+
+1. Fix date picker timezone handling
+2. Correct CSV export formatting
+
+| Item | Points | Owner |
+|:-----|-------:|:-----:|
+| Authentication | 13 | Backend |
+| Dashboard | 8 | Frontend |
+
+> Buffer allocation: ~6 points
+> (20% for unknowns, reason-5)
+
+\`\`\`ts
+const committed = 29;
+const velocity = [28, 32];
+\`\`\`
+
+---
+
+**Total Committed:** 29 points
+**Team Velocity Range:** 28-32 points ([history](https://example.com/velocity))`;
+
+describe('incrementalMarkdown', () => {
+  describe('parseMarkdown', () => {
+    it('should parse headings, lists, tables, quotes, code and rules', () => {
+      const blocks = parseMarkdown(document);
+
+      expect(blocks.map((block) => block.kind)).toEqual([
+        'heading',
+        'heading',
+        'heading',
+        'paragraph',
+        'list',
+        'list',
+        'table',
+        'blockquote',
+        'code',
+        'rule',
+        'paragraph',
+      ]);
+      expect(blocks[4]).toMatchObject({
+        kind: 'list',
+        ordered: false,
+        items: [
+          { content: [{ kind: 'text', text: 'OAuth 2.0 integration with Google/GitHub' }] },
+          {
+            content: [
+              { kind: 'text', text: 'Secure session management' },
+              { kind: 'break' },
+              { kind: 'text', text: 'with refresh tokens' },
+            ],
+            children: [
+              { kind: 'list', items: [{ content: [{ text: 'Nested: rotate every 24h' }] }] },
+            ],
+          },
+          {
+            content: [
+              { kind: 'strong', children: [{ text: 'Owner:' }] },
+              { text: ' Backend team (3 engineers)' },
+            ],
+          },
+        ],
+      });
+      expect(blocks[5]).toMatchObject({ kind: 'list', ordered: true, start: 1 });
+      expect(blocks[6]).toMatchObject({
+        kind: 'table',
+        align: ['left', 'right', 'center'],
+        header: [[{ text: 'Item' }], [{ text: 'Points' }], [{ text: 'Owner' }]],
+        rows: [
+          [[{ text: 'Authentication' }], [{ text: '13' }], [{ text: 'Backend' }]],
+          [[{ text: 'Dashboard' }], [{ text: '8' }], [{ text: 'Frontend' }]],
+        ],
+      });
+      expect(blocks[8]).toEqual({
+        kind: 'code',
+        language: 'ts',
+        code: 'const committed = 29;\nconst velocity = [28, 32];',
+        closed: true,
+      });
+    });
+  });
+
+  describe('parseInline', () => {
+    it('should parse emphasis, code spans, links and escapes', () => {
+      expect(
+        parseInline('**Owner:** *Backend* `npm test` [docs](/docs) \\*literal\\* snake_case_name')
+      ).toEqual([
+        { kind: 'strong', children: [{ kind: 'text', text: 'Owner:' }] },
+        { kind: 'text', text: ' ' },
+        { kind: 'emphasis', children: [{ kind: 'text', text: 'Backend' }] },
+        { kind: 'text', text: ' ' },
+        { kind: 'code', text: 'npm test' },
+        { kind: 'text', text: ' ' },
+        { kind: 'link', href: '/docs', children: [{ kind: 'text', text: 'docs' }] },
+        { kind: 'text', text: ' *literal* snake_case_name' },
+      ]);
+    });
+
+    it('should close unterminated markers only when tolerant', () => {
+      expect(parseInline('**Own', true)).toEqual([
+        { kind: 'strong', children: [{ kind: 'text', text: 'Own' }] },
+      ]);
+      expect(parseInline('run `npm t', true)).toEqual([
+        { kind: 'text', text: 'run ' },
+        { kind: 'code', text: 'npm t' },
+      ]);
+      expect(parseInline('**Own')).toEqual([{ kind: 'text', text: '**Own' }]);
+      expect(parseInline('2 * 3 = 6', true)).toEqual([{ kind: 'text', text: '2 * 3 = 6' }]);
+    });
+  });
+
+  describe('IncrementalMarkdownParser', () => {
+    it('should end with the same blocks as a full parse, whatever the chunking', () => {
+      const expected = parseMarkdown(document);
+
+      for (const seed of [1, 2, 3]) {
+        const parser = new IncrementalMarkdownParser();
+        chunkText(document, { seed, maxTokens: 3 }).forEach((chunk) => {
+          const stable = parser.append(chunk).slice(0, parser.getStableBlockCount());
+          expect(stable).toEqual(expected.slice(0, stable.length));
+        });
+
+        expect(parser.finish()).toEqual(expected);
+      }
+    });
+
+    it('should render an unterminated code fence as open code', () => {
+      const parser = new IncrementalMarkdownParser();
+
+      expect(parser.append('Setup:\n\n```ts\nconst committed =')).toEqual([
+        { kind: 'paragraph', content: [{ kind: 'text', text: 'Setup:' }] },
+        { kind: 'code', language: 'ts', code: 'const committed =', closed: false },
+      ]);
+      expect(parser.append(' 29;\n```\n').at(-1)).toEqual({
+        kind: 'code',
+        language: 'ts',
+        code: 'const committed = 29;',
+        closed: true,
+      });
+    });
+
+    it('should render a table while its delimiter row and rows are arriving', () => {
+      const parser = new IncrementalMarkdownParser();
+
+      expect(parser.append('| Item | Points |\n|---')).toEqual([
+        {
+          kind: 'table',
+          align: [null, null],
+          header: [[{ kind: 'text', text: 'Item' }], [{ kind: 'text', text: 'Points' }]],
+          rows: [],
+        },
+      ]);
+      expect(parser.append('|---:|\n| **Auth').at(-1)).toMatchObject({
+        kind: 'table',
+        align: [null, 'right'],
+        rows: [[[{ kind: 'strong', children: [{ text: 'Auth' }] }]]],
+      });
+    });
+
+    it('should grow a list item by item', () => {
+      const parser = new IncrementalMarkdownParser();
+
+      parser.append('- OAuth 2.0\n- Secure');
+      expect(parser.getBlocks()).toMatchObject([
+        { kind: 'list', items: [{}, { content: [{ text: 'Secure' }] }] },
+      ]);
+
+      parser.append(' sessions\n- Password reset');
+      expect(parser.getBlocks()).toMatchObject([{ kind: 'list', items: [{}, {}, {}] }]);
+    });
+
+    it('should keep stable blocks and only re-parse the open tail', () => {
+      const parser = new IncrementalMarkdownParser();
+
+      const first = parser.append('# Plan\n\nIntro paragraph.\n\n- item');
+      expect(parser.getStableBlockCount()).toBe(2);
+
+      const second = parser.append(' one\n- item two');
+      expect(second[0]).toBe(first[0]);
+      expect(second[1]).toBe(first[1]);
+      expect(second[2]).not.toBe(first[2]);
+    });
+
+    it('should not promote a block that a partial line may still extend', () => {
+      const parser = new IncrementalMarkdownParser();
+
+      parser.append('Paragraph\n#');
+      expect(parser.getStableBlockCount()).toBe(0);
+
+      parser.append('hashtag continues the paragraph\n');
+      expect(parser.getBlocks()).toEqual([
+        {
+          kind: 'paragraph',
+          content: [
+            { kind: 'text', text: 'Paragraph' },
+            { kind: 'break' },
+            { kind: 'text', text: '#hashtag continues the paragraph' },
+          ],
+        },
+      ]);
+    });
+
+    it('should restart when the text is replaced rather than extended', () => {
+      const parser = new IncrementalMarkdownParser();
+
+      parser.setText('# First answer\n\nDone.');
+      expect(parser.setText('# Second', true)).toEqual(parseMarkdown('# Second'));
+      expect(parser.setText('# Second', true)).toBe(parser.getBlocks());
+    });
+  });
+});
@@ -0,0 +1,704 @@
+/**
+ * Incremental Markdown - Parse markdown as it streams in
+ *
+ * An answer streamed token by token is incomplete markdown most of the
+ * time: a code fence has no closing fence yet, a list is still growing, a
+ * table row is cut off halfway. Re-parsing the whole document on every
+ * chunk also gets slower as the answer grows.
+ *
+ * The parser splits the document into blocks (headings, paragraphs, lists,
+ * fenced code, tables, block quotes, rules). A block is "stable" once
+ * complete lines show it is finished (a blank line after a paragraph, a
+ * closing fence, the start of the next block): nothing that arrives later
+ * can change it. Stable blocks are kept (with the same object
+ * identity, so a memoized renderer skips them) and only the text after
+ * them is parsed again on each chunk.
+ *
+ * While the document is still streaming, the open tail is parsed
+ * tolerantly: unterminated fences render as code, a table whose delimiter
+ * row is still arriving renders as a table, and unclosed `**`, `*` and
+ * `` ` `` run to the end of the block. Once complete, unmatched markers
+ * are plain text.
+ *
+ * Supported syntax is a CommonMark/GFM subset; single line breaks inside a
+ * paragraph are kept as line breaks, as chat interfaces usually render them.
+ *
+ * @module lib/markdown/incrementalMarkdown
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Inline content
+ */
+export type InlineNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'break' }
+  | { kind: 'code'; text: string }
+  | { kind: 'strong'; children: InlineNode[] }
+  | { kind: 'emphasis'; children: InlineNode[] }
+  | { kind: 'link'; href: string; children: InlineNode[] };
+
+/**
+ * Column alignment in a table
+ */
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
+/**
+ * List item: its first paragraph, then any nested blocks
+ */
+export interface ListItem {
+  content: InlineNode[];
+  children: MarkdownBlock[];
+}
+
+/**
+ * Block-level content
+ */
+export type MarkdownBlock =
+  | { kind: 'heading'; level: number; content: InlineNode[] }
+  | { kind: 'paragraph'; content: InlineNode[] }
+  | { kind: 'code'; language: string; code: string; closed: boolean }
+  | { kind: 'list'; ordered: boolean; start: number; items: ListItem[] }
+  | { kind: 'table'; align: TableAlignment[]; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { kind: 'blockquote'; children: MarkdownBlock[] }
+  | { kind: 'rule' };
+
+/**
+ * A parsed block and the lines it spans
+ */
+interface ParsedBlock {
+  block: MarkdownBlock;
+
+  /** Index of the block's first line */
+  start: number;
+
+  /**
+   * Index of the line that shows the block is finished (itself, for
+   * single-line blocks); the line count if the block may still continue
+   */
+  closedAt: number;
+}
+
+/**
+ * Parse options
+ */
+interface ParseOptions {
+  /** Whether the text may still grow, enabling tolerant parsing of the tail */
+  streaming: boolean;
+
+  /** Whether the last line may still grow */
+  partialLastLine: boolean;
+}
+
+// ============================================================================
+// Line Classification
+// ============================================================================
+
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})[ \t]*([^`\s]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BULLET_ITEM = /^ {0,3}([-*+])(?:[ \t]+(.*))?$/;
+const ORDERED_ITEM = /^ {0,3}(\d{1,9})([.)])(?:[ \t]+(.*))?$/;
+const QUOTE = /^ {0,3}> ?(.*)$/;
+const DELIMITER_CELL = /^:?-+:?$/;
+const PARTIAL_DELIMITER_ROW = /^ {0,3}\|?[\s|:]*-[\s|:-]*$/;
+const INDENTED = /^(?: {2,}|\t)/;
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+function isTableRow(line: string): boolean {
+  return line.includes('|') && !isBlank(line);
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) {
+    row = row.slice(1);
+  }
+  if (row.endsWith('|') && !row.endsWith('\\|')) {
+    row = row.slice(0, -1);
+  }
+  return row.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function parseDelimiterRow(line: string): TableAlignment[] | null {
+  const cells = splitTableRow(line);
+  if (!cells.every((cell) => DELIMITER_CELL.test(cell))) {
+    return null;
+  }
+
+  return cells.map((cell) => {
+    if (cell.startsWith(':') && cell.endsWith(':')) return 'center';
+    if (cell.endsWith(':')) return 'right';
+    if (cell.startsWith(':')) return 'left';
+    return null;
+  });
+}
+
+/**
+ * Whether a table starts at line `index`, and its column alignments
+ */
+function matchTableStart(
+  lines: string[],
+  index: number,
+  options: ParseOptions
+): TableAlignment[] | null {
+  const header = lines[index];
+  const delimiter = lines[index + 1];
+  if (delimiter === undefined || !isTableRow(header)) {
+    return null;
+  }
+
+  const columns = splitTableRow(header).length;
+  const align = parseDelimiterRow(delimiter);
+  if (align && align.length === columns) {
+    return align;
+  }
+
+  // The delimiter row is still arriving
+  const arriving = options.streaming && options.partialLastLine && index + 1 === lines.length - 1;
+  return arriving && PARTIAL_DELIMITER_ROW.test(delimiter) ? Array(columns).fill(null) : null;
+}
+
+function matchListItem(line: string): { marker: string; start: number; text: string } | null {
+  if (RULE.test(line)) {
+    return null;
+  }
+
+  const bullet = BULLET_ITEM.exec(line);
+  if (bullet) {
+    return { marker: bullet[1], start: 1, text: bullet[2] ?? '' };
+  }
+
+  const ordered = ORDERED_ITEM.exec(line);
+  if (ordered) {
+    return { marker: ordered[2], start: Number(ordered[1]), text: ordered[3] ?? '' };
+  }
+
+  return null;
+}
+
+/**
+ * Whether a line starts a block that ends a paragraph
+ */
+function interruptsParagraph(lines: string[], index: number, options: ParseOptions): boolean {
+  const line = lines[index];
+  const item = matchListItem(line);
+
+  return (
+    FENCE_OPEN.test(line) ||
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    QUOTE.test(line) ||
+    (item !== null && item.text !== '' && (item.marker !== '.' || item.start === 1)) ||
+    matchTableStart(lines, index, options) !== null
+  );
+}
+
+// ============================================================================
+// Block Parsing
+// ============================================================================
+
+/**
+ * Parse lines into blocks
+ */
+function parseLines(lines: string[], options: ParseOptions): ParsedBlock[] {
+  const parsed: ParsedBlock[] = [];
+  let index = 0;
+
+  // Only a block that runs to the end of the text can still grow
+  const isOpen = (end: number): boolean => options.streaming && end === lines.length;
+  const nested = (end: number): ParseOptions => ({
+    streaming: isOpen(end),
+    partialLastLine: options.partialLastLine && end === lines.length,
+  });
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const start = index;
+
+    if (isBlank(line)) {
+      index++;
+      continue;
+    }
+
+    const fence = FENCE_OPEN.exec(line);
+    if (fence) {
+      const [, marker, language] = fence;
+      const closing = new RegExp(`^ {0,3}${marker[0]}{${marker.length},}[ \\t]*$`);
+      let end = index + 1;
+      while (end < lines.length && !closing.test(lines[end])) {
+        end++;
+      }
+
+      const closed = end < lines.length && !(options.partialLastLine && end === lines.length - 1);
+      const code = lines.slice(index + 1, Math.min(end, lines.length)).join('\n');
+      parsed.push({ block: { kind: 'code', language, code, closed }, start, closedAt: end });
+      index = end + 1;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const content = parseInline(heading[2] ?? '', isOpen(index + 1));
+      parsed.push({
+        block: { kind: 'heading', level: heading[1].length, content },
+        start,
+        closedAt: start,
+      });
+      index++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      parsed.push({ block: { kind: 'rule' }, start, closedAt: start });
+      index++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && QUOTE.test(lines[index])) {
+        quoted.push((QUOTE.exec(lines[index]) as RegExpExecArray)[1]);
+        index++;
+      }
+
+      const children = parseLines(quoted, nested(index)).map(({ block }) => block);
+      parsed.push({ block: { kind: 'blockquote', children }, start, closedAt: index });
+      continue;
+    }
+
+    if (matchListItem(line)) {
+      const list = parseList(lines, index, options);
+      parsed.push({ block: list.block, start, closedAt: list.closedAt });
+      index = list.end;
+      continue;
+    }
+
+    const align = matchTableStart(lines, index, options);
+    if (align) {
+      const header = splitTableRow(line).map((cell) => parseInline(cell, false));
+      const rows: InlineNode[][][] = [];
+      index += 2;
+
+      while (index < lines.length && isTableRow(lines[index])) {
+        const cells = splitTableRow(lines[index]).slice(0, align.length);
+        rows.push(cells.map((cell) => parseInline(cell, isOpen(index + 1))));
+        index++;
+      }
+
+      parsed.push({ block: { kind: 'table', align, header, rows }, start, closedAt: index });
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    index++;
+    while (
+      index < lines.length &&
+      !isBlank(lines[index]) &&
+      !interruptsParagraph(lines, index, options)
+    ) {
+      paragraph.push(lines[index].trim());
+      index++;
+    }
+
+    // A table interrupting the paragraph is only known from its delimiter row
+    const closedAt =
+      index < lines.length && matchTableStart(lines, index, options) ? index + 1 : index;
+    const content = parseInline(paragraph.join('\n'), isOpen(index));
+    parsed.push({ block: { kind: 'paragraph', content }, start, closedAt });
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse a list starting at line `index`
+ *
+ * Items continue with indented lines; a blank line followed by another item
+ * of the same kind continues the list.
+ */
+function parseList(
+  lines: string[],
+  index: number,
+  options: ParseOptions
+): { block: MarkdownBlock; end: number; closedAt: number } {
+  const first = matchListItem(lines[index]) as NonNullable<ReturnType<typeof matchListItem>>;
+  const items: ListItem[] = [];
+  let closedAt = lines.length;
+
+  while (index < lines.length) {
+    const item = matchListItem(lines[index]);
+    if (!item || item.marker !== first.marker) {
+      break;
+    }
+
+    const text = [item.text.trim()];
+    const body: string[] = [];
+    index++;
+
+    while (index < lines.length) {
+      if (isBlank(lines[index])) {
+        let next = index + 1;
+        while (next < lines.length && isBlank(lines[next])) {
+          next++;
+        }
+        if (next === lines.length || !INDENTED.test(lines[next])) {
+          break;
+        }
+      } else if (!INDENTED.test(lines[index])) {
+        break;
+      }
+
+      // Wrapped item text continues the item's paragraph; anything else is nested
+      const dedented = lines[index].replace(/^(?: {1,4}|\t)/, '');
+      if (body.length === 0 && !isBlank(dedented) && !interruptsParagraph([dedented], 0, options)) {
+        text.push(dedented.trim());
+      } else {
+        body.push(dedented);
+      }
+      index++;
+    }
+
+    const open = options.streaming && index === lines.length;
+    items.push({
+      content: parseInline(text.join('\n'), open && body.length === 0),
+      children: parseLines(body, {
+        streaming: open,
+        partialLastLine: options.partialLastLine && index === lines.length,
+      }).map(({ block }) => block),
+    });
+
+    let next = index;
+    while (next < lines.length && isBlank(lines[next])) {
+      next++;
+    }
+    if (matchListItem(lines[next] ?? '')?.marker !== first.marker) {
+      closedAt = next;
+      break;
+    }
+    index = next;
+  }
+
+  const ordered = first.marker === '.' || first.marker === ')';
+  return { block: { kind: 'list', ordered, start: first.start, items }, end: index, closedAt };
+}
+
+// ============================================================================
+// Inline Parsing
+// ============================================================================
+
+const ESCAPABLE = /[!-/:-@[-`{-~]/;
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
+
+/**
+ * Parse inline markdown
+ *
+ * @param text - Inline text; newlines become line breaks
+ * @param tolerant - Close unterminated emphasis and code spans at the end
+ * @returns Inline nodes
+ */
+export function parseInline(text: string, tolerant: boolean = false): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+  let index = 0;
+
+  const flush = (): void => {
+    if (buffer) {
+      nodes.push({ kind: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (char === '\\' && ESCAPABLE.test(text[index + 1] ?? '')) {
+      buffer += text[index + 1];
+      index += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      flush();
+      nodes.push({ kind: 'break' });
+      index++;
+      continue;
+    }
+
+    if (char === '`') {
+      let run = 1;
+      while (text[index + run] === '`') {
+        run++;
+      }
+      const ticks = '`'.repeat(run);
+      const close = text.indexOf(ticks, index + run);
+
+      if (close !== -1 || (tolerant && index + run < text.length)) {
+        const end = close === -1 ? text.length : close;
+        let code = text.slice(index + run, end).replace(/\n/g, ' ');
+        if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ')) {
+          code = code.slice(1, -1);
+        }
+        flush();
+        nodes.push({ kind: 'code', text: code });
+        index = close === -1 ? text.length : close + run;
+        continue;
+      }
+
+      buffer += ticks;
+      index += run;
+      continue;
+    }
+
+    if (char === '[') {
+      const link = matchLink(text, index);
+      if (link) {
+        flush();
+        nodes.push({ kind: 'link', href: link.href, children: parseInline(link.label, tolerant) });
+        index = link.end;
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_') {
+      const run = text[index + 1] === char ? 2 : 1;
+      const emphasis = matchEmphasis(text, index, char, run, tolerant);
+      if (emphasis) {
+        flush();
+        nodes.push({
+          kind: run === 2 ? 'strong' : 'emphasis',
+          children: parseInline(text.slice(index + run, emphasis.close), tolerant),
+        });
+        index = emphasis.end;
+        continue;
+      }
+
+      buffer += char.repeat(run);
+      index += run;
+      continue;
+    }
+
+    buffer += char;
+    index++;
+  }
+
+  flush();
+  return nodes;
+}
+
+/**
+ * Match `[label](href)` at `index`
+ */
+function matchLink(
+  text: string,
+  index: number
+): { label: string; href: string; end: number } | null {
+  const labelEnd = text.indexOf('](', index + 1);
+  if (labelEnd === -1 || text.slice(index + 1, labelEnd).includes('[')) {
+    return null;
+  }
+
+  const hrefEnd = text.indexOf(')', labelEnd + 2);
+  if (hrefEnd === -1) {
+    return null;
+  }
+
+  const href = text.slice(labelEnd + 2, hrefEnd).trim();
+  if (/\s/.test(href)) {
+    return null;
+  }
+
+  return { label: text.slice(index + 1, labelEnd), href, end: hrefEnd + 1 };
+}
+
+/**
+ * Match an emphasis run opening at `index`, returning where its content
+ * ends (`close`) and where parsing resumes (`end`)
+ */
+function matchEmphasis(
+  text: string,
+  index: number,
+  char: string,
+  run: number,
+  tolerant: boolean
+): { close: number; end: number } | null {
+  const next = text[index + run];
+  if (next === undefined || /\s/.test(next)) {
+    return null;
+  }
+  // Underscores inside words (snake_case) are not emphasis
+  if (char === '_' && WORD_CHARACTER.test(text[index - 1] ?? '')) {
+    return null;
+  }
+
+  const marker = char.repeat(run);
+  for (let close = index + run + 1; close <= text.length - run; close++) {
+    if (
+      text.startsWith(marker, close) &&
+      !/\s/.test(text[close - 1]) &&
+      text[close + run] !== char &&
+      (run === 2 || text[close - 1] !== char) &&
+      !(char === '_' && WORD_CHARACTER.test(text[close + run] ?? ''))
+    ) {
+      return { close, end: close + run };
+    }
+  }
+
+  return tolerant ? { close: text.length, end: text.length } : null;
+}
+
+// ============================================================================
+// Incremental Parser
+// ============================================================================
+
+/**
+ * Parse a complete markdown document
+ *
+ * @param text - Markdown
+ * @returns Blocks
+ */
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  return parseLines(toLines(text), { streaming: false, partialLastLine: false }).map(
+    ({ block }) => block
+  );
+}
+
+function toLines(text: string): string[] {
+  return text.split('\n').map((line) => (line.endsWith('\r') ? line.slice(0, -1) : line));
+}
+
+/**
+ * IncrementalMarkdownParser - Parses a growing document, reusing stable blocks
+ *
+ * @example
+ * ```typescript
+ * const parser = new IncrementalMarkdownParser();
+ *
+ * for await (const event of answerChunks) {
+ *   render(parser.append(event.data.text)); // only the open tail is re-parsed
+ * }
+ * render(parser.finish());
+ * ```
+ */
+export class IncrementalMarkdownParser {
+  private source: string = '';
+  private stableBlocks: MarkdownBlock[] = [];
+  private stableLength: number = 0;
+  private blocks: MarkdownBlock[] = [];
+  private complete: boolean = false;
+
+  /**
+   * Add streamed text
+   *
+   * @param chunk - Text to append
+   * @returns Blocks of the document so far
+   */
+  append(chunk: string): MarkdownBlock[] {
+    this.source += chunk;
+    this.complete = false;
+    return this.update();
+  }
+
+  /**
+   * Mark the document as complete, so unmatched markers render as text
+   *
+   * @returns Final blocks
+   */
+  finish(): MarkdownBlock[] {
+    this.complete = true;
+    return this.update();
+  }
+
+  /**
+   * Replace the document, appending when the new text extends the current one
+   *
+   * Convenient for renderers that receive the accumulated text as a prop.
+   *
+   * @param text - Full document so far
+   * @param complete - Whether the document is complete (default: false)
+   * @returns Blocks of the document
+   */
+  setText(text: string, complete: boolean = false): MarkdownBlock[] {
+    if (text === this.source && complete === this.complete) {
+      return this.blocks;
+    }
+
+    if (!text.startsWith(this.source)) {
+      this.reset();
+    }
+
+    this.source = text;
+    this.complete = complete;
+    return this.update();
+  }
+
+  /**
+   * Get the blocks of the document so far
+   *
+   * @returns Blocks
+   */
+  getBlocks(): MarkdownBlock[] {
+    return this.blocks;
+  }
+
+  /**
+   * Get the number of blocks that will not change as more text arrives
+   *
+   * @returns Stable block count
+   */
+  getStableBlockCount(): number {
+    return this.stableBlocks.length;
+  }
+
+  /**
+   * Clear the document
+   */
+  reset(): void {
+    this.source = '';
+    this.stableBlocks = [];
+    this.stableLength = 0;
+    this.blocks = [];
+    this.complete = false;
+  }
+
+  /**
+   * Re-parse the text after the stable blocks and promote newly stable ones
+   */
+  private update(): MarkdownBlock[] {
+    const tail = this.source.slice(this.stableLength);
+    const lines = toLines(tail);
+    const completeLines = lines.length - 1;
+    const parsed = parseLines(lines, {
+      streaming: !this.complete,
+      partialLastLine: !this.complete,
+    });
+
+    // A block is stable once complete lines show it is finished
+    let stable = 0;
+    while (stable < parsed.length && parsed[stable].closedAt < completeLines) {
+      stable++;
+    }
+
+    if (stable > 0) {
+      const resumeAt = stable < parsed.length ? parsed[stable].start : completeLines;
+      let offset = 0;
+      for (let line = 0; line < resumeAt; line++) {
+        offset = tail.indexOf('\n', offset) + 1;
+      }
+      this.stableBlocks = [
+        ...this.stableBlocks,
+        ...parsed.slice(0, stable).map(({ block }) => block),
+      ];
+      this.stableLength += offset;
+    }
+
+    this.blocks = [...this.stableBlocks, ...parsed.slice(stable).map(({ block }) => block)];
+    return this.blocks;
+  }
+}
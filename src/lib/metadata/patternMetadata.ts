@@ -128,6 +128,38 @@ export const PATTERN_METADATA: Record<string, PatternMetadata> = {
       'LLM schemas',
       'structured AI'
     ]
+  },
+
+  'tool-use-stream': {
+    title:
+      'Tool-Use Stream Pattern | Streaming AI UX Patterns | StreamFlow PM',
+    description:
+      'Stream AI agent tool calls as they happen. React demo shows live tool arguments, parallel calls, structured results and visible tool failures.',
+    keywords: [
+      'tool use',
+      'function calling',
+      'AI agents',
+      'tool call streaming',
+      'React streaming',
+      'partial JSON',
+      'agent transparency'
+    ]
+  },
+
+  'sub-agent-orchestration': {
+    title:
+      'Sub-Agent Orchestration Pattern | Streaming AI UX Patterns | StreamFlow PM',
+    description:
+      'Stream a planner agent and the sub-agents it runs in parallel. React demo shows nested agent swimlanes, live progress and contained sub-agent failures.',
+    keywords: [
+      'sub-agents',
+      'multi-agent',
+      'agent orchestration',
+      'parallel agents',
+      'nested streams',
+      'React streaming',
+      'agent transparency'
+    ]
   }
 };
 
@@ -0,0 +1,173 @@
+/**
+ * Tests for pattern event adapters
+ *
+ * @module lib/streaming/eventAdapter.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  adaptStream,
+  createEventAdapter,
+  PatternTransport,
+  readPatternStream,
+  type EventAdapter,
+  type EventReader,
+} from './eventAdapter';
+import { StreamSession } from './streamSession';
+import type { ScriptContext } from './transport';
+import type { StreamEvent } from '@/types/events';
+
+type LocalEvent =
+  | { type: 'ask'; question: string; timestamp?: number }
+  | { type: 'reply'; text: string };
+
+const adaptLocal: EventAdapter<LocalEvent> = (event, { id, timestamp, lastOf }) => {
+  switch (event.type) {
+    case 'ask':
+      return {
+        id,
+        type: 'await_input',
+        timestamp,
+        data: { requestId: id, prompt: event.question, inputType: 'text' },
+      };
+    case 'reply':
+      return {
+        id,
+        type: 'input_submission',
+        timestamp,
+        data: {
+          requestId: lastOf('await_input')?.data.requestId ?? 'unknown',
+          value: event.text,
+          submittedAt: timestamp,
+        },
+      };
+  }
+};
+
+/**
+ * Yield a fixed conversation of local events
+ */
+async function* conversation(): AsyncGenerator<LocalEvent> {
+  yield { type: 'ask', question: 'Name?', timestamp: 500 };
+  yield { type: 'reply', text: 'Ada' };
+  yield { type: 'ask', question: 'Role?' };
+  yield { type: 'reply', text: 'Engineer' };
+}
+
+/**
+ * Ask a question and wait for the client to answer it
+ */
+async function* interview({ waitFor }: ScriptContext): AsyncGenerator<LocalEvent> {
+  yield { type: 'ask', question: 'Name?' };
+  const { data } = await waitFor('input_submission');
+  yield { type: 'ask', question: `Role for ${data.value}?` };
+}
+
+const readLocal: EventReader<LocalEvent> = (event) =>
+  event.type === 'await_input' ? { type: 'ask', question: event.data.prompt } : null;
+
+describe('createEventAdapter', () => {
+  it('should generate sequential ids with the prefix', async () => {
+    const ids: string[] = [];
+    for await (const event of adaptStream(conversation(), adaptLocal, { idPrefix: 'chat' })) {
+      ids.push(event.id);
+    }
+
+    expect(ids).toEqual(['chat-1', 'chat-2', 'chat-3', 'chat-4']);
+  });
+
+  it('should keep pattern timestamps and fall back to the clock', () => {
+    const toStreamEvent = createEventAdapter(adaptLocal, { now: () => 42 });
+
+    expect(toStreamEvent({ type: 'ask', question: 'Name?', timestamp: 500 }).timestamp).toBe(500);
+    expect(toStreamEvent({ type: 'reply', text: 'Ada' }).timestamp).toBe(42);
+  });
+
+  it('should expose the last adapted event of each type', async () => {
+    const events: StreamEvent[] = [];
+    for await (const event of adaptStream(conversation(), adaptLocal)) {
+      events.push(event);
+    }
+
+    const replies = events.filter((event) => event.type === 'input_submission');
+    expect(replies.map((event) => event.data.requestId)).toEqual(['event-1', 'event-3']);
+  });
+});
+
+describe('PatternTransport', () => {
+  it('should run a pattern stream through StreamSession', async () => {
+    const session = new StreamSession({
+      sessionId: 'pattern-session',
+      transport: new PatternTransport(conversation, adaptLocal, { idPrefix: 'chat' }),
+    });
+
+    const types: string[] = [];
+    for await (const event of session.stream()) {
+      types.push(event.type);
+    }
+
+    expect(types).toEqual(['await_input', 'input_submission', 'await_input', 'input_submission']);
+    expect(session.getState()).toBe('closed');
+  });
+
+  it('should skip delivered events when resuming', async () => {
+    const transport = new PatternTransport(conversation, adaptLocal, { idPrefix: 'chat' });
+
+    const ids: string[] = [];
+    for await (const event of transport.connect({ sequenceNumber: 2 })) {
+      ids.push(event.id);
+    }
+
+    expect(ids).toEqual(['chat-3', 'chat-4']);
+    expect(transport.getPosition()).toBe(4);
+  });
+});
+
+describe('readPatternStream', () => {
+  it('should read a transport as pattern events', async () => {
+    const canonical: StreamEvent[] = [];
+    const questions: string[] = [];
+    const transport = new PatternTransport(conversation, adaptLocal, { idPrefix: 'chat' });
+
+    for await (const event of readPatternStream(transport, readLocal, {
+      onEvent: (event) => canonical.push(event),
+    })) {
+      questions.push(event.type === 'ask' ? event.question : event.text);
+    }
+
+    expect(questions).toEqual(['Name?', 'Role?']);
+    expect(canonical.map((event) => event.id)).toEqual(['chat-1', 'chat-2', 'chat-3', 'chat-4']);
+  });
+
+  it('should let the client answer a waiting pattern stream through its session', async () => {
+    const sent: StreamEvent[] = [];
+    const session = new StreamSession({
+      sessionId: 'interview',
+      transport: new PatternTransport(interview, adaptLocal, { idPrefix: 'chat' }),
+      onSend: (event) => sent.push(event),
+    });
+
+    const questions: string[] = [];
+    for await (const event of readPatternStream(session, readLocal)) {
+      if (event.type !== 'ask') continue;
+
+      questions.push(event.question);
+      if (questions.length === 1) {
+        session.send({
+          id: 'answer-1',
+          type: 'input_submission',
+          timestamp: 1000,
+          data: { requestId: 'chat-1', value: 'Ada', submittedAt: 1000 },
+        });
+      }
+    }
+
+    expect(questions).toEqual(['Name?', 'Role for Ada?']);
+    expect(sent).toEqual([
+      expect.objectContaining({
+        id: 'answer-1',
+        metadata: expect.objectContaining({ direction: 'outbound' }),
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * Event Adapters - Bridge pattern event vocabularies to canonical StreamEvents
+ *
+ * Each pattern's mockStream.ts yields its own lightweight event shapes (often
+ * without ids or timestamps). An adapter converts them into the canonical
+ * StreamEvent union from `@/types/events`, so any pattern stream can be:
+ * - Captured by useNetworkCapture without type casts
+ * - Driven through StreamSession (pause/resume, invariants, enrichment)
+ * - Validated with the type guards in eventSchema.ts
+ *
+ * Patterns provide the mapping (`EventAdapter`) and its inverse
+ * (`EventReader`); this module supplies ids, timestamps and the
+ * StreamTransport plumbing. Pattern hooks read every transport through
+ * `readPatternStream`, so the mock, a fixture or a real SSE endpoint all feed
+ * the same reducer.
+ *
+ * @module lib/streaming/eventAdapter
+ */
+
+import type { EventType, StreamEvent } from '@/types/events';
+import { StreamSession, type EnrichedStreamEvent } from './streamSession';
+import { InboundChannel } from './inboundChannel';
+import { getResumeConfig } from './sessionPersistence';
+import {
+  createScriptContext,
+  type ResumePoint,
+  type ScriptContext,
+  type StreamTransport,
+  type TransportKind,
+} from './transport';
+import { systemClock, type Clock } from '@/lib/utils/clock';
+
+/**
+ * Minimal shape of a pattern event
+ */
+export interface PatternEvent {
+  type: string;
+  timestamp?: number;
+}
+
+/**
+ * Information supplied to an adapter for each event
+ */
+export interface AdapterContext {
+  /** Generated ID for the canonical event */
+  id: string;
+
+  /** Timestamp for the canonical event (the pattern's own, if it has one) */
+  timestamp: number;
+
+  /**
+   * Get the most recently adapted event of a type
+   * Lets adapters link related events (e.g. a submission to its request).
+   *
+   * @param type - Canonical event type
+   * @returns Last adapted event of that type, if any
+   */
+  lastOf<T extends EventType>(type: T): Extract<StreamEvent, { type: T }> | undefined;
+}
+
+/**
+ * Maps one pattern event to a canonical stream event
+ */
+export type EventAdapter<P extends PatternEvent> = (
+  event: P,
+  context: AdapterContext
+) => StreamEvent;
+
+/**
+ * Maps a canonical stream event back to a pattern event
+ *
+ * Returns null for event types the pattern does not render.
+ */
+export type EventReader<P extends PatternEvent> = (event: StreamEvent) => P | null;
+
+/**
+ * Options for createEventAdapter
+ */
+export interface EventAdapterOptions {
+  /** Prefix for generated event IDs (default: 'event') */
+  idPrefix?: string;
+
+  /** Clock for events without a timestamp (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Create a stateful converter from pattern events to canonical events
+ *
+ * Generated IDs are sequential (`<prefix>-1`, `<prefix>-2`, ...) so the same
+ * pattern stream always produces the same IDs (INV-13).
+ *
+ * @param adapt - Pattern-specific mapping
+ * @param options - ID and clock options
+ * @returns Function converting each pattern event in stream order
+ *
+ * @example
+ * ```typescript
+ * const toStreamEvent = createEventAdapter(adaptTabularEvent, { idPrefix: 'tabular' });
+ *
+ * for await (const event of createMockTabularStream()) {
+ *   captureEvent(toStreamEvent(event));
+ * }
+ * ```
+ */
+export function createEventAdapter<P extends PatternEvent>(
+  adapt: EventAdapter<P>,
+  options: EventAdapterOptions = {}
+): (event: P) => StreamEvent {
+  const { idPrefix = 'event', now = Date.now } = options;
+  const lastByType = new Map<EventType, StreamEvent>();
+  let count = 0;
+
+  const context = (event: P): AdapterContext => ({
+    id: `${idPrefix}-${++count}`,
+    timestamp: typeof event.timestamp === 'number' ? event.timestamp : now(),
+    lastOf: <T extends EventType>(type: T) =>
+      lastByType.get(type) as Extract<StreamEvent, { type: T }> | undefined,
+  });
+
+  return (event) => {
+    const adapted = adapt(event, context(event));
+    lastByType.set(adapted.type, adapted);
+    return adapted;
+  };
+}
+
+/**
+ * Adapt every event of a pattern stream
+ *
+ * @param source - Pattern event stream
+ * @param adapt - Pattern-specific mapping
+ * @param options - ID and clock options
+ * @returns Async generator of canonical events
+ */
+export async function* adaptStream<P extends PatternEvent>(
+  source: AsyncIterable<P>,
+  adapt: EventAdapter<P>,
+  options: EventAdapterOptions = {}
+): AsyncGenerator<StreamEvent, void, undefined> {
+  const toStreamEvent = createEventAdapter(adapt, options);
+
+  for await (const event of source) {
+    yield toStreamEvent(event);
+  }
+}
+
+/**
+ * Options for readPatternStream
+ */
+export interface ReadPatternStreamOptions {
+  /** Session ID recorded on delivered events (default: generated from the time) */
+  sessionId?: string;
+
+  /** Called with each delivered canonical event, before it is read */
+  onEvent?: (event: EnrichedStreamEvent) => void;
+
+  /**
+   * Events of an earlier run to continue (see RecordedRun): they are reported
+   * and read first, then a session created here resumes after them
+   */
+  history?: StreamEvent[];
+
+  /** Aborting closes the session, releasing a connection idle between events */
+  // eslint-disable-next-line no-undef
+  signal?: AbortSignal;
+}
+
+/**
+ * Run a transport through a StreamSession and read its events as pattern events
+ *
+ * Every delivered event is reported to `onEvent` (for the Network Inspector)
+ * in its canonical, enriched form; events the reader maps to null are
+ * reported but not yielded.
+ *
+ * Interactive patterns pass their own session instead of a transport, so
+ * they can answer the stream with `session.send()` while reading it. Such a
+ * session resumes `history` only if it was created with `getResumeConfig()`.
+ *
+ * @param source - Event source (PatternTransport, SSETransport, ...) or a session over one
+ * @param read - Pattern-specific inverse mapping
+ * @param options - Session ID, event callback, history and abort signal
+ * @returns Async generator of pattern events
+ *
+ * @example
+ * ```typescript
+ * const transport =
+ *   createTransport?.() ??
+ *   new PatternTransport(() => createMockMemoryStream(config), adaptMemoryEvent);
+ *
+ * for await (const event of readPatternStream(transport, readMemoryEvent, { onEvent })) {
+ *   processEvent(event);
+ * }
+ * ```
+ */
+export async function* readPatternStream<P extends PatternEvent>(
+  source: StreamTransport | StreamSession,
+  read: EventReader<P>,
+  options: ReadPatternStreamOptions = {}
+): AsyncGenerator<P, void, undefined> {
+  const { sessionId = `session-${Date.now()}`, onEvent, history = [], signal } = options;
+  const session =
+    source instanceof StreamSession
+      ? source
+      : new StreamSession({ sessionId, transport: source, ...getResumeConfig(history) });
+
+  const handleAbort = (): void => session.close();
+  signal?.addEventListener('abort', handleAbort);
+
+  try {
+    for (const event of history) {
+      onEvent?.(event);
+
+      const patternEvent = read(event);
+      if (patternEvent) {
+        yield patternEvent;
+      }
+    }
+
+    for await (const event of session.stream()) {
+      onEvent?.(event);
+
+      const patternEvent = read(event);
+      if (patternEvent) {
+        yield patternEvent;
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', handleAbort);
+    session.close();
+  }
+}
+
+/**
+ * Options for PatternTransport
+ */
+export interface PatternTransportOptions extends EventAdapterOptions {
+  /** Clock behind `context.clock` (default: the system clock) */
+  clock?: Clock;
+}
+
+/**
+ * PatternTransport - Runs a pattern's mock stream through StreamSession
+ *
+ * The pattern stream keeps its own timing; the session adds lifecycle,
+ * pause/resume and metadata on top. Because pattern streams are
+ * deterministic, resuming restarts the stream and skips the events that
+ * were already delivered. A source that waits on `context.clock` does not
+ * wait while it regenerates those events.
+ *
+ * Like ScriptTransport, the source receives `waitFor`, so an interactive
+ * mock can pause until the client answers with `session.send()`. Resuming
+ * rewinds the inbound channel, so the replay takes the same branches.
+ *
+ * @example
+ * ```typescript
+ * const session = new StreamSession({
+ *   sessionId: 'memory-demo',
+ *   transport: new PatternTransport(
+ *     (context) => createMockMemoryStream({ speed: 'fast', clock: context.clock }),
+ *     adaptMemoryEvent,
+ *     { idPrefix: 'memory' }
+ *   ),
+ * });
+ *
+ * for await (const event of session.stream()) {
+ *   captureEvent(event);
+ * }
+ * ```
+ */
+export class PatternTransport<P extends PatternEvent> implements StreamTransport {
+  readonly kind: TransportKind = 'mock';
+  private readonly createSource: (context: ScriptContext) => AsyncIterable<P>;
+  private readonly adapt: EventAdapter<P>;
+  private readonly options: PatternTransportOptions;
+  private channel: InboundChannel = new InboundChannel();
+  private delivered: number = 0;
+  private closed: boolean = false;
+
+  /**
+   * Create a pattern transport
+   *
+   * @param createSource - Factory returning a fresh pattern stream (given `waitFor` and `clock`)
+   * @param adapt - Pattern-specific mapping
+   * @param options - ID and clock options
+   */
+  constructor(
+    createSource: (context: ScriptContext) => AsyncIterable<P>,
+    adapt: EventAdapter<P>,
+    options: PatternTransportOptions = {}
+  ) {
+    this.createSource = createSource;
+    this.adapt = adapt;
+    this.options = options;
+  }
+
+  attachInbound(channel: InboundChannel): void {
+    this.channel = channel;
+  }
+
+  /**
+   * Start the pattern stream and yield adapted events
+   *
+   * @param resumeFrom - Optional point to resume after (by sequence number)
+   * @yields Canonical stream events
+   */
+  async *connect(resumeFrom?: ResumePoint): AsyncGenerator<StreamEvent, void, undefined> {
+    const skip = resumeFrom?.sequenceNumber ?? 0;
+    let index = 0;
+    const clock = this.options.clock ?? systemClock;
+    const context = createScriptContext(this.channel, clock, () => index < skip);
+
+    this.channel.rewind();
+    this.delivered = skip;
+
+    const source = this.createSource(context);
+    for await (const event of adaptStream(source, this.adapt, this.options)) {
+      if (this.closed) {
+        return;
+      }
+
+      if (index++ < skip) {
+        continue;
+      }
+
+      this.delivered++;
+      yield event;
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  getPosition(): number {
+    return this.delivered;
+  }
+
+  getTotalEvents(): number {
+    return this.delivered;
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Tests for EventBuffer
+ *
+ * @module lib/streaming/eventBuffer.test
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { StreamEvent } from '@/types/events';
+import { EventBuffer, coalesceLatest } from './eventBuffer';
+
+function answer(index: number, type: 'answer' | 'reasoning' = 'answer'): StreamEvent {
+  return type === 'answer'
+    ? { id: `e${index}`, type, timestamp: 1000 + index, data: { text: `${index}`, isFinal: false } }
+    : {
+        id: `e${index}`,
+        type,
+        timestamp: 1000 + index,
+        data: { id: `r${index}`, summary: `${index}`, confidence: 1, timestamp: 1000 + index },
+      };
+}
+
+/**
+ * Source that emits `count` events synchronously and records how many were pulled
+ */
+function countingSource(count: number, make: (index: number) => StreamEvent = answer) {
+  const source = {
+    pulled: 0,
+    returned: false,
+    async *[Symbol.asyncIterator]() {
+      try {
+        for (let index = 0; index < count; index++) {
+          source.pulled++;
+          yield make(index);
+        }
+      } finally {
+        source.returned = true;
+      }
+    },
+  };
+  return source;
+}
+
+/** Let the buffer's read-ahead loop run */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+async function collect(buffer: AsyncIterable<StreamEvent>): Promise<string[]> {
+  const ids: string[] = [];
+  for await (const event of buffer) {
+    ids.push(event.id);
+  }
+  return ids;
+}
+
+describe('EventBuffer', () => {
+  it('should reject invalid watermarks', () => {
+    expect(() => new EventBuffer(countingSource(1), { highWaterMark: 0 })).toThrow(
+      'Buffer highWaterMark must be a positive integer, got 0'
+    );
+    expect(() => new EventBuffer(countingSource(1), { highWaterMark: 4, lowWaterMark: 4 })).toThrow(
+      'Buffer lowWaterMark must be between 0 and 3, got 4'
+    );
+  });
+
+  it('should deliver every event in order when the consumer keeps up', async () => {
+    const buffer = new EventBuffer(countingSource(5), { highWaterMark: 2 });
+
+    expect(await collect(buffer)).toEqual(['e0', 'e1', 'e2', 'e3', 'e4']);
+    expect(buffer.getStatistics()).toMatchObject({ depth: 0, dropped: 0, coalesced: 0 });
+  });
+
+  describe("'block' policy", () => {
+    it('should stop reading at the high-water mark until drained to the low-water mark', async () => {
+      const source = countingSource(100);
+      const buffer = new EventBuffer(source, { highWaterMark: 4, lowWaterMark: 2 });
+
+      await buffer.next();
+      await settle();
+      expect(source.pulled).toBe(5);
+      expect(buffer.getStatistics()).toMatchObject({ depth: 4, pressured: true });
+
+      await buffer.next();
+      await settle();
+      expect(source.pulled).toBe(5);
+
+      await buffer.next();
+      await settle();
+      expect(source.pulled).toBe(7);
+      expect(buffer.getStatistics()).toMatchObject({ depth: 4, maxDepth: 4 });
+    });
+
+    it('should report pressure changes', async () => {
+      const onPressureChange = vi.fn();
+      const buffer = new EventBuffer(countingSource(6), {
+        highWaterMark: 4,
+        lowWaterMark: 1,
+        onPressureChange,
+      });
+
+      await buffer.next();
+      await settle();
+      expect(onPressureChange).toHaveBeenCalledWith(true, expect.objectContaining({ depth: 4 }));
+
+      await collect(buffer);
+      expect(onPressureChange).toHaveBeenLastCalledWith(
+        false,
+        expect.objectContaining({ depth: 1 })
+      );
+    });
+  });
+
+  describe("'drop-oldest' policy", () => {
+    it('should keep the newest events when the consumer falls behind', async () => {
+      const buffer = new EventBuffer(countingSource(1000), {
+        highWaterMark: 10,
+        policy: 'drop-oldest',
+      });
+
+      const first = await buffer.next();
+      await settle();
+      const rest = await collect(buffer);
+
+      expect(first.value?.id).toBe('e0');
+      expect(rest).toHaveLength(10);
+      expect(rest[0]).toBe('e990');
+      expect(rest[9]).toBe('e999');
+      expect(buffer.getStatistics()).toMatchObject({ dropped: 989, maxDepth: 10 });
+    });
+  });
+
+  describe("'coalesce' policy", () => {
+    it('should let the latest event of a type replace the newest buffered one', async () => {
+      const buffer = new EventBuffer(countingSource(100), {
+        highWaterMark: 10,
+        policy: 'coalesce',
+      });
+
+      await buffer.next();
+      await settle();
+      const rest = await collect(buffer);
+
+      expect(rest).toEqual(['e1', 'e2', 'e3', 'e4', 'e5', 'e6', 'e7', 'e8', 'e9', 'e99']);
+      expect(buffer.getStatistics().coalesced).toBe(89);
+    });
+
+    it('should block on events that cannot be merged', async () => {
+      const source = countingSource(20, (index) =>
+        answer(index, index % 2 ? 'answer' : 'reasoning')
+      );
+      const buffer = new EventBuffer(source, { highWaterMark: 3, policy: 'coalesce' });
+
+      await buffer.next();
+      await settle();
+
+      expect(source.pulled).toBe(5);
+      expect(buffer.getStatistics()).toMatchObject({ depth: 4, coalesced: 0 });
+      expect(await collect(buffer)).toHaveLength(19);
+    });
+
+    it('should use a custom coalescer', async () => {
+      const sumTexts = (buffered: StreamEvent, incoming: StreamEvent) =>
+        buffered.type === 'answer' && incoming.type === 'answer'
+          ? {
+              ...incoming,
+              data: { ...incoming.data, text: buffered.data.text + incoming.data.text },
+            }
+          : null;
+      const buffer = new EventBuffer(countingSource(6), {
+        highWaterMark: 1,
+        policy: 'coalesce',
+        coalesce: sumTexts,
+      });
+
+      const texts: string[] = [];
+      await buffer.next();
+      await settle();
+      for await (const event of buffer) {
+        texts.push(event.type === 'answer' ? event.data.text : '');
+      }
+
+      expect(texts).toEqual(['12345']);
+    });
+  });
+
+  it('should merge only events of the same type and channel by default', () => {
+    expect(coalesceLatest(answer(1), answer(2))?.id).toBe('e2');
+    expect(coalesceLatest(answer(1), answer(2, 'reasoning'))).toBeNull();
+    expect(coalesceLatest(answer(1), { ...answer(2), channel: 'tools' })).toBeNull();
+  });
+
+  it('should deliver buffered events before a source failure', async () => {
+    async function* failing(): AsyncGenerator<StreamEvent> {
+      yield answer(0);
+      yield answer(1);
+      throw new Error('Connection reset');
+    }
+    const buffer = new EventBuffer(failing(), { highWaterMark: 4 });
+
+    await buffer.next();
+    await settle();
+
+    expect((await buffer.next()).value?.id).toBe('e1');
+    await expect(buffer.next()).rejects.toThrow('Connection reset');
+  });
+
+  it('should release the source and discard buffered events on return', async () => {
+    const source = countingSource(100);
+    const buffer = new EventBuffer(source, { highWaterMark: 8 });
+
+    await buffer.next();
+    await settle();
+    await buffer.return();
+    await settle();
+
+    expect(source.returned).toBe(true);
+    expect(buffer.getStatistics().depth).toBe(0);
+    expect(await buffer.next()).toEqual({ done: true, value: undefined });
+  });
+});
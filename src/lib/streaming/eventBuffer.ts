@@ -0,0 +1,347 @@
+/**
+ * Event Buffer - Bounded buffering between a stream and a slow consumer
+ *
+ * Without a buffer, a session only reads from its transport when the
+ * consumer asks for the next event, so a slow consumer (e.g. a table
+ * re-rendering on every row) silently stretches the stream's timing. With a
+ * buffer, the transport runs at its own pace and events queue up; what
+ * happens when the queue reaches its high-water mark is an explicit policy:
+ *
+ * - 'block': stop reading the transport until the consumer drains the
+ *   buffer down to the low-water mark
+ * - 'drop-oldest': discard the oldest buffered event to make room
+ * - 'coalesce': merge the incoming event into the newest buffered one
+ *   (by default, a newer event of the same type and channel replaces it);
+ *   events that cannot be merged wait as with 'block'
+ *
+ * The buffer is "under pressure" from reaching the high-water mark until it
+ * drains to the low-water mark, which lets demos show a slow-consumer
+ * indicator without flickering.
+ *
+ * @module lib/streaming/eventBuffer
+ */
+
+import type { StreamEvent } from '@/types/events';
+
+/**
+ * What to do when the buffer is full
+ */
+export type BackpressurePolicy = 'block' | 'drop-oldest' | 'coalesce';
+
+/**
+ * Merge an incoming event into the newest buffered event
+ *
+ * @returns The merged event, or null if the two cannot be merged
+ */
+export type EventCoalescer<T extends StreamEvent = StreamEvent> = (
+  buffered: T,
+  incoming: T
+) => T | null;
+
+/**
+ * Buffer configuration
+ */
+export interface BufferConfig {
+  /** Buffered events at which the policy applies */
+  highWaterMark: number;
+
+  /** Buffered events at which pressure is released (default: half the high-water mark) */
+  lowWaterMark?: number;
+
+  /** Policy when the buffer is full (default: 'block') */
+  policy?: BackpressurePolicy;
+
+  /** Merge function for the 'coalesce' policy (default: latest of the same type wins) */
+  coalesce?: EventCoalescer;
+
+  /** Called when the buffer comes under pressure or is released */
+  onPressureChange?: (pressured: boolean, statistics: BufferStatistics) => void;
+}
+
+/**
+ * Buffer statistics
+ */
+export interface BufferStatistics {
+  /** Active policy */
+  policy: BackpressurePolicy;
+
+  /** Events currently buffered */
+  depth: number;
+
+  /** Largest depth reached */
+  maxDepth: number;
+
+  /** High-water mark */
+  highWaterMark: number;
+
+  /** Low-water mark */
+  lowWaterMark: number;
+
+  /** Whether the buffer is between the high- and low-water marks after filling up */
+  pressured: boolean;
+
+  /** Events discarded by 'drop-oldest' */
+  dropped: number;
+
+  /** Events merged by 'coalesce' */
+  coalesced: number;
+}
+
+/**
+ * Default coalescer: a newer event replaces a buffered one of the same type and channel
+ *
+ * @param buffered - Newest buffered event
+ * @param incoming - Incoming event
+ * @returns The incoming event, or null if the types or channels differ
+ */
+export function coalesceLatest<T extends StreamEvent>(buffered: T, incoming: T): T | null {
+  return buffered.type === incoming.type && buffered.channel === incoming.channel ? incoming : null;
+}
+
+/**
+ * A pending next() call
+ */
+interface BufferWaiter<T> {
+  resolve: (result: IteratorResult<T, undefined>) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * EventBuffer - Reads a stream ahead of its consumer into a bounded queue
+ *
+ * Reading starts on the first `next()` call. Returning from the iterator
+ * stops reading and releases the source.
+ *
+ * @example
+ * ```typescript
+ * const rows = new EventBuffer(session.stream(), { highWaterMark: 100, policy: 'drop-oldest' });
+ *
+ * for await (const row of rows) {
+ *   await renderRow(row); // slow: older rows are dropped past 100 buffered
+ * }
+ * console.warn(rows.getStatistics().dropped);
+ * ```
+ */
+export class EventBuffer<T extends StreamEvent = StreamEvent> implements AsyncIterableIterator<T> {
+  private readonly source: AsyncIterator<T>;
+  private readonly policy: BackpressurePolicy;
+  private readonly highWaterMark: number;
+  private readonly lowWaterMark: number;
+  private readonly coalesce: EventCoalescer<T>;
+  private readonly onPressureChange: BufferConfig['onPressureChange'];
+  private queue: T[] = [];
+  private waiters: BufferWaiter<T>[] = [];
+  private releaseRoom: (() => void) | null = null;
+  private started: boolean = false;
+  private done: boolean = false;
+  private closed: boolean = false;
+  private failure: { error: unknown } | undefined;
+  private pressured: boolean = false;
+  private maxDepth: number = 0;
+  private dropped: number = 0;
+  private coalesced: number = 0;
+
+  /**
+   * Create a buffer over a stream
+   *
+   * @param source - Stream to read ahead
+   * @param config - Watermarks and policy
+   * @throws Error if the watermarks are invalid
+   */
+  constructor(source: AsyncIterable<T>, config: BufferConfig) {
+    const { highWaterMark, lowWaterMark = Math.floor(highWaterMark / 2) } = config;
+
+    if (!Number.isInteger(highWaterMark) || highWaterMark < 1) {
+      throw new Error(`Buffer highWaterMark must be a positive integer, got ${highWaterMark}`);
+    }
+    if (lowWaterMark < 0 || lowWaterMark >= highWaterMark) {
+      throw new Error(
+        `Buffer lowWaterMark must be between 0 and ${highWaterMark - 1}, got ${lowWaterMark}`
+      );
+    }
+
+    this.source = source[Symbol.asyncIterator]();
+    this.policy = config.policy ?? 'block';
+    this.highWaterMark = highWaterMark;
+    this.lowWaterMark = lowWaterMark;
+    this.coalesce = (config.coalesce as EventCoalescer<T> | undefined) ?? coalesceLatest;
+    this.onPressureChange = config.onPressureChange;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this;
+  }
+
+  /**
+   * Get the next buffered event, waiting if the buffer is empty
+   *
+   * @returns Next event, or done once the source ends
+   */
+  next(): Promise<IteratorResult<T, undefined>> {
+    if (!this.started) {
+      this.started = true;
+      void this.fill();
+    }
+
+    if (this.queue.length > 0) {
+      const value = this.queue.shift() as T;
+      this.updatePressure();
+      return Promise.resolve({ done: false, value });
+    }
+
+    if (this.done) {
+      return this.failure && !this.closed
+        ? Promise.reject(this.failure.error)
+        : Promise.resolve({ done: true, value: undefined });
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * Stop reading the source and discard buffered events
+   *
+   * @returns Done result
+   */
+  async return(): Promise<IteratorResult<T, undefined>> {
+    this.close();
+    return { done: true, value: undefined };
+  }
+
+  /**
+   * Stop reading the source and discard buffered events. Idempotent.
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = true;
+    this.queue = [];
+    this.releaseRoom?.();
+    void this.source.return?.();
+    this.finish();
+  }
+
+  /**
+   * Get buffer statistics
+   *
+   * @returns Depth, watermarks and policy counters
+   */
+  getStatistics(): BufferStatistics {
+    return {
+      policy: this.policy,
+      depth: this.queue.length,
+      maxDepth: this.maxDepth,
+      highWaterMark: this.highWaterMark,
+      lowWaterMark: this.lowWaterMark,
+      pressured: this.pressured,
+      dropped: this.dropped,
+      coalesced: this.coalesced,
+    };
+  }
+
+  /**
+   * Read the source into the queue until it ends or the buffer is closed
+   */
+  private async fill(): Promise<void> {
+    try {
+      while (!this.closed) {
+        await this.waitForRoom();
+        if (this.closed) {
+          break;
+        }
+
+        const result = await this.source.next();
+        if (result.done || this.closed) {
+          break;
+        }
+
+        this.push(result.value);
+      }
+    } catch (error) {
+      this.failure = { error };
+    } finally {
+      this.finish();
+    }
+  }
+
+  /**
+   * Add an event, applying the policy when the buffer is full
+   */
+  private push(event: T): void {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve({ done: false, value: event });
+      return;
+    }
+
+    if (this.queue.length >= this.highWaterMark) {
+      if (this.policy === 'drop-oldest') {
+        this.queue.shift();
+        this.dropped++;
+      } else if (this.policy === 'coalesce') {
+        const last = this.queue.length - 1;
+        const merged = this.coalesce(this.queue[last], event);
+        if (merged) {
+          this.queue[last] = merged;
+          this.coalesced++;
+          return;
+        }
+      }
+    }
+
+    this.queue.push(event);
+    this.maxDepth = Math.max(this.maxDepth, this.queue.length);
+    this.updatePressure();
+  }
+
+  /**
+   * Wait until the policy allows reading another event
+   */
+  private async waitForRoom(): Promise<void> {
+    const full =
+      (this.policy === 'block' && this.pressured) ||
+      (this.policy === 'coalesce' && this.queue.length > this.highWaterMark);
+
+    if (!full) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      this.releaseRoom = resolve;
+    });
+    this.releaseRoom = null;
+  }
+
+  private updatePressure(): void {
+    const depth = this.queue.length;
+
+    if (!this.pressured && depth >= this.highWaterMark) {
+      this.pressured = true;
+      this.onPressureChange?.(true, this.getStatistics());
+    } else if (this.pressured && depth <= this.lowWaterMark) {
+      this.pressured = false;
+      this.onPressureChange?.(false, this.getStatistics());
+    }
+
+    if (
+      this.releaseRoom &&
+      (this.policy === 'coalesce' ? depth <= this.highWaterMark : !this.pressured)
+    ) {
+      this.releaseRoom();
+    }
+  }
+
+  private finish(): void {
+    this.done = true;
+    const waiters = this.waiters.splice(0);
+    waiters.forEach((waiter) =>
+      this.failure && !this.closed
+        ? waiter.reject(this.failure.error)
+        : waiter.resolve({ done: true, value: undefined })
+    );
+  }
+}
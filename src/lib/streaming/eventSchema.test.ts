@@ -4,7 +4,7 @@
  * @module lib/streaming/eventSchema.test
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach } from 'vitest';
 import {
   isStreamEvent,
   isReasoningEvent,
@@ -20,10 +20,28 @@ import {
   isUserPatchEvent,
   isSchemaDefinitionEvent,
   isPayloadEvent,
+  isPayloadDeltaEvent,
   isSchemaErrorEvent,
+  isReconnectedEvent,
+  isMemoryCreateEvent,
+  isCheckpointResponseEvent,
+  isFinalPlanEvent,
+  isConflictEvent,
+  isToolResultEvent,
+  isToolErrorEvent,
+  isAgentEventEvent,
+  isAgentCompleteEvent,
   isEventOfType,
   validateEvent,
   assertValidEvent,
+  EVENT_SCHEMA_VERSION,
+  EVENT_TYPE_VERSIONS,
+  registerUpcaster,
+  clearUpcasters,
+  parseSchemaVersion,
+  formatSchemaVersion,
+  upcastEvent,
+  upcastEvents,
 } from './eventSchema';
 import type {
   ReasoningEvent,
@@ -489,18 +507,42 @@ describe('eventSchema', () => {
         'reasoning',
         'answer',
         'memory',
+        'memory.create',
+        'memory.update',
+        'memory.prune',
+        'memory.pin',
+        'message',
         'await_input',
         'input_submission',
+        'text',
+        'resume',
+        'timeout',
         'checkpoint',
         'validation',
+        'checkpoint_response',
+        'checkpoint_resume',
+        'budget_analysis',
+        'final_plan',
         'schema',
         'table_row',
         'table_meta',
         'agent_patch',
         'user_patch',
+        'patch_ack',
+        'section_complete',
+        'conflict',
         'schema_definition',
         'payload',
+        'payload_delta',
         'schema_error',
+        'tool_call_start',
+        'tool_call_delta',
+        'tool_result',
+        'tool_error',
+        'agent_spawn',
+        'agent_event',
+        'agent_complete',
+        'reconnected',
       ];
 
       types.forEach((type) => {
@@ -721,6 +763,22 @@ describe('eventSchema', () => {
       ).toBe(true);
     });
 
+    it('should validate PayloadDeltaEvent', () => {
+      expect(
+        isPayloadDeltaEvent({
+          id: 'evt-13b',
+          type: 'payload_delta',
+          timestamp: Date.now(),
+          data: {
+            id: 'payload-1',
+            delta: '{"name": "Test Pro',
+            timestamp: Date.now(),
+            chunkIndex: 0,
+          },
+        })
+      ).toBe(true);
+    });
+
     it('should validate SchemaErrorEvent', () => {
       expect(
         isSchemaErrorEvent({
@@ -737,5 +795,266 @@ describe('eventSchema', () => {
         })
       ).toBe(true);
     });
+
+    it('should validate ReconnectedEvent', () => {
+      expect(
+        isReconnectedEvent({
+          id: 'evt-15',
+          type: 'reconnected',
+          timestamp: Date.now(),
+          data: {
+            attempt: 1,
+            delayMs: 1000,
+            lastEventId: 'evt-3',
+            sequenceNumber: 3,
+          },
+        })
+      ).toBe(true);
+
+      expect(
+        isReconnectedEvent({
+          id: 'evt-15',
+          type: 'reconnected',
+          timestamp: Date.now(),
+          data: { attempt: 0, delayMs: 1000, sequenceNumber: 3 },
+        })
+      ).toBe(false);
+    });
+  });
+
+  // ============================================================================
+  // Pattern Lifecycle Events
+  // ============================================================================
+
+  describe('Pattern lifecycle event guards', () => {
+    const allocation = {
+      team: 'Platform',
+      budget: 250000,
+      headcount: 4,
+      contractors: 1,
+      rationale: 'Infrastructure migration',
+    };
+
+    const validEvents: Array<[string, unknown]> = [
+      [
+        'memory.create',
+        {
+          id: 'm-1',
+          memoryType: 'fact',
+          summary: 'Team size: 8',
+          tokenExcerpt: 'we have 8 engineers',
+        },
+      ],
+      ['memory.update', { id: 'm-1', updates: { summary: 'Team size: 9' } }],
+      ['memory.prune', { id: 'm-1', reason: 'TTL expired' }],
+      ['memory.pin', { id: 'm-1', pinned: true }],
+      ['message', { id: 'msg-1', role: 'user', content: 'Hi', turnNumber: 1 }],
+      ['text', { text: 'Let me help. ', isComplete: false }],
+      ['resume', { message: 'Thanks!', receivedFields: ['projectName'] }],
+      ['timeout', { message: 'Using defaults', expiredFields: ['budget'] }],
+      ['checkpoint_response', { checkpointId: 'cp-1', action: 'edit', editedValue: allocation }],
+      ['checkpoint_resume', { checkpointId: 'cp-1', approvedValue: allocation, phase: 'resuming' }],
+      ['budget_analysis', { team: 'Platform', analysis: 'Needs two more engineers' }],
+      ['final_plan', { allocations: [allocation], totalBudget: 250000, summary: 'Approved' }],
+      ['patch_ack', { patchId: 'p-1', status: 'accepted', message: 'Incorporated' }],
+      ['section_complete', { sectionId: 'goals' }],
+      [
+        'conflict',
+        { sectionId: 'goals', agentPatchId: 'p-1', userPatchId: 'p-2', resolution: 'user_wins' },
+      ],
+      ['tool_call_start', { callId: 'call-1', toolName: 'get_sprint' }],
+      ['tool_call_delta', { callId: 'call-1', delta: '{"sprintId": "spr', chunkIndex: 0 }],
+      ['tool_result', { callId: 'call-1', result: null, durationMs: 120 }],
+      ['tool_error', { callId: 'call-1', message: 'Timed out', code: 'timeout', retryable: true }],
+      ['agent_spawn', { agentId: 'risk', parentId: 'planner', name: 'Risk', task: 'Find risks' }],
+      [
+        'agent_event',
+        {
+          agentId: 'risk',
+          event: { id: 'r-1', type: 'text', timestamp: 1, data: { text: 'Checking' } },
+        },
+      ],
+      ['agent_complete', { agentId: 'risk', status: 'succeeded', eventCount: 4, durationMs: 900 }],
+    ];
+
+    it.each(validEvents)('should validate %s events', (type, data) => {
+      const event = { id: `evt-${type}`, type, timestamp: Date.now(), data };
+
+      expect(isStreamEvent(event)).toBe(true);
+      expect(isEventOfType(event, type as EventType)).toBe(true);
+    });
+
+    it('should reject memory.create without a valid category', () => {
+      expect(
+        isMemoryCreateEvent({
+          id: 'evt-1',
+          type: 'memory.create',
+          timestamp: Date.now(),
+          data: { id: 'm-1', memoryType: 'opinion', summary: 'x', tokenExcerpt: 'x' },
+        })
+      ).toBe(false);
+    });
+
+    it('should reject checkpoint responses with unknown actions', () => {
+      expect(
+        isCheckpointResponseEvent({
+          id: 'evt-2',
+          type: 'checkpoint_response',
+          timestamp: Date.now(),
+          data: { checkpointId: 'cp-1', action: 'defer' },
+        })
+      ).toBe(false);
+    });
+
+    it('should reject final plans with malformed allocations', () => {
+      expect(
+        isFinalPlanEvent({
+          id: 'evt-3',
+          type: 'final_plan',
+          timestamp: Date.now(),
+          data: { allocations: [{ team: 'Platform' }], totalBudget: 0, summary: '' },
+        })
+      ).toBe(false);
+    });
+
+    it('should reject conflicts with unknown resolutions', () => {
+      expect(
+        isConflictEvent({
+          id: 'evt-4',
+          type: 'conflict',
+          timestamp: Date.now(),
+          data: {
+            sectionId: 'goals',
+            agentPatchId: 'p-1',
+            userPatchId: 'p-2',
+            resolution: 'merge',
+          },
+        })
+      ).toBe(false);
+    });
+
+    it('should reject tool results without a result value', () => {
+      expect(
+        isToolResultEvent({
+          id: 'evt-5',
+          type: 'tool_result',
+          timestamp: Date.now(),
+          data: { callId: 'call-1', durationMs: 120 },
+        })
+      ).toBe(false);
+    });
+
+    it('should reject tool errors without a message', () => {
+      expect(
+        isToolErrorEvent({
+          id: 'evt-6',
+          type: 'tool_error',
+          timestamp: Date.now(),
+          data: { callId: 'call-1', message: '', retryable: true },
+        })
+      ).toBe(false);
+    });
+
+    it('should reject agent events wrapping an invalid event', () => {
+      expect(
+        isAgentEventEvent({
+          id: 'evt-7',
+          type: 'agent_event',
+          timestamp: Date.now(),
+          data: { agentId: 'risk', event: { id: 'r-1', type: 'text', timestamp: 1, data: {} } },
+        })
+      ).toBe(false);
+    });
+
+    it('should reject agent completions with unknown statuses', () => {
+      expect(
+        isAgentCompleteEvent({
+          id: 'evt-8',
+          type: 'agent_complete',
+          timestamp: Date.now(),
+          data: { agentId: 'risk', status: 'cancelled', eventCount: 0 },
+        })
+      ).toBe(false);
+    });
+  });
+
+  // ============================================================================
+  // Schema Versioning
+  // ============================================================================
+
+  describe('Schema versioning', () => {
+    afterEach(() => {
+      clearUpcasters();
+    });
+
+    it('should declare a version for every event type', () => {
+      Object.values(EVENT_TYPE_VERSIONS).forEach((version) => {
+        expect(version).toBeGreaterThanOrEqual(1);
+        expect(version).toBeLessThanOrEqual(EVENT_SCHEMA_VERSION);
+      });
+    });
+
+    it('should parse and format fixture versions', () => {
+      expect(parseSchemaVersion('1.0')).toBe(1);
+      expect(parseSchemaVersion('3.2')).toBe(3);
+      expect(parseSchemaVersion('2')).toBe(2);
+      expect(formatSchemaVersion(2)).toBe('2.0');
+      expect(() => parseSchemaVersion('v1')).toThrow('Invalid fixture version "v1"');
+    });
+
+    it('should apply upcasters in version order', () => {
+      registerUpcaster({
+        type: 'answer',
+        toVersion: 3,
+        upcast: (event) => ({ ...event, data: { ...(event.data as object), isFinal: true } }),
+      });
+      registerUpcaster({
+        type: 'answer',
+        toVersion: 2,
+        upcast: ({ content, ...event }) => ({ ...event, data: { text: content } }),
+      });
+
+      const legacy = { id: 'a1', type: 'answer', timestamp: 1000, content: 'Done' };
+
+      expect(upcastEvent(legacy, 1, 3)).toEqual({
+        id: 'a1',
+        type: 'answer',
+        timestamp: 1000,
+        data: { text: 'Done', isFinal: true },
+      });
+      expect(upcastEvent(legacy, 2, 3)).toEqual({ ...legacy, data: { isFinal: true } });
+    });
+
+    it('should continue the chain when an upcaster renames the type', () => {
+      registerUpcaster({ type: 'thought', toVersion: 2, upcast: (event) => ({ ...event, type: 'reasoning' }) });
+      registerUpcaster({
+        type: 'reasoning',
+        toVersion: 3,
+        upcast: (event) => ({ ...event, migrated: true }),
+      });
+
+      expect(upcastEvent({ type: 'thought' }, 1, 3)).toEqual({ type: 'reasoning', migrated: true });
+    });
+
+    it('should leave current events untouched', () => {
+      const events = [{ type: 'answer' }];
+
+      expect(upcastEvents(events, EVENT_SCHEMA_VERSION)).toBe(events);
+    });
+
+    it('should reject events from newer schema versions', () => {
+      expect(() => upcastEvents([{ type: 'answer' }], EVENT_SCHEMA_VERSION + 1)).toThrow(
+        `Event at index 0: Event schema v${EVENT_SCHEMA_VERSION + 1} is newer than the supported v${EVENT_SCHEMA_VERSION}`
+      );
+    });
+
+    it('should reject invalid or duplicate upcasters', () => {
+      const upcast = (event: { type: string }) => event;
+
+      expect(() => registerUpcaster({ type: 'answer', toVersion: 1, upcast })).toThrow('versions start at v2');
+
+      registerUpcaster({ type: 'answer', toVersion: 2, upcast });
+      expect(() => registerUpcaster({ type: 'answer', toVersion: 2, upcast })).toThrow('already registered');
+    });
   });
 });
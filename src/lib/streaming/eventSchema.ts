@@ -15,18 +15,42 @@ import type {
   ReasoningEvent,
   AnswerEvent,
   MemoryEvent,
+  MemoryCreateEvent,
+  MemoryUpdateEvent,
+  MemoryPruneEvent,
+  MemoryPinEvent,
+  ConversationMessageEvent,
   AwaitInputEvent,
   InputSubmissionEvent,
+  TextEvent,
+  ResumeEvent,
+  InputTimeoutEvent,
   CheckpointEvent,
   ValidationEvent,
+  CheckpointResponseEvent,
+  CheckpointResumeEvent,
+  BudgetAnalysisEvent,
+  FinalPlanEvent,
   SchemaEvent,
   RowEvent,
   MetaEvent,
   AgentPatchEvent,
   UserPatchEvent,
+  PatchAckEvent,
+  SectionCompleteEvent,
+  ConflictEvent,
   SchemaDefinitionEvent,
   PayloadEvent,
+  PayloadDeltaEvent,
   SchemaErrorEvent,
+  ToolCallStartEvent,
+  ToolCallDeltaEvent,
+  ToolResultEvent,
+  ToolErrorEvent,
+  AgentSpawnEvent,
+  AgentEventEvent,
+  AgentCompleteEvent,
+  ReconnectedEvent,
 } from '../../types/events';
 
 // ============================================================================
@@ -54,6 +78,39 @@ function isValidConfidence(value: unknown): value is number {
   return typeof value === 'number' && value >= 0 && value <= 1;
 }
 
+/**
+ * Check if a value is a valid memory category
+ */
+function isMemoryCategory(value: unknown): boolean {
+  return value === 'fact' || value === 'decision' || value === 'task' || value === 'risk';
+}
+
+/**
+ * Check if a value is a valid checkpoint action
+ */
+function isCheckpointAction(value: unknown): boolean {
+  return value === 'approve' || value === 'edit' || value === 'skip';
+}
+
+/**
+ * Check if a value is a budget allocation
+ */
+function isBudgetAllocation(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const allocation = value as Record<string, unknown>;
+
+  return (
+    isNonEmptyString(allocation.team) &&
+    typeof allocation.budget === 'number' &&
+    typeof allocation.headcount === 'number' &&
+    typeof allocation.contractors === 'number' &&
+    typeof allocation.rationale === 'string'
+  );
+}
+
 /**
  * Validate base stream event fields
  */
@@ -62,30 +119,627 @@ function hasBaseEventFields(obj: unknown): obj is BaseStreamEvent {
     return false;
   }
 
-  const event = obj as Record<string, unknown>;
+  const event = obj as Record<string, unknown>;
+
+  return (
+    isNonEmptyString(event.id) &&
+    isValidTimestamp(event.timestamp) &&
+    (event.sessionId === undefined || isNonEmptyString(event.sessionId)) &&
+    (event.channel === undefined || isNonEmptyString(event.channel))
+  );
+}
+
+// ============================================================================
+// Type Guards for Each Event Type
+// ============================================================================
+
+/**
+ * Type guard for ReasoningEvent
+ */
+export function isReasoningEvent(event: unknown): event is ReasoningEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'reasoning') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  return (
+    isNonEmptyString(data.id) &&
+    isNonEmptyString(data.summary) &&
+    isValidConfidence(data.confidence) &&
+    isValidTimestamp(data.timestamp) &&
+    (data.details === undefined || typeof data.details === 'string')
+  );
+}
+
+/**
+ * Type guard for AnswerEvent
+ */
+export function isAnswerEvent(event: unknown): event is AnswerEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'answer') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  return typeof data.text === 'string' && typeof data.isFinal === 'boolean';
+}
+
+/**
+ * Type guard for MemoryEvent
+ */
+export function isMemoryEvent(event: unknown): event is MemoryEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'memory') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  const validOperations = ['create', 'update', 'prune', 'recall'];
+
+  return (
+    isNonEmptyString(data.id) &&
+    typeof data.operation === 'string' &&
+    validOperations.includes(data.operation) &&
+    isNonEmptyString(data.content) &&
+    isValidConfidence(data.importance) &&
+    typeof data.turn === 'number' &&
+    isValidTimestamp(data.timestamp) &&
+    (data.tags === undefined || Array.isArray(data.tags))
+  );
+}
+
+/**
+ * Type guard for MemoryCreateEvent
+ */
+export function isMemoryCreateEvent(event: unknown): event is MemoryCreateEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'memory.create') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  return (
+    isNonEmptyString(data.id) &&
+    isMemoryCategory(data.memoryType) &&
+    isNonEmptyString(data.summary) &&
+    typeof data.tokenExcerpt === 'string' &&
+    (data.ttl === undefined || typeof data.ttl === 'number')
+  );
+}
+
+/**
+ * Type guard for MemoryUpdateEvent
+ */
+export function isMemoryUpdateEvent(event: unknown): event is MemoryUpdateEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'memory.update') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  return isNonEmptyString(data.id) && typeof data.updates === 'object' && data.updates !== null;
+}
+
+/**
+ * Type guard for MemoryPruneEvent
+ */
+export function isMemoryPruneEvent(event: unknown): event is MemoryPruneEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'memory.prune') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  return isNonEmptyString(data.id) && typeof data.reason === 'string';
+}
+
+/**
+ * Type guard for MemoryPinEvent
+ */
+export function isMemoryPinEvent(event: unknown): event is MemoryPinEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'memory.pin') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  return isNonEmptyString(data.id) && typeof data.pinned === 'boolean';
+}
+
+/**
+ * Type guard for ConversationMessageEvent
+ */
+export function isConversationMessageEvent(event: unknown): event is ConversationMessageEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'message') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  return (
+    isNonEmptyString(data.id) &&
+    (data.role === 'user' || data.role === 'agent') &&
+    typeof data.content === 'string' &&
+    typeof data.turnNumber === 'number'
+  );
+}
+
+/**
+ * Type guard for AwaitInputEvent
+ */
+export function isAwaitInputEvent(event: unknown): event is AwaitInputEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'await_input') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  const validInputTypes = ['text', 'select', 'multiselect', 'number'];
+
+  return (
+    isNonEmptyString(data.requestId) &&
+    isNonEmptyString(data.prompt) &&
+    typeof data.inputType === 'string' &&
+    validInputTypes.includes(data.inputType)
+  );
+}
+
+/**
+ * Type guard for InputSubmissionEvent
+ */
+export function isInputSubmissionEvent(event: unknown): event is InputSubmissionEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'input_submission') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  return (
+    isNonEmptyString(data.requestId) &&
+    (typeof data.value === 'string' || typeof data.value === 'number' || Array.isArray(data.value)) &&
+    isValidTimestamp(data.submittedAt)
+  );
+}
+
+/**
+ * Type guard for TextEvent
+ */
+export function isTextEvent(event: unknown): event is TextEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'text') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  return (
+    typeof data.text === 'string' &&
+    (data.isComplete === undefined || typeof data.isComplete === 'boolean')
+  );
+}
+
+/**
+ * Type guard for ResumeEvent
+ */
+export function isResumeEvent(event: unknown): event is ResumeEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'resume') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  return (
+    (data.message === undefined || typeof data.message === 'string') &&
+    (data.receivedFields === undefined || Array.isArray(data.receivedFields))
+  );
+}
+
+/**
+ * Type guard for InputTimeoutEvent
+ */
+export function isInputTimeoutEvent(event: unknown): event is InputTimeoutEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'timeout') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  return (
+    typeof data.message === 'string' &&
+    (data.expiredFields === undefined || Array.isArray(data.expiredFields))
+  );
+}
+
+/**
+ * Type guard for CheckpointEvent
+ */
+export function isCheckpointEvent(event: unknown): event is CheckpointEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'checkpoint') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  const validStatuses = ['pending', 'validating', 'passed', 'failed'];
+
+  return (
+    isNonEmptyString(data.id) &&
+    isNonEmptyString(data.name) &&
+    typeof data.status === 'string' &&
+    validStatuses.includes(data.status) &&
+    isNonEmptyString(data.criteria) &&
+    isValidTimestamp(data.timestamp)
+  );
+}
+
+/**
+ * Type guard for ValidationEvent
+ */
+export function isValidationEvent(event: unknown): event is ValidationEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'validation') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  return (
+    isNonEmptyString(data.checkpointId) &&
+    typeof data.passed === 'boolean' &&
+    isNonEmptyString(data.message) &&
+    isValidTimestamp(data.timestamp)
+  );
+}
+
+/**
+ * Type guard for CheckpointResponseEvent
+ */
+export function isCheckpointResponseEvent(event: unknown): event is CheckpointResponseEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'checkpoint_response') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  return (
+    isNonEmptyString(data.checkpointId) &&
+    isCheckpointAction(data.action) &&
+    (data.editedValue === undefined || isBudgetAllocation(data.editedValue))
+  );
+}
+
+/**
+ * Type guard for CheckpointResumeEvent
+ */
+export function isCheckpointResumeEvent(event: unknown): event is CheckpointResumeEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'checkpoint_resume') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  return (
+    isNonEmptyString(data.checkpointId) &&
+    isBudgetAllocation(data.approvedValue) &&
+    data.phase === 'resuming'
+  );
+}
+
+/**
+ * Type guard for BudgetAnalysisEvent
+ */
+export function isBudgetAnalysisEvent(event: unknown): event is BudgetAnalysisEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'budget_analysis') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  return isNonEmptyString(data.team) && typeof data.analysis === 'string';
+}
+
+/**
+ * Type guard for FinalPlanEvent
+ */
+export function isFinalPlanEvent(event: unknown): event is FinalPlanEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'final_plan') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  return (
+    Array.isArray(data.allocations) &&
+    data.allocations.every(isBudgetAllocation) &&
+    typeof data.totalBudget === 'number' &&
+    typeof data.summary === 'string'
+  );
+}
+
+/**
+ * Type guard for SchemaEvent (table schema)
+ */
+export function isSchemaEvent(event: unknown): event is SchemaEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'schema') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  return (
+    isNonEmptyString(data.id) &&
+    isNonEmptyString(data.name) &&
+    Array.isArray(data.columns) &&
+    data.columns.length > 0
+  );
+}
+
+/**
+ * Type guard for RowEvent
+ */
+export function isRowEvent(event: unknown): event is RowEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'table_row') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  return (
+    isNonEmptyString(data.id) &&
+    typeof data.data === 'object' &&
+    data.data !== null &&
+    typeof data.rowNumber === 'number' &&
+    isValidTimestamp(data.timestamp)
+  );
+}
+
+/**
+ * Type guard for MetaEvent
+ */
+export function isMetaEvent(event: unknown): event is MetaEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'table_meta') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  return typeof data.isComplete === 'boolean';
+}
+
+/**
+ * Type guard for AgentPatchEvent
+ */
+export function isAgentPatchEvent(event: unknown): event is AgentPatchEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'agent_patch') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
 
   return (
-    isNonEmptyString(event.id) &&
-    isValidTimestamp(event.timestamp) &&
-    (event.sessionId === undefined || isNonEmptyString(event.sessionId))
+    isNonEmptyString(data.id) &&
+    Array.isArray(data.operations) &&
+    isValidTimestamp(data.timestamp)
   );
 }
 
-// ============================================================================
-// Type Guards for Each Event Type
-// ============================================================================
-
 /**
- * Type guard for ReasoningEvent
+ * Type guard for UserPatchEvent
  */
-export function isReasoningEvent(event: unknown): event is ReasoningEvent {
+export function isUserPatchEvent(event: unknown): event is UserPatchEvent {
   if (!hasBaseEventFields(event)) {
     return false;
   }
 
   const e = event as unknown as Record<string, unknown>;
 
-  if (e.type !== 'reasoning') {
+  if (e.type !== 'user_patch') {
     return false;
   }
 
@@ -96,24 +750,22 @@ export function isReasoningEvent(event: unknown): event is ReasoningEvent {
 
   return (
     isNonEmptyString(data.id) &&
-    isNonEmptyString(data.summary) &&
-    isValidConfidence(data.confidence) &&
-    isValidTimestamp(data.timestamp) &&
-    (data.details === undefined || typeof data.details === 'string')
+    Array.isArray(data.operations) &&
+    isValidTimestamp(data.timestamp)
   );
 }
 
 /**
- * Type guard for AnswerEvent
+ * Type guard for PatchAckEvent
  */
-export function isAnswerEvent(event: unknown): event is AnswerEvent {
+export function isPatchAckEvent(event: unknown): event is PatchAckEvent {
   if (!hasBaseEventFields(event)) {
     return false;
   }
 
   const e = event as unknown as Record<string, unknown>;
 
-  if (e.type !== 'answer') {
+  if (e.type !== 'patch_ack') {
     return false;
   }
 
@@ -122,20 +774,27 @@ export function isAnswerEvent(event: unknown): event is AnswerEvent {
     return false;
   }
 
-  return typeof data.text === 'string' && typeof data.isFinal === 'boolean';
+  const validStatuses = ['accepted', 'rejected', 'modified'];
+
+  return (
+    isNonEmptyString(data.patchId) &&
+    typeof data.status === 'string' &&
+    validStatuses.includes(data.status) &&
+    typeof data.message === 'string'
+  );
 }
 
 /**
- * Type guard for MemoryEvent
+ * Type guard for SectionCompleteEvent
  */
-export function isMemoryEvent(event: unknown): event is MemoryEvent {
+export function isSectionCompleteEvent(event: unknown): event is SectionCompleteEvent {
   if (!hasBaseEventFields(event)) {
     return false;
   }
 
   const e = event as unknown as Record<string, unknown>;
 
-  if (e.type !== 'memory') {
+  if (e.type !== 'section_complete') {
     return false;
   }
 
@@ -144,31 +803,20 @@ export function isMemoryEvent(event: unknown): event is MemoryEvent {
     return false;
   }
 
-  const validOperations = ['create', 'update', 'prune', 'recall'];
-
-  return (
-    isNonEmptyString(data.id) &&
-    typeof data.operation === 'string' &&
-    validOperations.includes(data.operation) &&
-    isNonEmptyString(data.content) &&
-    isValidConfidence(data.importance) &&
-    typeof data.turn === 'number' &&
-    isValidTimestamp(data.timestamp) &&
-    (data.tags === undefined || Array.isArray(data.tags))
-  );
+  return isNonEmptyString(data.sectionId);
 }
 
 /**
- * Type guard for AwaitInputEvent
+ * Type guard for ConflictEvent
  */
-export function isAwaitInputEvent(event: unknown): event is AwaitInputEvent {
+export function isConflictEvent(event: unknown): event is ConflictEvent {
   if (!hasBaseEventFields(event)) {
     return false;
   }
 
   const e = event as unknown as Record<string, unknown>;
 
-  if (e.type !== 'await_input') {
+  if (e.type !== 'conflict') {
     return false;
   }
 
@@ -177,27 +825,50 @@ export function isAwaitInputEvent(event: unknown): event is AwaitInputEvent {
     return false;
   }
 
-  const validInputTypes = ['text', 'select', 'multiselect', 'number'];
+  const validResolutions = ['user_wins', 'agent_wins', 'manual'];
 
   return (
-    isNonEmptyString(data.requestId) &&
-    isNonEmptyString(data.prompt) &&
-    typeof data.inputType === 'string' &&
-    validInputTypes.includes(data.inputType)
+    isNonEmptyString(data.sectionId) &&
+    isNonEmptyString(data.agentPatchId) &&
+    isNonEmptyString(data.userPatchId) &&
+    typeof data.resolution === 'string' &&
+    validResolutions.includes(data.resolution)
   );
 }
 
 /**
- * Type guard for InputSubmissionEvent
+ * Type guard for SchemaDefinitionEvent
  */
-export function isInputSubmissionEvent(event: unknown): event is InputSubmissionEvent {
+export function isSchemaDefinitionEvent(event: unknown): event is SchemaDefinitionEvent {
   if (!hasBaseEventFields(event)) {
     return false;
   }
 
   const e = event as unknown as Record<string, unknown>;
 
-  if (e.type !== 'input_submission') {
+  if (e.type !== 'schema_definition') {
+    return false;
+  }
+
+  const data = e.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  return typeof data.schema === 'object' && data.schema !== null;
+}
+
+/**
+ * Type guard for PayloadEvent
+ */
+export function isPayloadEvent(event: unknown): event is PayloadEvent {
+  if (!hasBaseEventFields(event)) {
+    return false;
+  }
+
+  const e = event as unknown as Record<string, unknown>;
+
+  if (e.type !== 'payload') {
     return false;
   }
 
@@ -207,23 +878,24 @@ export function isInputSubmissionEvent(event: unknown): event is InputSubmission
   }
 
   return (
-    isNonEmptyString(data.requestId) &&
-    (typeof data.value === 'string' || typeof data.value === 'number' || Array.isArray(data.value)) &&
-    isValidTimestamp(data.submittedAt)
+    isNonEmptyString(data.id) &&
+    typeof data.payload === 'object' &&
+    data.payload !== null &&
+    isValidTimestamp(data.timestamp)
   );
 }
 
 /**
- * Type guard for CheckpointEvent
+ * Type guard for PayloadDeltaEvent
  */
-export function isCheckpointEvent(event: unknown): event is CheckpointEvent {
+export function isPayloadDeltaEvent(event: unknown): event is PayloadDeltaEvent {
   if (!hasBaseEventFields(event)) {
     return false;
   }
 
   const e = event as unknown as Record<string, unknown>;
 
-  if (e.type !== 'checkpoint') {
+  if (e.type !== 'payload_delta') {
     return false;
   }
 
@@ -232,29 +904,24 @@ export function isCheckpointEvent(event: unknown): event is CheckpointEvent {
     return false;
   }
 
-  const validStatuses = ['pending', 'validating', 'passed', 'failed'];
-
   return (
     isNonEmptyString(data.id) &&
-    isNonEmptyString(data.name) &&
-    typeof data.status === 'string' &&
-    validStatuses.includes(data.status) &&
-    isNonEmptyString(data.criteria) &&
+    typeof data.delta === 'string' &&
     isValidTimestamp(data.timestamp)
   );
 }
 
 /**
- * Type guard for ValidationEvent
+ * Type guard for SchemaErrorEvent
  */
-export function isValidationEvent(event: unknown): event is ValidationEvent {
+export function isSchemaErrorEvent(event: unknown): event is SchemaErrorEvent {
   if (!hasBaseEventFields(event)) {
     return false;
   }
 
   const e = event as unknown as Record<string, unknown>;
 
-  if (e.type !== 'validation') {
+  if (e.type !== 'schema_error') {
     return false;
   }
 
@@ -264,24 +931,24 @@ export function isValidationEvent(event: unknown): event is ValidationEvent {
   }
 
   return (
-    isNonEmptyString(data.checkpointId) &&
-    typeof data.passed === 'boolean' &&
+    isNonEmptyString(data.id) &&
+    isNonEmptyString(data.path) &&
     isNonEmptyString(data.message) &&
     isValidTimestamp(data.timestamp)
   );
 }
 
 /**
- * Type guard for SchemaEvent (table schema)
+ * Type guard for ToolCallStartEvent
  */
-export function isSchemaEvent(event: unknown): event is SchemaEvent {
+export function isToolCallStartEvent(event: unknown): event is ToolCallStartEvent {
   if (!hasBaseEventFields(event)) {
     return false;
   }
 
   const e = event as unknown as Record<string, unknown>;
 
-  if (e.type !== 'schema') {
+  if (e.type !== 'tool_call_start') {
     return false;
   }
 
@@ -291,24 +958,23 @@ export function isSchemaEvent(event: unknown): event is SchemaEvent {
   }
 
   return (
-    isNonEmptyString(data.id) &&
-    isNonEmptyString(data.name) &&
-    Array.isArray(data.columns) &&
-    data.columns.length > 0
+    isNonEmptyString(data.callId) &&
+    isNonEmptyString(data.toolName) &&
+    (data.description === undefined || typeof data.description === 'string')
   );
 }
 
 /**
- * Type guard for RowEvent
+ * Type guard for ToolCallDeltaEvent
  */
-export function isRowEvent(event: unknown): event is RowEvent {
+export function isToolCallDeltaEvent(event: unknown): event is ToolCallDeltaEvent {
   if (!hasBaseEventFields(event)) {
     return false;
   }
 
   const e = event as unknown as Record<string, unknown>;
 
-  if (e.type !== 'table_row') {
+  if (e.type !== 'tool_call_delta') {
     return false;
   }
 
@@ -318,25 +984,23 @@ export function isRowEvent(event: unknown): event is RowEvent {
   }
 
   return (
-    isNonEmptyString(data.id) &&
-    typeof data.data === 'object' &&
-    data.data !== null &&
-    typeof data.rowNumber === 'number' &&
-    isValidTimestamp(data.timestamp)
+    isNonEmptyString(data.callId) &&
+    typeof data.delta === 'string' &&
+    (data.chunkIndex === undefined || typeof data.chunkIndex === 'number')
   );
 }
 
 /**
- * Type guard for MetaEvent
+ * Type guard for ToolResultEvent
  */
-export function isMetaEvent(event: unknown): event is MetaEvent {
+export function isToolResultEvent(event: unknown): event is ToolResultEvent {
   if (!hasBaseEventFields(event)) {
     return false;
   }
 
   const e = event as unknown as Record<string, unknown>;
 
-  if (e.type !== 'table_meta') {
+  if (e.type !== 'tool_result') {
     return false;
   }
 
@@ -345,20 +1009,25 @@ export function isMetaEvent(event: unknown): event is MetaEvent {
     return false;
   }
 
-  return typeof data.isComplete === 'boolean';
+  return (
+    isNonEmptyString(data.callId) &&
+    'result' in data &&
+    (data.durationMs === undefined ||
+      (typeof data.durationMs === 'number' && data.durationMs >= 0))
+  );
 }
 
 /**
- * Type guard for AgentPatchEvent
+ * Type guard for ToolErrorEvent
  */
-export function isAgentPatchEvent(event: unknown): event is AgentPatchEvent {
+export function isToolErrorEvent(event: unknown): event is ToolErrorEvent {
   if (!hasBaseEventFields(event)) {
     return false;
   }
 
   const e = event as unknown as Record<string, unknown>;
 
-  if (e.type !== 'agent_patch') {
+  if (e.type !== 'tool_error') {
     return false;
   }
 
@@ -368,23 +1037,24 @@ export function isAgentPatchEvent(event: unknown): event is AgentPatchEvent {
   }
 
   return (
-    isNonEmptyString(data.id) &&
-    Array.isArray(data.operations) &&
-    isValidTimestamp(data.timestamp)
+    isNonEmptyString(data.callId) &&
+    isNonEmptyString(data.message) &&
+    (data.code === undefined || typeof data.code === 'string') &&
+    (data.retryable === undefined || typeof data.retryable === 'boolean')
   );
 }
 
 /**
- * Type guard for UserPatchEvent
+ * Type guard for AgentSpawnEvent
  */
-export function isUserPatchEvent(event: unknown): event is UserPatchEvent {
+export function isAgentSpawnEvent(event: unknown): event is AgentSpawnEvent {
   if (!hasBaseEventFields(event)) {
     return false;
   }
 
   const e = event as unknown as Record<string, unknown>;
 
-  if (e.type !== 'user_patch') {
+  if (e.type !== 'agent_spawn') {
     return false;
   }
 
@@ -394,23 +1064,25 @@ export function isUserPatchEvent(event: unknown): event is UserPatchEvent {
   }
 
   return (
-    isNonEmptyString(data.id) &&
-    Array.isArray(data.operations) &&
-    isValidTimestamp(data.timestamp)
+    isNonEmptyString(data.agentId) &&
+    (data.parentId === undefined || isNonEmptyString(data.parentId)) &&
+    isNonEmptyString(data.name) &&
+    typeof data.task === 'string'
   );
 }
 
 /**
- * Type guard for SchemaDefinitionEvent
+ * Type guard for AgentEventEvent
+ * The wrapped event must itself be a valid stream event.
  */
-export function isSchemaDefinitionEvent(event: unknown): event is SchemaDefinitionEvent {
+export function isAgentEventEvent(event: unknown): event is AgentEventEvent {
   if (!hasBaseEventFields(event)) {
     return false;
   }
 
   const e = event as unknown as Record<string, unknown>;
 
-  if (e.type !== 'schema_definition') {
+  if (e.type !== 'agent_event') {
     return false;
   }
 
@@ -419,20 +1091,20 @@ export function isSchemaDefinitionEvent(event: unknown): event is SchemaDefiniti
     return false;
   }
 
-  return typeof data.schema === 'object' && data.schema !== null;
+  return isNonEmptyString(data.agentId) && isStreamEvent(data.event);
 }
 
 /**
- * Type guard for PayloadEvent
+ * Type guard for AgentCompleteEvent
  */
-export function isPayloadEvent(event: unknown): event is PayloadEvent {
+export function isAgentCompleteEvent(event: unknown): event is AgentCompleteEvent {
   if (!hasBaseEventFields(event)) {
     return false;
   }
 
   const e = event as unknown as Record<string, unknown>;
 
-  if (e.type !== 'payload') {
+  if (e.type !== 'agent_complete') {
     return false;
   }
 
@@ -442,24 +1114,27 @@ export function isPayloadEvent(event: unknown): event is PayloadEvent {
   }
 
   return (
-    isNonEmptyString(data.id) &&
-    typeof data.payload === 'object' &&
-    data.payload !== null &&
-    isValidTimestamp(data.timestamp)
+    isNonEmptyString(data.agentId) &&
+    (data.status === 'succeeded' || data.status === 'failed') &&
+    typeof data.eventCount === 'number' &&
+    data.eventCount >= 0 &&
+    (data.durationMs === undefined ||
+      (typeof data.durationMs === 'number' && data.durationMs >= 0)) &&
+    (data.error === undefined || typeof data.error === 'string')
   );
 }
 
 /**
- * Type guard for SchemaErrorEvent
+ * Type guard for ReconnectedEvent
  */
-export function isSchemaErrorEvent(event: unknown): event is SchemaErrorEvent {
+export function isReconnectedEvent(event: unknown): event is ReconnectedEvent {
   if (!hasBaseEventFields(event)) {
     return false;
   }
 
   const e = event as unknown as Record<string, unknown>;
 
-  if (e.type !== 'schema_error') {
+  if (e.type !== 'reconnected') {
     return false;
   }
 
@@ -469,10 +1144,11 @@ export function isSchemaErrorEvent(event: unknown): event is SchemaErrorEvent {
   }
 
   return (
-    isNonEmptyString(data.id) &&
-    isNonEmptyString(data.path) &&
-    isNonEmptyString(data.message) &&
-    isValidTimestamp(data.timestamp)
+    typeof data.attempt === 'number' &&
+    data.attempt > 0 &&
+    typeof data.delayMs === 'number' &&
+    typeof data.sequenceNumber === 'number' &&
+    (data.lastEventId === undefined || typeof data.lastEventId === 'string')
   );
 }
 
@@ -489,18 +1165,42 @@ export function isStreamEvent(event: unknown): event is StreamEvent {
     isReasoningEvent(event) ||
     isAnswerEvent(event) ||
     isMemoryEvent(event) ||
+    isMemoryCreateEvent(event) ||
+    isMemoryUpdateEvent(event) ||
+    isMemoryPruneEvent(event) ||
+    isMemoryPinEvent(event) ||
+    isConversationMessageEvent(event) ||
     isAwaitInputEvent(event) ||
     isInputSubmissionEvent(event) ||
+    isTextEvent(event) ||
+    isResumeEvent(event) ||
+    isInputTimeoutEvent(event) ||
     isCheckpointEvent(event) ||
     isValidationEvent(event) ||
+    isCheckpointResponseEvent(event) ||
+    isCheckpointResumeEvent(event) ||
+    isBudgetAnalysisEvent(event) ||
+    isFinalPlanEvent(event) ||
     isSchemaEvent(event) ||
     isRowEvent(event) ||
     isMetaEvent(event) ||
     isAgentPatchEvent(event) ||
     isUserPatchEvent(event) ||
+    isPatchAckEvent(event) ||
+    isSectionCompleteEvent(event) ||
+    isConflictEvent(event) ||
     isSchemaDefinitionEvent(event) ||
     isPayloadEvent(event) ||
-    isSchemaErrorEvent(event)
+    isPayloadDeltaEvent(event) ||
+    isSchemaErrorEvent(event) ||
+    isToolCallStartEvent(event) ||
+    isToolCallDeltaEvent(event) ||
+    isToolResultEvent(event) ||
+    isToolErrorEvent(event) ||
+    isAgentSpawnEvent(event) ||
+    isAgentEventEvent(event) ||
+    isAgentCompleteEvent(event) ||
+    isReconnectedEvent(event)
   );
 }
 
@@ -515,18 +1215,42 @@ const TYPE_GUARDS: Record<EventType, (event: unknown) => boolean> = {
   reasoning: isReasoningEvent,
   answer: isAnswerEvent,
   memory: isMemoryEvent,
+  'memory.create': isMemoryCreateEvent,
+  'memory.update': isMemoryUpdateEvent,
+  'memory.prune': isMemoryPruneEvent,
+  'memory.pin': isMemoryPinEvent,
+  message: isConversationMessageEvent,
   await_input: isAwaitInputEvent,
   input_submission: isInputSubmissionEvent,
+  text: isTextEvent,
+  resume: isResumeEvent,
+  timeout: isInputTimeoutEvent,
   checkpoint: isCheckpointEvent,
   validation: isValidationEvent,
+  checkpoint_response: isCheckpointResponseEvent,
+  checkpoint_resume: isCheckpointResumeEvent,
+  budget_analysis: isBudgetAnalysisEvent,
+  final_plan: isFinalPlanEvent,
   schema: isSchemaEvent,
   table_row: isRowEvent,
   table_meta: isMetaEvent,
   agent_patch: isAgentPatchEvent,
   user_patch: isUserPatchEvent,
+  patch_ack: isPatchAckEvent,
+  section_complete: isSectionCompleteEvent,
+  conflict: isConflictEvent,
   schema_definition: isSchemaDefinitionEvent,
   payload: isPayloadEvent,
+  payload_delta: isPayloadDeltaEvent,
   schema_error: isSchemaErrorEvent,
+  tool_call_start: isToolCallStartEvent,
+  tool_call_delta: isToolCallDeltaEvent,
+  tool_result: isToolResultEvent,
+  tool_error: isToolErrorEvent,
+  agent_spawn: isAgentSpawnEvent,
+  agent_event: isAgentEventEvent,
+  agent_complete: isAgentCompleteEvent,
+  reconnected: isReconnectedEvent,
 };
 
 /**
@@ -624,6 +1348,15 @@ export function validateEvent(event: unknown): ValidationResult {
     });
   }
 
+  if (e.channel !== undefined && !isNonEmptyString(e.channel)) {
+    errors.push({
+      field: 'channel',
+      reason: 'Channel must be a non-empty string if provided',
+      expected: 'string | undefined',
+      actual: e.channel,
+    });
+  }
+
   // Check if type is valid
   if (!isNonEmptyString(e.type)) {
     errors.push({
@@ -664,3 +1397,242 @@ export function assertValidEvent(event: unknown): asserts event is StreamEvent {
     throw new Error(`Invalid stream event: ${errorMessages}`);
   }
 }
+
+// ============================================================================
+// Schema Versioning
+// ============================================================================
+
+/**
+ * Declared schema version of each event type
+ *
+ * Bump a type's version whenever its shape changes incompatibly and register
+ * an upcaster that migrates events to it. Versions never go down, so recorded
+ * fixtures keep loading as event shapes evolve.
+ */
+export const EVENT_TYPE_VERSIONS: Readonly<Record<EventType, number>> = {
+  reasoning: 1,
+  answer: 1,
+  memory: 1,
+  'memory.create': 1,
+  'memory.update': 1,
+  'memory.prune': 1,
+  'memory.pin': 1,
+  message: 1,
+  await_input: 1,
+  input_submission: 1,
+  text: 1,
+  resume: 1,
+  timeout: 1,
+  checkpoint: 1,
+  validation: 1,
+  checkpoint_response: 1,
+  checkpoint_resume: 1,
+  budget_analysis: 1,
+  final_plan: 1,
+  schema: 1,
+  table_row: 1,
+  table_meta: 1,
+  agent_patch: 1,
+  user_patch: 1,
+  patch_ack: 1,
+  section_complete: 1,
+  conflict: 1,
+  schema_definition: 1,
+  payload: 1,
+  payload_delta: 1,
+  schema_error: 1,
+  tool_call_start: 1,
+  tool_call_delta: 1,
+  tool_result: 1,
+  tool_error: 1,
+  agent_spawn: 1,
+  agent_event: 1,
+  agent_complete: 1,
+  reconnected: 1,
+};
+
+/**
+ * Current event schema version (the highest declared event type version)
+ */
+export const EVENT_SCHEMA_VERSION: number = Math.max(...Object.values(EVENT_TYPE_VERSIONS));
+
+/**
+ * An event as recorded by an older schema version
+ * Legacy events may use type names or fields that no longer exist.
+ */
+export interface LegacyEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Migrates one event type to the next schema version
+ *
+ * @example
+ * ```typescript
+ * // v2 renamed answer.data.content to answer.data.text
+ * registerUpcaster({
+ *   type: 'answer',
+ *   toVersion: 2,
+ *   upcast: (event) => {
+ *     const { content, ...data } = event.data as { content: string };
+ *     return { ...event, data: { ...data, text: content } };
+ *   },
+ * });
+ * ```
+ */
+export interface EventUpcaster {
+  /** Event type (as recorded) this upcaster applies to */
+  type: string;
+
+  /** Schema version the upcaster migrates to (from `toVersion - 1`) */
+  toVersion: number;
+
+  /** Return the event in its `toVersion` shape (must not mutate the input) */
+  upcast: (event: LegacyEvent) => LegacyEvent;
+}
+
+/**
+ * Registered upcasters, keyed by event type
+ */
+const upcasterRegistry = new Map<string, EventUpcaster[]>();
+
+/**
+ * Register an upcaster
+ *
+ * Upcasters may be registered ahead of the version bump that activates them;
+ * they only run once `EVENT_SCHEMA_VERSION` reaches their target.
+ *
+ * @param upcaster - Upcaster to register
+ * @throws Error if the target version is invalid or already covered
+ */
+export function registerUpcaster(upcaster: EventUpcaster): void {
+  const { type, toVersion } = upcaster;
+
+  if (!Number.isInteger(toVersion) || toVersion < 2) {
+    throw new Error(`Upcaster for "${type}" targets schema v${toVersion}; versions start at v2`);
+  }
+
+  const upcasters = upcasterRegistry.get(type) ?? [];
+  if (upcasters.some((existing) => existing.toVersion === toVersion)) {
+    throw new Error(`Upcaster for "${type}" to schema v${toVersion} already registered`);
+  }
+
+  upcasterRegistry.set(
+    type,
+    [...upcasters, upcaster].sort((a, b) => a.toVersion - b.toVersion)
+  );
+}
+
+/**
+ * Remove all registered upcasters
+ * Primarily for testing.
+ */
+export function clearUpcasters(): void {
+  upcasterRegistry.clear();
+}
+
+/**
+ * Parse a fixture version string into an event schema version
+ *
+ * Fixture versions are `MAJOR.MINOR`; the major number is the event schema
+ * version the fixture was recorded against.
+ *
+ * @param version - Fixture version (e.g. '1.0')
+ * @returns Event schema version
+ * @throws Error if the version string is malformed
+ */
+export function parseSchemaVersion(version: string): number {
+  const match = /^(\d+)(?:\.\d+)*$/.exec(version.trim());
+
+  if (!match || Number(match[1]) < 1) {
+    throw new Error(`Invalid fixture version "${version}": expected MAJOR.MINOR (e.g. "1.0")`);
+  }
+
+  return Number(match[1]);
+}
+
+/**
+ * Format an event schema version as a fixture version string
+ *
+ * @param schemaVersion - Event schema version
+ * @returns Fixture version (e.g. '1.0')
+ */
+export function formatSchemaVersion(schemaVersion: number = EVENT_SCHEMA_VERSION): string {
+  return `${schemaVersion}.0`;
+}
+
+/**
+ * Migrate an event recorded at an older schema version to the current shape
+ *
+ * Applies the registered upcasters for the event's type in version order.
+ * An upcaster may rename the type, in which case upcasters for the new type
+ * continue the chain.
+ *
+ * @param event - Event as recorded
+ * @param fromVersion - Schema version the event was recorded against
+ * @param toVersion - Schema version to migrate to (default: EVENT_SCHEMA_VERSION)
+ * @returns Event in its target shape
+ * @throws Error if the version is newer than the target or an upcaster is missing
+ */
+export function upcastEvent(
+  event: { type: string },
+  fromVersion: number,
+  toVersion: number = EVENT_SCHEMA_VERSION
+): LegacyEvent {
+  if (fromVersion > toVersion) {
+    throw new Error(`Event schema v${fromVersion} is newer than the supported v${toVersion}`);
+  }
+
+  let current = event as LegacyEvent;
+  let version = fromVersion;
+
+  while (version < toVersion) {
+    const next = upcasterRegistry
+      .get(current.type)
+      ?.find((upcaster) => upcaster.toVersion > version && upcaster.toVersion <= toVersion);
+
+    if (!next) {
+      break;
+    }
+
+    current = next.upcast(current);
+    version = next.toVersion;
+  }
+
+  const declared = Math.min(EVENT_TYPE_VERSIONS[current.type as EventType] ?? 1, toVersion);
+  if (declared > version) {
+    throw new Error(
+      `No upcaster migrates "${current.type}" events from schema v${version} to v${declared}`
+    );
+  }
+
+  return current;
+}
+
+/**
+ * Migrate every event of a recording to the current shape
+ *
+ * @param events - Events as recorded
+ * @param fromVersion - Schema version the events were recorded against
+ * @param toVersion - Schema version to migrate to (default: EVENT_SCHEMA_VERSION)
+ * @returns Events in their target shape (the input is returned as-is when already there)
+ * @throws Error naming the failing event index if an event cannot be migrated
+ */
+export function upcastEvents(
+  events: Array<{ type: string }>,
+  fromVersion: number,
+  toVersion: number = EVENT_SCHEMA_VERSION
+): LegacyEvent[] {
+  if (fromVersion === toVersion) {
+    return events as LegacyEvent[];
+  }
+
+  return events.map((event, index) => {
+    try {
+      return upcastEvent(event, fromVersion, toVersion);
+    } catch (error) {
+      throw new Error(`Event at index ${index}: ${(error as Error).message}`);
+    }
+  });
+}
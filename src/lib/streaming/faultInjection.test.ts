@@ -0,0 +1,229 @@
+/**
+ * Tests for fault injection
+ *
+ * @module lib/streaming/faultInjection.test
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  injectFaults,
+  shouldInjectFault,
+  truncateEventPayload,
+  type FaultInjectionConfig,
+  type InjectedFault,
+} from './faultInjection';
+import { createMockStream } from './mockSSE';
+import type { StreamEvent } from '@/types/events';
+
+interface TestEvent {
+  type: string;
+  data: { n: number };
+}
+
+/**
+ * Yield test events numbered 0..count-1
+ */
+async function* numbered(count: number): AsyncGenerator<TestEvent> {
+  for (let n = 0; n < count; n++) {
+    yield { type: 'item', data: { n } };
+  }
+}
+
+/**
+ * Run a numbered source through the injector and collect the delivered numbers
+ */
+async function collect(count: number, config: FaultInjectionConfig): Promise<number[]> {
+  const delivered: number[] = [];
+  for await (const event of injectFaults(numbered(count), config)) {
+    delivered.push(event.data.n);
+  }
+  return delivered;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('shouldInjectFault', () => {
+  it('should never fire without a trigger', () => {
+    expect(shouldInjectFault('drop', undefined, 0)).toBe(false);
+  });
+
+  it('should fire at listed indices', () => {
+    expect(shouldInjectFault('drop', { at: 3 }, 3)).toBe(true);
+    expect(shouldInjectFault('drop', { at: [1, 4] }, 4)).toBe(true);
+    expect(shouldInjectFault('drop', { at: [1, 4] }, 2)).toBe(false);
+  });
+
+  it('should fire roughly at the given probability', () => {
+    const hits = Array.from({ length: 1000 }, (_, i) =>
+      shouldInjectFault('drop', { probability: 0.2 }, i, 9)
+    ).filter(Boolean).length;
+
+    expect(hits).toBeGreaterThan(150);
+    expect(hits).toBeLessThan(250);
+  });
+
+  it('should roll independently per fault kind', () => {
+    const rolls = (kind: 'drop' | 'duplicate'): boolean[] =>
+      Array.from({ length: 50 }, (_, i) => shouldInjectFault(kind, { probability: 0.5 }, i, 3));
+
+    expect(rolls('drop')).not.toEqual(rolls('duplicate'));
+  });
+});
+
+describe('truncateEventPayload', () => {
+  it('should replace data with a cut-off JSON string', () => {
+    const event = truncateEventPayload({ type: 'answer', data: { text: 'Hello' } }, 0.5);
+
+    expect(event.data).toBe('{"text":');
+    expect(() => JSON.parse(event.data as unknown as string)).toThrow();
+  });
+
+  it('should never return the complete payload', () => {
+    const event = truncateEventPayload({ type: 'answer', data: { a: 1 } }, 1);
+
+    expect(event.data).toBe('{"a":1');
+  });
+});
+
+describe('injectFaults', () => {
+  it('should pass events through when no faults are configured', async () => {
+    expect(await collect(5, {})).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('should drop events', async () => {
+    expect(await collect(5, { drop: { at: [1, 3] } })).toEqual([0, 2, 4]);
+  });
+
+  it('should duplicate events', async () => {
+    expect(await collect(3, { duplicate: { at: 1 } })).toEqual([0, 1, 1, 2]);
+  });
+
+  it('should deliver held-back events after later ones', async () => {
+    expect(await collect(5, { reorder: { at: 1, distance: 2 } })).toEqual([0, 2, 3, 1, 4]);
+  });
+
+  it('should flush held-back events at the end of the stream', async () => {
+    expect(await collect(3, { reorder: { at: 2, distance: 5 } })).toEqual([0, 1, 2]);
+  });
+
+  it('should truncate payloads', async () => {
+    const events: TestEvent[] = [];
+    for await (const event of injectFaults(numbered(2), { truncate: { at: 1 } })) {
+      events.push(event);
+    }
+
+    expect(events[0].data).toEqual({ n: 0 });
+    expect(typeof events[1].data).toBe('string');
+  });
+
+  it('should throw at the configured index', async () => {
+    const delivered: number[] = [];
+
+    await expect(async () => {
+      for await (const event of injectFaults(numbered(5), { error: { at: 2 } })) {
+        delivered.push(event.data.n);
+      }
+    }).rejects.toThrow('Stream interrupted before event 2 (injected fault)');
+
+    expect(delivered).toEqual([0, 1]);
+  });
+
+  it('should use a custom error factory', async () => {
+    class CustomError extends Error {}
+
+    await expect(
+      collect(3, { error: { at: 0, createError: () => new CustomError('boom') } })
+    ).rejects.toBeInstanceOf(CustomError);
+  });
+
+  it('should stall before the configured event', async () => {
+    vi.useFakeTimers();
+
+    const stream = injectFaults(numbered(2), { stall: { at: 1, durationMs: 1000 } });
+    await stream.next();
+
+    let settled = false;
+    const pending = stream.next().then((result) => {
+      settled = true;
+      return result;
+    });
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(settled).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await pending).value).toEqual({ type: 'item', data: { n: 1 } });
+  });
+
+  it('should report every injected fault', async () => {
+    const faults: InjectedFault[] = [];
+
+    await collect(4, {
+      drop: { at: 0 },
+      duplicate: { at: 2 },
+      onFault: (fault) => faults.push(fault),
+    });
+
+    expect(faults).toEqual([
+      { kind: 'drop', index: 0, eventType: 'item' },
+      { kind: 'duplicate', index: 2, eventType: 'item' },
+    ]);
+  });
+
+  it('should inject the same faults for the same seed', async () => {
+    const config = (seed: number): FaultInjectionConfig => ({
+      seed,
+      drop: { probability: 0.3 },
+      duplicate: { probability: 0.2 },
+      reorder: { probability: 0.1 },
+    });
+
+    const first = await collect(40, config(5));
+    const second = await collect(40, config(5));
+    const other = await collect(40, config(6));
+
+    expect(second).toEqual(first);
+    expect(other).not.toEqual(first);
+  });
+
+  it('should cancel the source when the consumer stops early', async () => {
+    let finished = false;
+
+    async function* source(): AsyncGenerator<TestEvent> {
+      try {
+        yield* numbered(10);
+      } finally {
+        finished = true;
+      }
+    }
+
+    for await (const event of injectFaults(source(), { duplicate: { at: 0 } })) {
+      expect(event.data.n).toBe(0);
+      break;
+    }
+
+    expect(finished).toBe(true);
+  });
+
+  it('should wrap mock streams via the faults option', async () => {
+    const events: StreamEvent[] = Array.from({ length: 4 }, (_, i) => ({
+      id: `e${i}`,
+      type: 'answer',
+      timestamp: 1000 + i,
+      data: { text: `chunk ${i}`, isFinal: i === 3 },
+    }));
+
+    const ids: string[] = [];
+    for await (const event of createMockStream({
+      events,
+      timing: { getDelay: () => 0 },
+      faults: { drop: { at: 1 }, duplicate: { at: 2 } },
+    })) {
+      ids.push(event.id);
+    }
+
+    expect(ids).toEqual(['e0', 'e2', 'e2', 'e3']);
+  });
+});
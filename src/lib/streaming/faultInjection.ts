@@ -0,0 +1,329 @@
+/**
+ * Fault Injection - Seeded chaos for any mock stream
+ *
+ * Wraps an async event stream and injects the failures real networks and
+ * backends produce, so every pattern hook can be tested for resilience the
+ * same way:
+ * - Dropped events (never delivered)
+ * - Duplicated events (delivered twice, e.g. after a retried write)
+ * - Out-of-order delivery (an event arrives after its successors)
+ * - Truncated JSON payloads (data cut off mid-document)
+ * - Stalls (long pauses with no events)
+ * - Mid-stream errors (the connection fails)
+ *
+ * Each fault fires at chosen event indices and/or with a probability. The
+ * probabilistic decisions are derived from the seed and the event index, so
+ * the same seed always injects the same faults (INV-13: deterministic replay).
+ *
+ * @module lib/streaming/faultInjection
+ */
+
+import { DEFAULT_SEED, randomAt } from '@/lib/utils/random';
+import { delay } from '@/lib/utils/delay';
+import type { Clock } from '@/lib/utils/clock';
+
+/**
+ * Kinds of fault that can be injected
+ */
+export type FaultKind = 'drop' | 'duplicate' | 'reorder' | 'truncate' | 'stall' | 'error';
+
+/**
+ * Minimal event shape the injector can work with
+ * Pattern-local event types (which may lack ids or timestamps) satisfy this too.
+ */
+export interface FaultableEvent {
+  type: string;
+  data?: unknown;
+}
+
+/**
+ * When a fault fires
+ *
+ * Indices refer to positions in the source stream (zero-based). A fault
+ * fires if the index is listed in `at` or the seeded roll is below
+ * `probability`.
+ */
+export interface FaultTrigger {
+  /** Source event index (or indices) to fault */
+  at?: number | number[];
+
+  /** Chance (0–1) of faulting any given event */
+  probability?: number;
+}
+
+/**
+ * Out-of-order delivery settings
+ */
+export interface ReorderFault extends FaultTrigger {
+  /** How many later events overtake the held-back event (default: 1) */
+  distance?: number;
+}
+
+/**
+ * Truncated payload settings
+ */
+export interface TruncateFault extends FaultTrigger {
+  /** Fraction of the serialized payload to keep (default: 0.5) */
+  keepRatio?: number;
+}
+
+/**
+ * Stall settings
+ */
+export interface StallFault extends FaultTrigger {
+  /** How long to pause before the event (default: 5000) */
+  durationMs?: number;
+}
+
+/**
+ * Mid-stream error settings
+ */
+export interface ErrorFault extends FaultTrigger {
+  /**
+   * Build the error to throw
+   * Patterns pass their own error classes here (default: plain Error).
+   *
+   * @param index - Source index of the event that was not delivered
+   */
+  createError?: (index: number) => Error;
+}
+
+/**
+ * Record of a fault that was injected
+ */
+export interface InjectedFault {
+  /** Kind of fault */
+  kind: FaultKind;
+
+  /** Source index of the affected event */
+  index: number;
+
+  /** Type of the affected event (absent for errors, which fire before the event is read) */
+  eventType?: string;
+}
+
+/**
+ * Fault injection configuration
+ *
+ * Only configured faults are injected; an empty config passes the stream
+ * through unchanged.
+ *
+ * @example
+ * ```typescript
+ * const config: FaultInjectionConfig = {
+ *   seed: 42,
+ *   drop: { probability: 0.1 },
+ *   duplicate: { at: [2, 5] },
+ *   error: { at: 8 },
+ * };
+ * ```
+ */
+export interface FaultInjectionConfig {
+  /** Seed for probabilistic faults (default: DEFAULT_SEED) */
+  seed?: number;
+
+  /** Events that are silently lost */
+  drop?: FaultTrigger;
+
+  /** Events that are delivered twice */
+  duplicate?: FaultTrigger;
+
+  /** Events that are held back and delivered late */
+  reorder?: ReorderFault;
+
+  /** Events whose payload is cut off mid-JSON */
+  truncate?: TruncateFault;
+
+  /** Events preceded by a long pause */
+  stall?: StallFault;
+
+  /** Events at which the stream fails */
+  error?: ErrorFault;
+
+  /** Called whenever a fault is injected (for logging or assertions) */
+  onFault?: (fault: InjectedFault) => void;
+
+  /** Clock that stalls are waited on (default: the system clock) */
+  clock?: Clock;
+}
+
+/**
+ * Per-kind salts so each fault kind rolls independently for the same index
+ */
+const FAULT_SALT: Readonly<Record<FaultKind, number>> = {
+  drop: 0x1b873593,
+  duplicate: 0x2c1b3c6d,
+  reorder: 0x297a2d39,
+  truncate: 0x3c6ef372,
+  stall: 0x5bd1e995,
+  error: 0x7feb352d,
+};
+
+/**
+ * Decide whether a fault fires for an event
+ *
+ * @param kind - Fault kind
+ * @param trigger - Trigger settings (undefined = never)
+ * @param index - Source event index
+ * @param seed - Random seed
+ * @returns True if the fault should be injected
+ */
+export function shouldInjectFault(
+  kind: FaultKind,
+  trigger: FaultTrigger | undefined,
+  index: number,
+  seed: number = DEFAULT_SEED
+): boolean {
+  if (!trigger) {
+    return false;
+  }
+
+  const at = trigger.at;
+  if (at !== undefined && (Array.isArray(at) ? at.includes(index) : at === index)) {
+    return true;
+  }
+
+  const probability = trigger.probability ?? 0;
+  return probability > 0 && randomAt((seed ^ FAULT_SALT[kind]) >>> 0, index) < probability;
+}
+
+/**
+ * Cut an event's payload off mid-JSON
+ *
+ * The returned event's `data` is the truncated JSON text rather than an
+ * object — exactly what a consumer would see if it skipped parsing a
+ * partial body. This deliberately violates the event's type so that
+ * consumers' defensive checks are exercised.
+ *
+ * @param event - Event to truncate
+ * @param keepRatio - Fraction of the serialized payload to keep
+ * @returns Copy of the event with a truncated string payload
+ *
+ * @example
+ * ```typescript
+ * truncateEventPayload({ type: 'answer', data: { text: 'Hello' } }, 0.5);
+ * // → { type: 'answer', data: '{"text"' }
+ * ```
+ */
+export function truncateEventPayload<T extends FaultableEvent>(event: T, keepRatio: number = 0.5): T {
+  const json = JSON.stringify(event.data ?? null);
+  const keep = Math.min(json.length - 1, Math.max(1, Math.floor(json.length * keepRatio)));
+
+  return { ...event, data: json.slice(0, keep) };
+}
+
+/**
+ * Wrap a stream with seeded fault injection
+ *
+ * Faults are applied per source event in this order: error, stall, drop,
+ * truncate, reorder, duplicate. Events held back for reordering are
+ * released once `distance` later events have been delivered, or at the
+ * end of the stream.
+ *
+ * Cancelling the wrapper (via `return()` or breaking out of `for await`)
+ * also cancels the source stream.
+ *
+ * @param source - Stream to wrap
+ * @param config - Faults to inject
+ * @returns Async generator yielding the faulty stream
+ *
+ * @example
+ * ```typescript
+ * const stream = injectFaults(createMockReasoningStream({ prompt, speed: 'fast' }), {
+ *   seed: 7,
+ *   drop: { probability: 0.2 },
+ *   reorder: { at: 3, distance: 2 },
+ *   error: { at: 6, createError: () => new StreamError('Connection reset', 'network') },
+ * });
+ * ```
+ */
+export async function* injectFaults<T extends FaultableEvent>(
+  source: AsyncIterable<T>,
+  config: FaultInjectionConfig = {}
+): AsyncGenerator<T, void, undefined> {
+  const seed = config.seed ?? DEFAULT_SEED;
+  const fires = (kind: FaultKind, trigger: FaultTrigger | undefined, index: number): boolean =>
+    shouldInjectFault(kind, trigger, index, seed);
+  const report = (kind: FaultKind, index: number, eventType?: string): void => {
+    config.onFault?.({ kind, index, eventType });
+  };
+
+  // Held-back events with the number of deliveries still required before release
+  const held: Array<{ event: T; remaining: number }> = [];
+  let index = 0;
+
+  /**
+   * Count one delivery against every held event and return those now due
+   */
+  const releaseDue = (): T[] => {
+    held.forEach((entry) => {
+      entry.remaining--;
+    });
+    const due = held.filter((entry) => entry.remaining <= 0);
+    held.splice(0, held.length, ...held.filter((entry) => entry.remaining > 0));
+    return due.map((entry) => entry.event);
+  };
+
+  const iterator = source[Symbol.asyncIterator]();
+
+  try {
+    while (true) {
+      if (fires('error', config.error, index)) {
+        report('error', index);
+        throw (
+          config.error?.createError?.(index) ??
+          new Error(`Stream interrupted before event ${index} (injected fault)`)
+        );
+      }
+
+      if (fires('stall', config.stall, index)) {
+        report('stall', index);
+        await delay(config.stall?.durationMs ?? 5000, config.clock);
+      }
+
+      const result = await iterator.next();
+      if (result.done) {
+        break;
+      }
+
+      const eventIndex = index++;
+      let event = result.value;
+
+      if (fires('drop', config.drop, eventIndex)) {
+        report('drop', eventIndex, event.type);
+        continue;
+      }
+
+      if (fires('truncate', config.truncate, eventIndex)) {
+        report('truncate', eventIndex, event.type);
+        event = truncateEventPayload(event, config.truncate?.keepRatio);
+      }
+
+      if (fires('reorder', config.reorder, eventIndex)) {
+        report('reorder', eventIndex, event.type);
+        held.push({ event, remaining: Math.max(1, config.reorder?.distance ?? 1) });
+        continue;
+      }
+
+      const copies = fires('duplicate', config.duplicate, eventIndex) ? 2 : 1;
+      if (copies > 1) {
+        report('duplicate', eventIndex, event.type);
+      }
+
+      for (let copy = 0; copy < copies; copy++) {
+        yield event;
+      }
+
+      for (const late of releaseDue()) {
+        yield late;
+      }
+    }
+
+    // Deliver anything still held back
+    for (const { event } of held.splice(0)) {
+      yield event;
+    }
+  } finally {
+    await iterator.return?.();
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Tests for the fixture recorder
+ *
+ * @module lib/streaming/fixtureRecorder.test
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { StreamEvent } from '@/types/events';
+import {
+  FIXTURE_EPOCH,
+  FixtureRecorder,
+  recordCapturedEvents,
+  serializeFixture,
+} from './fixtureRecorder';
+import { clearFixtures, getFixture, registerFixture, type Fixture } from './fixtureRepository';
+import { createMockStream } from './mockSSE';
+
+const serverEvents: StreamEvent[] = [
+  {
+    id: 'ask-1',
+    type: 'await_input',
+    timestamp: 1000,
+    data: { requestId: 'req-1', prompt: 'Project name?', inputType: 'text' },
+  },
+  {
+    id: 'text-1',
+    type: 'text',
+    timestamp: 1001,
+    data: { text: 'Thanks!' },
+  },
+];
+
+const submission: StreamEvent = {
+  id: 'submit-1',
+  type: 'input_submission',
+  timestamp: 5000,
+  data: { requestId: 'req-1', value: 'Apollo', submittedAt: 5000 },
+};
+
+/**
+ * Replay the server events without delays
+ */
+function replay(): ReturnType<typeof createMockStream> {
+  return createMockStream({ events: serverEvents, timing: { getDelay: () => 0 } });
+}
+
+/**
+ * Clock returning the given times in order
+ */
+function clock(...times: number[]): () => number {
+  let index = 0;
+  return () => times[Math.min(index++, times.length - 1)];
+}
+
+describe('FixtureRecorder', () => {
+  it('should pass events through while recording them', async () => {
+    const recorder = new FixtureRecorder({ id: 'session' });
+
+    const ids: string[] = [];
+    for await (const event of recorder.record(replay())) {
+      ids.push(event.id);
+    }
+
+    expect(ids).toEqual(['ask-1', 'text-1']);
+    expect(recorder.getEventCount()).toBe(2);
+  });
+
+  it('should strip session enrichment', async () => {
+    const recorder = new FixtureRecorder({ id: 'session' });
+
+    for await (const _event of recorder.record(replay())) {
+      // consume
+    }
+
+    recorder.getFixture().events.forEach((event) => {
+      expect(event).not.toHaveProperty('sessionId');
+      expect(event).not.toHaveProperty('metadata');
+    });
+  });
+
+  it('should rebase timestamps onto the fixture epoch preserving spacing', () => {
+    const recorder = new FixtureRecorder({ id: 'session', now: clock(20_000, 20_250, 20_100) });
+
+    serverEvents.forEach((event) => recorder.capture(event));
+    recorder.capture(submission);
+
+    expect(recorder.getFixture().events.map((event) => event.timestamp)).toEqual([
+      FIXTURE_EPOCH,
+      FIXTURE_EPOCH + 250,
+      FIXTURE_EPOCH + 250,
+    ]);
+  });
+
+  it('should compute metadata and tags', () => {
+    const recorder = new FixtureRecorder({
+      id: 'await-session',
+      pattern: 'agent-await-prompt',
+      tags: ['onboarding'],
+      now: clock(0),
+    });
+
+    serverEvents.forEach((event) => recorder.capture(event));
+    recorder.capture(submission);
+
+    expect(recorder.getFixture().metadata).toEqual({
+      id: 'await-session',
+      name: 'await-session',
+      pattern: 'agent-await-prompt',
+      description: 'Recorded session: 3 events including user interactions',
+      eventCount: 3,
+      tags: ['onboarding', 'recorded', 'interactive', 'await_input', 'text', 'input_submission'],
+      author: undefined,
+      version: '1.0',
+    });
+  });
+
+  it('should skip session-generated markers unless asked to keep them', () => {
+    const marker = {
+      id: 'reconnected-1',
+      type: 'reconnected',
+      timestamp: 1002,
+      data: { attempt: 1, delayMs: 100, sequenceNumber: 1 },
+      metadata: { source: 'sse', sessionId: 's', sequenceNumber: 2, synthetic: true },
+    } as const;
+
+    const skipping = new FixtureRecorder({ id: 'a' });
+    const keeping = new FixtureRecorder({ id: 'b', includeSynthetic: true });
+    skipping.capture(marker);
+    keeping.capture(marker);
+
+    expect(skipping.getEventCount()).toBe(0);
+    expect(keeping.getEventCount()).toBe(1);
+  });
+
+  it('should report the fixture when the stream ends', async () => {
+    const onComplete = vi.fn<[Fixture], void>();
+    const recorder = new FixtureRecorder({ id: 'session', onComplete });
+
+    for await (const _event of recorder.record(replay())) {
+      break;
+    }
+
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onComplete.mock.calls[0][0].metadata.eventCount).toBe(1);
+  });
+
+  it('should produce fixtures the repository accepts', () => {
+    clearFixtures();
+    const recorder = new FixtureRecorder({ id: 'registrable', pattern: 'agent-await-prompt', now: clock(0, 10, 20) });
+
+    serverEvents.forEach((event) => recorder.capture(event));
+    recorder.capture(submission);
+
+    registerFixture(JSON.parse(recorder.toJSON()) as Fixture);
+    expect(getFixture('registrable').events).toHaveLength(3);
+    clearFixtures();
+  });
+
+  it('should start over after reset', () => {
+    const recorder = new FixtureRecorder({ id: 'session' });
+    recorder.capture(submission);
+    recorder.reset();
+
+    expect(recorder.getFixture().events).toEqual([]);
+  });
+});
+
+describe('recordCapturedEvents', () => {
+  it('should record Network Inspector captures in sequence order', () => {
+    const fixture = recordCapturedEvents(
+      [
+        { event: submission, sequence: 2, capturedAt: 9_500 },
+        { event: serverEvents[0], sequence: 1, capturedAt: 9_000 },
+      ],
+      { id: 'captured' }
+    );
+
+    expect(fixture.events.map((event) => event.id)).toEqual(['ask-1', 'submit-1']);
+    expect(fixture.events[1].timestamp - fixture.events[0].timestamp).toBe(500);
+  });
+});
+
+describe('serializeFixture', () => {
+  it('should round-trip through JSON', () => {
+    const fixture = recordCapturedEvents([{ event: submission, sequence: 1, capturedAt: 0 }], { id: 'json' });
+
+    expect(JSON.parse(serializeFixture(fixture))).toEqual(JSON.parse(JSON.stringify(fixture)));
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Fixture Recorder - Capture a live session as a registrable Fixture
+ *
+ * Wraps any event stream (mock, SSE or an adapted pattern stream) and records
+ * every delivered event, plus user-interaction events such as
+ * `input_submission` or `user_patch` captured out of band. When the session
+ * ends the recording becomes a `Fixture` that `registerFixture()` accepts, so
+ * an exploratory demo session can be kept as a regression fixture.
+ *
+ * Recorded fixtures are normalized for determinism (INV-13):
+ * - Timestamps are relative to the first event, rebased onto a fixed epoch
+ * - Session enrichment (`sessionId`, `metadata`) is stripped
+ * - Session-generated markers (e.g. `reconnected`) are skipped by default
+ *
+ * @module lib/streaming/fixtureRecorder
+ */
+
+import type { EventType, StreamEvent } from '@/types/events';
+import type { CapturedEvent } from '@/lib/hooks/useNetworkCapture';
+import { createFixture, FIXTURE_EPOCH, type Fixture } from './fixtureRepository';
+import type { EnrichedStreamEvent } from './streamSession';
+
+/** Epoch recorded timestamps are rebased onto (re-exported from fixtureRepository) */
+export { FIXTURE_EPOCH };
+
+/**
+ * Event types produced by the user rather than the server
+ */
+const USER_EVENT_TYPES: ReadonlySet<EventType> = new Set<EventType>([
+  'input_submission',
+  'user_patch',
+  'checkpoint_response',
+  'memory.pin',
+]);
+
+/**
+ * Options for recording a fixture
+ */
+export interface FixtureRecorderOptions {
+  /** Fixture ID */
+  id: string;
+
+  /** Human-readable name (default: the ID) */
+  name?: string;
+
+  /** Pattern the session belongs to (default: 'unknown') */
+  pattern?: string;
+
+  /** What the recording demonstrates (default: generated) */
+  description?: string;
+
+  /** Tags added before the computed ones */
+  tags?: string[];
+
+  /** Author of the recording */
+  author?: string;
+
+  /** Timestamp of the first recorded event (default: FIXTURE_EPOCH) */
+  baseTimestamp?: number;
+
+  /** Keep markers generated by StreamSession (default: false) */
+  includeSynthetic?: boolean;
+
+  /** Clock used to time events (default: Date.now) */
+  now?: () => number;
+
+  /** Called with the fixture when a recorded stream ends */
+  onComplete?: (fixture: Fixture) => void;
+}
+
+/**
+ * A recorded event with the time it was observed
+ */
+interface RecordedEvent {
+  event: StreamEvent;
+  observedAt: number;
+}
+
+/**
+ * FixtureRecorder - Records a session into a Fixture
+ *
+ * @example Recording a stream
+ * ```typescript
+ * const recorder = new FixtureRecorder({
+ *   id: 'co-creation-conflict-session',
+ *   pattern: 'turn-taking-co-creation',
+ *   onComplete: (fixture) => console.warn(serializeFixture(fixture)),
+ * });
+ *
+ * for await (const event of recorder.record(createMockStream({ events }))) {
+ *   render(event);
+ * }
+ * ```
+ *
+ * @example Capturing user interactions
+ * ```typescript
+ * recorder.capture({
+ *   id: 'user-edit-1',
+ *   type: 'user_patch',
+ *   timestamp: Date.now(),
+ *   data: { id: 'patch-7', operations, timestamp: Date.now() },
+ * });
+ * ```
+ */
+export class FixtureRecorder {
+  private readonly options: FixtureRecorderOptions;
+  private readonly now: () => number;
+  private recorded: RecordedEvent[] = [];
+
+  /**
+   * Create a recorder
+   *
+   * @param options - Fixture metadata and recording options
+   */
+  constructor(options: FixtureRecorderOptions) {
+    this.options = options;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Record every event of a stream while passing it through
+   *
+   * `onComplete` fires when the stream ends, fails or is cancelled, so
+   * partial sessions are kept too.
+   *
+   * @param source - Stream to record
+   * @returns Async generator yielding the source events unchanged
+   */
+  async *record<T extends StreamEvent>(source: AsyncIterable<T>): AsyncGenerator<T, void, undefined> {
+    try {
+      for await (const event of source) {
+        this.capture(event);
+        yield event;
+      }
+    } finally {
+      this.options.onComplete?.(this.getFixture());
+    }
+  }
+
+  /**
+   * Record a single event
+   *
+   * Use this for events that do not flow through a recorded stream, such as
+   * user submissions and edits.
+   *
+   * @param event - Event to record
+   * @param observedAt - When the event happened (default: now)
+   */
+  capture(event: StreamEvent | EnrichedStreamEvent, observedAt: number = this.now()): void {
+    const enriched = event as EnrichedStreamEvent;
+
+    if (enriched.metadata?.synthetic && !this.options.includeSynthetic) {
+      return;
+    }
+
+    this.recorded.push({ event: stripEnrichment(enriched), observedAt });
+  }
+
+  /**
+   * Number of events recorded so far
+   *
+   * @returns Event count
+   */
+  getEventCount(): number {
+    return this.recorded.length;
+  }
+
+  /**
+   * Build the fixture from the events recorded so far
+   *
+   * @returns Fixture with computed metadata
+   */
+  getFixture(): Fixture {
+    const { id, name, pattern, description, tags = [], author } = this.options;
+    const events = rebaseTimestamps(this.recorded, this.options.baseTimestamp ?? FIXTURE_EPOCH);
+    const types = [...new Set(events.map((event) => event.type))];
+    const interactive = types.some((type) => USER_EVENT_TYPES.has(type));
+
+    return createFixture(id, events, {
+      name,
+      pattern,
+      description:
+        description ??
+        `Recorded session: ${events.length} events${interactive ? ' including user interactions' : ''}`,
+      tags: [...new Set([...tags, 'recorded', ...(interactive ? ['interactive'] : []), ...types])],
+      author,
+    });
+  }
+
+  /**
+   * Serialize the fixture recorded so far
+   *
+   * @returns Fixture JSON
+   */
+  toJSON(): string {
+    return serializeFixture(this.getFixture());
+  }
+
+  /**
+   * Discard all recorded events
+   */
+  reset(): void {
+    this.recorded = [];
+  }
+}
+
+/**
+ * Remove session enrichment from an event
+ *
+ * @param event - Possibly enriched event
+ * @returns Plain stream event
+ */
+function stripEnrichment(event: EnrichedStreamEvent): StreamEvent {
+  const { sessionId: _sessionId, metadata: _metadata, ...plain } = event;
+  return plain as StreamEvent;
+}
+
+/**
+ * Rebase recorded events onto a fixed epoch, preserving their spacing
+ *
+ * Events are kept in recording order; observation times that go backwards
+ * are clamped so timestamps stay non-decreasing.
+ *
+ * @param recorded - Recorded events
+ * @param base - Timestamp of the first event
+ * @returns Events with relative timestamps
+ */
+function rebaseTimestamps(recorded: RecordedEvent[], base: number): StreamEvent[] {
+  const start = recorded[0]?.observedAt ?? 0;
+  let previous = base;
+
+  return recorded.map(({ event, observedAt }) => {
+    previous = Math.max(previous, base + (observedAt - start));
+    return { ...event, timestamp: previous };
+  });
+}
+
+/**
+ * Record events captured by the Network Inspector as a fixture
+ *
+ * @param captured - Events from useNetworkCapture
+ * @param options - Fixture metadata
+ * @returns Fixture with computed metadata
+ *
+ * @example
+ * ```typescript
+ * const { events } = useNetworkCapture();
+ * const fixture = recordCapturedEvents(events, { id: 'memory-session', pattern: 'multi-turn-memory' });
+ * ```
+ */
+export function recordCapturedEvents(
+  captured: CapturedEvent[],
+  options: FixtureRecorderOptions
+): Fixture {
+  const recorder = new FixtureRecorder(options);
+
+  [...captured]
+    .sort((a, b) => a.sequence - b.sequence)
+    .forEach(({ event, capturedAt }) => recorder.capture(event, capturedAt));
+
+  return recorder.getFixture();
+}
+
+/**
+ * Serialize a fixture as JSON
+ *
+ * @param fixture - Fixture to serialize
+ * @returns Pretty-printed fixture JSON
+ */
+export function serializeFixture(fixture: Fixture): string {
+  return JSON.stringify(fixture, null, 2);
+}
@@ -9,7 +9,7 @@
  * - Error handling
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import type { StreamEvent } from '@/types/events';
 import {
   registerFixture,
@@ -24,6 +24,15 @@ import {
   getRegistryStats,
   validateFixture,
   createFixture,
+  upcastFixture,
+  detectFixtureFormat,
+  parseFixture,
+  loadFixture,
+  loadFixtureFromUrl,
+  loadFixtureFromFile,
+  FIXTURE_EPOCH,
+  diffFixtures,
+  diffJson,
   type Fixture,
   type FixtureMetadata,
 } from './fixtureRepository';
@@ -188,6 +197,20 @@ describe('fixtureRepository', () => {
         getFixture('test-reasoning-fixture', { validate: true })
       ).not.toThrow();
     });
+
+    it('should optionally split answers into token chunks', () => {
+      const fixture = getFixture('test-reasoning-fixture', {
+        tokenChunks: { minTokens: 1, maxTokens: 1 },
+      });
+
+      expect(fixture.events.map((event) => event.id)).toEqual([
+        'reason-1',
+        'answer-1-t0',
+        'answer-1-t1',
+      ]);
+      expect(fixture.metadata.eventCount).toBe(3);
+      expect(getFixture('test-reasoning-fixture').events).toHaveLength(2);
+    });
   });
 
   describe('getFixtureEvents', () => {
@@ -511,6 +534,101 @@ describe('fixtureRepository', () => {
         result.errors.some((e) => e.message.includes('Timestamp order violation'))
       ).toBe(false);
     });
+
+    it('should report unreachable script branches with their step path', () => {
+      const fixture: Fixture = {
+        ...validFixture,
+        script: [
+          {
+            wait: {
+              type: 'checkpoint_response',
+              cases: [{ when: {}, steps: [{ emit: 'reason-1' }] }],
+              otherwise: [{ emit: 'answer-1' }],
+            },
+          },
+        ],
+      };
+
+      const result = validateFixture(fixture);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        {
+          type: 'script',
+          message:
+            'Otherwise block script[0].wait.otherwise is unreachable: the cases cover every value',
+          context: 'script[0].wait.otherwise',
+        },
+      ]);
+    });
+
+    it('should leave script events with value placeholders to the script check', () => {
+      const resume = {
+        id: 'resume-edited',
+        type: 'checkpoint_resume',
+        timestamp: 1000,
+        data: { checkpointId: 'cp-1', approvedValue: '{{response.data.editedValue}}' },
+      } as unknown as StreamEvent;
+      const fixture: Fixture = {
+        metadata: { ...validFixtureMetadata, eventCount: 1 },
+        events: [resume],
+        script: [
+          { wait: { type: 'checkpoint_response', as: 'response' } },
+          { emit: 'resume-edited' },
+        ],
+      };
+
+      expect(validateFixture(fixture)).toEqual({ valid: true, errors: [] });
+      expect(validateFixture({ ...fixture, script: undefined }).valid).toBe(false);
+    });
+
+    it('should keep scripts when upcasting and cloning', () => {
+      const script = [{ emit: 'answer-1' }, { emit: 'reason-1' }];
+      registerFixture({
+        ...validFixture,
+        metadata: { ...validFixtureMetadata, version: '1.0' },
+        script,
+      });
+
+      expect(getFixture(validFixtureMetadata.id).script).toEqual(script);
+    });
+  });
+
+  describe('schema versions', () => {
+    it('should name the targeted schema version in event errors', () => {
+      const result = validateFixture({
+        metadata: { ...validFixtureMetadata, eventCount: 1 },
+        events: [{ ...mockReasoningEvents[0], data: {} } as StreamEvent],
+      });
+
+      expect(result.errors[0].message).toBe(
+        'Event at index 0 is invalid (fixture targets event schema v1)'
+      );
+    });
+
+    it('should reject fixtures recorded against a newer schema version', () => {
+      const fixture = {
+        metadata: { ...validFixtureMetadata, version: '99.0' },
+        events: mockReasoningEvents,
+      };
+
+      expect(validateFixture(fixture).errors[0].message).toContain(
+        'targets event schema v99, newer than the supported v1'
+      );
+      expect(() => registerFixture(fixture)).toThrow('targets event schema v99');
+    });
+
+    it('should reject malformed versions', () => {
+      const result = validateFixture({
+        metadata: { ...validFixtureMetadata, version: 'latest' },
+        events: mockReasoningEvents,
+      });
+
+      expect(result.errors.some((e) => e.message.includes('Invalid fixture version "latest"'))).toBe(true);
+    });
+
+    it('should return current fixtures unchanged from upcastFixture', () => {
+      expect(upcastFixture(validFixture)).toBe(validFixture);
+    });
   });
 
   describe('createFixture', () => {
@@ -635,4 +753,316 @@ describe('fixtureRepository', () => {
       }
     });
   });
+
+  describe('fixture loaders', () => {
+    const ndjson = mockReasoningEvents.map((event) => JSON.stringify(event)).join('\n');
+
+    describe('detectFixtureFormat', () => {
+      it('should detect the format from the file extension', () => {
+        expect(detectFixtureFormat('', 'a/b.ndjson')).toBe('ndjson');
+        expect(detectFixtureFormat('', 'log.jsonl?raw')).toBe('ndjson');
+        expect(detectFixtureFormat('', 'capture.sse')).toBe('sse');
+        expect(detectFixtureFormat('', 'fixture.json')).toBe('json');
+      });
+
+      it('should detect the format from the content type', () => {
+        expect(detectFixtureFormat('', '/replay', 'text/event-stream; charset=utf-8')).toBe('sse');
+      });
+
+      it('should detect the format from the content', () => {
+        expect(detectFixtureFormat(JSON.stringify(validFixture, null, 2))).toBe('json');
+        expect(detectFixtureFormat(ndjson)).toBe('ndjson');
+        expect(detectFixtureFormat('\nevent: answer\ndata: {}\n')).toBe('sse');
+      });
+    });
+
+    describe('parseFixture', () => {
+      it('should load a JSON fixture file', () => {
+        const result = parseFixture(JSON.stringify(validFixture, null, 2));
+
+        expect(result).toMatchObject({ format: 'json', valid: true, errors: [] });
+        expect(result.fixture).toEqual(validFixture);
+      });
+
+      it('should report the line of an invalid event in a JSON file', () => {
+        const invalid = {
+          ...validFixture,
+          events: [mockReasoningEvents[0], { ...mockReasoningEvents[1], timestamp: -1 }],
+        };
+        const text = JSON.stringify(invalid, null, 2);
+        const line = text.split('\n').findIndex((content) => content.includes('"id": "answer-1"'));
+
+        const result = parseFixture(text);
+
+        expect(result.valid).toBe(false);
+        expect(result.errors[0]).toMatchObject({ type: 'event', context: 1, line });
+      });
+
+      it('should report JSON syntax errors with their line', () => {
+        const result = parseFixture('{\n  "metadata": {},\n}', { format: 'json' });
+
+        expect(result.fixture).toBeUndefined();
+        expect(result.errors).toEqual([
+          expect.objectContaining({
+            type: 'structural',
+            line: 3,
+            message: expect.stringContaining('Invalid JSON'),
+          }),
+        ]);
+      });
+
+      it('should load an NDJSON event log using metadata from the options', () => {
+        const result = parseFixture(`\n${ndjson}\n`, {
+          source: 'logs/sprint.ndjson',
+          pattern: 'chain-of-reasoning',
+        });
+
+        expect(result.valid).toBe(true);
+        expect(result.fixture?.metadata).toMatchObject({
+          id: 'sprint',
+          pattern: 'chain-of-reasoning',
+          eventCount: 2,
+          version: '1.0',
+        });
+        expect(result.fixture?.events).toEqual(mockReasoningEvents);
+      });
+
+      it('should report NDJSON errors on the line of the event', () => {
+        const lines = [JSON.stringify(mockReasoningEvents[0]), '', '{"id":"x","type":"answer"'];
+
+        expect(parseFixture(lines.join('\n'), { format: 'ndjson' }).errors[0]).toMatchObject({
+          line: 3,
+        });
+
+        const invalidEvent = { ...mockReasoningEvents[1], id: '' };
+        lines[2] = JSON.stringify(invalidEvent);
+
+        expect(parseFixture(lines.join('\n'), { format: 'ndjson' }).errors[0]).toMatchObject({
+          type: 'event',
+          context: 1,
+          line: 3,
+        });
+      });
+
+      it('should load an SSE transcript', () => {
+        const transcript = [
+          ': keep-alive',
+          'event: reasoning',
+          'id: reason-1',
+          `data: ${JSON.stringify({ data: mockReasoningEvents[0].data })}`,
+          '',
+          'event: answer',
+          'data: {"data":{"text":"Test",',
+          'data: "isFinal":true}}',
+          '',
+          'data: [DONE]',
+        ].join('\n');
+
+        const result = parseFixture(transcript, { id: 'transcript', format: 'sse' });
+
+        expect(result.valid).toBe(true);
+        expect(result.fixture?.events).toEqual([
+          {
+            id: 'reason-1',
+            type: 'reasoning',
+            timestamp: FIXTURE_EPOCH,
+            data: mockReasoningEvents[0].data,
+          },
+          {
+            id: 'transcript-2',
+            type: 'answer',
+            timestamp: FIXTURE_EPOCH,
+            data: { text: 'Test', isFinal: true },
+          },
+        ]);
+      });
+
+      it('should report SSE errors on the line the message starts', () => {
+        const transcript = [
+          'event: answer',
+          'data: {"timestamp":5,"data":{"text":"a","isFinal":false}}',
+          '',
+          'event: answer',
+          'data: {"timestamp":1,"data":{}}',
+        ].join('\n');
+
+        const result = parseFixture(transcript, { id: 'transcript' });
+
+        expect(result.valid).toBe(false);
+        expect(result.errors.map((error) => error.line)).toEqual([4, 4]);
+      });
+    });
+
+    describe('loadFixture', () => {
+      it('should throw with every error and its line', () => {
+        const text = [
+          JSON.stringify(mockReasoningEvents[0]),
+          JSON.stringify({ ...mockReasoningEvents[1], timestamp: 0 }),
+        ].join('\n');
+
+        expect(() => loadFixture(text, { source: 'broken.ndjson' })).toThrow(
+          /^Cannot load fixture from broken\.ndjson: line 2: Event at index 1 is invalid \(fixture targets event schema v1\): Timestamp must be a positive number.*; line 2: Timestamp order violation/
+        );
+      });
+
+      it('should return a fixture that can be registered', () => {
+        registerFixture(loadFixture(ndjson, { id: 'loaded' }));
+
+        expect(getFixtureEvents('loaded')).toEqual(mockReasoningEvents);
+      });
+
+      it('should fetch fixtures from a URL', async () => {
+        const fetchMock = vi.fn(
+          async () => new Response(ndjson, { headers: { 'content-type': 'application/x-ndjson' } })
+        );
+
+        const fixture = await loadFixtureFromUrl('https://example.test/fixtures/replay', {
+          fetch: fetchMock,
+        });
+
+        expect(fetchMock).toHaveBeenCalledWith('https://example.test/fixtures/replay', {
+          headers: undefined,
+        });
+        expect(fixture.metadata.id).toBe('replay');
+        expect(fixture.events).toEqual(mockReasoningEvents);
+      });
+
+      it('should reject failed requests', async () => {
+        const fetchMock = vi.fn(async () => new Response('', { status: 404 }));
+
+        await expect(
+          loadFixtureFromUrl('/fixtures/missing.json', { fetch: fetchMock })
+        ).rejects.toThrow('Cannot load fixture from /fixtures/missing.json: HTTP 404');
+      });
+
+      it('should read fixture files', async () => {
+        const file = { name: 'sprint.json', text: async () => JSON.stringify(validFixture) };
+
+        await expect(loadFixtureFromFile(file)).resolves.toEqual(validFixture);
+      });
+    });
+  });
+
+  describe('diffJson', () => {
+    it('should report changed, added and removed paths', () => {
+      expect(
+        diffJson(
+          { text: 'Hi', steps: [1, 2], meta: { a: 1 } },
+          { text: 'Hello', steps: [1], meta: { a: 1, 'b-c': true } }
+        )
+      ).toEqual([
+        { path: '$.text', kind: 'changed', before: 'Hi', after: 'Hello' },
+        { path: '$.steps[1]', kind: 'removed', before: 2 },
+        { path: '$.meta["b-c"]', kind: 'added', after: true },
+      ]);
+    });
+
+    it('should report a change of value type at its path', () => {
+      expect(diffJson({ data: [1] }, { data: { 0: 1 } })).toEqual([
+        { path: '$.data', kind: 'changed', before: [1], after: { 0: 1 } },
+      ]);
+    });
+  });
+
+  describe('diffFixtures', () => {
+    const event = (id: string, timestamp: number, text = id): StreamEvent => ({
+      id,
+      type: 'answer',
+      timestamp,
+      data: { text, isFinal: false },
+    });
+    const fixture = (events: StreamEvent[]): Fixture => createFixture('diff-test', events, {});
+
+    it('should report identical fixtures', () => {
+      const events = [event('a', 1000), event('b', 1100)];
+      const diff = diffFixtures(fixture(events), fixture(events));
+
+      expect(diff.identical).toBe(true);
+      expect(diff.events).toEqual([]);
+      expect(diff.summary.unchanged).toBe(2);
+    });
+
+    it('should ignore a shift of the whole recording', () => {
+      const diff = diffFixtures(
+        fixture([event('a', 1000), event('b', 1100)]),
+        fixture([event('a', 5000), event('b', 5100)])
+      );
+
+      expect(diff.identical).toBe(true);
+    });
+
+    it('should report inserted and removed events', () => {
+      const diff = diffFixtures(
+        fixture([event('a', 1000), event('b', 1100), event('c', 1200)]),
+        fixture([event('a', 1000), event('c', 1200), event('d', 1300)])
+      );
+
+      expect(diff.events).toEqual([
+        expect.objectContaining({ id: 'b', change: 'removed', beforeIndex: 1 }),
+        expect.objectContaining({ id: 'd', change: 'inserted', afterIndex: 2 }),
+      ]);
+      expect(diff.summary).toMatchObject({ inserted: 1, removed: 1, unchanged: 2 });
+      expect(diff.metadata).toEqual([]);
+    });
+
+    it('should report the fewest events that explain a reordering', () => {
+      const diff = diffFixtures(
+        fixture([event('a', 1000), event('b', 1000), event('c', 1000), event('d', 1000)]),
+        fixture([event('a', 1000), event('c', 1000), event('d', 1000), event('b', 1000)])
+      );
+
+      expect(diff.events).toEqual([
+        expect.objectContaining({ id: 'b', reordered: true, beforeIndex: 1, afterIndex: 3 }),
+      ]);
+      expect(diff.summary.reordered).toBe(1);
+    });
+
+    it('should report modified events with JSON path diffs', () => {
+      const diff = diffFixtures(
+        fixture([event('a', 1000, 'Hello')]),
+        fixture([event('a', 1000, 'Hello, world')])
+      );
+
+      expect(diff.events[0]).toMatchObject({
+        id: 'a',
+        change: 'matched',
+        reordered: false,
+        dataChanges: [
+          { path: '$.data.text', kind: 'changed', before: 'Hello', after: 'Hello, world' },
+        ],
+      });
+      expect(diff.summary.modified).toBe(1);
+    });
+
+    it('should report timing drift beyond the tolerance', () => {
+      const before = fixture([event('a', 1000), event('b', 1100), event('c', 1200)]);
+      const after = fixture([event('a', 1000), event('b', 1120), event('c', 1400)]);
+
+      const diff = diffFixtures(before, after, { timingTolerance: 50 });
+
+      expect(diff.events).toEqual([expect.objectContaining({ id: 'c', timingDrift: 200 })]);
+      expect(diff.summary).toMatchObject({ drifted: 1, unchanged: 2 });
+      expect(diff.timing).toEqual({ maxDrift: 200, durationDelta: 200 });
+    });
+
+    it('should pair repeated IDs in order and align events without IDs by position', () => {
+      const diff = diffFixtures(
+        fixture([event('a', 1000, 'first'), event('a', 1100, 'second'), event('', 1200)]),
+        fixture([event('a', 1000, 'first'), event('a', 1100, 'changed'), event('', 1200)])
+      );
+
+      expect(diff.events).toEqual([
+        expect.objectContaining({ id: 'a', afterIndex: 1, dataChanges: [expect.anything()] }),
+      ]);
+    });
+
+    it('should report metadata changes', () => {
+      const before = fixture([event('a', 1000)]);
+      const after = { ...before, metadata: { ...before.metadata, tags: ['recorded'] } };
+
+      expect(diffFixtures(before, after).metadata).toEqual([
+        { path: '$.tags[0]', kind: 'added', after: 'recorded' },
+      ]);
+    });
+  });
 });
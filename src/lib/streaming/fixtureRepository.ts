@@ -10,6 +10,10 @@
  * - Provide type-safe access to fixtures
  * - Ensure fixtures are immutable (deep cloning)
  * - Support fixture discovery and enumeration
+ * - Upcast fixtures recorded against older event schema versions
+ * - Load fixtures from JSON files, NDJSON event logs and SSE transcripts
+ * - Compare fixtures event by event when they are re-recorded
+ * - Statically check branching fixture scripts (see fixtureScript.ts)
  *
  * Invariants enforced:
  * - INV-13: Fixtures are deterministic (same ID → same events)
@@ -20,7 +24,17 @@
  */
 
 import type { StreamEvent } from '@/types/events';
-import { validateEvent, type ValidationResult } from './eventSchema';
+import { SSEParser, type SSEMessage } from './sseParser';
+import { checkFixtureScript, hasValuePlaceholders, type ScriptStep } from './fixtureScript';
+import { chunkAnswerEvents, type TokenChunkOptions } from './tokenChunking';
+import {
+  EVENT_SCHEMA_VERSION,
+  formatSchemaVersion,
+  parseSchemaVersion,
+  upcastEvents,
+  validateEvent,
+  type ValidationResult,
+} from './eventSchema';
 
 // ============================================================================
 // Types
@@ -51,7 +65,10 @@ export interface FixtureMetadata {
   /** Optional author information */
   author?: string;
 
-  /** Version of fixture format */
+  /**
+   * Version of fixture format (`MAJOR.MINOR`)
+   * The major number is the event schema version the events were recorded against.
+   */
   version: string;
 }
 
@@ -62,8 +79,14 @@ export interface Fixture {
   /** Fixture metadata */
   metadata: FixtureMetadata;
 
-  /** Array of stream events */
+  /** Array of stream events (the event library, when the fixture has a script) */
   events: StreamEvent[];
+
+  /**
+   * Optional branching script deciding which events to emit, and when to
+   * wait for the client (run with `toStreamScript()`)
+   */
+  script?: ScriptStep[];
 }
 
 /**
@@ -75,6 +98,9 @@ export interface LoadFixtureOptions {
 
   /** Whether to deep clone events for immutability (default: true) */
   clone?: boolean;
+
+  /** Split answer text into token chunks, as an LLM streams it (default: false) */
+  tokenChunks?: boolean | TokenChunkOptions;
 }
 
 /**
@@ -93,16 +119,63 @@ export interface FixtureValidationResult {
  */
 export interface FixtureValidationError {
   /** Type of error */
-  type: 'metadata' | 'event' | 'structural';
+  type: 'metadata' | 'event' | 'structural' | 'script';
 
   /** Error message */
   message: string;
 
-  /** Optional context (e.g., event index) */
+  /** Optional context (e.g., event index or script step path) */
   context?: string | number;
 
   /** Event validation details if applicable */
   eventValidation?: ValidationResult;
+
+  /** Line in the source text (set by the fixture loaders) */
+  line?: number;
+}
+
+/**
+ * Text formats the fixture loaders understand
+ * - 'json': a fixture file (`{ metadata, events }`) or a bare array of events
+ * - 'ndjson': an event log with one JSON event per line
+ * - 'sse': a raw `text/event-stream` transcript (`event:`, `id:`, `data:` lines)
+ */
+export type FixtureFormat = 'json' | 'ndjson' | 'sse';
+
+/**
+ * Options for parsing fixture text
+ *
+ * Metadata fields fill in what the text does not carry: NDJSON logs, SSE
+ * transcripts and bare event arrays have no metadata of their own.
+ */
+export interface ParseFixtureOptions extends Partial<Omit<FixtureMetadata, 'eventCount'>> {
+  /** Format of the text (default: detected from `source` and the content) */
+  format?: FixtureFormat;
+
+  /** File name or URL the text came from, used in errors and as the default ID */
+  source?: string;
+}
+
+/**
+ * Result of parsing fixture text
+ */
+export interface FixtureLoadResult extends FixtureValidationResult {
+  /** Format the text was parsed as */
+  format: FixtureFormat;
+
+  /** Parsed fixture (undefined if the text could not be parsed) */
+  fixture?: Fixture;
+}
+
+/**
+ * Options for loading a fixture over the network
+ */
+export interface LoadFixtureFromUrlOptions extends ParseFixtureOptions {
+  /** Additional request headers */
+  headers?: Record<string, string>;
+
+  /** Fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
 }
 
 // ============================================================================
@@ -123,7 +196,9 @@ const fixtureRegistry = new Map<string, Fixture>();
  * Register a fixture in the repository
  *
  * Validates and stores a fixture for later retrieval. Fixtures are validated
- * against the event schema and checked for structural correctness.
+ * against the event schema and checked for structural correctness. Fixtures
+ * recorded against an older schema version are stored as recorded and
+ * upcast when retrieved.
  *
  * @param fixture - Fixture to register
  * @throws Error if fixture is invalid or ID already exists
@@ -167,11 +242,15 @@ export function registerFixture(fixture: Fixture): void {
  *
  * Retrieves a fixture from the registry. By default, returns a deep clone to
  * ensure immutability (INV-14). Original fixture in registry remains unchanged.
+ * Events recorded against an older schema version are upcast to the current
+ * shape, and the returned metadata reports the current version. With
+ * `tokenChunks`, answer events are split into token chunks (see
+ * chunkAnswerEvents) and the metadata counts the chunked events.
  *
  * @param id - Fixture ID
  * @param options - Load options
  * @returns Fixture if found
- * @throws Error if fixture not found
+ * @throws Error if fixture not found, or token chunks are requested for a scripted fixture
  *
  * @example
  * ```typescript
@@ -180,14 +259,16 @@ export function registerFixture(fixture: Fixture): void {
  * ```
  */
 export function getFixture(id: string, options: LoadFixtureOptions = {}): Fixture {
-  const { clone = true, validate = false } = options;
+  const { clone = true, validate = false, tokenChunks = false } = options;
 
-  const fixture = fixtureRegistry.get(id);
+  const recorded = fixtureRegistry.get(id);
 
-  if (!fixture) {
+  if (!recorded) {
     throw new Error(`Fixture not found: ${id}`);
   }
 
+  const fixture = upcastFixture(recorded);
+
   // Optionally validate before returning
   if (validate) {
     const validationResult = validateFixture(fixture);
@@ -197,8 +278,19 @@ export function getFixture(id: string, options: LoadFixtureOptions = {}): Fixtur
     }
   }
 
-  // Return deep clone by default for immutability
-  return clone ? deepCloneFixture(fixture) : fixture;
+  const loaded = clone ? deepCloneFixture(fixture) : fixture;
+
+  if (!tokenChunks) {
+    return loaded;
+  }
+  if (loaded.script) {
+    throw new Error(
+      `Fixture "${id}" has a script; token chunks are not supported for scripted fixtures`
+    );
+  }
+
+  const events = chunkAnswerEvents(loaded.events, tokenChunks === true ? {} : tokenChunks);
+  return { ...loaded, metadata: { ...loaded.metadata, eventCount: events.length }, events };
 }
 
 /**
@@ -366,8 +458,11 @@ export function getRegistryStats(): {
  * Performs comprehensive validation of fixture structure and content:
  * - Metadata completeness
  * - Event count accuracy
- * - Event schema validation
+ * - Event schema validation (after upcasting older fixtures)
  * - Event order and timestamps
+ * - Script reachability (unknown events, unreachable branches)
+ *
+ * Error messages name the event schema version the fixture targets.
  *
  * @param fixture - Fixture to validate
  * @returns Validation result with any errors
@@ -437,11 +532,22 @@ export function validateFixture(fixture: Fixture): FixtureValidationResult {
     });
   }
 
+  let schemaVersion: number | undefined;
+
   if (!metadata.version || typeof metadata.version !== 'string') {
     errors.push({
       type: 'metadata',
       message: 'Fixture metadata missing or invalid "version" field',
     });
+  } else {
+    try {
+      schemaVersion = parseSchemaVersion(metadata.version);
+    } catch (error) {
+      errors.push({
+        type: 'metadata',
+        message: (error as Error).message,
+      });
+    }
   }
 
   // Validate events array
@@ -453,6 +559,22 @@ export function validateFixture(fixture: Fixture): FixtureValidationResult {
     return { valid: false, errors };
   }
 
+  const targets = schemaVersion === undefined ? '' : ` (fixture targets event schema v${schemaVersion})`;
+
+  // Bring older events to the current shape before validating them
+  let currentEvents: StreamEvent[] = events;
+  if (schemaVersion !== undefined) {
+    try {
+      currentEvents = upcastFixture(fixture).events;
+    } catch (error) {
+      errors.push({
+        type: 'structural',
+        message: (error as Error).message,
+      });
+      return { valid: false, errors };
+    }
+  }
+
   // Validate event count matches metadata
   if (events.length !== metadata.eventCount) {
     errors.push({
@@ -461,14 +583,19 @@ export function validateFixture(fixture: Fixture): FixtureValidationResult {
     });
   }
 
-  // Validate each event
-  events.forEach((event, index) => {
+  // Validate each event (script events with value placeholders are only
+  // complete once the script runs; the script check covers their variables)
+  currentEvents.forEach((event, index) => {
+    if (fixture.script !== undefined && hasValuePlaceholders(event)) {
+      return;
+    }
+
     const eventValidation = validateEvent(event);
 
     if (!eventValidation.valid) {
       errors.push({
         type: 'event',
-        message: `Event at index ${index} is invalid`,
+        message: `Event at index ${index} is invalid${targets}`,
         context: index,
         eventValidation,
       });
@@ -486,16 +613,920 @@ export function validateFixture(fixture: Fixture): FixtureValidationResult {
     }
   }
 
+  // Statically check the script, if any
+  if (fixture.script !== undefined) {
+    checkFixtureScript(fixture).forEach((issue) => {
+      errors.push({
+        type: 'script',
+        message: issue.message,
+        context: issue.path,
+      });
+    });
+  }
+
   return {
     valid: errors.length === 0,
     errors,
   };
 }
 
+// ============================================================================
+// Fixture Diffing
+// ============================================================================
+
+/**
+ * A difference at one JSON path
+ */
+export interface JsonChange {
+  /** JSON path of the value (e.g. `$.data.steps[0].text`) */
+  path: string;
+
+  /** Whether the value was added, removed or changed */
+  kind: 'added' | 'removed' | 'changed';
+
+  /** Value in the first fixture */
+  before?: unknown;
+
+  /** Value in the second fixture */
+  after?: unknown;
+}
+
+/**
+ * How an event differs between two fixtures
+ */
+export interface EventDiff {
+  /** Event ID (or `#<index>` for events without one) */
+  id: string;
+
+  /** Event type (in the second fixture, if present there) */
+  type: string;
+
+  /** Whether the event was inserted, removed or exists in both fixtures */
+  change: 'inserted' | 'removed' | 'matched';
+
+  /** Index in the first fixture */
+  beforeIndex?: number;
+
+  /** Index in the second fixture */
+  afterIndex?: number;
+
+  /** Whether the event moved relative to the other matched events */
+  reordered: boolean;
+
+  /** Differences in the event itself, excluding its timestamp */
+  dataChanges: JsonChange[];
+
+  /**
+   * Change in the event's offset from the start of the fixture (ms)
+   * Positive when the event arrives later than before.
+   */
+  timingDrift: number;
+}
+
+/**
+ * Structural comparison of two fixtures
+ */
+export interface FixtureDiff {
+  /** Whether the fixtures are equivalent (within the timing tolerance) */
+  identical: boolean;
+
+  /** Metadata differences */
+  metadata: JsonChange[];
+
+  /** Events that differ, in the order of the second fixture */
+  events: EventDiff[];
+
+  /** Number of events by kind of difference */
+  summary: {
+    inserted: number;
+    removed: number;
+    reordered: number;
+    modified: number;
+    drifted: number;
+    unchanged: number;
+  };
+
+  /** Timing comparison */
+  timing: {
+    /** Largest absolute drift of a matched event (ms) */
+    maxDrift: number;
+
+    /** Change in total fixture duration (ms) */
+    durationDelta: number;
+  };
+}
+
+/**
+ * Options for diffFixtures
+ */
+export interface DiffFixturesOptions {
+  /** Timing drift (ms) below which an event is not reported as drifted (default: 0) */
+  timingTolerance?: number;
+}
+
+/**
+ * Compare two fixtures event by event
+ *
+ * Events are aligned by ID; repeated IDs are paired in order of appearance
+ * and events without an ID are aligned by position. Matched events whose
+ * relative order changed are reported as reordered (the fewest events that
+ * explain the new order). Event differences are reported per JSON path, and
+ * timing is compared on offsets from each fixture's first event, so a
+ * re-recording rebased onto a different epoch shows no drift.
+ *
+ * @param before - Original fixture
+ * @param after - Updated fixture
+ * @param options - Diff options
+ * @returns Structural diff
+ *
+ * @example
+ * ```typescript
+ * const diff = diffFixtures(getFixture('sprint-planning'), rerecorded, { timingTolerance: 50 });
+ * if (!diff.identical) {
+ *   diff.events.forEach((event) => console.warn(event.id, event.change, event.dataChanges));
+ * }
+ * ```
+ */
+export function diffFixtures(
+  before: Fixture,
+  after: Fixture,
+  options: DiffFixturesOptions = {}
+): FixtureDiff {
+  const { timingTolerance = 0 } = options;
+  const beforeKeys = alignmentKeys(before.events);
+  const afterIndexByKey = new Map(alignmentKeys(after.events).map((key, index) => [key, index]));
+
+  // Matched pairs in the order of the first fixture
+  const pairs: Array<[number, number]> = [];
+  beforeKeys.forEach((key, beforeIndex) => {
+    const afterIndex = afterIndexByKey.get(key);
+    if (afterIndex !== undefined) {
+      pairs.push([beforeIndex, afterIndex]);
+    }
+  });
+
+  const inOrder = longestIncreasingSubsequence(pairs.map(([, afterIndex]) => afterIndex));
+  const beforeStart = before.events[0]?.timestamp ?? 0;
+  const afterStart = after.events[0]?.timestamp ?? 0;
+  const pairByAfter = new Map(pairs.map(([, afterIndex], pairIndex) => [afterIndex, pairIndex]));
+  const pairByBefore = new Map(pairs.map(([beforeIndex], pairIndex) => [beforeIndex, pairIndex]));
+
+  const diffs: EventDiff[] = [];
+  const summary = { inserted: 0, removed: 0, reordered: 0, modified: 0, drifted: 0, unchanged: 0 };
+  let maxDrift = 0;
+
+  // Removed events are listed after the event that preceded them
+  const removedAfter = new Map<number, number[]>();
+  let previousAfter = -1;
+  beforeKeys.forEach((_key, beforeIndex) => {
+    const pairIndex = pairByBefore.get(beforeIndex);
+    if (pairIndex !== undefined) {
+      previousAfter = pairs[pairIndex][1];
+    } else {
+      removedAfter.set(previousAfter, [...(removedAfter.get(previousAfter) ?? []), beforeIndex]);
+    }
+  });
+
+  const pushRemoved = (afterIndex: number): void => {
+    for (const beforeIndex of removedAfter.get(afterIndex) ?? []) {
+      const event = before.events[beforeIndex];
+      summary.removed++;
+      diffs.push({
+        id: eventKeyId(event, beforeIndex),
+        type: event.type,
+        change: 'removed',
+        beforeIndex,
+        reordered: false,
+        dataChanges: [],
+        timingDrift: 0,
+      });
+    }
+  };
+
+  pushRemoved(-1);
+
+  after.events.forEach((event, afterIndex) => {
+    const id = eventKeyId(event, afterIndex);
+    const pairIndex = pairByAfter.get(afterIndex);
+
+    if (pairIndex === undefined) {
+      summary.inserted++;
+      diffs.push({
+        id,
+        type: event.type,
+        change: 'inserted',
+        afterIndex,
+        reordered: false,
+        dataChanges: [],
+        timingDrift: 0,
+      });
+    } else {
+      const beforeIndex = pairs[pairIndex][0];
+      const { timestamp: beforeTimestamp, ...beforeEvent } = before.events[beforeIndex];
+      const { timestamp: afterTimestamp, ...afterEvent } = event;
+      const reordered = !inOrder.has(pairIndex);
+      const dataChanges = diffJson(beforeEvent, afterEvent);
+      const timingDrift = afterTimestamp - afterStart - (beforeTimestamp - beforeStart);
+      const drifted = Math.abs(timingDrift) > timingTolerance;
+
+      maxDrift = Math.max(maxDrift, Math.abs(timingDrift));
+      summary.reordered += reordered ? 1 : 0;
+      summary.modified += dataChanges.length > 0 ? 1 : 0;
+      summary.drifted += drifted ? 1 : 0;
+
+      if (reordered || dataChanges.length > 0 || drifted) {
+        diffs.push({
+          id,
+          type: event.type,
+          change: 'matched',
+          beforeIndex,
+          afterIndex,
+          reordered,
+          dataChanges,
+          timingDrift,
+        });
+      } else {
+        summary.unchanged++;
+      }
+    }
+
+    pushRemoved(afterIndex);
+  });
+
+  const metadata = diffJson(before.metadata, after.metadata);
+
+  return {
+    identical: metadata.length === 0 && diffs.length === 0,
+    metadata,
+    events: diffs,
+    summary,
+    timing: {
+      maxDrift,
+      durationDelta: fixtureDuration(after) - fixtureDuration(before),
+    },
+  };
+}
+
+/**
+ * Compare two JSON values and list the differing paths
+ *
+ * Objects are compared key by key and arrays index by index; any other
+ * difference (including a change of value type) is reported at its path.
+ *
+ * @param before - First value
+ * @param after - Second value
+ * @param path - JSON path of the values (default: `$`)
+ * @returns Differences, in document order
+ *
+ * @example
+ * ```typescript
+ * diffJson({ data: { text: 'Hi' } }, { data: { text: 'Hello' } });
+ * // → [{ path: '$.data.text', kind: 'changed', before: 'Hi', after: 'Hello' }]
+ * ```
+ */
+export function diffJson(before: unknown, after: unknown, path: string = '$'): JsonChange[] {
+  if (Object.is(before, after)) {
+    return [];
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    return Array.from({ length }, (_, index) =>
+      diffMember(before, after, index, `${path}[${index}]`)
+    ).flat();
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys.flatMap((key) => diffMember(before, after, key, `${path}${formatPathKey(key)}`));
+  }
+
+  return [{ path, kind: 'changed', before, after }];
+}
+
+/**
+ * Diff one member (key or index) present in either container
+ */
+function diffMember(
+  before: Record<string, unknown> | unknown[],
+  after: Record<string, unknown> | unknown[],
+  key: string | number,
+  path: string
+): JsonChange[] {
+  const inBefore = Object.prototype.hasOwnProperty.call(before, key);
+  const inAfter = Object.prototype.hasOwnProperty.call(after, key);
+  const beforeValue = (before as Record<string, unknown>)[key];
+  const afterValue = (after as Record<string, unknown>)[key];
+
+  if (!inAfter || afterValue === undefined) {
+    return inBefore && beforeValue !== undefined
+      ? [{ path, kind: 'removed', before: beforeValue }]
+      : [];
+  }
+
+  if (!inBefore || beforeValue === undefined) {
+    return [{ path, kind: 'added', after: afterValue }];
+  }
+
+  return diffJson(beforeValue, afterValue, path);
+}
+
+/**
+ * Format an object key as a JSON path segment
+ */
+function formatPathKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * ID shown for an event in a diff
+ */
+function eventKeyId(event: StreamEvent, index: number): string {
+  return typeof event.id === 'string' && event.id !== '' ? event.id : `#${index}`;
+}
+
+/**
+ * Keys used to align events: the ID plus its occurrence number, or the
+ * position for events without an ID
+ */
+function alignmentKeys(events: StreamEvent[]): string[] {
+  const occurrences = new Map<string, number>();
+
+  return events.map((event, index) => {
+    if (typeof event.id !== 'string' || event.id === '') {
+      return `#${index}`;
+    }
+    const occurrence = occurrences.get(event.id) ?? 0;
+    occurrences.set(event.id, occurrence + 1);
+    return `${event.id}\u0000${occurrence}`;
+  });
+}
+
+/**
+ * Positions (in `values`) of a longest strictly increasing subsequence
+ */
+function longestIncreasingSubsequence(values: number[]): Set<number> {
+  // tails[k] = position of the smallest tail of an increasing run of length k + 1
+  const tails: number[] = [];
+  const previous: number[] = [];
+
+  values.forEach((value, position) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (values[tails[middle]] < value) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    previous[position] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = position;
+  });
+
+  const positions = new Set<number>();
+  for (
+    let position = tails[tails.length - 1] ?? -1;
+    position !== -1;
+    position = previous[position]
+  ) {
+    positions.add(position);
+  }
+  return positions;
+}
+
+/**
+ * Time between the first and last event of a fixture (ms)
+ */
+function fixtureDuration(fixture: Fixture): number {
+  const { events } = fixture;
+  return events.length === 0 ? 0 : events[events.length - 1].timestamp - events[0].timestamp;
+}
+
+// ============================================================================
+// Fixture Loaders
+// ============================================================================
+
+/**
+ * Epoch that fixtures without their own timestamps are placed on
+ * (matches the hand-written fixtures)
+ */
+export const FIXTURE_EPOCH = 1699564800000;
+
+/**
+ * Detect the format of fixture text
+ *
+ * The file extension or content type wins when it is conclusive; otherwise
+ * the content is inspected: SSE field lines mean a transcript, text that
+ * parses as one JSON value is a fixture file, anything else is NDJSON.
+ *
+ * @param text - Fixture text
+ * @param source - File name or URL the text came from
+ * @param contentType - HTTP content type, if loaded over the network
+ * @returns Detected format
+ */
+export function detectFixtureFormat(
+  text: string,
+  source?: string,
+  contentType?: string
+): FixtureFormat {
+  const extension = source
+    ?.split(/[?#]/)[0]
+    .match(/\.([a-z]+)$/i)?.[1]
+    .toLowerCase();
+  const mediaType = contentType?.split(';')[0].trim().toLowerCase();
+
+  if (extension === 'ndjson' || extension === 'jsonl' || mediaType === 'application/x-ndjson') {
+    return 'ndjson';
+  }
+
+  if (extension === 'sse' || mediaType === 'text/event-stream') {
+    return 'sse';
+  }
+
+  if (extension === 'json' || mediaType === 'application/json') {
+    return 'json';
+  }
+
+  const firstLine = text.split(/\r\n|\r|\n/).find((line) => line.trim() !== '') ?? '';
+
+  if (/^(data|event|id|retry)(:|$)|^:/.test(firstLine)) {
+    return 'sse';
+  }
+
+  try {
+    JSON.parse(text);
+    return 'json';
+  } catch {
+    return 'ndjson';
+  }
+}
+
+/**
+ * Parse and validate fixture text
+ *
+ * Supports JSON fixture files, NDJSON event logs and raw SSE transcripts.
+ * The parsed fixture is checked with validateFixture, and every error is
+ * reported with the line it refers to, so authors of hand-written fixture
+ * files can find the offending event.
+ *
+ * SSE transcripts are normalized while parsing: the event type and ID are
+ * taken from the `event:` and `id:` fields when the payload has none, events
+ * without a timestamp reuse the previous one (starting at FIXTURE_EPOCH),
+ * and `[DONE]` sentinels are skipped.
+ *
+ * @param text - Fixture text
+ * @param options - Format and metadata for formats that carry none
+ * @returns Parsed fixture with validation errors
+ *
+ * @example
+ * ```typescript
+ * const result = parseFixture(ndjson, { source: 'onboarding.ndjson', pattern: 'agent-await-prompt' });
+ * result.errors.forEach((error) => console.error(`line ${error.line}: ${error.message}`));
+ * ```
+ */
+export function parseFixture(text: string, options: ParseFixtureOptions = {}): FixtureLoadResult {
+  const format = options.format ?? detectFixtureFormat(text, options.source);
+
+  let parsed: ParsedFixtureText;
+
+  try {
+    parsed = PARSERS[format](text, options);
+  } catch (error) {
+    if (error instanceof FixtureSyntaxError) {
+      return {
+        format,
+        valid: false,
+        errors: [{ type: 'structural', message: error.message, line: error.line }],
+      };
+    }
+    throw error;
+  }
+
+  const { fixture, eventLines } = parsed;
+  const validation = validateFixture(fixture);
+  const errors = validation.errors.map((error) =>
+    typeof error.context === 'number' && eventLines[error.context] !== undefined
+      ? { ...error, line: eventLines[error.context] }
+      : error
+  );
+
+  return { format, fixture, valid: validation.valid, errors };
+}
+
+/**
+ * Parse fixture text, throwing if it is invalid
+ *
+ * @param text - Fixture text
+ * @param options - Format and metadata for formats that carry none
+ * @returns Valid fixture, ready for registerFixture
+ * @throws Error listing every problem with its line number
+ *
+ * @example
+ * ```typescript
+ * registerFixture(loadFixture(readFileSync('fixtures/sprint.json', 'utf8'), { source: 'sprint.json' }));
+ * ```
+ */
+export function loadFixture(text: string, options: ParseFixtureOptions = {}): Fixture {
+  const result = parseFixture(text, options);
+
+  if (!result.valid || !result.fixture) {
+    throw new Error(
+      `Cannot load fixture from ${options.source ?? `${result.format} text`}: ${formatLoadErrors(result.errors)}`
+    );
+  }
+
+  return result.fixture;
+}
+
+/**
+ * Fetch and parse a fixture
+ *
+ * The format is detected from the URL extension or the response content
+ * type unless given explicitly.
+ *
+ * @param url - Fixture URL
+ * @param options - Request, format and metadata options
+ * @returns Valid fixture, ready for registerFixture
+ * @throws Error if the request fails or the fixture is invalid
+ *
+ * @example
+ * ```typescript
+ * registerFixture(await loadFixtureFromUrl('/fixtures/sprint-planning.ndjson', { pattern: 'chain-of-reasoning' }));
+ * ```
+ */
+export async function loadFixtureFromUrl(
+  url: string,
+  options: LoadFixtureFromUrlOptions = {}
+): Promise<Fixture> {
+  const { headers, fetch: fetchImpl = globalThis.fetch, ...parseOptions } = options;
+  const response = await fetchImpl(url, { headers });
+
+  if (!response.ok) {
+    throw new Error(`Cannot load fixture from ${url}: HTTP ${response.status}`);
+  }
+
+  const text = await response.text();
+
+  return loadFixture(text, {
+    ...parseOptions,
+    source: parseOptions.source ?? url,
+    format:
+      parseOptions.format ??
+      detectFixtureFormat(text, url, response.headers.get('content-type') ?? undefined),
+  });
+}
+
+/**
+ * Read and parse a fixture file chosen by the user (e.g. from a file input)
+ *
+ * @param file - File to read
+ * @param options - Format and metadata options
+ * @returns Valid fixture, ready for registerFixture
+ * @throws Error if the fixture is invalid
+ */
+export async function loadFixtureFromFile(
+  file: { name: string; text(): Promise<string> },
+  options: ParseFixtureOptions = {}
+): Promise<Fixture> {
+  return loadFixture(await file.text(), { ...options, source: options.source ?? file.name });
+}
+
+/**
+ * Format loader errors as one message
+ *
+ * @param errors - Errors from parseFixture
+ * @returns Errors prefixed with their line and joined with '; '
+ */
+export function formatLoadErrors(errors: FixtureValidationError[]): string {
+  return errors
+    .map((error) => {
+      const details = error.eventValidation?.errors.map((e) => e.reason).join(', ');
+      const message = details ? `${error.message}: ${details}` : error.message;
+      return error.line === undefined ? message : `line ${error.line}: ${message}`;
+    })
+    .join('; ');
+}
+
+/**
+ * A parsed fixture with the line each event starts on
+ */
+interface ParsedFixtureText {
+  fixture: Fixture;
+  eventLines: number[];
+}
+
+/**
+ * Error for text that cannot be parsed at all
+ */
+class FixtureSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly line?: number
+  ) {
+    super(message);
+    this.name = 'FixtureSyntaxError';
+  }
+}
+
+const PARSERS: Record<
+  FixtureFormat,
+  (text: string, options: ParseFixtureOptions) => ParsedFixtureText
+> = {
+  json: parseJsonFixture,
+  ndjson: parseNdjsonFixture,
+  sse: parseSseTranscript,
+};
+
+/**
+ * Parse a JSON fixture file or a bare array of events
+ */
+function parseJsonFixture(text: string, options: ParseFixtureOptions): ParsedFixtureText {
+  let value: unknown;
+
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new FixtureSyntaxError(
+      `Invalid JSON: ${(error as Error).message}`,
+      jsonErrorLine(text, error as Error)
+    );
+  }
+
+  const eventLines = locateJsonEvents(text);
+
+  if (Array.isArray(value)) {
+    return { fixture: fixtureFromOptions(value as StreamEvent[], options), eventLines };
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    throw new FixtureSyntaxError('Fixture JSON must be an object or an array of events', 1);
+  }
+
+  return { fixture: value as Fixture, eventLines };
+}
+
+/**
+ * Parse an NDJSON event log (blank lines are ignored)
+ */
+function parseNdjsonFixture(text: string, options: ParseFixtureOptions): ParsedFixtureText {
+  const events: StreamEvent[] = [];
+  const eventLines: number[] = [];
+
+  text.split(/\r\n|\r|\n/).forEach((content, index) => {
+    if (content.trim() === '') {
+      return;
+    }
+
+    try {
+      events.push(JSON.parse(content) as StreamEvent);
+    } catch (error) {
+      throw new FixtureSyntaxError(`Invalid JSON: ${(error as Error).message}`, index + 1);
+    }
+    eventLines.push(index + 1);
+  });
+
+  return { fixture: fixtureFromOptions(events, options), eventLines };
+}
+
+/**
+ * Parse a raw SSE transcript
+ */
+function parseSseTranscript(text: string, options: ParseFixtureOptions): ParsedFixtureText {
+  const parser = new SSEParser();
+  const events: StreamEvent[] = [];
+  const eventLines: number[] = [];
+  const fixtureId = fixtureIdFromOptions(options);
+  let blockStart: number | undefined;
+  let blockHasId = false;
+  let timestamp = FIXTURE_EPOCH;
+
+  const addMessage = (message: SSEMessage, line: number): void => {
+    if (message.data.trim() === '[DONE]') {
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(message.data);
+    } catch (error) {
+      throw new FixtureSyntaxError(`Invalid JSON in data: ${(error as Error).message}`, line);
+    }
+
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+      throw new FixtureSyntaxError('SSE data must be a JSON object', line);
+    }
+
+    const event = { ...(payload as Record<string, unknown>) };
+    if (event.type === undefined && message.event !== 'message') {
+      event.type = message.event;
+    }
+    if (event.id === undefined) {
+      event.id = blockHasId && message.id ? message.id : `${fixtureId}-${events.length + 1}`;
+    }
+    if (event.timestamp === undefined) {
+      event.timestamp = timestamp;
+    } else if (typeof event.timestamp === 'number') {
+      timestamp = event.timestamp;
+    }
+
+    events.push(event as unknown as StreamEvent);
+    eventLines.push(line);
+  };
+
+  // A transcript ends the last message even without a trailing blank line
+  [...text.split(/\r\n|\r|\n/), ''].forEach((content, index) => {
+    if (content !== '' && !content.startsWith(':') && blockStart === undefined) {
+      blockStart = index + 1;
+    }
+    if (/^id(:|$)/.test(content)) {
+      blockHasId = true;
+    }
+
+    for (const message of parser.feed(`${content}\n`)) {
+      addMessage(message, blockStart ?? index + 1);
+    }
+
+    if (content === '') {
+      blockStart = undefined;
+      blockHasId = false;
+    }
+  });
+
+  return { fixture: fixtureFromOptions(events, options), eventLines };
+}
+
+/**
+ * Build a fixture around events using metadata from the loader options
+ */
+function fixtureFromOptions(events: StreamEvent[], options: ParseFixtureOptions): Fixture {
+  const { name, pattern, description, tags, author, version } = options;
+  return createFixture(fixtureIdFromOptions(options), events, {
+    name,
+    pattern,
+    description,
+    tags,
+    author,
+    version,
+  });
+}
+
+/**
+ * Fixture ID from the options, falling back to the source file name
+ */
+function fixtureIdFromOptions(options: ParseFixtureOptions): string {
+  const fileName = options.source
+    ?.split(/[?#]/)[0]
+    .split('/')
+    .pop()
+    ?.replace(/\.[^.]*$/, '');
+  return options.id ?? (fileName || 'loaded-fixture');
+}
+
+/**
+ * Line a JSON.parse error refers to, if the engine reports its position
+ */
+function jsonErrorLine(text: string, error: Error): number | undefined {
+  const line = error.message.match(/line (\d+)/);
+  if (line) {
+    return Number(line[1]);
+  }
+
+  const position = error.message.match(/position (\d+)/);
+  return position ? text.slice(0, Number(position[1])).split('\n').length : undefined;
+}
+
+/**
+ * Find the line each event object starts on in JSON fixture text
+ *
+ * Scans for the top-level `"events"` array (or a top-level array of events),
+ * skipping over string contents so braces inside strings are not counted.
+ *
+ * @param text - Valid JSON text
+ * @returns Line number per event, in order
+ */
+function locateJsonEvents(text: string): number[] {
+  const lines: number[] = [];
+  let line = 1;
+  let depth = 0;
+  let eventsDepth = -1;
+  let inString = false;
+  let escaped = false;
+  let stringStart = 0;
+  let lastString = '';
+  let key: string | undefined;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '\n') {
+      line++;
+    }
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+        lastString = text.slice(stringStart, i);
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '"':
+        inString = true;
+        stringStart = i + 1;
+        break;
+      case ':':
+        key = lastString;
+        break;
+      case '[':
+        depth++;
+        if (depth === 1 || (depth === 2 && key === 'events')) {
+          eventsDepth = depth;
+        }
+        key = undefined;
+        break;
+      case '{':
+        depth++;
+        if (eventsDepth !== -1 && depth === eventsDepth + 1) {
+          lines.push(line);
+        }
+        key = undefined;
+        break;
+      case ']':
+        if (depth === eventsDepth) {
+          eventsDepth = -1;
+        }
+        depth--;
+        break;
+      case '}':
+        depth--;
+        break;
+      case ',':
+        key = undefined;
+        break;
+    }
+  }
+
+  return lines;
+}
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
 
+/**
+ * Upcast a fixture to the current event schema version
+ *
+ * Applies the registered upcasters (see eventSchema.ts) to every event of a
+ * fixture recorded against an older schema version. Current fixtures are
+ * returned unchanged.
+ *
+ * @param fixture - Fixture as recorded
+ * @returns Fixture whose events have the current shape
+ * @throws Error naming the targeted version if the fixture cannot be upcast
+ *
+ * @example
+ * ```typescript
+ * const current = upcastFixture(JSON.parse(recordedJson) as Fixture);
+ * // current.metadata.version === formatSchemaVersion()
+ * ```
+ */
+export function upcastFixture(fixture: Fixture): Fixture {
+  const schemaVersion = parseSchemaVersion(fixture.metadata.version);
+
+  if (schemaVersion === EVENT_SCHEMA_VERSION) {
+    return fixture;
+  }
+
+  if (schemaVersion > EVENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Fixture "${fixture.metadata.id}" targets event schema v${schemaVersion}, newer than the supported v${EVENT_SCHEMA_VERSION}`
+    );
+  }
+
+  try {
+    return {
+      ...fixture,
+      metadata: { ...fixture.metadata, version: formatSchemaVersion() },
+      events: upcastEvents(fixture.events, schemaVersion) as unknown as StreamEvent[],
+    };
+  } catch (error) {
+    throw new Error(
+      `Fixture "${fixture.metadata.id}" targets event schema v${schemaVersion}: ${(error as Error).message}`
+    );
+  }
+}
+
 /**
  * Deep clone a fixture
  *
@@ -549,7 +1580,7 @@ export function createFixture(
       eventCount: events.length,
       tags: options.tags ?? [],
       author: options.author,
-      version: options.version ?? '1.0',
+      version: options.version ?? formatSchemaVersion(),
     },
     events,
   };
@@ -0,0 +1,446 @@
+/**
+ * Tests for branching fixture scripts
+ *
+ * @module lib/streaming/fixtureScript.test
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { CheckpointAction, StreamEvent } from '@/types/events';
+import {
+  checkFixtureScript,
+  compileFixtureScript,
+  hasValuePlaceholders,
+  runFixtureScript,
+  toStreamScript,
+  type ScriptStep,
+} from './fixtureScript';
+import { createFixture, type Fixture } from './fixtureRepository';
+import { InboundChannel } from './inboundChannel';
+import { StreamCursor } from './streamCursor';
+import { ScriptTransport } from './transport';
+import { StreamSession } from './streamSession';
+import { systemClock } from '@/lib/utils/clock';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function answer(id: string, text: string): StreamEvent {
+  return { id, type: 'answer', timestamp: 1699564800000, data: { text, isFinal: false } };
+}
+
+function checkpointResponse(action: CheckpointAction, checkpointId = 'cp-1'): StreamEvent {
+  return {
+    id: `response-${action}`,
+    type: 'checkpoint_response',
+    timestamp: 1699564801000,
+    data: { checkpointId, action },
+  };
+}
+
+function scripted(events: StreamEvent[], script: ScriptStep[]): Fixture {
+  return { ...createFixture('scripted', events, { pattern: 'validation-loop' }), script };
+}
+
+async function run(fixture: Fixture, channel: InboundChannel = new InboundChannel()) {
+  const texts: string[] = [];
+  const ids: string[] = [];
+  for await (const event of runFixtureScript(fixture, {
+    waitFor: channel.waitFor.bind(channel),
+    clock: systemClock,
+  })) {
+    ids.push(event.id);
+    if (event.type === 'answer') {
+      texts.push(event.data.text);
+    }
+  }
+  return { texts, ids };
+}
+
+const library = [
+  answer('intro', 'Proposed budget'),
+  answer('approved', 'Budget approved'),
+  answer('edited', 'Budget updated'),
+  answer('skipped', 'Checkpoint skipped'),
+  answer('outro', 'Done'),
+];
+
+const checkpointScript: ScriptStep[] = [
+  { emit: 'intro' },
+  {
+    wait: {
+      type: 'checkpoint_response',
+      as: 'response',
+      cases: [
+        { when: { 'data.action': 'approve' }, steps: [{ emit: 'approved' }] },
+        { when: { 'data.action': 'edit' }, steps: [{ emit: 'edited' }] },
+      ],
+      otherwise: [{ emit: 'skipped' }],
+    },
+  },
+  { emit: 'outro' },
+];
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('compileFixtureScript', () => {
+  it('should compile branches to jumps addressable with StreamCursor', () => {
+    const instructions = compileFixtureScript(checkpointScript);
+    const cursor = new StreamCursor(instructions);
+
+    expect(instructions.map((instruction) => instruction.op)).toEqual([
+      'emit',
+      'wait',
+      'emit',
+      'jump',
+      'emit',
+      'jump',
+      'emit',
+      'emit',
+    ]);
+    expect(cursor.indexOf('script[1].wait.cases[1].steps[0]')).toBe(4);
+    expect(instructions[3]).toMatchObject({ op: 'jump', target: 7 });
+    expect(instructions[1]).toMatchObject({
+      cases: [{ target: 2 }, { target: 4 }],
+      otherwise: 6,
+    });
+  });
+
+  it('should reject invalid steps with their path', () => {
+    expect(() =>
+      compileFixtureScript([{ loop: { steps: [{ emit: 'a' }, { bogus: 1 } as never] } }])
+    ).toThrow('Invalid script step at script[0].loop.steps[1]');
+  });
+});
+
+describe('runFixtureScript', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should emit events in order when the fixture has no script', async () => {
+    const { ids } = await run(createFixture('linear', library.slice(0, 2), {}));
+    expect(ids).toEqual(['intro', 'approved']);
+  });
+
+  it.each([
+    ['approve', 'Budget approved'],
+    ['edit', 'Budget updated'],
+    ['skip', 'Checkpoint skipped'],
+  ] as const)('should branch on a %s response', async (action, expected) => {
+    const channel = new InboundChannel();
+    channel.send(checkpointResponse(action));
+
+    const { texts } = await run(scripted(library, checkpointScript), channel);
+
+    expect(texts).toEqual(['Proposed budget', expected, 'Done']);
+  });
+
+  it('should only accept inbound events matching the wait condition', async () => {
+    const channel = new InboundChannel();
+    channel.send(checkpointResponse('approve', 'other-checkpoint'));
+    channel.send(checkpointResponse('edit', 'cp-1'));
+
+    const fixture = scripted(library, [
+      {
+        wait: {
+          type: 'checkpoint_response',
+          match: { 'data.checkpointId': 'cp-1' },
+          cases: [{ when: { 'data.action': 'edit' }, steps: [{ emit: 'edited' }] }],
+        },
+      },
+    ]);
+
+    expect((await run(fixture, channel)).texts).toEqual(['Budget updated']);
+  });
+
+  it('should branch on variables and interpolate them into events', async () => {
+    const channel = new InboundChannel();
+    channel.send({
+      id: 'submit-1',
+      type: 'input_submission',
+      timestamp: 1699564801000,
+      data: { requestId: 'name', value: 'Ada', submittedAt: 1699564801000 },
+    });
+
+    const fixture = scripted(
+      [answer('greeting', 'Hello, {{name.data.value}}!'), answer('stranger', 'Hello?')],
+      [
+        { wait: { type: 'input_submission', as: 'name' } },
+        {
+          branch: {
+            cases: [
+              { when: { 'name.data.value': { oneOf: ['', null] } }, steps: [{ emit: 'stranger' }] },
+            ],
+            otherwise: [{ emit: 'greeting' }],
+          },
+        },
+      ]
+    );
+
+    const { texts, ids } = await run(fixture, channel);
+    expect(texts).toEqual(['Hello, Ada!']);
+    expect(ids).toEqual(['greeting']);
+  });
+
+  it('should emit raw values for whole placeholders, stamped when emitted', async () => {
+    const channel = new InboundChannel();
+    const editedValue = {
+      team: 'Frontend',
+      budget: 275000,
+      headcount: 4,
+      contractors: 1,
+      rationale: 'Edited',
+    };
+    channel.send({
+      id: 'response-edit',
+      type: 'checkpoint_response',
+      timestamp: 1699564801000,
+      data: { checkpointId: 'cp-1', action: 'edit', editedValue },
+    });
+
+    const resume = {
+      id: 'resume',
+      type: 'checkpoint_resume',
+      timestamp: 0,
+      data: { checkpointId: 'cp-1', approvedValue: '{{response.data.editedValue}}' },
+    } as unknown as StreamEvent;
+    const fixture = scripted(
+      [resume],
+      [{ wait: { type: 'checkpoint_response', as: 'response' } }, { emit: 'resume' }]
+    );
+
+    const before = Date.now();
+    const events: StreamEvent[] = [];
+    const context = { waitFor: channel.waitFor.bind(channel), clock: systemClock };
+    for await (const event of runFixtureScript(fixture, context)) {
+      events.push(event);
+    }
+
+    expect(hasValuePlaceholders(resume)).toBe(true);
+    expect(hasValuePlaceholders(answer('greeting', 'Hello, {{name.data.value}}!'))).toBe(false);
+    expect(events).toEqual([
+      expect.objectContaining({ data: { checkpointId: 'cp-1', approvedValue: editedValue } }),
+    ]);
+    expect(events[0].timestamp).toBeGreaterThanOrEqual(before);
+  });
+
+  it('should loop until a condition holds, suffixing repeated event IDs', async () => {
+    const channel = new InboundChannel();
+    channel.send(checkpointResponse('edit'));
+    channel.send(checkpointResponse('edit'));
+    channel.send(checkpointResponse('approve'));
+
+    const fixture = scripted(library, [
+      {
+        loop: {
+          steps: [{ emit: 'intro' }, { wait: { type: 'checkpoint_response', as: 'response' } }],
+          until: { 'response.data.action': 'approve' },
+        },
+      },
+      { emit: 'approved' },
+    ]);
+
+    const { ids } = await run(fixture, channel);
+    expect(ids).toEqual(['intro', 'intro-2', 'intro-3', 'approved']);
+  });
+
+  it('should stop loops after a fixed number of passes', async () => {
+    const fixture = scripted(library, [{ loop: { times: 2, steps: [{ emit: 'intro' }] } }]);
+    expect((await run(fixture)).ids).toEqual(['intro', 'intro-2']);
+  });
+
+  it('should stop at an end step', async () => {
+    const fixture = scripted(library, [{ emit: 'intro' }, { end: true }, { emit: 'outro' }]);
+    expect((await run(fixture)).ids).toEqual(['intro']);
+  });
+
+  it('should run the timeout branch when a wait times out', async () => {
+    vi.useFakeTimers();
+    const fixture = scripted(library, [
+      {
+        wait: {
+          type: 'checkpoint_response',
+          timeoutMs: 5000,
+          otherwise: [{ emit: 'approved' }],
+          onTimeout: [{ emit: 'skipped' }],
+        },
+      },
+      { emit: 'outro' },
+    ]);
+
+    const result = run(fixture);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect((await result).texts).toEqual(['Checkpoint skipped', 'Done']);
+  });
+
+  it('should fail when a wait without onTimeout times out', async () => {
+    vi.useFakeTimers();
+    const fixture = scripted(library, [{ wait: { type: 'checkpoint_response', timeoutMs: 1000 } }]);
+
+    const result = run(fixture);
+    const assertion = expect(result).rejects.toThrow('Timed out after 1000ms');
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertion;
+  });
+
+  it('should fail when the script emits an unknown event', async () => {
+    const fixture = scripted(library, [{ emit: 'missing' }]);
+    await expect(run(fixture)).rejects.toThrow(
+      'Script step script[0] emits unknown event "missing"'
+    );
+  });
+
+  it('should drive a StreamSession through ScriptTransport', async () => {
+    const session = new StreamSession({
+      sessionId: 'scripted-session',
+      transport: new ScriptTransport(toStreamScript(scripted(library, checkpointScript))),
+    });
+    const received: string[] = [];
+
+    const consume = (async () => {
+      for await (const event of session.stream()) {
+        received.push(event.id);
+        if (event.id === 'intro') {
+          session.send(checkpointResponse('edit'));
+        }
+      }
+    })();
+    await consume;
+
+    expect(received).toEqual(['intro', 'edited', 'outro']);
+  });
+});
+
+describe('checkFixtureScript', () => {
+  const messages = (fixture: Fixture) => checkFixtureScript(fixture).map((issue) => issue.message);
+
+  it('should accept a sound script and fixtures without a script', () => {
+    expect(checkFixtureScript(scripted(library, checkpointScript))).toEqual([]);
+    expect(checkFixtureScript(createFixture('linear', library, {}))).toEqual([]);
+  });
+
+  it('should report unknown and never-emitted events', () => {
+    const issues = checkFixtureScript(
+      scripted(library.slice(0, 2), [{ emit: 'intro' }, { emit: 'missing' }])
+    );
+
+    expect(issues).toEqual([
+      { path: 'script[1]', message: 'Step script[1] emits unknown event "missing"' },
+      { path: 'events[1]', message: 'Event "approved" is never emitted by the script' },
+    ]);
+  });
+
+  it('should report steps after an end step', () => {
+    expect(
+      messages(
+        scripted(library.slice(0, 2), [{ emit: 'intro' }, { end: true }, { emit: 'approved' }])
+      )
+    ).toEqual(['Step script[2] is unreachable: it follows an end step']);
+  });
+
+  it('should report otherwise blocks when cases cover every checkpoint action', () => {
+    const fixture = scripted(library, [
+      { emit: 'intro' },
+      {
+        wait: {
+          type: 'checkpoint_response',
+          cases: [
+            {
+              when: { 'data.action': { oneOf: ['approve', 'skip'] } },
+              steps: [{ emit: 'approved' }],
+            },
+            { when: { 'data.action': 'edit' }, steps: [{ emit: 'edited' }] },
+          ],
+          otherwise: [{ emit: 'skipped' }],
+        },
+      },
+      { emit: 'outro' },
+    ]);
+
+    expect(checkFixtureScript(fixture)).toEqual([
+      {
+        path: 'script[1].wait.otherwise',
+        message:
+          'Otherwise block script[1].wait.otherwise is unreachable: the cases cover every value',
+      },
+    ]);
+  });
+
+  it('should report shadowed cases and values outside a known domain', () => {
+    const fixture = scripted(library, [
+      { emit: 'intro' },
+      {
+        wait: {
+          type: 'checkpoint_response',
+          as: 'response',
+          cases: [
+            { when: { 'data.action': 'approve' }, steps: [{ emit: 'approved' }] },
+            {
+              when: { 'data.action': 'approve', 'data.checkpointId': 'cp-1' },
+              steps: [{ emit: 'edited' }],
+            },
+            { when: { 'data.action': 'reject' }, steps: [{ emit: 'skipped' }] },
+          ],
+        },
+      },
+      {
+        branch: {
+          cases: [{ when: {}, steps: [{ emit: 'outro' }] }],
+          otherwise: [{ emit: 'outro' }],
+        },
+      },
+    ]);
+
+    expect(messages(fixture)).toEqual([
+      'Case script[1].wait.cases[1] is unreachable: earlier cases match everything it matches',
+      'Case script[1].wait.cases[2] can never match: "data.action" is one of approve, edit, skip',
+      'Otherwise block script[2].branch.otherwise is unreachable: the cases cover every value',
+    ]);
+  });
+
+  it('should use the bound event type to check branches on variables', () => {
+    const fixture = scripted(library, [
+      { wait: { type: 'checkpoint_response', as: 'response' } },
+      {
+        branch: {
+          cases: [
+            { when: { 'response.data.action': 'approve' }, steps: [{ emit: 'approved' }] },
+            { when: { 'response.data.action': 'edit' }, steps: [{ emit: 'edited' }] },
+            { when: { 'response.data.action': 'skip' }, steps: [{ emit: 'skipped' }] },
+          ],
+          otherwise: [{ emit: 'intro' }, { emit: 'outro' }],
+        },
+      },
+    ]);
+
+    expect(messages(fixture)).toEqual([
+      'Otherwise block script[1].branch.otherwise is unreachable: the cases cover every value',
+    ]);
+  });
+
+  it('should report timeouts without timeoutMs, empty loops and unbound variables', () => {
+    const fixture = scripted(
+      [answer('intro', 'Hi {{user.data.value}}'), answer('late', 'Too late')],
+      [
+        { wait: { type: 'input_submission', onTimeout: [{ emit: 'late' }] } },
+        { loop: { times: 0, steps: [{ emit: 'intro' }] } },
+      ]
+    );
+
+    expect(messages(fixture)).toEqual([
+      'Timeout block script[0].wait.onTimeout is unreachable: the wait has no timeoutMs',
+      'Loop body script[1].loop.steps is unreachable: times is 0',
+      'Event "intro" uses undefined variable "user"',
+    ]);
+  });
+
+  it('should report malformed scripts', () => {
+    expect(messages(scripted(library, [{ wait: {} } as never]))).toEqual([
+      'Invalid script step at script[0]: expected emit, wait, branch, loop or end',
+    ]);
+  });
+});
@@ -0,0 +1,871 @@
+/**
+ * Fixture Scripts - Branching, interactive fixtures
+ *
+ * A plain fixture is a fixed list of events, so an await-prompt or
+ * validation-loop demo can only ever show one continuation. A scripted
+ * fixture adds a `script` that decides which of its events to emit:
+ * - `emit` an event from the fixture's event library (by ID)
+ * - `wait` for an inbound event (e.g. `checkpoint_response`), with an
+ *   optional timeout, and branch on what was received
+ * - `branch` on a variable bound by an earlier wait
+ * - `loop` a block a fixed number of times or until a condition holds
+ * - `end` the stream early
+ *
+ * String fields of emitted events may interpolate received events with
+ * `{{name.path}}` (e.g. `{{answer.data.value}}`), where `name` is the `as`
+ * of a wait step. A field that is exactly one placeholder takes the raw
+ * value, so an event can carry a submitted object (e.g. an edited value).
+ * Emitted events are stamped with the time they are emitted.
+ *
+ * Scripts compile to a flat instruction list walked with a StreamCursor;
+ * `toStreamScript()` runs it on a ScriptTransport. `checkFixtureScript()`
+ * statically finds unreachable branches and is part of `validateFixture()`.
+ *
+ * @module lib/streaming/fixtureScript
+ */
+
+import type { CheckpointAction, EventType, StreamEvent } from '@/types/events';
+import type { Fixture } from './fixtureRepository';
+import { InboundTimeoutError } from './inboundChannel';
+import { StreamCursor } from './streamCursor';
+import type { ScriptContext, StreamScript } from './transport';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A literal value a condition compares against
+ */
+export type ScriptLiteral = string | number | boolean | null;
+
+/**
+ * Matches a value: a literal (strict equality) or one of several literals
+ */
+export type ScriptMatcher = ScriptLiteral | { oneOf: ScriptLiteral[] };
+
+/**
+ * Condition on an object: every dotted path must match
+ *
+ * Paths are relative to the received event in `wait` cases and `match`
+ * (e.g. `'data.action'`), and to the script variables in `branch` cases and
+ * loop `until` (e.g. `'answer.data.action'`). An empty condition matches
+ * everything.
+ */
+export type ScriptCondition = Record<string, ScriptMatcher>;
+
+/**
+ * A conditional block: the first case whose condition matches runs
+ */
+export interface ScriptCase {
+  /** Condition selecting this case */
+  when: ScriptCondition;
+
+  /** Steps to run */
+  steps: ScriptStep[];
+}
+
+/**
+ * Wait for an inbound event, then optionally branch on it
+ */
+export interface WaitStep {
+  /** Inbound event type to wait for */
+  type: EventType;
+
+  /** Variable name the received event is bound to */
+  as?: string;
+
+  /** Only accept events matching this condition */
+  match?: ScriptCondition;
+
+  /** Give up after this long (default: wait indefinitely) */
+  timeoutMs?: number;
+
+  /** Branches on the received event */
+  cases?: ScriptCase[];
+
+  /** Steps when no case matches */
+  otherwise?: ScriptStep[];
+
+  /** Steps when the wait times out (the stream fails without them) */
+  onTimeout?: ScriptStep[];
+}
+
+/**
+ * Branch on script variables
+ */
+export interface BranchStep {
+  /** Branches, tried in order */
+  cases: ScriptCase[];
+
+  /** Steps when no case matches */
+  otherwise?: ScriptStep[];
+}
+
+/**
+ * Repeat a block of steps
+ *
+ * The body runs at least once; after each pass the loop stops when `times`
+ * passes have run, `until` matches the variables, or `maxIterations` is hit.
+ */
+export interface LoopStep {
+  /** Steps to repeat */
+  steps: ScriptStep[];
+
+  /** Exact number of passes */
+  times?: number;
+
+  /** Stop once the variables match this condition */
+  until?: ScriptCondition;
+
+  /** Upper bound on passes (default: 10) */
+  maxIterations?: number;
+}
+
+/**
+ * One step of a fixture script
+ */
+export type ScriptStep =
+  | { emit: string }
+  | { wait: WaitStep }
+  | { branch: BranchStep }
+  | { loop: LoopStep }
+  | { end: true };
+
+/**
+ * A compiled case: condition and the instruction index it jumps to
+ */
+export interface CompiledCase {
+  when: ScriptCondition;
+  target: number;
+}
+
+/**
+ * A compiled script instruction
+ *
+ * IDs are the path of the step they came from (e.g.
+ * `script[1].wait.cases[0].steps[0]`), so a StreamCursor can locate them.
+ */
+export type ScriptInstruction =
+  | { id: string; op: 'emit'; eventId: string }
+  | {
+      id: string;
+      op: 'wait';
+      type: EventType;
+      as?: string;
+      match?: ScriptCondition;
+      timeoutMs?: number;
+      cases: CompiledCase[];
+      otherwise: number;
+      onTimeout?: number;
+    }
+  | { id: string; op: 'branch'; cases: CompiledCase[]; otherwise: number }
+  | { id: string; op: 'jump'; target: number }
+  | { id: string; op: 'loop' }
+  | {
+      id: string;
+      op: 'repeat';
+      loop: string;
+      body: number;
+      times?: number;
+      until?: ScriptCondition;
+      maxIterations: number;
+    }
+  | { id: string; op: 'end' };
+
+/**
+ * A problem found by static analysis of a script
+ */
+export interface ScriptIssue {
+  /** Step path (e.g. `script[2].wait.otherwise`) or event path (`events[3]`) */
+  path: string;
+
+  /** Description of the problem */
+  message: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Default upper bound on loop passes */
+const DEFAULT_MAX_ITERATIONS = 10;
+
+/** Checkpoint actions, for reachability analysis of `checkpoint_response` branches */
+const CHECKPOINT_ACTIONS: CheckpointAction[] = ['approve', 'edit', 'skip'];
+
+/**
+ * Closed value sets of inbound event fields
+ * Cases on these fields can cover every value, making `otherwise` unreachable.
+ */
+const FIELD_DOMAINS: Partial<Record<EventType, Record<string, readonly ScriptLiteral[]>>> = {
+  checkpoint_response: { 'data.action': CHECKPOINT_ACTIONS },
+};
+
+/** Interpolation placeholder: `{{name.path}}` */
+const PLACEHOLDER = /\{\{\s*([\w$-]+(?:\.[\w$-]+)*)\s*\}\}/g;
+
+/** A value that is exactly one placeholder (takes the variable's raw value) */
+const WHOLE_PLACEHOLDER = /^\{\{\s*([\w$-]+(?:\.[\w$-]+)*)\s*\}\}$/;
+
+/** Fields of an event that are never interpolated */
+const RESERVED_FIELDS = new Set(['id', 'type', 'timestamp']);
+
+/** Largest number of value combinations the reachability check enumerates */
+const MAX_COMBINATIONS = 4096;
+
+// ============================================================================
+// Compilation
+// ============================================================================
+
+/**
+ * Compile script steps into a flat instruction list
+ *
+ * Branches become conditional jumps and loops become a back-edge, so the
+ * result can be walked front to back with a StreamCursor.
+ *
+ * @param steps - Script steps
+ * @returns Instructions; jump targets are instruction indices
+ * @throws Error if a step is not a valid script step
+ *
+ * @example
+ * ```typescript
+ * const instructions = compileFixtureScript([
+ *   { emit: 'checkpoint-1' },
+ *   { wait: { type: 'checkpoint_response', cases: [...], otherwise: [...] } },
+ * ]);
+ * const cursor = new StreamCursor(instructions);
+ * ```
+ */
+export function compileFixtureScript(steps: ScriptStep[]): ScriptInstruction[] {
+  const instructions: ScriptInstruction[] = [];
+  compileBlock(steps, 'script', instructions);
+  return instructions;
+}
+
+function compileBlock(steps: ScriptStep[], path: string, out: ScriptInstruction[]): void {
+  if (!Array.isArray(steps)) {
+    throw new Error(`Invalid script block at ${path}: expected an array of steps`);
+  }
+
+  steps.forEach((step, index) => compileStep(step, `${path}[${index}]`, out));
+}
+
+function compileStep(step: ScriptStep, path: string, out: ScriptInstruction[]): void {
+  switch (stepKind(step, path)) {
+    case 'emit':
+      out.push({ id: path, op: 'emit', eventId: (step as { emit: string }).emit });
+      return;
+
+    case 'end':
+      out.push({ id: path, op: 'end' });
+      return;
+
+    case 'loop': {
+      const { steps, times, until, maxIterations } = (step as { loop: LoopStep }).loop;
+      out.push({ id: path, op: 'loop' });
+      const body = out.length;
+      compileBlock(steps, `${path}.loop.steps`, out);
+      out.push({
+        id: `${path}.repeat`,
+        op: 'repeat',
+        loop: path,
+        body,
+        times,
+        until,
+        maxIterations: maxIterations ?? DEFAULT_MAX_ITERATIONS,
+      });
+      return;
+    }
+
+    case 'wait': {
+      const { type, as, match, timeoutMs, cases, otherwise, onTimeout } = (
+        step as { wait: WaitStep }
+      ).wait;
+      const instruction: Extract<ScriptInstruction, { op: 'wait' }> = {
+        id: path,
+        op: 'wait',
+        type,
+        as,
+        match,
+        timeoutMs,
+        cases: [],
+        otherwise: -1,
+      };
+      out.push(instruction);
+      compileChoice(instruction, `${path}.wait`, cases ?? [], otherwise, out, (jumpsToEnd) => {
+        if (onTimeout) {
+          jumpsToEnd.push(pushJump(`${path}.wait.otherwise.jump`, out));
+          instruction.onTimeout = out.length;
+          compileBlock(onTimeout, `${path}.wait.onTimeout`, out);
+        }
+      });
+      return;
+    }
+
+    case 'branch': {
+      const { cases, otherwise } = (step as { branch: BranchStep }).branch;
+      const instruction: Extract<ScriptInstruction, { op: 'branch' }> = {
+        id: path,
+        op: 'branch',
+        cases: [],
+        otherwise: -1,
+      };
+      out.push(instruction);
+      compileChoice(instruction, `${path}.branch`, cases, otherwise, out);
+      return;
+    }
+  }
+}
+
+/**
+ * Lay out the cases and otherwise block of a wait or branch
+ *
+ * Each case ends with a jump past the whole construct; `otherwise` falls
+ * through to it.
+ */
+function compileChoice(
+  instruction: { cases: CompiledCase[]; otherwise: number },
+  path: string,
+  cases: ScriptCase[],
+  otherwise: ScriptStep[] | undefined,
+  out: ScriptInstruction[],
+  appendBlocks?: (jumpsToEnd: Array<{ target: number }>) => void
+): void {
+  const jumpsToEnd: Array<{ target: number }> = [];
+
+  if (!Array.isArray(cases)) {
+    throw new Error(`Invalid script block at ${path}.cases: expected an array of cases`);
+  }
+
+  cases.forEach((scriptCase, index) => {
+    instruction.cases.push({ when: scriptCase.when ?? {}, target: out.length });
+    compileBlock(scriptCase.steps, `${path}.cases[${index}].steps`, out);
+    jumpsToEnd.push(pushJump(`${path}.cases[${index}].jump`, out));
+  });
+
+  instruction.otherwise = out.length;
+  if (otherwise) {
+    compileBlock(otherwise, `${path}.otherwise`, out);
+  }
+
+  appendBlocks?.(jumpsToEnd);
+
+  const end = out.length;
+  jumpsToEnd.forEach((jump) => {
+    jump.target = end;
+  });
+}
+
+function pushJump(id: string, out: ScriptInstruction[]): { target: number } {
+  const jump: Extract<ScriptInstruction, { op: 'jump' }> = { id, op: 'jump', target: -1 };
+  out.push(jump);
+  return jump;
+}
+
+function stepKind(step: ScriptStep, path: string): 'emit' | 'wait' | 'branch' | 'loop' | 'end' {
+  if (step && typeof step === 'object') {
+    if ('emit' in step && typeof step.emit === 'string') return 'emit';
+    if ('wait' in step && step.wait && typeof step.wait.type === 'string') return 'wait';
+    if ('branch' in step && step.branch) return 'branch';
+    if ('loop' in step && step.loop) return 'loop';
+    if ('end' in step && step.end === true) return 'end';
+  }
+
+  throw new Error(`Invalid script step at ${path}: expected emit, wait, branch, loop or end`);
+}
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+/**
+ * Run a fixture's script
+ *
+ * Fixtures without a script emit their events in order. Events emitted more
+ * than once (e.g. inside a loop) get an occurrence suffix (`id-2`, `id-3`)
+ * so IDs stay unique and deterministic.
+ *
+ * @param fixture - Fixture with an event library and optional script
+ * @param context - Script context (from ScriptTransport)
+ * @returns Async generator of the emitted events
+ * @throws Error if the script emits an unknown event, or a wait without
+ *   `onTimeout` times out
+ */
+export async function* runFixtureScript(
+  fixture: Fixture,
+  context: ScriptContext
+): AsyncGenerator<StreamEvent, void, undefined> {
+  const steps = fixture.script ?? fixture.events.map((event) => ({ emit: event.id }));
+  const cursor = new StreamCursor(compileFixtureScript(steps));
+  const library = new Map(fixture.events.map((event) => [event.id, event]));
+  const variables: Record<string, unknown> = {};
+  const occurrences = new Map<string, number>();
+  const passes = new Map<string, number>();
+
+  while (cursor.hasNext()) {
+    const instruction = cursor.next() as ScriptInstruction;
+
+    switch (instruction.op) {
+      case 'emit': {
+        const event = library.get(instruction.eventId);
+        if (!event) {
+          throw new Error(
+            `Script step ${instruction.id} emits unknown event "${instruction.eventId}"`
+          );
+        }
+
+        const occurrence = (occurrences.get(event.id) ?? 0) + 1;
+        occurrences.set(event.id, occurrence);
+        yield {
+          ...interpolateEvent(event, variables),
+          id: occurrence > 1 ? `${event.id}-${occurrence}` : event.id,
+          timestamp: Date.now(),
+        };
+        break;
+      }
+
+      case 'wait': {
+        const { match } = instruction;
+        let received: StreamEvent;
+
+        try {
+          received = await context.waitFor(instruction.type, {
+            predicate: match ? (event) => matchesCondition(event, match) : undefined,
+            timeoutMs: instruction.timeoutMs,
+          });
+        } catch (error) {
+          if (instruction.onTimeout !== undefined && error instanceof InboundTimeoutError) {
+            cursor.seek(instruction.onTimeout);
+            break;
+          }
+          throw error;
+        }
+
+        if (instruction.as) {
+          variables[instruction.as] = received;
+        }
+        cursor.seek(selectCase(instruction, received));
+        break;
+      }
+
+      case 'branch':
+        cursor.seek(selectCase(instruction, variables));
+        break;
+
+      case 'jump':
+        cursor.seek(instruction.target);
+        break;
+
+      case 'loop':
+        passes.set(instruction.id, 0);
+        break;
+
+      case 'repeat': {
+        const pass = (passes.get(instruction.loop) ?? 0) + 1;
+        passes.set(instruction.loop, pass);
+
+        const done =
+          (instruction.times !== undefined && pass >= instruction.times) ||
+          (instruction.until !== undefined && matchesCondition(variables, instruction.until)) ||
+          pass >= instruction.maxIterations;
+        if (!done) {
+          cursor.seek(instruction.body);
+        }
+        break;
+      }
+
+      case 'end':
+        return;
+    }
+  }
+}
+
+/**
+ * Turn a fixture into a stream script for ScriptTransport
+ *
+ * @param fixture - Fixture with an event library and optional script
+ * @returns Stream script
+ *
+ * @example
+ * ```typescript
+ * const session = new StreamSession({
+ *   sessionId: 'validation-demo',
+ *   transport: new ScriptTransport(toStreamScript(getFixture('budget-checkpoints')), 'fast'),
+ * });
+ *
+ * session.send(checkpointResponseEvent); // picks the branch
+ * ```
+ */
+export function toStreamScript(fixture: Fixture): StreamScript {
+  return (context) => runFixtureScript(fixture, context);
+}
+
+/**
+ * Check whether an event has a field that is exactly one placeholder
+ *
+ * Such a field takes the variable's raw value when emitted (e.g. an edited
+ * allocation object), so the event's final shape is only known at runtime.
+ *
+ * @param event - Library event
+ * @returns True when some non-reserved field is a whole placeholder
+ *
+ * @example
+ * ```typescript
+ * hasValuePlaceholders(resumeEvent); // approvedValue: '{{response.data.editedValue}}' → true
+ * ```
+ */
+export function hasValuePlaceholders(event: StreamEvent): boolean {
+  const visit = (value: unknown): boolean => {
+    if (typeof value === 'string') {
+      return WHOLE_PLACEHOLDER.test(value);
+    }
+    if (value !== null && typeof value === 'object') {
+      return Object.values(value).some(visit);
+    }
+    return false;
+  };
+
+  return Object.entries(event).some(
+    ([field, value]) => !RESERVED_FIELDS.has(field) && visit(value)
+  );
+}
+
+function selectCase(
+  instruction: { cases: CompiledCase[]; otherwise: number },
+  target: unknown
+): number {
+  const selected = instruction.cases.find((scriptCase) =>
+    matchesCondition(target, scriptCase.when)
+  );
+  return selected ? selected.target : instruction.otherwise;
+}
+
+function matchesCondition(target: unknown, condition: ScriptCondition): boolean {
+  return Object.entries(condition).every(([path, matcher]) =>
+    matchesValue(getPath(target, path), matcher)
+  );
+}
+
+function matchesValue(value: unknown, matcher: ScriptMatcher): boolean {
+  if (matcher !== null && typeof matcher === 'object') {
+    return matcher.oneOf.some((option) => option === value);
+  }
+  return value === matcher;
+}
+
+function getPath(target: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    return (value as Record<string, unknown>)[key];
+  }, target);
+}
+
+/**
+ * Replace `{{name.path}}` placeholders in an event's string fields
+ *
+ * A string that is exactly one placeholder takes the variable's raw value;
+ * otherwise values are stringified. Unbound variables become ''.
+ */
+function interpolateEvent(event: StreamEvent, variables: Record<string, unknown>): StreamEvent {
+  return Object.fromEntries(
+    Object.entries(event).map(([field, value]) => [
+      field,
+      RESERVED_FIELDS.has(field) ? value : interpolate(value, variables),
+    ])
+  ) as StreamEvent;
+}
+
+function interpolate(value: unknown, variables: Record<string, unknown>): unknown {
+  if (typeof value === 'string') {
+    const whole = value.match(WHOLE_PLACEHOLDER);
+    if (whole) {
+      return getPath(variables, whole[1]) ?? '';
+    }
+    return value.replace(PLACEHOLDER, (_, path: string) => String(getPath(variables, path) ?? ''));
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => interpolate(item, variables));
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([field, item]) => [field, interpolate(item, variables)])
+    );
+  }
+
+  return value;
+}
+
+// ============================================================================
+// Static Analysis
+// ============================================================================
+
+/**
+ * Sentinel for "any value not mentioned in the conditions"
+ */
+const OTHER_VALUE = Symbol('other');
+
+type DomainLookup = (path: string) => readonly ScriptLiteral[] | undefined;
+
+/**
+ * Statically check a fixture's script
+ *
+ * Finds:
+ * - Steps emitting events missing from the event library
+ * - Steps after an `end` step
+ * - Cases that can never match, or that earlier cases shadow
+ * - `otherwise` blocks the cases already cover (e.g. every checkpoint action)
+ * - `onTimeout` blocks of waits without a timeout, and loops with `times: 0`
+ * - Library events no step emits, and placeholders naming unbound variables
+ *
+ * @param fixture - Fixture to check
+ * @returns Issues found (empty when the script is sound or absent)
+ *
+ * @example
+ * ```typescript
+ * checkFixtureScript(fixture).forEach((issue) => console.warn(`${issue.path}: ${issue.message}`));
+ * ```
+ */
+export function checkFixtureScript(fixture: Fixture): ScriptIssue[] {
+  if (fixture.script === undefined) {
+    return [];
+  }
+
+  try {
+    compileFixtureScript(fixture.script);
+  } catch (error) {
+    return [{ path: 'script', message: (error as Error).message }];
+  }
+
+  const issues: ScriptIssue[] = [];
+  const library = new Set(fixture.events.map((event) => event.id));
+  const emitted = new Set<string>();
+  const bindings = collectBindings(fixture.script);
+
+  const domainOfVariable: DomainLookup = (path) => {
+    const [name, ...rest] = path.split('.');
+    const types = bindings.get(name);
+    return types?.size === 1 ? FIELD_DOMAINS[[...types][0]]?.[rest.join('.')] : undefined;
+  };
+
+  const checkBlock = (steps: ScriptStep[], path: string): void => {
+    const endIndex = steps.findIndex((step) => 'end' in step);
+    if (endIndex !== -1 && endIndex < steps.length - 1) {
+      issues.push({
+        path: `${path}[${endIndex + 1}]`,
+        message: `Step ${path}[${endIndex + 1}] is unreachable: it follows an end step`,
+      });
+    }
+
+    steps.forEach((step, index) => checkStep(step, `${path}[${index}]`));
+  };
+
+  const checkChoice = (
+    path: string,
+    cases: ScriptCase[],
+    otherwise: ScriptStep[] | undefined,
+    domainOf: DomainLookup,
+    filter?: ScriptCondition
+  ): void => {
+    const base = filter ? [filter] : [];
+
+    cases.forEach((scriptCase, index) => {
+      const when = scriptCase.when ?? {};
+      const earlier = cases.slice(0, index).map((previous) => previous.when ?? {});
+
+      if (!isSatisfiable([...base, when], [], domainOf)) {
+        issues.push({
+          path: `${path}.cases[${index}]`,
+          message: `Case ${path}.cases[${index}] can never match${describeDomains(when, domainOf)}`,
+        });
+      } else if (!isSatisfiable([...base, when], earlier, domainOf)) {
+        issues.push({
+          path: `${path}.cases[${index}]`,
+          message: `Case ${path}.cases[${index}] is unreachable: earlier cases match everything it matches`,
+        });
+      }
+      checkBlock(scriptCase.steps, `${path}.cases[${index}].steps`);
+    });
+
+    if (otherwise) {
+      const conditions = cases.map((scriptCase) => scriptCase.when ?? {});
+      if (!isSatisfiable(base, conditions, domainOf)) {
+        issues.push({
+          path: `${path}.otherwise`,
+          message: `Otherwise block ${path}.otherwise is unreachable: the cases cover every value`,
+        });
+      }
+      checkBlock(otherwise, `${path}.otherwise`);
+    }
+  };
+
+  const checkStep = (step: ScriptStep, path: string): void => {
+    if ('emit' in step) {
+      emitted.add(step.emit);
+      if (!library.has(step.emit)) {
+        issues.push({ path, message: `Step ${path} emits unknown event "${step.emit}"` });
+      }
+    } else if ('wait' in step) {
+      const { type, match, timeoutMs, cases = [], otherwise, onTimeout } = step.wait;
+      checkChoice(`${path}.wait`, cases, otherwise, (field) => FIELD_DOMAINS[type]?.[field], match);
+
+      if (onTimeout) {
+        if (timeoutMs === undefined) {
+          issues.push({
+            path: `${path}.wait.onTimeout`,
+            message: `Timeout block ${path}.wait.onTimeout is unreachable: the wait has no timeoutMs`,
+          });
+        }
+        checkBlock(onTimeout, `${path}.wait.onTimeout`);
+      }
+    } else if ('branch' in step) {
+      const { cases, otherwise } = step.branch;
+      checkChoice(`${path}.branch`, cases, otherwise, domainOfVariable);
+    } else if ('loop' in step) {
+      if (step.loop.times !== undefined && step.loop.times < 1) {
+        issues.push({
+          path: `${path}.loop.steps`,
+          message: `Loop body ${path}.loop.steps is unreachable: times is ${step.loop.times}`,
+        });
+      }
+      checkBlock(step.loop.steps, `${path}.loop.steps`);
+    }
+  };
+
+  checkBlock(fixture.script, 'script');
+
+  fixture.events.forEach((event, index) => {
+    if (!emitted.has(event.id)) {
+      issues.push({
+        path: `events[${index}]`,
+        message: `Event "${event.id}" is never emitted by the script`,
+      });
+    }
+
+    for (const name of placeholderVariables(event)) {
+      if (!bindings.has(name)) {
+        issues.push({
+          path: `events[${index}]`,
+          message: `Event "${event.id}" uses undefined variable "${name}"`,
+        });
+      }
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Map each variable bound by a wait to the event types it can hold
+ */
+function collectBindings(steps: ScriptStep[]): Map<string, Set<EventType>> {
+  const bindings = new Map<string, Set<EventType>>();
+
+  const visit = (block: ScriptStep[] | undefined): void => {
+    block?.forEach((step) => {
+      if ('wait' in step) {
+        const { as, type, cases, otherwise, onTimeout } = step.wait;
+        if (as) {
+          bindings.set(as, new Set([...(bindings.get(as) ?? []), type]));
+        }
+        cases?.forEach((scriptCase) => visit(scriptCase.steps));
+        visit(otherwise);
+        visit(onTimeout);
+      } else if ('branch' in step) {
+        step.branch.cases.forEach((scriptCase) => visit(scriptCase.steps));
+        visit(step.branch.otherwise);
+      } else if ('loop' in step) {
+        visit(step.loop.steps);
+      }
+    });
+  };
+
+  visit(steps);
+  return bindings;
+}
+
+/**
+ * Names of the variables an event's string fields interpolate
+ */
+function placeholderVariables(event: StreamEvent): Set<string> {
+  const names = new Set<string>();
+  const { id: _id, type: _type, timestamp: _timestamp, ...fields } = event;
+
+  JSON.stringify(fields).replace(PLACEHOLDER, (_, path: string) => {
+    names.add(path.split('.')[0]);
+    return '';
+  });
+
+  return names;
+}
+
+/**
+ * Check whether some value assignment matches every `required` condition
+ * and none of the `excluded` ones
+ *
+ * Each path ranges over its known domain, or over the values the conditions
+ * mention plus "anything else". Gives up (returns true) when there are too
+ * many combinations to enumerate.
+ */
+function isSatisfiable(
+  required: ScriptCondition[],
+  excluded: ScriptCondition[],
+  domainOf: DomainLookup
+): boolean {
+  const conditions = [...required, ...excluded];
+  const paths = [...new Set(conditions.flatMap((condition) => Object.keys(condition)))];
+
+  const candidates = paths.map((path): Array<ScriptLiteral | typeof OTHER_VALUE> => {
+    const domain = domainOf(path);
+    if (domain) {
+      return [...domain];
+    }
+    const mentioned = conditions.flatMap((condition) =>
+      path in condition ? matcherValues(condition[path]) : []
+    );
+    return [...new Set(mentioned), OTHER_VALUE];
+  });
+
+  if (candidates.reduce((total, values) => total * values.length, 1) > MAX_COMBINATIONS) {
+    return true;
+  }
+
+  const assignment = new Map<string, ScriptLiteral | typeof OTHER_VALUE>();
+  const satisfies = (condition: ScriptCondition): boolean =>
+    Object.entries(condition).every(([path, matcher]) => {
+      const value = assignment.get(path);
+      return value !== OTHER_VALUE && matchesValue(value, matcher);
+    });
+
+  const search = (depth: number): boolean => {
+    if (depth === paths.length) {
+      return required.every(satisfies) && !excluded.some(satisfies);
+    }
+    return candidates[depth].some((value) => {
+      assignment.set(paths[depth], value);
+      return search(depth + 1);
+    });
+  };
+
+  return search(0);
+}
+
+function matcherValues(matcher: ScriptMatcher): ScriptLiteral[] {
+  return matcher !== null && typeof matcher === 'object' ? matcher.oneOf : [matcher];
+}
+
+function describeDomains(condition: ScriptCondition, domainOf: DomainLookup): string {
+  const outside = Object.entries(condition).find(([path, matcher]) => {
+    const domain = domainOf(path);
+    return domain && !matcherValues(matcher).some((value) => domain.includes(value));
+  });
+
+  if (!outside) {
+    return '';
+  }
+  return `: "${outside[0]}" is one of ${domainOf(outside[0])?.join(', ')}`;
+}
@@ -0,0 +1,116 @@
+/**
+ * Tests for the inbound channel
+ *
+ * @module lib/streaming/inboundChannel.test
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { InboundChannel, InboundTimeoutError } from './inboundChannel';
+import type { InputSubmissionEvent, StreamEvent } from '@/types/events';
+
+/**
+ * Build an input submission answering a request
+ */
+function submission(requestId: string, value: string): InputSubmissionEvent {
+  return {
+    id: `submit-${requestId}-${value}`,
+    type: 'input_submission',
+    timestamp: 1000,
+    data: { requestId, value, submittedAt: 1000 },
+  };
+}
+
+const patch: StreamEvent = {
+  id: 'patch-1',
+  type: 'user_patch',
+  timestamp: 1000,
+  data: { id: 'patch-1', operations: [], timestamp: 1000 },
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('InboundChannel', () => {
+  it('should resolve a waiter when a matching event is sent', async () => {
+    const channel = new InboundChannel();
+    const waiting = channel.waitFor('input_submission');
+
+    channel.send(patch);
+    channel.send(submission('await-1', 'yes'));
+
+    expect((await waiting).data.value).toBe('yes');
+  });
+
+  it('should queue events sent before anyone waits', async () => {
+    const channel = new InboundChannel();
+    channel.send(submission('await-1', 'first'));
+    channel.send(submission('await-1', 'second'));
+
+    expect((await channel.waitFor('input_submission')).data.value).toBe('first');
+    expect((await channel.waitFor('input_submission')).data.value).toBe('second');
+  });
+
+  it('should only accept events matching the predicate', async () => {
+    const channel = new InboundChannel();
+    channel.send(submission('await-1', 'other'));
+
+    const waiting = channel.waitFor('input_submission', {
+      predicate: (event) => event.data.requestId === 'await-2',
+    });
+    channel.send(submission('await-2', 'mine'));
+
+    expect((await waiting).data.value).toBe('mine');
+    expect((await channel.waitFor('input_submission')).data.value).toBe('other');
+  });
+
+  it('should reject a waiter after the timeout', async () => {
+    vi.useFakeTimers();
+    const channel = new InboundChannel();
+    const waiting = channel.waitFor('input_submission', { timeoutMs: 500 });
+
+    const assertion = expect(waiting).rejects.toThrow(
+      'Timed out after 500ms waiting for "input_submission"'
+    );
+    await vi.advanceTimersByTimeAsync(500);
+    await assertion;
+    await expect(waiting).rejects.toBeInstanceOf(InboundTimeoutError);
+  });
+
+  it('should reject pending waiters and further sends once closed', async () => {
+    const channel = new InboundChannel();
+    const waiting = channel.waitFor('user_patch');
+
+    channel.close();
+
+    await expect(waiting).rejects.toThrow('Inbound channel closed while waiting for "user_patch"');
+    expect(() => channel.send(patch)).toThrow(
+      'Cannot send "user_patch" event: inbound channel is closed'
+    );
+    expect(channel.isClosed()).toBe(true);
+  });
+
+  it('should replay consumed events after a rewind', async () => {
+    const channel = new InboundChannel();
+    channel.send(submission('await-1', 'yes'));
+    await channel.waitFor('input_submission');
+
+    channel.rewind();
+
+    expect((await channel.waitFor('input_submission')).data.value).toBe('yes');
+    expect(channel.getHistory()).toHaveLength(1);
+  });
+
+  it('should notify subscribers of every sent event', () => {
+    const channel = new InboundChannel();
+    const listener = vi.fn();
+    const unsubscribe = channel.subscribe(listener);
+
+    channel.send(patch);
+    unsubscribe();
+    channel.send(patch);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(patch);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Inbound Channel - User messages flowing into a stream session
+ *
+ * Interactive patterns need the client to talk back mid-stream: an
+ * `input_submission` resumes an await-prompt stream, a
+ * `checkpoint_response` continues a validation loop, a `user_patch` edits a
+ * co-created document. The channel is the single path for those messages:
+ * the UI calls `StreamSession.send()`, and scripted transports wait for the
+ * event they need before branching.
+ *
+ * Sent events are queued until a waiter consumes them, so a message sent
+ * slightly before the script starts waiting is not lost. The full history is
+ * kept so a resumed script can replay the same decisions (INV-13).
+ *
+ * @module lib/streaming/inboundChannel
+ */
+
+import type { EventType, StreamEvent } from '@/types/events';
+import { systemClock, type Clock, type ClockTimer } from '@/lib/utils/clock';
+
+/**
+ * Direction of an event, from the client's point of view
+ * - 'inbound': delivered by the stream
+ * - 'outbound': sent by the client through the inbound channel
+ */
+export type EventDirection = 'inbound' | 'outbound';
+
+/**
+ * Options for waiting on an inbound event
+ */
+export interface WaitForOptions<T extends StreamEvent> {
+  /** Only accept events matching this predicate */
+  predicate?: (event: T) => boolean;
+
+  /** Reject if no matching event arrives in time (default: wait indefinitely) */
+  timeoutMs?: number;
+}
+
+/**
+ * Rejection reason when a waitFor call times out
+ *
+ * Lets scripts tell "the user did not answer" apart from "the session closed".
+ */
+export class InboundTimeoutError extends Error {
+  /**
+   * @param type - Event type that was awaited
+   * @param timeoutMs - Timeout that expired
+   */
+  constructor(
+    readonly type: EventType,
+    readonly timeoutMs: number
+  ) {
+    super(`Timed out after ${timeoutMs}ms waiting for "${type}"`);
+    this.name = 'InboundTimeoutError';
+  }
+}
+
+/**
+ * Listener notified of every sent event
+ */
+export type InboundListener = (event: StreamEvent) => void;
+
+/**
+ * A pending waitFor call
+ */
+interface Waiter {
+  type: EventType;
+  accepts: (event: StreamEvent) => boolean;
+  resolve: (event: StreamEvent) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * InboundChannel - Queue of client events with typed waiting
+ *
+ * @example
+ * ```typescript
+ * const channel = new InboundChannel();
+ *
+ * // Script side: pause until the user answers
+ * const submission = await channel.waitFor('input_submission', {
+ *   predicate: (event) => event.data.requestId === 'await-1',
+ *   timeoutMs: 60000,
+ * });
+ *
+ * // UI side
+ * channel.send({ id: 'submit-1', type: 'input_submission', timestamp: Date.now(), data });
+ * ```
+ */
+export class InboundChannel {
+  private readonly history: StreamEvent[] = [];
+  private readonly consumed = new Set<number>();
+  private readonly waiters = new Set<Waiter>();
+  private readonly listeners = new Set<InboundListener>();
+  private readonly clock: Clock;
+  private closed: boolean = false;
+
+  /**
+   * Create an inbound channel
+   *
+   * @param clock - Clock used for waitFor timeouts (default: the system clock)
+   */
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
+  }
+
+  /**
+   * Send an event into the channel
+   *
+   * The event resolves the oldest matching waiter, or is queued until one
+   * asks for it.
+   *
+   * @param event - Client event
+   * @throws Error if the channel is closed
+   */
+  send(event: StreamEvent): void {
+    if (this.closed) {
+      throw new Error(`Cannot send "${event.type}" event: inbound channel is closed`);
+    }
+
+    this.history.push(event);
+    this.listeners.forEach((listener) => listener(event));
+
+    for (const waiter of this.waiters) {
+      if (waiter.accepts(event)) {
+        this.consumed.add(this.history.length - 1);
+        this.waiters.delete(waiter);
+        waiter.resolve(event);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Wait for an event of a given type
+   *
+   * Resolves immediately with the oldest queued, unconsumed match.
+   *
+   * @param type - Event type to wait for
+   * @param options - Predicate and timeout
+   * @returns Promise resolving with the event
+   * @throws InboundTimeoutError (rejection) on timeout
+   * @throws Error (rejection) when the channel closes
+   */
+  waitFor<T extends EventType>(
+    type: T,
+    options: WaitForOptions<Extract<StreamEvent, { type: T }>> = {}
+  ): Promise<Extract<StreamEvent, { type: T }>> {
+    type Match = Extract<StreamEvent, { type: T }>;
+    const { predicate, timeoutMs } = options;
+    const accepts = (event: StreamEvent): boolean =>
+      event.type === type && (!predicate || predicate(event as Match));
+
+    const queued = this.history.findIndex(
+      (event, index) => !this.consumed.has(index) && accepts(event)
+    );
+    if (queued !== -1) {
+      this.consumed.add(queued);
+      return Promise.resolve(this.history[queued] as Match);
+    }
+
+    if (this.closed) {
+      return Promise.reject(new Error(`Inbound channel closed while waiting for "${type}"`));
+    }
+
+    return new Promise<Match>((resolve, reject) => {
+      let timeoutId: ClockTimer | undefined;
+
+      const waiter: Waiter = {
+        type,
+        accepts,
+        resolve: (event) => {
+          this.clock.clearTimeout(timeoutId);
+          resolve(event as Match);
+        },
+        reject: (error) => {
+          this.clock.clearTimeout(timeoutId);
+          reject(error);
+        },
+      };
+
+      if (timeoutMs !== undefined) {
+        timeoutId = this.clock.setTimeout(() => {
+          this.waiters.delete(waiter);
+          reject(new InboundTimeoutError(type, timeoutMs));
+        }, timeoutMs);
+      }
+
+      this.waiters.add(waiter);
+    });
+  }
+
+  /**
+   * Subscribe to every sent event
+   *
+   * @param listener - Called synchronously for each event
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: InboundListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get every event sent so far, in order
+   *
+   * @returns Copy of the channel history
+   */
+  getHistory(): StreamEvent[] {
+    return [...this.history];
+  }
+
+  /**
+   * Make every sent event available to waiters again
+   *
+   * Used when a script restarts (e.g. on reconnect) so it makes the same
+   * decisions from the same inbound events.
+   */
+  rewind(): void {
+    this.consumed.clear();
+  }
+
+  /**
+   * Close the channel
+   *
+   * Pending waiters are rejected; further sends throw. Idempotent.
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = true;
+    for (const waiter of this.waiters) {
+      waiter.reject(new Error(`Inbound channel closed while waiting for "${waiter.type}"`));
+    }
+    this.waiters.clear();
+  }
+
+  /**
+   * Check if the channel is closed
+   *
+   * @returns True once closed
+   */
+  isClosed(): boolean {
+    return this.closed;
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Tests for the stream lifecycle state machine
+ *
+ * The transition table follows specs/pattern-exhibition/demo-lifecycle.feature.
+ *
+ * @module lib/streaming/lifecycle.test
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { StreamEvent } from '@/types/events';
+import {
+  LifecycleTransitionError,
+  canTransition,
+  createLifecycle,
+  isTerminalPhase,
+  lifecycleActionForEvent,
+  nextPhase,
+  type LifecycleAction,
+  type LifecyclePhase,
+} from './lifecycle';
+
+describe('nextPhase', () => {
+  it('should follow the valid demo transitions', () => {
+    let phase: LifecyclePhase = 'idle';
+
+    phase = nextPhase(phase, 'start');
+    expect(phase).toBe('streaming');
+    phase = nextPhase(phase, 'pause');
+    expect(phase).toBe('paused');
+    phase = nextPhase(phase, 'resume');
+    expect(phase).toBe('streaming');
+    phase = nextPhase(phase, 'complete');
+    expect(phase).toBe('completed');
+    phase = nextPhase(phase, 'reset');
+    expect(phase).toBe('idle');
+  });
+
+  it.each<[LifecyclePhase, LifecycleAction, boolean]>([
+    ['idle', 'start', true],
+    ['idle', 'pause', false],
+    ['idle', 'resume', false],
+    ['streaming', 'start', false],
+    ['streaming', 'pause', true],
+    ['paused', 'resume', true],
+    ['paused', 'pause', false],
+    ['completed', 'start', false],
+    ['completed', 'reset', true],
+  ])('should %s → %s: %s', (phase, action, valid) => {
+    expect(canTransition(phase, action)).toBe(valid);
+  });
+
+  it('should reject an invalid transition with the spec message', () => {
+    expect(() => nextPhase('idle', 'pause', 'demo')).toThrow('Cannot pause: demo not streaming');
+    expect(() => nextPhase('completed', 'start', 'demo')).toThrow('Cannot start: demo not idle');
+    expect(() => nextPhase('idle', 'complete')).toThrow(
+      'Cannot complete: stream not streaming or awaiting'
+    );
+  });
+
+  it('should not pause a stream waiting on the user', () => {
+    expect(nextPhase('streaming', 'await')).toBe('awaiting');
+    expect(canTransition('awaiting', 'pause')).toBe(false);
+    expect(nextPhase('awaiting', 'answer')).toBe('streaming');
+  });
+});
+
+describe('isTerminalPhase', () => {
+  it('should treat completed, error and closed as terminal', () => {
+    expect(isTerminalPhase('completed')).toBe(true);
+    expect(isTerminalPhase('error')).toBe(true);
+    expect(isTerminalPhase('closed')).toBe(true);
+    expect(isTerminalPhase('awaiting')).toBe(false);
+  });
+});
+
+describe('lifecycleActionForEvent', () => {
+  it('should classify prompts and their answers', () => {
+    const event = (type: string) => ({ id: type, type, timestamp: 0, data: {} }) as StreamEvent;
+
+    expect(lifecycleActionForEvent(event('await_input'))).toBe('await');
+    expect(lifecycleActionForEvent(event('checkpoint'))).toBe('await');
+    expect(lifecycleActionForEvent(event('input_submission'))).toBe('answer');
+    expect(lifecycleActionForEvent(event('timeout'))).toBe('answer');
+    expect(lifecycleActionForEvent(event('text'))).toBeNull();
+  });
+});
+
+describe('createLifecycle', () => {
+  it('should notify observers of each transition', () => {
+    const lifecycle = createLifecycle();
+    const listener = vi.fn();
+    lifecycle.subscribe(listener);
+
+    lifecycle.transition('start');
+    lifecycle.transition('await');
+
+    expect(listener.mock.calls.map(([transition]) => transition)).toEqual([
+      { action: 'start', from: 'idle', to: 'streaming' },
+      { action: 'await', from: 'streaming', to: 'awaiting' },
+    ]);
+  });
+
+  it('should stay put and notify no one on an invalid transition', () => {
+    const lifecycle = createLifecycle({ subject: 'demo' });
+    const listener = vi.fn();
+    lifecycle.subscribe(listener);
+
+    let error: unknown;
+    try {
+      lifecycle.transition('pause');
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(LifecycleTransitionError);
+    expect(error).toMatchObject({ action: 'pause', phase: 'idle' });
+    expect(lifecycle.getPhase()).toBe('idle');
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should follow prompts and answers without rejecting events', () => {
+    const lifecycle = createLifecycle();
+    const event = (type: string) => ({ type });
+
+    lifecycle.transition('start');
+    expect(lifecycle.observe(event('await_input'))).toBe('awaiting');
+    expect(lifecycle.observe(event('text'))).toBe('awaiting');
+    expect(lifecycle.observe(event('input_submission'))).toBe('streaming');
+
+    // A prompt arriving while paused leaves the phase alone
+    lifecycle.transition('pause');
+    expect(lifecycle.observe(event('checkpoint'))).toBe('paused');
+  });
+
+  it('should restart from any phase', () => {
+    const lifecycle = createLifecycle({ initial: 'error' });
+
+    expect(lifecycle.restart()).toBe('streaming');
+    lifecycle.transition('complete');
+    expect(lifecycle.restart()).toBe('streaming');
+  });
+
+  it('should stop notifying after unsubscribe', () => {
+    const lifecycle = createLifecycle({ initial: 'paused' });
+    const listener = vi.fn();
+    const unsubscribe = lifecycle.subscribe(listener);
+
+    unsubscribe();
+    lifecycle.transition('resume');
+
+    expect(lifecycle.can('pause')).toBe(true);
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
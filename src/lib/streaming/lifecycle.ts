@@ -0,0 +1,303 @@
+/**
+ * Stream Lifecycle - The state machine every stream and demo follows
+ *
+ * `specs/pattern-exhibition/demo-lifecycle.feature` lists which transitions
+ * are valid (INV-1) and that an invalid one must fail without changing the
+ * state (INV-2). This module is that table in code, shared by StreamSession,
+ * the stream store, useStreamProcessor and the pattern hooks, so an illegal
+ * transition is rejected the same way everywhere:
+ *
+ * ```
+ *   idle ──start──▶ streaming ──pause──▶ paused
+ *                   │  ▲   ◀──resume──
+ *               await │ answer
+ *                   ▼  │
+ *                  awaiting
+ *
+ *   streaming / awaiting ──complete──▶ completed
+ *   streaming / paused / awaiting ──fail──▶ error
+ *   idle / streaming / paused / awaiting ──close──▶ closed
+ *   any phase ──reset──▶ idle
+ * ```
+ *
+ * `awaiting` is a stream blocked on the user (an await-input or checkpoint
+ * prompt). It cannot be paused: nothing is flowing until the prompt is answered.
+ *
+ * @module lib/streaming/lifecycle
+ */
+
+/**
+ * The part of an event the lifecycle reads
+ */
+export interface LifecycleEvent {
+  type: string;
+}
+
+/**
+ * Phase of a stream or demo
+ */
+export type LifecyclePhase =
+  | 'idle'
+  | 'streaming'
+  | 'paused'
+  | 'awaiting'
+  | 'completed'
+  | 'error'
+  | 'closed';
+
+/**
+ * Something that moves a stream from one phase to another
+ */
+export type LifecycleAction =
+  | 'start'
+  | 'pause'
+  | 'resume'
+  | 'await'
+  | 'answer'
+  | 'complete'
+  | 'fail'
+  | 'close'
+  | 'reset';
+
+/**
+ * A transition that took place
+ */
+export interface LifecycleTransition {
+  action: LifecycleAction;
+  from: LifecyclePhase;
+  to: LifecyclePhase;
+}
+
+/**
+ * Valid transitions: for each phase, the actions it accepts and where they lead
+ *
+ * Keyed by every phase, so adding a phase does not compile until its
+ * transitions are declared.
+ */
+export const LIFECYCLE_TRANSITIONS: {
+  readonly [P in LifecyclePhase]: Readonly<Partial<Record<LifecycleAction, LifecyclePhase>>>;
+} = {
+  idle: { start: 'streaming', close: 'closed', reset: 'idle' },
+  streaming: {
+    pause: 'paused',
+    await: 'awaiting',
+    complete: 'completed',
+    fail: 'error',
+    close: 'closed',
+    reset: 'idle',
+  },
+  paused: { resume: 'streaming', fail: 'error', close: 'closed', reset: 'idle' },
+  awaiting: {
+    answer: 'streaming',
+    complete: 'completed',
+    fail: 'error',
+    close: 'closed',
+    reset: 'idle',
+  },
+  completed: { reset: 'idle' },
+  error: { reset: 'idle' },
+  closed: { reset: 'idle' },
+};
+
+const PHASES = Object.keys(LIFECYCLE_TRANSITIONS) as LifecyclePhase[];
+
+/**
+ * Error thrown for a transition the current phase does not accept
+ *
+ * The message follows the feature spec, e.g. "Cannot pause: demo not streaming".
+ */
+export class LifecycleTransitionError extends Error {
+  constructor(
+    public readonly action: LifecycleAction,
+    public readonly phase: LifecyclePhase,
+    subject: string
+  ) {
+    const validFrom = PHASES.filter((from) => canTransition(from, action));
+    super(`Cannot ${action}: ${subject} not ${validFrom.join(' or ')}`);
+    this.name = 'LifecycleTransitionError';
+  }
+}
+
+/**
+ * Check whether a phase accepts an action
+ *
+ * @param phase - Current phase
+ * @param action - Action to apply
+ * @returns True if the transition is valid
+ */
+export function canTransition(phase: LifecyclePhase, action: LifecycleAction): boolean {
+  return LIFECYCLE_TRANSITIONS[phase][action] !== undefined;
+}
+
+/**
+ * Get the phase an action leads to
+ *
+ * @param phase - Current phase
+ * @param action - Action to apply
+ * @param subject - What is transitioning, for the error message (default: 'stream')
+ * @returns Next phase
+ * @throws LifecycleTransitionError if the phase does not accept the action
+ *
+ * @example
+ * ```typescript
+ * nextPhase('streaming', 'pause'); // 'paused'
+ * nextPhase('idle', 'pause', 'demo'); // throws "Cannot pause: demo not streaming"
+ * ```
+ */
+export function nextPhase(
+  phase: LifecyclePhase,
+  action: LifecycleAction,
+  subject: string = 'stream'
+): LifecyclePhase {
+  const to = LIFECYCLE_TRANSITIONS[phase][action];
+  if (to === undefined) {
+    throw new LifecycleTransitionError(action, phase, subject);
+  }
+  return to;
+}
+
+/**
+ * Check whether a phase is final for the current run
+ *
+ * @param phase - Phase to check
+ * @returns True for completed, error and closed
+ */
+export function isTerminalPhase(phase: LifecyclePhase): boolean {
+  switch (phase) {
+    case 'completed':
+    case 'error':
+    case 'closed':
+      return true;
+    case 'idle':
+    case 'streaming':
+    case 'paused':
+    case 'awaiting':
+      return false;
+  }
+}
+
+/**
+ * Get the lifecycle action an event implies, if any
+ *
+ * An await-input or checkpoint prompt blocks the stream on the user; an
+ * answer, resume or timeout releases it. Only the event type is read, so
+ * pattern-specific event unions work too.
+ *
+ * @param event - Stream event
+ * @returns 'await', 'answer', or null for ordinary events
+ */
+export function lifecycleActionForEvent(event: LifecycleEvent): 'await' | 'answer' | null {
+  switch (event.type) {
+    case 'await_input':
+    case 'checkpoint':
+      return 'await';
+    case 'input_submission':
+    case 'resume':
+    case 'timeout':
+    case 'checkpoint_response':
+    case 'checkpoint_resume':
+      return 'answer';
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// Lifecycle Machine
+// ============================================================================
+
+/**
+ * Options for creating a lifecycle machine
+ */
+export interface LifecycleOptions {
+  /** What is transitioning, used in error messages (default: 'stream') */
+  subject?: string;
+
+  /** Starting phase (default: 'idle') */
+  initial?: LifecyclePhase;
+}
+
+/**
+ * A lifecycle with guarded transitions and transition events
+ */
+export interface LifecycleMachine {
+  /** Current phase */
+  getPhase(): LifecyclePhase;
+
+  /** Check whether the current phase accepts an action */
+  can(action: LifecycleAction): boolean;
+
+  /** Apply an action; throws LifecycleTransitionError and stays put if invalid */
+  transition(action: LifecycleAction): LifecyclePhase;
+
+  /**
+   * Apply the transition an event implies (see lifecycleActionForEvent)
+   *
+   * Events are facts rather than requests: one implying a transition the
+   * current phase does not accept (e.g. a prompt arriving while paused)
+   * leaves the phase unchanged instead of throwing.
+   */
+  observe(event: LifecycleEvent): LifecyclePhase;
+
+  /** Begin a new run from any phase: reset (unless idle), then start */
+  restart(): LifecyclePhase;
+
+  /** Listen for transitions; returns an unsubscribe function */
+  subscribe(listener: (transition: LifecycleTransition) => void): () => void;
+}
+
+/**
+ * Create a lifecycle machine
+ *
+ * @param options - Subject and starting phase
+ * @returns Lifecycle machine in its starting phase
+ *
+ * @example
+ * ```typescript
+ * const lifecycle = createLifecycle({ subject: 'demo' });
+ * lifecycle.subscribe(({ from, to }) => console.log(`${from} → ${to}`));
+ *
+ * lifecycle.transition('start'); // idle → streaming
+ * lifecycle.can('resume'); // false
+ * ```
+ */
+export function createLifecycle(options: LifecycleOptions = {}): LifecycleMachine {
+  const subject = options.subject ?? 'stream';
+  const listeners = new Set<(transition: LifecycleTransition) => void>();
+  let phase: LifecyclePhase = options.initial ?? 'idle';
+
+  function transition(action: LifecycleAction): LifecyclePhase {
+    const from = phase;
+    phase = nextPhase(from, action, subject);
+
+    const event: LifecycleTransition = { action, from, to: phase };
+    listeners.forEach((listener) => listener(event));
+    return phase;
+  }
+
+  function observe(event: LifecycleEvent): LifecyclePhase {
+    const action = lifecycleActionForEvent(event);
+    return action && canTransition(phase, action) ? transition(action) : phase;
+  }
+
+  function restart(): LifecyclePhase {
+    if (phase !== 'idle') {
+      transition('reset');
+    }
+    return transition('start');
+  }
+
+  return {
+    getPhase: () => phase,
+    can: (action) => canTransition(phase, action),
+    transition,
+    observe,
+    restart,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
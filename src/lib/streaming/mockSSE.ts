@@ -8,7 +8,12 @@
  * Key features:
  * - Deterministic event generation from fixtures
  * - Configurable timing profiles (fast/normal/slow)
+ * - Pluggable transports (fixture replay or a real SSE endpoint)
  * - Pause/resume support
+ * - Injectable clock, so tests can replay a fixture without real waiting
+ * - Bounded buffering with backpressure policies for slow consumers
+ * - Client events sent back to the stream (bidirectional sessions)
+ * - Several logical channels multiplexed over one session
  * - Session lifecycle management
  * - Event enrichment with metadata
  *
@@ -21,23 +26,74 @@ import {
   type DelayProfile,
   type SessionConfig,
   type EnrichedStreamEvent,
+  type ReconnectConfig,
+  type SimulateDisconnectConfig,
+  type SessionState,
 } from './streamSession';
+import type { LifecyclePhase } from './lifecycle';
+import type { ResumePoint, StreamTransport } from './transport';
+import type { TimingModel } from './timingModels';
+import { injectFaults, type FaultInjectionConfig } from './faultInjection';
+import type { BackpressurePolicy, BufferConfig } from './eventBuffer';
+import { StreamDemultiplexer, multiplexEvents } from './multiplex';
+import { systemClock, type Clock } from '@/lib/utils/clock';
 
 /**
  * Options for creating a mock stream
  */
 export interface CreateStreamOptions {
-  /** Array of events to stream (fixture data) */
-  events: StreamEvent[];
+  /** Array of events to stream (fixture data, required unless a transport is provided) */
+  events?: StreamEvent[];
+
+  /** Transport supplying events instead of fixture data (e.g. SSETransport) */
+  transport?: StreamTransport;
 
   /** Delay profile for timing control (default: 'normal') */
   delayProfile?: DelayProfile;
 
+  /** Timing model overriding the delay profile (jitter, token rate, replay, ...) */
+  timing?: TimingModel;
+
   /** Custom session ID (auto-generated if not provided) */
   sessionId?: string;
 
   /** Whether to enrich events with metadata (default: true) */
   enrichEvents?: boolean;
+
+  /** Resume after a previously received event (last event ID or sequence number) */
+  resumeFrom?: ResumePoint;
+
+  /** Reconnect with backoff when the connection drops (disabled when omitted) */
+  reconnect?: ReconnectConfig;
+
+  /**
+   * Drop the connection deterministically after N delivered events
+   * Combine with `reconnect` to demonstrate recovery.
+   */
+  simulateDisconnect?: SimulateDisconnectConfig;
+
+  /** Seeded faults to inject into the delivered stream (drops, duplicates, errors, ...) */
+  faults?: FaultInjectionConfig;
+
+  /** Called with each event sent through the handle (direction: 'outbound') */
+  onSend?: (event: EnrichedStreamEvent) => void;
+
+  /** Bounded read-ahead buffer with a backpressure policy (default: unbuffered) */
+  buffer?: BufferConfig;
+
+  /** Clock for delays and timestamps, e.g. a VirtualClock in tests (default: system clock) */
+  clock?: Clock;
+}
+
+/**
+ * Options for creating a multiplexed mock stream
+ */
+export interface CreateMultiplexedStreamOptions extends Omit<CreateStreamOptions, 'events'> {
+  /** Fixture events by channel ID, interleaved by timestamp */
+  channels: Record<string, StreamEvent[]>;
+
+  /** Events buffered per channel before the session is held back (default: 16) */
+  highWaterMark?: number;
 }
 
 /**
@@ -56,16 +112,24 @@ export interface StreamHandle {
   /** Close the stream and clean up resources */
   close: () => void;
 
+  /** Send a client event to the stream (see StreamSession.send) */
+  send: (event: StreamEvent) => EnrichedStreamEvent;
+
   /** Get current session state */
-  getState: () => string;
+  getState: () => SessionState;
+
+  /** Get current lifecycle phase */
+  getPhase: () => LifecyclePhase;
 
   /** Get session statistics */
   getStatistics: () => {
     sessionId: string;
-    state: string;
+    state: SessionState;
+    phase: LifecyclePhase;
     totalEvents: number;
     eventsConsumed: number;
     eventsRemaining: number;
+    bufferDepth: number;
   };
 }
 
@@ -74,7 +138,7 @@ export interface StreamHandle {
  *
  * @returns Unique session identifier
  */
-function generateSessionId(): string {
+export function generateSessionId(): string {
   const timestamp = Date.now();
   const random = Math.random().toString(36).substring(2, 9);
   return `session-${timestamp}-${random}`;
@@ -139,13 +203,22 @@ export async function* createMockStream(
   const sessionConfig: SessionConfig = {
     sessionId,
     events: options.events,
+    transport: options.transport,
     delayProfile: options.delayProfile ?? 'normal',
+    timing: options.timing,
     enrichEvents: options.enrichEvents ?? true,
+    resumeFrom: options.resumeFrom,
+    reconnect: options.reconnect,
+    simulateDisconnect: options.simulateDisconnect,
+    buffer: options.buffer,
+    clock: options.clock,
   };
 
   const session = new StreamSession(sessionConfig);
 
-  yield* session.stream();
+  yield* options.faults
+    ? injectFaults(session.stream(), { clock: options.clock, ...options.faults })
+    : session.stream();
 }
 
 /**
@@ -187,8 +260,16 @@ export function createMockStreamWithHandle(options: CreateStreamOptions): {
   const sessionConfig: SessionConfig = {
     sessionId,
     events: options.events,
+    transport: options.transport,
     delayProfile: options.delayProfile ?? 'normal',
+    timing: options.timing,
     enrichEvents: options.enrichEvents ?? true,
+    resumeFrom: options.resumeFrom,
+    reconnect: options.reconnect,
+    simulateDisconnect: options.simulateDisconnect,
+    onSend: options.onSend,
+    buffer: options.buffer,
+    clock: options.clock,
   };
 
   const session = new StreamSession(sessionConfig);
@@ -198,12 +279,16 @@ export function createMockStreamWithHandle(options: CreateStreamOptions): {
     pause: () => session.pause(),
     resume: () => session.resume(),
     close: () => session.close(),
+    send: (event) => session.send(event),
     getState: () => session.getState(),
+    getPhase: () => session.getPhase(),
     getStatistics: () => session.getStatistics(),
   };
 
   return {
-    stream: session.stream(),
+    stream: options.faults
+      ? injectFaults(session.stream(), { clock: options.clock, ...options.faults })
+      : session.stream(),
     handle,
   };
 }
@@ -249,7 +334,8 @@ export function validateFixtureEvents(events: StreamEvent[]): void {
  *
  * Creates multiple independent stream sessions from the same or different fixtures.
  * Each stream has its own session ID and state, ensuring they don't interfere
- * with each other (testing scenario from BDD specs).
+ * with each other (testing scenario from BDD specs). To interleave several
+ * channels over one connection instead, use createMultiplexedStream.
  *
  * @param streamConfigs - Array of stream configurations
  * @returns Array of stream generators
@@ -274,6 +360,40 @@ export function createConcurrentStreams(
   return streamConfigs.map((config) => createMockStream(config));
 }
 
+/**
+ * Create one mock stream carrying several logical channels
+ *
+ * The channels' fixture events are interleaved by timestamp and delivered by
+ * a single StreamSession, the way an agent backend multiplexes reasoning,
+ * answer tokens and tool calls over one connection. The returned
+ * demultiplexer yields each channel separately, with its own buffer.
+ *
+ * @param options - Channel fixtures and stream options
+ * @returns Demultiplexer over the session's events
+ *
+ * @example
+ * ```typescript
+ * const demux = createMultiplexedStream({
+ *   channels: { reasoning: reasoningEvents, answer: answerEvents },
+ *   delayProfile: 'fast',
+ * });
+ *
+ * for await (const event of demux.channel('answer')) {
+ *   appendToken(event);
+ * }
+ * ```
+ */
+export function createMultiplexedStream(
+  options: CreateMultiplexedStreamOptions
+): StreamDemultiplexer<EnrichedStreamEvent> {
+  const { channels, highWaterMark, ...streamOptions } = options;
+
+  return new StreamDemultiplexer(
+    createMockStream({ ...streamOptions, events: multiplexEvents(channels) }),
+    { channels: Object.keys(channels), highWaterMark }
+  );
+}
+
 /**
  * Utility: Collect all events from a stream into an array
  *
@@ -309,6 +429,7 @@ export async function collectStreamEvents(
  * Useful for verifying delay profiles in tests.
  *
  * @param stream - Async generator to measure
+ * @param clock - Clock to measure with (default: the system clock)
  * @returns Promise resolving to elapsed time in milliseconds
  *
  * @example
@@ -322,16 +443,29 @@ export async function collectStreamEvents(
  * ```
  */
 export async function measureStreamTiming(
-  stream: AsyncGenerator<EnrichedStreamEvent>
+  stream: AsyncGenerator<EnrichedStreamEvent>,
+  clock: Clock = systemClock
 ): Promise<number> {
-  const startTime = Date.now();
+  const startTime = clock.now();
 
   for await (const _event of stream) {
     // Just consume events
   }
 
-  return Date.now() - startTime;
+  return clock.now() - startTime;
 }
 
 // Re-export types for convenience
-export type { DelayProfile, SessionConfig, EnrichedStreamEvent };
+export type {
+  DelayProfile,
+  SessionConfig,
+  EnrichedStreamEvent,
+  StreamTransport,
+  ResumePoint,
+  ReconnectConfig,
+  SimulateDisconnectConfig,
+  TimingModel,
+  FaultInjectionConfig,
+  BufferConfig,
+  BackpressurePolicy,
+};
@@ -0,0 +1,202 @@
+/**
+ * Tests for stream multiplexing
+ *
+ * @module lib/streaming/multiplex.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { StreamEvent } from '@/types/events';
+import {
+  DEFAULT_CHANNEL,
+  StreamDemultiplexer,
+  getEventChannel,
+  multiplexEvents,
+} from './multiplex';
+import { createMultiplexedStream } from './mockSSE';
+
+function answer(id: string, timestamp: number, channel?: string): StreamEvent {
+  return { id, type: 'answer', timestamp, channel, data: { text: id, isFinal: false } };
+}
+
+/**
+ * Source that records how many events have been pulled from it
+ */
+function countingSource(events: StreamEvent[]) {
+  const source = {
+    pulled: 0,
+    returned: false,
+    async *[Symbol.asyncIterator]() {
+      try {
+        for (const event of events) {
+          source.pulled++;
+          yield event;
+        }
+      } finally {
+        source.returned = true;
+      }
+    },
+  };
+  return source;
+}
+
+async function collect(iterator: AsyncIterable<StreamEvent>): Promise<string[]> {
+  const ids: string[] = [];
+  for await (const event of iterator) {
+    ids.push(event.id);
+  }
+  return ids;
+}
+
+describe('multiplexEvents', () => {
+  it('should interleave channels by timestamp and tag each event', () => {
+    const events = multiplexEvents({
+      reasoning: [answer('r1', 100), answer('r2', 300)],
+      answer: [answer('a1', 100), answer('a2', 200)],
+    });
+
+    expect(events.map((event) => `${event.channel}:${event.id}`)).toEqual([
+      'reasoning:r1',
+      'answer:a1',
+      'answer:a2',
+      'reasoning:r2',
+    ]);
+  });
+});
+
+describe('getEventChannel', () => {
+  it('should fall back to the default channel', () => {
+    expect(getEventChannel(answer('a', 1, 'tools'))).toBe('tools');
+    expect(getEventChannel(answer('a', 1))).toBe(DEFAULT_CHANNEL);
+  });
+});
+
+describe('StreamDemultiplexer', () => {
+  const events = multiplexEvents({
+    reasoning: [answer('r1', 1), answer('r2', 3)],
+    answer: [answer('a1', 2), answer('a2', 4), answer('a3', 5)],
+  });
+
+  it('should yield each channel separately', async () => {
+    const demux = new StreamDemultiplexer(countingSource(events));
+
+    const [reasoning, answers] = await Promise.all([
+      collect(demux.channel('reasoning')),
+      collect(demux.channel('answer')),
+    ]);
+
+    expect(reasoning).toEqual(['r1', 'r2']);
+    expect(answers).toEqual(['a1', 'a2', 'a3']);
+    expect(demux.getChannels()).toEqual(['reasoning', 'answer']);
+  });
+
+  it('should buffer events for channels opened later', async () => {
+    const demux = new StreamDemultiplexer(countingSource(events));
+
+    expect(await collect(demux.channel('answer'))).toEqual(['a1', 'a2', 'a3']);
+    expect(demux.getBufferedCount('reasoning')).toBe(2);
+    expect(await collect(demux.channel('reasoning'))).toEqual(['r1', 'r2']);
+  });
+
+  it('should stop reading the source while a channel buffer is full', async () => {
+    const source = countingSource(events);
+    const demux = new StreamDemultiplexer(source, { highWaterMark: 1 });
+    const answers = demux.channel('answer');
+    const reasoning = demux.channel('reasoning');
+
+    // r1 fills the reasoning buffer before a1 arrives
+    const first = answers.next();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(source.pulled).toBe(1);
+
+    expect((await reasoning.next()).value?.id).toBe('r1');
+    expect((await first).value?.id).toBe('a1');
+    expect(source.pulled).toBe(2);
+  });
+
+  it('should apply per-channel high-water marks', async () => {
+    const source = countingSource(events);
+    // With a limit of 2, r2 fills the reasoning buffer before a2 arrives
+    const demux = new StreamDemultiplexer(source, { highWaterMark: { reasoning: 3, answer: 1 } });
+
+    expect(await collect(demux.channel('answer'))).toEqual(['a1', 'a2', 'a3']);
+    expect(demux.getBufferedCount('reasoning')).toBe(2);
+  });
+
+  it('should stop holding the stream back once a channel is returned', async () => {
+    const demux = new StreamDemultiplexer(countingSource(events), { highWaterMark: 1 });
+    await demux.channel('reasoning').return?.();
+
+    expect(await collect(demux.channel('answer'))).toEqual(['a1', 'a2', 'a3']);
+    expect(demux.getBufferedCount('reasoning')).toBe(0);
+  });
+
+  it('should drop channels that are not routed', async () => {
+    const demux = new StreamDemultiplexer(countingSource(events), { channels: ['answer'] });
+
+    expect(await collect(demux.channel('answer'))).toEqual(['a1', 'a2', 'a3']);
+    expect(demux.getChannels()).toEqual(['answer']);
+  });
+
+  it('should route with a custom channelOf', async () => {
+    const demux = new StreamDemultiplexer(countingSource(events), {
+      channelOf: (event) => (event.id.endsWith('1') ? 'first' : 'rest'),
+    });
+
+    const [first, rest] = await Promise.all([
+      collect(demux.channel('first')),
+      collect(demux.channel('rest')),
+    ]);
+
+    expect(first).toEqual(['r1', 'a1']);
+    expect(rest).toEqual(['r2', 'a2', 'a3']);
+  });
+
+  it('should deliver buffered events before a source failure', async () => {
+    async function* failing(): AsyncGenerator<StreamEvent> {
+      yield answer('a1', 1, 'answer');
+      yield answer('r1', 2, 'reasoning');
+      throw new Error('Connection reset');
+    }
+    const demux = new StreamDemultiplexer(failing());
+
+    await expect(collect(demux.channel('answer'))).rejects.toThrow('Connection reset');
+    const reasoning = demux.channel('reasoning');
+    expect((await reasoning.next()).value?.id).toBe('r1');
+    await expect(reasoning.next()).rejects.toThrow('Connection reset');
+  });
+
+  it('should end every channel and release the source on close', async () => {
+    const source = countingSource(events);
+    const demux = new StreamDemultiplexer(source);
+    const answers = demux.channel('answer');
+
+    await answers.next();
+    demux.close();
+
+    expect(await answers.next()).toEqual({ done: true, value: undefined });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(source.returned).toBe(true);
+  });
+});
+
+describe('createMultiplexedStream', () => {
+  it('should deliver several channels over one session', async () => {
+    const demux = createMultiplexedStream({
+      channels: {
+        reasoning: [answer('r1', 1699564800000), answer('r2', 1699564800200)],
+        answer: [answer('a1', 1699564800100)],
+      },
+      delayProfile: 'fast',
+      timing: { getDelay: () => 0 },
+      sessionId: 'multiplexed',
+    });
+
+    const [reasoning, answers] = await Promise.all([
+      collect(demux.channel('reasoning')),
+      collect(demux.channel('answer')),
+    ]);
+
+    expect(reasoning).toEqual(['r1', 'r2']);
+    expect(answers).toEqual(['a1']);
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Multiplexing - Several logical channels over one stream
+ *
+ * Real agent backends interleave reasoning, answer tokens, tool calls and
+ * table rows over a single connection. Events carry a `channel` ID, one
+ * StreamSession delivers them in order, and a demultiplexer splits them back
+ * into one async iterator per channel.
+ *
+ * Each channel has its own buffer and high-water mark. The source is only
+ * read while some channel is waiting for an event and no open channel's
+ * buffer is full, so a slow consumer slows the shared stream down instead
+ * of growing memory without bound (pull-based backpressure). As on a real
+ * connection, a full channel holds back every channel behind it; give
+ * bursty channels a larger high-water mark, or return channels you stop
+ * reading.
+ *
+ * @module lib/streaming/multiplex
+ */
+
+import type { StreamEvent } from '@/types/events';
+
+/** Channel of events that carry no `channel` ID */
+export const DEFAULT_CHANNEL = 'default';
+
+/** Default number of events buffered per channel */
+const DEFAULT_HIGH_WATER_MARK = 16;
+
+/**
+ * Options for demultiplexing a stream
+ */
+export interface DemultiplexOptions<T extends StreamEvent> {
+  /** Channel of an event (default: its `channel` ID, or 'default') */
+  channelOf?: (event: T) => string;
+
+  /** Only route these channels; events on other channels are dropped (default: all) */
+  channels?: string[];
+
+  /**
+   * Events buffered per channel before reading from the source pauses
+   * (default: 16); a record sets it per channel ID
+   */
+  highWaterMark?: number | Record<string, number>;
+}
+
+/**
+ * A pending next() call on a channel
+ */
+interface ChannelWaiter<T> {
+  resolve: (result: IteratorResult<T, undefined>) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Per-channel buffer and consumers
+ */
+interface ChannelState<T> {
+  buffer: T[];
+  highWaterMark: number;
+  waiters: ChannelWaiter<T>[];
+  closed: boolean;
+}
+
+/**
+ * Get the channel of an event
+ *
+ * @param event - Stream event
+ * @returns The event's channel ID, or 'default'
+ */
+export function getEventChannel(event: StreamEvent): string {
+  return event.channel ?? DEFAULT_CHANNEL;
+}
+
+/**
+ * Interleave per-channel events into one timeline
+ *
+ * Events are ordered by timestamp; ties keep the order of the channels in
+ * `channels`, then fixture order. Each event is tagged with its channel.
+ *
+ * @param channels - Fixture events by channel ID
+ * @returns Multiplexed events
+ *
+ * @example
+ * ```typescript
+ * const events = multiplexEvents({
+ *   reasoning: reasoningFixture,
+ *   answer: answerFixture,
+ * });
+ * const stream = createMockStream({ events, delayProfile: 'fast' });
+ * ```
+ */
+export function multiplexEvents(channels: Record<string, StreamEvent[]>): StreamEvent[] {
+  return Object.entries(channels)
+    .flatMap(([channel, events], rank) =>
+      events.map((event, index) => ({ event: { ...event, channel }, rank, index }))
+    )
+    .sort((a, b) => a.event.timestamp - b.event.timestamp || a.rank - b.rank || a.index - b.index)
+    .map(({ event }) => event);
+}
+
+/**
+ * StreamDemultiplexer - Splits one stream into per-channel async iterators
+ *
+ * Channels can be opened at any time: events that arrive before a channel
+ * is opened are buffered. Returning from a channel's iterator (e.g. `break`
+ * in `for await`) drops its buffer and any later events on it, so it no
+ * longer holds the stream back.
+ *
+ * @example
+ * ```typescript
+ * const demux = new StreamDemultiplexer(session.stream(), { highWaterMark: 8 });
+ *
+ * await Promise.all([
+ *   (async () => { for await (const e of demux.channel('reasoning')) renderReasoning(e); })(),
+ *   (async () => { for await (const e of demux.channel('answer')) renderAnswer(e); })(),
+ * ]);
+ * ```
+ */
+export class StreamDemultiplexer<T extends StreamEvent = StreamEvent> {
+  private readonly source: AsyncIterator<T>;
+  private readonly channelOf: (event: T) => string;
+  private readonly routed?: ReadonlySet<string>;
+  private readonly highWaterMark: number | Record<string, number>;
+  private readonly states = new Map<string, ChannelState<T>>();
+  private pumping: boolean = false;
+  private done: boolean = false;
+  private failure: { error: unknown } | undefined;
+
+  /**
+   * Create a demultiplexer
+   *
+   * @param source - Multiplexed stream
+   * @param options - Channel routing and buffer options
+   */
+  constructor(source: AsyncIterable<T>, options: DemultiplexOptions<T> = {}) {
+    this.source = source[Symbol.asyncIterator]();
+    this.channelOf = options.channelOf ?? getEventChannel;
+    this.routed = options.channels ? new Set(options.channels) : undefined;
+    this.highWaterMark = options.highWaterMark ?? DEFAULT_HIGH_WATER_MARK;
+  }
+
+  /**
+   * Get an async iterator over one channel's events
+   *
+   * @param id - Channel ID
+   * @returns Iterator ending when the source ends, or rejecting if it fails
+   */
+  channel(id: string): AsyncIterableIterator<T> {
+    const state = this.getState(id);
+
+    const iterator: AsyncIterableIterator<T> = {
+      next: () => this.next(state),
+      return: async () => {
+        this.closeChannel(state);
+        return { done: true, value: undefined };
+      },
+      [Symbol.asyncIterator]: () => iterator,
+    };
+
+    return iterator;
+  }
+
+  /**
+   * Get the IDs of every channel seen or opened so far
+   *
+   * @returns Channel IDs in first-seen order
+   */
+  getChannels(): string[] {
+    return [...this.states.keys()];
+  }
+
+  /**
+   * Get the number of events waiting in a channel's buffer
+   *
+   * @param id - Channel ID
+   * @returns Buffered event count
+   */
+  getBufferedCount(id: string): number {
+    return this.states.get(id)?.buffer.length ?? 0;
+  }
+
+  /**
+   * Stop reading the source and end every channel
+   *
+   * Buffered events are discarded. Idempotent.
+   */
+  close(): void {
+    if (this.done) {
+      return;
+    }
+
+    this.done = true;
+    void this.source.return?.();
+    this.states.forEach((state) => {
+      state.buffer = [];
+      this.settle(state);
+    });
+  }
+
+  private getState(id: string): ChannelState<T> {
+    let state = this.states.get(id);
+    if (!state) {
+      const limit =
+        typeof this.highWaterMark === 'number' ? this.highWaterMark : this.highWaterMark[id];
+      state = {
+        buffer: [],
+        highWaterMark: Math.max(1, limit ?? DEFAULT_HIGH_WATER_MARK),
+        waiters: [],
+        closed: false,
+      };
+      this.states.set(id, state);
+    }
+    return state;
+  }
+
+  private next(state: ChannelState<T>): Promise<IteratorResult<T, undefined>> {
+    if (state.buffer.length > 0) {
+      const value = state.buffer.shift() as T;
+      void this.pump();
+      return Promise.resolve({ done: false, value });
+    }
+
+    if (state.closed || this.done) {
+      return this.failure && !state.closed
+        ? Promise.reject(this.failure.error)
+        : Promise.resolve({ done: true, value: undefined });
+    }
+
+    return new Promise((resolve, reject) => {
+      state.waiters.push({ resolve, reject });
+      void this.pump();
+    });
+  }
+
+  private closeChannel(state: ChannelState<T>): void {
+    state.closed = true;
+    state.buffer = [];
+    this.settle(state);
+    void this.pump();
+  }
+
+  /**
+   * Read from the source while a channel is waiting and none is full
+   */
+  private async pump(): Promise<void> {
+    if (this.pumping) {
+      return;
+    }
+
+    this.pumping = true;
+    try {
+      while (!this.done && this.hasDemand() && !this.isBlocked()) {
+        const result = await this.source.next();
+
+        if (result.done) {
+          this.finish();
+          return;
+        }
+
+        this.dispatch(result.value);
+      }
+    } catch (error) {
+      this.finish({ error });
+    } finally {
+      this.pumping = false;
+    }
+  }
+
+  private dispatch(event: T): void {
+    const id = this.channelOf(event);
+    if (this.routed && !this.routed.has(id)) {
+      return;
+    }
+
+    const state = this.getState(id);
+    if (state.closed) {
+      return;
+    }
+
+    const waiter = state.waiters.shift();
+    if (waiter) {
+      waiter.resolve({ done: false, value: event });
+    } else {
+      state.buffer.push(event);
+    }
+  }
+
+  private hasDemand(): boolean {
+    return [...this.states.values()].some((state) => state.waiters.length > 0);
+  }
+
+  private isBlocked(): boolean {
+    return [...this.states.values()].some(
+      (state) => !state.closed && state.buffer.length >= state.highWaterMark
+    );
+  }
+
+  private finish(failure?: { error: unknown }): void {
+    this.done = true;
+    this.failure = failure;
+    this.states.forEach((state) => this.settle(state));
+  }
+
+  /**
+   * End the pending next() calls of a channel that has nothing more to give
+   */
+  private settle(state: ChannelState<T>): void {
+    const waiters = state.waiters.splice(0);
+    waiters.forEach((waiter) =>
+      this.failure && !state.closed
+        ? waiter.reject(this.failure.error)
+        : waiter.resolve({ done: true, value: undefined })
+    );
+  }
+}
@@ -0,0 +1,336 @@
+/**
+ * Tests for stream operators
+ *
+ * @module lib/streaming/operators.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { VirtualClock } from '@/lib/utils/clock';
+import { delay } from '@/lib/utils/delay';
+import {
+  pipe,
+  map,
+  filter,
+  scan,
+  tap,
+  bufferTime,
+  throttle,
+  debounce,
+  takeUntil,
+  merge,
+  zip,
+} from './operators';
+
+/**
+ * Source that emits values synchronously and records whether it was returned
+ */
+function trackedSource<T>(values: T[]) {
+  const source = {
+    pulled: 0,
+    returned: false,
+    async *[Symbol.asyncIterator]() {
+      try {
+        for (const value of values) {
+          source.pulled++;
+          yield value;
+        }
+      } finally {
+        source.returned = true;
+      }
+    },
+  };
+  return source;
+}
+
+/**
+ * Source that emits each value at its virtual time
+ */
+function timedSource<T>(clock: VirtualClock, schedule: Array<[number, T]>) {
+  const source = {
+    returned: false,
+    async *[Symbol.asyncIterator]() {
+      try {
+        for (const [at, value] of schedule) {
+          await delay(at - clock.now(), clock);
+          yield value;
+        }
+      } finally {
+        source.returned = true;
+      }
+    },
+  };
+  return source;
+}
+
+async function collect<T>(stream: AsyncIterable<T>): Promise<T[]> {
+  const values: T[] = [];
+  for await (const value of stream) {
+    values.push(value);
+  }
+  return values;
+}
+
+/**
+ * Collect a stream in virtual time, recording when each value arrived
+ */
+async function collectTimed<T>(
+  clock: VirtualClock,
+  stream: AsyncIterable<T>
+): Promise<Array<[number, T]>> {
+  const values: Array<[number, T]> = [];
+  const done = (async () => {
+    for await (const value of stream) {
+      values.push([clock.now(), value]);
+    }
+  })();
+  await clock.runAll();
+  await done;
+  return values;
+}
+
+describe('stream operators', () => {
+  describe('per-value operators', () => {
+    it('should compose map, filter, scan and tap with pipe', async () => {
+      const seen: number[] = [];
+
+      const result = await collect(
+        pipe(
+          trackedSource([1, 2, 3, 4, 5]),
+          tap((value) => {
+            seen.push(value);
+          }),
+          filter((value) => value % 2 === 1),
+          map(async (value, index) => `${index}:${value}`),
+          scan((joined: string, part: string) => (joined ? `${joined},${part}` : part), '')
+        )
+      );
+
+      expect(seen).toEqual([1, 2, 3, 4, 5]);
+      expect(result).toEqual(['0:1', '0:1,1:3', '0:1,1:3,2:5']);
+    });
+
+    it('should narrow the type with a type-guard filter', async () => {
+      const values: Array<string | number> = ['a', 1, 'b', 2];
+      const isString = (value: string | number): value is string => typeof value === 'string';
+
+      const strings = await collect(pipe(trackedSource(values), filter(isString)));
+
+      expect(strings.map((value) => value.toUpperCase())).toEqual(['A', 'B']);
+    });
+
+    it('should return the source when the consumer stops early', async () => {
+      const source = trackedSource([1, 2, 3, 4, 5]);
+      const stream = pipe(
+        source,
+        map((value: number) => value * 10),
+        filter(() => true)
+      );
+
+      for await (const value of stream) {
+        if (value === 20) {
+          break;
+        }
+      }
+
+      expect(source.pulled).toBe(2);
+      expect(source.returned).toBe(true);
+    });
+  });
+
+  describe('bufferTime', () => {
+    it('should batch values by time window and flush the rest at the end', async () => {
+      const clock = new VirtualClock();
+      const source = timedSource(clock, [
+        [10, 'a'],
+        [50, 'b'],
+        [120, 'c'],
+        [400, 'd'],
+        [450, 'e'],
+      ]);
+
+      const batches = await collectTimed(clock, pipe(source, bufferTime(100, { clock })));
+
+      expect(batches).toEqual([
+        [110, ['a', 'b']],
+        [220, ['c']],
+        [450, ['d', 'e']],
+      ]);
+      expect(clock.getPendingTimers()).toBe(0);
+    });
+
+    it('should emit early when a batch reaches maxSize', async () => {
+      const clock = new VirtualClock();
+      const batches = await collect(
+        pipe(trackedSource([1, 2, 3, 4, 5]), bufferTime(100, { maxSize: 2, clock }))
+      );
+
+      expect(batches).toEqual([[1, 2], [3, 4], [5]]);
+      expect(clock.getPendingTimers()).toBe(0);
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => bufferTime(-1)).toThrow(
+        'bufferTime duration must be a non-negative number, got -1'
+      );
+      expect(() => bufferTime(100, { maxSize: 0 })).toThrow(
+        'bufferTime maxSize must be a positive integer, got 0'
+      );
+    });
+  });
+
+  describe('throttle', () => {
+    const schedule: Array<[number, string]> = [
+      [0, 'a'],
+      [30, 'b'],
+      [60, 'c'],
+      [120, 'd'],
+      [130, 'e'],
+    ];
+
+    it('should emit the first value of each window', async () => {
+      const clock = new VirtualClock();
+
+      const values = await collectTimed(
+        clock,
+        pipe(timedSource(clock, schedule), throttle(100, { clock }))
+      );
+
+      expect(values).toEqual([
+        [0, 'a'],
+        [120, 'd'],
+      ]);
+    });
+
+    it('should emit the latest suppressed value when the window closes or the source ends', async () => {
+      const clock = new VirtualClock();
+
+      const values = await collectTimed(
+        clock,
+        pipe(timedSource(clock, schedule), throttle(100, { trailing: true, clock }))
+      );
+
+      expect(values).toEqual([
+        [0, 'a'],
+        [100, 'c'],
+        [130, 'e'],
+      ]);
+    });
+  });
+
+  describe('debounce', () => {
+    it('should emit a value only after a quiet period', async () => {
+      const clock = new VirtualClock();
+      const source = timedSource(clock, [
+        [0, 'a'],
+        [20, 'b'],
+        [100, 'c'],
+        [300, 'd'],
+        [310, 'e'],
+      ]);
+
+      const values = await collectTimed(clock, pipe(source, debounce(50, { clock })));
+
+      expect(values).toEqual([
+        [70, 'b'],
+        [150, 'c'],
+        [310, 'e'],
+      ]);
+    });
+  });
+
+  describe('takeUntil', () => {
+    it('should end the stream and return the source when the signal aborts', async () => {
+      const clock = new VirtualClock();
+      const controller = new AbortController();
+      const source = timedSource(clock, [
+        [100, 1],
+        [200, 2],
+        [300, 3],
+      ]);
+
+      const values: number[] = [];
+      const done = (async () => {
+        for await (const value of pipe(source, takeUntil(controller.signal))) {
+          values.push(value);
+        }
+      })();
+
+      await clock.advance(150);
+      controller.abort();
+      await done;
+      await clock.runAll();
+
+      expect(values).toEqual([1]);
+      expect(source.returned).toBe(true);
+    });
+
+    it('should not read the source if the signal has already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const source = trackedSource([1, 2]);
+
+      expect(await collect(pipe(source, takeUntil(controller.signal)))).toEqual([]);
+      expect(source.pulled).toBe(0);
+    });
+  });
+
+  describe('merge', () => {
+    it('should interleave values in arrival order', async () => {
+      const clock = new VirtualClock();
+      const reasoning = timedSource(clock, [
+        [10, 'r1'],
+        [40, 'r2'],
+      ]);
+      const answer = timedSource(clock, [
+        [20, 'a1'],
+        [30, 'a2'],
+        [50, 'a3'],
+      ]);
+
+      const values = await collectTimed(clock, merge(reasoning, answer));
+
+      expect(values.map(([, value]) => value)).toEqual(['r1', 'a1', 'a2', 'r2', 'a3']);
+    });
+
+    it('should return every source when the consumer stops early', async () => {
+      const first = trackedSource([1, 2, 3]);
+      const second = trackedSource([4, 5, 6]);
+
+      for await (const value of merge(first, second)) {
+        if (value) {
+          break;
+        }
+      }
+
+      expect(first.returned).toBe(true);
+      expect(second.returned).toBe(true);
+    });
+
+    it('should return the other sources when one fails', async () => {
+      const healthy = trackedSource([1, 2, 3]);
+      async function* failing(): AsyncGenerator<number> {
+        yield 0;
+        throw new Error('Connection reset');
+      }
+
+      await expect(collect(merge(healthy, failing()))).rejects.toThrow('Connection reset');
+      expect(healthy.returned).toBe(true);
+    });
+  });
+
+  describe('zip', () => {
+    it('should pair values by position and end with the shortest source', async () => {
+      const questions = trackedSource(['q1', 'q2', 'q3']);
+      const answers = trackedSource([1, 2]);
+
+      const pairs = await collect(zip<[string, number]>(questions, answers));
+
+      expect(pairs).toEqual([
+        ['q1', 1],
+        ['q2', 2],
+      ]);
+      expect(questions.returned).toBe(true);
+      expect(answers.returned).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,622 @@
+/**
+ * Stream Operators - Composable transformations for async event streams
+ *
+ * Pattern hooks consume streams with hand-written `for await` loops that mix
+ * transport concerns (batching, rate limiting, cancellation) with state
+ * updates. These operators express the transport concerns declaratively:
+ *
+ * ```typescript
+ * const batches = pipe(
+ *   createMockTabularStream(config),
+ *   takeUntil(controller.signal),
+ *   filter((event) => event.type === 'table_row'),
+ *   bufferTime(100)
+ * );
+ *
+ * for await (const rows of batches) {
+ *   setRows((previous) => [...previous, ...rows.map((event) => event.data)]);
+ * }
+ * ```
+ *
+ * Every operator is lazy (nothing is read until the result is iterated) and
+ * works on any async iterable, including pattern-local event types.
+ * Cancellation propagates upstream: returning from the result (e.g. `break`
+ * in `for await`) returns every source it reads from. A source with a read
+ * in flight is returned without waiting for that read to finish.
+ *
+ * Time-based operators take an optional Clock, so they run in virtual time
+ * in tests.
+ *
+ * @module lib/streaming/operators
+ */
+
+import { systemClock, type Clock, type ClockTimer } from '@/lib/utils/clock';
+
+/**
+ * Transforms one stream into another
+ */
+export type StreamOperator<T, R = T> = (
+  source: AsyncIterable<T>
+) => AsyncGenerator<R, void, undefined>;
+
+/**
+ * Options shared by time-based operators
+ */
+export interface TimeOperatorOptions {
+  /** Clock to wait on (default: the system clock) */
+  clock?: Clock;
+}
+
+/**
+ * bufferTime options
+ */
+export interface BufferTimeOptions extends TimeOperatorOptions {
+  /** Emit a batch early once it holds this many values (default: unlimited) */
+  maxSize?: number;
+}
+
+/**
+ * throttle options
+ */
+export interface ThrottleOptions extends TimeOperatorOptions {
+  /** Emit the latest suppressed value when the window closes (default: false) */
+  trailing?: boolean;
+}
+
+// ============================================================================
+// Source Reading
+// ============================================================================
+
+/** Result of a read that was interrupted by a timer or a signal */
+const INTERRUPTED = Symbol('interrupted');
+
+/**
+ * Reads a source with at most one next() in flight
+ *
+ * A read can be raced against a timer or a signal: if it loses, the result
+ * in flight is kept for the following read, so no value is lost.
+ */
+class SourceReader<T> {
+  private readonly iterator: AsyncIterator<T>;
+  private pending: Promise<IteratorResult<T>> | null = null;
+
+  constructor(source: AsyncIterable<T>) {
+    this.iterator = source[Symbol.asyncIterator]();
+  }
+
+  /**
+   * Get the result in flight, starting a read if there is none
+   */
+  peek(): Promise<IteratorResult<T>> {
+    this.pending ??= this.iterator.next();
+    return this.pending;
+  }
+
+  /**
+   * Mark the result in flight as taken, so the next peek() reads a new one
+   */
+  consume(): void {
+    this.pending = null;
+  }
+
+  /**
+   * Read the next result, unless `interrupt` resolves first
+   */
+  async next(interrupt?: Promise<unknown>): Promise<IteratorResult<T> | typeof INTERRUPTED> {
+    const read = this.peek();
+    const result = interrupt
+      ? await Promise.race([read, interrupt.then((): typeof INTERRUPTED => INTERRUPTED)])
+      : await read;
+
+    if (result !== INTERRUPTED) {
+      this.consume();
+    }
+    return result;
+  }
+
+  /**
+   * Return the source, without waiting if a read is in flight
+   */
+  async release(): Promise<void> {
+    if (this.pending) {
+      this.pending.catch(() => undefined);
+      void this.iterator.return?.();
+      return;
+    }
+
+    await this.iterator.return?.();
+  }
+}
+
+/**
+ * A cancellable timer on a clock
+ */
+interface OperatorTimer {
+  elapsed: Promise<void>;
+  cancel: () => void;
+}
+
+function startTimer(ms: number, clock: Clock): OperatorTimer {
+  let handle: ClockTimer;
+  const elapsed = new Promise<void>((resolve) => {
+    handle = clock.setTimeout(resolve, ms);
+  });
+
+  return { elapsed, cancel: () => clock.clearTimeout(handle) };
+}
+
+function assertDuration(operator: string, ms: number): void {
+  if (!Number.isFinite(ms) || ms < 0) {
+    throw new Error(`${operator} duration must be a non-negative number, got ${ms}`);
+  }
+}
+
+// ============================================================================
+// Composition
+// ============================================================================
+
+/**
+ * Apply operators to a stream, left to right
+ *
+ * @param source - Stream to transform
+ * @param operators - Operators to apply in order
+ * @returns Transformed stream
+ *
+ * @example
+ * ```typescript
+ * const answers = pipe(
+ *   session.stream(),
+ *   filter(isAnswerEvent),
+ *   map((event) => event.data.text)
+ * );
+ * ```
+ */
+export function pipe<A, B>(
+  source: AsyncIterable<A>,
+  op1: StreamOperator<A, B>
+): AsyncGenerator<B, void, undefined>;
+export function pipe<A, B, C>(
+  source: AsyncIterable<A>,
+  op1: StreamOperator<A, B>,
+  op2: StreamOperator<B, C>
+): AsyncGenerator<C, void, undefined>;
+export function pipe<A, B, C, D>(
+  source: AsyncIterable<A>,
+  op1: StreamOperator<A, B>,
+  op2: StreamOperator<B, C>,
+  op3: StreamOperator<C, D>
+): AsyncGenerator<D, void, undefined>;
+export function pipe<A, B, C, D, E>(
+  source: AsyncIterable<A>,
+  op1: StreamOperator<A, B>,
+  op2: StreamOperator<B, C>,
+  op3: StreamOperator<C, D>,
+  op4: StreamOperator<D, E>
+): AsyncGenerator<E, void, undefined>;
+export function pipe<A, B, C, D, E, F>(
+  source: AsyncIterable<A>,
+  op1: StreamOperator<A, B>,
+  op2: StreamOperator<B, C>,
+  op3: StreamOperator<C, D>,
+  op4: StreamOperator<D, E>,
+  op5: StreamOperator<E, F>
+): AsyncGenerator<F, void, undefined>;
+export function pipe<A, B, C, D, E, F, G>(
+  source: AsyncIterable<A>,
+  op1: StreamOperator<A, B>,
+  op2: StreamOperator<B, C>,
+  op3: StreamOperator<C, D>,
+  op4: StreamOperator<D, E>,
+  op5: StreamOperator<E, F>,
+  op6: StreamOperator<F, G>
+): AsyncGenerator<G, void, undefined>;
+export function pipe(
+  source: AsyncIterable<unknown>,
+  ...operators: StreamOperator<unknown, unknown>[]
+): AsyncIterable<unknown> {
+  return operators.reduce((stream, operator) => operator(stream), source);
+}
+
+// ============================================================================
+// Per-Value Operators
+// ============================================================================
+
+/**
+ * Transform each value
+ *
+ * @param project - Maps a value (and its index) to the value to emit; may be async
+ * @returns Operator
+ */
+export function map<T, R>(
+  project: (value: T, index: number) => R | Promise<R>
+): StreamOperator<T, R> {
+  return async function* (source) {
+    let index = 0;
+    for await (const value of source) {
+      yield await project(value, index++);
+    }
+  };
+}
+
+/**
+ * Keep only the values that pass a predicate
+ *
+ * A type-guard predicate narrows the emitted type.
+ *
+ * @param predicate - Decides whether to emit a value; may be async
+ * @returns Operator
+ */
+export function filter<T, S extends T>(
+  predicate: (value: T, index: number) => value is S
+): StreamOperator<T, S>;
+export function filter<T>(
+  predicate: (value: T, index: number) => boolean | Promise<boolean>
+): StreamOperator<T>;
+export function filter<T>(
+  predicate: (value: T, index: number) => boolean | Promise<boolean>
+): StreamOperator<T> {
+  return async function* (source) {
+    let index = 0;
+    for await (const value of source) {
+      if (await predicate(value, index++)) {
+        yield value;
+      }
+    }
+  };
+}
+
+/**
+ * Fold values into a running state, emitting the state after each one
+ *
+ * @param reducer - Combines the state with a value
+ * @param seed - State before the first value
+ * @returns Operator
+ *
+ * @example
+ * ```typescript
+ * const text = pipe(answerTokens, scan((text, token) => text + token, ''));
+ * ```
+ */
+export function scan<T, S>(
+  reducer: (state: S, value: T, index: number) => S,
+  seed: S
+): StreamOperator<T, S> {
+  return async function* (source) {
+    let state = seed;
+    let index = 0;
+    for await (const value of source) {
+      state = reducer(state, value, index++);
+      yield state;
+    }
+  };
+}
+
+/**
+ * Run a side effect for each value and pass it through unchanged
+ *
+ * @param effect - Called with each value before it is emitted; awaited if async
+ * @returns Operator
+ */
+export function tap<T>(
+  effect: (value: T, index: number) => void | Promise<void>
+): StreamOperator<T> {
+  return async function* (source) {
+    let index = 0;
+    for await (const value of source) {
+      await effect(value, index++);
+      yield value;
+    }
+  };
+}
+
+// ============================================================================
+// Time-Based Operators
+// ============================================================================
+
+/**
+ * Collect values into batches, one per time window
+ *
+ * A window opens when the first value of a batch arrives and the batch is
+ * emitted when it closes, so idle periods emit nothing. Remaining values
+ * are emitted when the source ends.
+ *
+ * @param ms - Window length in milliseconds
+ * @param options - Maximum batch size and clock
+ * @returns Operator emitting non-empty arrays
+ * @throws Error if the duration or maximum size is invalid
+ *
+ * @example
+ * ```typescript
+ * // Re-render the table at most every 100ms, however fast rows arrive
+ * for await (const rows of pipe(rowEvents, bufferTime(100))) {
+ *   appendRows(rows);
+ * }
+ * ```
+ */
+export function bufferTime<T>(ms: number, options: BufferTimeOptions = {}): StreamOperator<T, T[]> {
+  const { maxSize = Infinity, clock = systemClock } = options;
+
+  assertDuration('bufferTime', ms);
+  if (maxSize !== Infinity && (!Number.isInteger(maxSize) || maxSize < 1)) {
+    throw new Error(`bufferTime maxSize must be a positive integer, got ${maxSize}`);
+  }
+
+  return async function* (source) {
+    const reader = new SourceReader(source);
+    let batch: T[] = [];
+    let window: OperatorTimer | undefined;
+
+    const flush = (): T[] => {
+      window?.cancel();
+      window = undefined;
+      const full = batch;
+      batch = [];
+      return full;
+    };
+
+    try {
+      while (true) {
+        const result = await reader.next(window?.elapsed);
+
+        if (result === INTERRUPTED) {
+          yield flush();
+          continue;
+        }
+        if (result.done) {
+          break;
+        }
+
+        batch.push(result.value);
+        window ??= startTimer(ms, clock);
+
+        if (batch.length >= maxSize) {
+          yield flush();
+        }
+      }
+
+      if (batch.length > 0) {
+        yield flush();
+      }
+    } finally {
+      window?.cancel();
+      await reader.release();
+    }
+  };
+}
+
+/**
+ * Emit a value, then ignore values for a time window
+ *
+ * With `trailing`, the latest value ignored during a window is emitted when
+ * the window closes (starting a new window), or when the source ends.
+ *
+ * @param ms - Window length in milliseconds
+ * @param options - Trailing emission and clock
+ * @returns Operator
+ * @throws Error if the duration is invalid
+ */
+export function throttle<T>(ms: number, options: ThrottleOptions = {}): StreamOperator<T> {
+  const { trailing = false, clock = systemClock } = options;
+
+  assertDuration('throttle', ms);
+
+  return async function* (source) {
+    const reader = new SourceReader(source);
+    let window: OperatorTimer | undefined;
+    let latest: { value: T } | undefined;
+
+    try {
+      while (true) {
+        const result = await reader.next(window?.elapsed);
+
+        if (result === INTERRUPTED) {
+          window = undefined;
+          if (latest) {
+            const { value } = latest;
+            latest = undefined;
+            window = startTimer(ms, clock);
+            yield value;
+          }
+          continue;
+        }
+        if (result.done) {
+          break;
+        }
+
+        if (!window) {
+          window = startTimer(ms, clock);
+          yield result.value;
+        } else if (trailing) {
+          latest = { value: result.value };
+        }
+      }
+
+      if (latest) {
+        yield latest.value;
+      }
+    } finally {
+      window?.cancel();
+      await reader.release();
+    }
+  };
+}
+
+/**
+ * Emit a value only once no newer value has arrived for a time window
+ *
+ * The pending value is emitted when the source ends.
+ *
+ * @param ms - Quiet period in milliseconds
+ * @param options - Clock
+ * @returns Operator
+ * @throws Error if the duration is invalid
+ */
+export function debounce<T>(ms: number, options: TimeOperatorOptions = {}): StreamOperator<T> {
+  const { clock = systemClock } = options;
+
+  assertDuration('debounce', ms);
+
+  return async function* (source) {
+    const reader = new SourceReader(source);
+    let timer: OperatorTimer | undefined;
+    let latest: { value: T } | undefined;
+
+    try {
+      while (true) {
+        const result = await reader.next(timer?.elapsed);
+
+        if (result === INTERRUPTED) {
+          timer = undefined;
+          if (latest) {
+            const { value } = latest;
+            latest = undefined;
+            yield value;
+          }
+          continue;
+        }
+
+        timer?.cancel();
+        timer = undefined;
+        if (result.done) {
+          break;
+        }
+
+        latest = { value: result.value };
+        timer = startTimer(ms, clock);
+      }
+
+      if (latest) {
+        yield latest.value;
+      }
+    } finally {
+      timer?.cancel();
+      await reader.release();
+    }
+  };
+}
+
+// ============================================================================
+// Cancellation
+// ============================================================================
+
+/**
+ * End the stream when a signal aborts
+ *
+ * The stream ends immediately, even while waiting for the source, and the
+ * source is returned.
+ *
+ * @param signal - Abort signal, e.g. from an AbortController owned by an effect
+ * @returns Operator
+ *
+ * @example
+ * ```typescript
+ * useEffect(() => {
+ *   const controller = new AbortController();
+ *   void consume(pipe(createStream(), takeUntil(controller.signal)));
+ *   return () => controller.abort();
+ * }, []);
+ * ```
+ */
+export function takeUntil<T>(signal: AbortSignal): StreamOperator<T> {
+  return async function* (source) {
+    const reader = new SourceReader(source);
+    let onAbort: (() => void) | undefined;
+    const aborted = new Promise<void>((resolve) => {
+      onAbort = () => resolve();
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      while (!signal.aborted) {
+        const result = await reader.next(aborted);
+        if (result === INTERRUPTED || result.done) {
+          break;
+        }
+        yield result.value;
+      }
+    } finally {
+      if (onAbort) {
+        signal.removeEventListener('abort', onAbort);
+      }
+      await reader.release();
+    }
+  };
+}
+
+// ============================================================================
+// Combining Streams
+// ============================================================================
+
+/**
+ * Interleave several streams, emitting values as they arrive
+ *
+ * Ends when every source has ended. If a source fails, the others are
+ * returned and the error is rethrown.
+ *
+ * @param sources - Streams to read concurrently
+ * @returns Merged stream
+ *
+ * @example
+ * ```typescript
+ * const events = merge(reasoningSession.stream(), answerSession.stream());
+ * ```
+ */
+export async function* merge<T>(
+  ...sources: AsyncIterable<T>[]
+): AsyncGenerator<T, void, undefined> {
+  const readers = sources.map((source) => new SourceReader(source));
+  let active = readers;
+
+  try {
+    while (active.length > 0) {
+      const { reader, result } = await Promise.race(
+        active.map((reader) => reader.peek().then((result) => ({ reader, result })))
+      );
+      reader.consume();
+
+      if (result.done) {
+        active = active.filter((candidate) => candidate !== reader);
+        continue;
+      }
+      yield result.value;
+    }
+  } finally {
+    await Promise.all(readers.map((reader) => reader.release()));
+  }
+}
+
+/**
+ * Pair up values from several streams by position
+ *
+ * Emits a tuple once every source has produced its next value, and ends as
+ * soon as any source ends.
+ *
+ * @param sources - Streams to read in lockstep
+ * @returns Stream of tuples
+ *
+ * @example
+ * ```typescript
+ * for await (const [question, answer] of zip(questions, answers)) {
+ *   renderTurn(question, answer);
+ * }
+ * ```
+ */
+export async function* zip<T extends unknown[]>(
+  ...sources: { [K in keyof T]: AsyncIterable<T[K]> }
+): AsyncGenerator<T, void, undefined> {
+  const readers = (sources as AsyncIterable<unknown>[]).map((source) => new SourceReader(source));
+
+  try {
+    while (readers.length > 0) {
+      const results = await Promise.all(readers.map((reader) => reader.peek()));
+      readers.forEach((reader) => reader.consume());
+
+      if (results.some((result) => result.done)) {
+        return;
+      }
+      yield results.map((result) => result.value) as T;
+    }
+  } finally {
+    await Promise.all(readers.map((reader) => reader.release()));
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Tests for incremental JSON parsing
+ *
+ * @module lib/streaming/partialJson.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { chunkText } from './tokenChunking';
+import { PartialJsonParser, parsePartialJson } from './partialJson';
+
+const payload = {
+  projectName: 'Mobile App Redesign',
+  description: 'Quotes \\"escaped\\" é 🚀\nnew line',
+  budget: -75000.5e-1,
+  teamIds: ['550e8400-e29b-41d4-a716-446655440001', '550e8400-e29b-41d4-a716-446655440002'],
+  archived: false,
+  parent: null,
+  owner: { userId: '550e8400', email: 'sarah.chen@streamflow.pm', roles: [[], {}] },
+};
+
+describe('partialJson', () => {
+  describe('PartialJsonParser', () => {
+    it('should end with JSON.parse results, whatever the fragments', () => {
+      const text = JSON.stringify(payload, null, 2).replace('"Mobile', '"\\u004dobile');
+
+      for (const maxTokens of [1, 3, 8]) {
+        const parser = new PartialJsonParser();
+        chunkText(text, { maxTokens }).forEach((delta) => {
+          expect(parser.write(delta).error).toBeNull();
+        });
+
+        const snapshot = parser.end();
+        expect(snapshot.value).toEqual(JSON.parse(text));
+        expect(snapshot.complete).toBe(true);
+        expect(snapshot.openPaths).toEqual([]);
+      }
+
+      // One character at a time, splitting every escape sequence
+      const parser = new PartialJsonParser();
+      [...text].forEach((char) => parser.write(char));
+      expect(parser.end().value).toEqual(JSON.parse(text));
+    });
+
+    it('should expose open strings and numbers but not unfinished keys or literals', () => {
+      expect(parsePartialJson('{"projectName": "Mobile Ap').value).toEqual({
+        projectName: 'Mobile Ap',
+      });
+      expect(parsePartialJson('{"budget": -75').value).toEqual({ budget: -75 });
+      expect(parsePartialJson('{"budget": 7.').value).toEqual({ budget: 7 });
+      expect(parsePartialJson('{"budget": -').value).toEqual({});
+      expect(parsePartialJson('{"archived": fal').value).toEqual({});
+      expect(parsePartialJson('{"a": 1, "tea').value).toEqual({ a: 1 });
+      expect(parsePartialJson('{"teamIds": ["550e8400", "6ba7').value).toEqual({
+        teamIds: ['550e8400', '6ba7'],
+      });
+      expect(parsePartialJson('{"name": "caf\\u00').value).toEqual({ name: 'caf' });
+      expect(parsePartialJson('').value).toBeUndefined();
+    });
+
+    it('should report complete and open paths', () => {
+      const snapshot = parsePartialJson(
+        '{"projectName": "Mobile App", "teamIds": ["a", "b"], "owner": {"userId": "u1", "email": "sarah'
+      );
+
+      expect(snapshot.completePaths).toEqual([
+        'projectName',
+        'teamIds.0',
+        'teamIds.1',
+        'teamIds',
+        'owner.userId',
+      ]);
+      expect(snapshot.openPaths).toEqual(['', 'owner', 'owner.email']);
+      expect(snapshot.complete).toBe(false);
+    });
+
+    it('should only complete a number once a delimiter arrives', () => {
+      const parser = new PartialJsonParser();
+
+      expect(parser.write('{"budget": 75').openPaths).toEqual(['', 'budget']);
+      expect(parser.write('000').value).toEqual({ budget: 75000 });
+      expect(parser.write('}').completePaths).toEqual(['budget', '']);
+      expect(parsePartialJson('42').complete).toBe(false);
+      expect(new PartialJsonParser().end().error?.message).toBe('Unexpected end of JSON input');
+    });
+
+    it('should keep completed values between snapshots', () => {
+      const parser = new PartialJsonParser();
+
+      const first = parser.write('{"owner": {"userId": "u1"}, "teamIds": ["a"');
+      const second = parser.write(', "b"');
+      const firstValue = first.value as { owner: object; teamIds: string[] };
+      const secondValue = second.value as { owner: object; teamIds: string[] };
+
+      expect(secondValue.owner).toBe(firstValue.owner);
+      expect(secondValue).not.toBe(firstValue);
+      expect(firstValue.teamIds).toEqual(['a']);
+      expect(parser.getSnapshot()).toBe(second);
+    });
+
+    it('should locate syntax errors precisely', () => {
+      const cases: Array<[string, string, number, number, number]> = [
+        ['{"budget": 75k}', 'Unexpected "k", expected "," or "}"', 13, 1, 14],
+        ['{\n  "a": 1,\n  }', 'Unexpected "}", expected a string key', 14, 3, 3],
+        ['{"a" 1}', 'Unexpected "1", expected ":" after key', 5, 1, 6],
+        ['[1, 2,]', 'Unexpected "]", expected a value', 6, 1, 7],
+        ['{"a": tru }', 'Unexpected " ", expected "true"', 9, 1, 10],
+        ['{"a": 1.}', 'Unexpected "}" in number', 8, 1, 9],
+        ['{"a": "\\x"}', 'Invalid escape sequence "\\\\x"', 8, 1, 9],
+        ['{"a": "\\u12G4"}', 'Invalid unicode escape "\\\\u12G"', 11, 1, 12],
+        ['{"a": "line\nbreak"}', 'Unescaped control character "\\n" in string', 11, 1, 12],
+        ['{} {}', 'Unexpected "{" after the JSON value', 3, 1, 4],
+      ];
+
+      cases.forEach(([text, message, offset, line, column]) => {
+        expect(parsePartialJson(text).error).toEqual({ message, offset, line, column });
+      });
+    });
+
+    it('should stop at the first error and report the end of unfinished text', () => {
+      const parser = new PartialJsonParser();
+
+      const failed = parser.write('{"a": 1x, "b": 2}');
+      expect(parser.write('more')).toBe(failed);
+      expect(failed.value).toEqual({ a: 1 });
+
+      const unfinished = new PartialJsonParser();
+      unfinished.write('{"a": [1,\n');
+      expect(unfinished.end().error).toEqual({
+        message: 'Unexpected end of JSON input',
+        offset: 10,
+        line: 2,
+        column: 1,
+      });
+      expect(() => unfinished.write('2]}')).toThrow(
+        'Cannot write to a PartialJsonParser after end()'
+      );
+    });
+
+    it('should keep __proto__ keys as own properties', () => {
+      const value = parsePartialJson('{"__proto__": {"admin": true}}').value as object;
+
+      expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+      expect(Object.keys(value)).toEqual(['__proto__']);
+    });
+
+    it('should start over after reset', () => {
+      const parser = new PartialJsonParser();
+      parser.write('{"a": oops');
+      parser.reset();
+
+      expect(parser.write('[true, null]').value).toEqual([true, null]);
+      expect(parser.getSnapshot().complete).toBe(true);
+    });
+  });
+});
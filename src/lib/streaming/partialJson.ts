@@ -0,0 +1,648 @@
+/**
+ * Partial JSON - Incremental parser for JSON streamed as text fragments
+ *
+ * LLMs emit structured output as raw JSON text, a few characters at a time:
+ * a fragment may end inside a key, halfway through a number or in the middle
+ * of a `\u` escape. PartialJsonParser accepts arbitrary string deltas, only
+ * scans the new characters, and after each delta reports:
+ * - the best-effort value so far (open strings and numbers included,
+ *   unfinished keys and literals left out)
+ * - which JSON paths are complete and which are still open
+ * - the precise location of the first syntax error
+ *
+ * Paths use the dot notation of validation issue paths (`owner.email`,
+ * `teamIds.0`); the root value's path is `''`. Completed values are never
+ * copied again, so they keep their identity from one snapshot to the next.
+ *
+ * @module lib/streaming/partialJson
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Any JSON value
+ */
+export type JsonValue =
+  null | boolean | number | string | JsonValue[] | { [key: string]: JsonValue };
+
+/**
+ * Location of a JSON syntax error
+ */
+export interface JsonSyntaxError {
+  /** What was wrong */
+  message: string;
+
+  /** Zero-based offset into the whole text received so far */
+  offset: number;
+
+  /** One-based line */
+  line: number;
+
+  /** One-based column */
+  column: number;
+}
+
+/**
+ * What the parser knows after a delta
+ */
+export interface PartialJsonSnapshot {
+  /** Best-effort value so far (undefined until a value has started) */
+  value: JsonValue | undefined;
+
+  /** Whether the root value is complete */
+  complete: boolean;
+
+  /** Paths of completed values, in completion order */
+  completePaths: string[];
+
+  /** Paths of values still being received, outermost first */
+  openPaths: string[];
+
+  /** First syntax error; nothing after it is parsed */
+  error: JsonSyntaxError | null;
+}
+
+type JsonContainer = JsonValue[] | { [key: string]: JsonValue };
+
+/**
+ * An open object or array
+ */
+interface Frame {
+  container: JsonContainer;
+  path: string;
+
+  /** Key of the member being parsed (objects only) */
+  key: string | undefined;
+}
+
+/**
+ * What the parser expects next
+ */
+type Mode =
+  | 'value' // a value
+  | 'firstValue' // a value or ']' (right after '[')
+  | 'key' // a key (after ',')
+  | 'firstKey' // a key or '}' (right after '{')
+  | 'colon'
+  | 'afterValue' // ',' or the closing bracket
+  | 'string'
+  | 'number'
+  | 'literal'
+  | 'done';
+
+/**
+ * Position within a number, following the JSON number grammar
+ */
+type NumberState =
+  | 'sign'
+  | 'zero'
+  | 'integer'
+  | 'point'
+  | 'fraction'
+  | 'exponent'
+  | 'exponentSign'
+  | 'exponentDigits';
+
+// ============================================================================
+// Grammar Helpers
+// ============================================================================
+
+const ESCAPES: Readonly<Record<string, string>> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+const LITERALS: Readonly<Record<string, { text: string; value: JsonValue }>> = {
+  t: { text: 'true', value: true },
+  f: { text: 'false', value: false },
+  n: { text: 'null', value: null },
+};
+
+/** Number states in which the number may end */
+const NUMBER_END_STATES: ReadonlySet<NumberState> = new Set([
+  'zero',
+  'integer',
+  'fraction',
+  'exponentDigits',
+]);
+
+function isDigit(char: string): boolean {
+  return char >= '0' && char <= '9';
+}
+
+function isWhitespace(char: string): boolean {
+  return char === ' ' || char === '\t' || char === '\n' || char === '\r';
+}
+
+/**
+ * Advance the number grammar by one character
+ *
+ * @returns Next state, or null if the character cannot continue the number
+ */
+function nextNumberState(state: NumberState, char: string): NumberState | null {
+  const exponent = char === 'e' || char === 'E';
+
+  switch (state) {
+    case 'sign':
+      return char === '0' ? 'zero' : isDigit(char) ? 'integer' : null;
+    case 'zero':
+      return char === '.' ? 'point' : exponent ? 'exponent' : null;
+    case 'integer':
+      return isDigit(char) ? 'integer' : char === '.' ? 'point' : exponent ? 'exponent' : null;
+    case 'point':
+      return isDigit(char) ? 'fraction' : null;
+    case 'fraction':
+      return isDigit(char) ? 'fraction' : exponent ? 'exponent' : null;
+    case 'exponent':
+      if (char === '+' || char === '-') {
+        return 'exponentSign';
+      }
+      return isDigit(char) ? 'exponentDigits' : null;
+    case 'exponentSign':
+    case 'exponentDigits':
+      return isDigit(char) ? 'exponentDigits' : null;
+  }
+}
+
+/**
+ * Best-effort value of an unfinished number (`12.` is 12, `-` is nothing)
+ */
+function partialNumber(text: string): number | undefined {
+  const digits = text.replace(/[^0-9]+$/, '');
+  return /[0-9]/.test(digits) ? Number(digits) : undefined;
+}
+
+function joinPath(parent: string, segment: string | number): string {
+  return parent === '' ? String(segment) : `${parent}.${segment}`;
+}
+
+/**
+ * Set an object member, keeping `__proto__` an own property as JSON.parse does
+ */
+function setMember(object: { [key: string]: JsonValue }, key: string, value: JsonValue): void {
+  if (key === '__proto__') {
+    Object.defineProperty(object, key, {
+      value,
+      enumerable: true,
+      writable: true,
+      configurable: true,
+    });
+  } else {
+    object[key] = value;
+  }
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/**
+ * Incremental JSON parser for streamed text
+ *
+ * @example
+ * ```typescript
+ * const parser = new PartialJsonParser();
+ *
+ * parser.write('{"projectName": "Mobile Ap');
+ * // value: { projectName: 'Mobile Ap' }, openPaths: ['', 'projectName']
+ *
+ * parser.write('p", "budget": 75');
+ * // value: { projectName: 'Mobile App', budget: 75 }, completePaths: ['projectName']
+ *
+ * parser.write('000}');
+ * parser.end();
+ * // complete: true, error: null
+ * ```
+ */
+export class PartialJsonParser {
+  private mode: Mode = 'value';
+  private stack: Frame[] = [];
+  private root: JsonValue | undefined = undefined;
+  private completePaths: string[] = [];
+  private error: JsonSyntaxError | null = null;
+  private ended: boolean = false;
+  private snapshot: PartialJsonSnapshot | null = null;
+
+  // Value being scanned
+  private valuePath: string = '';
+  private token: string = '';
+  private stringIsKey: boolean = false;
+  private escape: string | null = null;
+  private numberState: NumberState = 'sign';
+  private literal: { text: string; value: JsonValue } = LITERALS.n;
+
+  // Location of the next character
+  private offset: number = 0;
+  private line: number = 1;
+  private column: number = 1;
+
+  /**
+   * Parse the next fragment of text
+   *
+   * Parsing stops at the first syntax error; later writes are ignored.
+   *
+   * @param delta - Text to append
+   * @returns Snapshot after the delta
+   * @throws Error if called after end()
+   */
+  write(delta: string): PartialJsonSnapshot {
+    if (this.ended) {
+      throw new Error('Cannot write to a PartialJsonParser after end()');
+    }
+    if (this.error || delta === '') {
+      return this.getSnapshot();
+    }
+
+    for (let index = 0; index < delta.length; index++) {
+      const char = delta[index];
+      if (!this.consume(char)) {
+        break;
+      }
+
+      this.offset++;
+      if (char === '\n') {
+        this.line++;
+        this.column = 1;
+      } else {
+        this.column++;
+      }
+    }
+
+    this.snapshot = null;
+    return this.getSnapshot();
+  }
+
+  /**
+   * Mark the text as complete
+   *
+   * A number at the very end is finished; an unfinished value is a syntax
+   * error at the end of the text.
+   *
+   * @returns Final snapshot
+   */
+  end(): PartialJsonSnapshot {
+    if (!this.ended && !this.error) {
+      if (this.mode === 'number' && NUMBER_END_STATES.has(this.numberState)) {
+        this.completeValue(Number(this.token));
+      }
+      if (this.mode !== 'done') {
+        this.fail('Unexpected end of JSON input');
+      }
+    }
+
+    this.ended = true;
+    this.snapshot = null;
+    return this.getSnapshot();
+  }
+
+  /**
+   * Get the current snapshot
+   *
+   * @returns Snapshot (the same object until more text is written)
+   */
+  getSnapshot(): PartialJsonSnapshot {
+    if (!this.snapshot) {
+      this.snapshot = {
+        value: this.buildValue(),
+        complete: this.mode === 'done',
+        completePaths: [...this.completePaths],
+        openPaths: this.getOpenPaths(),
+        error: this.error,
+      };
+    }
+    return this.snapshot;
+  }
+
+  /**
+   * Discard all text and start over
+   */
+  reset(): void {
+    this.mode = 'value';
+    this.stack = [];
+    this.root = undefined;
+    this.completePaths = [];
+    this.error = null;
+    this.ended = false;
+    this.snapshot = null;
+    this.valuePath = '';
+    this.token = '';
+    this.stringIsKey = false;
+    this.escape = null;
+    this.offset = 0;
+    this.line = 1;
+    this.column = 1;
+  }
+
+  // ==========================================================================
+  // Scanning
+  // ==========================================================================
+
+  /**
+   * Consume one character
+   *
+   * @returns false if the character is a syntax error
+   */
+  private consume(char: string): boolean {
+    switch (this.mode) {
+      case 'string':
+        return this.consumeStringChar(char);
+      case 'number':
+        return this.consumeNumberChar(char);
+      case 'literal':
+        return this.consumeLiteralChar(char);
+    }
+
+    if (isWhitespace(char)) {
+      return true;
+    }
+
+    switch (this.mode) {
+      case 'firstValue':
+        return char === ']' ? this.closeContainer() : this.startValue(char);
+      case 'value':
+        return this.startValue(char);
+      case 'firstKey':
+      case 'key':
+        if (char === '}' && this.mode === 'firstKey') {
+          return this.closeContainer();
+        }
+        if (char !== '"') {
+          return this.fail(`Unexpected ${JSON.stringify(char)}, expected a string key`);
+        }
+        this.startString(true);
+        return true;
+      case 'colon':
+        if (char !== ':') {
+          return this.fail(`Unexpected ${JSON.stringify(char)}, expected ":" after key`);
+        }
+        this.mode = 'value';
+        return true;
+      case 'afterValue': {
+        const isArray = Array.isArray(this.stack[this.stack.length - 1].container);
+        const closing = isArray ? ']' : '}';
+        if (char === ',') {
+          this.mode = isArray ? 'value' : 'key';
+          return true;
+        }
+        if (char === closing) {
+          return this.closeContainer();
+        }
+        return this.fail(`Unexpected ${JSON.stringify(char)}, expected "," or "${closing}"`);
+      }
+      default:
+        return this.fail(`Unexpected ${JSON.stringify(char)} after the JSON value`);
+    }
+  }
+
+  private startValue(char: string): boolean {
+    this.valuePath = this.childPath();
+
+    if (char === '{' || char === '[') {
+      const container: JsonContainer = char === '{' ? {} : [];
+      this.attach(container);
+      this.stack.push({ container, path: this.valuePath, key: undefined });
+      this.mode = char === '{' ? 'firstKey' : 'firstValue';
+      return true;
+    }
+
+    if (char === '"') {
+      this.startString(false);
+      return true;
+    }
+
+    if (char === '-' || isDigit(char)) {
+      this.mode = 'number';
+      this.token = char;
+      this.numberState = char === '-' ? 'sign' : char === '0' ? 'zero' : 'integer';
+      return true;
+    }
+
+    if (char in LITERALS) {
+      this.mode = 'literal';
+      this.token = char;
+      this.literal = LITERALS[char];
+      return true;
+    }
+
+    return this.fail(`Unexpected ${JSON.stringify(char)}, expected a value`);
+  }
+
+  private startString(isKey: boolean): void {
+    this.mode = 'string';
+    this.stringIsKey = isKey;
+    this.token = '';
+    this.escape = null;
+  }
+
+  private consumeStringChar(char: string): boolean {
+    if (this.escape !== null) {
+      return this.consumeEscapeChar(char);
+    }
+
+    if (char === '"') {
+      if (this.stringIsKey) {
+        this.stack[this.stack.length - 1].key = this.token;
+        this.mode = 'colon';
+        return true;
+      }
+      return this.completeValue(this.token);
+    }
+
+    if (char === '\\') {
+      this.escape = '';
+      return true;
+    }
+
+    if (char < ' ') {
+      return this.fail(`Unescaped control character ${JSON.stringify(char)} in string`);
+    }
+
+    this.token += char;
+    return true;
+  }
+
+  private consumeEscapeChar(char: string): boolean {
+    if (this.escape === '') {
+      if (char === 'u') {
+        this.escape = 'u';
+        return true;
+      }
+      if (!(char in ESCAPES)) {
+        return this.fail(`Invalid escape sequence ${JSON.stringify(`\\${char}`)}`);
+      }
+      this.token += ESCAPES[char];
+      this.escape = null;
+      return true;
+    }
+
+    if (!/^[0-9a-fA-F]$/.test(char)) {
+      return this.fail(`Invalid unicode escape ${JSON.stringify(`\\${this.escape}${char}`)}`);
+    }
+
+    const escape = `${this.escape}${char}`;
+    if (escape.length === 5) {
+      this.token += String.fromCharCode(parseInt(escape.slice(1), 16));
+      this.escape = null;
+    } else {
+      this.escape = escape;
+    }
+    return true;
+  }
+
+  private consumeNumberChar(char: string): boolean {
+    const next = nextNumberState(this.numberState, char);
+    if (next) {
+      this.numberState = next;
+      this.token += char;
+      return true;
+    }
+
+    if (!NUMBER_END_STATES.has(this.numberState)) {
+      return this.fail(`Unexpected ${JSON.stringify(char)} in number`);
+    }
+
+    // The character ends the number and is parsed on its own
+    this.completeValue(Number(this.token));
+    return this.consume(char);
+  }
+
+  private consumeLiteralChar(char: string): boolean {
+    if (this.literal.text[this.token.length] !== char) {
+      return this.fail(`Unexpected ${JSON.stringify(char)}, expected "${this.literal.text}"`);
+    }
+
+    this.token += char;
+    return this.token === this.literal.text ? this.completeValue(this.literal.value) : true;
+  }
+
+  // ==========================================================================
+  // Building
+  // ==========================================================================
+
+  /**
+   * Path of the value about to start
+   */
+  private childPath(): string {
+    const frame = this.stack[this.stack.length - 1];
+    if (!frame) {
+      return '';
+    }
+    return Array.isArray(frame.container)
+      ? joinPath(frame.path, frame.container.length)
+      : joinPath(frame.path, frame.key ?? '');
+  }
+
+  /**
+   * Add a value to the open container (or make it the root)
+   */
+  private attach(value: JsonValue): void {
+    const frame = this.stack[this.stack.length - 1];
+    if (!frame) {
+      this.root = value;
+    } else if (Array.isArray(frame.container)) {
+      frame.container.push(value);
+    } else {
+      setMember(frame.container, frame.key ?? '', value);
+    }
+  }
+
+  private completeValue(value: JsonValue): true {
+    this.attach(value);
+    this.completePaths.push(this.valuePath);
+    this.mode = this.stack.length === 0 ? 'done' : 'afterValue';
+    return true;
+  }
+
+  private closeContainer(): true {
+    const frame = this.stack.pop() as Frame;
+    this.completePaths.push(frame.path);
+    this.mode = this.stack.length === 0 ? 'done' : 'afterValue';
+    return true;
+  }
+
+  private fail(message: string): false {
+    this.error = { message, offset: this.offset, line: this.line, column: this.column };
+    return false;
+  }
+
+  /**
+   * Value of the string or number being scanned, if it has one yet
+   */
+  private getPartialScalar(): JsonValue | undefined {
+    if (this.mode === 'string' && !this.stringIsKey) {
+      return this.token;
+    }
+    if (this.mode === 'number') {
+      return partialNumber(this.token);
+    }
+    return undefined;
+  }
+
+  private getOpenPaths(): string[] {
+    const paths = this.stack.map((frame) => frame.path);
+    if (
+      this.mode === 'number' ||
+      this.mode === 'literal' ||
+      (this.mode === 'string' && !this.stringIsKey)
+    ) {
+      paths.push(this.valuePath);
+    }
+    return paths;
+  }
+
+  /**
+   * Copy the open containers, innermost first, adding the partial scalar
+   * Closed values are shared rather than copied.
+   */
+  private buildValue(): JsonValue | undefined {
+    let child = this.getPartialScalar();
+    if (this.stack.length === 0) {
+      return this.root !== undefined ? this.root : child;
+    }
+
+    for (let depth = this.stack.length - 1; depth >= 0; depth--) {
+      const { container, key } = this.stack[depth];
+      const innermost = depth === this.stack.length - 1;
+
+      if (Array.isArray(container)) {
+        const copy = [...container];
+        if (child !== undefined) {
+          copy[innermost ? copy.length : copy.length - 1] = child;
+        }
+        child = copy;
+      } else {
+        const copy = { ...container };
+        if (child !== undefined && key !== undefined) {
+          setMember(copy, key, child);
+        }
+        child = copy;
+      }
+    }
+
+    return child;
+  }
+}
+
+/**
+ * Parse a JSON text that may be incomplete
+ *
+ * @param text - JSON text received so far
+ * @returns Snapshot of the text
+ *
+ * @example
+ * ```typescript
+ * parsePartialJson('{"teamIds": ["550e8400", "6ba7').value;
+ * // { teamIds: ['550e8400', '6ba7'] }
+ * ```
+ */
+export function parsePartialJson(text: string): PartialJsonSnapshot {
+  return new PartialJsonParser().write(text);
+}
@@ -0,0 +1,259 @@
+/**
+ * Tests for stream session persistence
+ *
+ * @module lib/streaming/sessionPersistence.test
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { StreamEvent } from '@/types/events';
+import { VirtualClock } from '@/lib/utils/clock';
+import {
+  SESSION_STORAGE_PREFIX,
+  clearSession,
+  createSessionRecorder,
+  loadSession,
+  pruneSessions,
+  saveSession,
+  updatePendingPrompt,
+  type PendingPrompt,
+  type SessionStorageLike,
+} from './sessionPersistence';
+import type { StreamStoreSnapshot } from './streamStore';
+
+/**
+ * In-memory Storage
+ */
+function createMemoryStorage(): SessionStorageLike & { entries: Map<string, string> } {
+  const entries = new Map<string, string>();
+
+  return {
+    entries,
+    get length() {
+      return entries.size;
+    },
+    key: (index) => Array.from(entries.keys())[index] ?? null,
+    getItem: (key) => entries.get(key) ?? null,
+    setItem: (key, value) => {
+      entries.set(key, value);
+    },
+    removeItem: (key) => {
+      entries.delete(key);
+    },
+  };
+}
+
+const awaitInput = {
+  id: 'await-1',
+  type: 'await_input',
+  timestamp: 2,
+  data: { requestId: 'budget', message: 'What is the sprint budget?', fields: [] },
+} as unknown as PendingPrompt;
+
+const submission = {
+  id: 'submit-1',
+  type: 'input_submission',
+  timestamp: 3,
+  data: { requestId: 'budget', value: 40, submittedAt: 3 },
+} as StreamEvent;
+
+const text = { id: 't-1', type: 'text', timestamp: 1, data: { text: 'Planning' } } as StreamEvent;
+
+function snapshot(
+  status: 'active' | 'paused' | 'closed',
+  eventCount: number
+): StreamStoreSnapshot<string> {
+  const phase = { active: 'streaming', paused: 'paused', closed: 'completed' } as const;
+  return { state: { status }, phase: phase[status], data: 'x'.repeat(eventCount), eventCount };
+}
+
+describe('saveSession / loadSession', () => {
+  it('should round-trip a saved session', () => {
+    const storage = createMemoryStorage();
+    const clock = new VirtualClock(1_000);
+
+    saveSession(
+      'reasoning',
+      {
+        sessionId: 'session-1',
+        fixtureId: 'chain-of-reasoning-sprint-planning',
+        position: 2,
+        data: { steps: ['Scope'] },
+        pending: null,
+      },
+      { storage, clock }
+    );
+
+    expect(storage.entries.has(`${SESSION_STORAGE_PREFIX}reasoning`)).toBe(true);
+    expect(loadSession('reasoning', { storage, clock })).toEqual({
+      version: 1,
+      sessionId: 'session-1',
+      fixtureId: 'chain-of-reasoning-sprint-planning',
+      position: 2,
+      data: { steps: ['Scope'] },
+      pending: null,
+      savedAt: 1_000,
+    });
+  });
+
+  it('should discard expired sessions', async () => {
+    const storage = createMemoryStorage();
+    const clock = new VirtualClock(1_000);
+    const session = { sessionId: 'session-1', position: 1, data: [], pending: null };
+
+    saveSession('reasoning', session, { storage, clock });
+    await clock.advance(5_001);
+
+    expect(loadSession('reasoning', { storage, clock, maxAgeMs: 5_000 })).toBeNull();
+    expect(storage.length).toBe(0);
+  });
+
+  it('should discard sessions for another fixture or in an unknown format', () => {
+    const storage = createMemoryStorage();
+    const session = { sessionId: 's', fixtureId: 'a', position: 1, data: [], pending: null };
+
+    saveSession('demo', session, { storage });
+    expect(loadSession('demo', { storage, fixtureId: 'b' })).toBeNull();
+
+    storage.setItem(`${SESSION_STORAGE_PREFIX}demo`, '{not json');
+    expect(loadSession('demo', { storage })).toBeNull();
+
+    storage.setItem(`${SESSION_STORAGE_PREFIX}demo`, JSON.stringify({ ...session, version: 0 }));
+    expect(loadSession('demo', { storage })).toBeNull();
+    expect(storage.length).toBe(0);
+  });
+
+  it('should remove a session on clear', () => {
+    const storage = createMemoryStorage();
+    saveSession('demo', { sessionId: 's', position: 0, data: [], pending: null }, { storage });
+
+    clearSession('demo', { storage });
+
+    expect(loadSession('demo', { storage })).toBeNull();
+  });
+
+  it('should report a failed save without throwing', () => {
+    const storage = createMemoryStorage();
+    storage.setItem = () => {
+      throw new Error('QuotaExceededError');
+    };
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(
+      saveSession('demo', { sessionId: 's', position: 0, data: [], pending: null }, { storage })
+    ).toBe(false);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('pruneSessions', () => {
+  it('should remove only stale sessions written by this module', async () => {
+    const storage = createMemoryStorage();
+    const clock = new VirtualClock(1_000);
+    const session = { sessionId: 's', position: 0, data: [], pending: null };
+
+    saveSession('old', session, { storage, clock });
+    await clock.advance(10_000);
+    saveSession('fresh', session, { storage, clock });
+    storage.setItem('streamflow-theme', 'dark');
+
+    expect(pruneSessions({ storage, clock, maxAgeMs: 5_000 })).toBe(1);
+    expect(Array.from(storage.entries.keys()).sort()).toEqual([
+      `${SESSION_STORAGE_PREFIX}fresh`,
+      'streamflow-theme',
+    ]);
+  });
+});
+
+describe('updatePendingPrompt', () => {
+  it('should track an unanswered prompt', () => {
+    let pending: PendingPrompt | null = null;
+
+    pending = updatePendingPrompt(pending, awaitInput);
+    pending = updatePendingPrompt(pending, text);
+    expect(pending).toBe(awaitInput);
+
+    pending = updatePendingPrompt(pending, submission);
+    expect(pending).toBeNull();
+  });
+});
+
+describe('createSessionRecorder', () => {
+  it('should save at most once per interval while running', async () => {
+    const storage = createMemoryStorage();
+    const clock = new VirtualClock(1_000);
+    const setItem = vi.spyOn(storage, 'setItem');
+    const recorder = createSessionRecorder<string>('demo', {
+      storage,
+      clock,
+      fixtureId: 'fixture',
+      saveIntervalMs: 500,
+    });
+
+    recorder.begin('session-1');
+    recorder.record(snapshot('active', 1));
+    recorder.record(snapshot('active', 2));
+    recorder.record(snapshot('active', 3));
+
+    expect(setItem).toHaveBeenCalledTimes(1);
+    expect(loadSession('demo', { storage, clock })?.position).toBe(1);
+
+    await clock.advance(500);
+
+    expect(setItem).toHaveBeenCalledTimes(2);
+    expect(loadSession('demo', { storage, clock })).toMatchObject({
+      sessionId: 'session-1',
+      fixtureId: 'fixture',
+      position: 3,
+      data: 'xxx',
+    });
+  });
+
+  it('should save the pending prompt and write unsaved progress on flush', () => {
+    const storage = createMemoryStorage();
+    const clock = new VirtualClock(1_000);
+    const recorder = createSessionRecorder<string>('demo', { storage, clock });
+
+    recorder.begin('session-1');
+    recorder.record(snapshot('active', 1));
+    recorder.observe(awaitInput);
+    recorder.record(snapshot('paused', 2));
+    recorder.flush();
+
+    expect(loadSession('demo', { storage, clock })).toMatchObject({
+      position: 2,
+      pending: awaitInput,
+    });
+    expect(clock.getPendingTimers()).toBe(0);
+  });
+
+  it('should remove the session when the stream completes', () => {
+    const storage = createMemoryStorage();
+    const clock = new VirtualClock(1_000);
+    const recorder = createSessionRecorder<string>('demo', { storage, clock });
+
+    recorder.begin('session-1');
+    recorder.record(snapshot('active', 1));
+    recorder.record(snapshot('closed', 3));
+
+    expect(storage.length).toBe(0);
+  });
+
+  it('should carry the pending prompt of a resumed session', () => {
+    const storage = createMemoryStorage();
+    const clock = new VirtualClock(1_000);
+    const recorder = createSessionRecorder<string>('demo', { storage, clock });
+
+    recorder.begin('session-1', {
+      version: 1,
+      sessionId: 'session-1',
+      position: 2,
+      data: 'xx',
+      pending: awaitInput,
+      savedAt: 0,
+    });
+    recorder.record(snapshot('active', 2));
+
+    expect(loadSession('demo', { storage, clock })?.pending).toEqual(awaitInput);
+  });
+});
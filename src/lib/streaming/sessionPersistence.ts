@@ -0,0 +1,473 @@
+/**
+ * Session Persistence - Resume in-progress streams after a page reload
+ *
+ * A reload mid-demo would otherwise throw away everything a stream has
+ * produced. This module saves the progress of a run to localStorage:
+ * - the session ID
+ * - the position (events already folded into state)
+ * - the accumulated reducer state
+ * - a pending await-input or checkpoint prompt, if the stream is waiting on one
+ *
+ * On return, `loadSession()` offers the saved progress; resuming starts the
+ * stream store from it, and the fixture transport seeks its cursor
+ * (`StreamCursor.seek()`) past the events already applied. Saved sessions
+ * expire after `maxAgeMs` and are removed when their stream completes.
+ *
+ * Any stream store can be persisted this way, so patterns share one
+ * implementation. Persisted state must be JSON-serializable. Pattern hooks
+ * that keep their state in React save the run's events instead
+ * (`RecordedRun`, see lib/hooks/useSessionPersistence) and continue the
+ * stream after them (`getResumeConfig()`).
+ *
+ * @module lib/streaming/sessionPersistence
+ */
+
+import type { AwaitInputEvent, CheckpointEvent, StreamEvent } from '@/types/events';
+import { systemClock, type Clock, type ClockTimer } from '@/lib/utils/clock';
+import { lifecycleActionForEvent } from './lifecycle';
+import type { StreamStoreSnapshot } from './streamStore';
+import type { EnrichedStreamEvent, SessionConfig } from './streamSession';
+
+/**
+ * Prefix of every localStorage key written by this module
+ */
+export const SESSION_STORAGE_PREFIX = 'streamflow-session:';
+
+/**
+ * Default age after which a saved session is discarded (one hour)
+ */
+export const DEFAULT_SESSION_MAX_AGE_MS = 60 * 60 * 1000;
+
+/**
+ * Default minimum interval between saves while a stream is running
+ */
+export const DEFAULT_SESSION_SAVE_INTERVAL_MS = 1000;
+
+/**
+ * Format version; sessions saved in another format are discarded
+ */
+const SESSION_FORMAT_VERSION = 1;
+
+/**
+ * A prompt the stream is waiting on
+ */
+export type PendingPrompt = AwaitInputEvent | CheckpointEvent;
+
+/**
+ * Progress of a run, as saved
+ */
+export interface PersistedSession<S = unknown> {
+  /** Format version */
+  version: typeof SESSION_FORMAT_VERSION;
+
+  /** Stream session ID, reused when the run is resumed */
+  sessionId: string;
+
+  /** Fixture the run was replaying, if any */
+  fixtureId?: string;
+
+  /** Events already folded into `data`; the stream resumes after this many */
+  position: number;
+
+  /** Accumulated reducer state */
+  data: S;
+
+  /** Await-input or checkpoint prompt still waiting for an answer */
+  pending: PendingPrompt | null;
+
+  /** When the session was saved (ms since the epoch) */
+  savedAt: number;
+}
+
+/**
+ * The parts of `Storage` this module uses
+ */
+export type SessionStorageLike = Pick<Storage, 'getItem' | 'setItem' | 'removeItem' | 'key'> & {
+  readonly length: number;
+};
+
+/**
+ * Options shared by the persistence functions
+ */
+export interface SessionPersistenceOptions {
+  /** Storage backend (default: localStorage, when available) */
+  storage?: SessionStorageLike;
+
+  /** Clock for `savedAt` and expiry (default: systemClock) */
+  clock?: Clock;
+
+  /** Age after which a saved session is discarded (default: DEFAULT_SESSION_MAX_AGE_MS) */
+  maxAgeMs?: number;
+}
+
+/**
+ * localStorage, or null where it is missing or blocked (SSR, privacy modes)
+ */
+function getDefaultStorage(): SessionStorageLike | null {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Save the progress of a run
+ *
+ * @param key - Key identifying the demo (prefixed with SESSION_STORAGE_PREFIX)
+ * @param session - Progress to save
+ * @param options - Storage and clock
+ * @returns Whether the session was written (false if storage is unavailable or full)
+ */
+export function saveSession<S>(
+  key: string,
+  session: Omit<PersistedSession<S>, 'version' | 'savedAt'>,
+  options: SessionPersistenceOptions = {}
+): boolean {
+  const storage = options.storage ?? getDefaultStorage();
+  if (!storage) {
+    return false;
+  }
+
+  const record: PersistedSession<S> = {
+    ...session,
+    version: SESSION_FORMAT_VERSION,
+    savedAt: (options.clock ?? systemClock).now(),
+  };
+
+  try {
+    storage.setItem(SESSION_STORAGE_PREFIX + key, JSON.stringify(record));
+    return true;
+  } catch (error) {
+    console.warn('Failed to save stream session:', error);
+    return false;
+  }
+}
+
+/**
+ * Load a saved run, discarding it if it is stale, corrupt or for another fixture
+ *
+ * @param key - Key the session was saved under
+ * @param options - Storage, clock, maximum age, and the fixture the caller will replay
+ * @returns Saved session, or null if there is nothing to resume
+ *
+ * @example
+ * ```typescript
+ * const saved = loadSession<ReasoningState>('chain-of-reasoning', {
+ *   fixtureId: 'chain-of-reasoning-sprint-planning',
+ * });
+ * if (saved) {
+ *   const resumeFrom = { data: saved.data, eventCount: saved.position };
+ *   store.start({ sessionId: saved.sessionId, resumeFrom });
+ * }
+ * ```
+ */
+export function loadSession<S = unknown>(
+  key: string,
+  options: SessionPersistenceOptions & { fixtureId?: string } = {}
+): PersistedSession<S> | null {
+  const storage = options.storage ?? getDefaultStorage();
+  if (!storage) {
+    return null;
+  }
+
+  let stored: string | null;
+  try {
+    stored = storage.getItem(SESSION_STORAGE_PREFIX + key);
+  } catch {
+    return null;
+  }
+  if (stored === null) {
+    return null;
+  }
+
+  // Corrupt entries are removed below
+  let session: PersistedSession<S> | null = null;
+  try {
+    session = JSON.parse(stored) as PersistedSession<S> | null;
+  } catch {
+    session = null;
+  }
+
+  const now = (options.clock ?? systemClock).now();
+  const maxAgeMs = options.maxAgeMs ?? DEFAULT_SESSION_MAX_AGE_MS;
+  const usable =
+    typeof session === 'object' &&
+    session !== null &&
+    session.version === SESSION_FORMAT_VERSION &&
+    typeof session.position === 'number' &&
+    now - session.savedAt <= maxAgeMs &&
+    (options.fixtureId === undefined || session.fixtureId === options.fixtureId);
+
+  if (!usable) {
+    clearSession(key, options);
+    return null;
+  }
+
+  return session;
+}
+
+/**
+ * Remove a saved run
+ *
+ * @param key - Key the session was saved under
+ * @param options - Storage
+ */
+export function clearSession(key: string, options: SessionPersistenceOptions = {}): void {
+  const storage = options.storage ?? getDefaultStorage();
+
+  try {
+    storage?.removeItem(SESSION_STORAGE_PREFIX + key);
+  } catch {
+    // Nothing to clean up if storage is blocked
+  }
+}
+
+/**
+ * Remove every saved run older than `maxAgeMs` (or unreadable)
+ *
+ * @param options - Storage, clock and maximum age
+ * @returns Number of sessions removed
+ */
+export function pruneSessions(options: SessionPersistenceOptions = {}): number {
+  const storage = options.storage ?? getDefaultStorage();
+  if (!storage) {
+    return 0;
+  }
+
+  const keys: string[] = [];
+  for (let index = 0; index < storage.length; index++) {
+    const storageKey = storage.key(index);
+    if (storageKey?.startsWith(SESSION_STORAGE_PREFIX)) {
+      keys.push(storageKey.slice(SESSION_STORAGE_PREFIX.length));
+    }
+  }
+
+  // loadSession removes what it cannot use
+  return keys.filter((key) => loadSession(key, options) === null).length;
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Track the prompt a stream is waiting on
+ *
+ * @param pending - Prompt pending before `event`
+ * @param event - Next event
+ * @returns Prompt pending after `event`
+ */
+export function updatePendingPrompt(
+  pending: PendingPrompt | null,
+  event: StreamEvent
+): PendingPrompt | null {
+  switch (lifecycleActionForEvent(event)) {
+    case 'await':
+      return event as PendingPrompt;
+    case 'answer':
+      return null;
+    default:
+      return pending;
+  }
+}
+
+/**
+ * Options for recording a run
+ */
+export interface SessionRecorderOptions extends SessionPersistenceOptions {
+  /** Fixture being replayed, checked again when the session is loaded */
+  fixtureId?: string;
+
+  /** Minimum interval between saves while running (default: DEFAULT_SESSION_SAVE_INTERVAL_MS) */
+  saveIntervalMs?: number;
+}
+
+/**
+ * Saves the progress of one run after another
+ */
+export interface SessionRecorder<S> {
+  /** Start recording a run, optionally continuing a saved one */
+  begin(sessionId: string, resumed?: PersistedSession<S> | null): void;
+
+  /** Follow an event (tracks pending prompts) */
+  observe(event: StreamEvent): void;
+
+  /** Save a store snapshot (throttled); a closed stream removes the saved session */
+  record(snapshot: StreamStoreSnapshot<S>): void;
+
+  /** Write any snapshot not saved yet, e.g. on `pagehide` */
+  flush(): void;
+
+  /** Stop recording and cancel any scheduled save */
+  dispose(): void;
+}
+
+/**
+ * Create a recorder that keeps a run's saved session up to date
+ *
+ * Saves happen at most once per `saveIntervalMs` while the stream is active
+ * or paused. A stream that closes normally has nothing to resume, so its
+ * session is removed; a failed stream keeps its last save so it can be retried.
+ *
+ * @param key - Key to save under
+ * @param options - Storage, clock, fixture and save interval
+ * @returns Session recorder
+ *
+ * @example
+ * ```typescript
+ * const recorder = createSessionRecorder<ReasoningState>('chain-of-reasoning', { fixtureId });
+ * recorder.begin(generateSessionId());
+ * store.subscribe(() => recorder.record(store.getSnapshot()));
+ * window.addEventListener('pagehide', recorder.flush);
+ * ```
+ */
+export function createSessionRecorder<S>(
+  key: string,
+  options: SessionRecorderOptions = {}
+): SessionRecorder<S> {
+  const clock = options.clock ?? systemClock;
+  const saveIntervalMs = options.saveIntervalMs ?? DEFAULT_SESSION_SAVE_INTERVAL_MS;
+
+  let sessionId: string | null = null;
+  let pending: PendingPrompt | null = null;
+  let unsaved: StreamStoreSnapshot<S> | null = null;
+  let lastSaveAt = -Infinity;
+  let timer: ClockTimer | null = null;
+
+  function cancel(): void {
+    if (timer !== null) {
+      clock.clearTimeout(timer);
+      timer = null;
+    }
+  }
+
+  function flush(): void {
+    cancel();
+    if (!unsaved || sessionId === null) {
+      return;
+    }
+
+    saveSession(
+      key,
+      {
+        sessionId,
+        fixtureId: options.fixtureId,
+        position: unsaved.eventCount,
+        data: unsaved.data,
+        pending,
+      },
+      options
+    );
+    unsaved = null;
+    lastSaveAt = clock.now();
+  }
+
+  function begin(nextSessionId: string, resumed: PersistedSession<S> | null = null): void {
+    cancel();
+    sessionId = nextSessionId;
+    pending = resumed?.pending ?? null;
+    unsaved = null;
+    lastSaveAt = -Infinity;
+  }
+
+  function observe(event: StreamEvent): void {
+    pending = updatePendingPrompt(pending, event);
+  }
+
+  function record(snapshot: StreamStoreSnapshot<S>): void {
+    switch (snapshot.state.status) {
+      case 'active':
+      case 'paused': {
+        unsaved = snapshot;
+        const wait = lastSaveAt + saveIntervalMs - clock.now();
+        if (wait <= 0) {
+          flush();
+        } else if (timer === null) {
+          timer = clock.setTimeout(flush, wait);
+        }
+        break;
+      }
+      case 'closed':
+        cancel();
+        unsaved = null;
+        clearSession(key, options);
+        break;
+      case 'error':
+        cancel();
+        unsaved = null;
+        break;
+      case 'idle':
+        break;
+    }
+  }
+
+  function dispose(): void {
+    cancel();
+    unsaved = null;
+  }
+
+  return { begin, observe, record, flush, dispose };
+}
+
+// ============================================================================
+// Recorded Runs
+// ============================================================================
+
+/**
+ * Saved data of a pattern hook's run: the events it received and sent, in order
+ *
+ * Pattern hooks keep their state in React rather than in a stream store, so
+ * they save the events instead. Resuming reads them through the hook again,
+ * which rebuilds its state (including a prompt still waiting for an answer),
+ * and continues the stream after the last received event.
+ */
+export interface RecordedRun {
+  /** Delivered and sent (`metadata.direction: 'outbound'`) events */
+  events: StreamEvent[];
+}
+
+/**
+ * Check whether a recorded event was sent by the client
+ *
+ * @param event - Recorded event
+ * @returns True for events reported by `StreamSession.send()`
+ */
+export function isSentEvent(event: StreamEvent): boolean {
+  return (event as EnrichedStreamEvent).metadata?.direction === 'outbound';
+}
+
+/**
+ * Session configuration continuing a recorded run
+ *
+ * The session resumes after the last delivered event, and the events the
+ * client sent are restored into its inbound channel: a generated stream that
+ * seeks by running again gets the same answers and does not ask again.
+ *
+ * @param events - Events of the run (see RecordedRun)
+ * @returns `resumeFrom` and `sentEvents` for the StreamSession
+ *
+ * @example
+ * ```typescript
+ * const session = new StreamSession({
+ *   sessionId: saved.sessionId,
+ *   transport,
+ *   ...getResumeConfig(saved.data.events),
+ * });
+ * ```
+ */
+export function getResumeConfig(
+  events: StreamEvent[]
+): Pick<SessionConfig, 'resumeFrom' | 'sentEvents'> {
+  const delivered = events.filter((event) => !isSentEvent(event));
+  const last = delivered[delivered.length - 1];
+
+  return {
+    resumeFrom: last ? { sequenceNumber: delivered.length, lastEventId: last.id } : undefined,
+    sentEvents: events.filter(isSentEvent),
+  };
+}
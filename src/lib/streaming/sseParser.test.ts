@@ -0,0 +1,202 @@
+/**
+ * Tests for the SSE parser
+ *
+ * @module lib/streaming/sseParser.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SSEParser, parseSSEStream, type SSEMessage } from './sseParser';
+
+/**
+ * Build a ReadableStream that emits the given text chunks as UTF-8 bytes
+ */
+function streamFromChunks(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+describe('SSEParser', () => {
+  describe('Fields', () => {
+    it('should parse event and data fields', () => {
+      const parser = new SSEParser();
+      const messages = parser.feed('event: reasoning\ndata: {"id":"1"}\n\n');
+
+      expect(messages).toEqual([{ event: 'reasoning', data: '{"id":"1"}' }]);
+    });
+
+    it('should default event name to "message"', () => {
+      const parser = new SSEParser();
+      const messages = parser.feed('data: hello\n\n');
+
+      expect(messages[0].event).toBe('message');
+    });
+
+    it('should attach the last event id and keep it across messages', () => {
+      const parser = new SSEParser();
+      const messages = parser.feed('id: 7\ndata: a\n\ndata: b\n\n');
+
+      expect(messages[0].id).toBe('7');
+      expect(messages[1].id).toBe('7');
+      expect(parser.getLastEventId()).toBe('7');
+    });
+
+    it('should parse numeric retry hints and ignore invalid ones', () => {
+      const parser = new SSEParser();
+      parser.feed('retry: 2500\n\n');
+      expect(parser.getRetry()).toBe(2500);
+
+      parser.feed('retry: soon\n\n');
+      expect(parser.getRetry()).toBe(2500);
+    });
+
+    it('should strip only a single leading space from values', () => {
+      const parser = new SSEParser();
+      const messages = parser.feed('data:  indented\n\n');
+
+      expect(messages[0].data).toBe(' indented');
+    });
+
+    it('should treat a field without colon as an empty value', () => {
+      const parser = new SSEParser();
+      const messages = parser.feed('data\ndata\n\n');
+
+      expect(messages[0].data).toBe('\n');
+    });
+
+    it('should ignore unknown fields', () => {
+      const parser = new SSEParser();
+      const messages = parser.feed('foo: bar\ndata: x\n\n');
+
+      expect(messages).toEqual([{ event: 'message', data: 'x' }]);
+    });
+  });
+
+  describe('Multi-line data and comments', () => {
+    it('should join multiple data lines with newlines', () => {
+      const parser = new SSEParser();
+      const messages = parser.feed('data: line 1\ndata: line 2\ndata: line 3\n\n');
+
+      expect(messages[0].data).toBe('line 1\nline 2\nline 3');
+    });
+
+    it('should skip comment lines', () => {
+      const parser = new SSEParser();
+      const messages = parser.feed(': keep-alive\ndata: x\n: another\n\n');
+
+      expect(messages).toHaveLength(1);
+      expect(messages[0].data).toBe('x');
+    });
+
+    it('should not dispatch messages without data', () => {
+      const parser = new SSEParser();
+      const messages = parser.feed('event: ping\n\ndata: x\n\n');
+
+      expect(messages).toHaveLength(1);
+      expect(messages[0].event).toBe('message');
+    });
+  });
+
+  describe('Chunking and line endings', () => {
+    it('should buffer partial lines across chunks', () => {
+      const parser = new SSEParser();
+
+      expect(parser.feed('event: ans')).toEqual([]);
+      expect(parser.feed('wer\ndata: {"te')).toEqual([]);
+
+      const messages = parser.feed('xt":"hi"}\n\n');
+      expect(messages).toEqual([{ event: 'answer', data: '{"text":"hi"}' }]);
+    });
+
+    it('should accept CRLF and CR line endings', () => {
+      const parser = new SSEParser();
+      const messages = parser.feed('data: a\r\n\r\ndata: b\r\rdata: c\n\n');
+
+      expect(messages.map((m) => m.data)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should handle CRLF split across chunks', () => {
+      const parser = new SSEParser();
+      const collected: SSEMessage[] = [];
+
+      collected.push(...parser.feed('data: a\r'));
+      collected.push(...parser.feed('\n\r'));
+      collected.push(...parser.feed('\n'));
+
+      expect(collected).toEqual([{ event: 'message', data: 'a' }]);
+    });
+
+    it('should strip a leading byte order mark', () => {
+      const parser = new SSEParser();
+      const messages = parser.feed('\uFEFFdata: x\n\n');
+
+      expect(messages[0].data).toBe('x');
+    });
+
+    it('should discard an unterminated message on flush', () => {
+      const parser = new SSEParser();
+      parser.feed('data: partial\n');
+      parser.flush();
+
+      expect(parser.feed('data: next\n\n')).toEqual([{ event: 'message', data: 'next' }]);
+    });
+  });
+});
+
+describe('parseSSEStream', () => {
+  it('should yield messages from a byte stream', async () => {
+    const body = streamFromChunks(['event: a\nda', 'ta: 1\n\nevent: b\ndata: 2\n\n']);
+    const messages: SSEMessage[] = [];
+
+    for await (const message of parseSSEStream(body)) {
+      messages.push(message);
+    }
+
+    expect(messages).toEqual([
+      { event: 'a', data: '1' },
+      { event: 'b', data: '2' },
+    ]);
+  });
+
+  it('should decode multi-byte characters split across chunks', async () => {
+    const bytes = new TextEncoder().encode('data: café\n\n');
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        // Split inside the two-byte "é"
+        controller.enqueue(bytes.slice(0, 10));
+        controller.enqueue(bytes.slice(10));
+        controller.close();
+      },
+    });
+
+    const messages: SSEMessage[] = [];
+    for await (const message of parseSSEStream(body)) {
+      messages.push(message);
+    }
+
+    expect(messages[0].data).toBe('café');
+  });
+
+  it('should cancel the body when the consumer stops early', async () => {
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('data: 1\n\ndata: 2\n\n'));
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+
+    for await (const message of parseSSEStream(body)) {
+      expect(message.data).toBe('1');
+      break;
+    }
+
+    expect(cancelled).toBe(true);
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Server-Sent Events Parser
+ *
+ * This module implements an incremental parser for the `text/event-stream` wire
+ * format as described by the WHATWG HTML specification. It is used by the SSE
+ * transport to turn a real HTTP response body into discrete messages.
+ *
+ * Supported syntax:
+ * - `event:`, `data:`, `id:` and `retry:` fields
+ * - Multi-line data (consecutive `data:` lines joined with `\n`)
+ * - Comment lines (starting with `:`), used by servers as keep-alives
+ * - LF, CR and CRLF line endings, including CRLF split across chunks
+ * - A leading byte order mark
+ *
+ * @module lib/streaming/sseParser
+ */
+
+/**
+ * A single dispatched SSE message
+ */
+export interface SSEMessage {
+  /** Event name from the `event:` field (default: 'message') */
+  event: string;
+
+  /** Data payload (multiple `data:` lines joined with `\n`) */
+  data: string;
+
+  /** Last event ID in effect when this message was dispatched */
+  id?: string;
+
+  /** Reconnection time hint in milliseconds from the `retry:` field */
+  retry?: number;
+}
+
+/**
+ * SSEParser - Incremental `text/event-stream` parser
+ *
+ * Chunks can be fed at arbitrary boundaries; the parser buffers partial lines
+ * and only dispatches a message once its terminating blank line has arrived.
+ *
+ * @example
+ * ```typescript
+ * const parser = new SSEParser();
+ * parser.feed('event: reasoning\ndata: {"id":"1"');
+ * // → [] (message not terminated yet)
+ * parser.feed('}\n\n');
+ * // → [{ event: 'reasoning', data: '{"id":"1"}' }]
+ * ```
+ */
+export class SSEParser {
+  private buffer: string = '';
+  private dataLines: string[] = [];
+  private eventName: string = '';
+  private lastEventId: string | undefined = undefined;
+  private retry: number | undefined = undefined;
+  private isFirstChunk: boolean = true;
+  private trailingCR: boolean = false;
+
+  /**
+   * Feed a chunk of decoded text into the parser
+   *
+   * @param chunk - Decoded text chunk
+   * @returns Messages completed by this chunk, in order
+   */
+  feed(chunk: string): SSEMessage[] {
+    let text = chunk;
+
+    if (this.isFirstChunk && text.length > 0) {
+      this.isFirstChunk = false;
+      if (text.charCodeAt(0) === 0xfeff) {
+        text = text.slice(1);
+      }
+    }
+
+    // A CRLF pair may be split across chunks: the CR already ended the line
+    if (this.trailingCR && text.startsWith('\n')) {
+      text = text.slice(1);
+    }
+    this.trailingCR = false;
+
+    this.buffer += text;
+
+    const messages: SSEMessage[] = [];
+    let lineStart = 0;
+
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+
+      if (char !== '\n' && char !== '\r') {
+        continue;
+      }
+
+      const line = this.buffer.slice(lineStart, i);
+
+      if (char === '\r') {
+        if (i + 1 === this.buffer.length) {
+          this.trailingCR = true;
+        } else if (this.buffer[i + 1] === '\n') {
+          i++;
+        }
+      }
+
+      lineStart = i + 1;
+
+      const message = this.processLine(line);
+      if (message) {
+        messages.push(message);
+      }
+    }
+
+    this.buffer = this.buffer.slice(lineStart);
+
+    return messages;
+  }
+
+  /**
+   * Signal end of input
+   *
+   * Per the specification, an unterminated trailing message is discarded.
+   * The parser is reset so it can be reused for a new connection.
+   */
+  flush(): void {
+    this.buffer = '';
+    this.dataLines = [];
+    this.eventName = '';
+    this.isFirstChunk = true;
+    this.trailingCR = false;
+  }
+
+  /**
+   * Get the last event ID seen on this stream
+   *
+   * Unlike other fields, the last event ID persists across messages
+   * and is what a client sends back as `Last-Event-ID` on reconnect.
+   *
+   * @returns Last event ID, or undefined if none seen
+   */
+  getLastEventId(): string | undefined {
+    return this.lastEventId;
+  }
+
+  /**
+   * Get the most recent `retry:` hint
+   *
+   * @returns Reconnection time in milliseconds, or undefined if none seen
+   */
+  getRetry(): number | undefined {
+    return this.retry;
+  }
+
+  /**
+   * Process a single complete line
+   *
+   * @param line - Line without its terminator
+   * @returns Message if the line dispatched one
+   */
+  private processLine(line: string): SSEMessage | null {
+    // Blank line dispatches the pending message
+    if (line === '') {
+      return this.dispatch();
+    }
+
+    // Comment line (keep-alive)
+    if (line.startsWith(':')) {
+      return null;
+    }
+
+    const colonIndex = line.indexOf(':');
+    let field: string;
+    let value: string;
+
+    if (colonIndex === -1) {
+      field = line;
+      value = '';
+    } else {
+      field = line.slice(0, colonIndex);
+      value = line.slice(colonIndex + 1);
+      if (value.startsWith(' ')) {
+        value = value.slice(1);
+      }
+    }
+
+    switch (field) {
+      case 'event':
+        this.eventName = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        // IDs containing NULL are ignored per specification
+        if (!value.includes('\u0000')) {
+          this.lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = parseInt(value, 10);
+        }
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+
+    return null;
+  }
+
+  /**
+   * Dispatch the pending message and reset per-message state
+   *
+   * @returns Message, or null if no data was buffered
+   */
+  private dispatch(): SSEMessage | null {
+    if (this.dataLines.length === 0) {
+      this.eventName = '';
+      return null;
+    }
+
+    const message: SSEMessage = {
+      event: this.eventName || 'message',
+      data: this.dataLines.join('\n'),
+    };
+
+    if (this.lastEventId !== undefined) {
+      message.id = this.lastEventId;
+    }
+
+    if (this.retry !== undefined) {
+      message.retry = this.retry;
+    }
+
+    this.dataLines = [];
+    this.eventName = '';
+
+    return message;
+  }
+}
+
+/**
+ * Parse a `text/event-stream` body into messages
+ *
+ * Reads the stream to completion (or until the consumer stops iterating),
+ * decoding bytes as UTF-8 and yielding each message as it is dispatched.
+ * If the consumer stops early, the body is cancelled.
+ *
+ * @param body - Response body stream
+ * @param parser - Optional parser instance (to inspect last event ID / retry)
+ * @yields Parsed SSE messages
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/events', { headers: { Accept: 'text/event-stream' } });
+ * for await (const message of parseSSEStream(response.body!)) {
+ *   console.log(message.event, JSON.parse(message.data));
+ * }
+ * ```
+ */
+export async function* parseSSEStream(
+  body: ReadableStream<Uint8Array>,
+  parser: SSEParser = new SSEParser()
+): AsyncGenerator<SSEMessage, void, undefined> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder('utf-8');
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) {
+        finished = true;
+        const tail = decoder.decode();
+        if (tail) {
+          yield* parser.feed(tail);
+        }
+        parser.flush();
+        return;
+      }
+
+      yield* parser.feed(decoder.decode(value, { stream: true }));
+    }
+  } finally {
+    // Consumer stopped early: cancel the underlying body so the connection closes
+    if (!finished) {
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Default Stream Worker
+ *
+ * Worker entry used by `createStreamWorkerStore()` when no `createWorker` is
+ * given. It validates events and collects them in arrival order.
+ *
+ * @module lib/streaming/stream.worker
+ */
+
+import { exposeStreamWorker, type StreamWorkerEndpoint } from './streamWorker';
+
+exposeStreamWorker(self as unknown as StreamWorkerEndpoint);
@@ -284,6 +284,95 @@ describe('StreamCursor', () => {
     });
   });
 
+  describe('indexOf', () => {
+    it('should find event positions by ID', () => {
+      const cursor = new StreamCursor(sampleEvents);
+
+      expect(cursor.indexOf('1')).toBe(0);
+      expect(cursor.indexOf('2')).toBe(1);
+      expect(cursor.indexOf('missing')).toBe(-1);
+    });
+  });
+
+  describe('Stepping back', () => {
+    it('should step back one event at a time', () => {
+      const cursor = new StreamCursor(sampleEvents);
+      cursor.seek(2);
+
+      expect(cursor.previous()?.id).toBe('2');
+      expect(cursor.getPosition()).toBe(1);
+      expect(cursor.next()?.id).toBe('2');
+    });
+
+    it('should return undefined at start', () => {
+      const cursor = new StreamCursor(sampleEvents);
+
+      expect(cursor.previous()).toBeUndefined();
+      expect(cursor.getPosition()).toBe(0);
+    });
+  });
+
+  describe('Seeking by event ID', () => {
+    it('should seek to just after the event', () => {
+      const cursor = new StreamCursor(sampleEvents);
+      cursor.seekToId('2');
+
+      expect(cursor.getPosition()).toBe(2);
+      expect(cursor.getConsumedEvents().map((event) => event.id)).toEqual(['1', '2']);
+    });
+
+    it('should throw for an unknown event ID', () => {
+      const cursor = new StreamCursor(sampleEvents);
+
+      expect(() => cursor.seekToId('missing')).toThrow('Event "missing" not found in stream');
+    });
+  });
+
+  describe('Bookmarks', () => {
+    it('should return to a named position', () => {
+      const cursor = new StreamCursor(sampleEvents);
+      cursor.next();
+      cursor.bookmark('after-first');
+      cursor.bookmark('end', 3);
+      cursor.next();
+
+      cursor.seekToBookmark('after-first');
+
+      expect(cursor.getPosition()).toBe(1);
+      expect(cursor.getBookmarks()).toEqual({ 'after-first': 1, end: 3 });
+    });
+
+    it('should reject unknown bookmarks and out-of-range positions', () => {
+      const cursor = new StreamCursor(sampleEvents);
+
+      expect(() => cursor.seekToBookmark('nope')).toThrow('Unknown bookmark: "nope"');
+      expect(() => cursor.bookmark('far', 4)).toThrow(
+        'Invalid bookmark position: 4. Must be between 0 and 3'
+      );
+    });
+
+    it('should remove bookmarks', () => {
+      const cursor = new StreamCursor(sampleEvents);
+      cursor.bookmark('start');
+
+      expect(cursor.removeBookmark('start')).toBe(true);
+      expect(cursor.removeBookmark('start')).toBe(false);
+      expect(cursor.getBookmarks()).toEqual({});
+    });
+  });
+
+  describe('Appending', () => {
+    it('should extend the sequence without moving the cursor', () => {
+      const cursor = new StreamCursor(sampleEvents.slice(0, 1));
+      cursor.next();
+
+      cursor.append(sampleEvents[1], sampleEvents[2]);
+
+      expect(cursor.getPosition()).toBe(1);
+      expect(cursor.getRemainingCount()).toBe(2);
+    });
+  });
+
   describe('Edge cases', () => {
     it('should handle single event', () => {
       const cursor = new StreamCursor([sampleEvents[0]]);
@@ -3,7 +3,8 @@
  *
  * This module implements cursor-based tracking for stream event iteration.
  * The cursor maintains the current position in a fixture's event sequence
- * and provides methods for advancing, seeking, and checking bounds.
+ * and provides methods for advancing, stepping back, seeking (by position,
+ * event ID or named bookmark), and checking bounds.
  *
  * @module lib/streaming/streamCursor
  */
@@ -34,6 +35,9 @@ export interface CursorState {
  * forward iteration, position tracking, and end-of-stream detection.
  * It ensures events are accessed in order and provides boundary checks.
  *
+ * Any sequence of items with an `id` can be walked; compiled fixture
+ * scripts use this to step through (and jump between) instructions.
+ *
  * @example
  * ```typescript
  * const cursor = new StreamCursor(events);
@@ -43,16 +47,17 @@ export interface CursorState {
  * }
  * ```
  */
-export class StreamCursor {
+export class StreamCursor<T extends { id: string } = StreamEvent> {
   private position: number = 0;
-  private readonly events: StreamEvent[];
+  private readonly events: T[];
+  private readonly bookmarks = new Map<string, number>();
 
   /**
    * Create a new stream cursor
    *
    * @param events - Array of stream events to iterate over
    */
-  constructor(events: StreamEvent[]) {
+  constructor(events: T[]) {
     this.events = [...events]; // Defensive copy to prevent external mutation
   }
 
@@ -107,7 +112,7 @@ export class StreamCursor {
    * @returns Next event in sequence, or undefined if at end
    * @throws Error if attempting to advance beyond end of stream
    */
-  next(): StreamEvent | undefined {
+  next(): T | undefined {
     if (this.isAtEnd()) {
       return undefined;
     }
@@ -122,7 +127,7 @@ export class StreamCursor {
    *
    * @returns Next event, or undefined if at end
    */
-  peek(): StreamEvent | undefined {
+  peek(): T | undefined {
     if (this.isAtEnd()) {
       return undefined;
     }
@@ -130,6 +135,29 @@ export class StreamCursor {
     return this.events[this.position];
   }
 
+  /**
+   * Step back one event
+   *
+   * @returns The event that is no longer consumed, or undefined if at start
+   */
+  previous(): T | undefined {
+    if (this.isAtStart()) {
+      return undefined;
+    }
+
+    this.position--;
+    return this.events[this.position];
+  }
+
+  /**
+   * Add events to the end of the sequence (e.g. as a live stream delivers them)
+   *
+   * @param events - Events to append
+   */
+  append(...events: T[]): void {
+    this.events.push(...events);
+  }
+
   /**
    * Reset cursor to beginning
    */
@@ -153,6 +181,94 @@ export class StreamCursor {
     this.position = position;
   }
 
+  /**
+   * Seek to just after an event, so it counts as consumed
+   *
+   * @param eventId - Event ID to jump to
+   * @throws Error if no event has this ID
+   */
+  seekToId(eventId: string): void {
+    const index = this.indexOf(eventId);
+    if (index === -1) {
+      throw new Error(`Event "${eventId}" not found in stream`);
+    }
+
+    this.position = index + 1;
+  }
+
+  /**
+   * Name a position so it can be returned to later
+   *
+   * Setting an existing name moves the bookmark.
+   *
+   * @param name - Bookmark name
+   * @param position - Position to mark (default: current position)
+   * @throws Error if position is out of bounds
+   */
+  bookmark(name: string, position: number = this.position): void {
+    if (position < 0 || position > this.events.length) {
+      throw new Error(
+        `Invalid bookmark position: ${position}. Must be between 0 and ${this.events.length}`
+      );
+    }
+
+    this.bookmarks.set(name, position);
+  }
+
+  /**
+   * Seek to a named bookmark
+   *
+   * @param name - Bookmark name
+   * @throws Error if no bookmark has this name
+   */
+  seekToBookmark(name: string): void {
+    const position = this.bookmarks.get(name);
+    if (position === undefined) {
+      throw new Error(`Unknown bookmark: "${name}"`);
+    }
+
+    this.position = position;
+  }
+
+  /**
+   * Remove a named bookmark
+   *
+   * @param name - Bookmark name
+   * @returns True if the bookmark existed
+   */
+  removeBookmark(name: string): boolean {
+    return this.bookmarks.delete(name);
+  }
+
+  /**
+   * Get every bookmark
+   *
+   * @returns Positions by bookmark name, in creation order
+   */
+  getBookmarks(): Record<string, number> {
+    return Object.fromEntries(this.bookmarks);
+  }
+
+  /**
+   * Get the event at a specific position without moving the cursor
+   *
+   * @param position - Zero-indexed position
+   * @returns Event at that position, or undefined if out of bounds
+   */
+  getEventAt(position: number): T | undefined {
+    return this.events[position];
+  }
+
+  /**
+   * Find the position of an event by ID
+   *
+   * @param eventId - Event ID to look up
+   * @returns Zero-indexed position, or -1 if not found
+   */
+  indexOf(eventId: string): number {
+    return this.events.findIndex((event) => event.id === eventId);
+  }
+
   /**
    * Get current cursor state snapshot
    *
@@ -182,7 +298,7 @@ export class StreamCursor {
    *
    * @returns Array of remaining events
    */
-  getRemainingEvents(): StreamEvent[] {
+  getRemainingEvents(): T[] {
     return this.events.slice(this.position);
   }
 
@@ -191,7 +307,7 @@ export class StreamCursor {
    *
    * @returns Array of events before current position
    */
-  getConsumedEvents(): StreamEvent[] {
+  getConsumedEvents(): T[] {
     return this.events.slice(0, this.position);
   }
 }
@@ -0,0 +1,84 @@
+/**
+ * Tests for stream reducers and selectors
+ *
+ * @module lib/streaming/streamReducer.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { StreamEvent } from '@/types/events';
+import { appendEvent, reduceEvents, selectState, type StreamReducer } from './streamReducer';
+
+const events: StreamEvent[] = [
+  { id: 'e-1', type: 'text', timestamp: 1, data: { text: 'Sprint 24 ' } },
+  { id: 'e-2', type: 'text', timestamp: 2, data: { text: 'is on track.' } },
+  { id: 'e-3', type: 'answer', timestamp: 3, data: { text: 'Yes', isFinal: true } },
+];
+
+interface TranscriptState {
+  text: string;
+  answered: boolean;
+}
+
+const transcriptReducer: StreamReducer<TranscriptState> = (state, event) => {
+  switch (event.type) {
+    case 'text':
+      return { ...state, text: state.text + event.data.text };
+    case 'answer':
+      return { ...state, answered: event.data.isFinal };
+    default:
+      return state;
+  }
+};
+
+describe('reduceEvents', () => {
+  it('should fold events in order', () => {
+    expect(reduceEvents(transcriptReducer, { text: '', answered: false }, events)).toEqual({
+      text: 'Sprint 24 is on track.',
+      answered: true,
+    });
+  });
+
+  it('should collect events with the default reducer', () => {
+    const collected = reduceEvents(appendEvent, [] as StreamEvent[], events);
+
+    expect(collected).toEqual(events);
+    expect(collected).not.toBe(events);
+  });
+
+  it('should return the initial state for no events', () => {
+    const initial = { text: '', answered: false };
+    expect(reduceEvents(transcriptReducer, initial, [])).toBe(initial);
+  });
+});
+
+describe('selectState', () => {
+  const selectors = {
+    words: (state: TranscriptState) => state.text.split(' ').filter(Boolean),
+    final: (state: TranscriptState) => state.answered,
+  };
+
+  it('should run every selector', () => {
+    const state = reduceEvents(transcriptReducer, { text: '', answered: false }, events);
+
+    expect(selectState(selectors, state)).toEqual({
+      words: ['Sprint', '24', 'is', 'on', 'track.'],
+      final: true,
+    });
+  });
+
+  it('should return the previous result when nothing selected changed', () => {
+    const first = selectState(selectors, { text: 'On track', answered: true });
+    const second = selectState(selectors, { text: 'On track', answered: true }, first);
+
+    expect(second).toBe(first);
+  });
+
+  it('should keep unchanged values when another value changes', () => {
+    const first = selectState(selectors, { text: 'On track', answered: false });
+    const second = selectState(selectors, { text: 'On track', answered: true }, first);
+
+    expect(second).not.toBe(first);
+    expect(second.final).toBe(true);
+    expect(second.words).toBe(first.words);
+  });
+});
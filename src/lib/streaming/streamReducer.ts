@@ -0,0 +1,117 @@
+/**
+ * Stream Reducers - Typed state projection for event streams
+ *
+ * A stream reducer folds events into pattern state, one event at a time:
+ * `(state, event) => state`. Keeping that logic in a pure function lets a
+ * pattern's state be tested by replaying events, without React, and lets
+ * `useStreamProcessor` drive any pattern from the same stream plumbing.
+ *
+ * Selectors project reducer state into the values a view renders. Their
+ * results are structurally shared with the previous results, so unchanged
+ * parts keep their identity between events.
+ *
+ * @module lib/streaming/streamReducer
+ */
+
+import type { StreamEvent } from '@/types/events';
+import { replaceEqualDeep } from '@/lib/utils/structuralSharing';
+
+/**
+ * Folds one event into state. Must not mutate `state`.
+ *
+ * @template S - State type
+ * @template T - Event type
+ */
+export type StreamReducer<S, T = StreamEvent> = (state: S, event: T) => S;
+
+/**
+ * Named projections of reducer state
+ *
+ * @template S - State type
+ */
+export type StreamSelectors<S> = Record<string, (state: S) => unknown>;
+
+/**
+ * Values produced by a set of selectors
+ *
+ * @template D - Selectors
+ */
+export type SelectedState<D> = {
+  [K in keyof D]: D[K] extends (state: never) => infer R ? R : never;
+};
+
+/**
+ * Default reducer: keep every event in arrival order
+ *
+ * @param events - Events so far
+ * @param event - New event
+ * @returns Events with `event` appended
+ */
+export function appendEvent<T extends StreamEvent>(events: T[], event: T): T[] {
+  return [...events, event];
+}
+
+/**
+ * Replay events through a reducer
+ *
+ * @param reducer - Stream reducer
+ * @param initialState - State before the first event
+ * @param events - Events to apply in order
+ * @returns State after the last event
+ *
+ * @example
+ * ```typescript
+ * const state = reduceEvents(timelineReducer, initialTimeline, getFixtureEvents('memory'));
+ * expect(state.memories).toHaveLength(4);
+ * ```
+ */
+export function reduceEvents<S, T extends StreamEvent>(
+  reducer: StreamReducer<S, T>,
+  initialState: S,
+  events: Iterable<T>
+): S {
+  let state = initialState;
+  for (const event of events) {
+    state = reducer(state, event);
+  }
+  return state;
+}
+
+/**
+ * Run selectors against state, sharing structure with previous results
+ *
+ * Each selected value is passed through `replaceEqualDeep` against its
+ * previous value. If no value changed, `previous` itself is returned.
+ *
+ * @param selectors - Named selectors
+ * @param state - Current reducer state
+ * @param previous - Result of the previous call, if any
+ * @returns Selected values
+ *
+ * @example
+ * ```typescript
+ * const selectors = { open: (s: Board) => s.tasks.filter((t) => !t.done) };
+ * const first = selectState(selectors, board);
+ * selectState(selectors, { ...board }, first) === first; // true
+ * ```
+ */
+export function selectState<S, D extends StreamSelectors<S>>(
+  selectors: D,
+  state: S,
+  previous?: SelectedState<D>
+): SelectedState<D> {
+  const keys = Object.keys(selectors);
+  const next = {} as Record<string, unknown>;
+  let changed = !previous || Object.keys(previous).length !== keys.length;
+
+  for (const key of keys) {
+    const prevValue = previous?.[key as keyof D];
+    next[key] = replaceEqualDeep(prevValue, selectors[key](state));
+
+    if (next[key] !== prevValue) {
+      changed = true;
+    }
+  }
+
+  return previous && !changed ? previous : (next as SelectedState<D>);
+}
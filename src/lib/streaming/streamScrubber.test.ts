@@ -0,0 +1,134 @@
+/**
+ * Tests for StreamScrubber
+ *
+ * @module lib/streaming/streamScrubber.test
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { StreamEvent } from '@/types/events';
+import { StreamScrubber } from './streamScrubber';
+import type { StreamReducer } from './streamReducer';
+
+function token(index: number): StreamEvent {
+  return {
+    id: `t${index}`,
+    type: 'answer',
+    timestamp: 1000 + index,
+    data: { text: `${index} `, isFinal: false },
+  };
+}
+
+const tokens = Array.from({ length: 10 }, (_, index) => token(index));
+
+const appendText: StreamReducer<string> = (text, event) =>
+  event.type === 'answer' ? text + event.data.text : text;
+
+function createScrubber(events: StreamEvent[] = tokens, checkpointInterval?: number) {
+  const reducer = vi.fn(appendText);
+  const scrubber = new StreamScrubber(events, { reducer, initialState: '', checkpointInterval });
+  return { scrubber, reducer };
+}
+
+describe('StreamScrubber', () => {
+  it('should start with the initial state', () => {
+    const { scrubber } = createScrubber();
+
+    expect(scrubber.getSnapshot()).toEqual({
+      position: 0,
+      totalEvents: 10,
+      event: undefined,
+      state: '',
+      bookmarks: [],
+    });
+  });
+
+  it('should step forward and back with reconstructed state', () => {
+    const { scrubber } = createScrubber();
+
+    scrubber.stepForward();
+    scrubber.stepForward();
+    expect(scrubber.stepForward()).toMatchObject({ position: 3, state: '0 1 2 ' });
+
+    const back = scrubber.stepBack();
+    expect(back).toMatchObject({ position: 2, state: '0 1 ' });
+    expect(back.event?.id).toBe('t1');
+  });
+
+  it('should leave the snapshot unchanged at either end', () => {
+    const { scrubber } = createScrubber();
+
+    expect(scrubber.stepBack()).toBe(scrubber.getSnapshot());
+    scrubber.seek(10);
+    expect(scrubber.stepForward()).toMatchObject({
+      position: 10,
+      state: tokens.map((_, i) => `${i} `).join(''),
+    });
+  });
+
+  it('should jump to just after an event', () => {
+    const { scrubber } = createScrubber();
+
+    const snapshot = scrubber.jumpTo('t4');
+
+    expect(snapshot.position).toBe(5);
+    expect(snapshot.event?.id).toBe('t4');
+    expect(snapshot.state).toBe('0 1 2 3 4 ');
+    expect(() => scrubber.jumpTo('missing')).toThrow('Event "missing" not found in stream');
+  });
+
+  it('should return to bookmarks', () => {
+    const { scrubber } = createScrubber();
+    scrubber.seek(3);
+
+    expect(scrubber.bookmark('third').bookmarks).toEqual(['third']);
+    scrubber.bookmark('start', 0);
+    scrubber.seek(8);
+
+    expect(scrubber.goToBookmark('third')).toMatchObject({ position: 3, state: '0 1 2 ' });
+    expect(scrubber.goToBookmark('start')).toMatchObject({ position: 0, state: '' });
+    expect(scrubber.getBookmarks()).toEqual({ third: 3, start: 0 });
+  });
+
+  it('should notify subscribers after every move', () => {
+    const { scrubber } = createScrubber();
+    const listener = vi.fn();
+    const unsubscribe = scrubber.subscribe(listener);
+
+    scrubber.stepForward();
+    scrubber.stepBack();
+    unsubscribe();
+    scrubber.stepForward();
+
+    expect(listener.mock.calls.map(([snapshot]) => snapshot.position)).toEqual([1, 0]);
+  });
+
+  it('should rebuild state from the nearest checkpoint', () => {
+    const events = Array.from({ length: 100 }, (_, index) => token(index));
+    const { scrubber, reducer } = createScrubber(events, 10);
+
+    scrubber.seek(95);
+    reducer.mockClear();
+
+    scrubber.stepBack();
+    expect(reducer).toHaveBeenCalledTimes(4);
+
+    reducer.mockClear();
+    scrubber.seek(21);
+    expect(reducer).toHaveBeenCalledTimes(1);
+  });
+
+  it('should follow appended events only while at the end', () => {
+    const { scrubber } = createScrubber([]);
+
+    expect(scrubber.append(token(0), token(1))).toMatchObject({ position: 2, state: '0 1 ' });
+
+    scrubber.stepBack();
+    expect(scrubber.append(token(2))).toMatchObject({ position: 1, totalEvents: 3, state: '0 ' });
+  });
+
+  it('should reject an invalid checkpoint interval', () => {
+    expect(() => createScrubber(tokens, 0)).toThrow(
+      'Scrubber checkpointInterval must be a positive integer, got 0'
+    );
+  });
+});
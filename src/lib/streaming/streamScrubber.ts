@@ -0,0 +1,288 @@
+/**
+ * Stream Scrubber - Time-travel through a stream like a debugger
+ *
+ * A session only moves forward, but a demo often wants to step back to see
+ * how the UI looked three events ago, jump to a specific event, or return to
+ * a named moment ("first checkpoint"). The scrubber walks a StreamCursor over
+ * the events and, at every move, reconstructs the state at the new position
+ * by folding the events up to it through a reducer — the same reducer the
+ * pattern uses to build its UI state.
+ *
+ * Reconstruction starts from the nearest cached checkpoint state at or
+ * before the target position, so stepping back through a long stream does
+ * not replay it from the start each time. The reducer must therefore be
+ * pure: it must not mutate the state it is given.
+ *
+ * @module lib/streaming/streamScrubber
+ */
+
+import type { StreamEvent } from '@/types/events';
+import { StreamCursor } from './streamCursor';
+import type { StreamReducer } from './streamReducer';
+
+/**
+ * Scrubber options
+ */
+export interface ScrubberOptions<S, T = StreamEvent> {
+  /** Pure reducer applied to each event in order */
+  reducer: StreamReducer<S, T>;
+
+  /** State before any event */
+  initialState: S;
+
+  /** Cache the reconstructed state every N events (default: 50) */
+  checkpointInterval?: number;
+}
+
+/**
+ * Reconstructed state at a cursor position
+ */
+export interface StreamSnapshot<S, T = StreamEvent> {
+  /** Number of events applied */
+  position: number;
+
+  /** Number of events the scrubber knows about */
+  totalEvents: number;
+
+  /** Last applied event (undefined at the start) */
+  event: T | undefined;
+
+  /** State after applying the first `position` events */
+  state: S;
+
+  /** Bookmarks at this position */
+  bookmarks: string[];
+}
+
+/**
+ * Listener notified with the snapshot after every move
+ */
+export type SnapshotListener<S, T = StreamEvent> = (snapshot: StreamSnapshot<S, T>) => void;
+
+/** Default number of events between cached states */
+const DEFAULT_CHECKPOINT_INTERVAL = 50;
+
+/**
+ * StreamScrubber - Steps, seeks and bookmarks through events with state snapshots
+ *
+ * Every move returns the snapshot at the new position and notifies
+ * subscribers. Events can be appended as a live session delivers them
+ * (see StreamSession.createScrubber): a scrubber at the end follows the
+ * stream, while one the user has stepped back stays where it is.
+ *
+ * @example
+ * ```typescript
+ * const scrubber = new StreamScrubber(fixtureEvents, {
+ *   reducer: (steps, event) => (event.type === 'reasoning' ? [...steps, event.data] : steps),
+ *   initialState: [] as ReasoningStep[],
+ * });
+ *
+ * scrubber.subscribe((snapshot) => render(snapshot.state));
+ * scrubber.jumpTo('reason-3');
+ * scrubber.bookmark('estimates');
+ * scrubber.stepBack();
+ * scrubber.goToBookmark('estimates');
+ * ```
+ */
+export class StreamScrubber<S, T extends { id: string } = StreamEvent> {
+  private readonly cursor: StreamCursor<T>;
+  private readonly reducer: StreamReducer<S, T>;
+  private readonly checkpointInterval: number;
+  private readonly checkpoints = new Map<number, S>();
+  private readonly listeners = new Set<SnapshotListener<S, T>>();
+  private snapshot: StreamSnapshot<S, T>;
+
+  /**
+   * Create a scrubber positioned at the start
+   *
+   * @param events - Events to scrub through
+   * @param options - Reducer, initial state and checkpoint interval
+   * @throws Error if the checkpoint interval is not a positive integer
+   */
+  constructor(events: T[], options: ScrubberOptions<S, T>) {
+    const { checkpointInterval = DEFAULT_CHECKPOINT_INTERVAL } = options;
+
+    if (!Number.isInteger(checkpointInterval) || checkpointInterval < 1) {
+      throw new Error(
+        `Scrubber checkpointInterval must be a positive integer, got ${checkpointInterval}`
+      );
+    }
+
+    this.cursor = new StreamCursor(events);
+    this.reducer = options.reducer;
+    this.checkpointInterval = checkpointInterval;
+    this.checkpoints.set(0, options.initialState);
+    this.snapshot = this.createSnapshot(options.initialState);
+  }
+
+  /**
+   * Get the snapshot at the current position
+   *
+   * @returns Current snapshot
+   */
+  getSnapshot(): StreamSnapshot<S, T> {
+    return this.snapshot;
+  }
+
+  /**
+   * Apply the next event
+   *
+   * @returns Snapshot after the move (unchanged at the end)
+   */
+  stepForward(): StreamSnapshot<S, T> {
+    const event = this.cursor.next();
+    return event ? this.update(this.reducer(this.snapshot.state, event)) : this.snapshot;
+  }
+
+  /**
+   * Undo the last applied event
+   *
+   * @returns Snapshot after the move (unchanged at the start)
+   */
+  stepBack(): StreamSnapshot<S, T> {
+    return this.cursor.previous()
+      ? this.update(this.stateAt(this.cursor.getPosition()))
+      : this.snapshot;
+  }
+
+  /**
+   * Move to a position
+   *
+   * @param position - Number of events to apply
+   * @returns Snapshot at the position
+   * @throws Error if the position is out of bounds
+   */
+  seek(position: number): StreamSnapshot<S, T> {
+    this.cursor.seek(position);
+    return this.update(this.stateAt(position));
+  }
+
+  /**
+   * Move to just after an event, so it is the last one applied
+   *
+   * @param eventId - Event ID
+   * @returns Snapshot after the event
+   * @throws Error if no event has this ID
+   */
+  jumpTo(eventId: string): StreamSnapshot<S, T> {
+    this.cursor.seekToId(eventId);
+    return this.update(this.stateAt(this.cursor.getPosition()));
+  }
+
+  /**
+   * Name the current position (or another one) to return to later
+   *
+   * @param name - Bookmark name
+   * @param position - Position to mark (default: current position)
+   * @returns Current snapshot, including the new bookmark if it is here
+   * @throws Error if the position is out of bounds
+   */
+  bookmark(name: string, position?: number): StreamSnapshot<S, T> {
+    this.cursor.bookmark(name, position);
+    return this.update(this.snapshot.state);
+  }
+
+  /**
+   * Move to a named bookmark
+   *
+   * @param name - Bookmark name
+   * @returns Snapshot at the bookmark
+   * @throws Error if no bookmark has this name
+   */
+  goToBookmark(name: string): StreamSnapshot<S, T> {
+    this.cursor.seekToBookmark(name);
+    return this.update(this.stateAt(this.cursor.getPosition()));
+  }
+
+  /**
+   * Get every bookmark
+   *
+   * @returns Positions by bookmark name
+   */
+  getBookmarks(): Record<string, number> {
+    return this.cursor.getBookmarks();
+  }
+
+  /**
+   * Add events delivered after the scrubber was created
+   *
+   * A scrubber at the end applies them and stays at the end.
+   *
+   * @param events - New events
+   * @returns Snapshot after appending
+   */
+  append(...events: T[]): StreamSnapshot<S, T> {
+    const following = this.cursor.isAtEnd();
+    this.cursor.append(...events);
+
+    if (!following) {
+      return this.update(this.snapshot.state);
+    }
+
+    let state = this.snapshot.state;
+    let event = this.cursor.next();
+    while (event) {
+      state = this.reducer(state, event);
+      this.cacheCheckpoint(this.cursor.getPosition(), state);
+      event = this.cursor.next();
+    }
+    return this.update(state);
+  }
+
+  /**
+   * Subscribe to snapshots
+   *
+   * @param listener - Called after every move
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: SnapshotListener<S, T>): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Reconstruct the state after the first `position` events
+   */
+  private stateAt(position: number): S {
+    let start = position - (position % this.checkpointInterval);
+    while (!this.checkpoints.has(start)) {
+      start -= this.checkpointInterval;
+    }
+
+    let state = this.checkpoints.get(start) as S;
+    for (let index = start; index < position; index++) {
+      state = this.reducer(state, this.cursor.getEventAt(index) as T);
+      this.cacheCheckpoint(index + 1, state);
+    }
+    return state;
+  }
+
+  private cacheCheckpoint(position: number, state: S): void {
+    if (position % this.checkpointInterval === 0) {
+      this.checkpoints.set(position, state);
+    }
+  }
+
+  private update(state: S): StreamSnapshot<S, T> {
+    this.cacheCheckpoint(this.cursor.getPosition(), state);
+    this.snapshot = this.createSnapshot(state);
+    this.listeners.forEach((listener) => listener(this.snapshot));
+    return this.snapshot;
+  }
+
+  private createSnapshot(state: S): StreamSnapshot<S, T> {
+    const position = this.cursor.getPosition();
+
+    return {
+      position,
+      totalEvents: this.cursor.getTotalEvents(),
+      event: this.cursor.getEventAt(position - 1),
+      state,
+      bookmarks: Object.entries(this.cursor.getBookmarks())
+        .filter(([, marked]) => marked === position)
+        .map(([name]) => name),
+    };
+  }
+}
@@ -6,7 +6,20 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { StreamSession, type SessionConfig, type EnrichedStreamEvent } from './streamSession';
+import { FixtureTransport, ScriptTransport } from './transport';
 import type { StreamEvent } from '@/types/events';
+import { VirtualClock } from '@/lib/utils/clock';
+
+/**
+ * Consume a session's stream into an array
+ */
+async function collect(session: StreamSession): Promise<EnrichedStreamEvent[]> {
+  const events: EnrichedStreamEvent[] = [];
+  for await (const event of session.stream()) {
+    events.push(event);
+  }
+  return events;
+}
 
 describe('StreamSession', () => {
   let sampleEvents: StreamEvent[];
@@ -110,6 +123,66 @@ describe('StreamSession', () => {
 
       expect(session.getState()).toBe('closed');
     });
+
+    it('should report lifecycle transitions through completion', async () => {
+      const session = new StreamSession(sessionConfig);
+      const transitions: string[] = [];
+      session.onTransition(({ from, to }) => transitions.push(`${from} → ${to}`));
+
+      for await (const _event of session.stream()) {
+        // Just consume
+      }
+
+      expect(session.getPhase()).toBe('completed');
+      expect(transitions).toEqual(['idle → streaming', 'streaming → completed']);
+    });
+
+    it('should await a prompt until it is answered', async () => {
+      const prompt = {
+        id: 'await-1',
+        type: 'await_input',
+        timestamp: 1500,
+        data: { requestId: 'budget', message: 'Budget?', fields: [] },
+      } as unknown as StreamEvent;
+      const session = new StreamSession({
+        ...sessionConfig,
+        events: [sampleEvents[0], prompt, sampleEvents[1]],
+      });
+      const generator = session.stream();
+
+      await generator.next();
+      await generator.next();
+      expect(session.getPhase()).toBe('awaiting');
+      expect(session.getState()).toBe('active');
+      expect(() => session.pause()).toThrow('Cannot pause: session not streaming');
+
+      session.send({
+        id: 'submit-1',
+        type: 'input_submission',
+        timestamp: 1600,
+        data: { requestId: 'budget', value: 40, submittedAt: 1600 },
+      });
+      expect(session.getPhase()).toBe('streaming');
+
+      session.close();
+      expect(session.getPhase()).toBe('closed');
+    });
+
+    it('should enter the error phase when the transport fails', async () => {
+      const session = new StreamSession({
+        ...sessionConfig,
+        simulateDisconnect: { afterEvents: 1 },
+      });
+
+      await expect(async () => {
+        for await (const _event of session.stream()) {
+          // Just consume
+        }
+      }).rejects.toThrow(/Connection dropped/);
+
+      expect(session.getPhase()).toBe('error');
+      expect(session.isClosed()).toBe(true);
+    });
   });
 
   describe('Pause and resume', () => {
@@ -140,13 +213,13 @@ describe('StreamSession', () => {
     it('should throw when pausing non-active session', () => {
       const session = new StreamSession(sessionConfig);
 
-      expect(() => session.pause()).toThrow(/Cannot pause session in idle state/);
+      expect(() => session.pause()).toThrow('Cannot pause: session not streaming');
     });
 
     it('should throw when resuming non-paused session', () => {
       const session = new StreamSession(sessionConfig);
 
-      expect(() => session.resume()).toThrow(/Cannot resume session in idle state/);
+      expect(() => session.resume()).toThrow('Cannot resume: session not paused');
     });
 
     it('should preserve cursor position when paused', async () => {
@@ -254,43 +327,38 @@ describe('StreamSession', () => {
 
   describe('Delay profiles', () => {
     it('should respect fast delay profile', async () => {
-      const config = { ...sessionConfig, delayProfile: 'fast' as const };
-      const session = new StreamSession(config);
-
-      const startTime = Date.now();
+      const clock = new VirtualClock();
+      const session = new StreamSession({ ...sessionConfig, delayProfile: 'fast', clock });
 
-      for await (const _event of session.stream()) {
-        // Just consume
-      }
+      const received = collect(session);
+      await clock.runAll();
 
-      const elapsed = Date.now() - startTime;
-
-      // 3 events × 50ms = 150ms (with some tolerance)
-      expect(elapsed).toBeGreaterThan(100);
-      expect(elapsed).toBeLessThan(300);
+      // 3 events × 50ms; timestamps are capped at the (virtual) current time
+      expect((await received).map((event) => event.timestamp)).toEqual([50, 100, 150]);
+      expect(clock.now()).toBe(150);
     });
 
     it('should respect normal delay profile', async () => {
-      const config = { ...sessionConfig, delayProfile: 'normal' as const };
-      const session = new StreamSession(config);
-
-      const startTime = Date.now();
-      let count = 0;
+      const clock = new VirtualClock();
+      const session = new StreamSession({ ...sessionConfig, delayProfile: 'normal', clock });
+      const received: EnrichedStreamEvent[] = [];
 
-      // Only consume first 2 events to keep test fast
-      for await (const _event of session.stream()) {
-        count++;
-        if (count === 2) {
-          session.close();
-          break;
+      void (async () => {
+        for await (const event of session.stream()) {
+          received.push(event);
         }
-      }
+      })();
+
+      await clock.advance(299);
+      expect(received).toHaveLength(0);
+
+      await clock.advance(1);
+      expect(received).toHaveLength(1);
 
-      const elapsed = Date.now() - startTime;
+      await clock.advance(300);
+      expect(received).toHaveLength(2);
 
-      // 2 events × 300ms = 600ms (with tolerance)
-      expect(elapsed).toBeGreaterThan(500);
-      expect(elapsed).toBeLessThan(800);
+      session.close();
     });
   });
 
@@ -377,6 +445,148 @@ describe('StreamSession', () => {
     });
   });
 
+  describe('Resumption and reconnect', () => {
+    it('should resume after a last event ID', async () => {
+      const session = new StreamSession({
+        ...sessionConfig,
+        resumeFrom: { lastEventId: '1', sequenceNumber: 1 },
+      });
+
+      const events: EnrichedStreamEvent[] = [];
+      for await (const event of session.stream()) {
+        events.push(event);
+      }
+
+      expect(events.map((e) => e.id)).toEqual(['2', '3']);
+      expect(events[0].metadata?.sequenceNumber).toBe(2);
+    });
+
+    it('should resume from a sequence number when the ID is unknown', async () => {
+      const session = new StreamSession({
+        ...sessionConfig,
+        resumeFrom: { lastEventId: 'missing', sequenceNumber: 2 },
+      });
+
+      const events: EnrichedStreamEvent[] = [];
+      for await (const event of session.stream()) {
+        events.push(event);
+      }
+
+      expect(events.map((e) => e.id)).toEqual(['3']);
+    });
+
+    it('should throw on a simulated disconnect without reconnect', async () => {
+      const session = new StreamSession({
+        ...sessionConfig,
+        simulateDisconnect: { afterEvents: 1 },
+      });
+
+      const ids: string[] = [];
+      await expect(async () => {
+        for await (const event of session.stream()) {
+          ids.push(event.id);
+        }
+      }).rejects.toThrow('Connection dropped after 1 events (simulated)');
+
+      expect(ids).toEqual(['1']);
+    });
+
+    it('should reconnect, emit a marker and continue without losing events', async () => {
+      const session = new StreamSession({
+        ...sessionConfig,
+        simulateDisconnect: { afterEvents: 2 },
+        reconnect: { initialDelayMs: 10 },
+      });
+
+      const events: EnrichedStreamEvent[] = [];
+      for await (const event of session.stream()) {
+        events.push(event);
+      }
+
+      expect(events.map((e) => e.type)).toEqual([
+        'reasoning',
+        'reasoning',
+        'reconnected',
+        'answer',
+      ]);
+
+      const marker = events[2];
+      expect(marker.data).toEqual({
+        attempt: 1,
+        delayMs: 10,
+        lastEventId: '2',
+        sequenceNumber: 2,
+      });
+      expect(marker.metadata?.synthetic).toBe(true);
+      expect(events[3].metadata?.sequenceNumber).toBe(3);
+      expect(session.getStatistics().reconnectCount).toBe(1);
+    });
+
+    it('should apply exponential backoff capped at maxDelayMs', async () => {
+      const session = new StreamSession({
+        ...sessionConfig,
+        simulateDisconnect: { afterEvents: [1, 1, 1] },
+        reconnect: { initialDelayMs: 5, backoffMultiplier: 3, maxDelayMs: 20 },
+      });
+
+      const events: EnrichedStreamEvent[] = [];
+      for await (const event of session.stream()) {
+        events.push(event);
+      }
+
+      // Consecutive drops before any new event: only the final attempt is announced
+      const markers = events.filter((e) => e.type === 'reconnected');
+      expect(markers).toHaveLength(1);
+      expect(markers[0].data).toMatchObject({ attempt: 3, delayMs: 20 });
+      expect(events.filter((e) => e.type !== 'reconnected')).toHaveLength(3);
+    });
+
+    it('should give up after maxRetries consecutive failures', async () => {
+      const session = new StreamSession({
+        ...sessionConfig,
+        simulateDisconnect: { afterEvents: [1, 1, 1] },
+        reconnect: { initialDelayMs: 1, maxRetries: 2 },
+      });
+
+      await expect(async () => {
+        for await (const _event of session.stream()) {
+          // consume
+        }
+      }).rejects.toThrow('simulated');
+    });
+
+    it('should use the transport retry hint as base delay', async () => {
+      const transport = new FixtureTransport(sampleEvents, 0);
+      const hinted = Object.assign(transport, { getRetryHint: () => 15 });
+
+      const session = new StreamSession({
+        sessionId: 'hinted',
+        transport: hinted,
+        simulateDisconnect: { afterEvents: 1 },
+        reconnect: { initialDelayMs: 1000 },
+      });
+
+      const events: EnrichedStreamEvent[] = [];
+      for await (const event of session.stream()) {
+        events.push(event);
+      }
+
+      expect(events[1].data).toMatchObject({ attempt: 1, delayMs: 15 });
+    });
+
+    it('should expose the resume point of the last delivered event', async () => {
+      const session = new StreamSession(sessionConfig);
+      const generator = session.stream();
+
+      await generator.next();
+      await generator.next();
+
+      expect(session.getResumePoint()).toEqual({ lastEventId: '2', sequenceNumber: 2 });
+
+      session.close();
+    });
+  });
+
   describe('isActive and isClosed helpers', () => {
     it('should correctly report active state', async () => {
       const session = new StreamSession(sessionConfig);
@@ -415,4 +625,228 @@ describe('StreamSession', () => {
       session.close();
     });
   });
+
+  describe('Sending client events', () => {
+    const submission: StreamEvent = {
+      id: 'submit-1',
+      type: 'input_submission',
+      timestamp: 1500,
+      data: { requestId: 'await-1', value: 'yes', submittedAt: 1500 },
+    };
+
+    it('should record sent events as outbound', () => {
+      const sent: EnrichedStreamEvent[] = [];
+      const session = new StreamSession({ ...sessionConfig, onSend: (event) => sent.push(event) });
+
+      const outbound = session.send(submission);
+
+      expect(outbound).toEqual({
+        ...submission,
+        sessionId: 'test-session-123',
+        metadata: {
+          source: 'mock',
+          sessionId: 'test-session-123',
+          sequenceNumber: 0,
+          direction: 'outbound',
+        },
+      });
+      expect(sent).toEqual([outbound]);
+      expect(session.getStatistics().outboundEvents).toBe(1);
+    });
+
+    it('should not advance the sequence number', async () => {
+      const session = new StreamSession(sessionConfig);
+      const generator = session.stream();
+
+      await generator.next();
+      session.send(submission);
+
+      expect(session.getResumePoint().sequenceNumber).toBe(1);
+      expect((await generator.next()).value?.metadata?.sequenceNumber).toBe(2);
+
+      session.close();
+    });
+
+    it('should reject events sent to a closed session', () => {
+      const session = new StreamSession(sessionConfig);
+      session.close();
+
+      expect(() => session.send(submission)).toThrow('Cannot send to session in closed state');
+    });
+  });
+
+  describe('Buffering and backpressure', () => {
+    const rows = (count: number): StreamEvent[] =>
+      Array.from({ length: count }, (_, index) => ({
+        id: `row-${index}`,
+        type: 'answer',
+        timestamp: 1000 + index,
+        data: { text: `Row ${index}`, isFinal: false },
+      }));
+
+    /** Consumer that takes several macrotasks per event, slower than a 0ms transport */
+    const slowly = () =>
+      new Promise((resolve) => setTimeout(resolve, 0))
+        .then(() => new Promise((resolve) => setTimeout(resolve, 0)))
+        .then(() => new Promise((resolve) => setTimeout(resolve, 0)));
+
+    it('should report zero buffer depth without a buffer', () => {
+      const session = new StreamSession(sessionConfig);
+
+      expect(session.getStatistics().bufferDepth).toBe(0);
+      expect(session.getStatistics().buffer).toBeUndefined();
+    });
+
+    it('should drop the oldest rows when the consumer cannot keep up', async () => {
+      const session = new StreamSession({
+        sessionId: 'slow-table',
+        events: rows(1000),
+        timing: { getDelay: () => 0 },
+        buffer: { highWaterMark: 50, policy: 'drop-oldest' },
+      });
+      const received: EnrichedStreamEvent[] = [];
+      const depths: number[] = [];
+
+      for await (const event of session.stream()) {
+        received.push(event);
+        depths.push(session.getStatistics().bufferDepth);
+        await slowly();
+      }
+
+      const { buffer } = session.getStatistics();
+      expect(buffer?.dropped).toBeGreaterThan(0);
+      expect(received.length + (buffer?.dropped ?? 0)).toBe(1000);
+      expect(received[received.length - 1].id).toBe('row-999');
+      expect(Math.max(...depths)).toBe(49);
+      expect(buffer?.maxDepth).toBe(50);
+      expect(session.getState()).toBe('closed');
+
+      // Sequence numbers show which rows were skipped, in order
+      const sequence = received.map((event) => event.metadata?.sequenceNumber ?? 0);
+      expect(sequence).toEqual([...sequence].sort((a, b) => a - b));
+    });
+
+    it('should hold the transport back with the block policy', async () => {
+      const session = new StreamSession({
+        sessionId: 'blocked-table',
+        events: rows(200),
+        timing: { getDelay: () => 0 },
+        buffer: { highWaterMark: 20, lowWaterMark: 5 },
+      });
+      const received: string[] = [];
+
+      for await (const event of session.stream()) {
+        received.push(event.id);
+        expect(session.getStatistics().bufferDepth).toBeLessThanOrEqual(20);
+        await slowly();
+      }
+
+      expect(received).toEqual(rows(200).map((row) => row.id));
+      expect(session.getStatistics().buffer).toMatchObject({ dropped: 0, maxDepth: 20 });
+    });
+
+    it('should discard buffered events when closed', async () => {
+      const session = new StreamSession({
+        sessionId: 'closed-buffer',
+        events: rows(100),
+        timing: { getDelay: () => 0 },
+        buffer: { highWaterMark: 10 },
+      });
+      const generator = session.stream();
+
+      await generator.next();
+      await slowly();
+      expect(session.getStatistics().bufferDepth).toBeGreaterThan(0);
+
+      session.close();
+
+      expect(session.getStatistics().bufferDepth).toBe(0);
+      expect((await generator.next()).done).toBe(true);
+    });
+  });
+
+  describe('Virtual clock', () => {
+    it('should wait out reconnect backoff on the session clock', async () => {
+      const clock = new VirtualClock();
+      const session = new StreamSession({
+        ...sessionConfig,
+        clock,
+        simulateDisconnect: { afterEvents: 1 },
+        reconnect: { initialDelayMs: 1000 },
+      });
+
+      const received = collect(session);
+      await clock.runAll();
+      const events = await received;
+
+      expect(events.map((event) => [event.type, event.timestamp])).toEqual([
+        ['reasoning', 50],
+        ['reconnected', 1050],
+        ['reasoning', 1100],
+        ['answer', 1150],
+      ]);
+    });
+
+    it('should time out inbound waits on the session clock', async () => {
+      const clock = new VirtualClock();
+      const session = new StreamSession({
+        sessionId: 'virtual-timeout',
+        clock,
+        transport: new ScriptTransport(
+          async function* ({ waitFor }) {
+            yield sampleEvents[0];
+            try {
+              await waitFor('input_submission', { timeoutMs: 60000 });
+            } catch {
+              yield sampleEvents[2];
+            }
+          },
+          0,
+          clock
+        ),
+      });
+
+      const received = collect(session);
+      await clock.runAll();
+
+      expect((await received).map((event) => event.id)).toEqual(['1', '3']);
+      expect(clock.now()).toBe(60000);
+    });
+
+    it('should replay a long fixture without real waiting', async () => {
+      const clock = new VirtualClock(1699564800000);
+      const events: StreamEvent[] = Array.from({ length: 500 }, (_, index) => ({
+        id: `row-${index}`,
+        type: 'answer',
+        timestamp: 1699564800000 + index * 1000,
+        data: { text: `${index}`, isFinal: false },
+      }));
+      const session = new StreamSession({ sessionId: 'long', events, delayProfile: 'slow', clock });
+
+      const received = collect(session);
+      await clock.runAll();
+
+      expect(await received).toHaveLength(500);
+      expect(clock.now()).toBe(1699564800000 + 500 * 1000);
+    });
+  });
+
+  describe('Scrubbing', () => {
+    it('should record delivered events for stepping back and forth', async () => {
+      const session = new StreamSession({ ...sessionConfig, timing: { getDelay: () => 0 } });
+      const scrubber = session.createScrubber({
+        reducer: (ids: string[], event) => [...ids, event.id],
+        initialState: [],
+      });
+      const positions: number[] = [];
+      scrubber.subscribe((snapshot) => positions.push(snapshot.position));
+
+      await collect(session);
+
+      expect(positions).toEqual([1, 2, 3]);
+      expect(scrubber.stepBack().state).toEqual(['1', '2']);
+      expect(scrubber.jumpTo('1').state).toEqual(['1']);
+      expect(session.getState()).toBe('closed');
+    });
+  });
 });
@@ -3,26 +3,98 @@
  *
  * This module implements the StreamSession aggregate from the Streaming Infrastructure
  * bounded context. A session manages the lifecycle of a single event stream, including
- * state transitions, pause/resume mechanics, and clean closure.
+ * state transitions, pause/resume mechanics, reconnection after drops, and clean closure.
+ * Sessions are bidirectional: clients send events back through `send()`.
+ *
+ * State transitions follow the shared stream lifecycle (see lifecycle.ts), so
+ * an invalid one (e.g. pausing an idle session) throws a LifecycleTransitionError.
  *
  * @module lib/streaming/streamSession
  */
 
-import type { StreamEvent } from '@/types/events';
-import { StreamCursor } from './streamCursor';
+import type { StreamEvent, ReconnectedEvent } from '@/types/events';
+import {
+  FixtureTransport,
+  type ResumePoint,
+  type StreamTransport,
+  type TransportKind,
+} from './transport';
+import { DELAY_PROFILE_MS, type DelayProfile, type TimingModel } from './timingModels';
+import { InboundChannel, type EventDirection } from './inboundChannel';
+import { EventBuffer, type BufferConfig, type BufferStatistics } from './eventBuffer';
+import { StreamScrubber, type ScrubberOptions } from './streamScrubber';
+import {
+  createLifecycle,
+  isTerminalPhase,
+  lifecycleActionForEvent,
+  type LifecyclePhase,
+  type LifecycleTransition,
+} from './lifecycle';
+import { systemClock, type Clock } from '@/lib/utils/clock';
+import { delay } from '@/lib/utils/delay';
 
 /**
  * Session state values
+ *
+ * A coarser view of the session's lifecycle phase (see `getPhase()`):
+ * streaming and awaiting are 'active'; completed, error and closed are 'closed'.
  */
 export type SessionState = 'idle' | 'active' | 'paused' | 'closed';
 
 /**
- * Delay profile for timing control
- * - fast: 50ms between events (for quick testing)
- * - normal: 300ms between events (realistic UX)
- * - slow: 1000ms between events (for detailed observation)
+ * Map a lifecycle phase to its session state
+ *
+ * @param phase - Lifecycle phase
+ * @returns Session state
+ */
+export function toSessionState(phase: LifecyclePhase): SessionState {
+  switch (phase) {
+    case 'idle':
+      return 'idle';
+    case 'streaming':
+    case 'awaiting':
+      return 'active';
+    case 'paused':
+      return 'paused';
+    case 'completed':
+    case 'error':
+    case 'closed':
+      return 'closed';
+  }
+}
+
+export type { DelayProfile };
+
+/**
+ * Reconnect configuration for recovering dropped connections
+ *
+ * Backoff delay for attempt n is `base * backoffMultiplier^(n-1)`, capped at
+ * `maxDelayMs`, where `base` is the transport's `retry:` hint if it sent one
+ * and `initialDelayMs` otherwise.
+ */
+export interface ReconnectConfig {
+  /** Maximum consecutive reconnect attempts before giving up (default: 3) */
+  maxRetries?: number;
+
+  /** Initial backoff delay in milliseconds (default: 1000) */
+  initialDelayMs?: number;
+
+  /** Maximum backoff delay in milliseconds (default: 10000) */
+  maxDelayMs?: number;
+
+  /** Multiplier applied to the delay after each failed attempt (default: 2) */
+  backoffMultiplier?: number;
+}
+
+/**
+ * Simulated disconnect configuration
+ *
+ * Lets demos and tests reproduce a dropped connection deterministically.
  */
-export type DelayProfile = 'fast' | 'normal' | 'slow';
+export interface SimulateDisconnectConfig {
+  /** Drop the connection once this many events have been delivered (one entry per drop) */
+  afterEvents: number | number[];
+}
 
 /**
  * Session configuration
@@ -31,14 +103,53 @@ export interface SessionConfig {
   /** Unique session identifier */
   sessionId: string;
 
-  /** Array of events to stream */
-  events: StreamEvent[];
+  /** Array of events to stream (ignored when a transport is provided) */
+  events?: StreamEvent[];
+
+  /** Transport supplying events (default: FixtureTransport over `events`) */
+  transport?: StreamTransport;
 
-  /** Delay profile controlling timing */
+  /** Delay profile controlling timing (fixture transport only) */
   delayProfile?: DelayProfile;
 
+  /** Timing model overriding the delay profile (fixture transport only) */
+  timing?: TimingModel;
+
   /** Whether to add metadata to events */
   enrichEvents?: boolean;
+
+  /** Point to resume from (e.g. a previously seen last event ID) */
+  resumeFrom?: ResumePoint;
+
+  /**
+   * Client events sent before the point resumed from (e.g. restored after a
+   * reload). They are queued on the inbound channel without being reported to
+   * `onSend`, so a script that is run again finds the answers it already got.
+   */
+  sentEvents?: StreamEvent[];
+
+  /** Reconnect on dropped connections (disabled when omitted) */
+  reconnect?: ReconnectConfig;
+
+  /** Simulate dropped connections at fixed points */
+  simulateDisconnect?: SimulateDisconnectConfig;
+
+  /** Called with each event sent by the client (e.g. to capture it in the Network Inspector) */
+  onSend?: (event: EnrichedStreamEvent) => void;
+
+  /**
+   * Read the transport ahead of the consumer into a bounded buffer
+   * (default: unbuffered, the transport is only read when the consumer pulls)
+   */
+  buffer?: BufferConfig;
+
+  /**
+   * Clock for event delays, reconnect backoff, inbound timeouts and
+   * timestamps (default: the system clock). Pass a VirtualClock to run the
+   * session in tests without real waiting; a custom transport needs the
+   * same clock passed to it.
+   */
+  clock?: Clock;
 }
 
 /**
@@ -46,13 +157,19 @@ export interface SessionConfig {
  */
 export interface SessionMetadata {
   /** Source of the stream */
-  source: 'mock';
+  source: TransportKind;
 
   /** Session ID */
   sessionId: string;
 
   /** Event sequence number within session */
   sequenceNumber: number;
+
+  /** True for markers generated by the session rather than the transport */
+  synthetic?: boolean;
+
+  /** 'outbound' for events sent by the client; absent on events delivered by the stream */
+  direction?: EventDirection;
 }
 
 /**
@@ -70,12 +187,16 @@ export type EnrichedStreamEvent = StreamEvent & {
  * StreamSession - Manages the lifecycle of a mock event stream
  *
  * The StreamSession is an aggregate root in the Streaming Infrastructure context.
- * It orchestrates event generation from fixtures, manages timing, and ensures
- * proper state transitions and cleanup.
+ * It orchestrates event delivery from a transport (fixture replay by default),
+ * manages timing, and ensures proper state transitions and cleanup.
  *
  * Key responsibilities:
  * - State management (idle → active → closed)
  * - Pause/resume mechanics
+ * - Reconnection with backoff, resuming after the last received event
+ * - Inbound channel for client events (`send()`), which scripted transports wait on
+ * - Optional bounded buffering with a backpressure policy for slow consumers
+ * - Scrubbers that record delivered events for stepping back and forth
  * - Event enrichment with metadata
  * - Clean closure and resource cleanup
  *
@@ -100,25 +221,75 @@ export type EnrichedStreamEvent = StreamEvent & {
  */
 export class StreamSession {
   private readonly sessionId: string;
-  private readonly cursor: StreamCursor;
+  private readonly transport: StreamTransport;
   private readonly delayProfile: DelayProfile;
   private readonly enrichEvents: boolean;
-  private state: SessionState = 'idle';
+  private readonly lifecycle = createLifecycle({ subject: 'session' });
   private pauseResolve: (() => void) | null = null;
   private isPaused: boolean = false;
   private lastTimestamp: number = 0;
   private sequenceNumber: number = 0;
+  private lastEventId: string | undefined = undefined;
+  private readonly resumeFrom: ResumePoint | undefined;
+  private readonly reconnectConfig: Required<ReconnectConfig> | null;
+  private readonly pendingDisconnects: number[];
+  private reconnectCount: number = 0;
+  private readonly inbound: InboundChannel;
+  private readonly onSend: ((event: EnrichedStreamEvent) => void) | undefined;
+  private outboundCount: number = 0;
+  private readonly bufferConfig: BufferConfig | undefined;
+  private buffer: EventBuffer<EnrichedStreamEvent> | null = null;
+  private readonly clock: Clock;
+  private readonly scrubbers = new Set<StreamScrubber<unknown, EnrichedStreamEvent>>();
 
   /**
    * Create a new stream session
    *
    * @param config - Session configuration
+   * @throws Error if neither events nor a transport are provided
    */
   constructor(config: SessionConfig) {
     this.sessionId = config.sessionId;
-    this.cursor = new StreamCursor(config.events);
     this.delayProfile = config.delayProfile ?? 'normal';
     this.enrichEvents = config.enrichEvents ?? true;
+    this.resumeFrom = config.resumeFrom;
+    this.onSend = config.onSend;
+    this.bufferConfig = config.buffer;
+    this.clock = config.clock ?? systemClock;
+    this.inbound = new InboundChannel(this.clock);
+    this.reconnectConfig = config.reconnect
+      ? {
+          maxRetries: config.reconnect.maxRetries ?? 3,
+          initialDelayMs: config.reconnect.initialDelayMs ?? 1000,
+          maxDelayMs: config.reconnect.maxDelayMs ?? 10000,
+          backoffMultiplier: config.reconnect.backoffMultiplier ?? 2,
+        }
+      : null;
+
+    const afterEvents = config.simulateDisconnect?.afterEvents ?? [];
+    this.pendingDisconnects = (Array.isArray(afterEvents) ? [...afterEvents] : [afterEvents]).sort(
+      (a, b) => a - b
+    );
+
+    if (config.resumeFrom?.sequenceNumber !== undefined) {
+      this.sequenceNumber = config.resumeFrom.sequenceNumber;
+    }
+    this.lastEventId = config.resumeFrom?.lastEventId;
+
+    if (config.transport) {
+      this.transport = config.transport;
+    } else if (config.events) {
+      this.transport = new FixtureTransport(
+        config.events,
+        config.timing ?? DELAY_PROFILE_MS[this.delayProfile],
+        this.clock
+      );
+    } else {
+      throw new Error('Session requires either events or a transport');
+    }
+
+    config.sentEvents?.forEach((event) => this.inbound.send(event));
+    this.transport.attachInbound?.(this.inbound);
   }
 
   /**
@@ -127,7 +298,31 @@ export class StreamSession {
    * @returns Current state
    */
   getState(): SessionState {
-    return this.state;
+    return toSessionState(this.lifecycle.getPhase());
+  }
+
+  /**
+   * Get current lifecycle phase
+   *
+   * @returns Current phase
+   */
+  getPhase(): LifecyclePhase {
+    return this.lifecycle.getPhase();
+  }
+
+  /**
+   * Listen for lifecycle transitions
+   *
+   * @param listener - Called with each transition, after it took place
+   * @returns Unsubscribe function
+   *
+   * @example
+   * ```typescript
+   * session.onTransition(({ from, to }) => console.log(`${from} → ${to}`));
+   * ```
+   */
+  onTransition(listener: (transition: LifecycleTransition) => void): () => void {
+    return this.lifecycle.subscribe(listener);
   }
 
   /**
@@ -145,25 +340,34 @@ export class StreamSession {
    * @returns Current position in event sequence
    */
   getCursorPosition(): number {
-    return this.cursor.getPosition();
+    return this.transport.getPosition();
+  }
+
+  /**
+   * Get the transport supplying this session's events
+   *
+   * @returns Stream transport
+   */
+  getTransport(): StreamTransport {
+    return this.transport;
   }
 
   /**
    * Check if session is active
    *
-   * @returns True if session is active or paused
+   * @returns True if session is streaming, paused or awaiting input
    */
   isActive(): boolean {
-    return this.state === 'active' || this.state === 'paused';
+    return this.getState() === 'active' || this.getState() === 'paused';
   }
 
   /**
    * Check if session is closed
    *
-   * @returns True if session is closed
+   * @returns True if session has completed, failed or been closed
    */
   isClosed(): boolean {
-    return this.state === 'closed';
+    return isTerminalPhase(this.lifecycle.getPhase());
   }
 
   /**
@@ -171,13 +375,11 @@ export class StreamSession {
    *
    * Pausing suspends event emission without closing the session.
    * The cursor position is preserved, allowing resumption from the same point.
+   *
+   * @throws LifecycleTransitionError if the session is not streaming
    */
   pause(): void {
-    if (this.state !== 'active') {
-      throw new Error(`Cannot pause session in ${this.state} state`);
-    }
-
-    this.state = 'paused';
+    this.lifecycle.transition('pause');
     this.isPaused = true;
   }
 
@@ -185,13 +387,11 @@ export class StreamSession {
    * Resume the stream
    *
    * Resumes event emission from the current cursor position.
+   *
+   * @throws LifecycleTransitionError if the session is not paused
    */
   resume(): void {
-    if (this.state !== 'paused') {
-      throw new Error(`Cannot resume session in ${this.state} state`);
-    }
-
-    this.state = 'active';
+    this.lifecycle.transition('resume');
     this.isPaused = false;
 
     // Resolve any waiting pause promise
@@ -210,12 +410,36 @@ export class StreamSession {
    * Invariant INV-7: Session must close cleanly
    */
   close(): void {
-    if (this.state === 'closed') {
+    if (this.isClosed()) {
       return; // Already closed, idempotent
     }
 
-    this.state = 'closed';
+    this.lifecycle.transition('close');
+    this.release();
+  }
+
+  /**
+   * End the session after its stream completed or failed
+   *
+   * @param action - 'complete' or 'fail'
+   */
+  private finish(action: 'complete' | 'fail'): void {
+    if (this.isClosed()) {
+      return;
+    }
+
+    this.lifecycle.transition(action);
+    this.release();
+  }
+
+  /**
+   * Release the transport, inbound channel and buffer
+   */
+  private release(): void {
     this.isPaused = false;
+    this.transport.close();
+    this.inbound.close();
+    this.buffer?.close();
 
     // Resolve any waiting pause promise to prevent deadlock
     if (this.pauseResolve) {
@@ -225,18 +449,58 @@ export class StreamSession {
   }
 
   /**
-   * Get delay in milliseconds based on profile
+   * Send a client event to the stream
    *
-   * @returns Delay in milliseconds
+   * The event goes to the transport's inbound channel, so a script waiting
+   * for it (e.g. for an `input_submission`) continues. It is also reported
+   * to `onSend` with `metadata.direction: 'outbound'`, so the Network
+   * Inspector can show both sides of the conversation. Events sent before
+   * the transport asks for them are queued.
+   *
+   * Outbound events do not advance the sequence number used for resuming.
+   *
+   * @param event - Client event (e.g. input_submission, checkpoint_response, user_patch)
+   * @returns The event as recorded, with outbound metadata
+   * @throws Error if the session is closed
+   *
+   * @example
+   * ```typescript
+   * session.send({
+   *   id: 'submit-1',
+   *   type: 'input_submission',
+   *   timestamp: Date.now(),
+   *   data: { requestId: 'await-1', value: 5000, submittedAt: Date.now() },
+   * });
+   * ```
    */
-  private getDelay(): number {
-    const delays: Record<DelayProfile, number> = {
-      fast: 50,
-      normal: 300,
-      slow: 1000,
-    };
+  send(event: StreamEvent): EnrichedStreamEvent {
+    if (this.isClosed()) {
+      throw new Error(`Cannot send to session in ${this.getState()} state`);
+    }
+
+    this.outboundCount++;
+
+    const outbound: EnrichedStreamEvent = this.enrichEvents
+      ? {
+          ...event,
+          sessionId: this.sessionId,
+          metadata: {
+            source: this.transport.kind,
+            sessionId: this.sessionId,
+            sequenceNumber: this.sequenceNumber,
+            direction: 'outbound',
+          },
+        }
+      : event;
+
+    if (lifecycleActionForEvent(event) === 'answer') {
+      this.lifecycle.observe(event);
+    }
+
+    this.onSend?.(outbound);
+    this.inbound.send(event);
 
-    return delays[this.delayProfile];
+    return outbound;
   }
 
   /**
@@ -246,23 +510,146 @@ export class StreamSession {
    * @returns Enriched event with metadata
    */
   private enrichEvent(event: StreamEvent): EnrichedStreamEvent {
+    this.sequenceNumber++;
+    this.lastEventId = event.id;
+
     if (!this.enrichEvents) {
       return event;
     }
 
-    this.sequenceNumber++;
-
     return {
       ...event,
       sessionId: this.sessionId,
       metadata: {
-        source: 'mock',
+        source: this.transport.kind,
         sessionId: this.sessionId,
         sequenceNumber: this.sequenceNumber,
       },
     };
   }
 
+  /**
+   * Create a scrubber that records the events this session delivers
+   *
+   * The scrubber reconstructs state with the given reducer and lets a demo
+   * step back and forth, jump to an event or return to a bookmark without
+   * affecting the stream. While it is at the latest event it follows the
+   * stream; once stepped back it stays put as new events arrive. Only
+   * events delivered after creation are recorded.
+   *
+   * @param options - Reducer and initial state
+   * @returns Scrubber over delivered events
+   *
+   * @example
+   * ```typescript
+   * const scrubber = session.createScrubber({ reducer: reasoningReducer, initialState: [] });
+   * scrubber.subscribe((snapshot) => setView(snapshot.state));
+   *
+   * // While paused
+   * session.pause();
+   * scrubber.stepBack();
+   * scrubber.jumpTo('reason-2');
+   * ```
+   */
+  createScrubber<S>(
+    options: ScrubberOptions<S, EnrichedStreamEvent>
+  ): StreamScrubber<S, EnrichedStreamEvent> {
+    const scrubber = new StreamScrubber<S, EnrichedStreamEvent>([], options);
+    this.scrubbers.add(scrubber as StreamScrubber<unknown, EnrichedStreamEvent>);
+    return scrubber;
+  }
+
+  /**
+   * Get the point after the last delivered event
+   *
+   * Used to resume the stream after a dropped connection, and available to
+   * callers that want to persist progress and resume in a new session.
+   *
+   * @returns Resume point for the next connection
+   */
+  getResumePoint(): ResumePoint {
+    return {
+      lastEventId: this.lastEventId,
+      sequenceNumber: this.sequenceNumber,
+    };
+  }
+
+  /**
+   * Compute backoff delay for a reconnect attempt
+   *
+   * @param attempt - Attempt number (1-based)
+   * @returns Delay in milliseconds
+   */
+  private getReconnectDelay(attempt: number): number {
+    if (!this.reconnectConfig) {
+      return 0;
+    }
+
+    const { initialDelayMs, maxDelayMs, backoffMultiplier } = this.reconnectConfig;
+    const baseDelay = this.transport.getRetryHint?.() ?? initialDelayMs;
+
+    return Math.min(maxDelayMs, baseDelay * Math.pow(backoffMultiplier, attempt - 1));
+  }
+
+  /**
+   * Build the synthetic marker emitted after a successful reconnect
+   *
+   * @param attempt - Attempt number that succeeded
+   * @param delayMs - Backoff delay that was waited
+   * @param resumePoint - Point the stream resumed from
+   * @returns Enriched reconnected event (does not advance the sequence number)
+   */
+  private createReconnectedEvent(
+    attempt: number,
+    delayMs: number,
+    resumePoint: ResumePoint
+  ): EnrichedStreamEvent {
+    const marker: ReconnectedEvent = this.ensureMonotonicTimestamp({
+      id: `${this.sessionId}-reconnected-${this.reconnectCount}`,
+      type: 'reconnected',
+      timestamp: this.clock.now(),
+      data: {
+        attempt,
+        delayMs,
+        lastEventId: resumePoint.lastEventId,
+        sequenceNumber: resumePoint.sequenceNumber ?? 0,
+      },
+    }) as ReconnectedEvent;
+
+    if (!this.enrichEvents) {
+      return marker;
+    }
+
+    return {
+      ...marker,
+      sessionId: this.sessionId,
+      metadata: {
+        source: this.transport.kind,
+        sessionId: this.sessionId,
+        sequenceNumber: this.sequenceNumber,
+        synthetic: true,
+      },
+    };
+  }
+
+  /**
+   * Check whether a simulated drop is due before the next event
+   *
+   * @returns True if the connection should drop now
+   */
+  private shouldSimulateDisconnect(): boolean {
+    if (this.pendingDisconnects.length === 0) {
+      return false;
+    }
+
+    if (this.sequenceNumber >= this.pendingDisconnects[0]) {
+      this.pendingDisconnects.shift();
+      return true;
+    }
+
+    return false;
+  }
+
   /**
    * Ensure timestamp is monotonically increasing
    *
@@ -271,8 +658,8 @@ export class StreamSession {
    * @param event - Event to validate
    * @returns Event with adjusted timestamp if needed
    */
-  private ensureMonotonicTimestamp(event: StreamEvent): StreamEvent {
-    const now = Date.now();
+  private ensureMonotonicTimestamp<T extends StreamEvent>(event: T): T {
+    const now = this.clock.now();
     let timestamp = event.timestamp;
 
     // Ensure timestamp is at least as large as last timestamp
@@ -311,8 +698,18 @@ export class StreamSession {
   /**
    * Stream events from this session
    *
-   * This async generator yields events from the fixture with appropriate
-   * timing delays. It handles pause/resume and ensures all invariants.
+   * This async generator pulls events from the session's transport (the
+   * fixture transport applies timing delays). It handles pause/resume and
+   * ensures all invariants.
+   *
+   * If the transport fails and reconnect is configured, the session waits
+   * with backoff, reconnects from the last delivered event, and yields a
+   * synthetic `reconnected` event before the next real event. Without
+   * reconnect (or once retries are exhausted) the error is thrown.
+   *
+   * With a `buffer` configured, the transport is read ahead of the consumer
+   * and the buffer's policy decides what happens when the consumer falls
+   * behind (see EventBuffer).
    *
    * Invariants enforced:
    * - INV-4: Events emitted in fixture order (via cursor)
@@ -324,75 +721,161 @@ export class StreamSession {
    */
   async *stream(): AsyncGenerator<EnrichedStreamEvent> {
     // Invariant INV-8: Cannot emit from closed session
-    if (this.state === 'closed') {
+    if (this.isClosed()) {
       return;
     }
 
-    // Transition to active state
-    if (this.state === 'idle') {
-      this.state = 'active';
+    // Transition to streaming
+    if (this.lifecycle.can('start')) {
+      this.lifecycle.transition('start');
     }
 
-    const delayMs = this.getDelay();
-
-    // Invariant INV-4: Events emitted in fixture order
-    while (this.cursor.hasNext() && !this.isClosed()) {
-      // Check for pause
-      if (this.isPaused) {
-        await this.waitForResume();
-      }
+    if (this.bufferConfig) {
+      this.buffer = new EventBuffer(this.produce(), this.bufferConfig);
+    }
+    const events = this.buffer ?? this.produce();
 
-      // Check if closed during pause
-      if (this.isClosed()) {
-        break;
-      }
+    try {
+      for await (const event of events) {
+        // Invariant INV-8: Buffered events are discarded once closed
+        if (this.isClosed()) {
+          break;
+        }
 
-      // Apply delay before emitting event
-      await new Promise((resolve) => setTimeout(resolve, delayMs));
+        // Prompts block the stream on the user until they are answered
+        this.lifecycle.observe(event);
 
-      // Get next event from cursor
-      const event = this.cursor.next();
-      if (!event) {
-        break;
+        this.scrubbers.forEach((scrubber) => scrubber.append(event));
+        yield event;
       }
-
-      // Invariant INV-5: Timestamps monotonically increasing
-      const timestampedEvent = this.ensureMonotonicTimestamp(event);
-
-      // Enrich event with session metadata
-      const enrichedEvent = this.enrichEvent(timestampedEvent);
-
-      yield enrichedEvent;
+    } catch (error) {
+      this.finish('fail');
+      throw error;
+    } finally {
+      this.buffer?.close();
     }
 
     // Invariant INV-7: Session closes cleanly after all events
-    if (!this.isClosed()) {
-      this.close();
+    this.finish('complete');
+  }
+
+  /**
+   * Pull events from the transport, handling pause, reconnects and enrichment
+   *
+   * @yields Enriched stream events
+   */
+  private async *produce(): AsyncGenerator<EnrichedStreamEvent> {
+    let source = this.transport.connect(this.resumeFrom);
+    let attempt = 0;
+    let pendingMarker: EnrichedStreamEvent | null = null;
+
+    try {
+      // Invariant INV-4: Events emitted in transport order
+      while (!this.isClosed()) {
+        // Check for pause
+        if (this.isPaused) {
+          await this.waitForResume();
+        }
+
+        // Check if closed during pause
+        if (this.isClosed()) {
+          break;
+        }
+
+        // Pull next event from transport (fixture transport applies delay)
+        let result: IteratorResult<StreamEvent, void>;
+        try {
+          if (this.shouldSimulateDisconnect()) {
+            throw new Error(
+              `Connection dropped after ${this.sequenceNumber} events (simulated)`
+            );
+          }
+
+          result = await source.next();
+        } catch (error) {
+          if (this.isClosed()) {
+            break;
+          }
+
+          if (!this.reconnectConfig || attempt >= this.reconnectConfig.maxRetries) {
+            throw error;
+          }
+
+          // Reconnect with backoff from the last delivered event
+          await source.return();
+          attempt++;
+          this.reconnectCount++;
+
+          const delayMs = this.getReconnectDelay(attempt);
+          await delay(delayMs, this.clock);
+
+          const resumePoint = this.getResumePoint();
+          source = this.transport.connect(resumePoint);
+          pendingMarker = this.createReconnectedEvent(attempt, delayMs, resumePoint);
+          continue;
+        }
+
+        // Connection delivered again: announce the reconnect first
+        if (pendingMarker) {
+          yield pendingMarker;
+          pendingMarker = null;
+        }
+        attempt = 0;
+
+        if (result.done) {
+          break;
+        }
+
+        // Invariant INV-5: Timestamps monotonically increasing
+        const timestampedEvent = this.ensureMonotonicTimestamp(result.value);
+
+        // Enrich event with session metadata
+        const enrichedEvent = this.enrichEvent(timestampedEvent);
+
+        yield enrichedEvent;
+      }
+    } finally {
+      await source.return();
     }
   }
 
   /**
    * Get session statistics
    *
+   * `bufferDepth` is the number of events read ahead and not yet consumed
+   * (always 0 without a buffer); `buffer` has the full buffer statistics.
+   *
    * @returns Session statistics object
    */
   getStatistics(): {
     sessionId: string;
     state: SessionState;
+    phase: LifecyclePhase;
     totalEvents: number;
     eventsConsumed: number;
     eventsRemaining: number;
     cursorPosition: number;
     delayProfile: DelayProfile;
+    reconnectCount: number;
+    outboundEvents: number;
+    bufferDepth: number;
+    buffer?: BufferStatistics;
+    lastEventId?: string;
   } {
     return {
       sessionId: this.sessionId,
-      state: this.state,
-      totalEvents: this.cursor.getTotalEvents(),
-      eventsConsumed: this.cursor.getPosition(),
-      eventsRemaining: this.cursor.getRemainingCount(),
-      cursorPosition: this.cursor.getPosition(),
+      state: this.getState(),
+      phase: this.lifecycle.getPhase(),
+      totalEvents: this.transport.getTotalEvents(),
+      eventsConsumed: this.transport.getPosition(),
+      eventsRemaining: Math.max(0, this.transport.getTotalEvents() - this.transport.getPosition()),
+      cursorPosition: this.transport.getPosition(),
       delayProfile: this.delayProfile,
+      reconnectCount: this.reconnectCount,
+      outboundEvents: this.outboundCount,
+      bufferDepth: this.buffer?.getStatistics().depth ?? 0,
+      buffer: this.buffer?.getStatistics(),
+      lastEventId: this.lastEventId,
     };
   }
 }
@@ -0,0 +1,315 @@
+/**
+ * Tests for the framework-agnostic stream store
+ *
+ * Every test drives the store on a VirtualClock, without React.
+ *
+ * @module lib/streaming/streamStore.test
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { StreamEvent } from '@/types/events';
+import { VirtualClock } from '@/lib/utils/clock';
+import { clearFixtures, createFixture, registerFixture } from './fixtureRepository';
+import { createStreamStore, type StreamStoreSnapshot } from './streamStore';
+import { LifecycleTransitionError } from './lifecycle';
+import type { StreamReducer } from './streamReducer';
+
+const events: StreamEvent[] = [
+  { id: 't-1', type: 'text', timestamp: 1, data: { text: 'Sprint 24 ' } },
+  { id: 't-2', type: 'text', timestamp: 2, data: { text: 'is on ' } },
+  { id: 't-3', type: 'text', timestamp: 3, data: { text: 'track.' } },
+];
+
+const textReducer: StreamReducer<string> = (text, event) =>
+  event.type === 'text' ? text + event.data.text : text;
+
+/**
+ * Run a store to the end of its stream
+ */
+async function runToEnd(clock: VirtualClock, done: Promise<void>): Promise<void> {
+  await clock.runAll();
+  await done;
+}
+
+describe('createStreamStore', () => {
+  afterEach(() => {
+    clearFixtures();
+  });
+
+  it('should start idle with the initial state', () => {
+    const store = createStreamStore({ events, reducer: textReducer, initialState: '' });
+
+    expect(store.getSnapshot()).toEqual({
+      state: { status: 'idle' },
+      phase: 'idle',
+      data: '',
+      eventCount: 0,
+    });
+  });
+
+  it('should fold every event and close at the end', async () => {
+    const clock = new VirtualClock(1_000);
+    const store = createStreamStore({ events, reducer: textReducer, initialState: '', clock });
+
+    const done = store.start();
+    expect(store.getSnapshot().state).toEqual({ status: 'active' });
+
+    await runToEnd(clock, done);
+
+    expect(store.getSnapshot()).toEqual({
+      state: { status: 'closed' },
+      phase: 'completed',
+      data: 'Sprint 24 is on track.',
+      eventCount: 3,
+    });
+  });
+
+  it('should collect events into an array without a reducer', async () => {
+    const clock = new VirtualClock(1_000);
+    const store = createStreamStore({ events, clock });
+
+    await runToEnd(clock, store.start());
+
+    expect(store.getSnapshot().data.map((event) => event.id)).toEqual(['t-1', 't-2', 't-3']);
+  });
+
+  it('should load fixtures from the repository', async () => {
+    registerFixture(
+      createFixture('store-fixture', events, {
+        name: 'Store Fixture',
+        pattern: 'test',
+        description: 'Fixture for stream store tests',
+        tags: ['test'],
+      })
+    );
+    const clock = new VirtualClock(1_000);
+    const store = createStreamStore({
+      fixtureId: 'store-fixture',
+      reducer: textReducer,
+      initialState: '',
+      clock,
+    });
+
+    await runToEnd(clock, store.start());
+
+    expect(store.getSnapshot().data).toBe('Sprint 24 is on track.');
+  });
+
+  it('should resume from a checkpoint after the events already folded', async () => {
+    const clock = new VirtualClock(1_000);
+    const onEvent = vi.fn();
+    const store = createStreamStore({
+      events,
+      reducer: textReducer,
+      initialState: '',
+      clock,
+      onEvent,
+    });
+
+    const done = store.start({
+      sessionId: 'session-restored',
+      resumeFrom: { data: 'Sprint 24 ', eventCount: 1 },
+    });
+    expect(store.getSnapshot()).toEqual({
+      state: { status: 'active' },
+      phase: 'streaming',
+      data: 'Sprint 24 ',
+      eventCount: 1,
+    });
+
+    await runToEnd(clock, done);
+
+    expect(store.getSnapshot().data).toBe('Sprint 24 is on track.');
+    expect(store.getSnapshot().eventCount).toBe(3);
+    expect(onEvent.mock.calls.map(([event]) => event.id)).toEqual(['t-2', 't-3']);
+    expect(onEvent.mock.calls[0][0].metadata.sessionId).toBe('session-restored');
+  });
+
+  it('should notify subscribers with a new snapshot per change', async () => {
+    const clock = new VirtualClock(1_000);
+    const store = createStreamStore({ events, reducer: textReducer, initialState: '', clock });
+    const snapshots: StreamStoreSnapshot<string>[] = [];
+    const unsubscribe = store.subscribe(() => snapshots.push(store.getSnapshot()));
+
+    await runToEnd(clock, store.start());
+    unsubscribe();
+
+    // start, three events, complete
+    expect(snapshots.map((snapshot) => snapshot.state.status)).toEqual([
+      'active',
+      'active',
+      'active',
+      'active',
+      'closed',
+    ]);
+    expect(new Set(snapshots).size).toBe(snapshots.length);
+    expect(store.getSnapshot()).toBe(snapshots[snapshots.length - 1]);
+
+    store.reset();
+    expect(snapshots).toHaveLength(5);
+  });
+
+  it('should pass source events to onEvent', async () => {
+    const clock = new VirtualClock(1_000);
+    const onEvent = vi.fn();
+    const store = createStreamStore({ events, clock, onEvent });
+
+    await runToEnd(clock, store.start());
+
+    expect(onEvent.mock.calls.map(([event]) => event.id)).toEqual(['t-1', 't-2', 't-3']);
+  });
+
+  it('should hold events while paused', async () => {
+    const clock = new VirtualClock(1_000);
+    const store = createStreamStore({ events, clock, delayProfile: 'fast' });
+
+    const done = store.start();
+    await clock.advance(50);
+    expect(store.getSnapshot().eventCount).toBe(1);
+
+    store.pause();
+    expect(store.getSnapshot().state.status).toBe('paused');
+
+    // An event already in flight may still arrive; nothing after it does
+    await clock.advance(500);
+    const pausedCount = store.getSnapshot().eventCount;
+    await clock.advance(1_000);
+    expect(store.getSnapshot().eventCount).toBe(pausedCount);
+    expect(pausedCount).toBeLessThan(3);
+
+    store.resume();
+    await runToEnd(clock, done);
+    expect(store.getSnapshot().eventCount).toBe(3);
+    expect(store.getSnapshot().state.status).toBe('closed');
+  });
+
+  it('should stop consuming when stopped', async () => {
+    const clock = new VirtualClock(1_000);
+    const store = createStreamStore({ events, clock, delayProfile: 'fast' });
+
+    const done = store.start();
+    await clock.advance(50);
+    store.stop();
+    await runToEnd(clock, done);
+
+    expect(store.getSnapshot().state.status).toBe('closed');
+    expect(store.getSnapshot().phase).toBe('closed');
+    expect(store.getSnapshot().eventCount).toBe(1);
+    expect(clock.getPendingTimers()).toBe(0);
+  });
+
+  it('should reject invalid lifecycle transitions without changing state', async () => {
+    const clock = new VirtualClock(1_000);
+    const store = createStreamStore({ events, clock });
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    expect(() => store.pause()).toThrow('Cannot pause: stream not streaming');
+    expect(() => store.dispatch({ type: 'complete' })).toThrow(LifecycleTransitionError);
+    expect(store.getSnapshot().phase).toBe('idle');
+    expect(listener).not.toHaveBeenCalled();
+
+    await runToEnd(clock, store.start());
+
+    expect(store.getSnapshot().phase).toBe('completed');
+    expect(() => store.resume()).toThrow('Cannot resume: stream not paused');
+  });
+
+  it('should await prompts until they are answered', () => {
+    const store = createStreamStore();
+    const prompt = {
+      id: 'await-1',
+      type: 'await_input',
+      timestamp: 4,
+      data: { requestId: 'budget', message: 'Budget?', fields: [] },
+    } as unknown as StreamEvent;
+    const answer = {
+      id: 'submit-1',
+      type: 'input_submission',
+      timestamp: 5,
+      data: { requestId: 'budget', value: 40, submittedAt: 5 },
+    } as StreamEvent;
+
+    store.dispatch({ type: 'start' });
+    store.dispatch({ type: 'event', event: prompt });
+    expect(store.getSnapshot().phase).toBe('awaiting');
+    expect(store.getSnapshot().state.status).toBe('active');
+
+    store.dispatch({ type: 'event', event: answer });
+    expect(store.getSnapshot().phase).toBe('streaming');
+  });
+
+  it('should discard the previous run on restart', async () => {
+    const clock = new VirtualClock(1_000);
+    const store = createStreamStore({ events, reducer: textReducer, initialState: '', clock });
+
+    const first = store.start();
+    await clock.advance(300);
+    expect(store.getSnapshot().data).toBe('Sprint 24 ');
+
+    const second = store.start();
+    expect(store.getSnapshot().data).toBe('');
+    await runToEnd(
+      clock,
+      Promise.all([first, second]).then(() => undefined)
+    );
+
+    expect(store.getSnapshot().data).toBe('Sprint 24 is on track.');
+    expect(store.getSnapshot().eventCount).toBe(3);
+  });
+
+  it('should report source errors in the error state', async () => {
+    const store = createStreamStore({ fixtureId: 'missing-fixture' });
+
+    await store.start();
+
+    const { state } = store.getSnapshot();
+    expect(state.status).toBe('error');
+    if (state.status === 'error') {
+      expect(state.error.message).toMatch(/missing-fixture/);
+    }
+  });
+
+  it('should fail without a source', async () => {
+    const store = createStreamStore();
+
+    await store.start();
+
+    expect(store.getSnapshot().state).toEqual({
+      status: 'error',
+      error: new Error('Stream store needs a fixtureId, events or createTransport'),
+    });
+  });
+
+  it('should fold dispatched events without a source', () => {
+    const store = createStreamStore({ reducer: textReducer, initialState: '' });
+
+    store.dispatch({ type: 'start' });
+    events.forEach((event) => store.dispatch({ type: 'event', event }));
+    store.dispatch({ type: 'complete' });
+
+    expect(store.getSnapshot()).toEqual({
+      state: { status: 'closed' },
+      phase: 'completed',
+      data: 'Sprint 24 is on track.',
+      eventCount: 3,
+    });
+  });
+
+  it('should restore the initial idle state on reset', async () => {
+    const clock = new VirtualClock(1_000);
+    const store = createStreamStore({ events, reducer: textReducer, initialState: '', clock });
+
+    const done = store.start();
+    await clock.advance(300);
+    store.reset();
+    await runToEnd(clock, done);
+
+    expect(store.getSnapshot()).toEqual({
+      state: { status: 'idle' },
+      phase: 'idle',
+      data: '',
+      eventCount: 0,
+    });
+  });
+});
@@ -0,0 +1,424 @@
+/**
+ * Stream Store - Framework-agnostic stream consumption
+ *
+ * A stream store owns one stream at a time: it loads the source (fixture,
+ * in-memory events or a live transport), consumes it, folds each event into
+ * state with a stream reducer, and tracks the lifecycle. It has no React
+ * dependency, so the same pattern logic can run in a web worker, a Node
+ * fixture runner or an integration test.
+ *
+ * The store follows the external store contract expected by React's
+ * `useSyncExternalStore`:
+ * - `subscribe(listener)` returns an unsubscribe function
+ * - `getSnapshot()` returns the same object until the state changes
+ *
+ * `useStreamProcessor` is a thin binding over this store.
+ *
+ * Lifecycle changes follow the shared state machine (see lifecycle.ts):
+ * pausing a stream that is not streaming, for example, throws a
+ * LifecycleTransitionError and leaves the snapshot unchanged.
+ *
+ * @module lib/streaming/streamStore
+ */
+
+import type { StreamEvent } from '@/types/events';
+import { createMockStreamWithHandle, type CreateStreamOptions, type StreamHandle } from './mockSSE';
+import { getFixtureEvents } from './fixtureRepository';
+import type { StreamTransport } from './transport';
+import { appendEvent, type StreamReducer } from './streamReducer';
+import {
+  canTransition,
+  lifecycleActionForEvent,
+  nextPhase,
+  type LifecyclePhase,
+} from './lifecycle';
+
+/**
+ * Lifecycle of the consumed stream
+ *
+ * Only the `error` state carries an error, so narrowing on `status` is
+ * enough to read it safely. This is a coarser view of the snapshot's
+ * `phase`: streaming and awaiting are 'active'; completed and closed are 'closed'.
+ */
+export type StreamLifecycle =
+  | { status: 'idle' }
+  | { status: 'active' }
+  | { status: 'paused' }
+  | { status: 'closed' }
+  | { status: 'error'; error: Error };
+
+/**
+ * Reducer configuration: either both a reducer and its initial state, or
+ * neither (events are then collected into an array)
+ */
+export type StreamStoreReducerOptions<T extends StreamEvent, S> =
+  | {
+      /** Folds each event into state */
+      reducer: StreamReducer<S, T>;
+
+      /** State before the first event, and after every restart */
+      initialState: S;
+    }
+  | { reducer?: undefined; initialState?: undefined };
+
+/**
+ * Stream source and playback options
+ *
+ * The source is, in order of precedence: `createTransport`, `events`, `fixtureId`.
+ */
+export interface StreamStoreSourceOptions extends Pick<
+  CreateStreamOptions,
+  'delayProfile' | 'timing' | 'faults' | 'clock'
+> {
+  /** Fixture ID to load from the repository on each start */
+  fixtureId?: string;
+
+  /** In-memory events to replay */
+  events?: StreamEvent[];
+
+  /** Transport factory, called once per start, e.g. `() => new SSETransport({ url })` */
+  createTransport?: () => StreamTransport;
+
+  /** Called with each event consumed from the source (e.g. network inspector capture) */
+  onEvent?: (event: StreamEvent) => void;
+}
+
+/**
+ * Options for creating a stream store
+ */
+export type StreamStoreOptions<
+  T extends StreamEvent = StreamEvent,
+  S = T[],
+> = StreamStoreSourceOptions & StreamStoreReducerOptions<T, S>;
+
+/**
+ * Immutable store state; a new object is created on every change
+ */
+export interface StreamStoreSnapshot<S> {
+  /** Stream lifecycle */
+  state: StreamLifecycle;
+
+  /** Lifecycle phase */
+  phase: LifecyclePhase;
+
+  /** Reducer state */
+  data: S;
+
+  /** Number of events folded into `data` since the last start */
+  eventCount: number;
+}
+
+/**
+ * Progress of an earlier run: its state and the number of events folded into it
+ */
+export interface StreamStoreCheckpoint<S> {
+  /** Reducer state after `eventCount` events */
+  data: S;
+
+  /** Events already folded; the source is resumed after this many */
+  eventCount: number;
+}
+
+/**
+ * Options for starting a run
+ */
+export interface StreamStoreStartOptions<S> {
+  /** Session ID for the stream (default: generated by the session) */
+  sessionId?: string;
+
+  /** Continue from a checkpoint (e.g. one persisted before a reload) instead of the start */
+  resumeFrom?: StreamStoreCheckpoint<S>;
+}
+
+/**
+ * Actions accepted by `dispatch`
+ *
+ * Dispatching `event` folds an event without a source, e.g. one received
+ * from a worker. Dispatched events are not passed to `onEvent`. The other
+ * actions are lifecycle transitions and throw LifecycleTransitionError when
+ * the current phase does not accept them.
+ */
+export type StreamStoreAction<T extends StreamEvent, S = unknown> =
+  | { type: 'start'; from?: StreamStoreCheckpoint<S> }
+  | { type: 'event'; event: T }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'complete' }
+  | { type: 'close' }
+  | { type: 'fail'; error: Error }
+  | { type: 'reset' };
+
+/**
+ * A stream store
+ */
+export interface StreamStore<T extends StreamEvent = StreamEvent, S = T[]> {
+  /** Register a change listener; returns the unsubscribe function */
+  subscribe(listener: () => void): () => void;
+
+  /** Current state (same object until the next change) */
+  getSnapshot(): StreamStoreSnapshot<S>;
+
+  /** Apply an action to the state */
+  dispatch(action: StreamStoreAction<T, S>): void;
+
+  /**
+   * Start consuming the source, stopping any current run
+   * @param options - Session ID, and a checkpoint to resume from instead of the beginning
+   * @returns Promise that resolves when this run completes, fails or is stopped
+   */
+  start(options?: StreamStoreStartOptions<S>): Promise<void>;
+
+  /** Pause a streaming stream; throws LifecycleTransitionError in any other phase */
+  pause(): void;
+
+  /** Resume a paused stream; throws LifecycleTransitionError in any other phase */
+  resume(): void;
+
+  /** Stop the current run; a streaming, paused or awaiting stream becomes closed */
+  stop(): void;
+
+  /** Stop the current run and restore the initial idle state */
+  reset(): void;
+}
+
+// ============================================================================
+// Store Reducer
+// ============================================================================
+
+/**
+ * Get the phase an action leads to
+ *
+ * As with `LifecycleMachine.observe`, an event implying a transition the
+ * current phase does not accept is folded without changing the phase.
+ *
+ * @throws LifecycleTransitionError for an invalid lifecycle action
+ */
+function reducePhase<T extends StreamEvent, S>(
+  phase: LifecyclePhase,
+  action: StreamStoreAction<T, S>
+): LifecyclePhase {
+  if (action.type !== 'event') {
+    return nextPhase(phase, action.type);
+  }
+
+  const implied = lifecycleActionForEvent(action.event);
+  return implied && canTransition(phase, implied) ? nextPhase(phase, implied) : phase;
+}
+
+/**
+ * Apply an action to a snapshot, folding events with the pattern reducer
+ */
+function reduceSnapshot<T extends StreamEvent, S>(
+  snapshot: StreamStoreSnapshot<S>,
+  action: StreamStoreAction<T, S>,
+  reducer: StreamReducer<S, T>,
+  initialState: S
+): StreamStoreSnapshot<S> {
+  const phase = reducePhase(snapshot.phase, action);
+
+  switch (action.type) {
+    case 'start':
+      return {
+        state: { status: 'active' },
+        phase,
+        data: action.from ? action.from.data : initialState,
+        eventCount: action.from ? action.from.eventCount : 0,
+      };
+    case 'event':
+      return {
+        ...snapshot,
+        phase,
+        data: reducer(snapshot.data, action.event),
+        eventCount: snapshot.eventCount + 1,
+      };
+    case 'pause':
+      return { ...snapshot, state: { status: 'paused' }, phase };
+    case 'resume':
+      return { ...snapshot, state: { status: 'active' }, phase };
+    case 'complete':
+    case 'close':
+      return { ...snapshot, state: { status: 'closed' }, phase };
+    case 'fail':
+      return { ...snapshot, state: { status: 'error', error: action.error }, phase };
+    case 'reset':
+      return { state: { status: 'idle' }, phase, data: initialState, eventCount: 0 };
+  }
+}
+
+// ============================================================================
+// Store Factory
+// ============================================================================
+
+/**
+ * Create a stream store
+ *
+ * @param options - Source, playback and reducer options
+ * @returns Store with subscribe/getSnapshot/dispatch and lifecycle controls
+ *
+ * @example In a test or Node script
+ * ```typescript
+ * const clock = new VirtualClock();
+ * const store = createStreamStore({
+ *   fixtureId: 'chain-of-reasoning-sprint-planning',
+ *   reducer: reasoningReducer,
+ *   initialState: { steps: [], answer: '' },
+ *   clock,
+ * });
+ *
+ * const done = store.start();
+ * await clock.runAll();
+ * await done;
+ * console.log(store.getSnapshot().data.steps.length);
+ * ```
+ *
+ * @example In React
+ * ```typescript
+ * const snapshot = useSyncExternalStore(store.subscribe, store.getSnapshot);
+ * ```
+ */
+export function createStreamStore<T extends StreamEvent = StreamEvent, S = T[]>(
+  options: StreamStoreOptions<T, S> = {}
+): StreamStore<T, S> {
+  const { fixtureId, events, createTransport, delayProfile, timing, faults, clock, onEvent } =
+    options;
+
+  // Without a reducer, S is T[] and events are collected in arrival order
+  const reducer = options.reducer ?? (appendEvent as unknown as StreamReducer<S, T>);
+  const initialState = options.initialState ?? ([] as unknown as S);
+
+  const listeners = new Set<() => void>();
+  let snapshot: StreamStoreSnapshot<S> = {
+    state: { status: 'idle' },
+    phase: 'idle',
+    data: initialState,
+    eventCount: 0,
+  };
+
+  // Handle of the current run, and a counter that invalidates earlier runs
+  let handle: StreamHandle | null = null;
+  let runId = 0;
+
+  function subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  function getSnapshot(): StreamStoreSnapshot<S> {
+    return snapshot;
+  }
+
+  function dispatch(action: StreamStoreAction<T, S>): void {
+    snapshot = reduceSnapshot(snapshot, action, reducer, initialState);
+    listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Consume the source until it ends or the run is superseded
+   */
+  async function consume(run: number, startOptions: StreamStoreStartOptions<S>): Promise<void> {
+    try {
+      // Use a live transport if configured, otherwise replay events
+      const transport = createTransport?.();
+      let sourceEvents: StreamEvent[] | undefined;
+
+      if (!transport) {
+        if (events) {
+          sourceEvents = events;
+        } else if (fixtureId !== undefined) {
+          sourceEvents = getFixtureEvents(fixtureId);
+        } else {
+          throw new Error('Stream store needs a fixtureId, events or createTransport');
+        }
+      }
+
+      const created = createMockStreamWithHandle({
+        events: sourceEvents,
+        transport,
+        delayProfile,
+        timing,
+        faults,
+        clock,
+        sessionId: startOptions.sessionId,
+        // The fixture transport seeks its cursor past the events already folded
+        resumeFrom: startOptions.resumeFrom
+          ? { sequenceNumber: startOptions.resumeFrom.eventCount }
+          : undefined,
+      });
+
+      if (run !== runId) {
+        created.handle.close();
+        return;
+      }
+      handle = created.handle;
+
+      for await (const enrichedEvent of created.stream) {
+        // Stop consuming once this run has been stopped or replaced
+        if (run !== runId) {
+          created.handle.close();
+          break;
+        }
+
+        // Extract original event from enriched event
+        const event = enrichedEvent as unknown as T;
+        dispatch({ type: 'event', event });
+
+        if (onEvent) {
+          onEvent(event);
+        }
+      }
+
+      if (run === runId) {
+        dispatch({ type: 'complete' });
+      }
+    } catch (err) {
+      if (run === runId) {
+        dispatch({ type: 'fail', error: err instanceof Error ? err : new Error(String(err)) });
+      }
+    } finally {
+      if (run === runId) {
+        handle = null;
+      }
+    }
+  }
+
+  function stop(): void {
+    runId++;
+    handle?.close();
+    handle = null;
+
+    if (snapshot.phase !== 'idle' && canTransition(snapshot.phase, 'close')) {
+      dispatch({ type: 'close' });
+    }
+  }
+
+  function start(startOptions: StreamStoreStartOptions<S> = {}): Promise<void> {
+    stop();
+    if (snapshot.phase !== 'idle') {
+      dispatch({ type: 'reset' });
+    }
+    dispatch({ type: 'start', from: startOptions.resumeFrom });
+    return consume(runId, startOptions);
+  }
+
+  function pause(): void {
+    // Validate before touching the session, so an invalid pause changes nothing
+    nextPhase(snapshot.phase, 'pause');
+    handle?.pause();
+    dispatch({ type: 'pause' });
+  }
+
+  function resume(): void {
+    nextPhase(snapshot.phase, 'resume');
+    handle?.resume();
+    dispatch({ type: 'resume' });
+  }
+
+  function reset(): void {
+    stop();
+    dispatch({ type: 'reset' });
+  }
+
+  return { subscribe, getSnapshot, dispatch, start, pause, resume, stop, reset };
+}
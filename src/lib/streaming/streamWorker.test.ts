@@ -0,0 +1,311 @@
+/**
+ * Tests for worker-backed stream processing
+ *
+ * The worker is simulated in-process: requests and updates are passed
+ * through `structuredClone` and delivered asynchronously, as `postMessage`
+ * does, and the worker side runs on a VirtualClock.
+ *
+ * @module lib/streaming/streamWorker.test
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { StreamEvent } from '@/types/events';
+import { VirtualClock } from '@/lib/utils/clock';
+import { clearFixtures, createFixture, registerFixture } from './fixtureRepository';
+import type { StreamReducer } from './streamReducer';
+import {
+  createStreamWorkerStore,
+  exposeStreamWorker,
+  type StreamWorkerConfig,
+  type StreamWorkerStore,
+} from './streamWorker';
+import type { WorkerRequest, WorkerResponse } from './workerProtocol';
+
+const events: StreamEvent[] = [
+  { id: 't-1', type: 'text', timestamp: 1, data: { text: 'Sprint 24 ' } },
+  { id: 't-2', type: 'text', timestamp: 2, data: { text: 'is on ' } },
+  { id: 't-3', type: 'text', timestamp: 3, data: { text: 'track.' } },
+];
+
+const invalidEvent = { id: 't-bad', type: 'text', timestamp: 4, data: {} } as StreamEvent;
+
+interface TextState {
+  text: string;
+  chunks: number[];
+}
+
+const textReducer: StreamReducer<TextState> = (state, event) =>
+  event.type === 'text'
+    ? { ...state, text: state.text + event.data.text, chunks: [...state.chunks, event.timestamp] }
+    : state;
+
+/**
+ * A simulated worker running `exposeStreamWorker` in-process
+ */
+function createFakeWorker<S>(config: StreamWorkerConfig<StreamEvent, S>) {
+  const hostListeners: Array<(event: MessageEvent<WorkerRequest>) => void> = [];
+  const messageListeners: Array<(event: MessageEvent<WorkerResponse>) => void> = [];
+  const requests: WorkerRequest[] = [];
+  const updates: WorkerResponse[] = [];
+  let terminated = false;
+
+  exposeStreamWorker(
+    {
+      postMessage: (message) => {
+        const data = structuredClone(message);
+        updates.push(data);
+        queueMicrotask(() => {
+          if (!terminated) {
+            messageListeners.forEach((listener) => listener({ data } as MessageEvent));
+          }
+        });
+      },
+      addEventListener: (_type, listener) => hostListeners.push(listener),
+    },
+    config
+  );
+
+  const worker = {
+    postMessage: (request: WorkerRequest) => {
+      const data = structuredClone(request);
+      requests.push(data);
+      queueMicrotask(() => hostListeners.forEach((listener) => listener({ data } as MessageEvent)));
+    },
+    addEventListener: (type: string, listener: (event: MessageEvent<WorkerResponse>) => void) => {
+      if (type === 'message') messageListeners.push(listener);
+    },
+    terminate: () => {
+      terminated = true;
+    },
+  } as unknown as Worker;
+
+  return { worker, requests, updates, isTerminated: () => terminated };
+}
+
+/**
+ * Run the worker's clock until the store settles
+ */
+async function runToEnd<S>(
+  clock: VirtualClock,
+  store: StreamWorkerStore<StreamEvent, S>,
+  done: Promise<void>
+): Promise<void> {
+  while (['active', 'paused'].includes(store.getSnapshot().state.status)) {
+    await clock.runAll();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  await done;
+}
+
+describe('createStreamWorkerStore', () => {
+  it('should validate and reduce events in the worker', async () => {
+    const clock = new VirtualClock(1_000);
+    const initialState: TextState = { text: '', chunks: [] };
+    const fake = createFakeWorker({ reducer: textReducer, initialState, clock });
+    const store = createStreamWorkerStore({
+      events,
+      reducer: textReducer,
+      initialState,
+      createWorker: () => fake.worker,
+    });
+
+    expect(store.thread).toBe('worker');
+
+    await runToEnd(clock, store, store.start());
+
+    expect(store.getSnapshot()).toEqual({
+      state: { status: 'closed' },
+      phase: 'completed',
+      data: { text: 'Sprint 24 is on track.', chunks: [1, 2, 3] },
+      eventCount: 3,
+    });
+    expect(fake.requests[0]).toMatchObject({ type: 'start', source: { events } });
+  });
+
+  it('should batch state changes into few updates', async () => {
+    const clock = new VirtualClock(1_000);
+    const fake = createFakeWorker({ clock });
+    const store = createStreamWorkerStore({
+      events,
+      delayProfile: 'fast',
+      batchMs: 1_000,
+      createWorker: () => fake.worker,
+    });
+
+    await runToEnd(clock, store, store.start());
+
+    // One update when the run starts and one at the end carrying every event
+    expect(fake.updates).toHaveLength(2);
+    expect(fake.updates[1].patch).toEqual({ op: 'append', items: expect.any(Array) });
+    expect(store.getSnapshot().data.map((event) => event.id)).toEqual(['t-1', 't-2', 't-3']);
+  });
+
+  it('should keep untouched state references between updates', async () => {
+    const clock = new VirtualClock(1_000);
+    const initialState = { text: '', chunks: [] as number[], title: { name: 'Sprint 24' } };
+    const reducer: StreamReducer<typeof initialState> = (state, event) =>
+      event.type === 'text' ? { ...state, text: state.text + event.data.text } : state;
+    const fake = createFakeWorker({ reducer, initialState, clock });
+    const store = createStreamWorkerStore({
+      events,
+      reducer,
+      initialState,
+      batchMs: 0,
+      createWorker: () => fake.worker,
+    });
+
+    await runToEnd(clock, store, store.start());
+
+    expect(store.getSnapshot().data.text).toBe('Sprint 24 is on track.');
+    expect(store.getSnapshot().data.title).toBe(initialState.title);
+    expect(fake.updates.some((update) => update.patch?.op === 'merge')).toBe(true);
+  });
+
+  it('should resume from a checkpoint in the worker', async () => {
+    const clock = new VirtualClock(1_000);
+    const initialState: TextState = { text: '', chunks: [] };
+    const fake = createFakeWorker({ reducer: textReducer, initialState, clock });
+    const store = createStreamWorkerStore({
+      events,
+      reducer: textReducer,
+      initialState,
+      createWorker: () => fake.worker,
+    });
+
+    const resumeFrom = { data: { text: 'Sprint 24 ', chunks: [1] }, eventCount: 1 };
+    await runToEnd(clock, store, store.start({ resumeFrom }));
+
+    expect(store.getSnapshot().data).toEqual({ text: 'Sprint 24 is on track.', chunks: [1, 2, 3] });
+    expect(store.getSnapshot().eventCount).toBe(3);
+  });
+
+  it('should stream fixtures registered on the main thread', async () => {
+    registerFixture(createFixture('worker-sprint-status', events, { pattern: 'test' }));
+    const clock = new VirtualClock(1_000);
+    const fake = createFakeWorker({ clock });
+    const store = createStreamWorkerStore({
+      fixtureId: 'worker-sprint-status',
+      createWorker: () => fake.worker,
+    });
+
+    const done = store.start();
+
+    // The worker's own fixture repository holds none of this thread's fixtures
+    clearFixtures();
+    await runToEnd(clock, store, done);
+
+    expect(store.getSnapshot().state).toEqual({ status: 'closed' });
+    expect(store.getSnapshot().eventCount).toBe(3);
+    expect(fake.requests[0]).toMatchObject({ type: 'start', source: { events } });
+  });
+
+  it('should fail the run on an invalid event', async () => {
+    const clock = new VirtualClock(1_000);
+    const fake = createFakeWorker({ clock });
+    const store = createStreamWorkerStore({
+      events: [...events, invalidEvent],
+      createWorker: () => fake.worker,
+    });
+
+    await runToEnd(clock, store, store.start());
+
+    const { state } = store.getSnapshot();
+    expect(state.status).toBe('error');
+    if (state.status === 'error') {
+      expect(state.error.message).toContain('Invalid event t-bad');
+    }
+    expect(store.getSnapshot().eventCount).toBe(3);
+  });
+
+  it('should pass consumed events to onEvent', async () => {
+    const clock = new VirtualClock(1_000);
+    const fake = createFakeWorker({ clock });
+    const onEvent = vi.fn();
+    const store = createStreamWorkerStore({ events, onEvent, createWorker: () => fake.worker });
+
+    await runToEnd(clock, store, store.start());
+
+    expect(onEvent.mock.calls.map(([event]) => event.id)).toEqual(['t-1', 't-2', 't-3']);
+  });
+
+  it('should stay closed after a stop', async () => {
+    const clock = new VirtualClock(1_000);
+    const fake = createFakeWorker({ clock });
+    const store = createStreamWorkerStore({ events, createWorker: () => fake.worker });
+
+    const done = store.start();
+    store.stop();
+    await done;
+    await clock.runAll();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(store.getSnapshot().state).toEqual({ status: 'closed' });
+    expect(store.getSnapshot().eventCount).toBe(0);
+  });
+
+  it('should pause and resume in the worker', async () => {
+    const clock = new VirtualClock(1_000);
+    const fake = createFakeWorker({ clock });
+    const store = createStreamWorkerStore({ events, createWorker: () => fake.worker });
+
+    const done = store.start();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    store.pause();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(store.getSnapshot().state).toEqual({ status: 'paused' });
+
+    store.resume();
+    await runToEnd(clock, store, done);
+
+    expect(store.getSnapshot().state).toEqual({ status: 'closed' });
+    expect(store.getSnapshot().eventCount).toBe(3);
+  });
+
+  it('should terminate the worker on dispose', async () => {
+    const clock = new VirtualClock(1_000);
+    const fake = createFakeWorker({ clock });
+    const store = createStreamWorkerStore({ events, createWorker: () => fake.worker });
+
+    void store.start();
+    store.dispose();
+
+    expect(fake.isTerminated()).toBe(true);
+    expect(store.getSnapshot().state).toEqual({ status: 'closed' });
+  });
+});
+
+describe('main thread fallback', () => {
+  it('should run on the main thread when workers are unavailable', async () => {
+    vi.stubGlobal('Worker', undefined);
+    const clock = new VirtualClock(1_000);
+    const store = createStreamWorkerStore({ events: [...events, invalidEvent], clock });
+    vi.unstubAllGlobals();
+
+    expect(store.thread).toBe('main');
+
+    const done = store.start();
+    await clock.runAll();
+    await done;
+
+    // Validation still applies
+    expect(store.getSnapshot().state.status).toBe('error');
+    expect(store.getSnapshot().eventCount).toBe(3);
+  });
+
+  it('should run on the main thread when options cannot be cloned', () => {
+    const createWorker = vi.fn();
+
+    expect(
+      createStreamWorkerStore({ events, timing: { getDelay: () => 0 }, createWorker }).thread
+    ).toBe('main');
+    expect(
+      createStreamWorkerStore({
+        events,
+        reducer: textReducer,
+        initialState: { text: '', chunks: [] },
+      }).thread
+    ).toBe('main');
+    expect(createWorker).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,546 @@
+/**
+ * Stream Worker - Stream processing off the main thread
+ *
+ * Long fixtures (hundreds of table rows, large memory timelines) are cheap to
+ * stream but not to process: every event is validated and folded into state,
+ * and on the main thread that work competes with input handling (INP, see
+ * lib/monitoring/webVitals). This module moves the session, validation and
+ * reduction into a dedicated worker:
+ *
+ * - `exposeStreamWorker()` runs inside the worker. It consumes the stream with
+ *   a stream store and posts batched state patches back (see workerProtocol).
+ * - `createStreamWorkerStore()` runs on the main thread. It implements the
+ *   same `StreamStore` contract by forwarding controls to the worker and
+ *   applying the patches it receives.
+ *
+ * Functions cannot be posted to a worker, so the reducer lives in the worker
+ * entry module. The default entry (`stream.worker.ts`) collects events; a
+ * pattern with its own reducer exposes it from its own entry and passes a
+ * matching `createWorker`. When workers are unavailable (e.g. jsdom, SSR) or
+ * the stream is configured with functions (a transport, timing model, clock
+ * or fault callback), the same validation and reduction run on the main thread.
+ *
+ * @module lib/streaming/streamWorker
+ */
+
+import type { StreamEvent } from '@/types/events';
+import { systemClock, type Clock, type ClockTimer } from '@/lib/utils/clock';
+import { validateEvent } from './eventSchema';
+import { getFixtureEvents } from './fixtureRepository';
+import { appendEvent, type StreamReducer } from './streamReducer';
+import { canTransition, nextPhase, type LifecyclePhase } from './lifecycle';
+import {
+  createStreamStore,
+  type StreamStore,
+  type StreamStoreAction,
+  type StreamStoreOptions,
+  type StreamStoreReducerOptions,
+  type StreamStoreSnapshot,
+  type StreamStoreStartOptions,
+} from './streamStore';
+import {
+  applyStatePatch,
+  deserializeLifecycle,
+  diffState,
+  serializeLifecycle,
+  type WorkerRequest,
+  type WorkerResponse,
+  type WorkerStreamSource,
+} from './workerProtocol';
+
+/**
+ * Default interval for batching state patches (about one frame)
+ */
+export const DEFAULT_WORKER_BATCH_MS = 16;
+
+/**
+ * Wrap a reducer so every event is validated before it is folded
+ *
+ * An invalid event throws, which fails the run with a descriptive error.
+ *
+ * @param reducer - Stream reducer
+ * @returns Reducer that validates with `validateEvent` first
+ */
+export function validatingReducer<S, T extends StreamEvent>(
+  reducer: StreamReducer<S, T>
+): StreamReducer<S, T> {
+  return (state, event) => {
+    const result = validateEvent(event);
+
+    if (!result.valid) {
+      const reasons = result.errors.map((error) => `${error.field}: ${error.reason}`).join('; ');
+      throw new Error(`Invalid event ${event.id ?? '(no id)'}: ${reasons}`);
+    }
+
+    return reducer(state, event);
+  };
+}
+
+// ============================================================================
+// Worker Side
+// ============================================================================
+
+/**
+ * The worker global scope, as seen by `exposeStreamWorker`
+ */
+export interface StreamWorkerEndpoint {
+  postMessage(message: WorkerResponse): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<WorkerRequest>) => void): void;
+}
+
+/**
+ * Configuration for a stream worker entry
+ */
+export type StreamWorkerConfig<
+  T extends StreamEvent = StreamEvent,
+  S = T[],
+> = StreamStoreReducerOptions<T, S> & {
+  /** Clock for stream delays and batching (default: systemClock) */
+  clock?: Clock;
+};
+
+/**
+ * Serve stream requests from the main thread
+ *
+ * Call once from a worker entry module. Each `start` request replaces the
+ * current run. Lifecycle changes are posted immediately; state changes in
+ * between are batched, so a burst of events costs one message.
+ *
+ * @param endpoint - Worker global scope (`self`)
+ * @param config - Reducer and initial state used for every run
+ *
+ * @example
+ * ```typescript
+ * // src/patterns/tabular-stream-view/tabular.worker.ts
+ * import { exposeStreamWorker, type StreamWorkerEndpoint } from '@/lib/streaming/streamWorker';
+ * import { tableReducer, initialTable } from './reducer';
+ *
+ * exposeStreamWorker(self as unknown as StreamWorkerEndpoint, {
+ *   reducer: tableReducer,
+ *   initialState: initialTable,
+ * });
+ * ```
+ */
+export function exposeStreamWorker<T extends StreamEvent = StreamEvent, S = T[]>(
+  endpoint: StreamWorkerEndpoint,
+  config: StreamWorkerConfig<T, S> = {}
+): void {
+  const reducer = validatingReducer(
+    config.reducer ?? (appendEvent as unknown as StreamReducer<S, T>)
+  );
+  const initialState = config.initialState ?? ([] as unknown as S);
+  const clock = config.clock ?? systemClock;
+
+  let run = 0;
+  let store: StreamStore<T, S> | null = null;
+  let unsubscribe: (() => void) | null = null;
+  let batchMs = DEFAULT_WORKER_BATCH_MS;
+
+  // What the main thread has been sent so far for the current run
+  let postedData: S = initialState;
+  let postedPhase: LifecyclePhase = 'idle';
+  let captured: StreamEvent[] = [];
+  let timer: ClockTimer | null = null;
+
+  function flush(): void {
+    if (timer !== null) {
+      clock.clearTimeout(timer);
+      timer = null;
+    }
+    if (!store) {
+      return;
+    }
+
+    const snapshot = store.getSnapshot();
+    endpoint.postMessage({
+      type: 'update',
+      run,
+      state: serializeLifecycle(snapshot.state),
+      phase: snapshot.phase,
+      patch: diffState(postedData, snapshot.data),
+      eventCount: snapshot.eventCount,
+      events: captured,
+    });
+
+    postedData = snapshot.data;
+    postedPhase = snapshot.phase;
+    captured = [];
+  }
+
+  function onChange(): void {
+    if (store?.getSnapshot().phase !== postedPhase) {
+      flush();
+    } else if (timer === null) {
+      timer = clock.setTimeout(flush, batchMs);
+    }
+  }
+
+  function close(): void {
+    unsubscribe?.();
+    unsubscribe = null;
+    store?.stop();
+    store = null;
+
+    if (timer !== null) {
+      clock.clearTimeout(timer);
+      timer = null;
+    }
+  }
+
+  function open(
+    nextRun: number,
+    source: WorkerStreamSource,
+    captureEvents: boolean,
+    startData: S = initialState
+  ) {
+    close();
+    run = nextRun;
+    postedData = startData;
+    postedPhase = 'idle';
+    captured = [];
+
+    const opened = createStreamStore<T, S>({
+      ...source,
+      clock,
+      reducer,
+      initialState,
+      onEvent: captureEvents ? (event) => captured.push(event) : undefined,
+    });
+    store = opened;
+    unsubscribe = opened.subscribe(onChange);
+    return opened;
+  }
+
+  endpoint.addEventListener('message', (event) => {
+    const request = event.data;
+
+    switch (request.type) {
+      case 'start': {
+        // The main thread already holds the checkpoint state, so patches start from it
+        const options = (request.options ?? {}) as StreamStoreStartOptions<S>;
+        batchMs = request.batchMs ?? DEFAULT_WORKER_BATCH_MS;
+        void open(
+          request.run,
+          request.source,
+          request.captureEvents,
+          options.resumeFrom?.data
+        ).start(options);
+        break;
+      }
+      // The run may have moved on since the main thread checked the phase
+      case 'pause':
+        if (request.run === run && store && canTransition(store.getSnapshot().phase, 'pause')) {
+          store.pause();
+        }
+        break;
+      case 'resume':
+        if (request.run === run && store && canTransition(store.getSnapshot().phase, 'resume')) {
+          store.resume();
+        }
+        break;
+      case 'stop':
+        // Keep the store so the final update is posted and dispatch still applies
+        if (request.run === run) store?.stop();
+        break;
+      case 'dispatch': {
+        if (request.run !== run || !store) {
+          open(request.run, {}, false);
+        }
+        const action = request.action as StreamStoreAction<T, S>;
+        if (
+          store &&
+          (action.type === 'event' || canTransition(store.getSnapshot().phase, action.type))
+        ) {
+          store.dispatch(action);
+        }
+        break;
+      }
+    }
+  });
+}
+
+// ============================================================================
+// Main Thread Side
+// ============================================================================
+
+/**
+ * Worker options for a stream store
+ */
+export interface StreamWorkerOptions {
+  /**
+   * Create the worker (default: the bundled `stream.worker.ts`, which collects events)
+   * Required when a reducer is given; the entry must expose the same reducer.
+   */
+  createWorker?: () => Worker;
+
+  /** Interval for batching state patches (default: DEFAULT_WORKER_BATCH_MS) */
+  batchMs?: number;
+}
+
+/**
+ * Options for a worker-backed stream store
+ */
+export type StreamWorkerStoreOptions<
+  T extends StreamEvent = StreamEvent,
+  S = T[],
+> = StreamStoreOptions<T, S> & StreamWorkerOptions;
+
+/**
+ * Stream store that may process the stream in a worker
+ */
+export interface StreamWorkerStore<
+  T extends StreamEvent = StreamEvent,
+  S = T[],
+> extends StreamStore<T, S> {
+  /** Where events are validated and reduced */
+  readonly thread: 'main' | 'worker';
+
+  /** Stop the stream and terminate the worker (a later start creates a new one) */
+  dispose(): void;
+}
+
+/**
+ * Create the bundled default stream worker
+ */
+function createDefaultStreamWorker(): Worker {
+  // eslint-disable-next-line no-undef
+  return new Worker(new URL('./stream.worker.ts', import.meta.url), { type: 'module' });
+}
+
+/**
+ * Whether a stream with these options can be processed in a worker
+ */
+function canUseWorker(options: StreamWorkerStoreOptions<StreamEvent, unknown>): boolean {
+  const { createTransport, timing, clock, faults, reducer, createWorker } = options;
+
+  // Functions cannot be cloned into the worker
+  if (createTransport || timing || clock || faults?.onFault || faults?.clock) {
+    return false;
+  }
+
+  // The default worker only collects events
+  if (reducer && !createWorker) {
+    return false;
+  }
+
+  return createWorker !== undefined || typeof Worker !== 'undefined';
+}
+
+/**
+ * Create a stream store that validates and reduces events in a web worker
+ *
+ * Falls back to a main-thread stream store with the same validation when
+ * workers are unavailable or the options cannot be cloned into one. A
+ * `fixtureId` is resolved to events here, on each start, since the worker
+ * cannot see fixtures registered on this thread. Controls
+ * are forwarded to the worker, so `pause()` and `resume()` take effect when
+ * the worker's next update arrives rather than synchronously; they are
+ * validated against the last phase the worker reported.
+ *
+ * @param options - Stream store options plus worker options
+ * @returns Stream store, with the thread it runs on and a dispose function
+ *
+ * @example
+ * ```typescript
+ * const store = createStreamWorkerStore({ fixtureId: 'tabular-stream-sprint-tasks' });
+ * store.subscribe(() => render(store.getSnapshot().data));
+ * await store.start();
+ * store.dispose();
+ * ```
+ */
+export function createStreamWorkerStore<T extends StreamEvent = StreamEvent, S = T[]>(
+  options: StreamWorkerStoreOptions<T, S> = {}
+): StreamWorkerStore<T, S> {
+  if (!canUseWorker(options as StreamWorkerStoreOptions<StreamEvent, unknown>)) {
+    const reducer = options.reducer ?? (appendEvent as unknown as StreamReducer<S, T>);
+    const store = createStreamStore<T, S>({
+      ...options,
+      reducer: validatingReducer(reducer),
+      initialState: options.initialState ?? ([] as unknown as S),
+    });
+
+    return { ...store, thread: 'main', dispose: store.stop };
+  }
+
+  const { fixtureId, events, delayProfile, faults, onEvent, batchMs } = options;
+  const createWorker = options.createWorker ?? createDefaultStreamWorker;
+  const initialState = options.initialState ?? ([] as unknown as S);
+
+  const listeners = new Set<() => void>();
+  let snapshot: StreamStoreSnapshot<S> = {
+    state: { status: 'idle' },
+    phase: 'idle',
+    data: initialState,
+    eventCount: 0,
+  };
+
+  let worker: Worker | null = null;
+  let run = 0;
+
+  // Whether the current run was stopped here before the worker confirmed it
+  let stopped = false;
+
+  // Resolves the promise returned by start() for the current run
+  let settle: (() => void) | null = null;
+
+  function subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  function getSnapshot(): StreamStoreSnapshot<S> {
+    return snapshot;
+  }
+
+  function setSnapshot(next: StreamStoreSnapshot<S>): void {
+    snapshot = next;
+    listeners.forEach((listener) => listener());
+
+    const { status } = next.state;
+    if (status === 'closed' || status === 'error') {
+      settle?.();
+      settle = null;
+    }
+  }
+
+  function handleMessage(event: MessageEvent<WorkerResponse>): void {
+    const update = event.data;
+    if (update.run !== run) {
+      return;
+    }
+
+    // Updates posted before the worker saw the stop must not reopen the stream
+    const state = deserializeLifecycle(update.state);
+    const reopens = stopped && (state.status === 'active' || state.status === 'paused');
+
+    setSnapshot({
+      state: reopens ? snapshot.state : state,
+      phase: reopens ? snapshot.phase : update.phase,
+      data: update.patch ? applyStatePatch(snapshot.data, update.patch) : snapshot.data,
+      eventCount: update.eventCount,
+    });
+
+    if (onEvent) {
+      update.events.forEach(onEvent);
+    }
+  }
+
+  function handleError(event: ErrorEvent): void {
+    event.preventDefault();
+    setSnapshot({
+      ...snapshot,
+      state: { status: 'error', error: new Error(event.message || 'Stream worker failed') },
+      phase: 'error',
+    });
+  }
+
+  // The worker cannot see this thread's fixture registry, so send the events
+  function resolveEvents(): StreamEvent[] {
+    if (events) {
+      return events;
+    }
+    if (fixtureId !== undefined) {
+      return getFixtureEvents(fixtureId);
+    }
+    throw new Error('Stream store needs a fixtureId, events or createTransport');
+  }
+
+  function post(request: WorkerRequest): void {
+    if (!worker) {
+      worker = createWorker();
+      worker.addEventListener('message', handleMessage);
+      worker.addEventListener('error', handleError);
+    }
+    worker.postMessage(request);
+  }
+
+  function dispatch(action: StreamStoreAction<T, S>): void {
+    if (action.type !== 'event') {
+      nextPhase(snapshot.phase, action.type);
+    }
+    post({ type: 'dispatch', run, action });
+  }
+
+  function stop(): void {
+    if (snapshot.phase !== 'idle' && canTransition(snapshot.phase, 'close')) {
+      stopped = true;
+      worker?.postMessage({ type: 'stop', run });
+      setSnapshot({ ...snapshot, state: { status: 'closed' }, phase: 'closed' });
+    }
+
+    settle?.();
+    settle = null;
+  }
+
+  function start(startOptions: StreamStoreStartOptions<S> = {}): Promise<void> {
+    stop();
+    run++;
+    stopped = false;
+    const done = new Promise<void>((resolve) => {
+      settle = resolve;
+    });
+    setSnapshot({
+      state: { status: 'active' },
+      phase: 'streaming',
+      data: startOptions.resumeFrom ? startOptions.resumeFrom.data : initialState,
+      eventCount: startOptions.resumeFrom ? startOptions.resumeFrom.eventCount : 0,
+    });
+
+    try {
+      post({
+        type: 'start',
+        run,
+        source: { events: resolveEvents(), delayProfile, faults },
+        captureEvents: onEvent !== undefined,
+        batchMs,
+        options: startOptions,
+      });
+    } catch (err) {
+      setSnapshot({
+        ...snapshot,
+        state: { status: 'error', error: err instanceof Error ? err : new Error(String(err)) },
+        phase: 'error',
+      });
+    }
+
+    return done;
+  }
+
+  function pause(): void {
+    nextPhase(snapshot.phase, 'pause');
+    post({ type: 'pause', run });
+  }
+
+  function resume(): void {
+    nextPhase(snapshot.phase, 'resume');
+    post({ type: 'resume', run });
+  }
+
+  function reset(): void {
+    stop();
+    run++;
+    setSnapshot({ state: { status: 'idle' }, phase: 'idle', data: initialState, eventCount: 0 });
+  }
+
+  function dispose(): void {
+    stop();
+    run++;
+    worker?.terminate();
+    worker = null;
+  }
+
+  return {
+    subscribe,
+    getSnapshot,
+    dispatch,
+    start,
+    pause,
+    resume,
+    stop,
+    reset,
+    thread: 'worker',
+    dispose,
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * Tests for sub-agent streams
+ *
+ * @module lib/streaming/subAgents.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { StreamEvent } from '@/types/events';
+import { VirtualClock } from '@/lib/utils/clock';
+import { isStreamEvent } from './eventSchema';
+import { createSubAgentStream, unwrapAgentEvent, type SubAgentSpec } from './subAgents';
+
+function text(id: string, value: string): StreamEvent {
+  return { id, type: 'text', timestamp: 0, data: { text: value } };
+}
+
+function agent(
+  agentId: string,
+  count: number,
+  overrides: Partial<SubAgentSpec> = {}
+): SubAgentSpec {
+  return {
+    agentId,
+    name: agentId,
+    task: `Run ${agentId}`,
+    events: Array.from({ length: count }, (_, index) => text(`${agentId}-e${index}`, `${index}`)),
+    ...overrides,
+  };
+}
+
+async function collect(stream: AsyncIterable<StreamEvent>): Promise<StreamEvent[]> {
+  const events: StreamEvent[] = [];
+  for await (const event of stream) {
+    events.push(event);
+  }
+  return events;
+}
+
+/**
+ * Describe an event as `<agent>:<lifecycle type>` or `<agent path>:<event id>`
+ */
+function describeEvent(event: StreamEvent): string {
+  const { path, event: inner } = unwrapAgentEvent(event);
+  if (inner.type === 'agent_spawn' || inner.type === 'agent_complete') {
+    return `${inner.data.agentId}:${inner.type}`;
+  }
+  return `${path.join('/')}:${inner.id}`;
+}
+
+describe('createSubAgentStream', () => {
+  it('should wrap each sub-agent between spawn and completion', async () => {
+    const clock = new VirtualClock();
+    const received = collect(
+      createSubAgentStream({ agents: [agent('backlog', 2)], parentId: 'planner', clock })
+    );
+    await clock.runAll();
+    const events = await received;
+
+    expect(events.map((event) => event.type)).toEqual([
+      'agent_spawn',
+      'agent_event',
+      'agent_event',
+      'agent_complete',
+    ]);
+    expect(events[0].data).toEqual({
+      agentId: 'backlog',
+      parentId: 'planner',
+      name: 'backlog',
+      task: 'Run backlog',
+    });
+    expect(events[3].data).toEqual({
+      agentId: 'backlog',
+      status: 'succeeded',
+      eventCount: 2,
+      durationMs: 600,
+    });
+  });
+
+  it('should interleave concurrent sub-agents in arrival order', async () => {
+    const clock = new VirtualClock();
+    const received = collect(
+      createSubAgentStream({
+        agents: [agent('fast', 2, { delayProfile: 'fast' }), agent('slow', 1)],
+        clock,
+      })
+    );
+    await clock.runAll();
+
+    expect((await received).map(describeEvent)).toEqual([
+      'fast:agent_spawn',
+      'slow:agent_spawn',
+      'fast:fast-e0',
+      'fast:fast-e1',
+      'fast:agent_complete',
+      'slow:slow-e0',
+      'slow:agent_complete',
+    ]);
+    expect(clock.now()).toBe(300);
+  });
+
+  it('should nest the events of sub-agents spawned by sub-agents', async () => {
+    const clock = new VirtualClock();
+    const received = collect(
+      createSubAgentStream({
+        agents: [agent('risk', 1, { agents: [agent('incidents', 1)] })],
+        delayProfile: 'fast',
+        clock,
+      })
+    );
+    await clock.runAll();
+    const events = await received;
+
+    const nested = events.map(unwrapAgentEvent).filter(({ path }) => path.length === 2);
+    expect(nested).toHaveLength(1);
+    expect(nested[0]).toMatchObject({ path: ['risk', 'incidents'], event: { id: 'incidents-e0' } });
+
+    const spawn = events
+      .map(unwrapAgentEvent)
+      .find(({ event }) => event.type === 'agent_spawn' && event.data.agentId === 'incidents');
+    expect(spawn?.path).toEqual(['risk']);
+    expect(spawn?.event.data).toMatchObject({ parentId: 'risk' });
+
+    // The parent completes after its nested sub-agent
+    expect(events[events.length - 1]).toMatchObject({
+      type: 'agent_complete',
+      data: { agentId: 'risk', status: 'succeeded', eventCount: 4 },
+    });
+  });
+
+  it('should complete a failing sub-agent as failed without stopping its siblings', async () => {
+    const clock = new VirtualClock();
+    const received = collect(
+      createSubAgentStream({
+        agents: [
+          agent('incidents', 3, {
+            faults: { error: { at: 1, createError: () => new Error('Incident API returned 503') } },
+          }),
+          agent('capacity', 3),
+        ],
+        delayProfile: 'fast',
+        clock,
+      })
+    );
+    await clock.runAll();
+    const completions = (await received).filter((event) => event.type === 'agent_complete');
+
+    expect(completions.map((event) => event.data)).toEqual([
+      expect.objectContaining({
+        agentId: 'incidents',
+        status: 'failed',
+        eventCount: 1,
+        error: 'Incident API returned 503',
+      }),
+      expect.objectContaining({ agentId: 'capacity', status: 'succeeded', eventCount: 3 }),
+    ]);
+  });
+
+  it('should produce valid canonical events', async () => {
+    // Canonical timestamps must be positive
+    const clock = new VirtualClock(1_000);
+    const received = collect(
+      createSubAgentStream({
+        agents: [agent('risk', 2, { agents: [agent('incidents', 2)] }), agent('capacity', 1)],
+        clock,
+      })
+    );
+    await clock.runAll();
+
+    (await received).forEach((event) => {
+      expect(isStreamEvent(event)).toBe(true);
+    });
+  });
+
+  it('should close every sub-agent session when the consumer stops', async () => {
+    const clock = new VirtualClock();
+    const stream = createSubAgentStream({ agents: [agent('a', 5), agent('b', 5)], clock });
+
+    const received = (async () => {
+      const events: StreamEvent[] = [];
+      for await (const event of stream) {
+        events.push(event);
+        if (event.type === 'agent_event') {
+          break;
+        }
+      }
+      return events;
+    })();
+    await clock.runAll();
+
+    expect((await received).map((event) => event.type)).toEqual([
+      'agent_spawn',
+      'agent_spawn',
+      'agent_event',
+    ]);
+    expect(clock.getPendingTimers()).toBe(0);
+  });
+});
+
+describe('unwrapAgentEvent', () => {
+  it('should return an empty path for events without envelopes', () => {
+    const event = text('t-1', 'hello');
+
+    expect(unwrapAgentEvent(event)).toEqual({ path: [], event });
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Sub-Agent Streams - Nested agent sessions on one parent stream
+ *
+ * A planner agent that fans work out to sub-agents receives several streams
+ * at once. Each sub-agent runs as its own StreamSession (created with
+ * `createConcurrentStreams`), and its events are forwarded to the parent
+ * stream as they arrive:
+ *
+ * - `agent_spawn` before the sub-agent's first event
+ * - `agent_event` wrapping each event of the sub-agent's own stream
+ * - `agent_complete` after its last event, or after its stream fails
+ *
+ * Sub-agents may spawn sub-agents of their own. Their events travel inside
+ * their parent's envelopes, so an event from depth two is an `agent_event`
+ * wrapping an `agent_event`; `unwrapAgentEvent` recovers the agent path.
+ *
+ * A failing sub-agent ends with a failed `agent_complete` instead of
+ * failing the parent stream, so its siblings keep running.
+ *
+ * @module lib/streaming/subAgents
+ */
+
+import type {
+  AgentCompleteEvent,
+  AgentEventEvent,
+  AgentSpawnEvent,
+  StreamEvent,
+} from '@/types/events';
+import { createConcurrentStreams, type CreateStreamOptions } from './mockSSE';
+import { merge } from './operators';
+import type { DelayProfile } from './streamSession';
+import { systemClock, type Clock } from '@/lib/utils/clock';
+
+/**
+ * A sub-agent and the stream it produces
+ */
+export interface SubAgentSpec extends Omit<
+  CreateStreamOptions,
+  'sessionId' | 'transport' | 'clock'
+> {
+  /** Sub-agent identifier (unique within the run) */
+  agentId: string;
+
+  /** Display name */
+  name: string;
+
+  /** Task the sub-agent was given */
+  task: string;
+
+  /** Sub-agents this one spawns when it starts */
+  agents?: SubAgentSpec[];
+}
+
+/**
+ * Options for creating a sub-agent stream
+ */
+export interface SubAgentStreamOptions {
+  /** Sub-agents to run concurrently */
+  agents: SubAgentSpec[];
+
+  /** Agent that spawns them (default: the root planner, which has no ID) */
+  parentId?: string;
+
+  /** Delay profile for sub-agents that do not set their own (default: 'normal') */
+  delayProfile?: DelayProfile;
+
+  /** Clock for delays and timestamps, e.g. a VirtualClock in tests (default: system clock) */
+  clock?: Clock;
+}
+
+/**
+ * A sub-agent event with its envelopes removed
+ */
+export interface UnwrappedAgentEvent {
+  /** Agent IDs from the outermost sub-agent to the one that emitted the event */
+  path: string[];
+
+  /** The innermost event */
+  event: StreamEvent;
+}
+
+/**
+ * Run sub-agents concurrently and forward their events on one stream
+ *
+ * Events from different sub-agents interleave in arrival order. The stream
+ * ends once every sub-agent has completed. Returning from it (e.g. `break`
+ * in `for await`) closes every sub-agent session.
+ *
+ * @param options - Sub-agents and shared stream options
+ * @returns Stream of agent_spawn, agent_event and agent_complete events
+ *
+ * @example
+ * ```typescript
+ * const stream = createSubAgentStream({
+ *   agents: [
+ *     { agentId: 'backlog', name: 'Backlog Analyst', task: 'Size open work', events: backlogRun },
+ *     { agentId: 'risk', name: 'Risk Reviewer', task: 'Find blockers', events: riskRun },
+ *   ],
+ *   delayProfile: 'fast',
+ * });
+ *
+ * for await (const event of stream) {
+ *   const { path, event: inner } = unwrapAgentEvent(event);
+ *   console.log(path.join(' › '), inner.type);
+ * }
+ * ```
+ */
+export function createSubAgentStream(
+  options: SubAgentStreamOptions
+): AsyncGenerator<StreamEvent, void, undefined> {
+  const { agents, parentId, delayProfile = 'normal', clock = systemClock } = options;
+
+  const sessions = createConcurrentStreams(
+    agents.map(({ agentId, name: _name, task: _task, agents: _children, ...streamOptions }) => ({
+      delayProfile,
+      ...streamOptions,
+      events: streamOptions.events ?? [],
+      sessionId: parentId ? `${parentId}/${agentId}` : agentId,
+      clock,
+    }))
+  );
+
+  return merge(
+    ...agents.map((agent, index) =>
+      runSubAgent(agent, sessions[index], { parentId, delayProfile, clock })
+    )
+  );
+}
+
+/**
+ * Remove the agent_event envelopes around an event
+ *
+ * @param event - Event from a sub-agent stream
+ * @returns Agent path and innermost event (an empty path for unwrapped events)
+ *
+ * @example
+ * ```typescript
+ * unwrapAgentEvent(event);
+ * // { path: ['risk', 'incidents'], event: { type: 'text', ... } }
+ * ```
+ */
+export function unwrapAgentEvent(event: StreamEvent): UnwrappedAgentEvent {
+  const path: string[] = [];
+  let inner = event;
+
+  while (inner.type === 'agent_event') {
+    path.push(inner.data.agentId);
+    inner = inner.data.event;
+  }
+
+  return { path, event: inner };
+}
+
+/**
+ * Forward one sub-agent's session between its spawn and completion events
+ */
+async function* runSubAgent(
+  agent: SubAgentSpec,
+  session: AsyncGenerator<StreamEvent>,
+  options: { parentId?: string; delayProfile: DelayProfile; clock: Clock }
+): AsyncGenerator<StreamEvent, void, undefined> {
+  const { agentId, name, task, agents: children = [] } = agent;
+  const { parentId, clock } = options;
+  const startedAt = clock.now();
+
+  const spawn: AgentSpawnEvent = {
+    id: `${agentId}-spawn`,
+    type: 'agent_spawn',
+    timestamp: startedAt,
+    data: { agentId, ...(parentId ? { parentId } : {}), name, task },
+  };
+  yield spawn;
+
+  // Nested sub-agents run alongside this agent's own events
+  const source =
+    children.length > 0
+      ? merge<StreamEvent>(
+          session,
+          createSubAgentStream({ ...options, agents: children, parentId: agentId })
+        )
+      : session;
+
+  let eventCount = 0;
+  let error: string | undefined;
+
+  try {
+    for await (const event of source) {
+      eventCount++;
+
+      const envelope: AgentEventEvent = {
+        id: `${agentId}-${eventCount}`,
+        type: 'agent_event',
+        timestamp: clock.now(),
+        data: { agentId, event },
+      };
+      yield envelope;
+    }
+  } catch (cause) {
+    error = cause instanceof Error ? cause.message : String(cause);
+  }
+
+  const complete: AgentCompleteEvent = {
+    id: `${agentId}-complete`,
+    type: 'agent_complete',
+    timestamp: clock.now(),
+    data: {
+      agentId,
+      status: error === undefined ? 'succeeded' : 'failed',
+      eventCount,
+      durationMs: clock.now() - startedAt,
+      ...(error === undefined ? {} : { error }),
+    },
+  };
+  yield complete;
+}
@@ -0,0 +1,159 @@
+/**
+ * Tests for timing models
+ *
+ * @module lib/streaming/timingModels.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createBurstyTiming,
+  createFixedTiming,
+  createJitteredTiming,
+  createPerEventTypeTiming,
+  createProfileTiming,
+  createReplayTimestampsTiming,
+  createTokenRateTiming,
+  getEventTextLength,
+  resolveTimingModel,
+  type TimingModel,
+} from './timingModels';
+
+/**
+ * Collect the delays a model produces for the first `count` indices
+ */
+function delaysFor(model: TimingModel, count: number): number[] {
+  return Array.from({ length: count }, (_, index) => model.getDelay({ index }));
+}
+
+describe('Basic models', () => {
+  it('should return a constant delay', () => {
+    expect(delaysFor(createFixedTiming(25), 3)).toEqual([25, 25, 25]);
+  });
+
+  it('should clamp negative fixed delays to zero', () => {
+    expect(createFixedTiming(-10).getDelay({ index: 0 })).toBe(0);
+  });
+
+  it('should map default profiles to delays', () => {
+    expect(createProfileTiming('fast').getDelay({ index: 0 })).toBe(50);
+    expect(createProfileTiming('normal').getDelay({ index: 0 })).toBe(300);
+    expect(createProfileTiming('slow').getDelay({ index: 0 })).toBe(1000);
+  });
+
+  it('should accept a custom profile table', () => {
+    const timing = createProfileTiming<'instant' | 'fast'>('instant', { instant: 0, fast: 10 });
+    expect(timing.getDelay({ index: 0 })).toBe(0);
+  });
+
+  it('should throw for unknown profiles', () => {
+    expect(() => createProfileTiming('warp' as 'fast')).toThrow('Unknown delay profile: warp');
+  });
+
+  it('should resolve numbers, profiles and models', () => {
+    const model = createFixedTiming(7);
+
+    expect(resolveTimingModel(12).getDelay({ index: 0 })).toBe(12);
+    expect(resolveTimingModel('slow').getDelay({ index: 0 })).toBe(1000);
+    expect(resolveTimingModel(model)).toBe(model);
+  });
+});
+
+describe('Randomized models', () => {
+  it('should keep jitter within bounds', () => {
+    const delays = delaysFor(createJitteredTiming(100, { jitter: 0.3 }), 200);
+
+    delays.forEach((delay) => {
+      expect(delay).toBeGreaterThanOrEqual(70);
+      expect(delay).toBeLessThanOrEqual(130);
+    });
+    expect(new Set(delays).size).toBeGreaterThan(1);
+  });
+
+  it('should be deterministic for a seed', () => {
+    const a = delaysFor(createJitteredTiming('normal', { seed: 5 }), 10);
+    const b = delaysFor(createJitteredTiming('normal', { seed: 5 }), 10);
+    const c = delaysFor(createJitteredTiming('normal', { seed: 6 }), 10);
+
+    expect(a).toEqual(b);
+    expect(a).not.toEqual(c);
+  });
+
+  it('should give the same jitter for an index regardless of call order', () => {
+    const model = createJitteredTiming(100, { seed: 3 });
+    const later = model.getDelay({ index: 8 });
+
+    expect(createJitteredTiming(100, { seed: 3 }).getDelay({ index: 8 })).toBe(later);
+  });
+
+  it('should group events into bursts', () => {
+    const delays = delaysFor(
+      createBurstyTiming({ burstSize: 3, intraBurstDelayMs: 1, interBurstDelayMs: 500 }),
+      7
+    );
+
+    expect(delays).toEqual([500, 1, 1, 500, 1, 1, 500]);
+  });
+
+  it('should produce burst sizes within the range', () => {
+    const delays = delaysFor(
+      createBurstyTiming({ burstSize: [2, 4], intraBurstDelayMs: 0, interBurstDelayMs: 1, seed: 11 }),
+      100
+    );
+
+    const starts = delays.flatMap((delay, index) => (delay === 1 ? [index] : []));
+    const sizes = starts.slice(1).map((start, i) => start - starts[i]);
+
+    sizes.forEach((size) => {
+      expect(size).toBeGreaterThanOrEqual(2);
+      expect(size).toBeLessThanOrEqual(4);
+    });
+  });
+});
+
+describe('Content-aware models', () => {
+  it('should measure text, delta or JSON payload length', () => {
+    expect(getEventTextLength({ type: 'answer', data: { text: 'hello' } })).toBe(5);
+    expect(getEventTextLength({ type: 'chunk', data: { delta: 'abc' } })).toBe(3);
+    expect(getEventTextLength({ type: 'row', data: { a: 1 } })).toBe(7);
+    expect(getEventTextLength(undefined)).toBe(0);
+  });
+
+  it('should delay proportionally to chunk length', () => {
+    const timing = createTokenRateTiming({ tokensPerSecond: 10, charsPerToken: 4 });
+
+    // 40 chars → 10 tokens → 1 second
+    const long = timing.getDelay({ index: 0, event: { type: 'answer', data: { text: 'x'.repeat(40) } } });
+    // 4 chars → 1 token → 100ms
+    const short = timing.getDelay({ index: 1, event: { type: 'answer', data: { text: 'abcd' } } });
+
+    expect(long).toBe(1000);
+    expect(short).toBe(100);
+  });
+
+  it('should clamp token-rate delays', () => {
+    const timing = createTokenRateTiming({ tokensPerSecond: 1, minDelayMs: 20, maxDelayMs: 200 });
+
+    expect(timing.getDelay({ index: 0, event: { type: 'answer', data: { text: '' } } })).toBe(20);
+    expect(timing.getDelay({ index: 0, event: { type: 'answer', data: { text: 'long text' } } })).toBe(200);
+  });
+
+  it('should choose models by event type', () => {
+    const timing = createPerEventTypeTiming({ table_row: 20, reasoning: 'slow' }, 'fast');
+
+    expect(timing.getDelay({ index: 0, event: { type: 'table_row' } })).toBe(20);
+    expect(timing.getDelay({ index: 1, event: { type: 'reasoning' } })).toBe(1000);
+    expect(timing.getDelay({ index: 2, event: { type: 'answer' } })).toBe(50);
+    expect(timing.getDelay({ index: 3 })).toBe(50);
+  });
+
+  it('should replay timestamp gaps scaled by speed', () => {
+    const timing = createReplayTimestampsTiming({ speed: 2, maxDelayMs: 1000 });
+    const first = { type: 'a', timestamp: 1000 };
+    const second = { type: 'b', timestamp: 1600 };
+    const third = { type: 'c', timestamp: 9000 };
+
+    expect(timing.getDelay({ index: 0, event: first })).toBe(0);
+    expect(timing.getDelay({ index: 1, event: second, previous: first })).toBe(300);
+    expect(timing.getDelay({ index: 2, event: third, previous: second })).toBe(1000);
+  });
+});
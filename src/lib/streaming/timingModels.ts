@@ -0,0 +1,404 @@
+/**
+ * Timing Models - Shared delay strategies for mock streams
+ *
+ * A timing model decides how long to wait before emitting each event. All
+ * mock streams (StreamSession and each pattern's mockStream.ts) take their
+ * delays from a TimingModel instead of keeping their own speed tables.
+ *
+ * Available models:
+ * - Profile / fixed: constant delay per event (the classic fast/normal/slow)
+ * - Jittered: random variation around a base model
+ * - Token rate: delay proportional to chunk length (LLM tokens per second)
+ * - Bursty: events arrive in network-batched bursts
+ * - Per event type: different models for different event types
+ * - Replay timestamps: reproduce the gaps between fixture timestamps
+ *
+ * Randomized models take a seed, so the same seed always produces the same
+ * delays (INV-13: deterministic replay).
+ *
+ * @module lib/streaming/timingModels
+ */
+
+import { DEFAULT_SEED, createSeededRandom, randomAt } from '@/lib/utils/random';
+
+/**
+ * Delay profile for timing control
+ * - fast: 50ms between events (for quick testing)
+ * - normal: 300ms between events (realistic UX)
+ * - slow: 1000ms between events (for detailed observation)
+ */
+export type DelayProfile = 'fast' | 'normal' | 'slow';
+
+/**
+ * Default delays for each profile in milliseconds
+ */
+export const DELAY_PROFILE_MS: Readonly<Record<DelayProfile, number>> = {
+  fast: 50,
+  normal: 300,
+  slow: 1000,
+};
+
+/**
+ * Minimal event shape timing models can inspect
+ * Pattern-local event types (which may lack ids or timestamps) satisfy this too.
+ */
+export interface TimedEvent {
+  type: string;
+  timestamp?: number;
+  data?: unknown;
+}
+
+/**
+ * Information available when computing a delay
+ */
+export interface TimingContext {
+  /** Zero-based index of the event about to be emitted */
+  index: number;
+
+  /** Event about to be emitted (absent for non-event waits) */
+  event?: TimedEvent;
+
+  /** Previously emitted event, if any */
+  previous?: TimedEvent;
+}
+
+/**
+ * TimingModel - Computes the delay before an event is emitted
+ */
+export interface TimingModel {
+  /**
+   * Get the delay before emitting an event
+   *
+   * @param context - Event position and neighbours
+   * @returns Delay in milliseconds (>= 0)
+   */
+  getDelay(context: TimingContext): number;
+}
+
+/**
+ * Anything that can be turned into a timing model
+ * A number is a fixed delay; a profile name uses DELAY_PROFILE_MS.
+ */
+export type TimingInput = TimingModel | DelayProfile | number;
+
+// ============================================================================
+// Basic Models
+// ============================================================================
+
+/**
+ * Create a constant-delay model
+ *
+ * @param delayMs - Delay before every event
+ * @returns Timing model
+ */
+export function createFixedTiming(delayMs: number): TimingModel {
+  const delay = Math.max(0, delayMs);
+  return { getDelay: () => delay };
+}
+
+/**
+ * Create a model from a named speed profile
+ *
+ * Patterns whose speeds differ from the defaults pass their own table.
+ *
+ * @param profile - Profile name (e.g. 'fast')
+ * @param table - Delay per profile (default: DELAY_PROFILE_MS)
+ * @returns Timing model
+ * @throws Error if the profile is not in the table
+ *
+ * @example
+ * ```typescript
+ * const timing = createProfileTiming('slow'); // 1000ms per event
+ * const custom = createProfileTiming('normal', { fast: 100, normal: 400, slow: 800 });
+ * ```
+ */
+export function createProfileTiming<P extends string = DelayProfile>(
+  profile: P,
+  table: Readonly<Record<P, number>> = DELAY_PROFILE_MS as Readonly<Record<string, number>>
+): TimingModel {
+  const delayMs = table[profile];
+
+  if (typeof delayMs !== 'number') {
+    throw new Error(`Unknown delay profile: ${profile}`);
+  }
+
+  return createFixedTiming(delayMs);
+}
+
+/**
+ * Convert a TimingInput into a TimingModel
+ *
+ * @param input - Model, profile name or fixed delay
+ * @returns Timing model
+ */
+export function resolveTimingModel(input: TimingInput): TimingModel {
+  if (typeof input === 'number') {
+    return createFixedTiming(input);
+  }
+
+  if (typeof input === 'string') {
+    return createProfileTiming(input);
+  }
+
+  return input;
+}
+
+// ============================================================================
+// Randomized Models
+// ============================================================================
+
+/**
+ * Options for jittered timing
+ */
+export interface JitterOptions {
+  /** Maximum relative deviation, e.g. 0.3 for ±30% (default: 0.3) */
+  jitter?: number;
+
+  /** Random seed (default: DEFAULT_SEED) */
+  seed?: number;
+}
+
+/**
+ * Add random jitter around a base model
+ *
+ * The jitter for a given event index is fixed by the seed, so resuming a
+ * stream mid-way reproduces the same delays.
+ *
+ * @param base - Base model or input
+ * @param options - Jitter options
+ * @returns Timing model
+ *
+ * @example
+ * ```typescript
+ * const timing = createJitteredTiming('normal', { jitter: 0.3, seed: 7 }); // 210–390ms
+ * ```
+ */
+export function createJitteredTiming(base: TimingInput, options: JitterOptions = {}): TimingModel {
+  const model = resolveTimingModel(base);
+  const jitter = options.jitter ?? 0.3;
+  const seed = options.seed ?? DEFAULT_SEED;
+
+  return {
+    getDelay(context) {
+      const delay = model.getDelay(context);
+      const factor = 1 + (randomAt(seed, context.index) * 2 - 1) * jitter;
+      return Math.max(0, delay * factor);
+    },
+  };
+}
+
+/**
+ * Options for bursty timing
+ */
+export interface BurstyOptions {
+  /** Events per burst, fixed or a [min, max] range (default: [3, 6]) */
+  burstSize?: number | [number, number];
+
+  /** Delay between events inside a burst (default: 5) */
+  intraBurstDelayMs?: number;
+
+  /** Delay before the first event of each burst (default: 600) */
+  interBurstDelayMs?: number;
+
+  /** Random seed for burst sizes (default: DEFAULT_SEED) */
+  seed?: number;
+}
+
+/**
+ * Simulate network-batched delivery
+ *
+ * Real connections often deliver several events in one TCP read after a
+ * pause. This model groups events into bursts: a long gap before each
+ * burst, then near-zero gaps within it.
+ *
+ * @param options - Burst options
+ * @returns Timing model
+ */
+export function createBurstyTiming(options: BurstyOptions = {}): TimingModel {
+  const { intraBurstDelayMs = 5, interBurstDelayMs = 600 } = options;
+  const [minSize, maxSize] = Array.isArray(options.burstSize)
+    ? options.burstSize
+    : [options.burstSize ?? 3, options.burstSize ?? 6];
+  const random = createSeededRandom(options.seed ?? DEFAULT_SEED);
+
+  // Burst start indices, generated lazily so the result is independent of call order
+  const burstStarts = new Set<number>([0]);
+  let nextStart = 0;
+
+  const ensureBurstsUpTo = (index: number): void => {
+    while (nextStart <= index) {
+      const size = Math.max(1, minSize + Math.floor(random() * (maxSize - minSize + 1)));
+      nextStart += size;
+      burstStarts.add(nextStart);
+    }
+  };
+
+  return {
+    getDelay({ index }) {
+      ensureBurstsUpTo(index);
+      return burstStarts.has(index) ? interBurstDelayMs : intraBurstDelayMs;
+    },
+  };
+}
+
+// ============================================================================
+// Content-Aware Models
+// ============================================================================
+
+/**
+ * Options for token-rate timing
+ */
+export interface TokenRateOptions {
+  /** Generation speed in tokens per second (default: 40) */
+  tokensPerSecond?: number;
+
+  /** Approximate characters per token (default: 4) */
+  charsPerToken?: number;
+
+  /** Lower bound for a single delay (default: 0) */
+  minDelayMs?: number;
+
+  /** Upper bound for a single delay (default: Infinity) */
+  maxDelayMs?: number;
+}
+
+/**
+ * Estimate the text length an event carries
+ *
+ * Uses `data.text` or `data.delta` when present, otherwise the JSON size of
+ * the data payload.
+ *
+ * @param event - Event to measure
+ * @returns Length in characters
+ */
+export function getEventTextLength(event: TimedEvent | undefined): number {
+  if (!event || event.data === undefined) {
+    return 0;
+  }
+
+  const data = event.data as Record<string, unknown> | null;
+
+  if (data && typeof data === 'object') {
+    if (typeof data.text === 'string') {
+      return data.text.length;
+    }
+    if (typeof data.delta === 'string') {
+      return data.delta.length;
+    }
+  }
+
+  return JSON.stringify(event.data).length;
+}
+
+/**
+ * Delay proportional to chunk length
+ *
+ * Models an LLM emitting tokens at a steady rate: a 400-character answer
+ * chunk takes longer to arrive than a 20-character one.
+ *
+ * @param options - Token rate options
+ * @returns Timing model
+ *
+ * @example
+ * ```typescript
+ * const timing = createTokenRateTiming({ tokensPerSecond: 50, minDelayMs: 20 });
+ * ```
+ */
+export function createTokenRateTiming(options: TokenRateOptions = {}): TimingModel {
+  const {
+    tokensPerSecond = 40,
+    charsPerToken = 4,
+    minDelayMs = 0,
+    maxDelayMs = Number.POSITIVE_INFINITY,
+  } = options;
+
+  return {
+    getDelay({ event }) {
+      const tokens = Math.ceil(getEventTextLength(event) / charsPerToken);
+      const delay = (tokens / tokensPerSecond) * 1000;
+      return Math.min(maxDelayMs, Math.max(minDelayMs, delay));
+    },
+  };
+}
+
+/**
+ * Use different models for different event types
+ *
+ * @param overrides - Model per event type
+ * @param fallback - Model for all other types
+ * @returns Timing model
+ *
+ * @example
+ * ```typescript
+ * const timing = createPerEventTypeTiming(
+ *   { table_row: 20, reasoning: createJitteredTiming('slow') },
+ *   'normal'
+ * );
+ * ```
+ */
+export function createPerEventTypeTiming(
+  overrides: Partial<Record<string, TimingInput>>,
+  fallback: TimingInput
+): TimingModel {
+  const fallbackModel = resolveTimingModel(fallback);
+  const models = new Map<string, TimingModel>();
+
+  Object.entries(overrides).forEach(([type, input]) => {
+    if (input !== undefined) {
+      models.set(type, resolveTimingModel(input));
+    }
+  });
+
+  return {
+    getDelay(context) {
+      const model = (context.event && models.get(context.event.type)) || fallbackModel;
+      return model.getDelay(context);
+    },
+  };
+}
+
+/**
+ * Options for timestamp replay
+ */
+export interface ReplayTimestampsOptions {
+  /** Playback speed multiplier, e.g. 2 for double speed (default: 1) */
+  speed?: number;
+
+  /** Lower bound for a single delay (default: 0) */
+  minDelayMs?: number;
+
+  /** Upper bound for a single delay, to skip long idle gaps (default: 5000) */
+  maxDelayMs?: number;
+}
+
+/**
+ * Reproduce the original gaps between fixture timestamps
+ *
+ * The first event, and events without usable timestamps, wait `minDelayMs`.
+ *
+ * @param options - Replay options
+ * @returns Timing model
+ *
+ * @example
+ * ```typescript
+ * // Replay a recorded session at 4× speed
+ * const timing = createReplayTimestampsTiming({ speed: 4 });
+ * ```
+ */
+export function createReplayTimestampsTiming(options: ReplayTimestampsOptions = {}): TimingModel {
+  const { speed = 1, minDelayMs = 0, maxDelayMs = 5000 } = options;
+
+  return {
+    getDelay({ event, previous }) {
+      if (
+        typeof event?.timestamp !== 'number' ||
+        typeof previous?.timestamp !== 'number'
+      ) {
+        return minDelayMs;
+      }
+
+      const gap = (event.timestamp - previous.timestamp) / speed;
+      return Math.min(maxDelayMs, Math.max(minDelayMs, gap));
+    },
+  };
+}
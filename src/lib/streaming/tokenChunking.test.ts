@@ -0,0 +1,115 @@
+/**
+ * Tests for token chunking
+ *
+ * @module lib/streaming/tokenChunking.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { StreamEvent } from '@/types/events';
+import { splitIntoTokens, chunkText, chunkAnswerEvents } from './tokenChunking';
+
+const markdown = `# Sprint 24 Plan
+
+| Item | Points |
+|------|--------|
+| Authentication overhaul | 13 |
+
+\`\`\`ts
+const velocity = 29;
+\`\`\`
+
+- **Owner:** Backend team (3 engineers)`;
+
+describe('tokenChunking', () => {
+  describe('splitIntoTokens', () => {
+    it('should split words, punctuation and whitespace like a BPE tokenizer', () => {
+      expect(splitIntoTokens("It's 2024, authentication!\n\n")).toEqual([
+        'It',
+        "'s",
+        ' 202',
+        '4',
+        ',',
+        ' authen',
+        'ticati',
+        'on',
+        '!',
+        '\n\n',
+      ]);
+    });
+
+    it('should reassemble into the original text', () => {
+      expect(splitIntoTokens(markdown).join('')).toBe(markdown);
+    });
+  });
+
+  describe('chunkText', () => {
+    it('should group tokens into chunks within the size range', () => {
+      const tokens = splitIntoTokens(markdown);
+      const chunks = chunkText(markdown, { minTokens: 2, maxTokens: 3 });
+
+      expect(chunks.join('')).toBe(markdown);
+      expect(chunks.length).toBeGreaterThanOrEqual(Math.ceil(tokens.length / 3));
+      expect(chunks.length).toBeLessThanOrEqual(Math.ceil(tokens.length / 2));
+    });
+
+    it('should be deterministic for a seed', () => {
+      expect(chunkText(markdown, { seed: 7 })).toEqual(chunkText(markdown, { seed: 7 }));
+      expect(chunkText(markdown, { seed: 7 })).not.toEqual(chunkText(markdown, { seed: 8 }));
+    });
+
+    it('should reject an invalid size range', () => {
+      expect(() => chunkText('text', { minTokens: 0 })).toThrow(
+        'Token chunk sizes must be positive integers, got 0-4'
+      );
+      expect(() => chunkText('text', { minTokens: 3, maxTokens: 2 })).toThrow(
+        'Token chunk maxTokens (2) must be at least minTokens (3)'
+      );
+    });
+  });
+
+  describe('chunkAnswerEvents', () => {
+    const events: StreamEvent[] = [
+      {
+        id: 'reason-1',
+        type: 'reasoning',
+        timestamp: 1000,
+        data: { id: 'reason-1', summary: 'Estimating', confidence: 0.9, timestamp: 1000 },
+      },
+      { id: 'answer-1', type: 'answer', timestamp: 2000, data: { text: markdown, isFinal: true } },
+    ];
+
+    it('should expand answers into chunk events and mark only the last one final', () => {
+      const chunked = chunkAnswerEvents(events);
+      const answers = chunked.filter((event) => event.type === 'answer');
+
+      expect(chunked[0]).toBe(events[0]);
+      expect(answers.length).toBeGreaterThan(10);
+      expect(answers.map((event) => event.data.text).join('')).toBe(markdown);
+      expect(answers.map((event) => event.data.isFinal)).toEqual([
+        ...Array(answers.length - 1).fill(false),
+        true,
+      ]);
+      expect(answers.slice(0, 2).map((event) => event.id)).toEqual(['answer-1-t0', 'answer-1-t1']);
+      expect(answers.every((event) => event.timestamp === 2000)).toBe(true);
+    });
+
+    it('should chunk pattern events without ids or isFinal flags', () => {
+      const chunked = chunkAnswerEvents([{ type: 'answer', data: { text: 'Sprint plan ready' } }], {
+        minTokens: 1,
+        maxTokens: 1,
+      });
+
+      expect(chunked).toEqual([
+        { type: 'answer', data: { text: 'Sprint' } },
+        { type: 'answer', data: { text: ' plan' } },
+        { type: 'answer', data: { text: ' ready' } },
+      ]);
+    });
+
+    it('should only chunk the configured event types', () => {
+      const chunked = chunkAnswerEvents(events, { types: ['text'] });
+
+      expect(chunked).toEqual(events);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Token Chunking - Split answer text into realistic token deltas
+ *
+ * Fixtures store an answer as one complete string, but an LLM streams it a
+ * few tokens at a time: a chunk may end mid-word, inside a code fence or
+ * halfway through a table row. Expanding fixture answers into token chunks
+ * lets demos (and renderers) face the same partial text a real backend
+ * produces.
+ *
+ * Tokens approximate a BPE tokenizer: words carry their leading space, long
+ * words are split into sub-word pieces, and punctuation, digits and
+ * whitespace runs are tokens of their own. Chunk sizes are drawn from a seed
+ * so a chunked fixture always replays identically (INV-13). Concatenating
+ * the chunks of a text always gives back the text.
+ *
+ * @module lib/streaming/tokenChunking
+ */
+
+import { DEFAULT_SEED, randomAt } from '@/lib/utils/random';
+
+/**
+ * Token chunking options
+ */
+export interface TokenChunkOptions {
+  /** Seed for chunk sizes (default: DEFAULT_SEED) */
+  seed?: number;
+
+  /** Fewest tokens per chunk (default: 1) */
+  minTokens?: number;
+
+  /** Most tokens per chunk (default: 4) */
+  maxTokens?: number;
+
+  /** Event types whose `data.text` is chunked (default: ['answer']) */
+  types?: string[];
+}
+
+/**
+ * Minimal event shape that can be chunked
+ * Pattern-local event types (which may lack ids) satisfy this too.
+ */
+export interface ChunkableEvent {
+  type: string;
+  id?: string;
+  data?: unknown;
+}
+
+/**
+ * Pre-tokenization pattern (GPT-2 style): contractions, words with their
+ * leading space, digit groups, punctuation runs, then whitespace
+ */
+const TOKEN_PATTERN =
+  /'(?:s|t|re|ve|m|ll|d)| ?\p{L}+| ?\p{N}{1,3}| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/gu;
+
+/** Longest sub-word piece, in letters */
+const MAX_PIECE_LENGTH = 6;
+
+/**
+ * Split text into approximate LLM tokens
+ *
+ * @param text - Text to tokenize
+ * @returns Tokens whose concatenation is `text`
+ *
+ * @example
+ * ```typescript
+ * splitIntoTokens('Hello, authentication!');
+ * // ['Hello', ',', ' authen', 'ticati', 'on', '!']
+ * ```
+ */
+export function splitIntoTokens(text: string): string[] {
+  return (text.match(TOKEN_PATTERN) ?? []).flatMap(splitLongWord);
+}
+
+/**
+ * Split text into chunks of a few tokens each
+ *
+ * @param text - Text to chunk
+ * @param options - Seed and chunk size range
+ * @returns Chunks whose concatenation is `text`
+ * @throws Error if the chunk size range is invalid
+ */
+export function chunkText(text: string, options: TokenChunkOptions = {}): string[] {
+  const { seed = DEFAULT_SEED, minTokens = 1, maxTokens = 4 } = options;
+
+  if (!Number.isInteger(minTokens) || minTokens < 1 || !Number.isInteger(maxTokens)) {
+    throw new Error(`Token chunk sizes must be positive integers, got ${minTokens}-${maxTokens}`);
+  }
+  if (maxTokens < minTokens) {
+    throw new Error(
+      `Token chunk maxTokens (${maxTokens}) must be at least minTokens (${minTokens})`
+    );
+  }
+
+  const tokens = splitIntoTokens(text);
+  const chunks: string[] = [];
+
+  let start = 0;
+  while (start < tokens.length) {
+    const size =
+      minTokens + Math.floor(randomAt(seed, chunks.length) * (maxTokens - minTokens + 1));
+    chunks.push(tokens.slice(start, start + size).join(''));
+    start += size;
+  }
+
+  return chunks;
+}
+
+/**
+ * Expand text events into one event per token chunk
+ *
+ * Each chunk keeps the original event's fields, with its own `data.text`.
+ * Chunk IDs get a `-t<n>` suffix, and an `isFinal` flag is only carried by
+ * the last chunk. Other events pass through unchanged.
+ *
+ * @param events - Fixture events
+ * @param options - Event types, seed and chunk size range
+ * @returns Events with text split into token chunks
+ * @throws Error if the chunk size range is invalid
+ *
+ * @example
+ * ```typescript
+ * const events = chunkAnswerEvents(getFixtureEvents('chain-of-reasoning-sprint-planning'));
+ * const stream = createMockStream({ events, timing: createTokenRateTiming() });
+ * ```
+ */
+export function chunkAnswerEvents<T extends ChunkableEvent>(
+  events: T[],
+  options: TokenChunkOptions = {}
+): T[] {
+  const { types = ['answer'] } = options;
+
+  return events.flatMap((event, eventIndex) => {
+    const data = event.data as Record<string, unknown> | undefined;
+    if (!types.includes(event.type) || !data || typeof data.text !== 'string') {
+      return [event];
+    }
+
+    // Vary chunk sizes between events while staying deterministic
+    const chunks = chunkText(data.text, {
+      ...options,
+      seed: (options.seed ?? DEFAULT_SEED) + eventIndex,
+    });
+    if (chunks.length <= 1) {
+      return [event];
+    }
+
+    return chunks.map((text, index) => {
+      const last = index === chunks.length - 1;
+
+      return {
+        ...event,
+        ...(event.id === undefined ? {} : { id: `${event.id}-t${index}` }),
+        data: {
+          ...data,
+          text,
+          ...(typeof data.isFinal === 'boolean' ? { isFinal: last && data.isFinal } : {}),
+        },
+      } as T;
+    });
+  });
+}
+
+/**
+ * Split a word token longer than MAX_PIECE_LENGTH letters into pieces
+ */
+function splitLongWord(token: string): string[] {
+  const leading = token.startsWith(' ') ? 1 : 0;
+  if (token.length - leading <= MAX_PIECE_LENGTH || !/^ ?\p{L}+$/u.test(token)) {
+    return [token];
+  }
+
+  const pieces: string[] = [];
+  let start = 0;
+  while (start < token.length) {
+    const end = start + MAX_PIECE_LENGTH + (start === 0 ? leading : 0);
+    pieces.push(token.slice(start, end));
+    start = end;
+  }
+  return pieces;
+}
@@ -0,0 +1,351 @@
+/**
+ * Tests for stream transports
+ *
+ * @module lib/streaming/transport.test
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  FixtureTransport,
+  SSETransport,
+  ScriptTransport,
+  decodeSSEMessage,
+  type StreamScript,
+} from './transport';
+import { StreamSession } from './streamSession';
+import { InboundChannel } from './inboundChannel';
+import type { InputSubmissionEvent, StreamEvent } from '@/types/events';
+
+/**
+ * Build a fake fetch returning the given SSE body
+ */
+function createFetch(
+  body: string,
+  init: { status?: number; contentType?: string } = {}
+): typeof fetch {
+  return vi.fn(async () => {
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(body));
+        controller.close();
+      },
+    });
+
+    return new Response(stream, {
+      status: init.status ?? 200,
+      headers: { 'Content-Type': init.contentType ?? 'text/event-stream' },
+    });
+  }) as unknown as typeof fetch;
+}
+
+describe('FixtureTransport', () => {
+  let sampleEvents: StreamEvent[];
+
+  beforeEach(() => {
+    sampleEvents = [
+      {
+        id: '1',
+        type: 'reasoning',
+        timestamp: 1000,
+        data: { id: '1', summary: 'Step 1', confidence: 0.9, timestamp: 1000 },
+      },
+      {
+        id: '2',
+        type: 'answer',
+        timestamp: 2000,
+        data: { text: 'Done', isFinal: true },
+      },
+    ];
+  });
+
+  it('should replay fixture events in order', async () => {
+    const transport = new FixtureTransport(sampleEvents, 0);
+    const ids: string[] = [];
+
+    for await (const event of transport.connect()) {
+      ids.push(event.id);
+    }
+
+    expect(ids).toEqual(['1', '2']);
+    expect(transport.getPosition()).toBe(2);
+    expect(transport.getTotalEvents()).toBe(2);
+  });
+
+  it('should resume after the given event ID', async () => {
+    const transport = new FixtureTransport(sampleEvents, 0);
+    const ids: string[] = [];
+
+    for await (const event of transport.connect({ lastEventId: '1' })) {
+      ids.push(event.id);
+    }
+
+    expect(ids).toEqual(['2']);
+  });
+
+  it('should stop after close', async () => {
+    const transport = new FixtureTransport(sampleEvents, 0);
+    const ids: string[] = [];
+
+    for await (const event of transport.connect()) {
+      ids.push(event.id);
+      transport.close();
+    }
+
+    expect(ids).toEqual(['1']);
+  });
+});
+
+describe('ScriptTransport', () => {
+  const answer = (id: string, text: string): StreamEvent => ({
+    id,
+    type: 'answer',
+    timestamp: 1000,
+    data: { text, isFinal: false },
+  });
+
+  const submission = (value: string): InputSubmissionEvent => ({
+    id: `submit-${value}`,
+    type: 'input_submission',
+    timestamp: 1000,
+    data: { requestId: 'await-1', value, submittedAt: 1000 },
+  });
+
+  const branching: StreamScript = async function* ({ waitFor }) {
+    yield answer('question', 'Approve the plan?');
+    const { data } = await waitFor('input_submission');
+    yield answer('outcome', data.value === 'yes' ? 'Approved' : 'Revising');
+  };
+
+  it('should wait for client events and branch on them', async () => {
+    const transport = new ScriptTransport(branching);
+    const channel = new InboundChannel();
+    transport.attachInbound(channel);
+
+    const source = transport.connect();
+    expect((await source.next()).value?.id).toBe('question');
+
+    const pending = source.next();
+    channel.send(submission('no'));
+
+    expect((await pending).value).toMatchObject({ data: { text: 'Revising' } });
+    expect((await source.next()).done).toBe(true);
+    expect(transport.getPosition()).toBe(2);
+  });
+
+  it('should replay the same branch when resumed', async () => {
+    const transport = new ScriptTransport(branching);
+    const channel = new InboundChannel();
+    transport.attachInbound(channel);
+    channel.send(submission('yes'));
+
+    const ids: string[] = [];
+    for await (const event of transport.connect()) {
+      ids.push(event.id);
+    }
+
+    const resumed: StreamEvent[] = [];
+    for await (const event of transport.connect({ sequenceNumber: 1 })) {
+      resumed.push(event);
+    }
+
+    expect(ids).toEqual(['question', 'outcome']);
+    expect(resumed).toEqual([
+      expect.objectContaining({ data: { text: 'Approved', isFinal: false } }),
+    ]);
+  });
+
+  it('should end the stream when the session closes while the script waits', async () => {
+    const session = new StreamSession({
+      sessionId: 'script-session',
+      transport: new ScriptTransport(branching),
+    });
+    const generator = session.stream();
+
+    await generator.next();
+    const pending = generator.next();
+    session.close();
+
+    expect((await pending).done).toBe(true);
+  });
+
+  it('should run against a session and record outbound events', async () => {
+    const sent: StreamEvent[] = [];
+    const session = new StreamSession({
+      sessionId: 'script-session',
+      transport: new ScriptTransport(branching),
+      onSend: (event) => sent.push(event),
+    });
+
+    const texts: string[] = [];
+    for await (const event of session.stream()) {
+      if (event.type === 'answer') {
+        texts.push(event.data.text);
+      }
+      if (event.id === 'question') {
+        session.send(submission('yes'));
+      }
+    }
+
+    expect(texts).toEqual(['Approve the plan?', 'Approved']);
+    expect(sent).toEqual([
+      expect.objectContaining({
+        type: 'input_submission',
+        metadata: expect.objectContaining({ direction: 'outbound', sequenceNumber: 1 }),
+      }),
+    ]);
+  });
+});
+
+describe('decodeSSEMessage', () => {
+  it('should fill type, id and timestamp from the SSE envelope', () => {
+    const event = decodeSSEMessage({
+      event: 'answer',
+      id: '42',
+      data: '{"data":{"text":"Hi","isFinal":true}}',
+    });
+
+    expect(event).toMatchObject({
+      type: 'answer',
+      id: '42',
+      data: { text: 'Hi', isFinal: true },
+    });
+    expect(typeof event?.timestamp).toBe('number');
+  });
+
+  it('should prefer fields present in the payload', () => {
+    const event = decodeSSEMessage({
+      event: 'ignored',
+      id: '42',
+      data: '{"type":"answer","id":"a-1","timestamp":5,"data":{"text":"x","isFinal":false}}',
+    });
+
+    expect(event).toMatchObject({ type: 'answer', id: 'a-1', timestamp: 5 });
+  });
+
+  it('should skip non-JSON payloads', () => {
+    expect(decodeSSEMessage({ event: 'message', data: '[DONE]' })).toBeNull();
+    expect(decodeSSEMessage({ event: 'message', data: 'not json' })).toBeNull();
+  });
+
+  it('should reject frames that are not valid stream events', () => {
+    expect(() =>
+      decodeSSEMessage({ event: 'answer', id: '9', data: '{"data":{"text":42}}' })
+    ).toThrow('Malformed SSE event (id 9): data: Event data does not match schema');
+    expect(() => decodeSSEMessage({ event: 'message', data: '{"data":{}}' })).toThrow(
+      'type: Event type must be a non-empty string'
+    );
+  });
+});
+
+describe('SSETransport', () => {
+  const body = [
+    ': connected',
+    'retry: 3000',
+    '',
+    'id: 1',
+    'event: reasoning',
+    'data: {"timestamp":1000,"data":{"id":"r1","summary":"Step 1",',
+    'data: "confidence":0.9,"timestamp":1000}}',
+    '',
+    'id: 2',
+    'event: answer',
+    'data: {"timestamp":2000,"data":{"text":"Done","isFinal":true}}',
+    '',
+    'data: [DONE]',
+    '',
+    '',
+  ].join('\n');
+
+  it('should request an event stream and yield decoded events', async () => {
+    const fetchImpl = createFetch(body);
+    const transport = new SSETransport({
+      url: 'http://localhost:8787/events',
+      headers: { 'X-Scenario': 'sprint' },
+      fetch: fetchImpl,
+    });
+
+    const events: StreamEvent[] = [];
+    for await (const event of transport.connect()) {
+      events.push(event);
+    }
+
+    expect(fetchImpl).toHaveBeenCalledWith(
+      'http://localhost:8787/events',
+      expect.objectContaining({
+        headers: { Accept: 'text/event-stream', 'X-Scenario': 'sprint' },
+      })
+    );
+    expect(events.map((e) => [e.id, e.type])).toEqual([
+      ['1', 'reasoning'],
+      ['2', 'answer'],
+    ]);
+    expect(transport.getPosition()).toBe(2);
+    expect(transport.getLastEventId()).toBe('2');
+    expect(transport.getRetryHint()).toBe(3000);
+  });
+
+  it('should send Last-Event-ID when resuming', async () => {
+    const fetchImpl = createFetch(body);
+    const transport = new SSETransport({ url: '/events', fetch: fetchImpl });
+
+    const generator = transport.connect({ lastEventId: '1', sequenceNumber: 1 });
+    await generator.next();
+    await generator.return();
+
+    expect(fetchImpl).toHaveBeenCalledWith(
+      '/events',
+      expect.objectContaining({
+        headers: { Accept: 'text/event-stream', 'Last-Event-ID': '1' },
+      })
+    );
+    expect(transport.getPosition()).toBe(2);
+  });
+
+  it('should reject non-OK responses', async () => {
+    const transport = new SSETransport({
+      url: '/events',
+      fetch: createFetch('', { status: 503 }),
+    });
+
+    await expect(transport.connect().next()).rejects.toThrow('failed with status 503');
+  });
+
+  it('should reject responses that are not event streams', async () => {
+    const transport = new SSETransport({
+      url: '/events',
+      fetch: createFetch('{}', { contentType: 'application/json' }),
+    });
+
+    await expect(transport.connect().next()).rejects.toThrow('invalid content type');
+  });
+
+  it('should fail the stream on a malformed frame', async () => {
+    const transport = new SSETransport({
+      url: '/events',
+      fetch: createFetch('id: 1\nevent: reasoning\ndata: {"data":{"id":"r1"}}\n\n'),
+    });
+
+    await expect(transport.connect().next()).rejects.toThrow('Malformed SSE event (id 1)');
+  });
+
+  it('should drive a StreamSession with sse metadata', async () => {
+    const session = new StreamSession({
+      sessionId: 'sse-session',
+      transport: new SSETransport({ url: '/events', fetch: createFetch(body) }),
+    });
+
+    const events = [];
+    for await (const event of session.stream()) {
+      events.push(event);
+    }
+
+    expect(events).toHaveLength(2);
+    expect(events[0].metadata).toEqual({
+      source: 'sse',
+      sessionId: 'sse-session',
+      sequenceNumber: 1,
+    });
+    expect(session.getState()).toBe('closed');
+    expect(session.getStatistics().eventsConsumed).toBe(2);
+  });
+});
@@ -0,0 +1,603 @@
+/**
+ * Stream Transports - Pluggable event sources for StreamSession
+ *
+ * A transport is responsible for delivering raw stream events to a
+ * StreamSession. The session owns lifecycle, pause/resume, timestamp
+ * invariants and enrichment; the transport only decides where events come from.
+ *
+ * Three implementations are provided:
+ * - FixtureTransport: replays an in-memory fixture with profile-based delays
+ * - ScriptTransport: runs a script that can wait for client messages and branch
+ * - SSETransport: reads a real `text/event-stream` response via fetch
+ *
+ * Because both produce the same StreamEvent shape, the same demo UI can be
+ * pointed at a local stub server that replays recorded event logs without
+ * changing any pattern code.
+ *
+ * @module lib/streaming/transport
+ */
+
+import type { StreamEvent } from '@/types/events';
+import { validateEvent } from './eventSchema';
+import { StreamCursor } from './streamCursor';
+import { InboundChannel, InboundTimeoutError } from './inboundChannel';
+import { resolveTimingModel, type TimingInput, type TimingModel } from './timingModels';
+import { SSEParser, parseSSEStream, type SSEMessage } from './sseParser';
+import { SeekClock, systemClock, type Clock } from '@/lib/utils/clock';
+import { delay } from '@/lib/utils/delay';
+
+/**
+ * Identifies which transport produced an event
+ */
+export type TransportKind = 'mock' | 'sse';
+
+/**
+ * Point in a stream to resume from after a disconnect
+ */
+export interface ResumePoint {
+  /** ID of the last event received (sent as `Last-Event-ID` over SSE) */
+  lastEventId?: string;
+
+  /** Number of events received so far (metadata.sequenceNumber of the last event) */
+  sequenceNumber?: number;
+}
+
+/**
+ * StreamTransport - Source of raw events for a StreamSession
+ *
+ * Implementations must be pull-based: the session only requests the next
+ * event once it is ready (not paused), which is how pause/resume works
+ * without buffering inside the session.
+ */
+export interface StreamTransport {
+  /** Transport kind, recorded as `metadata.source` on enriched events */
+  readonly kind: TransportKind;
+
+  /**
+   * Open the transport and iterate events in delivery order
+   *
+   * May be called again after a dropped connection; the transport then
+   * continues after the given resume point.
+   *
+   * @param resumeFrom - Optional point to resume after
+   * @returns Async generator of raw events
+   */
+  connect(resumeFrom?: ResumePoint): AsyncGenerator<StreamEvent, void, undefined>;
+
+  /**
+   * Close the transport and release any underlying resources
+   * Must be idempotent.
+   */
+  close(): void;
+
+  /**
+   * Number of events delivered so far
+   *
+   * @returns Delivered event count
+   */
+  getPosition(): number;
+
+  /**
+   * Total number of events in this stream
+   *
+   * For live transports the total is not known ahead of time, so this
+   * returns the number of events received so far.
+   *
+   * @returns Total event count
+   */
+  getTotalEvents(): number;
+
+  /**
+   * Server-provided reconnection delay hint (SSE `retry:` field)
+   *
+   * @returns Delay in milliseconds, or undefined if none provided
+   */
+  getRetryHint?(): number | undefined;
+
+  /**
+   * Receive the session's inbound channel
+   * Transports that react to client messages wait on it; others omit this.
+   *
+   * @param channel - Channel carrying events sent with StreamSession.send()
+   */
+  attachInbound?(channel: InboundChannel): void;
+}
+
+// ============================================================================
+// Fixture Transport
+// ============================================================================
+
+/**
+ * FixtureTransport - Replays fixture events using a timing model
+ *
+ * This is the default transport for StreamSession. With a fixed delay it
+ * preserves the original mock behavior: each event is emitted after `delayMs`.
+ *
+ * @example
+ * ```typescript
+ * const transport = new FixtureTransport(fixtureEvents, 50);
+ * const replay = new FixtureTransport(fixtureEvents, createReplayTimestampsTiming());
+ * const session = new StreamSession({ sessionId: 's1', transport });
+ * ```
+ */
+export class FixtureTransport implements StreamTransport {
+  readonly kind: TransportKind = 'mock';
+  private readonly cursor: StreamCursor;
+  private readonly timing: TimingModel;
+  private readonly clock: Clock;
+  private closed: boolean = false;
+
+  /**
+   * Create a fixture transport
+   *
+   * @param events - Fixture events to replay
+   * @param timing - Timing model, profile name or fixed delay in milliseconds
+   * @param clock - Clock the delays are waited on (default: the system clock)
+   */
+  constructor(events: StreamEvent[], timing: TimingInput, clock: Clock = systemClock) {
+    this.cursor = new StreamCursor(events);
+    this.timing = resolveTimingModel(timing);
+    this.clock = clock;
+  }
+
+  /**
+   * Replay fixture events from the current cursor position
+   *
+   * When a resume point is given, the cursor is moved to the event after
+   * `lastEventId` (or to `sequenceNumber` if the ID is not in the fixture).
+   *
+   * @param resumeFrom - Optional point to resume after
+   * @yields Fixture events in order
+   */
+  async *connect(resumeFrom?: ResumePoint): AsyncGenerator<StreamEvent, void, undefined> {
+    if (resumeFrom) {
+      this.seekTo(resumeFrom);
+    }
+
+    while (this.cursor.hasNext() && !this.closed) {
+      const position = this.cursor.getPosition();
+      const delayMs = this.timing.getDelay({
+        index: position,
+        event: this.cursor.peek(),
+        previous: this.cursor.getEventAt(position - 1),
+      });
+
+      await delay(delayMs, this.clock);
+
+      const event = this.cursor.next();
+      if (!event) {
+        break;
+      }
+
+      yield event;
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  /**
+   * Move the cursor to just after a resume point
+   *
+   * @param resumeFrom - Point to resume after
+   * @throws Error if the resume point is outside the fixture
+   */
+  private seekTo(resumeFrom: ResumePoint): void {
+    const index =
+      resumeFrom.lastEventId !== undefined ? this.cursor.indexOf(resumeFrom.lastEventId) : -1;
+
+    if (index !== -1) {
+      this.cursor.seek(index + 1);
+    } else if (resumeFrom.sequenceNumber !== undefined) {
+      this.cursor.seek(resumeFrom.sequenceNumber);
+    }
+  }
+
+  getPosition(): number {
+    return this.cursor.getPosition();
+  }
+
+  getTotalEvents(): number {
+    return this.cursor.getTotalEvents();
+  }
+
+  /**
+   * Get the underlying cursor
+   *
+   * @returns Cursor over the fixture events
+   */
+  getCursor(): StreamCursor {
+    return this.cursor;
+  }
+}
+
+// ============================================================================
+// Script Transport
+// ============================================================================
+
+/**
+ * Capabilities available to a stream script
+ */
+export interface ScriptContext {
+  /** Wait for an event sent by the client (see InboundChannel.waitFor) */
+  waitFor: InboundChannel['waitFor'];
+
+  /**
+   * Clock for the script's own waits; it does not wait while a resumed
+   * transport is regenerating the events it already delivered
+   */
+  clock: Clock;
+}
+
+/**
+ * Create the context a generated stream runs with
+ *
+ * While `isSeeking()` is true the stream is regenerating events delivered
+ * before a reload or reconnect. Its waits are skipped (see SeekClock), and a
+ * `waitFor` with a timeout that has no answer queued times out at once: the
+ * earlier run got no answer in time either, or the answer would have been
+ * restored into the channel.
+ *
+ * @param channel - Inbound channel the stream waits on
+ * @param clock - Clock for waits once seeking has ended
+ * @param isSeeking - Whether the transport is still skipping delivered events
+ * @returns Script context
+ */
+export function createScriptContext(
+  channel: InboundChannel,
+  clock: Clock,
+  isSeeking: () => boolean
+): ScriptContext {
+  const waitFor: InboundChannel['waitFor'] = (type, options = {}) => {
+    if (!isSeeking() || options.timeoutMs === undefined) {
+      return channel.waitFor(type, options);
+    }
+
+    const { timeoutMs } = options;
+    return channel.waitFor(type, { ...options, timeoutMs: 0 }).catch((error: unknown) => {
+      throw error instanceof InboundTimeoutError ? new InboundTimeoutError(type, timeoutMs) : error;
+    });
+  };
+
+  return { waitFor, clock: new SeekClock(clock, isSeeking) };
+}
+
+/**
+ * A stream script: yields events and may wait for client messages in between
+ */
+export type StreamScript = (context: ScriptContext) => AsyncIterable<StreamEvent>;
+
+/**
+ * ScriptTransport - Streams events from a script that reacts to the client
+ *
+ * Fixtures are linear; interactive patterns need to pause until the user
+ * answers and then branch on the answer. A script expresses that directly.
+ * The timing model applies between yielded events, not while waiting.
+ *
+ * Resuming re-runs the script from the start: delivered events are skipped
+ * without delays and the inbound channel is rewound, so the script replays
+ * the same waits with the same client messages and takes the same branches.
+ * After a reload, the session restores those messages (`sentEvents`).
+ *
+ * @example
+ * ```typescript
+ * const session = new StreamSession({
+ *   sessionId: 'await-demo',
+ *   transport: new ScriptTransport(async function* ({ waitFor }) {
+ *     yield awaitInputEvent;
+ *     const submission = await waitFor('input_submission', { timeoutMs: 60000 });
+ *     yield* submission.data.value === 'approve' ? approvedEvents : revisedEvents;
+ *   }, 'fast'),
+ * });
+ *
+ * // Elsewhere, when the user submits the form
+ * session.send(inputSubmissionEvent);
+ * ```
+ */
+export class ScriptTransport implements StreamTransport {
+  readonly kind: TransportKind = 'mock';
+  private readonly script: StreamScript;
+  private readonly timing: TimingModel;
+  private readonly clock: Clock;
+  private channel: InboundChannel;
+  private delivered: number = 0;
+  private closed: boolean = false;
+
+  /**
+   * Create a script transport
+   *
+   * @param script - Script producing the events
+   * @param timing - Timing model, profile name or fixed delay in milliseconds (default: 0)
+   * @param clock - Clock the delays are waited on (default: the system clock)
+   */
+  constructor(script: StreamScript, timing: TimingInput = 0, clock: Clock = systemClock) {
+    this.script = script;
+    this.timing = resolveTimingModel(timing);
+    this.clock = clock;
+    this.channel = new InboundChannel(clock);
+  }
+
+  attachInbound(channel: InboundChannel): void {
+    this.channel = channel;
+  }
+
+  /**
+   * Run the script and yield its events
+   *
+   * @param resumeFrom - Optional point to resume after (by sequence number)
+   * @yields Script events in order
+   */
+  async *connect(resumeFrom?: ResumePoint): AsyncGenerator<StreamEvent, void, undefined> {
+    const skip = resumeFrom?.sequenceNumber ?? 0;
+    let index = 0;
+    let previous: StreamEvent | undefined;
+    const context = createScriptContext(this.channel, this.clock, () => index < skip);
+
+    this.channel.rewind();
+    this.delivered = skip;
+
+    for await (const event of this.script(context)) {
+      if (this.closed) {
+        return;
+      }
+
+      if (index < skip) {
+        index++;
+        previous = event;
+        continue;
+      }
+
+      const delayMs = this.timing.getDelay({ index, event, previous });
+      await delay(delayMs, this.clock);
+
+      if (this.closed) {
+        return;
+      }
+
+      index++;
+      previous = event;
+      this.delivered++;
+      yield event;
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  getPosition(): number {
+    return this.delivered;
+  }
+
+  getTotalEvents(): number {
+    return this.delivered;
+  }
+}
+
+// ============================================================================
+// SSE Transport
+// ============================================================================
+
+/**
+ * Decodes an SSE message into a stream event
+ * Return null to skip the message (e.g. heartbeats or `[DONE]` sentinels).
+ */
+export type SSEEventDecoder = (message: SSEMessage) => StreamEvent | null;
+
+/**
+ * Options for the SSE transport
+ */
+export interface SSETransportOptions {
+  /** URL of the `text/event-stream` endpoint */
+  url: string;
+
+  /** Additional request headers */
+  headers?: Record<string, string>;
+
+  /** Custom message decoder (default: decodeSSEMessage) */
+  decode?: SSEEventDecoder;
+
+  /** Fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Default SSE message decoder
+ *
+ * Parses the `data:` payload as JSON. Fields missing from the payload are
+ * filled from the SSE envelope: `type` from `event:`, `id` from `id:`, and
+ * `timestamp` from the receive time. Payloads that are not JSON objects
+ * (such as a `[DONE]` sentinel) are skipped.
+ *
+ * The decoded event is checked with `validateEvent`, so a frame with an
+ * unknown type or malformed data fails the stream instead of reaching
+ * pattern code as a half-formed event.
+ *
+ * @param message - Parsed SSE message
+ * @returns Stream event, or null if the message carries no event
+ * @throws Error if the payload is not a valid StreamEvent
+ *
+ * @example
+ * ```typescript
+ * decodeSSEMessage({ event: 'answer', id: '7', data: '{"data":{"text":"Hi","isFinal":true}}' });
+ * // → { type: 'answer', id: '7', timestamp: <now>, data: { text: 'Hi', isFinal: true } }
+ * ```
+ */
+export function decodeSSEMessage(message: SSEMessage): StreamEvent | null {
+  let payload: unknown;
+
+  try {
+    payload = JSON.parse(message.data);
+  } catch {
+    return null;
+  }
+
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    return null;
+  }
+
+  const event = { ...(payload as Record<string, unknown>) };
+
+  if (event.type === undefined && message.event !== 'message') {
+    event.type = message.event;
+  }
+
+  if (event.id === undefined && message.id) {
+    event.id = message.id;
+  }
+
+  if (event.timestamp === undefined) {
+    event.timestamp = Date.now();
+  }
+
+  const result = validateEvent(event);
+  if (!result.valid) {
+    const reasons = result.errors.map((e) => `${e.field}: ${e.reason}`).join(', ');
+    const label = message.id ? ` (id ${message.id})` : '';
+    throw new Error(`Malformed SSE event${label}: ${reasons}`);
+  }
+
+  return event as unknown as StreamEvent;
+}
+
+/**
+ * SSETransport - Streams events from a real `text/event-stream` endpoint
+ *
+ * Uses `fetch` and a ReadableStream reader rather than `EventSource` so that
+ * consumption is pull-based (the session's pause/resume applies backpressure
+ * through the body stream) and so custom headers can be sent.
+ *
+ * @example
+ * ```typescript
+ * const transport = new SSETransport({ url: 'http://localhost:8787/replay/sprint-planning' });
+ * const session = new StreamSession({ sessionId: 's1', transport });
+ *
+ * for await (const event of session.stream()) {
+ *   console.log(event.type);
+ * }
+ * ```
+ */
+export class SSETransport implements StreamTransport {
+  readonly kind: TransportKind = 'sse';
+  private readonly options: SSETransportOptions;
+  private readonly parser: SSEParser = new SSEParser();
+  private abortController: AbortController | null = null;
+  private received: number = 0;
+  private closed: boolean = false;
+
+  /**
+   * Create an SSE transport
+   *
+   * @param options - Transport options
+   */
+  constructor(options: SSETransportOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Open the HTTP connection and yield decoded events
+   *
+   * When resuming, the last event ID is sent as the `Last-Event-ID` header
+   * so the server can continue after it.
+   *
+   * @param resumeFrom - Optional point to resume after
+   * @yields Decoded stream events
+   * @throws Error if the response is not a successful event stream
+   */
+  async *connect(resumeFrom?: ResumePoint): AsyncGenerator<StreamEvent, void, undefined> {
+    if (this.closed) {
+      return;
+    }
+
+    const fetchImpl = this.options.fetch ?? globalThis.fetch.bind(globalThis);
+    const decode = this.options.decode ?? decodeSSEMessage;
+
+    this.abortController = new AbortController();
+
+    if (resumeFrom?.sequenceNumber !== undefined) {
+      this.received = resumeFrom.sequenceNumber;
+    }
+
+    try {
+      const response = await fetchImpl(this.options.url, {
+        headers: {
+          Accept: 'text/event-stream',
+          ...this.options.headers,
+          ...(resumeFrom?.lastEventId ? { 'Last-Event-ID': resumeFrom.lastEventId } : {}),
+        },
+        signal: this.abortController.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `SSE request to ${this.options.url} failed with status ${response.status}`
+        );
+      }
+
+      const contentType = response.headers.get('content-type') ?? '';
+      if (!contentType.includes('text/event-stream')) {
+        throw new Error(
+          `SSE response from ${this.options.url} has invalid content type: ${contentType || 'none'}`
+        );
+      }
+
+      if (!response.body) {
+        throw new Error(`SSE response from ${this.options.url} has no body`);
+      }
+
+      for await (const message of parseSSEStream(response.body, this.parser)) {
+        const event = decode(message);
+        if (!event) {
+          continue;
+        }
+
+        this.received++;
+        yield event;
+      }
+    } catch (error) {
+      // Aborts caused by close() end the stream quietly
+      if (this.closed) {
+        return;
+      }
+      throw error;
+    } finally {
+      this.abortController = null;
+    }
+  }
+
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = true;
+    this.abortController?.abort();
+  }
+
+  getPosition(): number {
+    return this.received;
+  }
+
+  getTotalEvents(): number {
+    return this.received;
+  }
+
+  /**
+   * Get the last event ID received from the server
+   *
+   * @returns Last event ID, or undefined if none received
+   */
+  getLastEventId(): string | undefined {
+    return this.parser.getLastEventId();
+  }
+
+  /**
+   * Get the server's most recent `retry:` hint
+   *
+   * @returns Reconnection time in milliseconds, or undefined if none received
+   */
+  getRetryHint(): number | undefined {
+    return this.parser.getRetry();
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Tests for the stream worker protocol
+ *
+ * @module lib/streaming/workerProtocol.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyStatePatch,
+  deserializeLifecycle,
+  diffState,
+  serializeLifecycle,
+  type StatePatch,
+} from './workerProtocol';
+
+describe('diffState', () => {
+  it('should return null when nothing changed', () => {
+    const rows = [{ id: 1 }];
+
+    expect(diffState(rows, rows)).toBeNull();
+    expect(diffState(rows, [...rows])).toBeNull();
+    expect(diffState({ rows }, { rows })).toBeNull();
+  });
+
+  it('should post only appended items of an array', () => {
+    const first = { id: 1 };
+    const second = { id: 2 };
+
+    expect(diffState([first], [first, second])).toEqual({ op: 'append', items: [second] });
+  });
+
+  it('should post only changed and removed keys of an object', () => {
+    const rows = [{ id: 1 }];
+    const patch = diffState({ rows, total: 1, draft: 'x' }, { rows, total: 2 });
+
+    expect(patch).toEqual({ op: 'merge', set: { total: 2 }, unset: ['draft'] });
+  });
+
+  it('should replace other values', () => {
+    expect(diffState('Sprint', 'Sprint 24')).toEqual({ op: 'replace', value: 'Sprint 24' });
+    expect(diffState([1, 2], [2])).toEqual({ op: 'replace', value: [2] });
+  });
+});
+
+describe('applyStatePatch', () => {
+  it('should rebuild the new state and keep untouched references', () => {
+    const rows = [{ id: 1 }];
+    const prev = { rows, total: 1, draft: 'x' };
+    const next = { rows, total: 2 };
+
+    // The receiver holds a structured clone of prev, not prev itself
+    const received = structuredClone(prev);
+    const patch = diffState(prev, next) as StatePatch;
+    const applied = applyStatePatch(received, structuredClone(patch));
+
+    expect(applied).toEqual(next);
+    expect(applied.rows).toBe(received.rows);
+  });
+
+  it('should append items to an array', () => {
+    const patch = diffState([{ id: 1 }], [{ id: 1 }, { id: 2 }]) as StatePatch;
+
+    expect(applyStatePatch([{ id: 1 }], patch)).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+});
+
+describe('lifecycle serialization', () => {
+  it('should round-trip an error lifecycle through structured clone', () => {
+    const error = new Error('Fixture not found');
+    error.name = 'FixtureError';
+
+    const posted = structuredClone(serializeLifecycle({ status: 'error', error }));
+    const state = deserializeLifecycle(posted);
+
+    expect(state.status).toBe('error');
+    if (state.status === 'error') {
+      expect(state.error).toBeInstanceOf(Error);
+      expect(state.error.name).toBe('FixtureError');
+      expect(state.error.message).toBe('Fixture not found');
+    }
+  });
+
+  it('should pass other lifecycles through unchanged', () => {
+    expect(serializeLifecycle({ status: 'paused' })).toEqual({ status: 'paused' });
+    expect(deserializeLifecycle({ status: 'closed' })).toEqual({ status: 'closed' });
+  });
+});
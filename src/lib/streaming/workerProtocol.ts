@@ -0,0 +1,222 @@
+/**
+ * Worker Protocol - Messages between a stream worker and the main thread
+ *
+ * A stream worker consumes a stream and folds its events into state off the
+ * main thread. Everything that crosses the thread boundary is plain data, so
+ * it survives the structured clone algorithm used by `postMessage`:
+ * - The main thread sends requests (start, pause, resume, stop, dispatch)
+ * - The worker answers with batched updates tagged with the run they belong to
+ *
+ * State travels as patches rather than whole snapshots. Appending to a long
+ * row list posts only the new rows, and a changed key of an object posts
+ * only that key; the main thread keeps every other reference unchanged.
+ *
+ * @module lib/streaming/workerProtocol
+ */
+
+import type { StreamEvent } from '@/types/events';
+import { isPlainObject } from '@/lib/utils/structuralSharing';
+import type { DelayProfile } from './timingModels';
+import type { FaultInjectionConfig } from './faultInjection';
+import type { LifecyclePhase } from './lifecycle';
+import type { StreamLifecycle, StreamStoreAction, StreamStoreStartOptions } from './streamStore';
+
+// ============================================================================
+// State Patches
+// ============================================================================
+
+/**
+ * Change from one state to the next
+ *
+ * - `append`: the state is an array and `items` were added to its end
+ * - `merge`: the state is a plain object; `set` holds changed keys, `unset` removed keys
+ * - `replace`: anything else; `value` is the whole new state
+ */
+export type StatePatch =
+  | { op: 'append'; items: unknown[] }
+  | { op: 'merge'; set: Record<string, unknown>; unset: string[] }
+  | { op: 'replace'; value: unknown };
+
+/**
+ * Describe how `next` differs from `prev`
+ *
+ * Values are compared by identity, which is what a reducer that does not
+ * mutate its state preserves. Unchanged children are left out of the patch.
+ *
+ * @param prev - State the receiver already has
+ * @param next - New state
+ * @returns Patch turning `prev` into `next`, or null if nothing changed
+ *
+ * @example
+ * ```typescript
+ * diffState([a, b], [a, b, c]); // { op: 'append', items: [c] }
+ * diffState({ rows, meta }, { rows, meta: newMeta }); // { op: 'merge', set: { meta: newMeta }, unset: [] }
+ * ```
+ */
+export function diffState(prev: unknown, next: unknown): StatePatch | null {
+  if (Object.is(prev, next)) {
+    return null;
+  }
+
+  if (Array.isArray(prev) && Array.isArray(next) && next.length >= prev.length) {
+    const isPrefix = prev.every((item, index) => Object.is(item, next[index]));
+    if (isPrefix) {
+      return next.length > prev.length ? { op: 'append', items: next.slice(prev.length) } : null;
+    }
+  }
+
+  if (isPlainObject(prev) && isPlainObject(next)) {
+    const set: Record<string, unknown> = {};
+    const unset = Object.keys(prev).filter(
+      (key) => !Object.prototype.hasOwnProperty.call(next, key)
+    );
+    let changed = unset.length > 0;
+
+    for (const key of Object.keys(next)) {
+      if (!Object.prototype.hasOwnProperty.call(prev, key) || !Object.is(prev[key], next[key])) {
+        set[key] = next[key];
+        changed = true;
+      }
+    }
+
+    return changed ? { op: 'merge', set, unset } : null;
+  }
+
+  return { op: 'replace', value: next };
+}
+
+/**
+ * Apply a patch produced by `diffState`
+ *
+ * @param state - State the patch was computed against (an equal copy is fine)
+ * @param patch - Patch to apply
+ * @returns New state; parts not named by the patch keep their references
+ */
+export function applyStatePatch<S>(state: S, patch: StatePatch): S {
+  switch (patch.op) {
+    case 'append':
+      return [...(state as unknown as unknown[]), ...patch.items] as unknown as S;
+    case 'merge': {
+      const next: Record<string, unknown> = { ...(state as unknown as Record<string, unknown>) };
+      for (const key of patch.unset) {
+        delete next[key];
+      }
+      return Object.assign(next, patch.set) as unknown as S;
+    }
+    case 'replace':
+      return patch.value as S;
+  }
+}
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+/**
+ * Stream source and playback options that can be cloned into a worker
+ *
+ * Timing models, transports and fault callbacks are functions, so streams
+ * using them are processed on the main thread. Fixtures are resolved to
+ * events on the main thread too: the worker has its own copy of the fixture
+ * repository, without the fixtures registered or loaded by the app.
+ */
+export interface WorkerStreamSource {
+  /** Events to replay */
+  events?: StreamEvent[];
+
+  /** Delay profile for timing control */
+  delayProfile?: DelayProfile;
+
+  /** Seeded faults to inject (without `onFault` or `clock`) */
+  faults?: Omit<FaultInjectionConfig, 'onFault' | 'clock'>;
+}
+
+/**
+ * Lifecycle as posted by the worker (errors are sent as name and message)
+ */
+export type WorkerLifecycle =
+  | Exclude<StreamLifecycle, { status: 'error' }>
+  | { status: 'error'; error: { name: string; message: string } };
+
+/**
+ * Messages sent from the main thread to a stream worker
+ */
+export type WorkerRequest =
+  | {
+      type: 'start';
+      run: number;
+      source: WorkerStreamSource;
+
+      /** Whether consumed events should be posted with each update */
+      captureEvents: boolean;
+
+      /** Interval for batching state changes into one update */
+      batchMs?: number;
+
+      /** Session ID and checkpoint to resume from */
+      options?: StreamStoreStartOptions<unknown>;
+    }
+  | { type: 'pause'; run: number }
+  | { type: 'resume'; run: number }
+  | { type: 'stop'; run: number }
+  | { type: 'dispatch'; run: number; action: StreamStoreAction<StreamEvent> };
+
+/**
+ * Batched state update sent from a stream worker to the main thread
+ */
+export interface WorkerUpdate {
+  type: 'update';
+
+  /** Run the update belongs to; updates for earlier runs are ignored */
+  run: number;
+
+  /** Lifecycle after the batch */
+  state: WorkerLifecycle;
+
+  /** Lifecycle phase after the batch */
+  phase: LifecyclePhase;
+
+  /** Change to the reducer state, or null if only the lifecycle changed */
+  patch: StatePatch | null;
+
+  /** Number of events folded into state since the run started */
+  eventCount: number;
+
+  /** Events consumed in this batch (empty unless requested) */
+  events: StreamEvent[];
+}
+
+/**
+ * Messages sent from a stream worker to the main thread
+ */
+export type WorkerResponse = WorkerUpdate;
+
+/**
+ * Convert a lifecycle into its postable form
+ *
+ * @param state - Lifecycle
+ * @returns Lifecycle with the error reduced to name and message
+ */
+export function serializeLifecycle(state: StreamLifecycle): WorkerLifecycle {
+  if (state.status !== 'error') {
+    return state;
+  }
+
+  return { status: 'error', error: { name: state.error.name, message: state.error.message } };
+}
+
+/**
+ * Convert a posted lifecycle back into a lifecycle with an Error instance
+ *
+ * @param state - Lifecycle received from a worker
+ * @returns Lifecycle
+ */
+export function deserializeLifecycle(state: WorkerLifecycle): StreamLifecycle {
+  if (state.status !== 'error') {
+    return state;
+  }
+
+  const error = new Error(state.error.message);
+  error.name = state.error.name;
+  return { status: 'error', error };
+}
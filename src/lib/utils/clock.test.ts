@@ -0,0 +1,169 @@
+/**
+ * Tests for injectable clocks
+ *
+ * @module lib/utils/clock.test
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SeekClock, VirtualClock, systemClock } from './clock';
+import { delay } from './delay';
+
+describe('systemClock', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should use the global timers at call time', () => {
+    vi.useFakeTimers();
+    const callback = vi.fn();
+
+    systemClock.setTimeout(callback, 100);
+    vi.advanceTimersByTime(100);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('VirtualClock', () => {
+  it('should only move when advanced', async () => {
+    const clock = new VirtualClock(1000);
+    const callback = vi.fn();
+    clock.setTimeout(callback, 50);
+
+    expect(clock.now()).toBe(1000);
+    await clock.advance(49);
+    expect(callback).not.toHaveBeenCalled();
+
+    await clock.advance(1);
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(clock.now()).toBe(1050);
+  });
+
+  it('should fire timers in due order, ties in scheduling order', async () => {
+    const clock = new VirtualClock();
+    const fired: string[] = [];
+    clock.setTimeout(() => fired.push('b'), 20);
+    clock.setTimeout(() => fired.push('a'), 10);
+    clock.setTimeout(() => fired.push('c'), 20);
+
+    await clock.advance(20);
+
+    expect(fired).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should not fire cleared timers', async () => {
+    const clock = new VirtualClock();
+    const callback = vi.fn();
+    const timer = clock.setTimeout(callback, 10);
+
+    clock.clearTimeout(timer);
+    await clock.advance(10);
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(clock.getPendingTimers()).toBe(0);
+  });
+
+  it('should fire timers scheduled by async code after earlier timers resolve', async () => {
+    const clock = new VirtualClock();
+    const times: number[] = [];
+
+    const run = (async () => {
+      for (let step = 0; step < 3; step++) {
+        await delay(100, clock);
+        times.push(clock.now());
+      }
+    })();
+
+    await clock.advance(250);
+    expect(times).toEqual([100, 200]);
+
+    expect(await clock.runAll()).toBe(1);
+    await run;
+    expect(times).toEqual([100, 200, 300]);
+  });
+
+  it('should reject moving backwards', async () => {
+    await expect(new VirtualClock().advance(-1)).rejects.toThrow(
+      'VirtualClock cannot move backwards (advance by -1ms)'
+    );
+  });
+
+  it('should stop runAll when a timer keeps rescheduling itself', async () => {
+    const clock = new VirtualClock();
+    const tick = () => clock.setTimeout(tick, 10);
+    tick();
+
+    await expect(clock.runAll(5)).rejects.toThrow(
+      'VirtualClock fired 5 timers without running out; a timer may be rescheduling itself'
+    );
+  });
+});
+
+describe('SeekClock', () => {
+  /** Let the virtual timeline drain (it only uses promise callbacks) */
+  const drain = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  it('should fire timers in due order without waiting while seeking', async () => {
+    const base = new VirtualClock();
+    const clock = new SeekClock(base, () => true);
+    const fired: string[] = [];
+
+    await Promise.all([
+      delay(300, clock).then(() => fired.push('slow')),
+      delay(100, clock).then(() => fired.push('fast')),
+    ]);
+
+    expect(fired).toEqual(['fast', 'slow']);
+    expect(base.getPendingTimers()).toBe(0);
+  });
+
+  it('should use the base clock once seeking has ended', async () => {
+    const base = new VirtualClock();
+    let seeking = true;
+    const clock = new SeekClock(base, () => seeking);
+
+    await delay(100, clock);
+    seeking = false;
+
+    const callback = vi.fn();
+    clock.setTimeout(callback, 50);
+    expect(base.getPendingTimers()).toBe(1);
+
+    await base.advance(50);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should move timers still pending after seeking to the base clock', async () => {
+    const base = new VirtualClock();
+    let seeking = true;
+    const clock = new SeekClock(base, () => seeking);
+    const late = vi.fn();
+
+    clock.setTimeout(() => {
+      seeking = false;
+    }, 100);
+    clock.setTimeout(late, 250);
+
+    await drain();
+    expect(late).not.toHaveBeenCalled();
+    expect(base.getPendingTimers()).toBe(1);
+
+    await base.advance(150);
+    expect(late).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cancel virtual and base timers', async () => {
+    const base = new VirtualClock();
+    let seeking = true;
+    const clock = new SeekClock(base, () => seeking);
+    const callback = vi.fn();
+
+    clock.clearTimeout(clock.setTimeout(callback, 10));
+    seeking = false;
+    clock.clearTimeout(clock.setTimeout(callback, 10));
+
+    await drain();
+    await base.runAll();
+    expect(callback).not.toHaveBeenCalled();
+  });
+});
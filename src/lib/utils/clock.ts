@@ -0,0 +1,321 @@
+/**
+ * Injectable clocks for time-dependent streaming code
+ *
+ * Mock streams wait between events, time out waiting for input and stamp
+ * events with the current time. Code that takes a `Clock` instead of calling
+ * `setTimeout` and `Date.now()` directly can run against a VirtualClock in
+ * tests: time only moves when the test advances it, so a whole fixture
+ * replays in zero wall time and timestamps can be asserted exactly.
+ *
+ * @module lib/utils/clock
+ */
+
+/**
+ * Handle returned by Clock.setTimeout
+ */
+export type ClockTimer = unknown;
+
+/**
+ * Source of the current time and of timers
+ */
+export interface Clock {
+  /** Current time in milliseconds since the epoch */
+  now(): number;
+
+  /** Call `callback` once after `ms` milliseconds */
+  setTimeout(callback: () => void, ms: number): ClockTimer;
+
+  /** Cancel a timer that has not fired yet */
+  clearTimeout(timer: ClockTimer): void;
+}
+
+/**
+ * Wall clock backed by `Date.now()` and the global timers
+ *
+ * The globals are looked up on every call, so fake timers installed by a
+ * test runner after this module loads still apply.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (timer) => clearTimeout(timer as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Microtask turns allowed for async code to react after each timer fires
+ *
+ * Enough for an event to travel through a transport, a session, a buffer
+ * and a consumer loop and for the consumer to request the next event.
+ */
+const SETTLE_TURNS = 200;
+
+/**
+ * Default cap on timers fired by VirtualClock.runAll
+ */
+const DEFAULT_MAX_TIMERS = 100_000;
+
+/**
+ * A timer scheduled on a VirtualClock
+ */
+interface VirtualTimer {
+  id: number;
+  due: number;
+  callback: () => void;
+}
+
+/**
+ * VirtualClock - A clock whose time only moves when told to
+ *
+ * Timers fire in due-time order (ties in scheduling order) as time is
+ * advanced. After each timer, pending promise callbacks are allowed to run,
+ * so an awaited delay resumes its async function and any timer that
+ * function schedules next is taken into account. Work scheduled with the
+ * global `setTimeout` is not run.
+ *
+ * @example
+ * ```typescript
+ * const clock = new VirtualClock(1699564800000);
+ * const session = new StreamSession({ sessionId: 's1', events, delayProfile: 'normal', clock });
+ *
+ * const received = collectStreamEvents(session.stream());
+ * await clock.runAll(); // no real waiting
+ * expect((await received).map((e) => e.timestamp)).toEqual([...]);
+ * ```
+ */
+export class VirtualClock implements Clock {
+  private time: number;
+  private timers: VirtualTimer[] = [];
+  private nextId: number = 1;
+
+  /**
+   * Create a virtual clock
+   *
+   * @param startTime - Initial time in milliseconds since the epoch (default: 0)
+   */
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): ClockTimer {
+    const timer: VirtualTimer = {
+      id: this.nextId++,
+      due: this.time + Math.max(0, ms || 0),
+      callback,
+    };
+
+    const index = this.timers.findIndex((pending) => pending.due > timer.due);
+    this.timers.splice(index === -1 ? this.timers.length : index, 0, timer);
+
+    return timer.id;
+  }
+
+  clearTimeout(timer: ClockTimer): void {
+    this.timers = this.timers.filter((pending) => pending.id !== timer);
+  }
+
+  /**
+   * Get the number of timers that have not fired yet
+   *
+   * @returns Pending timer count
+   */
+  getPendingTimers(): number {
+    return this.timers.length;
+  }
+
+  /**
+   * Move time forward, firing every timer that falls due on the way
+   *
+   * @param ms - Milliseconds to advance
+   * @throws Error if `ms` is negative
+   */
+  async advance(ms: number): Promise<void> {
+    if (ms < 0) {
+      throw new Error(`VirtualClock cannot move backwards (advance by ${ms}ms)`);
+    }
+
+    const target = this.time + ms;
+
+    await this.settle();
+    while (this.timers.length > 0 && this.timers[0].due <= target) {
+      await this.fireNext();
+    }
+
+    this.time = target;
+  }
+
+  /**
+   * Fire timers until none are left, moving time to each one's due time
+   *
+   * Use this to run a stream to completion. It returns once nothing is
+   * scheduled, e.g. when the stream has ended or is paused.
+   *
+   * @param maxTimers - Safety cap on timers fired (default: 100000)
+   * @returns Number of timers fired
+   * @throws Error if the cap is reached (a timer keeps rescheduling itself)
+   */
+  async runAll(maxTimers: number = DEFAULT_MAX_TIMERS): Promise<number> {
+    let fired = 0;
+
+    await this.settle();
+    while (this.timers.length > 0) {
+      if (fired >= maxTimers) {
+        throw new Error(
+          `VirtualClock fired ${maxTimers} timers without running out; a timer may be rescheduling itself`
+        );
+      }
+
+      await this.fireNext();
+      fired++;
+    }
+
+    return fired;
+  }
+
+  private async fireNext(): Promise<void> {
+    const timer = this.timers.shift() as VirtualTimer;
+    this.time = Math.max(this.time, timer.due);
+    timer.callback();
+    await this.settle();
+  }
+
+  /**
+   * Let pending promise callbacks run
+   */
+  private async settle(): Promise<void> {
+    for (let turn = 0; turn < SETTLE_TURNS; turn++) {
+      await Promise.resolve();
+    }
+  }
+}
+
+/**
+ * A timer scheduled on a SeekClock
+ */
+interface SeekTimer {
+  /** Handle on the base clock, once the timer runs there */
+  base?: ClockTimer;
+}
+
+/**
+ * A SeekClock timer waiting on the virtual timeline
+ */
+interface VirtualSeekTimer {
+  handle: SeekTimer;
+  due: number;
+  callback: () => void;
+}
+
+/**
+ * SeekClock - Skips the waiting of a stream that is seeking to a resume point
+ *
+ * Generated streams (pattern mocks, scripts) have no stored events to seek
+ * through: to resume after N events they run again and their first N events
+ * are dropped. While `isSeeking()` returns true, timers on this clock fire
+ * without waiting, in due-time order on a virtual timeline, so the dropped
+ * events are regenerated in their original order (concurrent sources stay
+ * interleaved). Once seeking ends, timers still pending carry on on the
+ * base clock with the time they had left.
+ *
+ * @example
+ * ```typescript
+ * let index = 0;
+ * const clock = new SeekClock(systemClock, () => index < skip);
+ *
+ * for await (const event of createMockStream({ clock })) {
+ *   if (index++ < skip) continue;
+ *   yield event;
+ * }
+ * ```
+ */
+export class SeekClock implements Clock {
+  private readonly base: Clock;
+  private readonly isSeeking: () => boolean;
+  private readonly timers: VirtualSeekTimer[] = [];
+  private time: number = 0;
+  private draining: boolean = false;
+
+  /**
+   * Create a seek clock
+   *
+   * @param base - Clock used once seeking has ended
+   * @param isSeeking - Whether the stream is still skipping events
+   */
+  constructor(base: Clock, isSeeking: () => boolean) {
+    this.base = base;
+    this.isSeeking = isSeeking;
+  }
+
+  now(): number {
+    return this.base.now();
+  }
+
+  setTimeout(callback: () => void, ms: number): ClockTimer {
+    const handle: SeekTimer = {};
+
+    if (!this.isSeeking()) {
+      handle.base = this.base.setTimeout(callback, ms);
+      return handle;
+    }
+
+    const due = this.time + Math.max(0, ms || 0);
+    const index = this.timers.findIndex((pending) => pending.due > due);
+    this.timers.splice(index === -1 ? this.timers.length : index, 0, { handle, due, callback });
+    void this.drain();
+
+    return handle;
+  }
+
+  clearTimeout(timer: ClockTimer): void {
+    const handle = timer as SeekTimer;
+    const index = this.timers.findIndex((pending) => pending.handle === handle);
+
+    if (index !== -1) {
+      this.timers.splice(index, 1);
+    } else if (handle?.base !== undefined) {
+      this.base.clearTimeout(handle.base);
+    }
+  }
+
+  /**
+   * Fire virtual timers in order until none are left or seeking ends
+   */
+  private async drain(): Promise<void> {
+    if (this.draining) {
+      return;
+    }
+
+    this.draining = true;
+    try {
+      // Let concurrent sources schedule their next timers before picking the earliest
+      await this.settle();
+      while (this.timers.length > 0) {
+        if (!this.isSeeking()) {
+          for (const { handle, due, callback } of this.timers.splice(0)) {
+            handle.base = this.base.setTimeout(callback, due - this.time);
+          }
+          return;
+        }
+
+        const next = this.timers.shift() as VirtualSeekTimer;
+        this.time = Math.max(this.time, next.due);
+        next.callback();
+        await this.settle();
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  /**
+   * Let pending promise callbacks run
+   */
+  private async settle(): Promise<void> {
+    for (let turn = 0; turn < SETTLE_TURNS; turn++) {
+      await Promise.resolve();
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { delay, createDelay } from './delay';
+import { VirtualClock } from './clock';
 
 /**
  * Test suite for delay utility functions
@@ -109,3 +110,19 @@ describe('createDelay', () => {
     expect(callback200).toHaveBeenCalledTimes(1);
   });
 });
+
+describe('delay with an injected clock', () => {
+  it('should wait on the given clock instead of the global timers', async () => {
+    const clock = new VirtualClock();
+    const callback = vi.fn();
+    const waiting = createDelay(300, clock)().then(callback);
+
+    await clock.advance(299);
+    expect(callback).not.toHaveBeenCalled();
+
+    await clock.advance(1);
+    await waiting;
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(clock.now()).toBe(300);
+  });
+});
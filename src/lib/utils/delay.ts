@@ -1,3 +1,5 @@
+import { systemClock, type Clock } from './clock';
+
 /**
  * Utility function to introduce a delay
  *
@@ -5,16 +7,23 @@
  * and for controlling the timing of asynchronous operations in tests.
  *
  * @param ms - Milliseconds to delay
+ * @param clock - Clock to wait on (default: the system clock)
  * @returns Promise that resolves after the specified delay
  *
  * @example
  * ```typescript
  * await delay(1000); // Wait 1 second
  * console.log('1 second has passed');
+ *
+ * const clock = new VirtualClock();
+ * const waiting = delay(1000, clock);
+ * await clock.advance(1000); // resolves without waiting
  * ```
  */
-export function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function delay(ms: number, clock: Clock = systemClock): Promise<void> {
+  return new Promise((resolve) => {
+    clock.setTimeout(resolve, ms);
+  });
 }
 
 /**
@@ -23,6 +32,7 @@ export function delay(ms: number): Promise<void> {
  * Useful for creating reusable delay functions with preset durations.
  *
  * @param ms - Default milliseconds to delay
+ * @param clock - Clock to wait on (default: the system clock)
  * @returns A function that delays by the specified duration
  *
  * @example
@@ -31,6 +41,6 @@ export function delay(ms: number): Promise<void> {
  * await wait100ms(); // Waits 100ms
  * ```
  */
-export function createDelay(ms: number): () => Promise<void> {
-  return () => delay(ms);
+export function createDelay(ms: number, clock: Clock = systemClock): () => Promise<void> {
+  return () => delay(ms, clock);
 }
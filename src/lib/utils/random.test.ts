@@ -0,0 +1,46 @@
+/**
+ * Tests for seeded random helpers
+ *
+ * @module lib/utils/random.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSeededRandom, randomAt } from './random';
+
+describe('createSeededRandom', () => {
+  it('should produce the same sequence for the same seed', () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+
+    const first = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(first);
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    expect(createSeededRandom(1)()).not.toBe(createSeededRandom(2)());
+  });
+
+  it('should return values in [0, 1)', () => {
+    const random = createSeededRandom(7);
+
+    for (let i = 0; i < 1000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('randomAt', () => {
+  it('should not depend on call order', () => {
+    const forward = [0, 1, 2, 3].map((i) => randomAt(9, i));
+    const backward = [3, 2, 1, 0].map((i) => randomAt(9, i)).reverse();
+
+    expect(backward).toEqual(forward);
+  });
+
+  it('should vary by index', () => {
+    const values = new Set([0, 1, 2, 3, 4].map((i) => randomAt(9, i)));
+    expect(values.size).toBe(5);
+  });
+});
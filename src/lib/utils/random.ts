@@ -0,0 +1,65 @@
+/**
+ * Seeded pseudo-random number generation
+ *
+ * Mock streams must be deterministic (same seed → same output) so demos and
+ * tests replay identically. These helpers replace `Math.random()` wherever
+ * randomness is simulated (timing jitter, fault injection).
+ *
+ * @module lib/utils/random
+ */
+
+/**
+ * A function returning pseudo-random numbers in [0, 1)
+ */
+export type RandomSource = () => number;
+
+/**
+ * Default seed used when none is provided
+ * A fixed default keeps streams deterministic unless a caller opts in to variety.
+ */
+export const DEFAULT_SEED = 1;
+
+/**
+ * Create a seeded random number generator (mulberry32)
+ *
+ * @param seed - Integer seed
+ * @returns Function returning successive values in [0, 1)
+ *
+ * @example
+ * ```typescript
+ * const random = createSeededRandom(42);
+ * random(); // Always the same first value for seed 42
+ * ```
+ */
+export function createSeededRandom(seed: number = DEFAULT_SEED): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Get the pseudo-random value for a specific index
+ *
+ * Unlike a generator, the result does not depend on call order, so the same
+ * (seed, index) pair always yields the same value — useful when a stream can
+ * be resumed or replayed from the middle.
+ *
+ * @param seed - Integer seed
+ * @param index - Position in the sequence
+ * @returns Value in [0, 1)
+ *
+ * @example
+ * ```typescript
+ * randomAt(42, 3) === randomAt(42, 3); // true
+ * ```
+ */
+export function randomAt(seed: number, index: number): number {
+  // Mix index into seed with a large odd constant, then take one mulberry32 step
+  return createSeededRandom((seed ^ Math.imul(index + 1, 0x9e3779b1)) >>> 0)();
+}
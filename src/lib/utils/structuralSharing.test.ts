@@ -0,0 +1,53 @@
+/**
+ * Tests for structural sharing
+ *
+ * @module lib/utils/structuralSharing.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { replaceEqualDeep } from './structuralSharing';
+
+describe('replaceEqualDeep', () => {
+  it('should return the previous value when deeply equal', () => {
+    const prev = { tasks: [{ key: 'MOB-1', done: true }], total: 1 };
+    const next = { tasks: [{ key: 'MOB-1', done: true }], total: 1 };
+
+    expect(replaceEqualDeep(prev, next)).toBe(prev);
+  });
+
+  it('should share unchanged children of a changed value', () => {
+    const prev = { done: [{ key: 'MOB-1' }], open: [{ key: 'MOB-2' }] };
+    const next = { done: [{ key: 'MOB-1' }], open: [{ key: 'MOB-2' }, { key: 'MOB-3' }] };
+
+    const result = replaceEqualDeep(prev, next);
+
+    expect(result).toEqual(next);
+    expect(result).not.toBe(prev);
+    expect(result.done).toBe(prev.done);
+    expect(result.open).not.toBe(prev.open);
+    expect(result.open[0]).toBe(prev.open[0]);
+  });
+
+  it('should detect added and removed keys', () => {
+    const prev: Record<string, number> = { a: 1, b: 2 };
+
+    expect(replaceEqualDeep(prev, { a: 1 })).toEqual({ a: 1 });
+    expect(replaceEqualDeep(prev, { a: 1, b: 2, c: 3 })).toEqual({ a: 1, b: 2, c: 3 });
+    expect(replaceEqualDeep([1, 2], [1])).toEqual([1]);
+  });
+
+  it('should only share non-plain objects by reference', () => {
+    const prev = { at: new Date(0), ids: new Set(['a']) };
+    const next = { at: new Date(0), ids: new Set(['a']) };
+
+    const result = replaceEqualDeep(prev, next);
+
+    expect(result.at).toBe(next.at);
+    expect(result.ids).toBe(next.ids);
+  });
+
+  it('should not treat an array and an object with the same keys as equal', () => {
+    expect(replaceEqualDeep({ 0: 'a' }, ['a'])).toEqual(['a']);
+    expect(Array.isArray(replaceEqualDeep(['a'], ['a', 'b']))).toBe(true);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Structural sharing for derived state
+ *
+ * Derived values (filtered lists, grouped records) are rebuilt whenever their
+ * input changes, so a selector returns new objects even when nothing it
+ * selected changed. `replaceEqualDeep` keeps the previous objects wherever
+ * the new value is deeply equal to them, so `===` checks in `React.memo`,
+ * `useMemo` and effect dependencies only see the parts that actually changed.
+ *
+ * @module lib/utils/structuralSharing
+ */
+
+/**
+ * Whether a value is an object literal (not an array, Map, Date or class instance)
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Return `next`, reusing every part of `prev` that is deeply equal to it
+ *
+ * Arrays and plain objects are compared key by key. If nothing differs,
+ * `prev` itself is returned; otherwise a new container is returned whose
+ * unchanged children are the previous references. Other values (Maps, Dates,
+ * class instances, primitives) are only shared when they are `===`.
+ *
+ * @param prev - Previous value
+ * @param next - New value
+ * @returns `prev`, `next`, or a copy of `next` sharing unchanged children with `prev`
+ *
+ * @example
+ * ```typescript
+ * const prev = { done: [task1], open: [task2] };
+ * const next = replaceEqualDeep(prev, { done: [task1], open: [task2, task3] });
+ * next.done === prev.done; // true
+ * next.open === prev.open; // false
+ * ```
+ */
+export function replaceEqualDeep<T>(prev: unknown, next: T): T {
+  if (Object.is(prev, next)) {
+    return prev as T;
+  }
+
+  if (Array.isArray(prev) && Array.isArray(next)) {
+    const copy = next.map((item, index) => replaceEqualDeep(prev[index], item));
+    const unchanged =
+      prev.length === copy.length && copy.every((item, index) => item === prev[index]);
+    return (unchanged ? prev : copy) as T;
+  }
+
+  if (!isPlainObject(prev) || !isPlainObject(next)) {
+    return next;
+  }
+
+  const prevKeys = Object.keys(prev);
+  const copy: Record<string, unknown> = {};
+  let sharedCount = 0;
+
+  for (const key of Object.keys(next)) {
+    copy[key] = replaceEqualDeep(prev[key], next[key]);
+
+    if (Object.prototype.hasOwnProperty.call(prev, key) && copy[key] === prev[key]) {
+      sharedCount++;
+    }
+  }
+
+  const unchanged = sharedCount === prevKeys.length && prevKeys.length === Object.keys(copy).length;
+  return (unchanged ? prev : copy) as T;
+}
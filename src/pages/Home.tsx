@@ -110,11 +110,39 @@ export function Home(): JSX.Element {
         'Schema visualization',
         'Auto-fix suggestions'
       ]
+    },
+    {
+      id: 'tool-use-stream',
+      title: 'Tool-Use Stream',
+      description:
+        'Show an agent\'s tool calls as they stream, from partial arguments to structured results and failures.',
+      status: 'available',
+      route: '/patterns/tool-use-stream',
+      demoScenario: 'Sprint Health Check',
+      techniques: [
+        'Live argument preview',
+        'Parallel call tracking',
+        'Structured result rendering'
+      ]
+    },
+    {
+      id: 'sub-agent-orchestration',
+      title: 'Sub-Agent Orchestration',
+      description:
+        'Stream a planner and the sub-agents it runs in parallel, with nested progress and contained failures.',
+      status: 'available',
+      route: '/patterns/sub-agent-orchestration',
+      demoScenario: 'Sprint Review Preparation',
+      techniques: [
+        'Agent swimlanes',
+        'Nested stream unwrapping',
+        'Failure containment'
+      ]
     }
   ];
 
   const implementedCount = patterns.filter((p) => p.status === 'available').length;
-  const totalCount = 7;
+  const totalCount = 9;
 
   return (
     <div className={styles.home}>
@@ -203,9 +203,66 @@ const patternData: PatternData[] = [
       'Auto-fix suggestions',
       'Type safety enforcement'
     ],
-    streamEvents: ['schema', 'payload', 'schema_error'],
+    streamEvents: ['schema', 'payload', 'payload_delta', 'schema_error'],
     demoScenario: 'Project Setup Validation',
     bestFor: ['Form validation', 'API responses', 'Data quality checks']
+  },
+  {
+    id: 'tool-use-stream',
+    name: 'Tool-Use Stream',
+    route: '/patterns/tool-use-stream',
+    status: 'complete',
+    difficulty: 'advanced',
+    complexity: 'complex',
+    useCases: [
+      'Agents that call tools',
+      'Function calling UIs',
+      'Data lookups before answering',
+      'Surfacing tool failures'
+    ],
+    whenToUse: 'When an agent calls tools mid-stream and users should see what it called and what came back',
+    keyFeatures: [
+      'Live argument preview from partial JSON',
+      'Parallel calls correlated by ID',
+      'Collapsible tool call cards',
+      'Structured result rendering',
+      'Visible errors and retries'
+    ],
+    streamEvents: ['text', 'tool_call_start', 'tool_call_delta', 'tool_result', 'tool_error'],
+    demoScenario: 'Sprint Health Check',
+    bestFor: ['AI agents', 'Function calling', 'Auditable answers']
+  },
+  {
+    id: 'sub-agent-orchestration',
+    name: 'Sub-Agent Orchestration',
+    route: '/patterns/sub-agent-orchestration',
+    status: 'complete',
+    difficulty: 'advanced',
+    complexity: 'complex',
+    useCases: [
+      'Planner and worker agents',
+      'Parallel research tasks',
+      'Multi-step reviews',
+      'Partial results after failures'
+    ],
+    whenToUse: 'When an agent delegates work to sub-agents and users should follow each one as it runs',
+    keyFeatures: [
+      'Parallel sub-agent swimlanes',
+      'Nested agents under their parent',
+      'Spawn and completion lifecycle events',
+      'Failures contained to one sub-agent',
+      'Summary after every sub-agent completes'
+    ],
+    streamEvents: [
+      'agent_spawn',
+      'agent_event',
+      'agent_complete',
+      'text',
+      'tool_call_start',
+      'tool_result'
+    ],
+    demoScenario: 'Sprint Review Preparation',
+    bestFor: ['Multi-agent systems', 'Research agents', 'Long-running workflows']
   }
 ];
 
@@ -297,7 +354,7 @@ export function PatternComparison(): JSX.Element {
       <header className={styles.header}>
         <h1 className={styles.title}>Pattern Comparison Matrix</h1>
         <p className={styles.description}>
-          Compare all 7 streaming patterns to choose the right one for your use case.
+          Compare all 9 streaming patterns to choose the right one for your use case.
           Filter by difficulty or search for specific features.
         </p>
       </header>
@@ -106,7 +106,7 @@ describe('Patterns Page', () => {
       ).toBeInTheDocument();
     });
 
-    it('should render all 4 advanced patterns', () => {
+    it('should render all 6 advanced patterns', () => {
       renderWithRouter(<Patterns />);
 
       // Check for advanced pattern titles
@@ -114,6 +114,8 @@ describe('Patterns Page', () => {
       expect(screen.getByText('Turn-Taking Co-Creation')).toBeInTheDocument();
       expect(screen.getByText('Streaming Validation Loop')).toBeInTheDocument();
       expect(screen.getByText('Schema-Governed Exchange')).toBeInTheDocument();
+      expect(screen.getByText('Tool-Use Stream')).toBeInTheDocument();
+      expect(screen.getByText('Sub-Agent Orchestration')).toBeInTheDocument();
     });
 
     it('should display Multi-Turn Memory Timeline as available', () => {
@@ -310,7 +312,7 @@ describe('Patterns Page', () => {
       renderWithRouter(<Patterns />);
 
       const availableBadges = screen.getAllByLabelText(/available now/i);
-      expect(availableBadges.length).toBe(7); // All 7 patterns are now available
+      expect(availableBadges.length).toBe(9); // All 9 patterns are now available
     });
 
     it('should have aria-label on pattern links', () => {
@@ -325,9 +327,9 @@ describe('Patterns Page', () => {
     it('should have clickable links for all available patterns', () => {
       renderWithRouter(<Patterns />);
 
-      // All 7 patterns should now be available and have links
+      // All 9 patterns should now be available and have links
       const patternLinks = screen.getAllByRole('link', { name: /view.*demo/i });
-      expect(patternLinks.length).toBe(7);
+      expect(patternLinks.length).toBe(9);
     });
 
     it('should use semantic list markup for pattern grids', () => {
@@ -345,12 +347,12 @@ describe('Patterns Page', () => {
   });
 
   describe('Pattern Data Completeness', () => {
-    it('should render exactly 7 patterns total', () => {
+    it('should render exactly 9 patterns total', () => {
       renderWithRouter(<Patterns />);
 
       // Count all pattern titles (h3 headings)
       const patternTitles = screen.getAllByRole('heading', { level: 3 });
-      expect(patternTitles).toHaveLength(7);
+      expect(patternTitles).toHaveLength(9);
     });
 
     it('should have 3 foundational patterns', () => {
@@ -366,7 +368,7 @@ describe('Patterns Page', () => {
       }
     });
 
-    it('should have 4 advanced patterns', () => {
+    it('should have 6 advanced patterns', () => {
       renderWithRouter(<Patterns />);
 
       const advancedSection = screen
@@ -375,7 +377,7 @@ describe('Patterns Page', () => {
 
       if (advancedSection) {
         const advancedCards = within(advancedSection).getAllByRole('listitem');
-        expect(advancedCards).toHaveLength(4);
+        expect(advancedCards).toHaveLength(6);
       }
     });
   });
@@ -140,6 +140,40 @@ const patterns: Pattern[] = [
       'Progressive Zod validation',
       'Error highlighting with suggestions'
     ]
+  },
+  {
+    id: 'tool-use-stream',
+    title: 'Tool-Use Stream',
+    description:
+      'Stream an agent\'s tool calls as they happen: partial arguments parsed live, parallel calls tracked by ID, structured results, and visible tool failures with retries.',
+    status: 'available',
+    route: '/patterns/tool-use-stream',
+    phase: 'Phase 3 - Advanced Patterns',
+    demoScenario: 'Sprint Health Check',
+    difficulty: 'advanced',
+    concepts: ['tool calling', 'partial JSON', 'parallel calls', 'error visibility'],
+    techniques: [
+      'Live argument preview',
+      'Collapsible tool call cards',
+      'Shape-based result rendering'
+    ]
+  },
+  {
+    id: 'sub-agent-orchestration',
+    title: 'Sub-Agent Orchestration',
+    description:
+      'Stream a planner agent and the sub-agents it fans work out to: parallel sub-agent streams on one connection, nested agents shown under their parent, and failures that leave siblings running.',
+    status: 'available',
+    route: '/patterns/sub-agent-orchestration',
+    phase: 'Phase 3 - Advanced Patterns',
+    demoScenario: 'Sprint Review Preparation',
+    difficulty: 'advanced',
+    concepts: ['multi-agent', 'stream multiplexing', 'nested streams', 'failure containment'],
+    techniques: [
+      'Agent swimlanes on a shared time axis',
+      'Envelope unwrapping',
+      'Fan-out and fan-in'
+    ]
   }
 ];
 
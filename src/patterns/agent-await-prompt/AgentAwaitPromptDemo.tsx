@@ -10,6 +10,7 @@
  * - Inline input field integration
  * - Timeout countdown and fallback behavior
  * - Stream state management (idle → streaming → awaiting → resuming)
+ * - Resuming after a reload on the request still waiting for an answer
  *
  * Demo Scenario:
  * StreamFlow PM project setup - AI discovers missing project metadata
@@ -18,69 +19,23 @@
  * @module patterns/agent-await-prompt/AgentAwaitPromptDemo
  */
 
-import { useState, useCallback } from 'react';
+import { useMemo, useState } from 'react';
 import { DemoContainer } from '@/components/layout/DemoContainer';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
+import { ResumeSessionBanner } from '@/components/ui/ResumeSessionBanner';
 import { PatternHelmet } from '@/components/PatternHelmet';
 import { useNetworkCapture } from '@/lib/hooks/useNetworkCapture';
 import { NetworkInspector } from '@/components/NetworkInspector';
 import { ScenarioCard } from '@/components/ui/ScenarioCard';
+import type { Fixture } from '@/lib/streaming/fixtureRepository';
+import { toStreamScript } from '@/lib/streaming/fixtureScript';
+import { ScriptTransport } from '@/lib/streaming/transport';
 import { useAwaitPromptStream } from './hooks';
+import { projectSetupScriptFixture } from './fixtures';
 import { InlineInputFields } from './InlineInputFields';
-import type { StreamEvent as GlobalStreamEvent } from '@/types/events';
-import type { StreamEvent as PatternStreamEvent } from './types';
 import styles from './AgentAwaitPromptDemo.module.css';
 
-/**
- * Map pattern-specific stream events to global event types for Network Inspector.
- *
- * This adapter function bridges between the pattern's internal event structure
- * and the global StreamEvent type used by the Network Inspector.
- */
-function adaptEventForNetworkInspector(
-  event: PatternStreamEvent
-): GlobalStreamEvent | null {
-  const timestamp = Date.now();
-  const id = `event-${timestamp}-${Math.random().toString(36).substr(2, 9)}`;
-
-  switch (event.type) {
-    case 'await_input':
-      // Map to global AwaitInputEvent format
-      return {
-        id,
-        type: 'await_input',
-        timestamp,
-        data: {
-          requestId: id,
-          prompt: event.data.message,
-          inputType: 'text', // Simplified for network inspector
-          validation: {
-            required: event.data.fields.some((f) => f.required),
-          },
-        },
-      };
-
-    case 'input_submission':
-      // Map to global InputSubmissionEvent format
-      return {
-        id,
-        type: 'input_submission',
-        timestamp,
-        data: {
-          requestId: id,
-          value: JSON.stringify(event.data),
-          submittedAt: timestamp,
-        },
-      };
-
-    // For text, resume, and timeout events, we don't have direct global equivalents
-    // so we can skip them in the network inspector or create custom representations
-    default:
-      return null;
-  }
-}
-
 /**
  * Demo scenario type.
  */
@@ -89,6 +44,8 @@ type DemoScenario = {
   name: string;
   prompt: string;
   description: string;
+  /** Branching script fixture to run instead of the mock stream */
+  script?: Fixture;
 };
 
 /**
@@ -119,6 +76,13 @@ const DEMO_SCENARIOS: DemoScenario[] = [
     prompt: 'Create a complete project roadmap',
     description: 'Multiple pause/resume cycles',
   },
+  {
+    id: 'branching-script',
+    name: 'Branching Script',
+    prompt: 'Set up a new project from a branching script',
+    description: 'Agent reply depends on your answer',
+    script: projectSetupScriptFixture,
+  },
 ];
 
 /**
@@ -141,17 +105,11 @@ export default function AgentAwaitPromptDemo(): JSX.Element {
   // Network inspector visibility
   const [showInspector, setShowInspector] = useState(false);
 
-  // Memoize event handler to prevent stream from restarting on every render
-  const handleEvent = useCallback(
-    (event: PatternStreamEvent) => {
-      // Adapt and capture events for network inspector
-      const globalEvent = adaptEventForNetworkInspector(event);
-      if (globalEvent) {
-        captureEvent(globalEvent);
-      }
-    },
-    [captureEvent]
-  );
+  // Script scenarios run their fixture on a ScriptTransport; others use the mock stream
+  const createTransport = useMemo(() => {
+    const { script } = selectedScenario;
+    return script ? () => new ScriptTransport(toStreamScript(script), 'normal') : undefined;
+  }, [selectedScenario]);
 
   // Stream state from custom hook
   const {
@@ -163,9 +121,14 @@ export default function AgentAwaitPromptDemo(): JSX.Element {
     timeoutRemaining,
     error,
     isActive,
+    savedSession,
+    resumeSession,
+    discardSession,
   } = useAwaitPromptStream(selectedScenario.prompt, {
     speed: 'normal',
-    onEvent: handleEvent,
+    onEvent: captureEvent,
+    createTransport,
+    persistKey: 'agent-await-prompt',
   });
 
   /**
@@ -179,6 +142,18 @@ export default function AgentAwaitPromptDemo(): JSX.Element {
     }
   };
 
+  /**
+   * Continue the run saved before a reload, with the scenario it was saved with.
+   */
+  const handleResume = () => {
+    const scenario = DEMO_SCENARIOS.find((s) => s.prompt === savedSession?.fixtureId);
+    if (scenario) {
+      setSelectedScenario(scenario);
+    }
+    clearEvents();
+    resumeSession();
+  };
+
   /**
    * Format stream state for display.
    */
@@ -250,6 +225,19 @@ export default function AgentAwaitPromptDemo(): JSX.Element {
         </div>
       </div>
 
+      {/* Saved run */}
+      {savedSession && !isActive && (
+        <div className={styles.scenario}>
+          <ResumeSessionBanner
+            eventCount={savedSession.position}
+            savedAt={savedSession.savedAt}
+            pending={savedSession.pending}
+            onResume={handleResume}
+            onDiscard={discardSession}
+          />
+        </div>
+      )}
+
       {/* Scenario Context */}
       <div className={styles.scenario}>
         <ScenarioCard
@@ -309,7 +297,7 @@ export default function AgentAwaitPromptDemo(): JSX.Element {
               View all streaming events including pause (<code>await_input</code>)
               and resume (<code>input_submission</code>) events.
             </p>
-            <NetworkInspector events={filteredEvents} />
+            <NetworkInspector events={filteredEvents} pattern="agent-await-prompt" />
           </div>
         )}
       </div>
@@ -0,0 +1,73 @@
+/**
+ * Tests for the Agent-Await-Prompt event adapter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createEventAdapter } from '@/lib/streaming/eventAdapter';
+import { isStreamEvent } from '@/lib/streaming/eventSchema';
+import type { StreamEvent } from '@/types/events';
+import { adaptAwaitPromptEvent, readAwaitPromptEvent } from './eventAdapter';
+import { getAllFixtures } from './fixtures';
+
+describe('adaptAwaitPromptEvent', () => {
+  it.each(Object.entries(getAllFixtures()))(
+    'should produce valid canonical events for %s',
+    (_name, fixture) => {
+      const toStreamEvent = createEventAdapter(adaptAwaitPromptEvent);
+
+      fixture.forEach((event) => {
+        expect(isStreamEvent(toStreamEvent(event))).toBe(true);
+      });
+    }
+  );
+
+  it('should link submissions to the request they answer', () => {
+    const toStreamEvent = createEventAdapter(adaptAwaitPromptEvent, { idPrefix: 'await' });
+
+    const request = toStreamEvent({
+      type: 'await_input',
+      data: {
+        message: 'Project name?',
+        fields: [{ name: 'projectName', type: 'text', label: 'Project Name', required: true }],
+        timeoutMs: 60000,
+      },
+    });
+    const submission: StreamEvent = toStreamEvent({
+      type: 'input_submission',
+      data: { projectName: 'Apollo' },
+    });
+
+    expect(request).toMatchObject({
+      type: 'await_input',
+      data: { requestId: 'await-1', timeoutMs: 60000, validation: { required: true } },
+    });
+    expect(submission).toMatchObject({
+      type: 'input_submission',
+      data: { requestId: 'await-1', fields: { projectName: 'Apollo' } },
+    });
+  });
+});
+
+describe('readAwaitPromptEvent', () => {
+  it.each(Object.entries(getAllFixtures()))(
+    'should read back every event it adapts for %s',
+    (_name, fixture) => {
+      const toStreamEvent = createEventAdapter(adaptAwaitPromptEvent);
+
+      fixture.forEach((event) => {
+        expect(readAwaitPromptEvent(toStreamEvent(event))).toEqual(event);
+      });
+    }
+  );
+
+  it('should ignore events the pattern does not render', () => {
+    expect(
+      readAwaitPromptEvent({
+        id: 'r1',
+        type: 'reasoning',
+        timestamp: 1,
+        data: { id: 'r1', summary: 'Step', confidence: 1, timestamp: 1 },
+      })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Event adapter for the Agent-Await-Prompt pattern.
+ *
+ * Maps the pattern's stream events onto the canonical StreamEvent union.
+ * Each input request gets the generated event ID as its `requestId`, and the
+ * following submission is linked back to it, so the Network Inspector shows
+ * which pause a submission answered. The reader maps canonical events from
+ * any transport back onto the pattern's events.
+ *
+ * @module patterns/agent-await-prompt/eventAdapter
+ */
+
+import type { EventAdapter, EventReader } from '@/lib/streaming/eventAdapter';
+import type { StreamEvent } from './types';
+
+/**
+ * Convert an await-prompt stream event to a canonical stream event.
+ *
+ * @example
+ * ```typescript
+ * const toStreamEvent = createEventAdapter(adaptAwaitPromptEvent, { idPrefix: 'await' });
+ * captureEvent(toStreamEvent(event));
+ * ```
+ */
+export const adaptAwaitPromptEvent: EventAdapter<StreamEvent> = (
+  event,
+  { id, timestamp, lastOf }
+) => {
+  switch (event.type) {
+    case 'text':
+      return { id, timestamp, type: 'text', data: event.data };
+    case 'await_input':
+      return {
+        id,
+        timestamp,
+        type: 'await_input',
+        data: {
+          requestId: id,
+          prompt: event.data.message,
+          inputType: 'text',
+          validation: { required: event.data.fields.some((field) => field.required) },
+          fields: event.data.fields,
+          timeoutMs: event.data.timeoutMs,
+        },
+      };
+    case 'input_submission':
+      return {
+        id,
+        timestamp,
+        type: 'input_submission',
+        data: {
+          requestId: lastOf('await_input')?.data.requestId ?? id,
+          value: JSON.stringify(event.data),
+          submittedAt: timestamp,
+          fields: event.data,
+        },
+      };
+    case 'resume':
+      return { id, timestamp, type: 'resume', data: event.data };
+    case 'timeout':
+      return { id, timestamp, type: 'timeout', data: event.data };
+  }
+};
+
+/**
+ * Read a canonical stream event as an await-prompt stream event.
+ *
+ * @example
+ * ```typescript
+ * for await (const event of readPatternStream(transport, readAwaitPromptEvent)) {
+ *   processEvent(event);
+ * }
+ * ```
+ */
+export const readAwaitPromptEvent: EventReader<StreamEvent> = (event) => {
+  switch (event.type) {
+    case 'text':
+      return { type: 'text', data: event.data };
+    case 'await_input':
+      return {
+        type: 'await_input',
+        data: {
+          message: event.data.prompt,
+          fields: event.data.fields ?? [],
+          timeoutMs: event.data.timeoutMs,
+        },
+      };
+    case 'input_submission':
+      return { type: 'input_submission', data: event.data.fields ?? {} };
+    case 'resume':
+      return { type: 'resume', data: event.data };
+    case 'timeout':
+      return { type: 'timeout', data: event.data };
+    default:
+      return null;
+  }
+};
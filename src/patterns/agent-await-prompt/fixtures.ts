@@ -10,6 +10,8 @@
  * @module patterns/agent-await-prompt/fixtures
  */
 
+import { createFixture, type Fixture } from '@/lib/streaming/fixtureRepository';
+import type { StreamEvent as CanonicalStreamEvent } from '@/types/events';
 import type { StreamEvent, InputField } from './types';
 
 /**
@@ -504,6 +506,128 @@ export const multipleInputsFixture: StreamEvent[] = [
   },
 ];
 
+/**
+ * Recorded time of the branching script's library events (emitted events are
+ * stamped when the script emits them).
+ */
+const SCRIPT_RECORDED_AT = 1699564800000;
+
+/**
+ * Build a canonical text event for the branching script fixture.
+ */
+function scriptText(id: string, text: string, isComplete = false): CanonicalStreamEvent {
+  return { id, type: 'text', timestamp: SCRIPT_RECORDED_AT, data: { text, isComplete } };
+}
+
+/**
+ * Fixture: Project setup as a branching script.
+ *
+ * Demonstrates an agent whose continuation depends on the user's answer.
+ * Unlike the linear fixtures above, the script waits for the client's
+ * `input_submission`, interpolates the submitted values into the agent's
+ * reply, and takes a different path when no budget is given or when the
+ * user does not answer in time.
+ *
+ * Run it with `new ScriptTransport(toStreamScript(projectSetupScriptFixture))`;
+ * `submitInput()` sends the submission the script waits for.
+ *
+ * Flow:
+ * 1. AI starts the setup and pauses for project details
+ * 2. (User submits input) → budget 0: no budget cap; otherwise: budget tracked
+ * 3. (No input within 60s) → AI continues with a draft project
+ * 4. Completes the setup, naming the submitted project
+ */
+export const projectSetupScriptFixture: Fixture = {
+  ...createFixture(
+    'agent-await-prompt-project-setup-script',
+    [
+      scriptText('intro', "I'll help you set up a new project in StreamFlow PM. "),
+      scriptText('check', 'Let me check what information we have... '),
+      {
+        id: 'await-project',
+        type: 'await_input',
+        timestamp: SCRIPT_RECORDED_AT,
+        data: {
+          requestId: 'await-project',
+          prompt:
+            'I need some information to continue setting up your project. Please provide the following details:',
+          inputType: 'text',
+          validation: { required: true },
+          fields: projectSetupFields,
+          timeoutMs: 60000,
+        },
+      },
+      {
+        id: 'resume',
+        type: 'resume',
+        timestamp: SCRIPT_RECORDED_AT,
+        data: {
+          message: 'Great! I have all the information I need.',
+          receivedFields: ['projectName', 'budget', 'deadline', 'teamSize'],
+        },
+      },
+      scriptText(
+        'creating',
+        'Creating **{{project.data.fields.projectName}}** for a team of ' +
+          '{{project.data.fields.teamSize}}:\n\n'
+      ),
+      scriptText('budget', '✓ Budget of ${{project.data.fields.budget}} tracked against spend\n'),
+      scriptText('no-budget', '✓ No budget cap set - cost tracking is informational only\n'),
+      scriptText('workspace', '✓ Team workspace initialized\n'),
+      scriptText('board', '✓ Project board configured\n\n'),
+      scriptText(
+        'ready',
+        'Your project is ready! You can now start adding tasks and inviting team members.',
+        true
+      ),
+      {
+        id: 'timeout',
+        type: 'timeout',
+        timestamp: SCRIPT_RECORDED_AT,
+        data: {
+          message: "I didn't receive the project details, so I'll create a draft project.",
+          expiredFields: ['projectName', 'budget', 'deadline', 'teamSize'],
+        },
+      },
+      scriptText(
+        'draft',
+        '\n\n✓ Draft project created\n\nAdd a name and deadline from the project dashboard.',
+        true
+      ),
+    ],
+    {
+      name: 'Project Setup (Branching Script)',
+      pattern: 'agent-await-prompt',
+      description: 'Project setup whose continuation depends on the submitted details',
+      tags: ['await-input', 'branching', 'script'],
+    }
+  ),
+  script: [
+    { emit: 'intro' },
+    { emit: 'check' },
+    { emit: 'await-project' },
+    {
+      wait: {
+        type: 'input_submission',
+        as: 'project',
+        match: { 'data.requestId': 'await-project' },
+        timeoutMs: 60000,
+        cases: [
+          {
+            when: { 'data.fields.budget': 0 },
+            steps: [{ emit: 'resume' }, { emit: 'creating' }, { emit: 'no-budget' }],
+          },
+        ],
+        otherwise: [{ emit: 'resume' }, { emit: 'creating' }, { emit: 'budget' }],
+        onTimeout: [{ emit: 'timeout' }, { emit: 'draft' }, { end: true }],
+      },
+    },
+    { emit: 'workspace' },
+    { emit: 'board' },
+    { emit: 'ready' },
+  ],
+};
+
 /**
  * Get the appropriate fixture based on a prompt.
  *
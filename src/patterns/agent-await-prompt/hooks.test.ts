@@ -7,6 +7,10 @@
 import { describe, it, expect, afterEach, vi } from 'vitest';
 import { renderHook, waitFor, act } from '@testing-library/react';
 import { useAwaitPromptStream } from './hooks';
+import { projectSetupScriptFixture } from './fixtures';
+import { validateFixture } from '@/lib/streaming/fixtureRepository';
+import { toStreamScript } from '@/lib/streaming/fixtureScript';
+import { ScriptTransport } from '@/lib/streaming/transport';
 
 describe('useAwaitPromptStream', () => {
   afterEach(() => {
@@ -138,6 +142,39 @@ describe('useAwaitPromptStream', () => {
     expect(result.current.error).toBeUndefined();
   });
 
+  it('should send the submission as an outbound event', async () => {
+    const onEvent = vi.fn();
+    const { result } = renderHook(() =>
+      useAwaitPromptStream('Set up a new project', { speed: 'fast', onEvent })
+    );
+
+    await waitFor(
+      () => {
+        expect(result.current.streamState).toBe('awaiting_input');
+      },
+      { timeout: 5000 }
+    );
+
+    const request = onEvent.mock.calls
+      .map((call) => call[0])
+      .find((event) => event.type === 'await_input');
+
+    act(() => {
+      result.current.submitInput({ projectName: 'Test Project', budget: 10000 });
+    });
+
+    expect(onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'input_submission',
+        data: expect.objectContaining({
+          requestId: request.data.requestId,
+          fields: { projectName: 'Test Project', budget: 10000 },
+        }),
+        metadata: expect.objectContaining({ direction: 'outbound' }),
+      })
+    );
+  });
+
   it('should invoke onEvent callback for all events', async () => {
     const onEvent = vi.fn();
 
@@ -240,3 +277,123 @@ describe('useAwaitPromptStream', () => {
     });
   });
 });
+
+describe('useAwaitPromptStream session persistence', () => {
+  const persistKey = 'agent-await-prompt-test';
+  const prompt = 'Build a product roadmap';
+
+  /**
+   * Run the roadmap prompt until it waits for its second request, then "reload"
+   */
+  async function runUntilSecondRequest() {
+    const { result, unmount } = renderHook(() =>
+      useAwaitPromptStream(prompt, { speed: 'fast', persistKey })
+    );
+
+    await waitFor(() => expect(result.current.streamState).toBe('awaiting_input'), {
+      timeout: 5000,
+    });
+    act(() => {
+      result.current.submitInput({ projectName: 'Atlas', budget: 50000 });
+    });
+    await waitFor(
+      () => expect(result.current.inputMessage).toBe('Now, let me know about your team resources:'),
+      { timeout: 5000 }
+    );
+
+    const { text } = result.current;
+    unmount();
+    return text;
+  }
+
+  it('should offer the saved run instead of starting over', async () => {
+    await runUntilSecondRequest();
+
+    const { result } = renderHook(() =>
+      useAwaitPromptStream(prompt, { speed: 'fast', persistKey })
+    );
+
+    expect(result.current.streamState).toBe('idle');
+    expect(result.current.savedSession?.fixtureId).toBe(prompt);
+    expect(result.current.savedSession?.pending).toMatchObject({
+      type: 'await_input',
+      data: { prompt: 'Now, let me know about your team resources:' },
+    });
+  });
+
+  it('should resume on the pending request without asking answered ones again', async () => {
+    const text = await runUntilSecondRequest();
+    const onEvent = vi.fn();
+    const { result } = renderHook(() =>
+      useAwaitPromptStream(prompt, { speed: 'fast', persistKey, onEvent })
+    );
+
+    act(() => {
+      result.current.resumeSession();
+    });
+
+    // The saved events restore the pending request at once
+    expect(result.current.streamState).not.toBe('idle');
+    await waitFor(() => expect(result.current.streamState).toBe('awaiting_input'));
+    expect(result.current.inputMessage).toBe('Now, let me know about your team resources:');
+    expect(result.current.text).toBe(text);
+
+    act(() => {
+      result.current.submitInput({ teamSize: 6 });
+    });
+    await waitFor(() => expect(result.current.streamState).toBe('completed'), { timeout: 5000 });
+
+    const requests = onEvent.mock.calls.filter(([event]) => event.type === 'await_input');
+    expect(requests).toHaveLength(2);
+    expect(result.current.error).toBeUndefined();
+    expect(localStorage.length).toBe(0);
+  });
+
+  it('should start over when the saved run is discarded', async () => {
+    await runUntilSecondRequest();
+    const { result } = renderHook(() =>
+      useAwaitPromptStream(prompt, { speed: 'fast', persistKey })
+    );
+
+    act(() => {
+      result.current.discardSession();
+    });
+
+    await waitFor(() => {
+      expect(result.current.inputMessage).toBe('First, tell me about the project basics:');
+    });
+    expect(result.current.savedSession).toBeNull();
+  });
+});
+
+describe('projectSetupScriptFixture', () => {
+  const createTransport = () => new ScriptTransport(toStreamScript(projectSetupScriptFixture));
+
+  it('should pass fixture validation', () => {
+    expect(validateFixture(projectSetupScriptFixture)).toEqual({ valid: true, errors: [] });
+  });
+
+  it.each([
+    [0, '✓ No budget cap set'],
+    [50000, '✓ Budget of $50000 tracked'],
+  ])('should continue from the submitted details (budget %d)', async (budget, line) => {
+    const { result } = renderHook(() =>
+      useAwaitPromptStream('Set up a new project', { createTransport })
+    );
+
+    await waitFor(() => {
+      expect(result.current.streamState).toBe('awaiting_input');
+    });
+
+    act(() => {
+      result.current.submitInput({ projectName: 'Atlas', budget, teamSize: 4 });
+    });
+
+    await waitFor(() => {
+      expect(result.current.streamState).toBe('completed');
+    });
+
+    expect(result.current.text).toContain('Creating **Atlas** for a team of 4');
+    expect(result.current.text).toContain(line);
+  });
+});
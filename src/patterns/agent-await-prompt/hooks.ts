@@ -7,6 +7,7 @@
  * - Pause detection and input field presentation
  * - Resume triggering via input submission
  * - Timeout countdown and fallback behavior
+ * - Optionally saving the run, so a reload can resume it
  *
  * Educational Note:
  * This hook demonstrates advanced streaming state management:
@@ -23,14 +24,64 @@ import type {
   AwaitPromptStreamConfig,
   AwaitPromptStreamState,
   StreamState,
-  StreamEvent,
   InputField,
 } from './types';
 import { StreamError } from './types';
+import { createMockAwaitPromptStream } from './mockStream';
+import { adaptAwaitPromptEvent, readAwaitPromptEvent } from './eventAdapter';
+import { PatternTransport, readPatternStream } from '@/lib/streaming/eventAdapter';
+import { StreamSession } from '@/lib/streaming/streamSession';
 import {
-  createMockAwaitPromptStream,
-  StreamController,
-} from './mockStream';
+  getResumeConfig,
+  type PersistedSession,
+  type RecordedRun,
+} from '@/lib/streaming/sessionPersistence';
+import type { StreamTransport } from '@/lib/streaming/transport';
+import { useSessionPersistence } from '@/lib/hooks/useSessionPersistence';
+import { useLifecycle } from '@/lib/hooks/useLifecycle';
+import type { LifecyclePhase } from '@/lib/streaming/lifecycle';
+import type { StreamEvent as CanonicalStreamEvent } from '@/types/events';
+
+/**
+ * Options accepted by useAwaitPromptStream.
+ *
+ * Events flow through a StreamSession over a PatternTransport wrapping the
+ * mock generator, or over the transport returned by `createTransport`.
+ * `onEvent` receives the canonical, enriched events. With `persistKey`, the
+ * run is saved so a reload can resume it (see `resumeSession`).
+ */
+export type UseAwaitPromptStreamOptions = Omit<AwaitPromptStreamConfig, 'prompt' | 'onEvent'> & {
+  onEvent?: (event: CanonicalStreamEvent) => void;
+  createTransport?: () => StreamTransport;
+  persistKey?: string;
+};
+
+/**
+ * Map a lifecycle phase to the pattern's stream state.
+ *
+ * The lifecycle has no `resuming` phase: the stream stays awaiting until the
+ * resume event arrives, so the pattern tracks the gap after submission itself.
+ *
+ * @param phase - Current lifecycle phase
+ * @param isResuming - Whether input was submitted but the stream has not resumed
+ * @returns The pattern's stream state
+ */
+function toStreamState(phase: LifecyclePhase, isResuming: boolean): StreamState {
+  switch (phase) {
+    case 'idle':
+    case 'closed':
+      return 'idle';
+    case 'streaming':
+    case 'paused':
+      return 'streaming';
+    case 'awaiting':
+      return isResuming ? 'resuming' : 'awaiting_input';
+    case 'completed':
+      return 'completed';
+    case 'error':
+      return 'error';
+  }
+}
 
 /**
  * React hook for managing Agent-Await-Prompt stream state.
@@ -44,6 +95,7 @@ import {
  * - Resuming when user submits input
  * - Timing out if user doesn't respond
  * - Cleaning up on unmount or prompt change
+ * - Resuming a run saved before a reload, waiting on the same request
  *
  * Educational Note:
  * This pattern is more complex than simple streaming because the stream
@@ -93,13 +145,18 @@ import {
  */
 export function useAwaitPromptStream(
   prompt: string,
-  options?: Omit<AwaitPromptStreamConfig, 'prompt'>
+  options?: UseAwaitPromptStreamOptions
 ): AwaitPromptStreamState {
   // State: Accumulated text content from the stream
   const [text, setText] = useState<string>('');
 
-  // State: Current stream lifecycle state
-  const [streamState, setStreamState] = useState<StreamState>('idle');
+  // State: Current stream lifecycle phase, with guarded transitions
+  const { phase, observe: observeLifecycle, restart, transition } = useLifecycle();
+
+  // State: Input was submitted and the stream has not resumed yet
+  const [isResuming, setIsResuming] = useState<boolean>(false);
+
+  const streamState = toStreamState(phase, isResuming);
 
   // State: Input fields requested by the AI (when awaiting input)
   const [inputFields, setInputFields] = useState<InputField[] | null>(null);
@@ -118,8 +175,11 @@ export function useAwaitPromptStream(
   // Ref: Track if component is mounted to prevent state updates after unmount
   const isMountedRef = useRef<boolean>(true);
 
-  // Ref: Stream controller for managing pause/resume
-  const controllerRef = useRef<StreamController | null>(null);
+  // Ref: Session of the running stream (submissions are sent through it)
+  const sessionRef = useRef<StreamSession | null>(null);
+
+  // Ref: requestId of the await_input the stream is paused on
+  const pendingRequestRef = useRef<string | null>(null);
 
   // Ref: Timeout countdown interval ID
   // eslint-disable-next-line no-undef
@@ -131,24 +191,42 @@ export function useAwaitPromptStream(
   // Ref: Total timeout duration
   const timeoutDurationRef = useRef<number | null>(null);
 
+  // Saved runs: offered on mount, then recorded event by event
+  const {
+    savedSession,
+    begin,
+    observe,
+    finish,
+    discardSession: clearSavedSession,
+  } = useSessionPersistence({ persistKey: options?.persistKey, clock: options?.clock });
+  const savedSessionRef = useRef(savedSession);
+  savedSessionRef.current = savedSession;
+
+  // Ref: Saved run the next stream continues (set by resumeSession)
+  const resumeRef = useRef<PersistedSession<RecordedRun> | null>(null);
+
+  // State: Bumped to (re)start the stream after resuming or discarding a saved run
+  const [runTrigger, setRunTrigger] = useState(0);
+
   /**
    * Submit user input and resume the stream.
    *
    * This function is exposed to components and called when the user
-   * fills out the input fields and submits. It triggers the stream
-   * controller to resolve its waiting promise, allowing the stream
-   * to continue.
+   * fills out the input fields and submits. It sends an input_submission
+   * event through the stream session, which the paused stream is waiting
+   * for, allowing the stream to continue.
    *
    * Educational Note:
    * This is a key piece of the pause/resume pattern. The component
-   * calls this function, which in turn calls the stream controller,
-   * which resolves the promise that the async generator is awaiting.
-   * This chain of control allows external UI actions to control
-   * internal stream flow.
+   * calls this function, which sends the answer back over the session,
+   * just as a real client would POST it to the agent. The session reports
+   * the outbound event to `onEvent`, so the Network Inspector shows both
+   * directions of the exchange.
    */
   const submitInput = useCallback(
     (data: Record<string, string | number | Date>) => {
-      if (controllerRef.current && streamState === 'awaiting_input') {
+      const requestId = pendingRequestRef.current;
+      if (sessionRef.current && requestId && streamState === 'awaiting_input') {
         // Clear timeout countdown
         if (countdownIntervalRef.current) {
           clearInterval(countdownIntervalRef.current);
@@ -159,14 +237,21 @@ export function useAwaitPromptStream(
         setTimeoutRemaining(undefined);
 
         // Transition to resuming state
-        setStreamState('resuming');
+        setIsResuming(true);
 
         // Clear input UI
         setInputFields(null);
         setInputMessage(null);
 
-        // Submit input to stream controller
-        controllerRef.current.submitInput(data);
+        // Send the answer to the stream, linked to the request it answers
+        const submittedAt = Date.now();
+        pendingRequestRef.current = null;
+        sessionRef.current.send({
+          id: `submission-${requestId}`,
+          type: 'input_submission',
+          timestamp: submittedAt,
+          data: { requestId, value: JSON.stringify(data), submittedAt, fields: data },
+        });
       }
     },
     [streamState]
@@ -176,7 +261,9 @@ export function useAwaitPromptStream(
    * Memoize the onEvent callback to prevent unnecessary effect re-runs.
    */
   const handleEvent = useCallback(
-    (event: StreamEvent) => {
+    (event: CanonicalStreamEvent) => {
+      observe(event);
+
       if (options?.onEvent) {
         try {
           options.onEvent(event);
@@ -186,7 +273,7 @@ export function useAwaitPromptStream(
       }
     },
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [options?.onEvent]
+    [options?.onEvent, observe]
   );
 
   /**
@@ -228,6 +315,9 @@ export function useAwaitPromptStream(
     }
   }, [streamState]);
 
+  // Transport factory for real event sources (undefined uses the mock stream)
+  const createTransport = options?.createTransport;
+
   /**
    * Effect: Start the stream when prompt or options change.
    *
@@ -240,57 +330,102 @@ export function useAwaitPromptStream(
       return;
     }
 
+    // A saved run is offered first: wait for resumeSession or discardSession
+    const resumed = resumeRef.current;
+    resumeRef.current = null;
+    if (!resumed && savedSessionRef.current) {
+      return;
+    }
+
+    // A resumed run continues the prompt it was saved with
+    const streamPrompt = resumed?.fixtureId ?? prompt;
+    const history = resumed?.data.events ?? [];
+    const sessionId = begin(streamPrompt, resumed);
+
     // Reset state at the start of a new stream
     setText('');
-    setStreamState('streaming');
+    restart();
+    setIsResuming(false);
     setInputFields(null);
     setInputMessage(null);
     setTimeoutRemaining(undefined);
     setError(undefined);
 
-    // Create a new stream controller for this stream
-    const controller = new StreamController();
-    controllerRef.current = controller;
+    // Closes the session when the stream is cancelled
+    const abortController = new AbortController();
+    pendingRequestRef.current = null;
+
+    // A stream replaced by a newer one must not drive the lifecycle
+    const isCurrent = () => isMountedRef.current && !abortController.signal.aborted;
 
     // Async function to consume the stream
     (async () => {
       try {
-        // Create the mock stream with configuration
-        const stream = createMockAwaitPromptStream(
-          {
-            prompt,
-            speed: options?.speed ?? 'normal',
-            onEvent: handleEvent,
-            defaultTimeoutMs: options?.defaultTimeoutMs,
-            resumeOnTimeout: options?.resumeOnTimeout,
-            simulateError: options?.simulateError,
+        // Read from the supplied transport, or fall back to the mock stream
+        const transport =
+          createTransport?.() ??
+          new PatternTransport(
+            (context) =>
+              createMockAwaitPromptStream(
+                {
+                  prompt: streamPrompt,
+                  speed: options?.speed ?? 'normal',
+                  defaultTimeoutMs: options?.defaultTimeoutMs,
+                  resumeOnTimeout: options?.resumeOnTimeout,
+                  simulateError: options?.simulateError,
+                  clock: context.clock,
+                },
+                context
+              ),
+            adaptAwaitPromptEvent,
+            { idPrefix: 'await', clock: options?.clock }
+          );
+
+        // Own the session so submitInput can send events back on it. A
+        // resumed session restores the answers already sent, so the stream
+        // skips past the requests they answered instead of asking again.
+        const session = new StreamSession({
+          sessionId,
+          transport,
+          onSend: handleEvent,
+          clock: options?.clock,
+          ...getResumeConfig(history),
+        });
+        sessionRef.current = session;
+
+        const stream = readPatternStream(session, readAwaitPromptEvent, {
+          history,
+          onEvent: (event) => {
+            // Remember which request a submission must answer
+            if (event.type === 'await_input') {
+              pendingRequestRef.current = event.data.requestId;
+            }
+            handleEvent(event);
           },
-          controller
-        );
+          signal: abortController.signal,
+        });
 
         // Consume the stream event by event
         for await (const event of stream) {
-          // Only update state if component is still mounted
-          if (!isMountedRef.current) {
+          // Only update state if this is still the component's stream
+          if (!isCurrent()) {
             return;
           }
 
+          // Prompts and their answers move the lifecycle
+          observeLifecycle(event);
+
           // Handle different event types
           switch (event.type) {
             case 'text': {
               // Accumulate text content
               setText((prev) => prev + event.data.text);
-
-              // Update state if this text completes a segment
-              if (event.data.isComplete && streamState !== 'streaming') {
-                setStreamState('streaming');
-              }
               break;
             }
 
             case 'await_input': {
-              // Pause the stream and present input fields
-              setStreamState('awaiting_input');
+              // Present input fields while the stream awaits
+              setIsResuming(false);
               setInputFields(event.data.fields);
               setInputMessage(event.data.message);
 
@@ -303,14 +438,24 @@ export function useAwaitPromptStream(
             }
 
             case 'input_submission': {
-              // Input was submitted - this event is for network inspector visibility
-              // The stream state transition is handled in submitInput callback
+              // Transports that echo the submission (e.g. recorded fixtures)
+              // and resumed runs: the request was answered, so stop asking.
+              // Live submissions are handled in the submitInput callback.
+              if (event.data.requestId === pendingRequestRef.current) {
+                pendingRequestRef.current = null;
+              }
+              timeoutStartRef.current = null;
+              timeoutDurationRef.current = null;
+              setIsResuming(false);
+              setInputFields(null);
+              setInputMessage(null);
+              setTimeoutRemaining(undefined);
               break;
             }
 
             case 'resume': {
               // Stream is resuming after receiving input
-              setStreamState('streaming');
+              setIsResuming(false);
               setInputFields(null);
               setInputMessage(null);
               setTimeoutRemaining(undefined);
@@ -319,7 +464,7 @@ export function useAwaitPromptStream(
 
             case 'timeout': {
               // Timeout occurred - stream is continuing with fallback
-              setStreamState('streaming');
+              setIsResuming(false);
               setInputFields(null);
               setInputMessage(null);
               setTimeoutRemaining(undefined);
@@ -337,19 +482,22 @@ export function useAwaitPromptStream(
           }
         }
 
-        // Stream completed successfully
-        if (isMountedRef.current) {
-          setStreamState('completed');
+        // Stream completed successfully (not just closed by the cleanup)
+        if (isCurrent()) {
+          finish('closed');
+          transition('complete');
         }
       } catch (err) {
         // Stream encountered an error
-        if (isMountedRef.current) {
+        if (isCurrent()) {
+          finish('error');
           const errorMessage =
             err instanceof Error ? err.message : 'Unknown streaming error';
           setError(
             err instanceof StreamError ? err : new Error(errorMessage)
           );
-          setStreamState('error');
+          setIsResuming(false);
+          transition('fail');
 
           // Clear any pending input UI
           setInputFields(null);
@@ -361,8 +509,8 @@ export function useAwaitPromptStream(
 
     // Cleanup function: runs when component unmounts or when prompt changes
     return () => {
-      // Cancel the stream controller
-      controller.cancel();
+      // Close the session, which also ends a pending wait for input
+      abortController.abort();
 
       // Clear timeout countdown
       if (countdownIntervalRef.current) {
@@ -378,9 +526,36 @@ export function useAwaitPromptStream(
     options?.defaultTimeoutMs,
     options?.resumeOnTimeout,
     options?.simulateError,
+    options?.clock,
+    createTransport,
     handleEvent,
+    begin,
+    finish,
+    runTrigger,
+    observeLifecycle,
+    restart,
+    transition,
   ]);
 
+  /**
+   * Continue the run saved before a reload.
+   */
+  const resumeSession = useCallback(() => {
+    if (savedSessionRef.current) {
+      resumeRef.current = savedSessionRef.current;
+      setRunTrigger((prev) => prev + 1);
+    }
+  }, []);
+
+  /**
+   * Drop the saved run and start the prompt from the beginning.
+   */
+  const discardSession = useCallback(() => {
+    clearSavedSession();
+    savedSessionRef.current = null;
+    setRunTrigger((prev) => prev + 1);
+  }, [clearSavedSession]);
+
   /**
    * Effect: Track component mount status.
    *
@@ -410,6 +585,10 @@ export function useAwaitPromptStream(
     timeoutRemaining,
     error,
     isActive,
+    savedSession,
+    resumeSession,
+    discardSession,
+    phase,
   };
 }
 
@@ -444,7 +623,7 @@ export function useAwaitPromptStream(
  */
 export function useAwaitPromptStreamWithReset(
   prompt: string,
-  options?: Omit<AwaitPromptStreamConfig, 'prompt'>
+  options?: UseAwaitPromptStreamOptions
 ): AwaitPromptStreamState & { reset: () => void } {
   // Use a counter to force re-running the stream
   const [resetTrigger, setResetTrigger] = useState(0);
@@ -14,6 +14,11 @@
  * @module patterns/agent-await-prompt/types
  */
 
+import type { TimingModel } from '@/lib/streaming/timingModels';
+import type { Clock } from '@/lib/utils/clock';
+import type { PersistedSession, RecordedRun } from '@/lib/streaming/sessionPersistence';
+import type { LifecyclePhase } from '@/lib/streaming/lifecycle';
+
 /**
  * Supported input field types for user prompts.
  *
@@ -382,6 +387,13 @@ export interface AwaitPromptStreamConfig {
    */
   speed?: 'fast' | 'normal' | 'slow';
 
+  /**
+   * Timing model controlling delays between events.
+   * Overrides `speed` when provided.
+   * @default createProfileTiming(speed)
+   */
+  timing?: TimingModel;
+
   /**
    * Optional callback invoked when each event is emitted.
    * Useful for network capture, logging, and debugging.
@@ -411,6 +423,14 @@ export interface AwaitPromptStreamConfig {
    * @default 'none'
    */
   simulateError?: 'none' | 'timeout' | 'network' | 'validation';
+
+  /**
+   * Clock for delays between events.
+   * Pass a VirtualClock in tests to stream without real waiting.
+   * Input timeouts run on the inbound channel of the session.
+   * @default systemClock
+   */
+  clock?: Clock;
 }
 
 /**
@@ -460,6 +480,28 @@ export interface AwaitPromptStreamState {
    * True if the stream is currently active (streaming, awaiting_input, or resuming).
    */
   isActive: boolean;
+
+  /**
+   * Run saved before a reload (with `persistKey`), until it is resumed or discarded.
+   * While one is offered, the stream does not start on its own.
+   */
+  savedSession: PersistedSession<RecordedRun> | null;
+
+  /**
+   * Continue the saved run. Its events are read back, so an input request
+   * still waiting for an answer is shown again; answered requests are not.
+   */
+  resumeSession: () => void;
+
+  /**
+   * Drop the saved run and start the prompt from the beginning.
+   */
+  discardSession: () => void;
+
+  /**
+   * Lifecycle phase behind streamState (see lib/streaming/lifecycle).
+   */
+  phase: LifecyclePhase;
 }
 
 /**
@@ -19,6 +19,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
+import { render as renderWithProviders } from '../../../tests/test-utils';
 import { ChainOfReasoningDemo } from './ChainOfReasoningDemo';
 
 /**
@@ -726,3 +727,40 @@ describe.skip('ChainOfReasoningDemo', () => {
     }, 35000);
   });
 });
+
+describe('ChainOfReasoningDemo stream source', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should read events from the SSE endpoint when the SSE source is selected', async () => {
+    const user = userEvent.setup();
+    const body = [
+      'id: r1',
+      'event: reasoning',
+      'data: {"data":{"id":"r1","summary":"Replayed step","confidence":0.9,"timestamp":1}}',
+      '',
+      '',
+    ].join('\n');
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(body, { headers: { 'Content-Type': 'text/event-stream' } })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    renderWithProviders(<ChainOfReasoningDemo />);
+
+    await user.click(screen.getByRole('button', { name: 'SSE Server' }));
+
+    expect(screen.getByLabelText('SSE endpoint URL')).toHaveValue(
+      'http://localhost:8787/replay/sprint-planning'
+    );
+    await waitFor(() => {
+      expect(screen.getByText('Replayed step')).toBeInTheDocument();
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://localhost:8787/replay/sprint-planning',
+      expect.objectContaining({ headers: { Accept: 'text/event-stream' } })
+    );
+  });
+});
@@ -11,6 +11,8 @@
  * - UI component (ReasoningBeadline) for displaying reasoning steps
  * - Network Inspector for visualizing stream events
  * - Demo controls for educational exploration
+ * - A stream source switch that reads the same events from a real SSE endpoint
+ * - Resuming a run interrupted by a reload
  *
  * Demo Scenario:
  * StreamFlow PM's AI assistant helping a product manager plan a 2-week sprint.
@@ -19,20 +21,22 @@
  * @module patterns/chain-of-reasoning/ChainOfReasoningDemo
  */
 
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, type FormEvent } from 'react';
 import { DemoContainer } from '@/components/layout/DemoContainer';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
+import { ResumeSessionBanner } from '@/components/ui/ResumeSessionBanner';
 import { ScenarioCard } from '@/components/ui/ScenarioCard';
 import { Spinner } from '@/components/ui/Spinner';
 import { NetworkInspector } from '@/components/NetworkInspector/NetworkInspector';
 import { PatternHelmet } from '@/components/PatternHelmet';
+import { StreamingMarkdown } from '@/components/StreamingMarkdown';
 import { useNetworkCapture } from '@/lib/hooks/useNetworkCapture';
-import type { StreamEvent as GlobalStreamEvent } from '@/types/events';
+import { SSETransport } from '@/lib/streaming/transport';
 import { ReasoningBeadline } from './ReasoningBeadline';
 import { StreamErrorDisplay } from './StreamErrorDisplay';
 import { useReasoningStreamWithReset } from './hooks';
-import type { ReasoningStreamConfig, StreamEvent as PatternStreamEvent } from './types';
+import type { ReasoningStreamConfig } from './types';
 import styles from './ChainOfReasoningDemo.module.css';
 
 /**
@@ -68,6 +72,40 @@ const SPEED_OPTIONS: Array<{
   },
 ];
 
+/**
+ * Where stream events come from.
+ *
+ * - mock: the in-browser mock generator (default)
+ * - sse: a real `text/event-stream` endpoint, such as a local server that
+ *   replays a recorded event log
+ */
+type StreamSource = 'mock' | 'sse';
+
+/**
+ * Default endpoint for the SSE stream source.
+ */
+const DEFAULT_SSE_URL = 'http://localhost:8787/replay/sprint-planning';
+
+/**
+ * Stream source options for switching between the mock and a real server.
+ */
+const STREAM_SOURCE_OPTIONS: Array<{
+  value: StreamSource;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: 'mock',
+    label: 'Mock',
+    description: 'Generate events in the browser',
+  },
+  {
+    value: 'sse',
+    label: 'SSE Server',
+    description: 'Read events from a text/event-stream endpoint',
+  },
+];
+
 /**
  * Error simulation options for testing error handling.
  * These allow users to see how the pattern handles different failure modes.
@@ -133,47 +171,31 @@ export function ChainOfReasoningDemo(): JSX.Element {
   // State: Whether Network Inspector is visible
   const [showInspector, setShowInspector] = useState(false);
 
+  // State: Stream source, plus the SSE URL being edited and the one connected to
+  const [streamSource, setStreamSource] = useState<StreamSource>('mock');
+  const [sseUrlDraft, setSseUrlDraft] = useState(DEFAULT_SSE_URL);
+  const [sseUrl, setSseUrl] = useState(DEFAULT_SSE_URL);
+
   // Network capture for debugging and visualization
   const { events, captureEvent, clearEvents, filter, setFilter } =
     useNetworkCapture();
 
-  /**
-   * Convert pattern-specific events to global StreamEvent format.
-   * The NetworkInspector expects events with id and timestamp at the root level.
-   */
-  const handleEventCapture = useCallback(
-    (event: PatternStreamEvent): void => {
-      let globalEvent: GlobalStreamEvent;
-
-      if (event.type === 'reasoning') {
-        globalEvent = {
-          id: event.data.id,
-          timestamp: event.data.timestamp,
-          type: 'reasoning',
-          data: event.data,
-        };
-      } else {
-        // answer event
-        globalEvent = {
-          id: `answer-${Date.now()}`,
-          timestamp: Date.now(),
-          type: 'answer',
-          data: { text: event.data.text, isFinal: true },
-        };
-      }
-
-      captureEvent(globalEvent);
-    },
-    [captureEvent]
+  // A new transport per stream attempt; undefined keeps the mock generator
+  const createTransport = useMemo(
+    () => (streamSource === 'sse' ? () => new SSETransport({ url: sseUrl }) : undefined),
+    [streamSource, sseUrl]
   );
 
   // Memoize options to prevent unnecessary re-renders and stream aborts
   const streamOptions = useMemo(
     () => ({
       speed,
-      onEvent: handleEventCapture,
+      createTransport,
+      onEvent: captureEvent,
       simulateError: errorSimulation,
-      timeoutMs: 5000, // 5 second timeout for demo purposes
+      tokenChunks: true, // Stream the answer token by token, like a real LLM
+      timeoutMs: 60000, // Allow the answer to finish at 'slow' token rates
+      persistKey: 'chain-of-reasoning', // Offer to resume a run interrupted by a reload
       retryConfig: {
         maxRetries: 3,
         initialDelayMs: 1000,
@@ -184,7 +206,7 @@ export function ChainOfReasoningDemo(): JSX.Element {
         retryOnStream: false,
       },
     }),
-    [speed, handleEventCapture, errorSimulation]
+    [speed, createTransport, captureEvent, errorSimulation]
   );
 
   // Reasoning stream with reset capability and error handling
@@ -196,6 +218,9 @@ export function ChainOfReasoningDemo(): JSX.Element {
     retryCount,
     isRetrying,
     retryDelayMs,
+    savedSession,
+    resumeSession,
+    discardSession,
     reset,
   } = useReasoningStreamWithReset(DEMO_PROMPT, streamOptions);
 
@@ -221,6 +246,30 @@ export function ChainOfReasoningDemo(): JSX.Element {
     []
   );
 
+  /**
+   * Handle stream source change.
+   * Note: This restarts the stream against the new source.
+   */
+  const handleStreamSourceChange = useCallback(
+    (source: StreamSource): void => {
+      clearEvents();
+      setStreamSource(source);
+    },
+    [clearEvents]
+  );
+
+  /**
+   * Connect to the URL entered in the SSE endpoint field.
+   */
+  const handleSseUrlSubmit = useCallback(
+    (event: FormEvent): void => {
+      event.preventDefault();
+      clearEvents();
+      setSseUrl(sseUrlDraft.trim());
+    },
+    [clearEvents, sseUrlDraft]
+  );
+
   /**
    * Handle demo reset.
    * Clears both reasoning state and captured events for a fresh start.
@@ -230,6 +279,14 @@ export function ChainOfReasoningDemo(): JSX.Element {
     reset();
   }, [clearEvents, reset]);
 
+  /**
+   * Continue the run saved before a reload.
+   */
+  const handleResume = useCallback((): void => {
+    clearEvents();
+    resumeSession();
+  }, [clearEvents, resumeSession]);
+
   /**
    * Handle Network Inspector toggle.
    */
@@ -314,6 +371,40 @@ export function ChainOfReasoningDemo(): JSX.Element {
           </div>
         </div>
 
+        <div className={styles.controlGroup}>
+          <label className={styles.controlLabel} htmlFor="stream-source">
+            Stream Source
+          </label>
+          <div className={styles.speedButtons} role="group" aria-labelledby="stream-source">
+            {STREAM_SOURCE_OPTIONS.map((option) => (
+              <Button
+                key={option.value}
+                onClick={() => handleStreamSourceChange(option.value)}
+                variant={streamSource === option.value ? 'primary' : 'secondary'}
+                size="sm"
+                aria-pressed={streamSource === option.value ? 'true' : 'false'}
+                title={option.description}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          {streamSource === 'sse' && (
+            <form className={styles.sourceForm} onSubmit={handleSseUrlSubmit}>
+              <input
+                type="url"
+                className={styles.urlInput}
+                value={sseUrlDraft}
+                onChange={(event) => setSseUrlDraft(event.target.value)}
+                aria-label="SSE endpoint URL"
+              />
+              <Button type="submit" variant="secondary" size="sm">
+                Connect
+              </Button>
+            </form>
+          )}
+        </div>
+
         <div className={styles.controlGroup}>
           <label className={styles.controlLabel} htmlFor="error-simulator">
             Error Simulation
@@ -325,7 +416,7 @@ export function ChainOfReasoningDemo(): JSX.Element {
                 onClick={() => handleErrorSimulationChange(option.value)}
                 variant={errorSimulation === option.value ? 'primary' : 'secondary'}
                 size="sm"
-                disabled={isStreaming}
+                disabled={isStreaming || streamSource === 'sse'}
                 aria-pressed={errorSimulation === option.value ? 'true' : 'false'}
                 title={option.description}
               >
@@ -375,6 +466,18 @@ export function ChainOfReasoningDemo(): JSX.Element {
         </div>
       </section>
 
+      {/* Saved run */}
+      {savedSession && !isStreaming && (
+        <section className={styles.scenarioSection}>
+          <ResumeSessionBanner
+            eventCount={savedSession.position}
+            savedAt={savedSession.savedAt}
+            onResume={handleResume}
+            onDiscard={discardSession}
+          />
+        </section>
+      )}
+
       {/* Scenario Context */}
       <section className={styles.scenarioSection} aria-label="Demo scenario">
         <ScenarioCard
@@ -450,10 +553,10 @@ export function ChainOfReasoningDemo(): JSX.Element {
                 className={styles.answerContent}
               >
                 {/*
-                  Note: For MVP, we'll render the answer as plain text.
-                  In a future iteration, we can add markdown rendering.
+                  The answer arrives a few tokens at a time, so the renderer
+                  must cope with half-finished tables, lists and code fences.
                 */}
-                <pre className={styles.answerText}>{answer}</pre>
+                <StreamingMarkdown text={answer} streaming={isStreaming} />
               </div>
             </Card>
           </section>
@@ -472,6 +575,7 @@ export function ChainOfReasoningDemo(): JSX.Element {
 
           <NetworkInspector
             events={events}
+            pattern="chain-of-reasoning"
             filter={filter}
             onFilterChange={setFilter}
             onClearEvents={clearEvents}
@@ -0,0 +1,64 @@
+/**
+ * Tests for the Chain-of-Reasoning event adapter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createEventAdapter } from '@/lib/streaming/eventAdapter';
+import { isStreamEvent } from '@/lib/streaming/eventSchema';
+import { adaptReasoningEvent, readReasoningEvent } from './eventAdapter';
+import { sprintPlanningFixture } from './fixtures';
+
+describe('adaptReasoningEvent', () => {
+  it('should produce valid canonical events for the whole fixture', () => {
+    const toStreamEvent = createEventAdapter(adaptReasoningEvent);
+
+    sprintPlanningFixture.forEach((event) => {
+      expect(isStreamEvent(toStreamEvent(event))).toBe(true);
+    });
+  });
+
+  it('should keep reasoning step timestamps and mark answers final', () => {
+    const toStreamEvent = createEventAdapter(adaptReasoningEvent, {
+      idPrefix: 'cor',
+      now: () => 7,
+    });
+
+    const reasoning = toStreamEvent({
+      type: 'reasoning',
+      data: { id: 'r1', summary: 'Scope', confidence: 0.9, timestamp: 500 },
+    });
+    const answer = toStreamEvent({ type: 'answer', data: { text: 'Plan' } });
+
+    expect(reasoning).toMatchObject({ id: 'cor-1', type: 'reasoning', timestamp: 500 });
+    expect(answer).toMatchObject({
+      id: 'cor-2',
+      type: 'answer',
+      timestamp: 7,
+      data: { isFinal: true },
+    });
+  });
+});
+
+describe('readReasoningEvent', () => {
+  it('should read back every event it adapts', () => {
+    const toStreamEvent = createEventAdapter(adaptReasoningEvent);
+
+    sprintPlanningFixture.forEach((event) => {
+      expect(readReasoningEvent(toStreamEvent(event))).toEqual(event);
+    });
+  });
+
+  it('should ignore events the pattern does not render', () => {
+    expect(
+      readReasoningEvent({ id: 't1', type: 'text', timestamp: 1, data: { text: 'Hi' } })
+    ).toBeNull();
+  });
+
+  it('should keep the isFinal flag of token-chunked answers', () => {
+    const toStreamEvent = createEventAdapter(adaptReasoningEvent, { idPrefix: 'cor' });
+
+    const chunk = toStreamEvent({ type: 'answer', data: { text: '# Sprint', isFinal: false } });
+
+    expect(chunk.data).toEqual({ text: '# Sprint', isFinal: false });
+  });
+});
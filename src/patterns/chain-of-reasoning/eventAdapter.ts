@@ -0,0 +1,60 @@
+/**
+ * Event adapter for the Chain-of-Reasoning pattern.
+ *
+ * Maps the pattern's lightweight stream events onto the canonical
+ * StreamEvent union so they can be captured by the Network Inspector
+ * or driven through StreamSession via PatternTransport, and reads
+ * canonical events from any transport back into the pattern's shape.
+ *
+ * @module patterns/chain-of-reasoning/eventAdapter
+ */
+
+import type { EventAdapter, EventReader } from '@/lib/streaming/eventAdapter';
+import type { StreamEvent } from './types';
+
+/**
+ * Convert a reasoning stream event to a canonical stream event.
+ *
+ * Reasoning steps keep their own timestamp. An answer delivered in a single
+ * event is final; token-chunked answers carry their own `isFinal` flag.
+ *
+ * @example
+ * ```typescript
+ * const toStreamEvent = createEventAdapter(adaptReasoningEvent, { idPrefix: 'reasoning' });
+ * captureEvent(toStreamEvent(event));
+ * ```
+ */
+export const adaptReasoningEvent: EventAdapter<StreamEvent> = (event, { id, timestamp }) => {
+  switch (event.type) {
+    case 'reasoning':
+      return { id, timestamp: event.data.timestamp, type: 'reasoning', data: event.data };
+    case 'answer':
+      return {
+        id,
+        timestamp,
+        type: 'answer',
+        data: { text: event.data.text, isFinal: event.data.isFinal ?? true },
+      };
+  }
+};
+
+/**
+ * Read a canonical stream event as a reasoning stream event.
+ *
+ * @example
+ * ```typescript
+ * for await (const event of readPatternStream(transport, readReasoningEvent)) {
+ *   processEvent(event);
+ * }
+ * ```
+ */
+export const readReasoningEvent: EventReader<StreamEvent> = (event) => {
+  switch (event.type) {
+    case 'reasoning':
+      return { type: 'reasoning', data: event.data };
+    case 'answer':
+      return { type: 'answer', data: { text: event.data.text } };
+    default:
+      return null;
+  }
+};
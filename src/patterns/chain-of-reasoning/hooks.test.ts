@@ -9,9 +9,12 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { renderHook, waitFor } from '@testing-library/react';
+import { act, renderHook, waitFor } from '@testing-library/react';
 import { useReasoningStream, useReasoningStreamWithReset } from './hooks';
 import type { StreamEvent } from './types';
+import { FixtureTransport } from '@/lib/streaming/transport';
+import { VirtualClock } from '@/lib/utils/clock';
+import type { StreamEvent as CanonicalStreamEvent } from '@/types/events';
 
 // Mock the mockStream module to control stream behavior in tests
 vi.mock('./mockStream', () => ({
@@ -141,7 +144,7 @@ describe('useReasoningStream', () => {
     expect(result.current.answer).toContain('User authentication');
   });
 
-  it('should pass onEvent callback to stream generator', async () => {
+  it('should report canonical session events to onEvent', async () => {
     const mockStream = (async function* () {
       yield {
         type: 'reasoning',
@@ -164,17 +167,18 @@ describe('useReasoningStream', () => {
       useReasoningStream('Test prompt', { onEvent: onEventMock })
     );
 
-    // Wait for stream generator to be called
+    // Wait for the event to reach the callback
     await waitFor(() => {
-      expect(createMockReasoningStream).toHaveBeenCalled();
+      expect(onEventMock).toHaveBeenCalledTimes(1);
     });
 
-    // Verify onEvent was passed to the stream generator
-    expect(createMockReasoningStream).toHaveBeenCalledWith(
-      expect.objectContaining({
-        onEvent: expect.any(Function),
-      })
-    );
+    // The event arrives adapted and enriched by the session
+    expect(onEventMock.mock.calls[0][0]).toMatchObject({
+      id: 'reasoning-1',
+      type: 'reasoning',
+      data: { id: '1', summary: 'Step 1' },
+      metadata: { source: 'mock', sequenceNumber: 1 },
+    });
   });
 
   it('should handle errors gracefully', async () => {
@@ -392,14 +396,129 @@ describe('useReasoningStream', () => {
       useReasoningStream('Test prompt', { onEvent: onEventMock })
     );
 
-    // The callback should be passed to createMockReasoningStream
-    // The actual handling of callback errors is in mockStream.ts, not the hook
+    // The hook reports events itself; the mock generator gets no callback
     expect(createMockReasoningStream).toHaveBeenCalledWith(
-      expect.objectContaining({
-        onEvent: expect.any(Function),
+      expect.not.objectContaining({
+        onEvent: expect.anything(),
       })
     );
   });
+
+  it('should read events from a supplied transport instead of the mock', async () => {
+    const events: CanonicalStreamEvent[] = [
+      {
+        id: 'r1',
+        type: 'reasoning',
+        timestamp: 1000,
+        data: { id: 'r1', summary: 'Check capacity', confidence: 0.9, timestamp: 1000 },
+      },
+      { id: 'a1', type: 'answer', timestamp: 2000, data: { text: 'Plan ready', isFinal: true } },
+    ];
+    const onEvent = vi.fn();
+    const createTransport = (): FixtureTransport => new FixtureTransport(events, 0);
+
+    const { result } = renderHook(() =>
+      useReasoningStream('Test prompt', { createTransport, onEvent })
+    );
+
+    await waitFor(() => {
+      expect(result.current.isStreaming).toBe(false);
+    });
+
+    expect(createMockReasoningStream).not.toHaveBeenCalled();
+    expect(result.current.reasoning.map((step) => step.summary)).toEqual(['Check capacity']);
+    expect(result.current.answer).toBe('Plan ready');
+    expect(onEvent).toHaveBeenCalledTimes(2);
+    expect(onEvent.mock.calls[1][0]).toMatchObject({
+      type: 'answer',
+      metadata: { source: 'mock', sequenceNumber: 2 },
+    });
+  });
+});
+
+describe('useReasoningStream session persistence', () => {
+  const persistKey = 'chain-of-reasoning-test';
+  const events: CanonicalStreamEvent[] = ['Check capacity', 'Rank backlog', 'Fill sprint'].map(
+    (summary, index) => ({
+      id: `r${index + 1}`,
+      type: 'reasoning',
+      timestamp: 1000 * (index + 1),
+      data: { id: `r${index + 1}`, summary, confidence: 0.9, timestamp: 1000 * (index + 1) },
+    })
+  );
+
+  /**
+   * Stream the first two steps, then "reload" the page
+   */
+  async function runPartway(clock: VirtualClock) {
+    const createTransport = (): FixtureTransport => new FixtureTransport(events, 100, clock);
+    const { result, unmount } = renderHook(() =>
+      useReasoningStream('Test prompt', { createTransport, clock, persistKey })
+    );
+
+    await act(() => clock.advance(250));
+    expect(result.current.reasoning).toHaveLength(2);
+    unmount();
+  }
+
+  it('should offer the saved run instead of starting the prompt', async () => {
+    const clock = new VirtualClock(1_000);
+    await runPartway(clock);
+
+    const createTransport = vi.fn(() => new FixtureTransport(events, 100, clock));
+    const { result } = renderHook(() =>
+      useReasoningStream('Test prompt', { createTransport, clock, persistKey })
+    );
+
+    expect(result.current.isStreaming).toBe(false);
+    expect(result.current.savedSession).toMatchObject({ fixtureId: 'Test prompt', position: 2 });
+    expect(createTransport).not.toHaveBeenCalled();
+  });
+
+  it('should restore the saved steps and continue after them', async () => {
+    const clock = new VirtualClock(1_000);
+    await runPartway(clock);
+
+    const onEvent = vi.fn();
+    const createTransport = (): FixtureTransport => new FixtureTransport(events, 100, clock);
+    const { result } = renderHook(() =>
+      useReasoningStream('Test prompt', { createTransport, clock, persistKey, onEvent })
+    );
+
+    act(() => result.current.resumeSession());
+    await act(() => clock.advance(50));
+    expect(result.current.reasoning.map((step) => step.summary)).toEqual([
+      'Check capacity',
+      'Rank backlog',
+    ]);
+
+    await act(() => clock.runAll());
+
+    expect(result.current.isStreaming).toBe(false);
+    expect(result.current.reasoning.map((step) => step.summary)).toEqual([
+      'Check capacity',
+      'Rank backlog',
+      'Fill sprint',
+    ]);
+    expect(onEvent.mock.calls.map(([event]) => event.metadata.sequenceNumber)).toEqual([1, 2, 3]);
+    expect(localStorage.length).toBe(0);
+  });
+
+  it('should start the prompt over when the saved run is discarded', async () => {
+    const clock = new VirtualClock(1_000);
+    await runPartway(clock);
+
+    const createTransport = (): FixtureTransport => new FixtureTransport(events, 100, clock);
+    const { result } = renderHook(() =>
+      useReasoningStream('Test prompt', { createTransport, clock, persistKey })
+    );
+
+    act(() => result.current.discardSession());
+    await act(() => clock.runAll());
+
+    expect(result.current.savedSession).toBeNull();
+    expect(result.current.reasoning).toHaveLength(3);
+  });
 });
 
 describe('useReasoningStreamWithReset', () => {
@@ -20,11 +20,35 @@ import type {
   ReasoningStep,
   ReasoningStreamConfig,
   ReasoningStreamState,
-  StreamEvent,
   RetryConfig,
 } from './types';
 import { StreamError } from './types';
 import { createMockReasoningStream } from './mockStream';
+import { adaptReasoningEvent, readReasoningEvent } from './eventAdapter';
+import { PatternTransport, readPatternStream } from '@/lib/streaming/eventAdapter';
+import type { PersistedSession, RecordedRun } from '@/lib/streaming/sessionPersistence';
+import type { StreamTransport } from '@/lib/streaming/transport';
+import { useSessionPersistence } from '@/lib/hooks/useSessionPersistence';
+import { useLifecycle } from '@/lib/hooks/useLifecycle';
+import type { StreamEvent as CanonicalStreamEvent } from '@/types/events';
+
+/**
+ * Options accepted by useReasoningStream.
+ *
+ * Events always flow through a StreamSession: by default over a
+ * PatternTransport wrapping the mock generator, or over the transport returned
+ * by `createTransport` (for example an SSETransport pointed at a local replay
+ * server). It is called once per stream attempt, so retries reconnect with a
+ * fresh transport. `onEvent` receives the canonical, enriched events. With
+ * `persistKey`, the run is saved so a reload can resume it (see
+ * `resumeSession`).
+ */
+export type UseReasoningStreamOptions = Omit<ReasoningStreamConfig, 'prompt' | 'onEvent'> & {
+  onEvent?: (event: CanonicalStreamEvent) => void;
+  retryConfig?: RetryConfig;
+  createTransport?: () => StreamTransport;
+  persistKey?: string;
+};
 
 /**
  * Default retry configuration.
@@ -120,7 +144,6 @@ function calculateRetryDelay(
  * @param signal - Optional abort signal to cancel the delay
  * @returns Promise that resolves after the delay or rejects if aborted
  */
-// eslint-disable-next-line no-undef
 function delay(ms: number, signal?: AbortSignal): Promise<void> {
   return new Promise((resolve, reject) => {
     // If already aborted, reject immediately
@@ -207,10 +230,20 @@ function delay(ms: number, signal?: AbortSignal): Promise<void> {
  *   );
  * }
  * ```
+ *
+ * @example
+ * ```tsx
+ * // Against a server that streams canonical events over SSE
+ * const createTransport = useCallback(
+ *   () => new SSETransport({ url: 'http://localhost:8787/replay/sprint-planning' }),
+ *   []
+ * );
+ * const { reasoning, answer } = useReasoningStream('Plan a sprint', { createTransport });
+ * ```
  */
 export function useReasoningStream(
   prompt: string,
-  options?: Omit<ReasoningStreamConfig, 'prompt'> & { retryConfig?: RetryConfig }
+  options?: UseReasoningStreamOptions
 ): ReasoningStreamState {
   // State: Array of reasoning steps received so far
   const [reasoning, setReasoning] = useState<ReasoningStep[]>([]);
@@ -218,8 +251,8 @@ export function useReasoningStream(
   // State: The final answer text (empty until answer event arrives)
   const [answer, setAnswer] = useState<string>('');
 
-  // State: Whether the stream is currently active
-  const [isStreaming, setIsStreaming] = useState<boolean>(false);
+  // State: Stream lifecycle (idle → streaming → completed/error), with guarded transitions
+  const { phase, restart, transition } = useLifecycle();
 
   // State: Error object if stream encounters an error
   const [error, setError] = useState<Error | undefined>(undefined);
@@ -242,13 +275,30 @@ export function useReasoningStream(
 
   // Ref: Store the abort controller for stream cancellation
   // Using a ref instead of state because we don't need re-renders when it changes
-  // eslint-disable-next-line no-undef
   const abortControllerRef = useRef<AbortController | null>(null);
 
+  // Saved runs: offered on mount, then recorded event by event
+  const {
+    savedSession,
+    begin,
+    observe,
+    finish,
+    discardSession: clearSavedSession,
+  } = useSessionPersistence({ persistKey: options?.persistKey, clock: options?.clock });
+  const savedSessionRef = useRef(savedSession);
+  savedSessionRef.current = savedSession;
+
+  // Ref: Saved run the next stream continues (set by resumeSession)
+  const resumeRef = useRef<PersistedSession<RecordedRun> | null>(null);
+
+  // State: Bumped to (re)start the stream after resuming or discarding a saved run
+  const [runTrigger, setRunTrigger] = useState(0);
+
   // Memoize the onEvent callback to prevent unnecessary effect re-runs
   // useCallback ensures the function reference stays stable unless dependencies change
   const handleEvent = useCallback(
-    (event: StreamEvent) => {
+    (event: CanonicalStreamEvent) => {
+      observe(event);
       if (options?.onEvent) {
         try {
           options.onEvent(event);
@@ -258,9 +308,12 @@ export function useReasoningStream(
       }
     },
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [options?.onEvent]
+    [options?.onEvent, observe]
   );
 
+  // Transport factory for real event sources (undefined uses the mock stream)
+  const createTransport = options?.createTransport;
+
   // Effect: Start the stream when prompt or options change, with retry logic
   useEffect(() => {
     // Skip if prompt is empty
@@ -268,6 +321,16 @@ export function useReasoningStream(
       return;
     }
 
+    // A saved run is offered first: wait for resumeSession or discardSession
+    let resumed = resumeRef.current;
+    resumeRef.current = null;
+    if (!resumed && savedSessionRef.current) {
+      return;
+    }
+
+    // A resumed run continues the prompt it was saved with
+    const streamPrompt = resumed?.fixtureId ?? prompt;
+
     // Merge retry config with defaults
     // Disable retries in test environment to prevent memory issues
     const retryConfig: Required<RetryConfig> = {
@@ -281,14 +344,13 @@ export function useReasoningStream(
     setReasoning([]);
     setAnswer('');
     setError(undefined);
-    setIsStreaming(true);
+    restart();
     setRetryCount(0);
     setIsRetrying(false);
     setRetryDelayMs(undefined);
 
     // Create a new abort controller for this stream
     // This allows us to cancel the stream on unmount or when prompt changes
-    // eslint-disable-next-line no-undef
     const abortController = new AbortController();
     abortControllerRef.current = abortController;
 
@@ -301,14 +363,34 @@ export function useReasoningStream(
 
       // Retry loop: continue until success or max retries exceeded
       while (currentRetry <= retryConfig.maxRetries) {
+        // Only the first attempt continues a saved run; retries start over
+        const sessionId = begin(streamPrompt, resumed);
+        const history = resumed?.data.events;
+        resumed = null;
+
         try {
-          // Create the mock reasoning stream with configuration
-          const stream = createMockReasoningStream({
-            prompt,
-            speed: options?.speed ?? 'normal',
+          // Read from the supplied transport, or fall back to the mock stream
+          const transport =
+            createTransport?.() ??
+            new PatternTransport(
+              (context) =>
+                createMockReasoningStream({
+                  prompt: streamPrompt,
+                  speed: options?.speed ?? 'normal',
+                  timeoutMs: options?.timeoutMs,
+                  simulateError: options?.simulateError,
+                  tokenChunks: options?.tokenChunks,
+                  clock: context.clock,
+                }),
+              adaptReasoningEvent,
+              { idPrefix: 'reasoning', clock: options?.clock }
+            );
+
+          const stream = readPatternStream(transport, readReasoningEvent, {
+            sessionId,
+            history,
             onEvent: handleEvent,
-            timeoutMs: options?.timeoutMs,
-            simulateError: options?.simulateError,
+            signal: abortController.signal,
           });
 
           // Consume the stream event by event
@@ -344,7 +426,8 @@ export function useReasoningStream(
 
           // Stream completed successfully - exit retry loop
           if (isMountedRef.current && !abortController.signal.aborted) {
-            setIsStreaming(false);
+            finish('closed');
+            transition('complete');
             setIsRetrying(false);
             setRetryDelayMs(undefined);
           }
@@ -357,6 +440,7 @@ export function useReasoningStream(
           if (!canRetry || abortController.signal.aborted || !isMountedRef.current) {
             // Don't retry - set final error state
             if (isMountedRef.current && !abortController.signal.aborted) {
+              finish('error');
               const errorMessage =
                 err instanceof Error ? err.message : 'Unknown streaming error';
               setError(
@@ -364,7 +448,7 @@ export function useReasoningStream(
                   ? err
                   : new Error(errorMessage)
               );
-              setIsStreaming(false);
+              transition('fail');
               setIsRetrying(false);
               setRetryDelayMs(undefined);
             }
@@ -427,7 +511,41 @@ export function useReasoningStream(
       // Cancel the stream by aborting the controller
       abortController.abort();
     };
-  }, [prompt, options?.speed, options?.timeoutMs, options?.simulateError, options?.retryConfig, handleEvent]);
+  }, [
+    prompt,
+    options?.speed,
+    options?.timeoutMs,
+    options?.simulateError,
+    options?.tokenChunks,
+    options?.retryConfig,
+    options?.clock,
+    createTransport,
+    handleEvent,
+    begin,
+    finish,
+    runTrigger,
+    restart,
+    transition,
+  ]);
+
+  /**
+   * Continue the run saved before a reload
+   */
+  const resumeSession = useCallback(() => {
+    if (savedSessionRef.current) {
+      resumeRef.current = savedSessionRef.current;
+      setRunTrigger((prev) => prev + 1);
+    }
+  }, []);
+
+  /**
+   * Drop the saved run and start the prompt from the beginning
+   */
+  const discardSession = useCallback(() => {
+    clearSavedSession();
+    savedSessionRef.current = null;
+    setRunTrigger((prev) => prev + 1);
+  }, [clearSavedSession]);
 
   // Effect: Track component mount status
   // This separate effect ensures isMountedRef is set correctly on unmount
@@ -444,11 +562,15 @@ export function useReasoningStream(
   return {
     reasoning,
     answer,
-    isStreaming,
+    isStreaming: phase === 'streaming',
+    phase,
     error,
     retryCount,
     isRetrying,
     retryDelayMs,
+    savedSession,
+    resumeSession,
+    discardSession,
   };
 }
 
@@ -484,7 +606,7 @@ export function useReasoningStream(
  */
 export function useReasoningStreamWithReset(
   prompt: string,
-  options?: Omit<ReasoningStreamConfig, 'prompt'> & { retryConfig?: RetryConfig }
+  options?: UseReasoningStreamOptions
 ): ReasoningStreamState & { reset: () => void } {
   // Use a counter to force re-running the stream
   // Incrementing this will cause useReasoningStream's effect to re-run
@@ -16,7 +16,9 @@ import {
   createMockReasoningStream,
   createDefaultReasoningStream,
 } from './mockStream';
+import { getFixtureForPrompt } from './fixtures';
 import type { StreamEvent } from './types';
+import { VirtualClock } from '@/lib/utils/clock';
 
 describe('createMockReasoningStream', () => {
   // Mock timers to control delays in tests
@@ -289,6 +291,116 @@ describe('createMockReasoningStream', () => {
     });
   });
 
+  describe('Fault Injection', () => {
+    it('should apply injected faults before invoking onEvent', async () => {
+      const onEvent = vi.fn();
+      const stream = createMockReasoningStream({
+        prompt: 'Plan a sprint',
+        speed: 'fast',
+        onEvent,
+        faults: { drop: { at: 0 }, duplicate: { at: 5 } },
+      });
+
+      const events: StreamEvent[] = [];
+      const streamPromise = (async () => {
+        for await (const event of stream) {
+          events.push(event);
+        }
+      })();
+
+      await vi.runAllTimersAsync();
+      await streamPromise;
+
+      // First reasoning step dropped, final answer duplicated
+      expect(events.map((e) => e.type)).toEqual([
+        'reasoning',
+        'reasoning',
+        'reasoning',
+        'reasoning',
+        'answer',
+        'answer',
+      ]);
+      expect(onEvent).toHaveBeenCalledTimes(6);
+    });
+  });
+
+  describe('Injected Clock', () => {
+    it('should stream the whole fixture in virtual time', async () => {
+      const clock = new VirtualClock();
+      const events: StreamEvent[] = [];
+      const streamPromise = (async () => {
+        for await (const event of createMockReasoningStream({
+          prompt: 'Plan a sprint',
+          speed: 'slow',
+          clock,
+        })) {
+          events.push(event);
+        }
+      })();
+
+      await clock.runAll();
+      await streamPromise;
+
+      // 6 events × 1000ms, without advancing the fake timers
+      expect(events).toHaveLength(6);
+      expect(clock.now()).toBe(6000);
+    });
+
+    it('should measure the timeout on the injected clock', async () => {
+      const clock = new VirtualClock();
+      const streamPromise = (async () => {
+        for await (const _event of createMockReasoningStream({
+          prompt: 'Plan a sprint',
+          timeoutMs: 100,
+          clock,
+        })) {
+          // consume
+        }
+      })();
+      const outcome = expect(streamPromise).rejects.toThrow(
+        'Stream timeout after 300ms (exceeded 100ms limit)'
+      );
+
+      await clock.runAll();
+      await outcome;
+    });
+  });
+
+  describe('Token Chunks', () => {
+    it('should stream the answer in token chunks at a token rate', async () => {
+      const clock = new VirtualClock();
+      const events: StreamEvent[] = [];
+      const streamPromise = (async () => {
+        for await (const event of createMockReasoningStream({
+          prompt: 'Plan a sprint',
+          speed: 'fast',
+          tokenChunks: { seed: 3 },
+          clock,
+        })) {
+          events.push(event);
+        }
+      })();
+
+      await clock.runAll();
+      await streamPromise;
+
+      const answers = events.filter((event) => event.type === 'answer');
+      const [fullAnswer] = getFixtureForPrompt('Plan a sprint').filter(
+        (event) => event.type === 'answer'
+      );
+
+      expect(events.slice(0, 5).every((event) => event.type === 'reasoning')).toBe(true);
+      expect(answers.length).toBeGreaterThan(100);
+      expect(answers.map((event) => event.data.text).join('')).toBe(fullAnswer.data.text);
+      expect(answers.map((event) => event.type === 'answer' && event.data.isFinal)).toEqual([
+        ...Array(answers.length - 1).fill(false),
+        true,
+      ]);
+      // Tokens at 200/s are quicker than one 50ms 'fast' delay per chunk
+      expect(clock.now()).toBeLessThan(events.length * 50);
+    });
+  });
+
   describe('Prompt Matching', () => {
     it('should select sprint fixture for "sprint" prompt', async () => {
       const stream = createMockReasoningStream({
@@ -16,21 +16,26 @@
 import type { StreamEvent, ReasoningStreamConfig } from './types';
 import { StreamError } from './types';
 import { getFixtureForPrompt } from './fixtures';
+import {
+  createPerEventTypeTiming,
+  createProfileTiming,
+  createTokenRateTiming,
+  type TimingModel,
+} from '@/lib/streaming/timingModels';
+import { injectFaults, type FaultInjectionConfig } from '@/lib/streaming/faultInjection';
+import { chunkAnswerEvents, type TokenChunkOptions } from '@/lib/streaming/tokenChunking';
+import { systemClock, type Clock } from '@/lib/utils/clock';
+import { delay } from '@/lib/utils/delay';
 
 /**
- * Delay configuration for different stream speeds.
- *
- * These delays simulate network latency and give users time to observe
- * the streaming behavior in educational demos.
+ * Answer generation speed (tokens per second) for each demo speed,
+ * used when the answer is streamed in token chunks.
  */
-const SPEED_DELAYS = {
-  /** Fast mode for quick demos and testing (50ms between events) */
-  fast: 50,
-  /** Normal mode for realistic streaming timing (300ms between events) */
-  normal: 300,
-  /** Slow mode for detailed observation and screenshots (1000ms between events) */
-  slow: 1000,
-} as const;
+const ANSWER_TOKENS_PER_SECOND: Record<NonNullable<ReasoningStreamConfig['speed']>, number> = {
+  fast: 200,
+  normal: 40,
+  slow: 15,
+};
 
 /**
  * Creates an async generator that streams mock reasoning events.
@@ -108,106 +113,156 @@ export async function* createMockReasoningStream(
     onEvent,
     timeoutMs = 10000,
     simulateError = 'none',
+    tokenChunks = false,
+    timing = tokenChunks
+      ? createPerEventTypeTiming(
+          { answer: createTokenRateTiming({ tokensPerSecond: ANSWER_TOKENS_PER_SECOND[speed] }) },
+          speed
+        )
+      : createProfileTiming(speed),
+    faults,
+    clock = systemClock,
   } = config;
 
   // Get the appropriate fixture data for this prompt
-  const fixture = getFixtureForPrompt(prompt);
+  const fixture = tokenChunks
+    ? chunkAnswer(getFixtureForPrompt(prompt), tokenChunks === true ? {} : tokenChunks)
+    : getFixtureForPrompt(prompt);
 
-  // Get the delay duration based on speed setting
-  const delayMs = SPEED_DELAYS[speed];
+  // Error simulation is expressed as injected faults on top of any custom ones
+  const stream = injectFaults(streamFixture(fixture, timing, timeoutMs, clock), {
+    clock,
+    ...faults,
+    ...getSimulatedErrorFaults(simulateError, fixture.length, timeoutMs, timing),
+  });
 
-  // Track if stream was cancelled for cleanup
-  let cancelled = false;
+  for await (const event of stream) {
+    // Invoke the event callback if provided (for network capture, logging)
+    if (onEvent) {
+      try {
+        onEvent(event);
+      } catch (error) {
+        // Don't let callback errors break the stream
+        console.error('Error in stream event callback:', error);
+      }
+    }
 
+    // Yield the event to the consumer
+    yield event;
+  }
+}
+
+/**
+ * Streams fixture events with timing delays and timeout detection.
+ *
+ * Cancellation needs no bookkeeping here: when the consumer calls return(),
+ * the generator simply stops at its current yield.
+ *
+ * @param fixture - Events to stream
+ * @param timing - Timing model for delays between events
+ * @param timeoutMs - Maximum total stream duration
+ * @param clock - Clock for delays and the timeout check
+ * @returns AsyncGenerator that yields fixture events
+ */
+async function* streamFixture(
+  fixture: StreamEvent[],
+  timing: TimingModel,
+  timeoutMs: number,
+  clock: Clock
+): AsyncGenerator<StreamEvent, void, undefined> {
   // Track stream start time for timeout detection
-  const startTime = Date.now();
+  const startTime = clock.now();
 
-  try {
-    // Simulate timeout error if configured
-    if (simulateError === 'timeout') {
-      await delay(delayMs);
+  for (const [eventIndex, event] of fixture.entries()) {
+    // Check for timeout
+    const elapsed = clock.now() - startTime;
+    if (elapsed > timeoutMs) {
       throw new StreamError(
-        `Stream timeout after ${timeoutMs}ms (simulated)`,
+        `Stream timeout after ${elapsed}ms (exceeded ${timeoutMs}ms limit)`,
         'timeout'
       );
     }
 
-    // Simulate network error if configured
-    if (simulateError === 'network') {
-      await delay(delayMs);
-      throw new StreamError(
-        'Network connection failed (simulated)',
-        'network'
-      );
-    }
+    // Simulate network latency using the configured timing model
+    await delay(
+      timing.getDelay({
+        index: eventIndex,
+        event,
+        previous: fixture[eventIndex - 1],
+      }),
+      clock
+    );
 
-    // Stream each event from the fixture with delays
-    let eventIndex = 0;
-    const midpoint = Math.floor(fixture.length / 2);
-
-    for (const event of fixture) {
-      // Check for cancellation before each event
-      if (cancelled) {
-        break;
-      }
-
-      // Check for timeout
-      const elapsed = Date.now() - startTime;
-      if (elapsed > timeoutMs) {
-        throw new StreamError(
-          `Stream timeout after ${elapsed}ms (exceeded ${timeoutMs}ms limit)`,
-          'timeout'
-        );
-      }
-
-      // Simulate mid-stream error if configured
-      if (simulateError === 'mid-stream' && eventIndex === midpoint) {
-        throw new StreamError(
-          'Stream interrupted mid-processing (simulated)',
-          'stream'
-        );
-      }
-
-      // Simulate network latency with configurable delay
-      await delay(delayMs);
-
-      // Invoke the event callback if provided (for network capture, logging)
-      if (onEvent) {
-        try {
-          onEvent(event);
-        } catch (error) {
-          // Don't let callback errors break the stream
-          console.error('Error in stream event callback:', error);
-        }
-      }
-
-      // Yield the event to the consumer
-      yield event;
-
-      eventIndex++;
-    }
-  } finally {
-    // Cleanup code runs when generator is closed (via return() or completion)
-    cancelled = true;
+    yield event;
   }
 }
 
 /**
- * Utility function to delay execution for a specified duration.
+ * Splits the answer into token chunks, marking the last chunk final.
  *
- * This is used to simulate network latency between stream events.
- * Using a Promise-based delay allows the generator to be async/await compatible.
+ * @param fixture - Fixture events
+ * @param options - Token chunking options
+ * @returns Events with the answer split into chunks
+ */
+function chunkAnswer(fixture: StreamEvent[], options: TokenChunkOptions): StreamEvent[] {
+  return chunkAnswerEvents(
+    fixture.map((event) =>
+      event.type === 'answer' ? { ...event, data: { ...event.data, isFinal: true } } : event
+    ),
+    options
+  );
+}
+
+/**
+ * Translates the `simulateError` option into injected faults.
  *
- * @param ms - Milliseconds to delay
- * @returns Promise that resolves after the delay
+ * - 'timeout' / 'network': wait one event delay, then fail before any event
+ * - 'mid-stream': fail halfway through the fixture
  *
- * @example
- * ```typescript
- * await delay(300); // Wait 300ms
- * ```
+ * @param simulateError - Error simulation mode
+ * @param eventCount - Number of fixture events
+ * @param timeoutMs - Configured timeout (for the error message)
+ * @param timing - Timing model (for the initial delay)
+ * @returns Fault configuration (empty for 'none')
  */
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function getSimulatedErrorFaults(
+  simulateError: NonNullable<ReasoningStreamConfig['simulateError']>,
+  eventCount: number,
+  timeoutMs: number,
+  timing: TimingModel
+): FaultInjectionConfig {
+  // Delay before error simulation (no event yet)
+  const stall = { at: 0, durationMs: timing.getDelay({ index: 0 }) };
+
+  switch (simulateError) {
+    case 'timeout':
+      return {
+        stall,
+        error: {
+          at: 0,
+          createError: () =>
+            new StreamError(`Stream timeout after ${timeoutMs}ms (simulated)`, 'timeout'),
+        },
+      };
+    case 'network':
+      return {
+        stall,
+        error: {
+          at: 0,
+          createError: () => new StreamError('Network connection failed (simulated)', 'network'),
+        },
+      };
+    case 'mid-stream':
+      return {
+        error: {
+          at: Math.floor(eventCount / 2),
+          createError: () =>
+            new StreamError('Stream interrupted mid-processing (simulated)', 'stream'),
+        },
+      };
+    case 'none':
+      return {};
+  }
 }
 
 /**
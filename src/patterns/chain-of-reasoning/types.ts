@@ -8,6 +8,13 @@
  * @module patterns/chain-of-reasoning/types
  */
 
+import type { TimingModel } from '@/lib/streaming/timingModels';
+import type { FaultInjectionConfig } from '@/lib/streaming/faultInjection';
+import type { Clock } from '@/lib/utils/clock';
+import type { TokenChunkOptions } from '@/lib/streaming/tokenChunking';
+import type { PersistedSession, RecordedRun } from '@/lib/streaming/sessionPersistence';
+import type { LifecyclePhase } from '@/lib/streaming/lifecycle';
+
 /**
  * Represents a single reasoning step in the chain-of-reasoning process.
  *
@@ -124,6 +131,12 @@ export interface AnswerStreamEvent {
      * Can include references to reasoning step IDs for traceability.
      */
     text: string;
+
+    /**
+     * Whether this is the last chunk of the answer.
+     * Set when the answer is streamed in token chunks.
+     */
+    isFinal?: boolean;
   };
 }
 
@@ -225,6 +238,34 @@ export interface ReasoningStreamConfig {
    * @default 'none'
    */
   simulateError?: 'none' | 'timeout' | 'network' | 'mid-stream';
+
+  /**
+   * Timing model controlling delays between events.
+   * Overrides `speed` when provided (e.g. jittered or token-rate timing).
+   * @default createProfileTiming(speed)
+   */
+  timing?: TimingModel;
+
+  /**
+   * Seeded faults to inject (drops, duplicates, reordering, ...).
+   * `simulateError` is applied on top of these.
+   */
+  faults?: FaultInjectionConfig;
+
+  /**
+   * Clock for delays and the timeout check.
+   * Pass a VirtualClock in tests to stream without real waiting.
+   * @default systemClock
+   */
+  clock?: Clock;
+
+  /**
+   * Stream the answer as token-sized chunks instead of one event.
+   * Pass options to control the chunk sizes and seed. Unless `timing` is
+   * given, chunks arrive at a token rate matching `speed`.
+   * @default false
+   */
+  tokenChunks?: boolean | TokenChunkOptions;
 }
 
 /**
@@ -302,6 +343,11 @@ export interface ReasoningStreamState {
    */
   isStreaming: boolean;
 
+  /**
+   * Lifecycle phase of the stream (see lib/streaming/lifecycle).
+   */
+  phase: LifecyclePhase;
+
   /**
    * Error object if the stream encountered an error.
    * Undefined if no error has occurred.
@@ -325,4 +371,21 @@ export interface ReasoningStreamState {
    * Undefined if not currently retrying.
    */
   retryDelayMs?: number;
+
+  /**
+   * Run saved before a reload (with `persistKey`), until it is resumed or discarded.
+   * While one is offered, the stream does not start on its own.
+   */
+  savedSession: PersistedSession<RecordedRun> | null;
+
+  /**
+   * Continue the saved run: its reasoning steps are restored and the stream
+   * continues after them.
+   */
+  resumeSession: () => void;
+
+  /**
+   * Drop the saved run and start the prompt from the beginning.
+   */
+  discardSession: () => void;
 }
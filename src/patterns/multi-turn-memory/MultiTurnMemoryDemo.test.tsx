@@ -3,7 +3,8 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { screen, waitFor } from '@testing-library/react';
+import { act, screen, waitFor } from '@testing-library/react';
+import { userEvent } from '@testing-library/user-event';
 import { render } from '../../../tests/test-utils';
 import { MultiTurnMemoryDemo } from './MultiTurnMemoryDemo';
 
@@ -85,4 +86,28 @@ describe('MultiTurnMemoryDemo', () => {
     render(<MultiTurnMemoryDemo />);
     expect(screen.getByRole('button', { name: /reset demo/i })).toBeInTheDocument();
   });
+
+  it('offers a run interrupted by a reload', async () => {
+    const { unmount } = render(<MultiTurnMemoryDemo />);
+    await waitFor(() => expect(localStorage.length).toBe(1), { timeout: 2000 });
+    unmount();
+
+    render(<MultiTurnMemoryDemo />);
+    expect(screen.getByRole('region', { name: 'Unfinished run' })).toBeInTheDocument();
+    expect(screen.queryByText('Streaming...')).not.toBeInTheDocument();
+  });
+
+  it('does not offer a run the user reset', async () => {
+    const user = userEvent.setup();
+    render(<MultiTurnMemoryDemo />);
+    await waitFor(() => expect(localStorage.length).toBe(1), { timeout: 2000 });
+
+    // user-event drives its own copy of the DOM library, so clicks are wrapped in act here
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /reset demo/i }));
+    });
+
+    expect(screen.queryByRole('region', { name: 'Unfinished run' })).not.toBeInTheDocument();
+    expect(screen.getByText('Streaming...')).toBeInTheDocument();
+  });
 });
@@ -8,10 +8,11 @@
  * @educational Full pattern implementation with network inspector integration
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef, type MutableRefObject } from 'react';
 import { DemoContainer } from '@/components/layout/DemoContainer';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
+import { ResumeSessionBanner } from '@/components/ui/ResumeSessionBanner';
 import { ScenarioCard } from '@/components/ui/ScenarioCard';
 import { PatternHelmet } from '@/components/PatternHelmet';
 import { NetworkInspector } from '@/components/NetworkInspector/NetworkInspector';
@@ -21,7 +22,6 @@ import { useMemoryTimeline } from './hooks';
 import { MemoryTimeline } from './MemoryTimeline';
 import { MemoryFilters } from './MemoryFilters';
 import { ChatThread } from './ChatThread';
-import type { StreamEvent as PatternStreamEvent } from './types';
 import styles from './MultiTurnMemoryDemo.module.css';
 
 /**
@@ -36,6 +36,8 @@ interface MemoryDemoContentProps {
   filter: EventFilter;
   onFilterChange: (filter: EventFilter) => void;
   onClearEvents: () => void;
+  /** Receives the hook's discardSession, so a reset does not leave the run saved */
+  discardRef: MutableRefObject<(() => void) | null>;
 }
 
 /**
@@ -48,32 +50,7 @@ interface MemoryDemoContentProps {
  * a key prop, we can force a complete remount (and hook state reset) by
  * changing the key. This is the React-idiomatic way to reset component state.
  */
-function MemoryDemoContent({ speed, showFilters, showInspector, capturedEvents, onEventCapture, filter, onFilterChange, onClearEvents }: MemoryDemoContentProps): JSX.Element {
-  // Memoize the event callback to prevent infinite loops
-  const handleEvent = useCallback((event: PatternStreamEvent) => {
-    // Convert pattern-specific events to global StreamEvent format for network inspector
-    // For multi-turn memory, we use the 'memory' type for all memory lifecycle events
-    const globalEvent: GlobalStreamEvent = {
-      id: `${event.type}-${event.timestamp}`,
-      timestamp: event.timestamp,
-      type: 'memory',
-      data: {
-        id: 'data' in event && typeof event.data === 'object' && event.data !== null && 'id' in event.data
-          ? String(event.data.id)
-          : `${event.type}-${event.timestamp}`,
-        operation: event.type.includes('create') ? 'create' :
-                   event.type.includes('update') ? 'update' :
-                   event.type.includes('prune') ? 'prune' : 'recall',
-        content: JSON.stringify(event.data),
-        importance: 0.5,
-        turn: 0,
-        timestamp: event.timestamp,
-      },
-    };
-
-    onEventCapture(globalEvent);
-  }, [onEventCapture]);
-
+function MemoryDemoContent({ speed, showFilters, showInspector, capturedEvents, onEventCapture, filter, onFilterChange, onClearEvents, discardRef }: MemoryDemoContentProps): JSX.Element {
   // Use the memory timeline hook with network inspector callback
   const {
     filteredMemories,
@@ -82,14 +59,32 @@ function MemoryDemoContent({ speed, showFilters, showInspector, capturedEvents,
     filters,
     actions,
     memories,
+    savedSession,
   } = useMemoryTimeline({
     speed,
     autoStart: true,
-    onEvent: handleEvent,
+    onEvent: onEventCapture,
+    persistKey: 'multi-turn-memory',
   });
+  discardRef.current = actions.discardSession;
 
   return (
     <>
+      {/* Saved run */}
+      {savedSession && !isStreaming && (
+        <div className={styles.scenario}>
+          <ResumeSessionBanner
+            eventCount={savedSession.position}
+            savedAt={savedSession.savedAt}
+            onResume={() => {
+              onClearEvents();
+              actions.resumeSession();
+            }}
+            onDiscard={actions.discardSession}
+          />
+        </div>
+      )}
+
       {/* Memory Timeline (Sticky) */}
       <div className={styles.memorySection}>
         <div className={styles.sectionHeader}>
@@ -153,6 +148,7 @@ function MemoryDemoContent({ speed, showFilters, showInspector, capturedEvents,
         <section className={styles.inspectorSection} aria-label="Network inspector">
           <NetworkInspector
             events={capturedEvents}
+            pattern="multi-turn-memory"
             filter={filter}
             onFilterChange={onFilterChange}
             onClearEvents={onClearEvents}
@@ -177,6 +173,7 @@ function MemoryDemoContent({ speed, showFilters, showInspector, capturedEvents,
  * - Implements real-time filtering
  * - Separates memory timeline from chat UI
  * - Reset functionality via component key change
+ * - Resuming a run interrupted by a reload
  *
  * @returns JSX element
  */
@@ -186,6 +183,8 @@ export function MultiTurnMemoryDemo(): JSX.Element {
   const [showInspector, setShowInspector] = useState(false);
   // Demo key for forcing reset - incrementing this remounts MemoryDemoContent
   const [demoKey, setDemoKey] = useState(0);
+  // Stops saving the current run before a reset remounts it
+  const discardRef = useRef<(() => void) | null>(null);
 
   // Network capture for debugging and visualization
   const { events, captureEvent, clearEvents, filter, setFilter } = useNetworkCapture();
@@ -195,6 +194,7 @@ export function MultiTurnMemoryDemo(): JSX.Element {
    * Clears all state by remounting the content component.
    */
   const handleReset = useCallback((): void => {
+    discardRef.current?.();
     clearEvents();
     setDemoKey((prev) => prev + 1);
   }, [clearEvents]);
@@ -205,6 +205,7 @@ export function MultiTurnMemoryDemo(): JSX.Element {
    */
   const handleSpeedChange = useCallback((newSpeed: typeof speed): void => {
     setSpeed(newSpeed);
+    discardRef.current?.();
     clearEvents();
     setDemoKey((prev) => prev + 1);
   }, [clearEvents]);
@@ -290,6 +291,7 @@ export function MultiTurnMemoryDemo(): JSX.Element {
         filter={filter}
         onFilterChange={setFilter}
         onClearEvents={clearEvents}
+        discardRef={discardRef}
       />
 
       {/* Pattern Learning Points */}
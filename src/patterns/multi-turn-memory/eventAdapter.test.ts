@@ -0,0 +1,42 @@
+/**
+ * Tests for the Multi-Turn Memory event adapter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createEventAdapter } from '@/lib/streaming/eventAdapter';
+import { isStreamEvent } from '@/lib/streaming/eventSchema';
+import { adaptMemoryEvent, readMemoryEvent } from './eventAdapter';
+import { memoryLifecycleFixture, q4PlanningConversation } from './fixtures';
+
+describe('adaptMemoryEvent', () => {
+  it('should produce valid canonical events for every fixture event', () => {
+    const toStreamEvent = createEventAdapter(adaptMemoryEvent);
+
+    [...q4PlanningConversation, ...memoryLifecycleFixture].forEach((event) => {
+      expect(isStreamEvent(toStreamEvent(event))).toBe(true);
+    });
+  });
+
+  it('should keep the memory event type and payload', () => {
+    const toStreamEvent = createEventAdapter(adaptMemoryEvent, { idPrefix: 'memory' });
+    const [first] = q4PlanningConversation;
+
+    expect(toStreamEvent(first)).toEqual({ ...first, id: 'memory-1' });
+  });
+});
+
+describe('readMemoryEvent', () => {
+  it('should read back every event it adapts', () => {
+    const toStreamEvent = createEventAdapter(adaptMemoryEvent);
+
+    [...q4PlanningConversation, ...memoryLifecycleFixture].forEach((event) => {
+      expect(readMemoryEvent(toStreamEvent(event))).toEqual(event);
+    });
+  });
+
+  it('should ignore events the pattern does not render', () => {
+    expect(
+      readMemoryEvent({ id: 't1', type: 'text', timestamp: 1, data: { text: 'Hi' } })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Event adapter for the Multi-Turn Memory Timeline pattern.
+ *
+ * The pattern's memory lifecycle events already match the canonical
+ * `memory.*` and `message` events; the adapter only adds event IDs and the
+ * reader only drops them.
+ *
+ * @module patterns/multi-turn-memory/eventAdapter
+ */
+
+import type { EventAdapter, EventReader } from '@/lib/streaming/eventAdapter';
+import type { StreamEvent } from './types';
+
+/**
+ * Convert a memory stream event to a canonical stream event.
+ *
+ * @example
+ * ```typescript
+ * const toStreamEvent = createEventAdapter(adaptMemoryEvent, { idPrefix: 'memory' });
+ * captureEvent(toStreamEvent(event));
+ * ```
+ */
+export const adaptMemoryEvent: EventAdapter<StreamEvent> = (event, { id, timestamp }) => {
+  switch (event.type) {
+    case 'memory.create':
+      return { id, timestamp, type: 'memory.create', data: event.data };
+    case 'memory.update':
+      return { id, timestamp, type: 'memory.update', data: event.data };
+    case 'memory.prune':
+      return { id, timestamp, type: 'memory.prune', data: event.data };
+    case 'memory.pin':
+      return { id, timestamp, type: 'memory.pin', data: event.data };
+    case 'message':
+      return { id, timestamp, type: 'message', data: event.data };
+  }
+};
+
+/**
+ * Read a canonical stream event as a memory stream event.
+ *
+ * @example
+ * ```typescript
+ * for await (const event of readPatternStream(transport, readMemoryEvent)) {
+ *   processEvent(event);
+ * }
+ * ```
+ */
+export const readMemoryEvent: EventReader<StreamEvent> = (event) => {
+  const { timestamp } = event;
+
+  switch (event.type) {
+    case 'memory.create':
+      return { type: 'memory.create', timestamp, data: event.data };
+    case 'memory.update':
+      return { type: 'memory.update', timestamp, data: event.data };
+    case 'memory.prune':
+      return { type: 'memory.prune', timestamp, data: event.data };
+    case 'memory.pin':
+      return { type: 'memory.pin', timestamp, data: event.data };
+    case 'message':
+      return { type: 'message', timestamp, data: event.data };
+    default:
+      return null;
+  }
+};
@@ -3,7 +3,8 @@
  */
 
 import { describe, it, expect, vi } from 'vitest';
-import { renderHook, waitFor } from '@testing-library/react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { VirtualClock } from '@/lib/utils/clock';
 import { useMemoryTimeline } from './hooks';
 
 describe('useMemoryTimeline', () => {
@@ -135,3 +136,69 @@ describe('useMemoryTimeline', () => {
     });
   });
 });
+
+describe('useMemoryTimeline session persistence', () => {
+  const persistKey = 'multi-turn-memory-test';
+
+  /**
+   * Stream part of the conversation, then "reload" the page
+   */
+  async function runPartway(clock: VirtualClock) {
+    const { result, unmount } = renderHook(() =>
+      useMemoryTimeline({ speed: 'fast', clock, persistKey })
+    );
+
+    await act(() => clock.advance(500));
+    expect(result.current.messages.length).toBeGreaterThan(0);
+    expect(result.current.isStreaming).toBe(true);
+
+    unmount();
+  }
+
+  it('offers the saved run instead of auto-starting', async () => {
+    const clock = new VirtualClock();
+    await runPartway(clock);
+
+    const { result } = renderHook(() => useMemoryTimeline({ speed: 'fast', clock, persistKey }));
+
+    expect(result.current.isStreaming).toBe(false);
+    expect(result.current.messages).toHaveLength(0);
+    expect(result.current.savedSession?.position).toBeGreaterThan(0);
+  });
+
+  it('resumes with the saved memories and continues after them', async () => {
+    const clock = new VirtualClock();
+    const reference = renderHook(() => useMemoryTimeline({ speed: 'fast', clock }));
+    await act(() => clock.runAll());
+    const expected = reference.result.current.messages.map((message) => message.id);
+    reference.unmount();
+
+    await runPartway(clock);
+    const onEvent = vi.fn();
+    const { result } = renderHook(() =>
+      useMemoryTimeline({ speed: 'fast', clock, persistKey, onEvent })
+    );
+
+    // Skipped events are regenerated without timers, so step until the run ends
+    act(() => result.current.actions.resumeSession());
+    while (result.current.isStreaming || result.current.messages.length === 0) {
+      await act(() => clock.advance(100));
+    }
+
+    expect(result.current.messages.map((message) => message.id)).toEqual(expected);
+    const sequenceNumbers = onEvent.mock.calls.map(([event]) => event.metadata.sequenceNumber);
+    expect(sequenceNumbers).toEqual(sequenceNumbers.map((_, index) => index + 1));
+    expect(localStorage.length).toBe(0);
+  });
+
+  it('starts over when the saved run is discarded', async () => {
+    const clock = new VirtualClock();
+    await runPartway(clock);
+
+    const { result } = renderHook(() => useMemoryTimeline({ speed: 'fast', clock, persistKey }));
+    act(() => result.current.actions.discardSession());
+
+    expect(result.current.savedSession).toBeNull();
+    expect(result.current.isStreaming).toBe(true);
+  });
+});
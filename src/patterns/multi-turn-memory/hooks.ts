@@ -8,26 +8,38 @@
  * @educational Teaches memory state management, filtering, and user actions
  */
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import type {
   Memory,
   Message,
   ConversationTurn,
   MemoryFilters,
-  StreamEvent,
   UseMemoryTimelineReturn,
 } from './types';
 import { createMockMemoryStream, type MockStreamConfig } from './mockStream';
+import { adaptMemoryEvent, readMemoryEvent } from './eventAdapter';
+import { PatternTransport, readPatternStream } from '@/lib/streaming/eventAdapter';
+import type { PersistedSession, RecordedRun } from '@/lib/streaming/sessionPersistence';
+import type { StreamTransport } from '@/lib/streaming/transport';
+import { useSessionPersistence } from '@/lib/hooks/useSessionPersistence';
+import { useLifecycle } from '@/lib/hooks/useLifecycle';
+import type { StreamEvent as CanonicalStreamEvent } from '@/types/events';
 
 /**
  * Hook configuration options.
  */
 export interface UseMemoryTimelineConfig extends MockStreamConfig {
-  /** Optional: Callback when events are emitted (for network inspector) */
-  onEvent?: (event: StreamEvent) => void;
+  /** Optional: Callback with each canonical event (for network inspector) */
+  onEvent?: (event: CanonicalStreamEvent) => void;
+
+  /** Optional: Event source to read instead of the mock stream */
+  createTransport?: () => StreamTransport;
 
   /** Optional: Enable auto-start streaming */
   autoStart?: boolean;
+
+  /** Optional: Key to save runs under, so a reload can resume them */
+  persistKey?: string;
 }
 
 /**
@@ -40,6 +52,10 @@ export interface UseMemoryTimelineConfig extends MockStreamConfig {
  * 4. Organize conversation into structured turns
  * 5. Apply client-side filtering efficiently
  *
+ * With `persistKey`, a run interrupted by a reload is offered as
+ * `savedSession` instead of auto-starting; `actions.resumeSession()` restores
+ * it and continues the stream after the events it had received.
+ *
  * Educational Note: Using Map instead of array for memories enables fast
  * lookups by ID, which is critical when processing updates and prunes.
  *
@@ -66,14 +82,31 @@ export interface UseMemoryTimelineConfig extends MockStreamConfig {
 export function useMemoryTimeline(
   config: UseMemoryTimelineConfig = {}
 ): UseMemoryTimelineReturn {
-  const { onEvent, autoStart = true, ...streamConfig } = config;
+  const { onEvent, createTransport, autoStart = true, persistKey, ...streamConfig } = config;
 
   // ========== State Management ==========
   // Educational Note: Using Map for memories provides O(1) lookups when processing
   // update and prune events. This is more efficient than array.find().
   const [memories, setMemories] = useState<Map<string, Memory>>(new Map());
   const [messages, setMessages] = useState<Message[]>([]);
-  const [isStreaming, setIsStreaming] = useState(false);
+  const { phase, restart, transition } = useLifecycle();
+
+  // Saved runs: offered on mount, then recorded event by event
+  const {
+    savedSession,
+    begin,
+    observe,
+    finish,
+    discardSession: clearSavedSession,
+  } = useSessionPersistence({ persistKey, clock: streamConfig.clock });
+  const savedSessionRef = useRef(savedSession);
+  savedSessionRef.current = savedSession;
+
+  // Saved run the next stream continues (set by resumeSession)
+  const resumeRef = useRef<PersistedSession<RecordedRun> | null>(null);
+
+  // Bumped to (re)start the stream after resuming or discarding a saved run
+  const [runTrigger, setRunTrigger] = useState(0);
 
   // Filters are managed separately to avoid re-processing on every filter change
   const [filters, setFiltersState] = useState<MemoryFilters>({
@@ -92,21 +125,43 @@ export function useMemoryTimeline(
   useEffect(() => {
     if (!autoStart) return;
 
+    // A saved run is offered first: wait for resumeSession or discardSession
+    const resumed = resumeRef.current;
+    resumeRef.current = null;
+    if (!resumed && savedSessionRef.current) return;
+
+    const sessionId = begin(undefined, resumed);
+    setMemories(new Map());
+    setMessages([]);
+
     let cancelled = false;
-    setIsStreaming(true);
+    const abortController = new AbortController();
+    restart();
 
     (async () => {
       try {
-        const stream = createMockMemoryStream(streamConfig);
+        // Read from the supplied transport, or fall back to the mock stream;
+        // external listeners (e.g., network inspector) get the canonical events
+        const transport =
+          createTransport?.() ??
+          new PatternTransport(
+            (context) => createMockMemoryStream({ ...streamConfig, clock: context.clock }),
+            adaptMemoryEvent,
+            { idPrefix: 'memory', clock: streamConfig.clock }
+          );
+        const stream = readPatternStream(transport, readMemoryEvent, {
+          sessionId,
+          history: resumed?.data.events,
+          onEvent: (event) => {
+            observe(event);
+            onEvent?.(event);
+          },
+          signal: abortController.signal,
+        });
 
         for await (const event of stream) {
           if (cancelled) break;
 
-          // Notify external listeners (e.g., network inspector)
-          if (onEvent) {
-            onEvent(event);
-          }
-
           // Process event based on type
           switch (event.type) {
             case 'memory.create':
@@ -171,20 +226,46 @@ export function useMemoryTimeline(
               break;
           }
         }
+
+        if (!cancelled) {
+          finish('closed');
+          transition('complete');
+        }
       } catch (error) {
         console.error('Stream error:', error);
-      } finally {
         if (!cancelled) {
-          setIsStreaming(false);
+          finish('error');
+          transition('fail');
         }
       }
     })();
 
     return () => {
       cancelled = true;
+      abortController.abort();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [autoStart]); // Only depend on autoStart to prevent infinite loops from object recreation
+  }, [autoStart, runTrigger]); // Not the config object, which is recreated every render
+
+  /**
+   * Continue the run saved before a reload.
+   */
+  const resumeSession = useCallback(() => {
+    if (savedSessionRef.current) {
+      resumeRef.current = savedSessionRef.current;
+      setRunTrigger((prev) => prev + 1);
+    }
+  }, []);
+
+  /**
+   * Drop the saved run (or stop saving the current one) and start over.
+   */
+  const discardSession = useCallback(() => {
+    finish('closed');
+    clearSavedSession();
+    savedSessionRef.current = null;
+    setRunTrigger((prev) => prev + 1);
+  }, [finish, clearSavedSession]);
 
   // ========== Conversation Turns ==========
   /**
@@ -276,9 +357,11 @@ export function useMemoryTimeline(
 
         // In a real app, emit memory.pin event to server here
         if (onEvent) {
+          const timestamp = Date.now();
           onEvent({
+            id: `pin-${memoryId}-${timestamp}`,
             type: 'memory.pin',
-            timestamp: Date.now(),
+            timestamp,
             data: {
               id: memoryId,
               pinned: !memory.pinned,
@@ -306,9 +389,11 @@ export function useMemoryTimeline(
 
     // Emit prune event for network inspector
     if (onEvent) {
+      const timestamp = Date.now();
       onEvent({
+        id: `prune-${memoryId}-${timestamp}`,
         type: 'memory.prune',
-        timestamp: Date.now(),
+        timestamp,
         data: {
           id: memoryId,
           reason,
@@ -347,14 +432,18 @@ export function useMemoryTimeline(
     memories,
     messages,
     turns,
-    isStreaming,
+    isStreaming: phase === 'streaming',
+    phase,
     filters,
     filteredMemories,
+    savedSession,
     actions: {
       togglePin,
       pruneMemory,
       setFilters,
       sendMessage,
+      resumeSession,
+      discardSession,
     },
   };
 }
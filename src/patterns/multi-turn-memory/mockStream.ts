@@ -10,6 +10,13 @@
 
 import type { StreamEvent } from './types';
 import { q4PlanningConversation, shortConversation } from './fixtures';
+import {
+  DELAY_PROFILE_MS,
+  createProfileTiming,
+  type TimingModel,
+} from '@/lib/streaming/timingModels';
+import { systemClock, type Clock } from '@/lib/utils/clock';
+import { delay } from '@/lib/utils/delay';
 
 /**
  * Stream speed controls for testing different scenarios.
@@ -21,9 +28,7 @@ export type StreamSpeed = 'instant' | 'fast' | 'normal' | 'slow';
 
 const SPEED_DELAYS: Record<StreamSpeed, number> = {
   instant: 0, // For testing
-  fast: 50, // 50ms between events
-  normal: 300, // 300ms between events (realistic)
-  slow: 1000, // 1s between events (for demos)
+  ...DELAY_PROFILE_MS,
 };
 
 /**
@@ -36,11 +41,17 @@ export interface MockStreamConfig {
   /** Speed of event emission */
   speed?: StreamSpeed;
 
+  /** Timing model overriding `speed` (e.g. replayed fixture timestamps) */
+  timing?: TimingModel;
+
   /** Optional: Simulate network errors */
   simulateError?: boolean;
 
   /** Optional: Error rate (0-1) */
   errorRate?: number;
+
+  /** Clock the delays are waited on (default: system clock; a VirtualClock in tests) */
+  clock?: Clock;
 }
 
 /**
@@ -71,10 +82,10 @@ export async function* createMockMemoryStream(
     speed = 'normal',
     simulateError = false,
     errorRate = 0,
+    timing = createProfileTiming(speed, SPEED_DELAYS),
+    clock = systemClock,
   } = config;
 
-  const delayMs = SPEED_DELAYS[speed];
-
   for (let i = 0; i < fixture.length; i++) {
     const event = fixture[i];
 
@@ -84,8 +95,9 @@ export async function* createMockMemoryStream(
     }
 
     // Wait before emitting next event (except first event)
-    if (i > 0 && delayMs > 0) {
-      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    const delayMs = i > 0 ? timing.getDelay({ index: i, event, previous: fixture[i - 1] }) : 0;
+    if (delayMs > 0) {
+      await delay(delayMs, clock);
     }
 
     yield event;
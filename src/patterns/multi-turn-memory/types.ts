@@ -9,6 +9,9 @@
  * @educational Teaches memory state management, provenance transparency, user control over AI context
  */
 
+import type { PersistedSession, RecordedRun } from '@/lib/streaming/sessionPersistence';
+import type { LifecyclePhase } from '@/lib/streaming/lifecycle';
+
 /**
  * Memory types categorize different kinds of information the agent remembers.
  *
@@ -229,11 +232,17 @@ export interface MemoryTimelineState {
   /** Whether the stream is currently active */
   isStreaming: boolean;
 
+  /** Lifecycle phase of the stream (see lib/streaming/lifecycle) */
+  phase: LifecyclePhase;
+
   /** Current active filters */
   filters: MemoryFilters;
 
   /** Filtered and sorted memories for display */
   filteredMemories: Memory[];
+
+  /** Run saved before a reload (with `persistKey`), until it is resumed or discarded */
+  savedSession: PersistedSession<RecordedRun> | null;
 }
 
 /**
@@ -254,6 +263,12 @@ export interface MemoryActions {
 
   /** Send a new user message (starts new turn) */
   sendMessage: (content: string) => void;
+
+  /** Continue the saved run after the events it had received */
+  resumeSession: () => void;
+
+  /** Drop the saved run (or stop saving the current one) and start over */
+  discardSession: () => void;
 }
 
 /**
@@ -5,7 +5,7 @@
  */
 
 import { describe, it, expect, vi } from 'vitest';
-import { screen, waitFor } from '@testing-library/react';
+import { act, screen, waitFor, within } from '@testing-library/react';
 import { render } from '../../../tests/test-utils';
 import { userEvent } from '@testing-library/user-event';
 import { SchemaExchangeDemo } from './SchemaExchangeDemo';
@@ -198,6 +198,27 @@ describe('SchemaExchangeDemo', () => {
     );
   });
 
+  it('should validate a raw JSON payload as it streams', async () => {
+    // The fixture deadline must still be in the future
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-15T00:00:00Z'));
+    const user = userEvent.setup();
+    render(<SchemaExchangeDemo />);
+
+    await user.click(screen.getByRole('button', { name: /Raw JSON/i }));
+    await user.click(screen.getByRole('button', { name: /Fast/i }));
+    await user.click(screen.getByRole('button', { name: /Start Stream/i }));
+
+    await waitFor(
+      () => {
+        expect(screen.getAllByText(/Mobile App Redesign/).length).toBeGreaterThan(0);
+        expect(screen.getByText('Valid')).toBeInTheDocument();
+      },
+      { timeout: 6000 }
+    );
+    vi.useRealTimers();
+  }, 10000);
+
   it('should toggle network inspector visibility', async () => {
     const user = userEvent.setup();
     render(<SchemaExchangeDemo />);
@@ -305,4 +326,42 @@ describe('SchemaExchangeDemo', () => {
     expect(badgeCount).toBeTruthy();
     expect(badgeCount).toBe(highlighterCount);
   });
+
+  it('should resume a run interrupted by a reload with its scenario and format', async () => {
+    const user = userEvent.setup();
+    const { unmount } = render(<SchemaExchangeDemo />);
+
+    // user-event drives its own copy of the DOM library, so clicks are wrapped in act here
+    for (const name of [/❌ Errors/i, /Raw JSON/i, /⚡ Fast/i, /Start Stream/i]) {
+      await act(async () => {
+        await user.click(screen.getByRole('button', { name }));
+      });
+    }
+    await waitFor(() => expect(localStorage.length).toBe(1));
+    unmount();
+
+    render(<SchemaExchangeDemo />);
+    const banner = screen.getByRole('region', { name: 'Unfinished run' });
+    await act(async () => {
+      await user.click(within(banner).getByRole('button', { name: 'Resume where you left off' }));
+    });
+
+    expect(screen.getByRole('button', { name: /❌ Errors/i })).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    expect(screen.getByRole('button', { name: /Raw JSON/i })).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    await waitFor(() => expect(screen.getByText(/Validation Errors \(7\)/i)).toBeInTheDocument(), {
+      timeout: 10000,
+    });
+
+    // The completed run leaves nothing to resume
+    await waitFor(() =>
+      expect(screen.getByRole('button', { name: /Start Stream/i })).toBeEnabled()
+    );
+    expect(localStorage.length).toBe(0);
+  }, 15000);
 });
@@ -9,6 +9,7 @@
  * - Progressive validation of incomplete payloads
  * - Error highlighting with auto-fix suggestions
  * - Real-time validation status indicators
+ * - Resuming a run interrupted by a reload
  */
 
 import React, { useState, useCallback } from 'react';
@@ -18,19 +19,21 @@ import { NetworkInspector } from '@/components/NetworkInspector/NetworkInspector
 import { useNetworkCapture } from '@/lib/hooks/useNetworkCapture';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
+import { ResumeSessionBanner } from '@/components/ui/ResumeSessionBanner';
 import { ScenarioCard } from '@/components/ui/ScenarioCard';
-import { useSchemaValidation, useSchemaHUD } from './hooks';
+import { useSchemaValidation, useSchemaHUD, fromRunFixtureId } from './hooks';
 import { SchemaHUD } from './SchemaHUD';
 import { PayloadViewer } from './PayloadViewer';
 import { ValidationBadge } from './ValidationBadge';
 import { ErrorHighlighter } from './ErrorHighlighter';
 import type { StreamScenario, StreamSpeed } from './mockStream';
-import type { SchemaStreamEvent, ValidationError } from './types';
+import type { ValidationError } from './types';
 import styles from './SchemaExchangeDemo.module.css';
 
 export function SchemaExchangeDemo() {
   const [scenario, setScenario] = useState<StreamScenario>('successful');
   const [speed, setSpeed] = useState<StreamSpeed>('normal');
+  const [rawJson, setRawJson] = useState(false);
   const [showInspector, setShowInspector] = useState(false);
 
   // Network capture for inspector
@@ -44,29 +47,23 @@ export function SchemaExchangeDemo() {
     isStreaming,
     validationResult,
     streamErrors,
+    savedSession,
     startStream,
     stopStream,
     reset,
-  } = useSchemaValidation({ scenario, speed, onEvent: handleStreamEvent });
+    resumeSession,
+    discardSession,
+  } = useSchemaValidation({
+    scenario,
+    speed,
+    rawJson,
+    onEvent: captureEvent,
+    persistKey: 'schema-governed-exchange',
+  });
 
   // Schema HUD state
   const { state: hudState, toggleCollapse, highlightField } = useSchemaHUD();
 
-  /**
-   * Handle stream events for network capture
-   */
-  function handleStreamEvent(event: SchemaStreamEvent): void {
-    // Capture event for network inspector
-    // Note: We use 'as any' here because our SchemaStreamEvent types
-    // are specific to this pattern and don't match the global StreamEvent union
-    captureEvent({
-      id: `${event.type}-${Date.now()}`,
-      type: event.type as any, // eslint-disable-line @typescript-eslint/no-explicit-any
-      data: event.data as any, // eslint-disable-line @typescript-eslint/no-explicit-any
-      timestamp: Date.now(),
-    });
-  }
-
   /**
    * Start a new stream with selected scenario
    */
@@ -76,6 +73,19 @@ export function SchemaExchangeDemo() {
     startStream();
   }, [reset, clearEvents, startStream]);
 
+  /**
+   * Continue the run saved before a reload, with the scenario it was saved with
+   */
+  const handleResume = useCallback(() => {
+    if (savedSession?.fixtureId) {
+      const saved = fromRunFixtureId(savedSession.fixtureId);
+      setScenario(saved.scenario);
+      setRawJson(saved.rawJson);
+    }
+    clearEvents();
+    resumeSession();
+  }, [savedSession, clearEvents, resumeSession]);
+
   /**
    * Stop current stream
    */
@@ -220,6 +230,32 @@ export function SchemaExchangeDemo() {
           </div>
         </div>
 
+        <div className={styles.controlGroup}>
+          <label className={styles.label}>Payload Format</label>
+          <div className={styles.speedButtons} role="group" aria-label="Payload format selector">
+            <Button
+              onClick={() => setRawJson(false)}
+              variant={!rawJson ? 'primary' : 'secondary'}
+              size="sm"
+              disabled={isStreaming}
+              aria-pressed={!rawJson ? 'true' : 'false'}
+              title="Pre-split payload objects"
+            >
+              🧩 Chunks
+            </Button>
+            <Button
+              onClick={() => setRawJson(true)}
+              variant={rawJson ? 'primary' : 'secondary'}
+              size="sm"
+              disabled={isStreaming}
+              aria-pressed={rawJson ? 'true' : 'false'}
+              title="Raw JSON text fragments, parsed incrementally"
+            >
+              📝 Raw JSON
+            </Button>
+          </div>
+        </div>
+
         <div className={styles.actionButtons}>
           {!isStreaming ? (
             <Button
@@ -250,6 +286,18 @@ export function SchemaExchangeDemo() {
         </div>
       </div>
 
+      {/* Saved run */}
+      {savedSession && !isStreaming && (
+        <div className={styles.scenario}>
+          <ResumeSessionBanner
+            eventCount={savedSession.position}
+            savedAt={savedSession.savedAt}
+            onResume={handleResume}
+            onDiscard={discardSession}
+          />
+        </div>
+      )}
+
       {/* Scenario Context */}
       <div className={styles.scenario}>
         <ScenarioCard
@@ -298,6 +346,7 @@ export function SchemaExchangeDemo() {
         <div className={styles.inspector}>
           <NetworkInspector
             events={events}
+            pattern="schema-governed-exchange"
             onClearEvents={clearEvents}
             title="Stream Events"
           />
@@ -318,6 +367,9 @@ export function SchemaExchangeDemo() {
               <li>
                 <strong>Partial Mode:</strong> Zod's partial() allows validation of incomplete data, enabling real-time feedback as stream arrives
               </li>
+              <li>
+                <strong>Raw JSON:</strong> Real LLMs emit JSON as text fragments; an incremental parser exposes the partial object so validation runs on truly partial text
+              </li>
               <li>
                 <strong>Auto-Suggestions:</strong> Common errors (e.g., "25k" → 25000) trigger automatic fix suggestions for faster correction
               </li>
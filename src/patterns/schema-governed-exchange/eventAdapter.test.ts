@@ -0,0 +1,82 @@
+/**
+ * Tests for the Schema-Governed Exchange event adapter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createEventAdapter } from '@/lib/streaming/eventAdapter';
+import { isStreamEvent } from '@/lib/streaming/eventSchema';
+import { adaptSchemaExchangeEvent, readSchemaExchangeEvent } from './eventAdapter';
+import { errorValidationStream, successfulValidationStream } from './fixtures';
+import { createSyncSchemaStream } from './mockStream';
+
+describe('adaptSchemaExchangeEvent', () => {
+  it('should produce valid canonical events for every fixture event', () => {
+    const toStreamEvent = createEventAdapter(adaptSchemaExchangeEvent);
+
+    [...successfulValidationStream, ...errorValidationStream].forEach((event) => {
+      expect(isStreamEvent(toStreamEvent(event))).toBe(true);
+    });
+  });
+
+  it('should map raw JSON fragments to canonical payload deltas', () => {
+    const toStreamEvent = createEventAdapter(adaptSchemaExchangeEvent, { idPrefix: 'schema' });
+
+    createSyncSchemaStream('minimal', { rawJson: true }).forEach((event) => {
+      expect(isStreamEvent(toStreamEvent(event))).toBe(true);
+    });
+    expect(
+      toStreamEvent({ type: 'payload_delta', data: { delta: '{"budget": 75', chunkIndex: 0 } })
+    ).toMatchObject({
+      type: 'payload_delta',
+      data: { delta: '{"budget": 75', chunkIndex: 0 },
+    });
+  });
+
+  it('should map schema errors to canonical schema errors', () => {
+    const toStreamEvent = createEventAdapter(adaptSchemaExchangeEvent, { idPrefix: 'schema' });
+    const event = toStreamEvent({
+      type: 'schema_error',
+      data: {
+        field: 'budget',
+        error: 'Expected number',
+        severity: 'error',
+        suggestion: 'Use 25000',
+      },
+    });
+
+    expect(event).toMatchObject({
+      id: 'schema-1',
+      type: 'schema_error',
+      data: {
+        path: 'budget',
+        message: 'Expected number',
+        severity: 'error',
+        suggestion: 'Use 25000',
+      },
+    });
+  });
+});
+
+describe('readSchemaExchangeEvent', () => {
+  it('should read back every event it adapts', () => {
+    const toStreamEvent = createEventAdapter(adaptSchemaExchangeEvent);
+
+    [...successfulValidationStream, ...errorValidationStream].forEach((event) => {
+      expect(readSchemaExchangeEvent(toStreamEvent(event))).toEqual(event);
+    });
+  });
+
+  it('should read back raw JSON fragments', () => {
+    const toStreamEvent = createEventAdapter(adaptSchemaExchangeEvent);
+
+    createSyncSchemaStream('minimal', { rawJson: true }).forEach((event) => {
+      expect(readSchemaExchangeEvent(toStreamEvent(event))).toEqual(event);
+    });
+  });
+
+  it('should ignore events the pattern does not render', () => {
+    expect(
+      readSchemaExchangeEvent({ id: 't1', type: 'text', timestamp: 1, data: { text: 'Hi' } })
+    ).toBeNull();
+  });
+});
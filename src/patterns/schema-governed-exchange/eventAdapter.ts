@@ -0,0 +1,144 @@
+/**
+ * Event adapter for the Schema-Governed Exchange pattern.
+ *
+ * Maps schema, payload and validation error events onto the canonical
+ * StreamEvent union (`schema_definition`, `payload`, `payload_delta`,
+ * `schema_error`). The schema ID and version travel as `$id` and `version`
+ * on the JSON schema.
+ *
+ * @module patterns/schema-governed-exchange/eventAdapter
+ */
+
+import type { EventAdapter, EventReader } from '@/lib/streaming/eventAdapter';
+import type { SchemaStreamEvent } from './types';
+
+/**
+ * Convert a schema exchange stream event to a canonical stream event.
+ *
+ * @example
+ * ```typescript
+ * const toStreamEvent = createEventAdapter(adaptSchemaExchangeEvent, { idPrefix: 'schema' });
+ * captureEvent(toStreamEvent(event));
+ * ```
+ */
+export const adaptSchemaExchangeEvent: EventAdapter<SchemaStreamEvent> = (
+  event,
+  { id, timestamp }
+) => {
+  switch (event.type) {
+    case 'schema': {
+      const { schema, schemaId, version, description } = event.data;
+      return {
+        id,
+        timestamp,
+        type: 'schema_definition',
+        data: {
+          schema: {
+            ...schema,
+            $id: schemaId,
+            version,
+            type: typeof schema.type === 'string' ? schema.type : 'object',
+          },
+          description,
+        },
+      };
+    }
+    case 'payload':
+      return {
+        id,
+        timestamp,
+        type: 'payload',
+        data: {
+          id,
+          payload: event.data.chunk,
+          timestamp,
+          chunkIndex: event.data.chunkIndex,
+          complete: event.data.complete,
+        },
+      };
+    case 'payload_delta':
+      return {
+        id,
+        timestamp,
+        type: 'payload_delta',
+        data: {
+          id,
+          delta: event.data.delta,
+          timestamp,
+          chunkIndex: event.data.chunkIndex,
+        },
+      };
+    case 'schema_error':
+      return {
+        id,
+        timestamp,
+        type: 'schema_error',
+        data: {
+          id,
+          path: event.data.field,
+          message: event.data.error,
+          timestamp,
+          severity: event.data.severity,
+          suggestion: event.data.suggestion,
+          code: event.data.code,
+        },
+      };
+  }
+};
+
+/**
+ * Read a canonical stream event as a schema exchange stream event.
+ *
+ * @example
+ * ```typescript
+ * for await (const event of readPatternStream(transport, readSchemaExchangeEvent)) {
+ *   processEvent(event);
+ * }
+ * ```
+ */
+export const readSchemaExchangeEvent: EventReader<SchemaStreamEvent> = (event) => {
+  switch (event.type) {
+    case 'schema_definition': {
+      const { $id, version, ...schema } = event.data.schema;
+      return {
+        type: 'schema',
+        data: {
+          schemaId: $id ?? 'schema',
+          version: typeof version === 'string' ? version : '1.0.0',
+          description: event.data.description,
+          schema,
+        },
+      };
+    }
+    case 'payload':
+      return {
+        type: 'payload',
+        data: {
+          chunk: event.data.payload,
+          complete: event.data.complete ?? true,
+          chunkIndex: event.data.chunkIndex ?? 0,
+        },
+      };
+    case 'payload_delta':
+      return {
+        type: 'payload_delta',
+        data: {
+          delta: event.data.delta,
+          chunkIndex: event.data.chunkIndex ?? 0,
+        },
+      };
+    case 'schema_error':
+      return {
+        type: 'schema_error',
+        data: {
+          field: event.data.path,
+          error: event.data.message,
+          suggestion: event.data.suggestion,
+          severity: event.data.severity ?? 'error',
+          code: event.data.code,
+        },
+      };
+    default:
+      return null;
+  }
+};
@@ -13,19 +13,83 @@ import type {
   SchemaErrorEvent,
   SchemaHUDState,
 } from './types';
-import { createMockSchemaStream, type MockStreamOptions } from './mockStream';
+import {
+  createMockSchemaStream,
+  type MockStreamOptions,
+  type StreamScenario,
+} from './mockStream';
 import { partialProjectSetupSchema, formatZodError } from './schema';
+import { adaptSchemaExchangeEvent, readSchemaExchangeEvent } from './eventAdapter';
+import { PatternTransport, readPatternStream } from '@/lib/streaming/eventAdapter';
+import { PartialJsonParser } from '@/lib/streaming/partialJson';
+import type { PersistedSession, RecordedRun } from '@/lib/streaming/sessionPersistence';
+import type { StreamTransport } from '@/lib/streaming/transport';
+import { useSessionPersistence } from '@/lib/hooks/useSessionPersistence';
+import { useLifecycle } from '@/lib/hooks/useLifecycle';
+import type { StreamEvent as CanonicalStreamEvent } from '@/types/events';
+
+/**
+ * Options accepted by useSchemaValidation.
+ *
+ * Events flow through a StreamSession over a PatternTransport wrapping the
+ * mock generator, or over the transport returned by `createTransport`.
+ * `onEvent` receives the canonical, enriched events. With `persistKey`, runs
+ * are saved so a reload can resume them.
+ */
+export type UseSchemaValidationOptions = Omit<MockStreamOptions, 'onEvent'> & {
+  onEvent?: (event: CanonicalStreamEvent) => void;
+  createTransport?: () => StreamTransport;
+  persistKey?: string;
+};
+
+/** Suffix marking a saved run whose payload streamed as raw JSON */
+const RAW_JSON_SUFFIX = ':raw-json';
+
+/**
+ * Describe the stream a run was generated from, for its saved session
+ *
+ * @param scenario - Scenario streamed
+ * @param rawJson - Whether the payload streamed as raw JSON text
+ * @returns Fixture ID to save the run under
+ */
+export function toRunFixtureId(
+  scenario: StreamScenario = 'successful',
+  rawJson: MockStreamOptions['rawJson'] = false
+): string {
+  return rawJson ? scenario + RAW_JSON_SUFFIX : scenario;
+}
+
+/**
+ * Read back the stream a saved run was generated from
+ *
+ * @param fixtureId - Fixture ID from toRunFixtureId
+ * @returns Scenario and whether its payload streamed as raw JSON
+ */
+export function fromRunFixtureId(fixtureId: string): {
+  scenario: StreamScenario;
+  rawJson: boolean;
+} {
+  const rawJson = fixtureId.endsWith(RAW_JSON_SUFFIX);
+  const scenario = rawJson ? fixtureId.slice(0, -RAW_JSON_SUFFIX.length) : fixtureId;
+  return { scenario: scenario as StreamScenario, rawJson };
+}
 
 /**
  * Hook for processing schema validation streams
  *
  * Manages stream lifecycle, progressive validation, and error tracking.
+ * Raw JSON payloads (`payload_delta` events) are parsed incrementally, so
+ * validation runs on the partial text after every fragment.
+ *
+ * With `persistKey`, a run interrupted by a reload is offered as
+ * `savedSession`; `resumeSession()` restores it and continues the stream
+ * after the events it had received.
  */
-export function useSchemaValidation(options: MockStreamOptions = {}) {
+export function useSchemaValidation(options: UseSchemaValidationOptions = {}) {
   const [schema, setSchema] = useState<Record<string, unknown> | null>(null);
   const [payload, setPayload] = useState<Record<string, unknown>>({});
   const [isComplete, setIsComplete] = useState(false);
-  const [isStreaming, setIsStreaming] = useState(false);
+  const { phase, can, restart, transition } = useLifecycle();
   const [validationResult, setValidationResult] = useState<ValidationResult>({
     status: 'pending',
     errors: [],
@@ -33,67 +97,129 @@ export function useSchemaValidation(options: MockStreamOptions = {}) {
   const [streamErrors, setStreamErrors] = useState<ValidationError[]>([]);
 
   // Track stream abort controller
-  // eslint-disable-next-line no-undef
   const abortControllerRef = useRef<AbortController | null>(null);
 
+  // Parser for raw JSON payload text
+  const jsonParserRef = useRef<PartialJsonParser>(new PartialJsonParser());
+
+  // Saved runs: offered on mount, then recorded event by event
+  const { savedSession, begin, observe, finish, discardSession } = useSessionPersistence({
+    persistKey: options.persistKey,
+    clock: options.clock,
+  });
+
   /**
-   * Start the validation stream
+   * Run the validation stream, or continue a run saved before a reload
    */
-  const startStream = useCallback(() => {
+  const run = useCallback((resumed: PersistedSession<RecordedRun> | null) => {
     // Reset state
     setSchema(null);
     setPayload({});
     setIsComplete(false);
     setValidationResult({ status: 'pending', errors: [] });
     setStreamErrors([]);
-    setIsStreaming(true);
+    restart();
+    jsonParserRef.current.reset();
 
     // Create new abort controller
-    // eslint-disable-next-line no-undef
-    abortControllerRef.current = new AbortController();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    const { onEvent, createTransport, persistKey: _persistKey, ...streamOptions } = options;
+
+    // A resumed run continues the scenario and payload format it was saved with
+    if (resumed?.fixtureId) {
+      const saved = fromRunFixtureId(resumed.fixtureId);
+      streamOptions.scenario = saved.scenario;
+      streamOptions.rawJson = saved.rawJson && (streamOptions.rawJson || true);
+    }
+    const sessionId = begin(
+      toRunFixtureId(streamOptions.scenario, streamOptions.rawJson),
+      resumed
+    );
 
     // Start async stream processing
     (async () => {
       try {
-        const stream = createMockSchemaStream(options);
+        const transport =
+          createTransport?.() ??
+          new PatternTransport(
+            (context) => createMockSchemaStream({ ...streamOptions, clock: context.clock }),
+            adaptSchemaExchangeEvent,
+            { idPrefix: 'schema', clock: streamOptions.clock }
+          );
+        const stream = readPatternStream(transport, readSchemaExchangeEvent, {
+          sessionId,
+          history: resumed?.data.events,
+          onEvent: (event) => {
+            observe(event);
+            onEvent?.(event);
+          },
+          signal: abortController.signal,
+        });
 
         for await (const event of stream) {
           // Check if stream was aborted
-          if (abortControllerRef.current?.signal.aborted) {
+          if (abortController.signal.aborted) {
             break;
           }
 
           processEvent(event);
         }
 
-        setIsStreaming(false);
+        // A stopped stream was already closed
+        if (!abortController.signal.aborted) {
+          finish('closed');
+          transition('complete');
+        }
       } catch (error) {
         console.error('Stream error:', error);
-        setIsStreaming(false);
+        if (!abortController.signal.aborted) {
+          finish('error');
+          transition('fail');
+        }
       }
     })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [options]);
+  }, [options, begin, observe, finish, restart, transition]);
+
+  /**
+   * Start the validation stream
+   */
+  const startStream = useCallback(() => run(null), [run]);
+
+  /**
+   * Continue the run saved before a reload
+   */
+  const resumeSession = useCallback(() => {
+    if (savedSession) {
+      run(savedSession);
+    }
+  }, [savedSession, run]);
 
   /**
-   * Stop the stream
+   * Stop the stream (a stopped run is not offered for resuming)
    */
   const stopStream = useCallback(() => {
     abortControllerRef.current?.abort();
-    setIsStreaming(false);
-  }, []);
+    finish('closed');
+    if (can('close')) {
+      transition('close');
+    }
+  }, [finish, can, transition]);
 
   /**
    * Reset validation state
    */
   const reset = useCallback(() => {
     stopStream();
+    transition('reset');
     setSchema(null);
     setPayload({});
     setIsComplete(false);
     setValidationResult({ status: 'pending', errors: [] });
     setStreamErrors([]);
-  }, [stopStream]);
+  }, [stopStream, transition]);
 
   /**
    * Process individual stream events
@@ -111,6 +237,10 @@ export function useSchemaValidation(options: MockStreamOptions = {}) {
         validatePayload(event.data.chunk, event.data.complete);
         break;
 
+      case 'payload_delta':
+        handlePayloadDelta(event.data.delta);
+        break;
+
       case 'schema_error':
         handleSchemaError(event);
         break;
@@ -118,18 +248,71 @@ export function useSchemaValidation(options: MockStreamOptions = {}) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  /**
+   * Parse a raw JSON fragment and validate the payload so far
+   */
+  const handlePayloadDelta = useCallback((delta: string) => {
+    const { value, complete, openPaths, error } = jsonParserRef.current.write(delta);
+
+    if (error) {
+      setValidationResult({
+        status: 'invalid',
+        errors: [{
+          field: '__root__',
+          message: `${error.message} (line ${error.line}, column ${error.column})`,
+          severity: 'error',
+          code: 'invalid_json',
+        }],
+        partial: true,
+      });
+      return;
+    }
+
+    // Nothing to show until the root object has started
+    if (value === undefined) {
+      return;
+    }
+
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      setValidationResult({
+        status: 'invalid',
+        errors: [{
+          field: '__root__',
+          message: 'Payload must be a JSON object',
+          severity: 'error',
+        }],
+        partial: !complete,
+      });
+      return;
+    }
+
+    setPayload(value);
+    setIsComplete(complete);
+    validatePayload(value, complete, openPaths);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   /**
    * Validate payload using Zod schema
+   *
+   * Fields in `openPaths` are still streaming: their type is already known,
+   * but other issues (too short, not yet an email) may resolve as text arrives.
    */
   const validatePayload = useCallback((
     data: Record<string, unknown>,
-    complete: boolean
+    complete: boolean,
+    openPaths: string[] = []
   ) => {
     try {
       // Use partial schema for incomplete payloads
       const result = partialProjectSetupSchema.safeParse(data);
+      const issues = result.success
+        ? []
+        : result.error.issues.filter(
+          (issue) => issue.code === 'invalid_type' || !openPaths.includes(issue.path.join('.'))
+        );
 
-      if (result.success) {
+      if (issues.length === 0) {
         // Check if all required fields are present
         const hasRequiredFields = 'projectName' in data && 'budget' in data && 'teamIds' in data;
         const status: ValidationStatus = complete && hasRequiredFields ? 'valid' : 'partial';
@@ -137,12 +320,12 @@ export function useSchemaValidation(options: MockStreamOptions = {}) {
         setValidationResult({
           status,
           errors: [],
-          data: result.data,
+          data: result.success ? result.data : undefined,
           partial: !complete,
         });
       } else {
         // Convert Zod errors to our format
-        const errors: ValidationError[] = result.error.issues.map((issue) => {
+        const errors: ValidationError[] = issues.map((issue) => {
           const formatted = formatZodError(issue);
           return {
             field: formatted.field,
@@ -199,14 +382,18 @@ export function useSchemaValidation(options: MockStreamOptions = {}) {
     schema,
     payload,
     isComplete,
-    isStreaming,
+    isStreaming: phase === 'streaming',
+    phase,
     validationResult,
     streamErrors,
+    savedSession,
 
     // Actions
     startStream,
     stopStream,
     reset,
+    resumeSession,
+    discardSession,
   };
 }
 
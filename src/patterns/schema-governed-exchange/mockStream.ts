@@ -5,7 +5,16 @@
  * All streams are deterministic for reliable testing and demos.
  */
 
-import type { SchemaStreamEvent } from './types';
+import type { SchemaStreamEvent, PayloadEvent } from './types';
+import {
+  createPerEventTypeTiming,
+  createProfileTiming,
+  createTokenRateTiming,
+  type TimingModel,
+} from '@/lib/streaming/timingModels';
+import { chunkText, type TokenChunkOptions } from '@/lib/streaming/tokenChunking';
+import { systemClock, type Clock, type ClockTimer } from '@/lib/utils/clock';
+import { delay } from '@/lib/utils/delay';
 import {
   successfulValidationStream,
   errorValidationStream,
@@ -24,6 +33,15 @@ export const STREAM_SPEEDS = {
 
 export type StreamSpeed = keyof typeof STREAM_SPEEDS;
 
+/**
+ * JSON generation speed (tokens per second) for raw JSON payloads
+ */
+const RAW_JSON_TOKENS_PER_SECOND: Record<StreamSpeed, number> = {
+  fast: 200,
+  normal: 40,
+  slow: 15,
+};
+
 /**
  * Stream scenario types
  */
@@ -39,7 +57,16 @@ export type StreamScenario =
 export interface MockStreamOptions {
   scenario?: StreamScenario;
   speed?: StreamSpeed;
+  /** Custom timing model (overrides speed) */
+  timing?: TimingModel;
   onEvent?: (event: SchemaStreamEvent) => void;
+  /** Clock the delays are waited on (default: system clock; a VirtualClock in tests) */
+  clock?: Clock;
+  /**
+   * Stream the final payload as raw JSON text (`payload_delta` events) instead
+   * of pre-split chunk objects; pass options to control the fragment sizes
+   */
+  rawJson?: boolean | TokenChunkOptions;
 }
 
 /**
@@ -63,17 +90,28 @@ export async function* createMockSchemaStream(
   const {
     scenario = 'successful',
     speed = 'normal',
+    rawJson = false,
+    timing = rawJson
+      ? createPerEventTypeTiming(
+          {
+            payload_delta: createTokenRateTiming({
+              tokensPerSecond: RAW_JSON_TOKENS_PER_SECOND[speed],
+            }),
+          },
+          createProfileTiming(speed, STREAM_SPEEDS)
+        )
+      : createProfileTiming(speed, STREAM_SPEEDS),
     onEvent,
+    clock = systemClock,
   } = options;
 
   // Select fixture based on scenario
-  const fixture = getFixtureForScenario(scenario);
-  const delayMs = STREAM_SPEEDS[speed];
+  const fixture = createSyncSchemaStream(scenario, { rawJson });
 
   // Stream events with delays
-  for (const event of fixture) {
+  for (const [index, event] of fixture.entries()) {
     // Wait before sending event (simulate network latency)
-    await delay(delayMs);
+    await delay(timing.getDelay({ index, event, previous: fixture[index - 1] }), clock);
 
     // Notify callback if provided
     if (onEvent) {
@@ -104,10 +142,25 @@ function getFixtureForScenario(scenario: StreamScenario): SchemaStreamEvent[] {
 }
 
 /**
- * Promise-based delay utility
+ * Replace a fixture's payload chunks with the final payload as JSON text
+ *
+ * Server-side schema errors are dropped: with raw text, the client
+ * validates the partial payload itself.
  */
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function toRawJsonFixture(
+  fixture: SchemaStreamEvent[],
+  options: TokenChunkOptions
+): SchemaStreamEvent[] {
+  const payloads = fixture.filter((event): event is PayloadEvent => event.type === 'payload');
+  const text = JSON.stringify(payloads[payloads.length - 1]?.data.chunk ?? {}, null, 2);
+
+  return [
+    ...fixture.filter((event) => event.type === 'schema'),
+    ...chunkText(text, options).map((delta, chunkIndex): SchemaStreamEvent => ({
+      type: 'payload_delta',
+      data: { delta, chunkIndex },
+    })),
+  ];
 }
 
 /**
@@ -116,9 +169,13 @@ function delay(ms: number): Promise<void> {
  * Useful for tests where you don't want to wait for delays.
  */
 export function createSyncSchemaStream(
-  scenario: StreamScenario = 'successful'
+  scenario: StreamScenario = 'successful',
+  options: Pick<MockStreamOptions, 'rawJson'> = {}
 ): SchemaStreamEvent[] {
-  return getFixtureForScenario(scenario);
+  const { rawJson = false } = options;
+  const fixture = getFixtureForScenario(scenario);
+
+  return rawJson ? toRawJsonFixture(fixture, rawJson === true ? {} : rawJson) : fixture;
 }
 
 /**
@@ -132,10 +189,12 @@ export class SchemaStreamController {
   private paused = false;
   private speed: StreamSpeed = 'normal';
   private onEventCallback?: (event: SchemaStreamEvent) => void;
-  private intervalId?: ReturnType<typeof setInterval>;
+  private intervalId?: ClockTimer;
+  private readonly clock: Clock;
 
-  constructor(scenario: StreamScenario = 'successful') {
+  constructor(scenario: StreamScenario = 'successful', clock: Clock = systemClock) {
     this.events = getFixtureForScenario(scenario);
+    this.clock = clock;
   }
 
   /**
@@ -155,7 +214,7 @@ export class SchemaStreamController {
   pause(): void {
     this.paused = true;
     if (this.intervalId) {
-      clearTimeout(this.intervalId);
+      this.clock.clearTimeout(this.intervalId);
       this.intervalId = undefined;
     }
   }
@@ -221,8 +280,11 @@ export class SchemaStreamController {
       return;
     }
 
-    const delayMs = STREAM_SPEEDS[this.speed];
-    this.intervalId = setTimeout(() => {
+    const delayMs = createProfileTiming(this.speed, STREAM_SPEEDS).getDelay({
+      index: this.currentIndex,
+      event: this.events[this.currentIndex],
+    });
+    this.intervalId = this.clock.setTimeout(() => {
       const event = this.events[this.currentIndex];
       this.emitEvent(event);
       this.currentIndex++;
@@ -42,6 +42,17 @@ export interface PayloadEvent {
   };
 }
 
+/**
+ * Payload text event - the payload streamed as raw JSON text
+ */
+export interface PayloadDeltaEvent {
+  type: 'payload_delta';
+  data: {
+    delta: string; // Next fragment of the JSON text (may split keys, values or escapes)
+    chunkIndex: number; // sequence number for fragment ordering
+  };
+}
+
 /**
  * Schema validation error event
  */
@@ -59,7 +70,7 @@ export interface SchemaErrorEvent {
 /**
  * Union type for all stream events in this pattern
  */
-export type SchemaStreamEvent = SchemaEvent | PayloadEvent | SchemaErrorEvent;
+export type SchemaStreamEvent = SchemaEvent | PayloadEvent | PayloadDeltaEvent | SchemaErrorEvent;
 
 /**
  * Project setup payload structure (StreamFlow PM domain)
@@ -11,65 +11,65 @@
  * @pattern Streaming Validation Loop
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { DemoContainer } from '@/components/layout/DemoContainer';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
+import { ResumeSessionBanner } from '@/components/ui/ResumeSessionBanner';
 import { ScenarioCard } from '@/components/ui/ScenarioCard';
 import { PatternHelmet } from '@/components/PatternHelmet';
 import { NetworkInspector } from '@/components/NetworkInspector/NetworkInspector';
 import { useNetworkCapture } from '@/lib/hooks/useNetworkCapture';
-import type { StreamEvent as GlobalStreamEvent } from '@/types/events';
+import { toStreamScript } from '@/lib/streaming/fixtureScript';
+import { ScriptTransport } from '@/lib/streaming/transport';
 import { useValidationStream } from './hooks';
+import { budgetApprovalScriptFixture } from './fixtures';
 import { CheckpointCard } from './CheckpointCard';
 import { Timeline } from './Timeline';
-import type { StreamEvent as PatternStreamEvent } from './types';
 import styles from './ValidationLoopDemo.module.css';
 
+/**
+ * Where the demo's events come from.
+ */
+type StreamSource = 'mock' | 'script';
+
+/**
+ * Stream source options for switching between the mock and the branching script.
+ */
+const STREAM_SOURCE_OPTIONS: Array<{
+  value: StreamSource;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: 'mock',
+    label: 'Mock',
+    description: 'Generate events in the browser',
+  },
+  {
+    value: 'script',
+    label: 'Branching Script',
+    description: 'Run a fixture script that continues differently for approve, edit and skip',
+  },
+];
+
 export function ValidationLoopDemo() {
   const [showInspector, setShowInspector] = useState(false);
 
+  // State: Stream source (mock generator or branching fixture script)
+  const [streamSource, setStreamSource] = useState<StreamSource>('mock');
+
   // Network capture for debugging and visualization
   const { events, captureEvent, clearEvents, filter, setFilter } = useNetworkCapture();
 
-  /**
-   * Convert pattern-specific events to global StreamEvent format for network inspector.
-   */
-  const handleEventCapture = useCallback((event: PatternStreamEvent): void => {
-    // Map validation loop events to checkpoint/validation types
-    let globalEvent: GlobalStreamEvent;
-
-    if (event.type === 'checkpoint' && 'data' in event && typeof event.data === 'object' && event.data !== null) {
-      const checkpointData = event.data as { checkpointId?: string };
-      globalEvent = {
-        id: checkpointData.checkpointId || `${event.type}-${event.timestamp}`,
-        timestamp: event.timestamp,
-        type: 'checkpoint',
-        data: {
-          id: checkpointData.checkpointId || `checkpoint-${event.timestamp}`,
-          name: 'Budget Checkpoint',
-          status: 'pending',
-          criteria: JSON.stringify(event.data),
-          timestamp: event.timestamp,
-        },
-      };
-    } else {
-      // Default to validation type for other events
-      globalEvent = {
-        id: `${event.type}-${event.timestamp}`,
-        timestamp: event.timestamp,
-        type: 'validation',
-        data: {
-          checkpointId: `${event.type}-${event.timestamp}`,
-          passed: true,
-          message: JSON.stringify(event.data),
-          timestamp: event.timestamp,
-        },
-      };
-    }
-
-    captureEvent(globalEvent);
-  }, [captureEvent]);
+  // A new transport per stream; undefined keeps the mock generator
+  const createTransport = useMemo(
+    () =>
+      streamSource === 'script'
+        ? () => new ScriptTransport(toStreamScript(budgetApprovalScriptFixture), 'normal')
+        : undefined,
+    [streamSource]
+  );
 
   const {
     activeCheckpoint,
@@ -80,9 +80,13 @@ export function ValidationLoopDemo() {
     isWaitingForApproval,
     timeline,
     actions,
+    savedSession,
   } = useValidationStream({
     speed: 'normal',
-    onEvent: handleEventCapture,
+    onEvent: captureEvent,
+    createTransport,
+    persistKey: 'streaming-validation-loop',
+    sourceId: streamSource,
   });
 
   // Track remaining time for active checkpoint
@@ -93,6 +97,8 @@ export function ValidationLoopDemo() {
    *
    * Educational Note: This effect updates the remaining time every 100ms,
    * providing a smooth countdown animation. When time expires, we auto-approve.
+   * The countdown starts when the checkpoint is shown, so a checkpoint
+   * restored after a reload gets its full time again.
    */
   useEffect(() => {
     if (!activeCheckpoint) {
@@ -100,7 +106,7 @@ export function ValidationLoopDemo() {
       return;
     }
 
-    const startTime = activeCheckpoint.timestamp;
+    const startTime = Date.now();
     const timeoutMs = activeCheckpoint.timeoutMs;
 
     const interval = setInterval(() => {
@@ -124,6 +130,29 @@ export function ValidationLoopDemo() {
     setShowInspector((prev) => !prev);
   }, []);
 
+  /**
+   * Switch the stream source; the hook restarts with the new transport.
+   */
+  const handleStreamSourceChange = useCallback(
+    (source: StreamSource): void => {
+      clearEvents();
+      setStreamSource(source);
+    },
+    [clearEvents]
+  );
+
+  /**
+   * Continue the run saved before a reload, from the source it was saved with.
+   */
+  const handleResume = useCallback((): void => {
+    const source = STREAM_SOURCE_OPTIONS.find((option) => option.value === savedSession?.fixtureId);
+    if (source) {
+      setStreamSource(source.value);
+    }
+    clearEvents();
+    actions.resumeSession();
+  }, [savedSession, clearEvents, actions]);
+
   /**
    * Handle demo reset with network events clearing.
    */
@@ -152,6 +181,19 @@ export function ValidationLoopDemo() {
       }
     >
 
+      {/* Saved run */}
+      {savedSession && !isStreaming && (
+        <section className={styles.scenario}>
+          <ResumeSessionBanner
+            eventCount={savedSession.position}
+            savedAt={savedSession.savedAt}
+            pending={savedSession.pending}
+            onResume={handleResume}
+            onDiscard={actions.discardSession}
+          />
+        </section>
+      )}
+
       {/* Scenario Context */}
       <section className={styles.scenario}>
         <ScenarioCard
@@ -291,6 +333,7 @@ export function ValidationLoopDemo() {
         <section className={styles.inspectorSection} aria-label="Network inspector">
           <NetworkInspector
             events={events}
+            pattern="streaming-validation-loop"
             filter={filter}
             onFilterChange={setFilter}
             onClearEvents={clearEvents}
@@ -301,6 +344,20 @@ export function ValidationLoopDemo() {
 
       {/* Controls */}
       <div className={styles.controls}>
+        <div className={styles.sourceButtons} role="group" aria-label="Stream Source">
+          {STREAM_SOURCE_OPTIONS.map((option) => (
+            <Button
+              key={option.value}
+              onClick={() => handleStreamSourceChange(option.value)}
+              variant={streamSource === option.value ? 'primary' : 'secondary'}
+              size="sm"
+              aria-pressed={streamSource === option.value ? 'true' : 'false'}
+              title={option.description}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
         <Button
           onClick={handleReset}
           variant="secondary"
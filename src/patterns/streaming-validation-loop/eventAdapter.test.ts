@@ -0,0 +1,64 @@
+/**
+ * Tests for the Streaming Validation Loop event adapter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createEventAdapter } from '@/lib/streaming/eventAdapter';
+import { isStreamEvent } from '@/lib/streaming/eventSchema';
+import { adaptValidationEvent, readValidationEvent } from './eventAdapter';
+import { budgetAllocationStreamFixture } from './fixtures';
+import type { StreamEvent } from './types';
+
+const fixture = budgetAllocationStreamFixture.map(
+  (event, index) => ({ ...event, timestamp: 1000 + index }) as StreamEvent
+);
+
+describe('adaptValidationEvent', () => {
+  it('should produce valid canonical events for the whole fixture', () => {
+    const toStreamEvent = createEventAdapter(adaptValidationEvent);
+
+    fixture.forEach((event) => {
+      expect(isStreamEvent(toStreamEvent(event))).toBe(true);
+    });
+  });
+
+  it('should expose checkpoints as pending canonical checkpoints', () => {
+    const toStreamEvent = createEventAdapter(adaptValidationEvent);
+    const checkpoint = fixture.find((event) => event.type === 'checkpoint');
+    if (checkpoint?.type !== 'checkpoint') {
+      throw new Error('Fixture has no checkpoint');
+    }
+
+    expect(toStreamEvent(checkpoint).data).toMatchObject({
+      id: checkpoint.data.checkpointId,
+      status: 'pending',
+      question: checkpoint.data.question,
+      proposedValue: checkpoint.data.proposedValue,
+      actions: checkpoint.data.actions,
+    });
+  });
+});
+
+describe('readValidationEvent', () => {
+  it('should read back every event it adapts', () => {
+    const toStreamEvent = createEventAdapter(adaptValidationEvent);
+
+    fixture.forEach((event) => {
+      expect(readValidationEvent(toStreamEvent(event))).toEqual(event);
+    });
+  });
+
+  it('should ignore events the pattern does not render', () => {
+    expect(
+      readValidationEvent({ id: 't1', type: 'text', timestamp: 1, data: { text: 'Hi' } })
+    ).toBeNull();
+    expect(
+      readValidationEvent({
+        id: 'c1',
+        type: 'checkpoint',
+        timestamp: 1,
+        data: { id: 'cp', name: 'Check', status: 'pending', criteria: 'Valid?', timestamp: 1 },
+      })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Event adapter for the Streaming Validation Loop pattern.
+ *
+ * Maps checkpoint lifecycle events onto the canonical StreamEvent union.
+ * Checkpoints surface as pending canonical checkpoints carrying the
+ * question, proposed allocation and available actions; the reader maps
+ * them back, so the hook can render checkpoints from any transport.
+ *
+ * @module patterns/streaming-validation-loop/eventAdapter
+ */
+
+import type { EventAdapter, EventReader } from '@/lib/streaming/eventAdapter';
+import type { StreamEvent } from './types';
+
+/**
+ * Convert a validation loop stream event to a canonical stream event.
+ *
+ * @example
+ * ```typescript
+ * const toStreamEvent = createEventAdapter(adaptValidationEvent, { idPrefix: 'validation' });
+ * captureEvent(toStreamEvent(event));
+ * ```
+ */
+export const adaptValidationEvent: EventAdapter<StreamEvent> = (event, { id, timestamp }) => {
+  switch (event.type) {
+    case 'checkpoint':
+      return {
+        id,
+        timestamp,
+        type: 'checkpoint',
+        data: {
+          id: event.data.checkpointId,
+          name: 'Budget Checkpoint',
+          status: 'pending',
+          criteria: event.data.question,
+          timestamp,
+          question: event.data.question,
+          proposedValue: event.data.proposedValue,
+          actions: event.data.actions,
+          timeoutMs: event.data.timeoutMs,
+        },
+      };
+    case 'checkpoint_response':
+      return { id, timestamp, type: 'checkpoint_response', data: event.data };
+    case 'checkpoint_resume':
+      return { id, timestamp, type: 'checkpoint_resume', data: event.data };
+    case 'budget_analysis':
+      return { id, timestamp, type: 'budget_analysis', data: event.data };
+    case 'final_plan':
+      return { id, timestamp, type: 'final_plan', data: event.data };
+  }
+};
+
+/**
+ * Read a canonical stream event as a validation loop stream event.
+ *
+ * Checkpoints without a proposed allocation cannot be reviewed and are
+ * skipped.
+ *
+ * @example
+ * ```typescript
+ * for await (const event of readPatternStream(transport, readValidationEvent)) {
+ *   processEvent(event);
+ * }
+ * ```
+ */
+export const readValidationEvent: EventReader<StreamEvent> = (event) => {
+  const { timestamp } = event;
+
+  switch (event.type) {
+    case 'checkpoint': {
+      const { id, question, criteria, proposedValue, actions, timeoutMs } = event.data;
+      if (!proposedValue) {
+        return null;
+      }
+
+      return {
+        type: 'checkpoint',
+        timestamp,
+        data: {
+          checkpointId: id,
+          phase: 'waiting_for_approval',
+          question: question ?? criteria,
+          proposedValue,
+          actions: actions ?? ['approve', 'edit', 'skip'],
+          timeoutMs: timeoutMs ?? 0,
+        },
+      };
+    }
+    case 'checkpoint_response':
+      return { type: 'checkpoint_response', timestamp, data: event.data };
+    case 'checkpoint_resume':
+      return { type: 'checkpoint_resume', timestamp, data: event.data };
+    case 'budget_analysis':
+      return { type: 'budget_analysis', timestamp, data: event.data };
+    case 'final_plan':
+      return { type: 'final_plan', timestamp, data: event.data };
+    default:
+      return null;
+  }
+};
@@ -8,6 +8,9 @@
  * @scenario StreamFlow PM Q1 budget allocation across engineering teams
  */
 
+import { createFixture, type Fixture } from '@/lib/streaming/fixtureRepository';
+import type { ScriptStep } from '@/lib/streaming/fixtureScript';
+import type { StreamEvent as CanonicalStreamEvent } from '@/types/events';
 import type { BudgetAllocation, StreamEvent } from './types';
 
 /**
@@ -269,3 +272,147 @@ export function getDefaultAllocation(team: string): BudgetAllocation {
     rationale: `Budget allocation skipped by user. Team ${team} receives no allocation for Q1.`,
   };
 }
+
+/**
+ * Recorded time of the branching script's library events (emitted events are
+ * stamped when the script emits them).
+ */
+const SCRIPT_RECORDED_AT = 1699564800000;
+
+/**
+ * Library events for one team in the branching script fixture.
+ *
+ * Educational Note: Besides the analysis and checkpoint, each team has one
+ * continuation per user action. The edited resume carries the user's value
+ * through the `{{response.data.editedValue}}` placeholder.
+ */
+function teamScriptEvents(allocation: BudgetAllocation): CanonicalStreamEvent[] {
+  const slug = allocation.team.toLowerCase();
+  const analysis = budgetAnalyses[allocation.team];
+  const budget = allocation.budget.toLocaleString('en-US');
+  const question = `Approve $${budget} allocation to ${allocation.team} team?`;
+
+  const resume = (outcome: string, approvedValue: BudgetAllocation): CanonicalStreamEvent => ({
+    id: `resume-${slug}-${outcome}`,
+    type: 'checkpoint_resume',
+    timestamp: SCRIPT_RECORDED_AT,
+    data: { checkpointId: `checkpoint-${slug}`, approvedValue, phase: 'resuming' },
+  });
+  const note = (outcome: string, text: string): CanonicalStreamEvent => ({
+    id: `analysis-${slug}-${outcome}`,
+    type: 'budget_analysis',
+    timestamp: SCRIPT_RECORDED_AT,
+    data: { team: allocation.team, analysis: `${analysis}\n\n${text}` },
+  });
+
+  return [
+    {
+      id: `analysis-${slug}`,
+      type: 'budget_analysis',
+      timestamp: SCRIPT_RECORDED_AT,
+      data: { team: allocation.team, analysis },
+    },
+    {
+      id: `checkpoint-${slug}`,
+      type: 'checkpoint',
+      timestamp: SCRIPT_RECORDED_AT,
+      data: {
+        id: `checkpoint-${slug}`,
+        name: 'Budget Checkpoint',
+        status: 'pending',
+        criteria: question,
+        timestamp: SCRIPT_RECORDED_AT,
+        question,
+        proposedValue: allocation,
+        actions: ['approve', 'edit', 'skip'],
+        timeoutMs: 30000,
+      },
+    },
+    resume('approved', allocation),
+    note(
+      'edited',
+      'Revised by reviewer: ${{response.data.editedValue.budget}} for ' +
+        '{{response.data.editedValue.headcount}} FTEs and ' +
+        '{{response.data.editedValue.contractors}} contractors.'
+    ),
+    // Whole placeholder: emitted with the user's edited allocation object
+    resume('edited', '{{response.data.editedValue}}' as unknown as BudgetAllocation),
+    note('skipped', `Skipped by reviewer: ${allocation.team} receives no Q1 allocation.`),
+    resume('skipped', getDefaultAllocation(allocation.team)),
+    note('timeout', 'No response within 30 seconds: approving the proposal.'),
+  ];
+}
+
+/**
+ * Script steps for one team: analyze, pause at the checkpoint, then branch
+ * on the user's action (or the timeout).
+ */
+function teamScriptSteps(allocation: BudgetAllocation): ScriptStep[] {
+  const slug = allocation.team.toLowerCase();
+
+  return [
+    { emit: `analysis-${slug}` },
+    { emit: `checkpoint-${slug}` },
+    {
+      wait: {
+        type: 'checkpoint_response',
+        as: 'response',
+        match: { 'data.checkpointId': `checkpoint-${slug}` },
+        timeoutMs: 30000,
+        cases: [
+          { when: { 'data.action': 'approve' }, steps: [{ emit: `resume-${slug}-approved` }] },
+          {
+            when: { 'data.action': 'edit' },
+            steps: [{ emit: `analysis-${slug}-edited` }, { emit: `resume-${slug}-edited` }],
+          },
+          {
+            when: { 'data.action': 'skip' },
+            steps: [{ emit: `analysis-${slug}-skipped` }, { emit: `resume-${slug}-skipped` }],
+          },
+        ],
+        onTimeout: [{ emit: `analysis-${slug}-timeout` }, { emit: `resume-${slug}-approved` }],
+      },
+    },
+  ];
+}
+
+/**
+ * Branching script fixture for the budget allocation scenario.
+ *
+ * Educational Note: Unlike the linear fixture above, this fixture decides at
+ * runtime how the agent continues: approving, editing and skipping a
+ * checkpoint each lead to a different continuation, and the agent
+ * auto-approves when no response arrives in time. Run it with
+ * `new ScriptTransport(toStreamScript(budgetApprovalScriptFixture))`; the
+ * checkpoint actions send the `checkpoint_response` the script waits for.
+ */
+export const budgetApprovalScriptFixture: Fixture = {
+  ...createFixture(
+    'streaming-validation-loop-budget-approval-script',
+    [
+      ...defaultAllocations.flatMap(teamScriptEvents),
+      {
+        id: 'final-plan',
+        type: 'final_plan',
+        timestamp: SCRIPT_RECORDED_AT,
+        data: {
+          allocations: defaultAllocations,
+          totalBudget: defaultAllocations.reduce((sum, a) => sum + a.budget, 0),
+          summary: `Q1 Budget Allocation Plan - Reviewed
+
+Proposed Total: $1,100,000
+
+Every team allocation was reviewed at its checkpoint.
+Approved, edited and skipped allocations are listed above.`,
+        },
+      },
+    ],
+    {
+      name: 'Budget Approval (Branching Script)',
+      pattern: 'streaming-validation-loop',
+      description: 'Budget checkpoints whose continuation depends on approve, edit or skip',
+      tags: ['checkpoint', 'branching', 'script'],
+    }
+  ),
+  script: [...defaultAllocations.flatMap(teamScriptSteps), { emit: 'final-plan' }],
+};
@@ -0,0 +1,96 @@
+/**
+ * Tests for the Streaming Validation Loop hook.
+ *
+ * @pattern Streaming Validation Loop
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { useValidationStream } from './hooks';
+
+describe('useValidationStream session persistence', () => {
+  const persistKey = 'streaming-validation-loop-test';
+
+  /**
+   * Approve the first checkpoint, wait at the second, then "reload"
+   */
+  async function runUntilSecondCheckpoint() {
+    const { result, unmount } = renderHook(() =>
+      useValidationStream({ speed: 'fast', persistKey })
+    );
+
+    await waitFor(() => expect(result.current.activeCheckpoint?.id).toBe('checkpoint-frontend'), {
+      timeout: 5000,
+    });
+    act(() => {
+      result.current.actions.approve('checkpoint-frontend');
+    });
+    await waitFor(() => expect(result.current.activeCheckpoint?.id).toBe('checkpoint-backend'), {
+      timeout: 5000,
+    });
+
+    unmount();
+  }
+
+  it('should offer the saved run instead of auto-starting', async () => {
+    await runUntilSecondCheckpoint();
+
+    const { result } = renderHook(() => useValidationStream({ speed: 'fast', persistKey }));
+
+    expect(result.current.isStreaming).toBe(false);
+    expect(result.current.checkpoints.size).toBe(0);
+    expect(result.current.savedSession?.pending).toMatchObject({
+      type: 'checkpoint',
+      data: { id: 'checkpoint-backend' },
+    });
+  });
+
+  it('should resume at the waiting checkpoint without asking answered ones again', async () => {
+    await runUntilSecondCheckpoint();
+    const onEvent = vi.fn();
+    const { result } = renderHook(() =>
+      useValidationStream({ speed: 'fast', persistKey, onEvent })
+    );
+
+    act(() => {
+      result.current.actions.resumeSession();
+    });
+
+    await waitFor(() => expect(result.current.activeCheckpoint?.id).toBe('checkpoint-backend'));
+    expect(result.current.checkpoints.get('checkpoint-frontend')?.actionTaken).toBe('approve');
+    expect(result.current.timeline.map((entry) => entry.checkpointId)).toEqual([
+      'checkpoint-frontend',
+    ]);
+
+    for (const checkpointId of ['checkpoint-backend', 'checkpoint-mobile', 'checkpoint-platform']) {
+      await waitFor(() => expect(result.current.activeCheckpoint?.id).toBe(checkpointId), {
+        timeout: 5000,
+      });
+      act(() => {
+        result.current.actions.approve(checkpointId);
+      });
+    }
+    await waitFor(() => expect(result.current.planSummary).not.toBe(''), { timeout: 5000 });
+
+    const frontendPrompts = onEvent.mock.calls.filter(
+      ([event]) => event.type === 'checkpoint' && event.data.id === 'checkpoint-frontend'
+    );
+    expect(frontendPrompts).toHaveLength(1);
+    expect(result.current.timeline).toHaveLength(4);
+    expect(localStorage.length).toBe(0);
+  }, 15000);
+
+  it('should start over when the saved run is discarded', async () => {
+    await runUntilSecondCheckpoint();
+    const { result } = renderHook(() => useValidationStream({ speed: 'fast', persistKey }));
+
+    act(() => {
+      result.current.actions.discardSession();
+    });
+
+    await waitFor(() => expect(result.current.activeCheckpoint?.id).toBe('checkpoint-frontend'), {
+      timeout: 5000,
+    });
+    expect(result.current.savedSession).toBeNull();
+  });
+});
@@ -11,12 +11,25 @@
  * - User action responses
  * - Timeline generation
  * - Timeout handling
+ * - Saving the run, so a reload can resume it at the same checkpoint
  *
  * @pattern Streaming Validation Loop
  */
 
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { createValidationStream, type StreamSpeed } from './mockStream';
+import { adaptValidationEvent, readValidationEvent } from './eventAdapter';
+import { PatternTransport, readPatternStream } from '@/lib/streaming/eventAdapter';
+import { StreamSession } from '@/lib/streaming/streamSession';
+import {
+  getResumeConfig,
+  type PersistedSession,
+  type RecordedRun,
+} from '@/lib/streaming/sessionPersistence';
+import type { StreamTransport } from '@/lib/streaming/transport';
+import { useSessionPersistence } from '@/lib/hooks/useSessionPersistence';
+import { useLifecycle } from '@/lib/hooks/useLifecycle';
+import type { StreamEvent as CanonicalStreamEvent } from '@/types/events';
 import type {
   Checkpoint,
   BudgetAllocation,
@@ -39,8 +52,23 @@ export interface UseValidationStreamOptions {
   /** Callback when stream completes */
   onComplete?: () => void;
 
-  /** Callback for each stream event (for network inspector) */
-  onEvent?: (event: StreamEvent) => void;
+  /** Callback for each canonical stream event (for network inspector) */
+  onEvent?: (event: CanonicalStreamEvent) => void;
+
+  /** Event source to read instead of the mock stream */
+  createTransport?: () => StreamTransport;
+
+  /**
+   * Save the run under this key, so a reload can resume it. While a saved
+   * run is offered, the stream does not auto-start.
+   */
+  persistKey?: string;
+
+  /**
+   * Names the event source in saved runs (e.g. which script `createTransport`
+   * runs), so the caller can supply the same source when resuming
+   */
+  sourceId?: string;
 }
 
 /**
@@ -49,9 +77,9 @@ export interface UseValidationStreamOptions {
  * Educational Note: This hook demonstrates the complete state management
  * pattern for checkpoint-based validation. Key concepts:
  *
- * 1. Checkpoint Queue: We use a promise-based queue to pause the stream
- *    until user responds. Each checkpoint creates a promise that resolves
- *    when the user takes an action.
+ * 1. Checkpoint Responses: The stream pauses at each checkpoint until the
+ *    user responds. Each action sends a checkpoint_response event back
+ *    through the stream session, which the paused stream is waiting for.
  *
  * 2. Active Checkpoint: Only one checkpoint is active at a time. The stream
  *    pauses until that checkpoint is resolved.
@@ -65,7 +93,15 @@ export interface UseValidationStreamOptions {
 export function useValidationStream(
   options: UseValidationStreamOptions = {}
 ): UseValidationStreamReturn {
-  const { speed = 'normal', autoStart = true, onComplete, onEvent } = options;
+  const {
+    speed = 'normal',
+    autoStart = true,
+    onComplete,
+    onEvent,
+    createTransport,
+    persistKey,
+    sourceId,
+  } = options;
 
   // State: All checkpoints
   const [checkpoints, setCheckpoints] = useState<Map<string, Checkpoint>>(
@@ -86,8 +122,8 @@ export function useValidationStream(
   // State: Final plan summary
   const [planSummary, setPlanSummary] = useState<string>('');
 
-  // State: Streaming status
-  const [isStreaming, setIsStreaming] = useState<boolean>(false);
+  // State: Stream lifecycle; checkpoints move it to 'awaiting' until resolved
+  const { phase, restart, transition, observe: observeLifecycle } = useLifecycle();
 
   // State: Waiting for approval status
   const [isWaitingForApproval, setIsWaitingForApproval] =
@@ -96,19 +132,17 @@ export function useValidationStream(
   // State: Timeline entries
   const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
 
-  // Ref: Checkpoint response resolvers
-  // This is the key to pausing the stream - we store promise resolvers
-  // and call them when the user responds to a checkpoint.
-  const checkpointResolvers = useRef<
-    Map<
-      string,
-      (response: { action: CheckpointAction; editedValue?: BudgetAllocation }) => void
-    >
-  >(new Map());
+  // Ref: Session of the running stream
+  // This is the key to resuming the stream - checkpoint responses are sent
+  // through it, and the paused stream continues when its response arrives.
+  const sessionRef = useRef<StreamSession | null>(null);
 
   // Ref: Track if stream should be cancelled
   const isCancelled = useRef<boolean>(false);
 
+  // Ref: Aborts the running stream's session on reset/unmount
+  const abortControllerRef = useRef<AbortController | null>(null);
+
   // Ref: Store onEvent callback to avoid re-renders
   // Educational Note: Using a ref prevents the callback from causing
   // useEffect re-runs when the parent component re-renders with a new
@@ -116,72 +150,55 @@ export function useValidationStream(
   const onEventRef = useRef(onEvent);
   onEventRef.current = onEvent;
 
-  /**
-   * Approve a checkpoint with the proposed value.
-   *
-   * Educational Note: This action resolves the checkpoint promise with
-   * an 'approve' action, allowing the stream to resume.
-   */
-  const approve = useCallback((checkpointId: string) => {
-    const resolver = checkpointResolvers.current.get(checkpointId);
-    if (resolver) {
-      resolver({ action: 'approve' });
-      checkpointResolvers.current.delete(checkpointId);
-    }
-  }, []);
+  // Ref: Latest startStream, so reset restarts with the current options
+  const startStreamRef = useRef<() => Promise<void>>();
 
-  /**
-   * Edit a checkpoint with a modified value.
-   *
-   * Educational Note: This action resolves the checkpoint promise with
-   * an 'edit' action and the user's modified value.
-   */
-  const edit = useCallback(
-    (checkpointId: string, editedValue: BudgetAllocation) => {
-      const resolver = checkpointResolvers.current.get(checkpointId);
-      if (resolver) {
-        resolver({ action: 'edit', editedValue });
-        checkpointResolvers.current.delete(checkpointId);
-      }
-    },
-    []
-  );
+  // Saved runs: offered on mount, then recorded event by event
+  const {
+    savedSession,
+    begin,
+    observe,
+    finish,
+    discardSession: clearSavedSession,
+  } = useSessionPersistence({ persistKey });
+  const savedSessionRef = useRef(savedSession);
+  savedSessionRef.current = savedSession;
 
-  /**
-   * Skip a checkpoint (use default/fallback value).
-   *
-   * Educational Note: This action resolves the checkpoint promise with
-   * a 'skip' action, causing the stream to use a default value.
-   */
-  const skip = useCallback((checkpointId: string) => {
-    const resolver = checkpointResolvers.current.get(checkpointId);
-    if (resolver) {
-      resolver({ action: 'skip' });
-      checkpointResolvers.current.delete(checkpointId);
-    }
-  }, []);
+  // Ref: Saved run the next stream continues (set by resumeSession)
+  const resumeRef = useRef<PersistedSession<RecordedRun> | null>(null);
+
+  // State: Bumped to (re)start the stream after resuming or discarding a saved run
+  const [runTrigger, setRunTrigger] = useState(0);
 
   /**
-   * Reset the demo to initial state.
+   * Clear all stream-derived state.
    */
-  const reset = useCallback(() => {
-    isCancelled.current = true;
+  const clearState = useCallback(() => {
     setCheckpoints(new Map());
     setActiveCheckpoint(null);
     setAnalyses(new Map());
     setAllocations([]);
     setPlanSummary('');
-    setIsStreaming(false);
     setIsWaitingForApproval(false);
     setTimeline([]);
-    checkpointResolvers.current.clear();
+    sessionRef.current = null;
+  }, []);
+
+  /**
+   * Reset the demo to initial state.
+   */
+  const reset = useCallback(() => {
+    isCancelled.current = true;
+    abortControllerRef.current?.abort();
+    clearState();
+    transition('reset');
 
     // Restart stream after brief delay
     setTimeout(() => {
       isCancelled.current = false;
-      startStream();
+      startStreamRef.current?.();
     }, 100);
-  }, []);
+  }, [clearState, transition]);
 
   /**
    * Process a stream event.
@@ -192,11 +209,7 @@ export function useValidationStream(
    */
   const processEvent = useCallback(
     (event: StreamEvent) => {
-      // Call event callback for network inspector
-      // Use ref to avoid dependency on onEvent which may change every render
-      if (onEventRef.current) {
-        onEventRef.current(event);
-      }
+      observeLifecycle(event);
 
       switch (event.type) {
         case 'budget_analysis':
@@ -287,63 +300,204 @@ export function useValidationStream(
           break;
       }
     },
-    [] // No dependencies - uses refs for callbacks to avoid re-renders
+    [observeLifecycle] // Stable - uses refs for callbacks to avoid re-renders
   );
 
   /**
-   * Start the validation stream.
+   * Send the user's response to a checkpoint.
    *
-   * Educational Note: This function initializes the stream generator and
-   * processes events. The checkpoint response handler is key - it creates
-   * a promise for each checkpoint and stores the resolver. When the user
-   * responds, we call the resolver to unblock the stream.
+   * Educational Note: The response goes out through the session, so the
+   * Network Inspector shows it as a sent event, and is applied locally so
+   * the checkpoint records which action the user took.
    */
-  const startStream = useCallback(async () => {
-    setIsStreaming(true);
-    isCancelled.current = false;
-
-    try {
-      // Create stream with checkpoint response handler
-      const stream = createValidationStream({
-        speed,
-        onCheckpointResponse: async (checkpointId: string) => {
-          // Create a promise that will be resolved when user responds
-          return new Promise((resolve) => {
-            // Store the resolver so we can call it later
-            checkpointResolvers.current.set(checkpointId, resolve);
-          });
-        },
-      });
+  const respond = useCallback(
+    (checkpointId: string, action: CheckpointAction, editedValue?: BudgetAllocation) => {
+      const session = sessionRef.current;
+      if (!session) {
+        return;
+      }
 
-      // Process each event from the stream
-      for await (const event of stream) {
-        if (isCancelled.current) {
-          break;
-        }
+      const response: CanonicalStreamEvent = {
+        id: `response-${checkpointId}`,
+        type: 'checkpoint_response',
+        timestamp: Date.now(),
+        data: { checkpointId, action, editedValue },
+      };
+      session.send(response);
+
+      const event = readValidationEvent(response);
+      if (event) {
         processEvent(event);
       }
+    },
+    [processEvent]
+  );
+
+  /**
+   * Approve a checkpoint with the proposed value.
+   *
+   * Educational Note: This action sends an 'approve' response, allowing
+   * the stream to resume with the proposed value.
+   */
+  const approve = useCallback(
+    (checkpointId: string) => respond(checkpointId, 'approve'),
+    [respond]
+  );
 
-      // Stream complete
-      setIsStreaming(false);
-      if (onComplete && !isCancelled.current) {
-        onComplete();
+  /**
+   * Edit a checkpoint with a modified value.
+   *
+   * Educational Note: This action sends an 'edit' response carrying the
+   * user's modified value.
+   */
+  const edit = useCallback(
+    (checkpointId: string, editedValue: BudgetAllocation) =>
+      respond(checkpointId, 'edit', editedValue),
+    [respond]
+  );
+
+  /**
+   * Skip a checkpoint (use default/fallback value).
+   *
+   * Educational Note: This action sends a 'skip' response, causing the
+   * stream to use a default value.
+   */
+  const skip = useCallback((checkpointId: string) => respond(checkpointId, 'skip'), [respond]);
+
+  /**
+   * Start the validation stream.
+   *
+   * Educational Note: This function opens a stream session and processes
+   * events. The session is key - the stream waits at each checkpoint for a
+   * checkpoint_response, and the user's actions send it through the session
+   * to unblock the stream.
+   *
+   * A resumed run first reads back its saved events, which restores the
+   * checkpoint it was waiting at. The responses it already sent are restored
+   * into the session, so the stream passes the checkpoints they answered.
+   */
+  const runStream = useCallback(
+    async (resumed: PersistedSession<RecordedRun> | null) => {
+      // A new stream (e.g. from a new transport) starts from a clean slate
+      clearState();
+      restart();
+      isCancelled.current = false;
+
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      const history = resumed?.data.events ?? [];
+      const sessionId = begin(sourceId, resumed);
+
+      try {
+        // Create the mock stream, unless a transport (fixture, SSE endpoint)
+        // supplies the events instead
+        const transport =
+          createTransport?.() ??
+          new PatternTransport(
+            (context) => createValidationStream({ speed, clock: context.clock }, context),
+            adaptValidationEvent,
+            { idPrefix: 'validation' }
+          );
+
+        // Use ref to avoid dependency on onEvent which may change every render
+        const forwardEvent = (event: CanonicalStreamEvent) => {
+          observe(event);
+          onEventRef.current?.(event);
+        };
+
+        // Own the session so checkpoint responses can be sent back on it
+        const session = new StreamSession({
+          sessionId,
+          transport,
+          onSend: forwardEvent,
+          ...getResumeConfig(history),
+        });
+        sessionRef.current = session;
+
+        const stream = readPatternStream(session, readValidationEvent, {
+          history,
+          onEvent: forwardEvent,
+          signal: abortController.signal,
+        });
+
+        // Process each event from the stream
+        for await (const event of stream) {
+          if (isCancelled.current) {
+            break;
+          }
+          processEvent(event);
+        }
+
+        // Stream complete
+        if (!isCancelled.current) {
+          finish('closed');
+          transition('complete');
+          onComplete?.();
+        }
+      } catch (error) {
+        console.error('Stream error:', error);
+        if (!isCancelled.current) {
+          finish('error');
+          transition('fail');
+        }
       }
-    } catch (error) {
-      console.error('Stream error:', error);
-      setIsStreaming(false);
+    },
+    [
+      speed,
+      processEvent,
+      onComplete,
+      createTransport,
+      sourceId,
+      clearState,
+      begin,
+      observe,
+      finish,
+      restart,
+      transition,
+    ]
+  );
+
+  const startStream = useCallback(() => runStream(null), [runStream]);
+  startStreamRef.current = startStream;
+
+  /**
+   * Continue the run saved before a reload (after the next render, so
+   * options changed together with the call, e.g. the source, apply).
+   */
+  const resumeSession = useCallback(() => {
+    if (savedSessionRef.current) {
+      resumeRef.current = savedSessionRef.current;
+      savedSessionRef.current = null;
+      setRunTrigger((prev) => prev + 1);
     }
-  }, [speed, processEvent, onComplete]);
+  }, []);
 
-  // Auto-start stream on mount
+  /**
+   * Drop the saved run and start over (if autoStart).
+   */
+  const discardSession = useCallback(() => {
+    clearSavedSession();
+    savedSessionRef.current = null;
+    setRunTrigger((prev) => prev + 1);
+  }, [clearSavedSession]);
+
+  // Start the stream on mount (unless a saved run is offered), with a new
+  // source, or to continue a saved run
   useEffect(() => {
-    if (autoStart) {
-      startStream();
+    const resumed = resumeRef.current;
+    resumeRef.current = null;
+
+    if (resumed) {
+      void runStream(resumed);
+    } else if (autoStart && !savedSessionRef.current) {
+      void runStream(null);
     }
 
     return () => {
       isCancelled.current = true;
+      abortControllerRef.current?.abort();
     };
-  }, [autoStart, startStream]);
+  }, [autoStart, runStream, runTrigger]);
 
   // Memoize actions object to prevent unnecessary re-renders
   // Educational Note: Without memoization, a new actions object is created
@@ -354,8 +508,10 @@ export function useValidationStream(
       edit,
       skip,
       reset,
+      resumeSession,
+      discardSession,
     }),
-    [approve, edit, skip, reset]
+    [approve, edit, skip, reset, resumeSession, discardSession]
   );
 
   return {
@@ -364,9 +520,11 @@ export function useValidationStream(
     analyses,
     allocations,
     planSummary,
-    isStreaming,
+    isStreaming: phase === 'streaming' || phase === 'awaiting',
+    phase,
     isWaitingForApproval,
     timeline,
     actions,
+    savedSession,
   };
 }
@@ -6,11 +6,16 @@
  *
  * Educational Note: In a real implementation, the server would emit checkpoint events
  * and await client responses before continuing. This mock simulates that behavior
- * using async generators and event callbacks.
+ * using async generators that wait for the client's checkpoint_response events.
  *
  * @pattern Streaming Validation Loop
  */
 
+import { InboundChannel } from '@/lib/streaming/inboundChannel';
+import { createProfileTiming, type TimingModel } from '@/lib/streaming/timingModels';
+import type { ScriptContext } from '@/lib/streaming/transport';
+import { systemClock, type Clock } from '@/lib/utils/clock';
+import { delay } from '@/lib/utils/delay';
 import {
   budgetAllocationStreamFixture,
   getDefaultAllocation,
@@ -19,7 +24,6 @@ import type {
   StreamEvent,
   CheckpointAction,
   BudgetAllocation,
-  CheckpointResponseEvent,
   CheckpointResumeEvent,
   FinalPlanEvent,
   CheckpointEvent,
@@ -36,20 +40,6 @@ const SPEED_DELAYS: Record<StreamSpeed, number> = {
   slow: 1500, // 1.5s between events (educational/slow-motion)
 };
 
-/**
- * Checkpoint response handler type.
- *
- * Educational Note: This callback allows the UI to provide user responses
- * to checkpoints. The stream generator will pause and await this callback
- * before continuing.
- */
-export type CheckpointResponseHandler = (
-  checkpointId: string
-) => Promise<{
-  action: CheckpointAction;
-  editedValue?: BudgetAllocation;
-}>;
-
 /**
  * Options for creating a validation stream.
  */
@@ -57,8 +47,11 @@ export interface ValidationStreamOptions {
   /** Speed of stream event emission */
   speed?: StreamSpeed;
 
-  /** Handler for checkpoint responses (required for pausing) */
-  onCheckpointResponse: CheckpointResponseHandler;
+  /** Custom timing model (overrides speed) */
+  timing?: TimingModel;
+
+  /** Clock for delays and event timestamps (default: system clock; a VirtualClock in tests) */
+  clock?: Clock;
 }
 
 /**
@@ -67,7 +60,7 @@ export interface ValidationStreamOptions {
  * Educational Note: This generator demonstrates the core mechanic of the pattern:
  * 1. Stream events normally until a checkpoint is reached
  * 2. Emit checkpoint event and PAUSE (await user response)
- * 3. User responds via the onCheckpointResponse callback
+ * 3. User responds by sending a checkpoint_response (`session.send()`)
  * 4. Emit checkpoint_resume event with approved value
  * 5. Continue streaming
  *
@@ -75,23 +68,43 @@ export interface ValidationStreamOptions {
  * pause/resume logic simple to implement and understand.
  *
  * @param options - Stream configuration options
+ * @param context - Script context whose `waitFor` receives client events
  * @returns Async generator yielding stream events
+ *
+ * @example
+ * ```typescript
+ * const transport = new PatternTransport(
+ *   (context) => createValidationStream({ speed: 'fast' }, context),
+ *   adaptValidationEvent
+ * );
+ * ```
  */
 export async function* createValidationStream(
-  options: ValidationStreamOptions
+  options: ValidationStreamOptions,
+  { waitFor }: ScriptContext
 ): AsyncGenerator<StreamEvent> {
-  const { speed = 'normal', onCheckpointResponse } = options;
-  const delayMs = SPEED_DELAYS[speed];
+  const {
+    speed = 'normal',
+    timing = createProfileTiming(speed, SPEED_DELAYS),
+    clock = systemClock,
+  } = options;
 
   // Process each event in the fixture
-  for (const fixtureEvent of budgetAllocationStreamFixture) {
+  for (const [index, fixtureEvent] of budgetAllocationStreamFixture.entries()) {
     // Add delay before each event (simulates network latency)
-    await delay(delayMs);
+    await delay(
+      timing.getDelay({
+        index,
+        event: fixtureEvent,
+        previous: budgetAllocationStreamFixture[index - 1],
+      }),
+      clock
+    );
 
     // Add timestamp to event
     const event: StreamEvent = {
       ...fixtureEvent,
-      timestamp: Date.now(),
+      timestamp: clock.now(),
     } as StreamEvent;
 
     // Emit the event
@@ -102,20 +115,12 @@ export async function* createValidationStream(
       const checkpointId = event.data.checkpointId;
 
       // CRITICAL: This is where the stream pauses!
-      // The generator will not continue until the promise resolves.
-      const response = await onCheckpointResponse(checkpointId);
-
-      // User responded - emit the response event
-      const responseEvent: CheckpointResponseEvent = {
-        type: 'checkpoint_response',
-        data: {
-          checkpointId,
-          action: response.action,
-          editedValue: response.editedValue,
-        },
-        timestamp: Date.now(),
-      };
-      yield responseEvent;
+      // The generator will not continue until the client answers this
+      // checkpoint. The response is the client's event, so it is not
+      // yielded back; the session reports it as outbound.
+      const { data: response } = await waitFor('checkpoint_response', {
+        predicate: (e) => e.data.checkpointId === checkpointId,
+      });
 
       // Determine the approved value based on user action
       let approvedValue: BudgetAllocation;
@@ -139,10 +144,11 @@ export async function* createValidationStream(
           approvedValue,
           phase: 'resuming',
         },
-        timestamp: Date.now(),
+        timestamp: clock.now(),
       };
 
-      await delay(delayMs / 2); // Brief pause before resuming
+      // Brief pause before resuming
+      await delay(timing.getDelay({ index, event: resumeEvent, previous: event }) / 2, clock);
       yield resumeEvent;
 
       // Update the final plan to include approved value
@@ -152,15 +158,6 @@ export async function* createValidationStream(
   }
 }
 
-/**
- * Simple delay utility for simulating network latency.
- *
- * @param ms - Milliseconds to delay
- */
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 /**
  * Updates the final plan with an approved budget allocation.
  *
@@ -200,6 +197,40 @@ function updateFinalPlanWithApprovedValue(
   }
 }
 
+/**
+ * Runs a validation stream, answering each checkpoint from the client side.
+ *
+ * @param speed - Stream speed setting
+ * @param respond - Chooses the action for a checkpoint (after any delay)
+ * @param clock - Clock for delays and timestamps
+ */
+async function* answerCheckpoints(
+  speed: StreamSpeed,
+  respond: (checkpoint: CheckpointEvent) => Promise<CheckpointAction>,
+  clock: Clock
+): AsyncGenerator<StreamEvent> {
+  const channel = new InboundChannel(clock);
+  const stream = createValidationStream(
+    { speed, clock },
+    { waitFor: (type, options) => channel.waitFor(type, options), clock }
+  );
+
+  for await (const event of stream) {
+    yield event;
+
+    if (event.type === 'checkpoint') {
+      const { checkpointId } = event.data;
+      const action = await respond(event);
+      channel.send({
+        id: `response-${checkpointId}`,
+        type: 'checkpoint_response',
+        timestamp: clock.now(),
+        data: { checkpointId, action },
+      });
+    }
+  }
+}
+
 /**
  * Creates a validation stream with automatic approval (for testing).
  *
@@ -209,19 +240,22 @@ function updateFinalPlanWithApprovedValue(
  *
  * @param speed - Stream speed setting
  * @param autoApproveDelayMs - Delay before auto-approving (default 100ms)
+ * @param clock - Clock for delays and timestamps (default: system clock)
  */
 export async function* createAutoApproveValidationStream(
   speed: StreamSpeed = 'fast',
-  autoApproveDelayMs: number = 100
+  autoApproveDelayMs: number = 100,
+  clock: Clock = systemClock
 ): AsyncGenerator<StreamEvent> {
-  // Create a checkpoint handler that auto-approves
-  const onCheckpointResponse: CheckpointResponseHandler = async () => {
-    await delay(autoApproveDelayMs);
-    return { action: 'approve' };
-  };
-
-  // Use the standard stream with auto-approve handler
-  yield* createValidationStream({ speed, onCheckpointResponse });
+  // Answer every checkpoint with an approval
+  yield* answerCheckpoints(
+    speed,
+    async () => {
+      await delay(autoApproveDelayMs, clock);
+      return 'approve';
+    },
+    clock
+  );
 }
 
 /**
@@ -233,26 +267,20 @@ export async function* createAutoApproveValidationStream(
  *
  * @param speed - Stream speed setting
  * @param timeoutBehavior - What to do on timeout ('approve' | 'skip')
+ * @param clock - Clock for delays and timestamps (default: system clock)
  */
 export async function* createTimeoutValidationStream(
   speed: StreamSpeed = 'fast',
-  timeoutBehavior: 'approve' | 'skip' = 'approve'
+  timeoutBehavior: 'approve' | 'skip' = 'approve',
+  clock: Clock = systemClock
 ): AsyncGenerator<StreamEvent> {
-  // Create a checkpoint handler that simulates timeout
-  const onCheckpointResponse: CheckpointResponseHandler = async () => {
-    // Wait for timeout duration (using fixture timeout)
-    const foundEvent = budgetAllocationStreamFixture.find(
-      (e) => e.type === 'checkpoint'
-    );
-
-    if (foundEvent && foundEvent.type === 'checkpoint') {
-      const checkpointEvent = foundEvent as unknown as CheckpointEvent;
-      await delay(checkpointEvent.data.timeoutMs);
-    }
-
-    // Return timeout action
-    return { action: timeoutBehavior };
-  };
-
-  yield* createValidationStream({ speed, onCheckpointResponse });
+  // Wait out each checkpoint's timeout, then answer with the timeout action
+  yield* answerCheckpoints(
+    speed,
+    async (checkpoint) => {
+      await delay(checkpoint.data.timeoutMs, clock);
+      return timeoutBehavior;
+    },
+    clock
+  );
 }
@@ -9,6 +9,9 @@
  * @educational Teaches checkpoint management, approval workflows, timeout handling
  */
 
+import type { PersistedSession, RecordedRun } from '@/lib/streaming/sessionPersistence';
+import type { LifecyclePhase } from '@/lib/streaming/lifecycle';
+
 /**
  * Checkpoint phase represents the current state of a validation checkpoint.
  *
@@ -268,6 +271,9 @@ export interface ValidationStreamState {
   /** Whether the stream is currently active */
   isStreaming: boolean;
 
+  /** Lifecycle phase of the stream (see lib/streaming/lifecycle) */
+  phase: LifecyclePhase;
+
   /** Whether we're waiting for user input at a checkpoint */
   isWaitingForApproval: boolean;
 
@@ -293,6 +299,12 @@ export interface ValidationActions {
 
   /** Reset the demo to initial state */
   reset: () => void;
+
+  /** Continue the run saved before a reload, on the checkpoint it was waiting at */
+  resumeSession: () => void;
+
+  /** Drop the saved run and start over (if autoStart) */
+  discardSession: () => void;
 }
 
 /**
@@ -300,6 +312,9 @@ export interface ValidationActions {
  */
 export interface UseValidationStreamReturn extends ValidationStreamState {
   actions: ValidationActions;
+
+  /** Run saved before a reload (with persistKey), until it is resumed or discarded */
+  savedSession: PersistedSession<RecordedRun> | null;
 }
 
 /**
@@ -0,0 +1,142 @@
+/**
+ * Sub-Agent Orchestration Pattern - AgentSwimlanes Component
+ *
+ * Renders the sub-agent tree as swimlanes on a shared time axis: one lane
+ * per sub-agent, nested under the agent that spawned it, with a bar for its
+ * lifetime and a tick for each thing it did.
+ *
+ * @pattern Sub-Agent Orchestration
+ * @educational Demonstrates a concurrent progress view for nested agents
+ */
+
+import { Badge, type BadgeProps } from '@/components/ui/Badge';
+import type { SubAgentStatus, SubAgentTreeNode } from './types';
+import styles from './AgentSwimlanes.module.css';
+
+export interface AgentSwimlanesProps {
+  /** Sub-agents of the planner, each with its children */
+  tree: SubAgentTreeNode[];
+
+  /** Start of the time axis (first event of the run) */
+  startTime: number;
+
+  /** End of the time axis (latest event so far) */
+  endTime: number;
+}
+
+/**
+ * Badge variant and label per status
+ */
+const STATUS_BADGES: Record<SubAgentStatus, { variant: BadgeProps['variant']; label: string }> = {
+  running: { variant: 'primary', label: 'Running' },
+  succeeded: { variant: 'success', label: 'Done' },
+  failed: { variant: 'error', label: 'Failed' },
+  cancelled: { variant: 'neutral', label: 'Cancelled' },
+};
+
+/**
+ * Format a duration as seconds with one decimal
+ */
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * One sub-agent's lane and the lanes of its children
+ */
+function AgentLane({
+  agent,
+  startTime,
+  endTime,
+}: {
+  agent: SubAgentTreeNode;
+  startTime: number;
+  endTime: number;
+}): JSX.Element {
+  const span = Math.max(endTime - startTime, 1);
+  const position = (time: number) => `${((time - startTime) / span) * 100}%`;
+
+  const finishedAt = agent.completedAt ?? endTime;
+  const latest = agent.error ?? agent.activities[agent.activities.length - 1]?.label;
+  const badge = STATUS_BADGES[agent.status];
+
+  return (
+    <li
+      className={styles.laneItem}
+      aria-label={`${agent.name}: ${badge.label}`}
+      data-testid={`agent-lane-${agent.agentId}`}
+    >
+      <div className={`${styles.lane} ${styles[`lane--${agent.status}`]}`}>
+        <div className={styles.agentInfo}>
+          <div className={styles.agentHeader}>
+            <span className={styles.agentName}>{agent.name}</span>
+            <Badge variant={badge.variant} size="sm" dot={agent.status === 'running'}>
+              {badge.label}
+            </Badge>
+            {agent.completedAt !== undefined && (
+              <span className={styles.duration}>
+                {formatSeconds(agent.completedAt - agent.startedAt)}
+              </span>
+            )}
+          </div>
+          <p className={styles.task}>{agent.task}</p>
+          {latest && (
+            <p
+              className={agent.error ? styles.error : styles.latest}
+              aria-live={agent.status === 'running' ? 'polite' : undefined}
+            >
+              {latest}
+            </p>
+          )}
+        </div>
+
+        <div className={styles.track} aria-hidden="true">
+          <div
+            className={styles.bar}
+            style={{
+              left: position(agent.startedAt),
+              width: `${((finishedAt - agent.startedAt) / span) * 100}%`,
+            }}
+          />
+          {agent.activities.map((activity) => (
+            <span
+              key={activity.id}
+              className={`${styles.tick} ${styles[`tick--${activity.kind}`]}`}
+              style={{ left: position(activity.at) }}
+              title={activity.label}
+            />
+          ))}
+        </div>
+      </div>
+
+      {agent.children.length > 0 && (
+        <ol className={styles.children} aria-label={`Sub-agents of ${agent.name}`}>
+          {agent.children.map((child) => (
+            <AgentLane key={child.agentId} agent={child} startTime={startTime} endTime={endTime} />
+          ))}
+        </ol>
+      )}
+    </li>
+  );
+}
+
+/**
+ * AgentSwimlanes Component
+ *
+ * Educational Notes:
+ * - Every lane shares one time axis, so overlap shows what ran in parallel
+ * - Nesting shows who spawned whom; a failed parent cancels its children
+ * - The latest activity line answers "what is it doing right now?"
+ *
+ * @param props - Component props
+ * @returns JSX element
+ */
+export function AgentSwimlanes({ tree, startTime, endTime }: AgentSwimlanesProps): JSX.Element {
+  return (
+    <ol className={styles.lanes} aria-label="Sub-agents">
+      {tree.map((agent) => (
+        <AgentLane key={agent.agentId} agent={agent} startTime={startTime} endTime={endTime} />
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * SubAgentDemo Component Tests
+ *
+ * Integration tests for the full pattern demo.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { act, screen, waitFor, within } from '@testing-library/react';
+import { render } from '../../../tests/test-utils';
+import { userEvent } from '@testing-library/user-event';
+import { SubAgentDemo } from './SubAgentDemo';
+
+// Mock NetworkInspector to avoid test complexity
+vi.mock('@/components/NetworkInspector/NetworkInspector', () => ({
+  NetworkInspector: () => <div data-testid="network-inspector">Network Inspector</div>,
+}));
+
+/**
+ * Select fast speed and run the chosen scenario to completion
+ *
+ * user-event resolves its own copy of @testing-library/dom, so its clicks
+ * are not wrapped in act(); wrap them here so the state updates they and
+ * the stream's first events cause are flushed before asserting.
+ */
+async function runScenario(user: ReturnType<typeof userEvent.setup>, scenario: RegExp) {
+  for (const name of [scenario, /⚡ Fast/i, /Start Stream/i]) {
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name }));
+    });
+  }
+
+  await waitFor(
+    () => {
+      expect(screen.getByText(/· complete/)).toBeInTheDocument();
+    },
+    { timeout: 10000 }
+  );
+}
+
+describe('SubAgentDemo', () => {
+  it('should render the demo with initial state', () => {
+    render(<SubAgentDemo />);
+
+    expect(screen.getByText('Sub-Agent Orchestration Pattern')).toBeInTheDocument();
+    expect(screen.getByText('Prepare the Sprint 24 review for Thursday.')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Start Stream/i })).toBeInTheDocument();
+    expect(screen.getByText(/watch the planner run its sub-agents/i)).toBeInTheDocument();
+  });
+
+  it('should render a lane per sub-agent, nested under its parent', async () => {
+    const user = userEvent.setup();
+    render(<SubAgentDemo />);
+
+    await runScenario(user, /Sprint Review/);
+
+    expect(screen.getByText('5 of 5 sub-agents finished · complete')).toBeInTheDocument();
+
+    const risk = screen.getByTestId('agent-lane-risk');
+    const nested = within(risk).getByRole('list', { name: 'Sub-agents of Risk Reviewer' });
+    expect(within(nested).getAllByRole('listitem')).toHaveLength(2);
+    expect(within(nested).getByText('Dependency Checker')).toBeInTheDocument();
+
+    expect(screen.getByRole('heading', { name: 'Sprint 24 review' })).toBeInTheDocument();
+  }, 15000);
+
+  it('should show a failed sub-agent with its error', async () => {
+    const user = userEvent.setup();
+    render(<SubAgentDemo />);
+
+    await runScenario(user, /Agent Failure/);
+
+    const incidents = screen.getByTestId('agent-lane-incidents');
+    expect(within(incidents).getByText('Failed')).toBeInTheDocument();
+    expect(within(incidents).getByText('Incident service returned 503')).toBeInTheDocument();
+
+    const dependencies = screen.getByTestId('agent-lane-dependencies');
+    expect(within(dependencies).getByText('Done')).toBeInTheDocument();
+  }, 15000);
+
+  it('should offer and resume a run interrupted by a reload', async () => {
+    const user = userEvent.setup();
+    const { unmount } = render(<SubAgentDemo />);
+
+    for (const name of [/Agent Failure/, /⚡ Fast/i, /Start Stream/i]) {
+      await act(async () => {
+        await user.click(screen.getByRole('button', { name }));
+      });
+    }
+    await waitFor(() => expect(screen.getByTestId('agent-lane-backlog')).toBeInTheDocument());
+    unmount();
+
+    render(<SubAgentDemo />);
+    const banner = screen.getByRole('region', { name: 'Unfinished run' });
+    await act(async () => {
+      await user.click(within(banner).getByRole('button', { name: 'Resume where you left off' }));
+    });
+
+    // The run continues with the scenario it was saved with
+    expect(screen.getByRole('button', { name: 'Agent Failure' })).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    await waitFor(() => expect(screen.getByText(/· complete/)).toBeInTheDocument(), {
+      timeout: 10000,
+    });
+    expect(screen.getByText('5 of 5 sub-agents finished · complete')).toBeInTheDocument();
+    expect(screen.queryByRole('region', { name: 'Unfinished run' })).not.toBeInTheDocument();
+  }, 15000);
+});
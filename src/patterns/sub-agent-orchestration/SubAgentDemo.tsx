@@ -0,0 +1,310 @@
+/**
+ * Sub-Agent Orchestration Pattern Demo
+ *
+ * Demonstrates a planner agent that fans a request out to sub-agents,
+ * streams their progress side by side, and answers once they have all
+ * finished.
+ *
+ * Educational Focus:
+ * - Several sub-agent streams multiplexed onto one parent stream
+ * - Nested sub-agents shown under the agent that spawned them
+ * - A failing sub-agent that does not take its siblings down
+ * - Fan-in: the planner's summary waits for every sub-agent
+ * - Resuming a run interrupted by a reload
+ *
+ * Demo Scenario:
+ * A product manager asks for the Sprint 24 review. The planner hands the
+ * backlog, capacity and risk checks to sub-agents; the risk reviewer splits
+ * its check across two sub-agents of its own.
+ *
+ * @module patterns/sub-agent-orchestration/SubAgentDemo
+ */
+
+import { useState, useCallback } from 'react';
+import { DemoContainer } from '@/components/layout/DemoContainer';
+import { PatternHelmet } from '@/components/PatternHelmet';
+import { NetworkInspector } from '@/components/NetworkInspector/NetworkInspector';
+import { StreamingMarkdown } from '@/components/StreamingMarkdown';
+import { useNetworkCapture } from '@/lib/hooks/useNetworkCapture';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { ResumeSessionBanner } from '@/components/ui/ResumeSessionBanner';
+import { ScenarioCard } from '@/components/ui/ScenarioCard';
+import { useSubAgentOrchestration } from './hooks';
+import { SPRINT_REVIEW_PROMPT } from './fixtures';
+import { AgentSwimlanes } from './AgentSwimlanes';
+import type { StreamScenario, StreamSpeed } from './mockStream';
+import styles from './SubAgentDemo.module.css';
+
+export function SubAgentDemo() {
+  const [scenario, setScenario] = useState<StreamScenario>('sprint-review');
+  const [speed, setSpeed] = useState<StreamSpeed>('normal');
+  const [showInspector, setShowInspector] = useState(false);
+
+  // Network capture for inspector (pattern events are already canonical)
+  const { captureEvent, events, clearEvents } = useNetworkCapture();
+
+  const {
+    plan,
+    summary,
+    agents,
+    tree,
+    runStartedAt,
+    lastEventAt,
+    isStreaming,
+    isComplete,
+    savedSession,
+    startStream,
+    stopStream,
+    reset,
+    resumeSession,
+    discardSession,
+  } = useSubAgentOrchestration({
+    scenario,
+    speed,
+    onEvent: captureEvent,
+    persistKey: 'sub-agent-orchestration',
+  });
+
+  /**
+   * Start a new planner run with the selected scenario
+   */
+  const handleStart = useCallback(() => {
+    clearEvents();
+    startStream();
+  }, [clearEvents, startStream]);
+
+  /**
+   * Continue the run saved before a reload, with the scenario it was saved with
+   */
+  const handleResume = useCallback(() => {
+    if (savedSession?.fixtureId) {
+      setScenario(savedSession.fixtureId as StreamScenario);
+    }
+    clearEvents();
+    resumeSession();
+  }, [savedSession, clearEvents, resumeSession]);
+
+  /**
+   * Reset demo to initial state
+   */
+  const handleReset = useCallback(() => {
+    reset();
+    clearEvents();
+  }, [reset, clearEvents]);
+
+  const finishedAgents = Array.from(agents.values()).filter(
+    (agent) => agent.status !== 'running'
+  ).length;
+
+  return (
+    <>
+      <PatternHelmet patternId="sub-agent-orchestration" />
+      <DemoContainer
+        title="Sub-Agent Orchestration Pattern"
+        description="Stream a planner and the sub-agents it runs in parallel"
+        maxWidth="full"
+        actions={
+          <Button
+            onClick={() => setShowInspector(!showInspector)}
+            variant="ghost"
+            size="sm"
+            aria-pressed={showInspector}
+          >
+            {showInspector ? 'Hide Inspector' : 'Show Inspector'}
+          </Button>
+        }
+      >
+        {/* Controls */}
+        <div className={styles.controls}>
+          <div className={styles.controlGroup}>
+            <span className={styles.label}>Scenario</span>
+            <div className={styles.buttonGroup} role="group" aria-label="Scenario selector">
+              <Button
+                onClick={() => setScenario('sprint-review')}
+                variant={scenario === 'sprint-review' ? 'primary' : 'secondary'}
+                size="sm"
+                disabled={isStreaming}
+                aria-pressed={scenario === 'sprint-review'}
+                title="Every sub-agent succeeds"
+              >
+                Sprint Review
+              </Button>
+              <Button
+                onClick={() => setScenario('agent-failure')}
+                variant={scenario === 'agent-failure' ? 'primary' : 'secondary'}
+                size="sm"
+                disabled={isStreaming}
+                aria-pressed={scenario === 'agent-failure'}
+                title="A nested sub-agent fails mid-stream"
+              >
+                Agent Failure
+              </Button>
+            </div>
+          </div>
+
+          <div className={styles.controlGroup}>
+            <span className={styles.label}>Stream Speed</span>
+            <div className={styles.buttonGroup} role="group" aria-label="Stream speed selector">
+              <Button
+                onClick={() => setSpeed('fast')}
+                variant={speed === 'fast' ? 'primary' : 'secondary'}
+                size="sm"
+                disabled={isStreaming}
+                aria-pressed={speed === 'fast'}
+                title="Fast speed"
+              >
+                ⚡ Fast
+              </Button>
+              <Button
+                onClick={() => setSpeed('normal')}
+                variant={speed === 'normal' ? 'primary' : 'secondary'}
+                size="sm"
+                disabled={isStreaming}
+                aria-pressed={speed === 'normal'}
+                title="Normal speed"
+              >
+                ▶ Normal
+              </Button>
+              <Button
+                onClick={() => setSpeed('slow')}
+                variant={speed === 'slow' ? 'primary' : 'secondary'}
+                size="sm"
+                disabled={isStreaming}
+                aria-pressed={speed === 'slow'}
+                title="Slow speed"
+              >
+                🐌 Slow
+              </Button>
+            </div>
+          </div>
+
+          <div className={styles.actionButtons}>
+            {!isStreaming ? (
+              <Button onClick={handleStart} variant="primary" size="sm">
+                ▶ Start Stream
+              </Button>
+            ) : (
+              <Button onClick={stopStream} variant="secondary" size="sm">
+                ⏸ Stop Stream
+              </Button>
+            )}
+
+            <Button onClick={handleReset} variant="secondary" size="sm" disabled={isStreaming}>
+              Reset
+            </Button>
+          </div>
+        </div>
+
+        {/* Saved run */}
+        {savedSession && !isStreaming && (
+          <div className={styles.scenario}>
+            <ResumeSessionBanner
+              eventCount={savedSession.position}
+              savedAt={savedSession.savedAt}
+              onResume={handleResume}
+              onDiscard={discardSession}
+            />
+          </div>
+        )}
+
+        {/* Scenario Context */}
+        <div className={styles.scenario}>
+          <ScenarioCard
+            description="StreamFlow PM's planner hands parts of a sprint review to sub-agents that work in parallel, then writes the review from their findings."
+            prompt={SPRINT_REVIEW_PROMPT}
+          />
+        </div>
+
+        {/* Planner and Sub-Agents */}
+        <section className={styles.runSection} aria-label="Planner run">
+          <div className={styles.sectionHeader}>
+            <h3 className={styles.sectionTitle}>Planner Run</h3>
+            <span className={styles.agentCount}>
+              {finishedAgents} of {agents.size} {agents.size === 1 ? 'sub-agent' : 'sub-agents'}{' '}
+              finished
+              {isComplete && ' · complete'}
+            </span>
+          </div>
+
+          {plan && (
+            <div className={styles.narration}>
+              <StreamingMarkdown text={plan} streaming={isStreaming && agents.size === 0} />
+            </div>
+          )}
+
+          <div
+            className={styles.swimlanes}
+            role="log"
+            aria-live="polite"
+            aria-label="Sub-agent progress"
+          >
+            {tree.length > 0 && runStartedAt !== null && lastEventAt !== null && (
+              <AgentSwimlanes tree={tree} startTime={runStartedAt} endTime={lastEventAt} />
+            )}
+          </div>
+
+          {summary && (
+            <div className={styles.summary}>
+              <StreamingMarkdown text={summary} streaming={isStreaming} />
+            </div>
+          )}
+
+          {!isStreaming && !plan && (
+            <div className={styles.emptyState}>
+              <p>Click "Start Stream" to watch the planner run its sub-agents</p>
+            </div>
+          )}
+        </section>
+
+        {/* Network Inspector */}
+        {showInspector && (
+          <div className={styles.inspector}>
+            <NetworkInspector
+              events={events}
+              pattern="sub-agent-orchestration"
+              onClearEvents={clearEvents}
+              title="Stream Events"
+            />
+          </div>
+        )}
+
+        {/* Pattern Learning Points */}
+        <div className={styles.notes}>
+          <Card className={styles.learningCard}>
+            <div className={styles.cardHeader}>
+              <h4>Pattern Learning Points</h4>
+            </div>
+            <div className={styles.cardContent}>
+              <ul className={styles.learningList}>
+                <li>
+                  <strong>One Stream, Many Agents:</strong> Each sub-agent runs its own stream;
+                  the parent forwards its events in envelopes tagged with the agent ID
+                </li>
+                <li>
+                  <strong>Spawn and Complete:</strong> Explicit lifecycle events let the UI show a
+                  lane before the first event and close it with a status and duration
+                </li>
+                <li>
+                  <strong>Nesting:</strong> Events of nested sub-agents arrive inside the envelopes
+                  of the agent that spawned them; unwrapping gives the path to the agent that did
+                  the work
+                </li>
+                <li>
+                  <strong>Contain Failures:</strong> A failing sub-agent completes as failed and
+                  its siblings keep going, so the planner can still answer with what it has
+                </li>
+                <li>
+                  <strong>Fan-In:</strong> The summary streams only after every sub-agent has
+                  completed, and says which checks are missing
+                </li>
+              </ul>
+            </div>
+          </Card>
+        </div>
+      </DemoContainer>
+    </>
+  );
+}
+
+export default SubAgentDemo;
@@ -0,0 +1,248 @@
+/**
+ * Sub-Agent Orchestration Pattern - Mock Agent Fixtures
+ *
+ * Deterministic runs for the sprint review scenario: the StreamFlow PM
+ * planner prepares the Sprint 24 review by handing three checks to
+ * sub-agents, one of which splits its check across two sub-agents of its
+ * own. Sub-agent events are canonical stream events, so each sub-agent can
+ * be replayed by its own StreamSession.
+ *
+ * @pattern Sub-Agent Orchestration
+ * @educational Demonstrates fan-out, nesting and a failing sub-agent
+ */
+
+import type { EventData, EventType, StreamEvent } from '@/types/events';
+
+/**
+ * Request the planner is working on in every scenario
+ */
+export const SPRINT_REVIEW_PROMPT = 'Prepare the Sprint 24 review for Thursday.';
+
+/**
+ * A sub-agent in a fixture run
+ */
+export interface SubAgentFixture {
+  /** Sub-agent identifier */
+  agentId: string;
+
+  /** Display name */
+  name: string;
+
+  /** Task the planner gives it */
+  task: string;
+
+  /** Delay multiplier relative to the selected speed (1 = profile delay) */
+  pace: number;
+
+  /** Events of the sub-agent's own stream */
+  events: StreamEvent[];
+
+  /** Sub-agents it spawns */
+  agents?: SubAgentFixture[];
+
+  /** Source event index at which the sub-agent's stream fails */
+  failAt?: number;
+
+  /** Error raised when it fails */
+  failMessage?: string;
+}
+
+/**
+ * A complete planner run
+ */
+export interface OrchestrationRun {
+  /** Planner narration before the sub-agents are spawned */
+  plan: StreamEvent[];
+
+  /** Sub-agents of the planner */
+  agents: SubAgentFixture[];
+
+  /** Planner answer after every sub-agent has completed */
+  summary: StreamEvent[];
+}
+
+// ============================================================================
+// Fixture Helpers
+// ============================================================================
+
+/** Timestamp of the first fixture event (sessions restamp events on delivery) */
+const BASE_TIMESTAMP = 1768467600000;
+
+/**
+ * Type and data of a canonical event, before it gets an ID and timestamp
+ */
+type EventBody = { [T in EventType]: { type: T; data: EventData<T> } }[EventType];
+
+/**
+ * Give event bodies sequential IDs and timestamps
+ *
+ * @param prefix - Event ID prefix
+ * @param bodies - Event types and data
+ * @returns Canonical stream events
+ */
+function events(prefix: string, bodies: EventBody[]): StreamEvent[] {
+  return bodies.map(
+    (body, index) =>
+      ({ id: `${prefix}-${index + 1}`, timestamp: BASE_TIMESTAMP + index, ...body }) as StreamEvent
+  );
+}
+
+/**
+ * Narration text
+ */
+function say(text: string): EventBody {
+  return { type: 'text', data: { text } };
+}
+
+/**
+ * Start, arguments and result of one tool call
+ */
+function callTool(
+  callId: string,
+  toolName: string,
+  args: Record<string, unknown>,
+  result: unknown,
+  durationMs: number
+): EventBody[] {
+  return [
+    { type: 'tool_call_start', data: { callId, toolName } },
+    { type: 'tool_call_delta', data: { callId, delta: JSON.stringify(args), chunkIndex: 0 } },
+    { type: 'tool_result', data: { callId, result, durationMs } },
+  ];
+}
+
+// ============================================================================
+// Sub-Agents
+// ============================================================================
+
+const backlogAnalyst: SubAgentFixture = {
+  agentId: 'backlog',
+  name: 'Backlog Analyst',
+  task: 'Summarize completed and carried-over work',
+  pace: 1,
+  events: events('backlog', [
+    say('Pulling the Sprint 24 board.'),
+    ...callTool(
+      'backlog-call-1',
+      'list_tasks',
+      { sprintId: 'sprint-24' },
+      { done: 23, planned: 31, carryOver: ['MOB-418', 'MOB-421'] },
+      420
+    ),
+    say('23 of 31 points done. MOB-418 and MOB-421 carry over.'),
+  ]),
+};
+
+const capacityAnalyst: SubAgentFixture = {
+  agentId: 'capacity',
+  name: 'Capacity Analyst',
+  task: 'Compare Sprint 25 load with team availability',
+  pace: 1.6,
+  events: events('capacity', [
+    say('Checking who is out during Sprint 25.'),
+    ...callTool(
+      'capacity-call-1',
+      'get_team_capacity',
+      { team: 'mobile', sprintId: 'sprint-25' },
+      { availablePoints: 26, committedPoints: 30 },
+      610
+    ),
+    say('Sprint 25 is over-committed by 4 points: Lena is out for three days.'),
+  ]),
+};
+
+const dependencyChecker: SubAgentFixture = {
+  agentId: 'dependencies',
+  name: 'Dependency Checker',
+  task: 'Check blocked tasks and external dependencies',
+  pace: 1.2,
+  events: events('dependencies', [
+    say('Tracing what MOB-418 is waiting on.'),
+    ...callTool(
+      'dependencies-call-1',
+      'get_task_links',
+      { taskKey: 'MOB-418' },
+      { blockedBy: 'PLAT-77', owner: 'Platform team', eta: '2026-01-21' },
+      380
+    ),
+    say('MOB-418 is blocked by PLAT-77 (Platform team), due Jan 21.'),
+  ]),
+};
+
+/**
+ * Incident scout; `failAt` is set by the failure scenario
+ */
+function incidentScout(failing: boolean): SubAgentFixture {
+  return {
+    agentId: 'incidents',
+    name: 'Incident Scout',
+    task: 'Scan recent incidents touching the mobile app',
+    pace: 2,
+    events: events('incidents', [
+      say('Searching incidents from the last two weeks.'),
+      ...callTool(
+        'incidents-call-1',
+        'search_incidents',
+        { service: 'mobile-api', days: 14 },
+        [{ key: 'INC-902', severity: 'sev2', status: 'resolved' }],
+        540
+      ),
+      say('One sev2 (INC-902) last week, resolved; no open incidents.'),
+    ]),
+    ...(failing ? { failAt: 2, failMessage: 'Incident service returned 503' } : {}),
+  };
+}
+
+/**
+ * Risk reviewer, which splits its check across two sub-agents
+ */
+function riskReviewer(failingIncidents: boolean): SubAgentFixture {
+  return {
+    agentId: 'risk',
+    name: 'Risk Reviewer',
+    task: 'Find risks to the mobile release',
+    pace: 1,
+    events: events('risk', [say('Splitting the review into dependencies and incidents.')]),
+    agents: [dependencyChecker, incidentScout(failingIncidents)],
+  };
+}
+
+// ============================================================================
+// Planner Runs
+// ============================================================================
+
+const plan = events('planner-plan', [
+  say("I'll split the review into three checks and run them in parallel: "),
+  say("completed work, next sprint's capacity, and release risks."),
+]);
+
+/**
+ * All sub-agents succeed
+ */
+export const sprintReviewRun: OrchestrationRun = {
+  plan,
+  agents: [backlogAnalyst, capacityAnalyst, riskReviewer(false)],
+  summary: events('planner-summary', [
+    say('## Sprint 24 review\n\n'),
+    say('- **Delivered:** 23 of 31 points; MOB-418 and MOB-421 carry over\n'),
+    say('- **Sprint 25:** over-committed by 4 points while Lena is out\n'),
+    say('- **Risks:** MOB-418 waits on PLAT-77 (due Jan 21); no open incidents\n\n'),
+    say('Suggest dropping MOB-421 from Sprint 25 and chasing PLAT-77 with Platform.'),
+  ]),
+};
+
+/**
+ * The incident scout fails; the planner reports the gap
+ */
+export const agentFailureRun: OrchestrationRun = {
+  plan,
+  agents: [backlogAnalyst, capacityAnalyst, riskReviewer(true)],
+  summary: events('planner-summary', [
+    say('## Sprint 24 review\n\n'),
+    say('- **Delivered:** 23 of 31 points; MOB-418 and MOB-421 carry over\n'),
+    say('- **Sprint 25:** over-committed by 4 points while Lena is out\n'),
+    say('- **Risks:** MOB-418 waits on PLAT-77 (due Jan 21)\n\n'),
+    say('The incident check failed (incident service unavailable), so recent '),
+    say('incidents are **not** covered. Re-run it before Thursday.'),
+  ]),
+};
@@ -0,0 +1,192 @@
+/**
+ * Tests for the Sub-Agent Orchestration hook.
+ *
+ * @module patterns/sub-agent-orchestration/hooks.test
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { VirtualClock } from '@/lib/utils/clock';
+import { useSubAgentOrchestration } from './hooks';
+
+describe('useSubAgentOrchestration', () => {
+  it('should start idle with no sub-agents', () => {
+    const { result } = renderHook(() => useSubAgentOrchestration({ speed: 'fast' }));
+
+    expect(result.current.plan).toBe('');
+    expect(result.current.tree).toEqual([]);
+    expect(result.current.isStreaming).toBe(false);
+    expect(result.current.isComplete).toBe(false);
+  });
+
+  it('should build the sub-agent tree and the planner text', async () => {
+    const clock = new VirtualClock(1_000);
+    const { result } = renderHook(() => useSubAgentOrchestration({ speed: 'fast', clock }));
+
+    act(() => result.current.startStream());
+    await act(() => clock.runAll());
+
+    expect(result.current.isComplete).toBe(true);
+    expect(result.current.plan).toMatch(/^I'll split the review into three checks/);
+    expect(result.current.summary).toMatch(/^## Sprint 24 review/);
+
+    const { tree } = result.current;
+    expect(tree.map((agent) => agent.agentId)).toEqual(['backlog', 'capacity', 'risk']);
+    expect(tree[2].children.map((agent) => [agent.agentId, agent.depth])).toEqual([
+      ['dependencies', 1],
+      ['incidents', 1],
+    ]);
+
+    result.current.agents.forEach((agent) => {
+      expect(agent.status).toBe('succeeded');
+      expect(agent.completedAt).toBeGreaterThan(agent.startedAt);
+    });
+
+    // Tool calls land on the sub-agent that made them, not on its parent
+    const risk = result.current.agents.get('risk');
+    const incidents = result.current.agents.get('incidents');
+    expect(risk?.activities.map((activity) => activity.kind)).toEqual(['text']);
+    expect(incidents?.activities.map((activity) => activity.kind)).toEqual([
+      'text',
+      'tool_call',
+      'tool_result',
+      'text',
+    ]);
+  });
+
+  it('should report each delivered event with its session metadata', async () => {
+    const clock = new VirtualClock(1_000);
+    const onEvent = vi.fn();
+    const { result } = renderHook(() =>
+      useSubAgentOrchestration({ speed: 'fast', clock, onEvent })
+    );
+
+    act(() => result.current.startStream());
+    await act(() => clock.runAll());
+
+    const sequenceNumbers = onEvent.mock.calls.map(([event]) => event.metadata.sequenceNumber);
+    expect(sequenceNumbers[0]).toBe(1);
+    expect(sequenceNumbers).toEqual(sequenceNumbers.map((_, index) => index + 1));
+    expect(onEvent.mock.calls.some(([event]) => event.type === 'agent_event')).toBe(true);
+  });
+
+  it('should run sub-agents concurrently', async () => {
+    const clock = new VirtualClock(1_000);
+    const { result } = renderHook(() => useSubAgentOrchestration({ speed: 'fast', clock }));
+
+    act(() => result.current.startStream());
+    await act(() => clock.advance(200));
+
+    const running = Array.from(result.current.agents.values()).filter(
+      (agent) => agent.status === 'running'
+    );
+    expect(running.length).toBeGreaterThan(1);
+    expect(result.current.summary).toBe('');
+
+    await act(() => clock.runAll());
+    expect(result.current.isComplete).toBe(true);
+  });
+
+  it('should mark a failed sub-agent without stopping its siblings', async () => {
+    const clock = new VirtualClock(1_000);
+    const { result } = renderHook(() =>
+      useSubAgentOrchestration({ scenario: 'agent-failure', speed: 'fast', clock })
+    );
+
+    act(() => result.current.startStream());
+    await act(() => clock.runAll());
+
+    const { agents } = result.current;
+    expect(agents.get('incidents')?.status).toBe('failed');
+    expect(agents.get('incidents')?.error).toBe('Incident service returned 503');
+    expect(agents.get('dependencies')?.status).toBe('succeeded');
+    expect(agents.get('risk')?.status).toBe('succeeded');
+    expect(result.current.summary).toMatch(/incident check failed/);
+    expect(result.current.isComplete).toBe(true);
+  });
+
+  it('should clear the run on reset', async () => {
+    const clock = new VirtualClock(1_000);
+    const { result } = renderHook(() => useSubAgentOrchestration({ speed: 'fast', clock }));
+
+    act(() => result.current.startStream());
+    await act(() => clock.advance(200));
+    act(() => result.current.reset());
+
+    expect(result.current.isStreaming).toBe(false);
+    expect(result.current.agents.size).toBe(0);
+    expect(result.current.plan).toBe('');
+  });
+});
+
+describe('useSubAgentOrchestration session persistence', () => {
+  const persistKey = 'sub-agent-orchestration-test';
+
+  /**
+   * Stream part of a failing run, then "reload" the page
+   */
+  async function runPartway(clock: VirtualClock) {
+    const { result, unmount } = renderHook(() =>
+      useSubAgentOrchestration({ scenario: 'agent-failure', speed: 'fast', clock, persistKey })
+    );
+
+    act(() => result.current.startStream());
+    await act(() => clock.advance(200));
+    expect(result.current.agents.size).toBeGreaterThan(0);
+    expect(result.current.isComplete).toBe(false);
+
+    unmount();
+  }
+
+  it('should offer the run saved before a reload', async () => {
+    const clock = new VirtualClock(1_000);
+    await runPartway(clock);
+
+    const { result } = renderHook(() =>
+      useSubAgentOrchestration({ speed: 'fast', clock, persistKey })
+    );
+
+    expect(result.current.isStreaming).toBe(false);
+    expect(result.current.savedSession).toMatchObject({ fixtureId: 'agent-failure' });
+  });
+
+  it('should resume the saved scenario with its sequence numbers continuing', async () => {
+    const clock = new VirtualClock(1_000);
+    await runPartway(clock);
+    const onEvent = vi.fn();
+    const { result } = renderHook(() =>
+      useSubAgentOrchestration({ speed: 'fast', clock, persistKey, onEvent })
+    );
+
+    // Skipped events are regenerated without timers, so step until the run ends
+    act(() => result.current.resumeSession());
+    while (!result.current.isComplete) {
+      await act(() => clock.advance(100));
+    }
+
+    expect(result.current.agents.get('incidents')?.status).toBe('failed');
+    expect(result.current.agents.get('dependencies')?.status).toBe('succeeded');
+    expect(result.current.tree.map((agent) => agent.agentId)).toEqual([
+      'backlog',
+      'capacity',
+      'risk',
+    ]);
+
+    const sequenceNumbers = onEvent.mock.calls.map(([event]) => event.metadata.sequenceNumber);
+    expect(sequenceNumbers).toEqual(sequenceNumbers.map((_, index) => index + 1));
+    expect(localStorage.length).toBe(0);
+  });
+
+  it('should drop the saved run when it is discarded', async () => {
+    const clock = new VirtualClock(1_000);
+    await runPartway(clock);
+
+    const { result } = renderHook(() =>
+      useSubAgentOrchestration({ speed: 'fast', clock, persistKey })
+    );
+    act(() => result.current.discardSession());
+
+    expect(result.current.savedSession).toBeNull();
+    expect(localStorage.length).toBe(0);
+  });
+});
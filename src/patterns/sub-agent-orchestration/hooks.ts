@@ -0,0 +1,369 @@
+/**
+ * Sub-Agent Orchestration Pattern - Custom React Hook
+ *
+ * This file implements the useSubAgentOrchestration hook, which turns a
+ * planner stream with nested sub-agent streams into per-agent state, plus
+ * the planner's own plan and summary text.
+ *
+ * @pattern Sub-Agent Orchestration
+ * @educational Teaches envelope unwrapping, flat per-agent state and tree derivation
+ */
+
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import type { StreamEvent } from '@/types/events';
+import { unwrapAgentEvent } from '@/lib/streaming/subAgents';
+import { readPatternStream } from '@/lib/streaming/eventAdapter';
+import type { PersistedSession, RecordedRun } from '@/lib/streaming/sessionPersistence';
+import { ScriptTransport, type StreamTransport } from '@/lib/streaming/transport';
+import { useSessionPersistence } from '@/lib/hooks/useSessionPersistence';
+import { useLifecycle } from '@/lib/hooks/useLifecycle';
+import type { AgentActivity, SubAgentNode, SubAgentTreeNode } from './types';
+import {
+  createMockOrchestrationStream,
+  type MockStreamOptions,
+  type StreamScenario,
+} from './mockStream';
+
+/**
+ * Options accepted by useSubAgentOrchestration.
+ *
+ * The mock run already emits canonical events, so it streams through a
+ * StreamSession over a ScriptTransport; `createTransport` replaces it.
+ * `onEvent` receives each event as delivered, with its session metadata.
+ * With `persistKey`, runs are saved so a reload can resume them.
+ */
+export type UseSubAgentOrchestrationOptions = MockStreamOptions & {
+  createTransport?: () => StreamTransport;
+  persistKey?: string;
+};
+
+/**
+ * Describe a sub-agent's own event as a swimlane activity
+ *
+ * @param event - Unwrapped event
+ * @param at - Arrival time
+ * @returns Activity, or null for events not shown on the lane
+ */
+function toActivity(event: StreamEvent, at: number): AgentActivity | null {
+  switch (event.type) {
+    case 'text':
+      return { id: event.id, kind: 'text', label: event.data.text, at };
+    case 'tool_call_start':
+      return { id: event.id, kind: 'tool_call', label: `Calling ${event.data.toolName}`, at };
+    case 'tool_result': {
+      const { durationMs } = event.data;
+      const label = durationMs === undefined ? 'Tool returned' : `Tool returned in ${durationMs}ms`;
+      return { id: event.id, kind: 'tool_result', label, at };
+    }
+    case 'tool_error':
+      return { id: event.id, kind: 'tool_error', label: event.data.message, at };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Mark the running descendants of a failed sub-agent as cancelled
+ *
+ * @param agents - Sub-agents by ID
+ * @param parentId - Failed sub-agent
+ * @param at - Completion time
+ */
+function cancelDescendants(agents: Map<string, SubAgentNode>, parentId: string, at: number): void {
+  agents.forEach((agent) => {
+    if (agent.parentId === parentId && agent.status === 'running') {
+      agents.set(agent.agentId, { ...agent, status: 'cancelled', completedAt: at });
+      cancelDescendants(agents, agent.agentId, at);
+    }
+  });
+}
+
+/**
+ * Build the sub-agent tree from flat state
+ *
+ * @param agents - Sub-agents by ID, in spawn order
+ * @returns Sub-agents of the planner, each with its children
+ */
+export function buildAgentTree(agents: Map<string, SubAgentNode>): SubAgentTreeNode[] {
+  const nodes = new Map<string, SubAgentTreeNode>();
+  agents.forEach((agent) => nodes.set(agent.agentId, { ...agent, children: [] }));
+
+  const roots: SubAgentTreeNode[] = [];
+  nodes.forEach((node) => {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    (parent ? parent.children : roots).push(node);
+  });
+
+  return roots;
+}
+
+/**
+ * useSubAgentOrchestration - Core hook for the Sub-Agent Orchestration pattern
+ *
+ * This hook demonstrates how to:
+ * 1. Unwrap nested agent_event envelopes to find the agent an event belongs to
+ * 2. Keep sub-agent state flat (by ID) so any depth is one update
+ * 3. Cancel running descendants when a sub-agent fails
+ * 4. Derive the tree only for rendering
+ *
+ * With `persistKey`, a run interrupted by a reload is offered as
+ * `savedSession`; `resumeSession()` restores it and continues the stream
+ * after the events it had received.
+ *
+ * @param options - Stream configuration
+ * @returns Planner text, sub-agent state and stream controls
+ *
+ * @example
+ * ```typescript
+ * const { tree, plan, summary, startStream } = useSubAgentOrchestration({ speed: 'fast' });
+ * ```
+ */
+export function useSubAgentOrchestration(options: UseSubAgentOrchestrationOptions = {}) {
+  const { scenario, speed, clock, onEvent, createTransport, persistKey } = options;
+
+  const [plan, setPlan] = useState('');
+  const [summary, setSummary] = useState('');
+  const [agents, setAgents] = useState<Map<string, SubAgentNode>>(new Map());
+  const [runStartedAt, setRunStartedAt] = useState<number | null>(null);
+  const [lastEventAt, setLastEventAt] = useState<number | null>(null);
+  const { phase, can, restart, transition } = useLifecycle();
+  const [isComplete, setIsComplete] = useState(false);
+  const { savedSession, begin, observe, finish, discardSession } = useSessionPersistence({
+    persistKey,
+    clock,
+  });
+
+  // Track stream abort controller
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Planner text before the first spawn is the plan; after it, the summary
+  const hasSpawnedRef = useRef(false);
+
+  /**
+   * Process individual stream events
+   */
+  const processEvent = useCallback((event: StreamEvent) => {
+    const { path, event: inner } = unwrapAgentEvent(event);
+    const at = event.timestamp;
+
+    setRunStartedAt((prev) => prev ?? at);
+    setLastEventAt(at);
+
+    // Planner's own narration
+    if (path.length === 0 && inner.type === 'text') {
+      const append = (prev: string) => prev + inner.data.text;
+      (hasSpawnedRef.current ? setSummary : setPlan)(append);
+      return;
+    }
+
+    if (inner.type === 'agent_spawn') {
+      hasSpawnedRef.current = true;
+      const { agentId, parentId, name, task } = inner.data;
+      setAgents((prev) =>
+        new Map(prev).set(agentId, {
+          agentId,
+          parentId,
+          name,
+          task,
+          depth: path.length,
+          status: 'running',
+          startedAt: at,
+          activities: [],
+        })
+      );
+      return;
+    }
+
+    if (inner.type === 'agent_complete') {
+      const { agentId, status, error } = inner.data;
+      setAgents((prev) => {
+        const agent = prev.get(agentId);
+        if (!agent) {
+          return prev;
+        }
+
+        const next = new Map(prev).set(agentId, { ...agent, status, error, completedAt: at });
+        if (status === 'failed') {
+          cancelDescendants(next, agentId, at);
+        }
+        return next;
+      });
+      return;
+    }
+
+    // Any other event belongs to the innermost sub-agent on the path
+    const agentId = path[path.length - 1];
+    const activity = toActivity(inner, at);
+    if (!agentId || !activity) {
+      return;
+    }
+
+    setAgents((prev) => {
+      const agent = prev.get(agentId);
+      if (!agent) {
+        return prev;
+      }
+
+      return new Map(prev).set(agentId, {
+        ...agent,
+        activities: [...agent.activities, activity],
+      });
+    });
+  }, []);
+
+  /**
+   * Clear all run state
+   */
+  const clearState = useCallback(() => {
+    setPlan('');
+    setSummary('');
+    setAgents(new Map());
+    setRunStartedAt(null);
+    setLastEventAt(null);
+    setIsComplete(false);
+    hasSpawnedRef.current = false;
+  }, []);
+
+  /**
+   * Run the planner, or continue a run saved before a reload
+   */
+  const run = useCallback(
+    (resumed: PersistedSession<RecordedRun> | null) => {
+      abortControllerRef.current?.abort();
+      clearState();
+      restart();
+
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      // A resumed run continues the scenario it was saved with
+      const runScenario = resumed ? (resumed.fixtureId as StreamScenario | undefined) : scenario;
+      const sessionId = begin(runScenario, resumed);
+
+      (async () => {
+        // Read from the supplied transport, or fall back to the mock run
+        const transport =
+          createTransport?.() ??
+          new ScriptTransport(
+            (context) =>
+              createMockOrchestrationStream({ scenario: runScenario, speed, clock: context.clock }),
+            0,
+            clock
+          );
+        const stream = readPatternStream(transport, (event) => event, {
+          sessionId,
+          history: resumed?.data.events,
+          onEvent: (event) => {
+            observe(event);
+            onEvent?.(event);
+          },
+          signal: controller.signal,
+        });
+
+        try {
+          for await (const event of stream) {
+            // Check if stream was aborted
+            if (controller.signal.aborted) {
+              return;
+            }
+
+            processEvent(event);
+          }
+
+          // A stopped stream was already closed
+          if (controller.signal.aborted) {
+            return;
+          }
+
+          finish('closed');
+          setIsComplete(true);
+          transition('complete');
+        } catch (error) {
+          console.error('Stream error:', error);
+          if (!controller.signal.aborted) {
+            finish('error');
+            transition('fail');
+          }
+        }
+      })();
+    },
+    [
+      scenario,
+      speed,
+      clock,
+      onEvent,
+      createTransport,
+      begin,
+      observe,
+      finish,
+      clearState,
+      processEvent,
+      restart,
+      transition,
+    ]
+  );
+
+  /**
+   * Start the planner run
+   */
+  const startStream = useCallback(() => run(null), [run]);
+
+  /**
+   * Continue the run saved before a reload
+   */
+  const resumeSession = useCallback(() => {
+    if (savedSession) {
+      run(savedSession);
+    }
+  }, [savedSession, run]);
+
+  /**
+   * Stop the stream (a stopped run is not offered for resuming)
+   */
+  const stopStream = useCallback(() => {
+    abortControllerRef.current?.abort();
+    finish('closed');
+    if (can('close')) {
+      transition('close');
+    }
+  }, [finish, can, transition]);
+
+  /**
+   * Stop the stream and clear the run
+   */
+  const reset = useCallback(() => {
+    stopStream();
+    transition('reset');
+    clearState();
+  }, [stopStream, clearState, transition]);
+
+  // Stop streaming on unmount
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
+  const tree = useMemo(() => buildAgentTree(agents), [agents]);
+
+  return {
+    // State
+    plan,
+    summary,
+    agents,
+    tree,
+    runStartedAt,
+    lastEventAt,
+    isStreaming: phase === 'streaming',
+    isComplete,
+    phase,
+    savedSession,
+
+    // Actions
+    startStream,
+    stopStream,
+    reset,
+    resumeSession,
+    discardSession,
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Sub-Agent Orchestration Pattern - Mock Stream Generator
+ *
+ * Replays a planner run: the planner's plan, then its sub-agents running
+ * concurrently (each in its own StreamSession, via createSubAgentStream),
+ * then the planner's summary once every sub-agent has completed.
+ *
+ * @pattern Sub-Agent Orchestration
+ * @educational Demonstrates fan-out and fan-in over nested streams
+ */
+
+import type { StreamEvent } from '@/types/events';
+import { createMockStream } from '@/lib/streaming/mockSSE';
+import { createSubAgentStream, type SubAgentSpec } from '@/lib/streaming/subAgents';
+import {
+  DELAY_PROFILE_MS,
+  type DelayProfile,
+  type TimingModel,
+} from '@/lib/streaming/timingModels';
+import { systemClock, type Clock } from '@/lib/utils/clock';
+import { agentFailureRun, sprintReviewRun, type SubAgentFixture } from './fixtures';
+
+/**
+ * Stream speed presets
+ */
+export type StreamSpeed = DelayProfile;
+
+/**
+ * Stream scenario types
+ */
+export type StreamScenario =
+  | 'sprint-review' // Every sub-agent succeeds
+  | 'agent-failure'; // A nested sub-agent fails mid-stream
+
+/**
+ * Configuration for the mock stream generator.
+ */
+export interface MockStreamOptions {
+  /** Planner run to replay (default: 'sprint-review') */
+  scenario?: StreamScenario;
+
+  /** Speed of event emission (default: 'normal') */
+  speed?: StreamSpeed;
+
+  /** Optional: Callback for each emitted event (for network inspector) */
+  onEvent?: (event: StreamEvent) => void;
+
+  /** Clock the delays are waited on (default: system clock; a VirtualClock in tests) */
+  clock?: Clock;
+}
+
+/**
+ * Timing model that waits a multiple of the speed profile's delay
+ *
+ * @param speed - Stream speed
+ * @param pace - Delay multiplier
+ * @returns Timing model
+ */
+function pacedTiming(speed: StreamSpeed, pace: number): TimingModel {
+  return { getDelay: () => Math.round(DELAY_PROFILE_MS[speed] * pace) };
+}
+
+/**
+ * Convert a fixture sub-agent (and its sub-agents) to a stream spec
+ *
+ * @param fixture - Fixture sub-agent
+ * @param speed - Stream speed
+ * @returns Spec for createSubAgentStream
+ */
+export function toSubAgentSpec(fixture: SubAgentFixture, speed: StreamSpeed): SubAgentSpec {
+  const { agentId, name, task, pace, events, agents, failAt, failMessage } = fixture;
+
+  return {
+    agentId,
+    name,
+    task,
+    events,
+    timing: pacedTiming(speed, pace),
+    agents: agents?.map((child) => toSubAgentSpec(child, speed)),
+    ...(failAt === undefined
+      ? {}
+      : { faults: { error: { at: failAt, createError: () => new Error(failMessage) } } }),
+  };
+}
+
+/**
+ * Creates a mock planner stream.
+ *
+ * @param options - Stream configuration
+ * @returns AsyncGenerator that yields planner and sub-agent events
+ *
+ * @example
+ * ```typescript
+ * const stream = createMockOrchestrationStream({ scenario: 'agent-failure', speed: 'fast' });
+ * for await (const event of stream) {
+ *   console.log(event.type, event.data);
+ * }
+ * ```
+ */
+export async function* createMockOrchestrationStream(
+  options: MockStreamOptions = {}
+): AsyncGenerator<StreamEvent, void, undefined> {
+  const { scenario = 'sprint-review', speed = 'normal', onEvent, clock = systemClock } = options;
+  const run = scenario === 'agent-failure' ? agentFailureRun : sprintReviewRun;
+
+  const phases: AsyncIterable<StreamEvent>[] = [
+    createMockStream({ events: run.plan, delayProfile: speed, sessionId: 'planner-plan', clock }),
+    createSubAgentStream({
+      agents: run.agents.map((agent) => toSubAgentSpec(agent, speed)),
+      clock,
+    }),
+    createMockStream({
+      events: run.summary,
+      delayProfile: speed,
+      sessionId: 'planner-summary',
+      clock,
+    }),
+  ];
+
+  for (const phase of phases) {
+    for await (const event of phase) {
+      if (onEvent) {
+        onEvent(event);
+      }
+
+      yield event;
+    }
+  }
+}
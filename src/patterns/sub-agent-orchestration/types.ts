@@ -0,0 +1,94 @@
+/**
+ * Sub-Agent Orchestration Pattern - TypeScript Type Definitions
+ *
+ * This file defines the type system for the Sub-Agent Orchestration
+ * pattern, which demonstrates how a planner agent fans a request out to
+ * several sub-agents that stream concurrently, and how the UI keeps every
+ * sub-agent's progress visible in one tree of swimlanes.
+ *
+ * The stream itself uses canonical events (`agent_spawn`, `agent_event`,
+ * `agent_complete` wrapping `text` and tool events), so this file only
+ * defines the state the UI derives from them.
+ *
+ * @pattern Sub-Agent Orchestration
+ * @educational Teaches nested streams, per-agent state and concurrent progress views
+ */
+
+/**
+ * Sub-agent lifecycle status.
+ *
+ * - running: Spawned and still streaming
+ * - succeeded: Its stream ended normally
+ * - failed: Its stream failed
+ * - cancelled: Its parent failed before it finished
+ */
+export type SubAgentStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * Kind of activity shown on a swimlane.
+ */
+export type AgentActivityKind = 'text' | 'tool_call' | 'tool_result' | 'tool_error';
+
+/**
+ * One thing a sub-agent did, placed on its swimlane by time.
+ */
+export interface AgentActivity {
+  /** Event ID the activity came from */
+  id: string;
+
+  /** Kind of activity */
+  kind: AgentActivityKind;
+
+  /** Short description shown in the lane */
+  label: string;
+
+  /** When the event reached the planner (milliseconds since epoch) */
+  at: number;
+}
+
+/**
+ * UI state of one sub-agent.
+ *
+ * Educational Note: Sub-agents are stored flat, keyed by ID, with a
+ * `parentId` link. The tree is rebuilt for rendering, so an event for any
+ * depth is a single map update.
+ */
+export interface SubAgentNode {
+  /** Sub-agent identifier */
+  agentId: string;
+
+  /** Spawning sub-agent (absent for sub-agents of the planner) */
+  parentId?: string;
+
+  /** Display name */
+  name: string;
+
+  /** Task the sub-agent was given */
+  task: string;
+
+  /** Nesting depth (0 for sub-agents of the planner) */
+  depth: number;
+
+  /** Lifecycle status */
+  status: SubAgentStatus;
+
+  /** When the sub-agent was spawned */
+  startedAt: number;
+
+  /** When the sub-agent completed (absent while running) */
+  completedAt?: number;
+
+  /** Activities in arrival order */
+  activities: AgentActivity[];
+
+  /** Error message when the sub-agent failed */
+  error?: string;
+}
+
+/**
+ * A sub-agent with its children, for tree rendering.
+ */
+export interface SubAgentTreeNode extends SubAgentNode {
+  /** Sub-agents this one spawned, in spawn order */
+  children: SubAgentTreeNode[];
+}
@@ -11,6 +11,7 @@
  * - Skeleton loading states for anticipated rows
  * - CSV export functionality
  * - Network inspector integration for stream transparency
+ * - Resuming a run interrupted by a reload
  *
  * Demo Scenario:
  * StreamFlow PM team capacity matrix - AI analyzes team availability and
@@ -26,80 +27,14 @@ import { Card } from '@/components/ui/Card';
 import { PatternHelmet } from '@/components/PatternHelmet';
 import { useNetworkCapture } from '@/lib/hooks/useNetworkCapture';
 import { NetworkInspector } from '@/components/NetworkInspector';
+import { ResumeSessionBanner } from '@/components/ui/ResumeSessionBanner';
 import { ScenarioCard } from '@/components/ui/ScenarioCard';
 import { useTabularStream } from './hooks';
 import { StreamingTable } from './StreamingTable';
 import { TableControls } from './TableControls';
 import { CompletionFooter } from './CompletionFooter';
-import type { StreamEvent as GlobalStreamEvent } from '@/types/events';
-import type { StreamEvent as PatternStreamEvent } from './types';
 import styles from './TabularStreamViewDemo.module.css';
 
-/**
- * Map pattern-specific stream events to global event types for Network Inspector.
- *
- * This adapter function bridges between the pattern's internal event structure
- * and the global StreamEvent type used by the Network Inspector.
- */
-function adaptEventForNetworkInspector(
-  event: PatternStreamEvent
-): GlobalStreamEvent | null {
-  const timestamp = Date.now();
-  const id = `event-${timestamp}-${Math.random().toString(36).substr(2, 9)}`;
-
-  switch (event.type) {
-    case 'schema':
-      // Map to global SchemaEvent format
-      return {
-        id,
-        type: 'schema',
-        timestamp,
-        data: {
-          id: event.data.title || 'table-schema',
-          name: event.data.title || 'Table Schema',
-          columns: event.data.columns.map((col) => ({
-            id: col.id,
-            name: col.label,
-            type: col.type as 'string' | 'number' | 'boolean' | 'date' | 'json',
-            required: false
-          })),
-          description: event.data.title
-        }
-      };
-
-    case 'table_row':
-      // Map to global RowEvent format
-      return {
-        id,
-        type: 'table_row',
-        timestamp: event.data.timestamp || timestamp,
-        data: {
-          id: event.data.rowId,
-          data: event.data.values,
-          rowNumber: 0, // Not used in pattern
-          timestamp: event.data.timestamp || timestamp
-        }
-      };
-
-    case 'table_meta':
-      // Map to global MetaEvent format
-      return {
-        id,
-        type: 'table_meta',
-        timestamp: event.data.completedAt || timestamp,
-        data: {
-          totalRows: event.data.totalRows,
-          progress: 1.0,
-          isComplete: true,
-          statusMessage: 'Stream complete'
-        }
-      };
-
-    default:
-      return null;
-  }
-}
-
 /**
  * Demo speed options
  */
@@ -128,13 +63,8 @@ export function TabularStreamViewDemo(): JSX.Element {
   const tabularStream = useTabularStream({
     scenario: 'team-capacity',
     speed,
-    onEvent: (event) => {
-      // Adapt and capture event for network inspector
-      const globalEvent = adaptEventForNetworkInspector(event);
-      if (globalEvent) {
-        captureEvent(globalEvent);
-      }
-    }
+    onEvent: captureEvent,
+    persistKey: 'tabular-stream-view'
   });
 
   const {
@@ -151,7 +81,10 @@ export function TabularStreamViewDemo(): JSX.Element {
     removeFilter,
     clearFilters,
     getVisibleRows,
-    exportCSV
+    exportCSV,
+    savedSession,
+    resumeSession,
+    discardSession
   } = tabularStream;
 
   // Get visible rows (with filters/sort applied)
@@ -189,6 +122,14 @@ export function TabularStreamViewDemo(): JSX.Element {
     }, 100);
   }, [clearEvents, clearFilters, setSort]);
 
+  /**
+   * Continue the run saved before a reload
+   */
+  const handleResume = useCallback((): void => {
+    clearEvents();
+    resumeSession();
+  }, [clearEvents, resumeSession]);
+
   /**
    * Handle speed change
    */
@@ -267,6 +208,18 @@ export function TabularStreamViewDemo(): JSX.Element {
           </Button>
         </div>
 
+      {/* Saved run */}
+      {savedSession && !isStreaming && (
+        <div className={styles.scenario}>
+          <ResumeSessionBanner
+            eventCount={savedSession.position}
+            savedAt={savedSession.savedAt}
+            onResume={handleResume}
+            onDiscard={discardSession}
+          />
+        </div>
+      )}
+
       {/* Scenario Description */}
       <div className={styles.scenario}>
         <ScenarioCard
@@ -329,6 +282,7 @@ export function TabularStreamViewDemo(): JSX.Element {
         <section className={styles.inspectorSection}>
           <NetworkInspector
             events={filteredEvents}
+            pattern="tabular-stream-view"
             title="Stream Events"
           />
         </section>
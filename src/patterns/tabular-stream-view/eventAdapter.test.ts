@@ -0,0 +1,57 @@
+/**
+ * Tests for the Tabular Stream View event adapter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createEventAdapter } from '@/lib/streaming/eventAdapter';
+import { isStreamEvent } from '@/lib/streaming/eventSchema';
+import { adaptTabularEvent, readTabularEvent } from './eventAdapter';
+import { teamCapacityFixture, teamCapacitySchema } from './fixtures';
+
+describe('adaptTabularEvent', () => {
+  it('should produce valid canonical events for the whole fixture', () => {
+    const toStreamEvent = createEventAdapter(adaptTabularEvent);
+
+    teamCapacityFixture.forEach((event) => {
+      expect(isStreamEvent(toStreamEvent(event))).toBe(true);
+    });
+  });
+
+  it('should map column labels to names', () => {
+    const toStreamEvent = createEventAdapter(adaptTabularEvent);
+    const schema = toStreamEvent({ type: 'schema', data: teamCapacitySchema });
+
+    expect(schema.type).toBe('schema');
+    expect(schema.type === 'schema' && schema.data.columns.map((column) => column.name)).toEqual(
+      teamCapacitySchema.columns.map((column) => column.label)
+    );
+  });
+
+  it('should number rows in arrival order', () => {
+    const toStreamEvent = createEventAdapter(adaptTabularEvent);
+    const rowNumbers = teamCapacityFixture
+      .map(toStreamEvent)
+      .flatMap((event) => (event.type === 'table_row' ? [event.data.rowNumber] : []));
+
+    expect(rowNumbers.slice(0, 3)).toEqual([1, 2, 3]);
+  });
+});
+
+describe('readTabularEvent', () => {
+  it('should read back every event it adapts', () => {
+    const toStreamEvent = createEventAdapter(adaptTabularEvent);
+
+    teamCapacityFixture.forEach((event) => {
+      expect(readTabularEvent(toStreamEvent(event))).toEqual(event);
+    });
+  });
+
+  it('should ignore events the pattern does not render', () => {
+    expect(
+      readTabularEvent({ id: 't1', type: 'text', timestamp: 1, data: { text: 'Hi' } })
+    ).toBeNull();
+    expect(
+      readTabularEvent({ id: 'm1', type: 'table_meta', timestamp: 1, data: { isComplete: false } })
+    ).toBeNull();
+  });
+});
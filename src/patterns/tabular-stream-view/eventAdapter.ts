@@ -0,0 +1,132 @@
+/**
+ * Event adapter for the Tabular Stream View pattern.
+ *
+ * Maps the pattern's schema, row and metadata events onto the canonical
+ * StreamEvent union. Rows are numbered in arrival order. Column hints,
+ * row metadata and aggregations ride along as optional canonical fields, so
+ * the reader can rebuild the table from any transport.
+ *
+ * @module patterns/tabular-stream-view/eventAdapter
+ */
+
+import type { EventAdapter, EventReader } from '@/lib/streaming/eventAdapter';
+import type { StreamEvent } from './types';
+
+/**
+ * Convert a tabular stream event to a canonical stream event.
+ *
+ * @example
+ * ```typescript
+ * const toStreamEvent = createEventAdapter(adaptTabularEvent, { idPrefix: 'tabular' });
+ * captureEvent(toStreamEvent(event));
+ * ```
+ */
+export const adaptTabularEvent: EventAdapter<StreamEvent> = (event, { id, timestamp, lastOf }) => {
+  switch (event.type) {
+    case 'schema':
+      return {
+        id,
+        timestamp,
+        type: 'schema',
+        data: {
+          id: event.data.title ?? 'table-schema',
+          name: event.data.title ?? 'Table Schema',
+          columns: event.data.columns.map(({ label, ...column }) => ({
+            ...column,
+            name: label,
+            required: false,
+          })),
+          description: event.data.title,
+          totalRows: event.data.totalRows,
+          metadata: event.data.metadata,
+        },
+      };
+    case 'table_row': {
+      const rowTimestamp = event.data.timestamp ?? timestamp;
+      return {
+        id,
+        timestamp: rowTimestamp,
+        type: 'table_row',
+        data: {
+          id: event.data.rowId,
+          data: event.data.values,
+          rowNumber: (lastOf('table_row')?.data.rowNumber ?? 0) + 1,
+          timestamp: rowTimestamp,
+          metadata: event.data.metadata,
+        },
+      };
+    }
+    case 'table_meta':
+      return {
+        id,
+        timestamp: event.data.completedAt ?? timestamp,
+        type: 'table_meta',
+        data: {
+          totalRows: event.data.totalRows,
+          progress: 1,
+          isComplete: true,
+          statusMessage: 'Stream complete',
+          aggregations: event.data.aggregations,
+          completedAt: event.data.completedAt,
+          metadata: event.data.metadata,
+        },
+      };
+  }
+};
+
+/**
+ * Read a canonical stream event as a tabular stream event.
+ *
+ * @example
+ * ```typescript
+ * for await (const event of readPatternStream(transport, readTabularEvent)) {
+ *   processEvent(event);
+ * }
+ * ```
+ */
+export const readTabularEvent: EventReader<StreamEvent> = (event) => {
+  switch (event.type) {
+    case 'schema':
+      return {
+        type: 'schema',
+        data: {
+          columns: event.data.columns.map(
+            ({ name, type, required: _required, format: _format, ...column }) => ({
+              ...column,
+              label: name,
+              type: type === 'json' ? 'string' : type,
+            })
+          ),
+          totalRows: event.data.totalRows,
+          title: event.data.description,
+          metadata: event.data.metadata,
+        },
+      };
+    case 'table_row':
+      return {
+        type: 'table_row',
+        data: {
+          rowId: event.data.id,
+          values: event.data.data as Record<string, string | number | boolean | null>,
+          timestamp: event.data.timestamp,
+          metadata: event.data.metadata,
+        },
+      };
+    case 'table_meta':
+      if (!event.data.isComplete) {
+        return null;
+      }
+
+      return {
+        type: 'table_meta',
+        data: {
+          totalRows: event.data.totalRows ?? 0,
+          aggregations: event.data.aggregations,
+          completedAt: event.data.completedAt,
+          metadata: event.data.metadata,
+        },
+      };
+    default:
+      return null;
+  }
+};
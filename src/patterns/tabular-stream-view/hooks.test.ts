@@ -11,6 +11,7 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { renderHook, waitFor, act } from '@testing-library/react';
+import { VirtualClock } from '@/lib/utils/clock';
 import { useTabularStream } from './hooks';
 
 describe('useTabularStream', () => {
@@ -375,3 +376,65 @@ describe('useTabularStream', () => {
     }
   });
 });
+
+describe('useTabularStream session persistence', () => {
+  const persistKey = 'tabular-stream-view-test';
+
+  /**
+   * Stream the schema and some rows, then "reload" the page
+   */
+  async function runPartway(clock: VirtualClock) {
+    const { result, unmount } = renderHook(() =>
+      useTabularStream({ speed: 'fast', clock, persistKey })
+    );
+
+    await act(() => clock.advance(200));
+    expect(result.current.rows.length).toBeGreaterThan(0);
+    expect(result.current.isComplete).toBe(false);
+
+    unmount();
+  }
+
+  it('should offer the saved run instead of starting over', async () => {
+    const clock = new VirtualClock();
+    await runPartway(clock);
+
+    const { result } = renderHook(() => useTabularStream({ speed: 'fast', clock, persistKey }));
+
+    expect(result.current.isStreaming).toBe(false);
+    expect(result.current.rows).toEqual([]);
+    expect(result.current.savedSession?.position).toBeGreaterThan(1);
+  });
+
+  it('should restore the saved rows and continue after them', async () => {
+    const clock = new VirtualClock();
+    const reference = renderHook(() => useTabularStream({ speed: 'fast', clock }));
+    await act(() => clock.runAll());
+    const expected = reference.result.current.rows.map((row) => row.rowId);
+    reference.unmount();
+
+    await runPartway(clock);
+    const { result } = renderHook(() => useTabularStream({ speed: 'fast', clock, persistKey }));
+
+    // Skipped events are regenerated without timers, so step until the run ends
+    act(() => result.current.resumeSession());
+    while (!result.current.isComplete) {
+      await act(() => clock.advance(100));
+    }
+
+    expect(result.current.rows.map((row) => row.rowId)).toEqual(expected);
+    expect(result.current.metadata).toBeDefined();
+    expect(localStorage.length).toBe(0);
+  });
+
+  it('should start over when the saved run is discarded', async () => {
+    const clock = new VirtualClock();
+    await runPartway(clock);
+
+    const { result } = renderHook(() => useTabularStream({ speed: 'fast', clock, persistKey }));
+    act(() => result.current.discardSession());
+
+    expect(result.current.savedSession).toBeNull();
+    expect(result.current.isStreaming).toBe(true);
+  });
+});
@@ -27,6 +27,27 @@ import type {
 } from './types';
 import { StreamError } from './types';
 import { createMockTabularStream } from './mockStream';
+import { adaptTabularEvent, readTabularEvent } from './eventAdapter';
+import { PatternTransport, readPatternStream } from '@/lib/streaming/eventAdapter';
+import type { PersistedSession, RecordedRun } from '@/lib/streaming/sessionPersistence';
+import type { StreamTransport } from '@/lib/streaming/transport';
+import { useSessionPersistence } from '@/lib/hooks/useSessionPersistence';
+import { useLifecycle } from '@/lib/hooks/useLifecycle';
+import type { StreamEvent as CanonicalStreamEvent } from '@/types/events';
+
+/**
+ * Options accepted by useTabularStream.
+ *
+ * Events flow through a StreamSession over a PatternTransport wrapping the
+ * mock generator, or over the transport returned by `createTransport`.
+ * `onEvent` receives the canonical, enriched events. With `persistKey`, the
+ * run is saved so a reload can resume it (see `resumeSession`).
+ */
+export type UseTabularStreamOptions = Omit<TabularStreamConfig, 'onEvent'> & {
+  onEvent?: (event: CanonicalStreamEvent) => void;
+  createTransport?: () => StreamTransport;
+  persistKey?: string;
+};
 
 /**
  * Compares two values for sorting based on their types.
@@ -136,6 +157,7 @@ function rowsToCSV(schema: TableSchema | undefined, rows: TableRow[]): string {
  * - Managing schema, rows, and metadata state
  * - Applying sorting and filtering to partial data
  * - Exporting data to CSV
+ * - Offering a run interrupted by a reload instead of starting over
  *
  * @param config - Configuration for the tabular stream
  * @returns Tabular stream state and operations
@@ -184,13 +206,13 @@ function rowsToCSV(schema: TableSchema | undefined, rows: TableRow[]): string {
  * ```
  */
 export function useTabularStream(
-  config: TabularStreamConfig = {}
+  config: UseTabularStreamOptions = {}
 ): TabularStreamState {
   // State management
   const [schema, setSchema] = useState<TableSchema | undefined>();
   const [rows, setRows] = useState<TableRow[]>([]);
   const [metadata, setMetadata] = useState<TableMetadata | undefined>();
-  const [isStreaming, setIsStreaming] = useState(false);
+  const { phase, restart, transition } = useLifecycle();
   const [isComplete, setIsComplete] = useState(false);
   const [error, setError] = useState<Error | undefined>();
   const [sort, setSort] = useState<SortConfig | null>(null);
@@ -202,6 +224,23 @@ export function useTabularStream(
   // Ref to track cancellation
   const cancelledRef = useRef(false);
 
+  // Saved runs: offered on mount, then recorded event by event
+  const {
+    savedSession,
+    begin,
+    observe,
+    finish,
+    discardSession: clearSavedSession,
+  } = useSessionPersistence({ persistKey: config.persistKey, clock: config.clock });
+  const savedSessionRef = useRef(savedSession);
+  savedSessionRef.current = savedSession;
+
+  // Saved run the next stream continues (set by resumeSession)
+  const resumeRef = useRef<PersistedSession<RecordedRun> | null>(null);
+
+  // Bumped to (re)start the stream after resuming or discarding a saved run
+  const [runTrigger, setRunTrigger] = useState(0);
+
   /**
    * Consume the stream and update state progressively.
    *
@@ -212,6 +251,13 @@ export function useTabularStream(
    * - Cleanup on unmount
    */
   useEffect(() => {
+    // A saved run is offered first: wait for resumeSession or discardSession
+    const resumed = resumeRef.current;
+    resumeRef.current = null;
+    if (!resumed && savedSessionRef.current) {
+      return;
+    }
+
     // Reset cancellation flag
     cancelledRef.current = false;
 
@@ -219,14 +265,38 @@ export function useTabularStream(
     setSchema(undefined);
     setRows([]);
     setMetadata(undefined);
-    setIsStreaming(true);
+    restart();
     setIsComplete(false);
     setError(undefined);
 
+    const { onEvent, createTransport, persistKey: _persistKey, ...streamConfig } = config;
+    const abortController = new AbortController();
+
+    // A resumed run continues the scenario it was saved with
+    if (resumed) {
+      streamConfig.scenario = resumed.fixtureId;
+    }
+    const sessionId = begin(streamConfig.scenario, resumed);
+
     // Create and consume stream
     (async () => {
       try {
-        const stream = createMockTabularStream(config);
+        const transport =
+          createTransport?.() ??
+          new PatternTransport(
+            (context) => createMockTabularStream({ ...streamConfig, clock: context.clock }),
+            adaptTabularEvent,
+            { idPrefix: 'tabular', clock: streamConfig.clock }
+          );
+        const stream = readPatternStream(transport, readTabularEvent, {
+          sessionId,
+          history: resumed?.data.events,
+          onEvent: (event) => {
+            observe(event);
+            onEvent?.(event);
+          },
+          signal: abortController.signal,
+        });
 
         for await (const event of stream) {
           // Check if component unmounted or stream cancelled
@@ -253,7 +323,8 @@ export function useTabularStream(
 
         // Stream completed successfully
         if (isMountedRef.current && !cancelledRef.current) {
-          setIsStreaming(false);
+          finish('closed');
+          transition('complete');
         }
       } catch (err) {
         // Handle stream errors
@@ -266,8 +337,9 @@ export function useTabularStream(
                   'unknown'
                 );
 
+          finish('error');
           setError(streamError);
-          setIsStreaming(false);
+          transition('fail');
         }
       }
     })();
@@ -275,9 +347,30 @@ export function useTabularStream(
     // Cleanup function
     return () => {
       cancelledRef.current = true;
+      abortController.abort();
     };
+    // Only re-run if these change
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [config.scenario, config.speed, config.simulateError]); // Only re-run if these change
+  }, [config.scenario, config.speed, config.simulateError, config.createTransport, runTrigger]);
+
+  /**
+   * Continue the run saved before a reload.
+   */
+  const resumeSession = useCallback(() => {
+    if (savedSessionRef.current) {
+      resumeRef.current = savedSessionRef.current;
+      setRunTrigger((prev) => prev + 1);
+    }
+  }, []);
+
+  /**
+   * Drop the saved run and start the stream from the beginning.
+   */
+  const discardSession = useCallback(() => {
+    clearSavedSession();
+    savedSessionRef.current = null;
+    setRunTrigger((prev) => prev + 1);
+  }, [clearSavedSession]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -360,7 +453,8 @@ export function useTabularStream(
     schema,
     rows,
     metadata,
-    isStreaming,
+    isStreaming: phase === 'streaming',
+    phase,
     isComplete,
     error,
     sort,
@@ -371,5 +465,8 @@ export function useTabularStream(
     clearFilters,
     getVisibleRows,
     exportCSV,
+    savedSession,
+    resumeSession,
+    discardSession,
   };
 }
@@ -16,6 +16,7 @@ import {
   getSchemaSync
 } from './mockStream';
 import { StreamError } from './types';
+import { VirtualClock } from '@/lib/utils/clock';
 
 describe('mockStream', () => {
   beforeEach(() => {
@@ -69,13 +70,15 @@ describe('mockStream', () => {
     });
 
     it('should respect fast speed preset', async () => {
-      const startTime = Date.now();
-      await streamToArray({ speed: 'fast' });
-      const elapsed = Date.now() - startTime;
+      const clock = new VirtualClock();
+      const events = streamToArray({ speed: 'fast', scenario: 'team-capacity', clock });
 
-      // Fast mode (50ms between events) should complete quickly
-      // 14 events * 50ms = 700ms, give it some buffer
-      expect(elapsed).toBeLessThan(2000);
+      await clock.runAll();
+
+      // Schema immediately, then 13 events * 50ms
+      expect(await events).toHaveLength(14);
+      expect(clock.now()).toBe(650);
+      expect(clock.getPendingTimers()).toBe(0);
     });
 
     it('should throw StreamError for timeout simulation', async () => {
@@ -16,32 +16,16 @@
 import type { StreamEvent, TabularStreamConfig } from './types';
 import { StreamError } from './types';
 import { getFixture } from './fixtures';
-
-/**
- * Speed presets for demo control.
- * Maps speed names to delay milliseconds between events.
- */
-const SPEED_PRESETS = {
-  fast: 50, // Quick demo (good for development)
-  normal: 300, // Realistic timing (default)
-  slow: 1000 // Detailed observation (good for teaching)
-} as const;
+import { createProfileTiming, type TimingModel } from '@/lib/streaming/timingModels';
+import { injectFaults, type FaultInjectionConfig } from '@/lib/streaming/faultInjection';
+import { systemClock, type Clock } from '@/lib/utils/clock';
+import { delay } from '@/lib/utils/delay';
 
 /**
  * Default timeout for stream completion (30 seconds).
  */
 const DEFAULT_TIMEOUT_MS = 30000;
 
-/**
- * Helper function to create a delay promise.
- *
- * @param ms - Milliseconds to delay
- * @returns Promise that resolves after the delay
- */
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 /**
  * Create a mock tabular stream generator.
  *
@@ -83,7 +67,10 @@ export async function* createMockTabularStream(
     speed = 'normal',
     onEvent,
     timeoutMs = DEFAULT_TIMEOUT_MS,
-    simulateError = 'none'
+    simulateError = 'none',
+    timing = createProfileTiming(speed),
+    faults,
+    clock = systemClock
   } = config;
 
   // Get fixture data for the scenario
@@ -99,28 +86,59 @@ export async function* createMockTabularStream(
     throw new StreamError('First event must be schema event', 'stream');
   }
 
-  // Get delay based on speed preset
-  const delayMs = SPEED_PRESETS[speed];
+  // Error simulation is expressed as injected faults on top of any custom ones
+  const stream = injectFaults(streamFixture(fixture, timing, timeoutMs, clock), {
+    clock,
+    ...faults,
+    ...getSimulatedErrorFaults(simulateError, fixture.length, timeoutMs),
+  });
 
-  // Simulate timeout error before streaming starts
-  if (simulateError === 'timeout') {
-    throw new StreamError(
-      `Stream timeout after ${timeoutMs}ms`,
-      'timeout'
-    );
-  }
+  try {
+    for await (const event of stream) {
+      // Emit event through onEvent callback if provided
+      if (onEvent) {
+        onEvent(event);
+      }
 
-  // Simulate network error before streaming starts
-  if (simulateError === 'network') {
+      // Yield event to the consumer
+      yield event;
+    }
+  } catch (error) {
+    // Re-throw StreamError as-is
+    if (error instanceof StreamError) {
+      throw error;
+    }
+
+    // Wrap other errors
     throw new StreamError(
-      'Network connection failed',
-      'network'
+      error instanceof Error ? error.message : 'Unknown stream error',
+      'unknown'
     );
   }
+}
 
+/**
+ * Stream fixture events progressively with timing delays.
+ *
+ * The schema event is emitted immediately; every later event waits for its
+ * timing delay, raced against the overall stream timeout.
+ *
+ * @param fixture - Events to stream (schema first)
+ * @param timing - Timing model for delays between events
+ * @param timeoutMs - Maximum total stream duration
+ * @param clock - Clock for delays and the timeout timer
+ * @returns Async generator that yields fixture events
+ */
+async function* streamFixture(
+  fixture: StreamEvent[],
+  timing: TimingModel,
+  timeoutMs: number,
+  clock: Clock
+): AsyncGenerator<StreamEvent, void, unknown> {
   // Set up timeout timer
+  let timeoutId: unknown;
   const timeoutPromise = new Promise<never>((_, reject) => {
-    setTimeout(() => {
+    timeoutId = clock.setTimeout(() => {
       reject(new StreamError(
         `Stream timeout after ${timeoutMs}ms`,
         'timeout'
@@ -129,45 +147,65 @@ export async function* createMockTabularStream(
   });
 
   try {
-    // Stream events progressively
     for (let i = 0; i < fixture.length; i++) {
       const event = fixture[i];
 
-      // Simulate mid-stream error halfway through
-      if (simulateError === 'mid-stream' && i === Math.floor(fixture.length / 2)) {
-        throw new StreamError(
-          'Stream error: Connection interrupted',
-          'stream'
-        );
-      }
-
       // Wait for delay (except for first event - schema comes immediately)
       if (i > 0) {
         await Promise.race([
-          delay(delayMs),
+          delay(timing.getDelay({ index: i, event, previous: fixture[i - 1] }), clock),
           timeoutPromise
         ]);
       }
 
-      // Emit event through onEvent callback if provided
-      if (onEvent) {
-        onEvent(event);
-      }
-
-      // Yield event to the consumer
       yield event;
     }
-  } catch (error) {
-    // Re-throw StreamError as-is
-    if (error instanceof StreamError) {
-      throw error;
-    }
+  } finally {
+    // Don't leave the timeout pending once the stream ends or is cancelled
+    clock.clearTimeout(timeoutId);
+  }
+}
 
-    // Wrap other errors
-    throw new StreamError(
-      error instanceof Error ? error.message : 'Unknown stream error',
-      'unknown'
-    );
+/**
+ * Translate the `simulateError` option into injected faults.
+ *
+ * - 'timeout' / 'network': fail before streaming starts
+ * - 'mid-stream': fail halfway through the fixture
+ *
+ * @param simulateError - Error simulation mode
+ * @param eventCount - Number of fixture events
+ * @param timeoutMs - Configured timeout (for the error message)
+ * @returns Fault configuration (empty for 'none')
+ */
+function getSimulatedErrorFaults(
+  simulateError: NonNullable<TabularStreamConfig['simulateError']>,
+  eventCount: number,
+  timeoutMs: number
+): FaultInjectionConfig {
+  switch (simulateError) {
+    case 'timeout':
+      return {
+        error: {
+          at: 0,
+          createError: () => new StreamError(`Stream timeout after ${timeoutMs}ms`, 'timeout')
+        }
+      };
+    case 'network':
+      return {
+        error: {
+          at: 0,
+          createError: () => new StreamError('Network connection failed', 'network')
+        }
+      };
+    case 'mid-stream':
+      return {
+        error: {
+          at: Math.floor(eventCount / 2),
+          createError: () => new StreamError('Stream error: Connection interrupted', 'stream')
+        }
+      };
+    case 'none':
+      return {};
   }
 }
 
@@ -8,6 +8,12 @@
  * @module patterns/tabular-stream-view/types
  */
 
+import type { TimingModel } from '@/lib/streaming/timingModels';
+import type { FaultInjectionConfig } from '@/lib/streaming/faultInjection';
+import type { Clock } from '@/lib/utils/clock';
+import type { PersistedSession, RecordedRun } from '@/lib/streaming/sessionPersistence';
+import type { LifecyclePhase } from '@/lib/streaming/lifecycle';
+
 /**
  * Supported column data types in the streaming table.
  *
@@ -379,6 +385,13 @@ export interface TabularStreamConfig {
    */
   speed?: 'fast' | 'normal' | 'slow';
 
+  /**
+   * Timing model controlling delays between rows.
+   * Overrides `speed` when provided (e.g. bursty delivery).
+   * @default createProfileTiming(speed)
+   */
+  timing?: TimingModel;
+
   /**
    * Optional callback invoked when each event is emitted.
    * Useful for network capture, logging, and debugging.
@@ -400,6 +413,19 @@ export interface TabularStreamConfig {
    * @default 'none'
    */
   simulateError?: 'none' | 'timeout' | 'network' | 'mid-stream';
+
+  /**
+   * Seeded faults to inject (drops, duplicates, reordering, ...).
+   * `simulateError` is applied on top of these.
+   */
+  faults?: FaultInjectionConfig;
+
+  /**
+   * Clock for row delays and the stream timeout.
+   * Pass a VirtualClock in tests to stream without real waiting.
+   * @default systemClock
+   */
+  clock?: Clock;
 }
 
 /**
@@ -430,6 +456,11 @@ export interface TabularStreamState {
    */
   isStreaming: boolean;
 
+  /**
+   * Lifecycle phase of the stream (see lib/streaming/lifecycle).
+   */
+  phase: LifecyclePhase;
+
   /**
    * True if the stream has completed successfully.
    */
@@ -483,6 +514,22 @@ export interface TabularStreamState {
    * Works on filtered/sorted rows if filters/sort are active.
    */
   exportCSV: () => string;
+
+  /**
+   * Run saved before a reload (with `persistKey`), until it is resumed or discarded.
+   * While one is offered, the stream does not start on its own.
+   */
+  savedSession: PersistedSession<RecordedRun> | null;
+
+  /**
+   * Continue the saved run: its rows are restored and the stream continues after them.
+   */
+  resumeSession: () => void;
+
+  /**
+   * Drop the saved run and start the stream from the beginning.
+   */
+  discardSession: () => void;
 }
 
 /**
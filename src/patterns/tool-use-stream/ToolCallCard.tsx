@@ -0,0 +1,155 @@
+/**
+ * Tool-Use Stream Pattern - ToolCallCard Component
+ *
+ * Collapsible card for one tool call. The header names the tool and
+ * previews its arguments; the body shows the arguments as they stream,
+ * then the tool's result or error.
+ *
+ * @pattern Tool-Use Stream
+ * @educational Demonstrates a tool call's lifecycle on a single surface
+ */
+
+import { useId, useState } from 'react';
+import { Badge, type BadgeProps } from '@/components/ui/Badge';
+import type { JsonValue } from '@/lib/streaming/partialJson';
+import { ToolResultView } from './ToolResultView';
+import type { ToolCall, ToolCallStatus } from './types';
+import styles from './ToolCallCard.module.css';
+
+export interface ToolCallCardProps {
+  /** The call to display */
+  call: ToolCall;
+
+  /** Whether the card starts expanded (default: true) */
+  defaultExpanded?: boolean;
+}
+
+/** Longest argument summary shown in the header */
+const MAX_SUMMARY_LENGTH = 60;
+
+/**
+ * Badge variant per status
+ */
+const STATUS_VARIANTS: Record<ToolCallStatus, BadgeProps['variant']> = {
+  streaming: 'primary',
+  running: 'warning',
+  succeeded: 'success',
+  failed: 'error',
+};
+
+/**
+ * Get the status badge label
+ */
+function getStatusLabel(call: ToolCall): string {
+  switch (call.status) {
+    case 'streaming':
+      return 'Writing arguments';
+    case 'running':
+      return 'Running';
+    case 'succeeded':
+      return call.durationMs === undefined ? 'Done' : `Done in ${call.durationMs}ms`;
+    case 'failed':
+      return 'Failed';
+  }
+}
+
+/**
+ * Summarize arguments on one line: `sprintId: "sprint-24", include: [...]`
+ */
+function summarizeArguments(args: JsonValue | undefined): string {
+  if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+    return args === undefined ? '' : JSON.stringify(args);
+  }
+
+  const summary = Object.entries(args)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+    .join(', ');
+
+  return summary.length > MAX_SUMMARY_LENGTH
+    ? `${summary.slice(0, MAX_SUMMARY_LENGTH - 1)}…`
+    : summary;
+}
+
+/**
+ * ToolCallCard Component
+ *
+ * Educational Notes:
+ * - The card appears as soon as the tool is chosen, before arguments exist
+ * - Arguments are previewed from partially parsed JSON while they stream
+ * - Results and errors land on the card of the call that produced them
+ * - Collapsing keeps long runs scannable
+ *
+ * @param props - Component props
+ * @returns JSX element
+ */
+export function ToolCallCard({ call, defaultExpanded = true }: ToolCallCardProps): JSX.Element {
+  const [expanded, setExpanded] = useState(defaultExpanded);
+  const bodyId = useId();
+  const isStreaming = call.status === 'streaming';
+
+  return (
+    <article
+      className={`${styles.card} ${styles[`card--${call.status}`]}`}
+      aria-label={`Tool call ${call.toolName}`}
+      data-testid={`tool-call-${call.callId}`}
+    >
+      <button
+        type="button"
+        className={styles.header}
+        onClick={() => setExpanded((prev) => !prev)}
+        aria-expanded={expanded}
+        aria-controls={bodyId}
+      >
+        <span className={styles.chevron} aria-hidden="true">
+          {expanded ? '▾' : '▸'}
+        </span>
+        <span className={styles.signature}>
+          <span className={styles.toolName}>{call.toolName}</span>
+          <span className={styles.summary}>({summarizeArguments(call.arguments)})</span>
+        </span>
+        <Badge variant={STATUS_VARIANTS[call.status]} size="sm" dot={call.status === 'running'}>
+          {getStatusLabel(call)}
+        </Badge>
+      </button>
+
+      {expanded && (
+        <div id={bodyId} className={styles.body}>
+          {call.description && <p className={styles.description}>{call.description}</p>}
+
+          <section className={styles.section} aria-label="Arguments">
+            <h4 className={styles.sectionTitle}>Arguments</h4>
+            <pre className={styles.arguments} aria-busy={isStreaming}>
+              {call.arguments === undefined ? '' : JSON.stringify(call.arguments, null, 2)}
+              {isStreaming && <span className={styles.cursor} aria-hidden="true" />}
+            </pre>
+            {call.argumentsError && (
+              <p className={styles.argumentsError} role="alert">
+                {call.argumentsError}
+              </p>
+            )}
+          </section>
+
+          {call.status === 'succeeded' && call.result !== undefined && (
+            <section className={styles.section} aria-label="Result">
+              <h4 className={styles.sectionTitle}>Result</h4>
+              <ToolResultView value={call.result} />
+            </section>
+          )}
+
+          {call.error && (
+            <section className={styles.section} aria-label="Error">
+              <h4 className={styles.sectionTitle}>Error</h4>
+              <p className={styles.error}>
+                {call.error.message}
+                {call.error.code && <code className={styles.errorCode}>{call.error.code}</code>}
+              </p>
+              <p className={styles.retryHint}>
+                {call.error.retryable ? 'Retryable: the agent may try again.' : 'Not retryable.'}
+              </p>
+            </section>
+          )}
+        </div>
+      )}
+    </article>
+  );
+}
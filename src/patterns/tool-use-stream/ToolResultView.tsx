@@ -0,0 +1,119 @@
+/**
+ * Tool-Use Stream Pattern - ToolResultView Component
+ *
+ * Renders a tool's JSON result in a readable form: lists of records become
+ * tables, objects become labelled fields, and anything else is shown as a
+ * value.
+ *
+ * @pattern Tool-Use Stream
+ * @educational Demonstrates shape-based rendering of structured tool output
+ */
+
+import type { JsonValue } from '@/lib/streaming/partialJson';
+import styles from './ToolResultView.module.css';
+
+export interface ToolResultViewProps {
+  /** Value returned by the tool */
+  value: JsonValue;
+}
+
+type JsonRecord = { [key: string]: JsonValue };
+
+/**
+ * Check if a value is a JSON object
+ */
+function isRecord(value: JsonValue): value is JsonRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check if a value is a non-empty list of JSON objects
+ */
+function isRecordList(value: JsonValue): value is JsonRecord[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isRecord);
+}
+
+/**
+ * Format a scalar (or a list of scalars) for display
+ */
+function formatScalar(value: JsonValue): string {
+  if (Array.isArray(value)) {
+    return value.map(formatScalar).join(', ');
+  }
+  if (isRecord(value)) {
+    return JSON.stringify(value);
+  }
+  return value === null ? '—' : String(value);
+}
+
+/**
+ * Check if a value renders inline (no nested records)
+ */
+function isInline(value: JsonValue): boolean {
+  if (Array.isArray(value)) {
+    return !value.some((item) => typeof item === 'object' && item !== null);
+  }
+  return !isRecord(value);
+}
+
+/**
+ * ToolResultView Component
+ *
+ * Educational Note: Tool output is structured data, not prose. Rendering it
+ * by shape (table, fields, value) lets users check what the agent saw
+ * without reading raw JSON.
+ *
+ * @param props - Component props
+ * @returns JSX element
+ */
+export function ToolResultView({ value }: ToolResultViewProps): JSX.Element {
+  if (isRecordList(value)) {
+    const columns = Array.from(new Set(value.flatMap((record) => Object.keys(record))));
+
+    return (
+      <div className={styles.tableWrapper}>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              {columns.map((column) => (
+                <th key={column} scope="col">
+                  {column}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {value.map((record, rowIndex) => (
+              <tr key={rowIndex}>
+                {columns.map((column) => (
+                  <td key={column}>{column in record ? formatScalar(record[column]) : ''}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+
+  if (isRecord(value)) {
+    return (
+      <dl className={styles.fields}>
+        {Object.entries(value).map(([key, fieldValue]) => (
+          <div key={key} className={styles.field}>
+            <dt className={styles.fieldName}>{key}</dt>
+            <dd className={styles.fieldValue}>
+              {isInline(fieldValue) ? (
+                formatScalar(fieldValue)
+              ) : (
+                <ToolResultView value={fieldValue} />
+              )}
+            </dd>
+          </div>
+        ))}
+      </dl>
+    );
+  }
+
+  return <code className={styles.scalar}>{formatScalar(value)}</code>;
+}
@@ -0,0 +1,147 @@
+/**
+ * ToolUseDemo Component Tests
+ *
+ * Integration tests for the full pattern demo.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { act, screen, waitFor, within } from '@testing-library/react';
+import { render } from '../../../tests/test-utils';
+import { userEvent } from '@testing-library/user-event';
+import { ToolUseDemo } from './ToolUseDemo';
+
+// Mock NetworkInspector to avoid test complexity
+vi.mock('@/components/NetworkInspector/NetworkInspector', () => ({
+  NetworkInspector: () => <div data-testid="network-inspector">Network Inspector</div>,
+}));
+
+/**
+ * Select fast speed and run the chosen scenario to completion
+ */
+async function runScenario(user: ReturnType<typeof userEvent.setup>, scenario: RegExp) {
+  await user.click(screen.getByRole('button', { name: scenario }));
+  await user.click(screen.getByRole('button', { name: /⚡ Fast/i }));
+  await user.click(screen.getByRole('button', { name: /Start Stream/i }));
+
+  await waitFor(
+    () => {
+      expect(screen.getByText(/· complete/)).toBeInTheDocument();
+    },
+    { timeout: 10000 }
+  );
+}
+
+describe('ToolUseDemo', () => {
+  it('should render the demo with initial state', () => {
+    render(<ToolUseDemo />);
+
+    expect(screen.getByText('Tool-Use Stream Pattern')).toBeInTheDocument();
+    expect(screen.getByText('Is Sprint 24 on track for the mobile release?')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Start Stream/i })).toBeInTheDocument();
+    expect(screen.getByText(/watch the agent call its tools/i)).toBeInTheDocument();
+  });
+
+  it('should render a card per tool call with its result', async () => {
+    const user = userEvent.setup();
+    render(<ToolUseDemo />);
+
+    await runScenario(user, /Sprint Health/);
+
+    expect(screen.getAllByRole('article', { name: /^Tool call/ })).toHaveLength(3);
+    expect(screen.getByText('3 of 3 tool calls finished · complete')).toBeInTheDocument();
+
+    // The task list renders as a table
+    const tasksCard = screen.getByTestId('tool-call-call-2');
+    const table = within(tasksCard).getByRole('table');
+    expect(within(table).getByRole('columnheader', { name: 'key' })).toBeInTheDocument();
+    expect(within(table).getByText('MOB-418')).toBeInTheDocument();
+  }, 15000);
+
+  it('should collapse and expand a tool call card', async () => {
+    const user = userEvent.setup();
+    render(<ToolUseDemo />);
+
+    await runScenario(user, /Sprint Health/);
+
+    const card = screen.getByTestId('tool-call-call-1');
+    const toggle = within(card).getByRole('button', { expanded: true });
+
+    await user.click(toggle);
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+    expect(within(card).queryByRole('region', { name: 'Result' })).not.toBeInTheDocument();
+
+    await user.click(toggle);
+    expect(within(card).getByRole('region', { name: 'Result' })).toBeInTheDocument();
+  }, 15000);
+
+  it('should show a failed call next to its retry', async () => {
+    const user = userEvent.setup();
+    render(<ToolUseDemo />);
+
+    await runScenario(user, /Tool Failure/);
+
+    const failed = screen.getByTestId('tool-call-call-2');
+    expect(within(failed).getByText('Failed')).toBeInTheDocument();
+    expect(within(failed).getByText('Task service timed out after 5000ms')).toBeInTheDocument();
+    expect(within(failed).getByText(/Retryable/)).toBeInTheDocument();
+
+    const retry = screen.getByTestId('tool-call-call-2-retry');
+    expect(within(retry).getByText(/^Done in/)).toBeInTheDocument();
+  }, 15000);
+
+  describe('resuming after a reload', () => {
+    /**
+     * Start a fast failing run and "reload" once its first call is on screen
+     */
+    async function interruptRun(user: ReturnType<typeof userEvent.setup>) {
+      const { unmount } = render(<ToolUseDemo />);
+
+      await user.click(screen.getByRole('button', { name: /Tool Failure/ }));
+      await user.click(screen.getByRole('button', { name: /⚡ Fast/i }));
+      await user.click(screen.getByRole('button', { name: /Start Stream/i }));
+      await waitFor(() => expect(screen.getByTestId('tool-call-call-1')).toBeInTheDocument());
+
+      unmount();
+    }
+
+    it('should offer and resume a run saved before the reload', async () => {
+      const user = userEvent.setup();
+      await interruptRun(user);
+      render(<ToolUseDemo />);
+
+      const banner = screen.getByRole('region', { name: 'Unfinished run' });
+      expect(banner).toHaveTextContent(/stopped after \d+ events/);
+
+      // user-event drives its own copy of the DOM library, so clicks are wrapped in act here
+      await act(async () => {
+        await user.click(within(banner).getByRole('button', { name: 'Resume where you left off' }));
+      });
+
+      // The run continues with the scenario it was saved with
+      expect(screen.queryByRole('region', { name: 'Unfinished run' })).not.toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Tool Failure' })).toHaveAttribute(
+        'aria-pressed',
+        'true'
+      );
+      await waitFor(() => expect(screen.getByText(/· complete/)).toBeInTheDocument(), {
+        timeout: 10000,
+      });
+      expect(screen.getAllByTestId('tool-call-call-1')).toHaveLength(1);
+      const failedCall = screen.getByTestId('tool-call-call-2');
+      expect(within(failedCall).getByText('Failed')).toBeInTheDocument();
+    }, 15000);
+
+    it('should start over when the saved run is discarded', async () => {
+      const user = userEvent.setup();
+      await interruptRun(user);
+      render(<ToolUseDemo />);
+
+      await act(async () => {
+        await user.click(screen.getByRole('button', { name: 'Start over' }));
+      });
+
+      expect(screen.queryByRole('region', { name: 'Unfinished run' })).not.toBeInTheDocument();
+      expect(localStorage.length).toBe(0);
+    }, 15000);
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Tool-Use Stream Pattern Demo
+ *
+ * Demonstrates an agent that narrates, calls tools and then answers, with
+ * every tool call rendered as a card that fills in while it streams.
+ *
+ * Educational Focus:
+ * - Tool arguments previewed from partially parsed JSON
+ * - Parallel calls whose deltas and results interleave
+ * - Structured tool results rendered by shape
+ * - Tool failures surfaced on the call that failed, followed by a retry
+ * - Resuming a run interrupted by a reload
+ *
+ * Demo Scenario:
+ * A product manager asks whether Sprint 24 is on track. The agent looks up
+ * the sprint, its open tasks and the team's capacity before answering.
+ *
+ * @module patterns/tool-use-stream/ToolUseDemo
+ */
+
+import { useState, useCallback } from 'react';
+import { DemoContainer } from '@/components/layout/DemoContainer';
+import { PatternHelmet } from '@/components/PatternHelmet';
+import { NetworkInspector } from '@/components/NetworkInspector/NetworkInspector';
+import { StreamingMarkdown } from '@/components/StreamingMarkdown';
+import { useNetworkCapture } from '@/lib/hooks/useNetworkCapture';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { ResumeSessionBanner } from '@/components/ui/ResumeSessionBanner';
+import { ScenarioCard } from '@/components/ui/ScenarioCard';
+import { useToolUseStream } from './hooks';
+import { SPRINT_HEALTH_PROMPT } from './fixtures';
+import { ToolCallCard } from './ToolCallCard';
+import type { StreamScenario, StreamSpeed } from './mockStream';
+import styles from './ToolUseDemo.module.css';
+
+export function ToolUseDemo() {
+  const [scenario, setScenario] = useState<StreamScenario>('sprint-health');
+  const [speed, setSpeed] = useState<StreamSpeed>('normal');
+  const [showInspector, setShowInspector] = useState(false);
+
+  // Network capture for inspector
+  const { captureEvent, events, clearEvents } = useNetworkCapture();
+
+  const {
+    transcript,
+    calls,
+    isStreaming,
+    isComplete,
+    savedSession,
+    startStream,
+    stopStream,
+    reset,
+    resumeSession,
+    discardSession,
+  } = useToolUseStream({ scenario, speed, onEvent: captureEvent, persistKey: 'tool-use-stream' });
+
+  /**
+   * Start a new agent run with the selected scenario
+   */
+  const handleStart = useCallback(() => {
+    clearEvents();
+    startStream();
+  }, [clearEvents, startStream]);
+
+  /**
+   * Continue the run saved before a reload, with the scenario it was saved with
+   */
+  const handleResume = useCallback(() => {
+    if (savedSession?.fixtureId) {
+      setScenario(savedSession.fixtureId as StreamScenario);
+    }
+    clearEvents();
+    resumeSession();
+  }, [savedSession, clearEvents, resumeSession]);
+
+  /**
+   * Reset demo to initial state
+   */
+  const handleReset = useCallback(() => {
+    reset();
+    clearEvents();
+  }, [reset, clearEvents]);
+
+  const finishedCalls = Array.from(calls.values()).filter(
+    (call) => call.status === 'succeeded' || call.status === 'failed'
+  ).length;
+
+  return (
+    <>
+      <PatternHelmet patternId="tool-use-stream" />
+      <DemoContainer
+        title="Tool-Use Stream Pattern"
+        description="Stream an agent's tool calls, arguments and results as they happen"
+        maxWidth="full"
+        actions={
+          <Button
+            onClick={() => setShowInspector(!showInspector)}
+            variant="ghost"
+            size="sm"
+            aria-pressed={showInspector}
+          >
+            {showInspector ? 'Hide Inspector' : 'Show Inspector'}
+          </Button>
+        }
+      >
+        {/* Controls */}
+        <div className={styles.controls}>
+          <div className={styles.controlGroup}>
+            <span className={styles.label}>Scenario</span>
+            <div className={styles.buttonGroup} role="group" aria-label="Scenario selector">
+              <Button
+                onClick={() => setScenario('sprint-health')}
+                variant={scenario === 'sprint-health' ? 'primary' : 'secondary'}
+                size="sm"
+                disabled={isStreaming}
+                aria-pressed={scenario === 'sprint-health'}
+                title="Sequential and parallel calls that all succeed"
+              >
+                Sprint Health
+              </Button>
+              <Button
+                onClick={() => setScenario('tool-failure')}
+                variant={scenario === 'tool-failure' ? 'primary' : 'secondary'}
+                size="sm"
+                disabled={isStreaming}
+                aria-pressed={scenario === 'tool-failure'}
+                title="A call times out and the agent retries it"
+              >
+                Tool Failure
+              </Button>
+            </div>
+          </div>
+
+          <div className={styles.controlGroup}>
+            <span className={styles.label}>Stream Speed</span>
+            <div className={styles.buttonGroup} role="group" aria-label="Stream speed selector">
+              <Button
+                onClick={() => setSpeed('fast')}
+                variant={speed === 'fast' ? 'primary' : 'secondary'}
+                size="sm"
+                disabled={isStreaming}
+                aria-pressed={speed === 'fast'}
+                title="Fast speed"
+              >
+                ⚡ Fast
+              </Button>
+              <Button
+                onClick={() => setSpeed('normal')}
+                variant={speed === 'normal' ? 'primary' : 'secondary'}
+                size="sm"
+                disabled={isStreaming}
+                aria-pressed={speed === 'normal'}
+                title="Normal speed"
+              >
+                ▶ Normal
+              </Button>
+              <Button
+                onClick={() => setSpeed('slow')}
+                variant={speed === 'slow' ? 'primary' : 'secondary'}
+                size="sm"
+                disabled={isStreaming}
+                aria-pressed={speed === 'slow'}
+                title="Slow speed"
+              >
+                🐌 Slow
+              </Button>
+            </div>
+          </div>
+
+          <div className={styles.actionButtons}>
+            {!isStreaming ? (
+              <Button onClick={handleStart} variant="primary" size="sm">
+                ▶ Start Stream
+              </Button>
+            ) : (
+              <Button onClick={stopStream} variant="secondary" size="sm">
+                ⏸ Stop Stream
+              </Button>
+            )}
+
+            <Button onClick={handleReset} variant="secondary" size="sm" disabled={isStreaming}>
+              Reset
+            </Button>
+          </div>
+        </div>
+
+        {/* Saved run */}
+        {savedSession && !isStreaming && (
+          <div className={styles.scenario}>
+            <ResumeSessionBanner
+              eventCount={savedSession.position}
+              savedAt={savedSession.savedAt}
+              onResume={handleResume}
+              onDiscard={discardSession}
+            />
+          </div>
+        )}
+
+        {/* Scenario Context */}
+        <div className={styles.scenario}>
+          <ScenarioCard
+            description="StreamFlow PM's assistant checks live project data with tools before answering a sprint health question."
+            prompt={SPRINT_HEALTH_PROMPT}
+          />
+        </div>
+
+        {/* Transcript */}
+        <section className={styles.transcriptSection} aria-label="Agent transcript">
+          <div className={styles.sectionHeader}>
+            <h3 className={styles.sectionTitle}>Agent Run</h3>
+            <span className={styles.callCount}>
+              {finishedCalls} of {calls.size} {calls.size === 1 ? 'tool call' : 'tool calls'}{' '}
+              finished
+              {isComplete && ' · complete'}
+            </span>
+          </div>
+
+          <div
+            className={styles.transcript}
+            role="log"
+            aria-live="polite"
+            aria-label="Streaming agent transcript"
+          >
+            {transcript.map((item) => {
+              if (item.kind === 'text') {
+                return (
+                  <div key={item.id} className={styles.narration}>
+                    <StreamingMarkdown text={item.text} streaming={!item.isFinal} />
+                  </div>
+                );
+              }
+
+              const call = calls.get(item.callId);
+              return call ? <ToolCallCard key={item.callId} call={call} /> : null;
+            })}
+          </div>
+
+          {!isStreaming && transcript.length === 0 && (
+            <div className={styles.emptyState}>
+              <p>Click "Start Stream" to watch the agent call its tools</p>
+            </div>
+          )}
+        </section>
+
+        {/* Network Inspector */}
+        {showInspector && (
+          <div className={styles.inspector}>
+            <NetworkInspector
+              events={events}
+              pattern="tool-use-stream"
+              onClearEvents={clearEvents}
+              title="Stream Events"
+            />
+          </div>
+        )}
+
+        {/* Pattern Learning Points */}
+        <div className={styles.notes}>
+          <Card className={styles.learningCard}>
+            <div className={styles.cardHeader}>
+              <h4>Pattern Learning Points</h4>
+            </div>
+            <div className={styles.cardContent}>
+              <ul className={styles.learningList}>
+                <li>
+                  <strong>Show Intent Early:</strong> A card appears as soon as the agent picks a
+                  tool, before its arguments are complete
+                </li>
+                <li>
+                  <strong>Partial Arguments:</strong> Argument JSON streams as text fragments; an
+                  incremental parser turns each fragment into a live preview
+                </li>
+                <li>
+                  <strong>Correlate by ID:</strong> Parallel calls interleave and finish out of
+                  order, so every delta, result and error carries its call ID
+                </li>
+                <li>
+                  <strong>Structured Results:</strong> Tool output is data, not prose; rendering
+                  it as tables and fields lets users check what the agent saw
+                </li>
+                <li>
+                  <strong>Visible Failures:</strong> A failed call stays on screen with its error
+                  and whether it is retryable, next to the retry that replaced it
+                </li>
+              </ul>
+            </div>
+          </Card>
+        </div>
+      </DemoContainer>
+    </>
+  );
+}
+
+export default ToolUseDemo;
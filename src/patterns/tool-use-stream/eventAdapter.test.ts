@@ -0,0 +1,62 @@
+/**
+ * Tests for the Tool-Use Stream event adapter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createEventAdapter } from '@/lib/streaming/eventAdapter';
+import { isStreamEvent } from '@/lib/streaming/eventSchema';
+import { adaptToolUseEvent, readToolUseEvent } from './eventAdapter';
+import { createSyncToolUseStream } from './mockStream';
+
+describe('adaptToolUseEvent', () => {
+  it('should produce valid canonical events for every scenario event', () => {
+    const toStreamEvent = createEventAdapter(adaptToolUseEvent);
+
+    const events = [
+      ...createSyncToolUseStream('sprint-health'),
+      ...createSyncToolUseStream('tool-failure'),
+    ];
+
+    events.forEach((event) => {
+      expect(isStreamEvent(toStreamEvent(event))).toBe(true);
+    });
+  });
+
+  it('should keep tool events and map narration to text', () => {
+    const toStreamEvent = createEventAdapter(adaptToolUseEvent, { idPrefix: 'tool-use' });
+    const events = createSyncToolUseStream('tool-failure').map(toStreamEvent);
+
+    expect(events[0]).toMatchObject({
+      id: 'tool-use-1',
+      type: 'text',
+      data: { isComplete: false },
+    });
+    expect(events.find((event) => event.type === 'tool_error')).toMatchObject({
+      data: { callId: 'call-2', code: 'timeout', retryable: true },
+    });
+  });
+});
+
+describe('readToolUseEvent', () => {
+  it('should read back every event it adapts', () => {
+    const toStreamEvent = createEventAdapter(adaptToolUseEvent);
+
+    [
+      ...createSyncToolUseStream('sprint-health'),
+      ...createSyncToolUseStream('tool-failure'),
+    ].forEach((event) => {
+      expect(readToolUseEvent(toStreamEvent(event))).toEqual(event);
+    });
+  });
+
+  it('should ignore events the pattern does not render', () => {
+    expect(
+      readToolUseEvent({
+        id: 'r1',
+        type: 'reasoning',
+        timestamp: 1,
+        data: { id: 'r1', summary: 'Plan', confidence: 0.9, timestamp: 1 },
+      })
+    ).toBeNull();
+  });
+});
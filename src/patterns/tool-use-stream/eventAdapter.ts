@@ -0,0 +1,92 @@
+/**
+ * Event adapter for the Tool-Use Stream pattern.
+ *
+ * Tool lifecycle events already match the canonical `tool_call_start`,
+ * `tool_call_delta`, `tool_result` and `tool_error` events; narration maps
+ * onto canonical `text` events.
+ *
+ * @module patterns/tool-use-stream/eventAdapter
+ */
+
+import type { EventAdapter, EventReader } from '@/lib/streaming/eventAdapter';
+import type { JsonValue } from '@/lib/streaming/partialJson';
+import type { ToolName, ToolUseStreamEvent } from './types';
+
+/**
+ * Convert a tool-use stream event to a canonical stream event.
+ *
+ * @example
+ * ```typescript
+ * const toStreamEvent = createEventAdapter(adaptToolUseEvent, { idPrefix: 'tool-use' });
+ * captureEvent(toStreamEvent(event));
+ * ```
+ */
+export const adaptToolUseEvent: EventAdapter<ToolUseStreamEvent> = (event, { id, timestamp }) => {
+  switch (event.type) {
+    case 'agent_text':
+      return {
+        id,
+        timestamp,
+        type: 'text',
+        data: { text: event.data.text, isComplete: event.data.isFinal },
+      };
+    case 'tool_call_start':
+      return { id, timestamp, type: 'tool_call_start', data: event.data };
+    case 'tool_call_delta':
+      return { id, timestamp, type: 'tool_call_delta', data: event.data };
+    case 'tool_result':
+      return { id, timestamp, type: 'tool_result', data: event.data };
+    case 'tool_error':
+      return { id, timestamp, type: 'tool_error', data: event.data };
+  }
+};
+
+/**
+ * Read a canonical stream event as a tool-use stream event.
+ *
+ * @example
+ * ```typescript
+ * for await (const event of readPatternStream(transport, readToolUseEvent)) {
+ *   processEvent(event);
+ * }
+ * ```
+ */
+export const readToolUseEvent: EventReader<ToolUseStreamEvent> = (event) => {
+  switch (event.type) {
+    case 'text':
+      return {
+        type: 'agent_text',
+        data: { text: event.data.text, isFinal: event.data.isComplete ?? false },
+      };
+    case 'tool_call_start':
+      return {
+        type: 'tool_call_start',
+        data: { ...event.data, toolName: event.data.toolName as ToolName },
+      };
+    case 'tool_call_delta':
+      return {
+        type: 'tool_call_delta',
+        data: {
+          callId: event.data.callId,
+          delta: event.data.delta,
+          chunkIndex: event.data.chunkIndex ?? 0,
+        },
+      };
+    case 'tool_result':
+      return {
+        type: 'tool_result',
+        data: {
+          callId: event.data.callId,
+          result: event.data.result as JsonValue,
+          durationMs: event.data.durationMs ?? 0,
+        },
+      };
+    case 'tool_error':
+      return {
+        type: 'tool_error',
+        data: { ...event.data, retryable: event.data.retryable ?? false },
+      };
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,226 @@
+/**
+ * Tool-Use Stream Pattern - Mock Tool-Call Fixtures
+ *
+ * Deterministic agent runs for the sprint health scenario: the StreamFlow PM
+ * agent answers "Is Sprint 24 on track?" by querying sprint data through
+ * tools. Argument text is split into fragments with a fixed seed, so every
+ * run streams the same deltas.
+ *
+ * @pattern Tool-Use Stream
+ * @educational Demonstrates sequential, parallel and failing tool calls
+ */
+
+import type { JsonValue } from '@/lib/streaming/partialJson';
+import { chunkText } from '@/lib/streaming/tokenChunking';
+import type { ToolName, ToolUseStreamEvent } from './types';
+
+/**
+ * Question the agent is answering in every scenario
+ */
+export const SPRINT_HEALTH_PROMPT = 'Is Sprint 24 on track for the mobile release?';
+
+// ============================================================================
+// Fixture Helpers
+// ============================================================================
+
+/**
+ * Build the start and argument delta events of a tool call
+ *
+ * @param callId - Call identifier
+ * @param toolName - Tool being called
+ * @param args - Call arguments, streamed as compact JSON text
+ * @param description - Why the agent is calling the tool
+ * @returns Start event followed by one delta per argument fragment
+ */
+function toolCall(
+  callId: string,
+  toolName: ToolName,
+  args: JsonValue,
+  description: string
+): ToolUseStreamEvent[] {
+  const fragments = chunkText(JSON.stringify(args));
+
+  return [
+    { type: 'tool_call_start', data: { callId, toolName, description } },
+    ...fragments.map((delta, chunkIndex): ToolUseStreamEvent => ({
+      type: 'tool_call_delta',
+      data: { callId, delta, chunkIndex },
+    })),
+  ];
+}
+
+/**
+ * Alternate the events of two calls streaming in parallel
+ *
+ * @param first - Events of the first call
+ * @param second - Events of the second call
+ * @returns Events taken from each call in turn
+ */
+function interleave(
+  first: ToolUseStreamEvent[],
+  second: ToolUseStreamEvent[]
+): ToolUseStreamEvent[] {
+  const events: ToolUseStreamEvent[] = [];
+
+  for (let index = 0; index < Math.max(first.length, second.length); index++) {
+    if (index < first.length) events.push(first[index]);
+    if (index < second.length) events.push(second[index]);
+  }
+
+  return events;
+}
+
+/**
+ * Agent narration segment (split into tokens by the mock stream)
+ */
+function agentText(text: string): ToolUseStreamEvent {
+  return { type: 'agent_text', data: { text, isFinal: true } };
+}
+
+// ============================================================================
+// Tool Results
+// ============================================================================
+
+/**
+ * get_sprint result
+ */
+export const sprint24: JsonValue = {
+  id: 'sprint-24',
+  name: 'Sprint 24 - Mobile Release',
+  startDate: '2026-10-06',
+  endDate: '2026-10-17',
+  committedPoints: 42,
+  completedPoints: 26,
+  daysRemaining: 4,
+  scopeChanges: 2,
+};
+
+/**
+ * list_tasks result (open work)
+ */
+export const openTasks: JsonValue = [
+  {
+    key: 'MOB-412',
+    title: 'Offline sync for task lists',
+    assignee: 'Priya',
+    points: 8,
+    status: 'in_progress',
+  },
+  {
+    key: 'MOB-418',
+    title: 'Push notification opt-in flow',
+    assignee: 'Marcus',
+    points: 5,
+    status: 'blocked',
+  },
+  {
+    key: 'MOB-421',
+    title: 'App Store screenshots',
+    assignee: 'Lena',
+    points: 3,
+    status: 'in_progress',
+  },
+];
+
+/**
+ * get_team_capacity result
+ */
+export const mobileTeamCapacity: JsonValue = {
+  teamId: 'mobile',
+  totalAvailableHours: 66,
+  plannedHours: 58,
+  members: [
+    { name: 'Priya', availableHours: 24 },
+    { name: 'Marcus', availableHours: 30 },
+    { name: 'Lena', availableHours: 12 },
+  ],
+};
+
+const sprintArguments: JsonValue = { sprintId: 'sprint-24', include: ['progress', 'scope'] };
+
+const taskArguments: JsonValue = {
+  sprintId: 'sprint-24',
+  status: ['in_progress', 'blocked'],
+  fields: ['key', 'title', 'assignee', 'points', 'status'],
+};
+
+// ============================================================================
+// Scenarios
+// ============================================================================
+
+/**
+ * Sprint Health Fixture
+ *
+ * One sequential call, then two calls streaming their arguments in parallel,
+ * then the answer.
+ */
+export const sprintHealthRun: ToolUseStreamEvent[] = [
+  agentText("I'll pull the current state of Sprint 24 before answering."),
+  ...toolCall('call-1', 'get_sprint', sprintArguments, 'Read sprint dates and progress'),
+  { type: 'tool_result', data: { callId: 'call-1', result: sprint24, durationMs: 340 } },
+  agentText(
+    "26 of 42 points are done with 4 days left. Let me check what's still open and who has time."
+  ),
+  ...interleave(
+    toolCall('call-2', 'list_tasks', taskArguments, 'Find open and blocked work'),
+    toolCall(
+      'call-3',
+      'get_team_capacity',
+      { teamId: 'mobile', from: '2026-10-14', to: '2026-10-17' },
+      'Check remaining hours per person'
+    )
+  ),
+  { type: 'tool_result', data: { callId: 'call-3', result: mobileTeamCapacity, durationMs: 280 } },
+  { type: 'tool_result', data: { callId: 'call-2', result: openTasks, durationMs: 520 } },
+  agentText(
+    [
+      '**Sprint 24 is at risk, but recoverable.**',
+      '',
+      '- 16 points remain across 3 open tasks, with 4 days left.',
+      '- MOB-418 (5 points) is blocked, so the push opt-in flow needs the platform team.',
+      '- The team has 66 hours available against 58 planned: about a day of slack.',
+      '',
+      "I'd escalate MOB-418's blocker today and pull Lena's screenshots forward so they don't land on release day.",
+    ].join('\n')
+  ),
+];
+
+/**
+ * Tool Failure Fixture
+ *
+ * The task service times out; the agent retries with a smaller request.
+ */
+export const toolFailureRun: ToolUseStreamEvent[] = [
+  agentText("I'll pull the current state of Sprint 24 before answering."),
+  ...toolCall('call-1', 'get_sprint', sprintArguments, 'Read sprint dates and progress'),
+  { type: 'tool_result', data: { callId: 'call-1', result: sprint24, durationMs: 340 } },
+  agentText('26 of 42 points are done with 4 days left. Next, the open tasks.'),
+  ...toolCall('call-2', 'list_tasks', taskArguments, 'Find open and blocked work'),
+  {
+    type: 'tool_error',
+    data: {
+      callId: 'call-2',
+      message: 'Task service timed out after 5000ms',
+      code: 'timeout',
+      retryable: true,
+    },
+  },
+  agentText('The task service timed out. Retrying with a smaller request.'),
+  ...toolCall(
+    'call-2-retry',
+    'list_tasks',
+    { sprintId: 'sprint-24', status: ['in_progress', 'blocked'], limit: 10 },
+    'Retry with a page limit'
+  ),
+  { type: 'tool_result', data: { callId: 'call-2-retry', result: openTasks, durationMs: 610 } },
+  agentText(
+    [
+      '**Sprint 24 is at risk.**',
+      '',
+      '- 16 points remain across 3 open tasks, with 4 days left.',
+      '- MOB-418 (5 points) is blocked and needs the platform team.',
+      '',
+      "I couldn't confirm capacity in this run, so I'd check hours with the team before cutting scope.",
+    ].join('\n')
+  ),
+];
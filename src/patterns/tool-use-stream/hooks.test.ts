@@ -0,0 +1,209 @@
+/**
+ * Tests for the Tool-Use Stream hook.
+ *
+ * @module patterns/tool-use-stream/hooks.test
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { VirtualClock } from '@/lib/utils/clock';
+import { useToolUseStream } from './hooks';
+import { sprintHealthRun } from './fixtures';
+import type { ToolCall } from './types';
+
+/**
+ * Rebuild each call's final arguments from the fixture's argument deltas
+ */
+function fixtureArguments(): Map<string, unknown> {
+  const text = new Map<string, string>();
+  sprintHealthRun.forEach((event) => {
+    if (event.type === 'tool_call_delta') {
+      text.set(event.data.callId, (text.get(event.data.callId) ?? '') + event.data.delta);
+    }
+  });
+  return new Map(Array.from(text, ([callId, json]) => [callId, JSON.parse(json)]));
+}
+
+describe('useToolUseStream', () => {
+  it('should start idle with an empty transcript', () => {
+    const { result } = renderHook(() => useToolUseStream({ speed: 'fast' }));
+
+    expect(result.current.transcript).toEqual([]);
+    expect(result.current.calls.size).toBe(0);
+    expect(result.current.isStreaming).toBe(false);
+    expect(result.current.isComplete).toBe(false);
+  });
+
+  it('should parse streamed arguments and attach results to their calls', async () => {
+    const clock = new VirtualClock();
+    const { result } = renderHook(() => useToolUseStream({ speed: 'fast', clock }));
+
+    act(() => result.current.startStream());
+    await act(() => clock.runAll());
+
+    expect(result.current.isComplete).toBe(true);
+    expect(result.current.isStreaming).toBe(false);
+
+    const expected = fixtureArguments();
+    expect(result.current.calls.size).toBe(expected.size);
+    result.current.calls.forEach((call) => {
+      expect(call.status).toBe('succeeded');
+      expect(call.arguments).toEqual(expected.get(call.callId));
+      expect(call.argumentsError).toBeUndefined();
+      expect(call.result).toBeDefined();
+    });
+
+    // Narration and calls stay in stream order
+    expect(result.current.transcript.map((item) => item.kind)).toEqual([
+      'text',
+      'tool_call',
+      'text',
+      'tool_call',
+      'tool_call',
+      'text',
+    ]);
+  });
+
+  it('should preview partial arguments while a call is streaming', async () => {
+    const clock = new VirtualClock();
+    const { result } = renderHook(() => useToolUseStream({ speed: 'slow', clock }));
+    const previews: ToolCall[] = [];
+
+    act(() => result.current.startStream());
+    while (!result.current.isComplete) {
+      await act(() => clock.advance(50));
+      result.current.calls.forEach((call) => {
+        if (call.status === 'streaming' && call.arguments !== undefined) {
+          previews.push(call);
+        }
+      });
+    }
+
+    expect(previews.length).toBeGreaterThan(0);
+    expect(previews.some((call) => typeof call.arguments === 'object')).toBe(true);
+  });
+
+  it('should mark a failed call and keep its error', async () => {
+    const clock = new VirtualClock();
+    const { result } = renderHook(() =>
+      useToolUseStream({ scenario: 'tool-failure', speed: 'fast', clock })
+    );
+
+    act(() => result.current.startStream());
+    await act(() => clock.runAll());
+
+    const failed = result.current.calls.get('call-2');
+    expect(failed?.status).toBe('failed');
+    expect(failed?.error).toEqual({
+      message: 'Task service timed out after 5000ms',
+      code: 'timeout',
+      retryable: true,
+    });
+    expect(result.current.calls.get('call-2-retry')?.status).toBe('succeeded');
+  });
+
+  it('should report canonical events with IDs that restart each run', async () => {
+    const clock = new VirtualClock();
+    const onEvent = vi.fn();
+    const { result } = renderHook(() => useToolUseStream({ speed: 'fast', clock, onEvent }));
+    const runs: string[][] = [];
+
+    for (let run = 0; run < 2; run++) {
+      onEvent.mockClear();
+      act(() => result.current.startStream());
+      await act(() => clock.runAll());
+      runs.push(onEvent.mock.calls.map(([event]) => event.id));
+    }
+
+    expect(runs[0][0]).toBe('tool-use-1');
+    expect(runs[1]).toEqual(runs[0]);
+    expect(onEvent.mock.calls[0][0]).toMatchObject({ type: 'text', metadata: { source: 'mock' } });
+  });
+
+  it('should clear the transcript on reset', async () => {
+    const clock = new VirtualClock();
+    const { result } = renderHook(() => useToolUseStream({ speed: 'fast', clock }));
+
+    act(() => result.current.startStream());
+    await act(() => clock.advance(100));
+    act(() => result.current.reset());
+
+    expect(result.current.transcript).toEqual([]);
+    expect(result.current.calls.size).toBe(0);
+    expect(result.current.isStreaming).toBe(false);
+  });
+});
+
+describe('useToolUseStream session persistence', () => {
+  const persistKey = 'tool-use-stream-test';
+
+  /**
+   * Stream part of a failing run, then "reload" the page
+   */
+  async function runPartway(clock: VirtualClock) {
+    const { result, unmount } = renderHook(() =>
+      useToolUseStream({ scenario: 'tool-failure', speed: 'fast', clock, persistKey })
+    );
+
+    act(() => result.current.startStream());
+    await act(() => clock.advance(400));
+    expect(result.current.isComplete).toBe(false);
+
+    const delivered = result.current.transcript.length;
+    unmount();
+    return delivered;
+  }
+
+  it('should offer the run saved before a reload', async () => {
+    const clock = new VirtualClock();
+    await runPartway(clock);
+
+    const { result } = renderHook(() => useToolUseStream({ speed: 'fast', clock, persistKey }));
+
+    expect(result.current.isStreaming).toBe(false);
+    expect(result.current.savedSession).toMatchObject({ fixtureId: 'tool-failure' });
+    expect(result.current.savedSession?.data.events.length).toBeGreaterThan(0);
+  });
+
+  it('should resume the saved scenario after the events it had received', async () => {
+    const clock = new VirtualClock();
+    const reference = vi.fn();
+    const fresh = renderHook(() =>
+      useToolUseStream({ scenario: 'tool-failure', speed: 'fast', clock, onEvent: reference })
+    );
+    act(() => fresh.result.current.startStream());
+    await act(() => clock.runAll());
+    fresh.unmount();
+
+    await runPartway(clock);
+    const onEvent = vi.fn();
+    const { result } = renderHook(() =>
+      useToolUseStream({ speed: 'fast', clock, persistKey, onEvent })
+    );
+
+    // Skipped events are regenerated without timers, so step until the run ends
+    act(() => result.current.resumeSession());
+    while (!result.current.isComplete) {
+      await act(() => clock.advance(100));
+    }
+
+    expect(result.current.calls.get('call-2')?.status).toBe('failed');
+    expect(result.current.calls.get('call-2-retry')?.status).toBe('succeeded');
+    expect(onEvent.mock.calls.map(([event]) => event.id)).toEqual(
+      reference.mock.calls.map(([event]) => event.id)
+    );
+    expect(result.current.savedSession).toBeNull();
+    expect(localStorage.length).toBe(0);
+  });
+
+  it('should drop the saved run when it is discarded', async () => {
+    const clock = new VirtualClock();
+    await runPartway(clock);
+
+    const { result } = renderHook(() => useToolUseStream({ speed: 'fast', clock, persistKey }));
+    act(() => result.current.discardSession());
+
+    expect(result.current.savedSession).toBeNull();
+    expect(localStorage.length).toBe(0);
+  });
+});
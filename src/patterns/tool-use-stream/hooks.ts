@@ -0,0 +1,326 @@
+/**
+ * Tool-Use Stream Pattern - Custom React Hook
+ *
+ * This file implements the useToolUseStream hook, which turns a stream of
+ * tool lifecycle events into a transcript of narration and tool call cards.
+ *
+ * @pattern Tool-Use Stream
+ * @educational Teaches per-call state, incremental argument parsing and out-of-order results
+ */
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { PartialJsonParser } from '@/lib/streaming/partialJson';
+import { PatternTransport, readPatternStream } from '@/lib/streaming/eventAdapter';
+import type { PersistedSession, RecordedRun } from '@/lib/streaming/sessionPersistence';
+import type { StreamTransport } from '@/lib/streaming/transport';
+import { useSessionPersistence } from '@/lib/hooks/useSessionPersistence';
+import { useLifecycle } from '@/lib/hooks/useLifecycle';
+import type { StreamEvent as CanonicalStreamEvent } from '@/types/events';
+import type { ToolCall, ToolUseStreamEvent, TranscriptItem } from './types';
+import {
+  createMockToolUseStream,
+  type MockStreamOptions,
+  type StreamScenario,
+} from './mockStream';
+import { adaptToolUseEvent, readToolUseEvent } from './eventAdapter';
+
+/**
+ * Options accepted by useToolUseStream.
+ *
+ * Events flow through a StreamSession over a PatternTransport wrapping the
+ * mock generator, or over the transport returned by `createTransport`.
+ * `onEvent` receives the canonical, enriched events. With `persistKey`, runs
+ * are saved so a reload can resume them.
+ */
+export type UseToolUseStreamOptions = Omit<MockStreamOptions, 'onEvent'> & {
+  onEvent?: (event: CanonicalStreamEvent) => void;
+  createTransport?: () => StreamTransport;
+  persistKey?: string;
+};
+
+/**
+ * useToolUseStream - Core hook for the Tool-Use Stream pattern
+ *
+ * This hook demonstrates how to:
+ * 1. Track each tool call by ID, since parallel calls interleave
+ * 2. Parse each call's argument text incrementally for a live preview
+ * 3. Attach results and errors to the call they belong to, in any order
+ * 4. Keep narration and calls in one transcript, in stream order
+ *
+ * With `persistKey`, a run interrupted by a reload is offered as
+ * `savedSession`; `resumeSession()` restores it and continues the stream
+ * after the events it had received.
+ *
+ * @param options - Stream configuration
+ * @returns Transcript, call state and stream controls
+ *
+ * @example
+ * ```typescript
+ * const { transcript, calls, startStream } = useToolUseStream({ speed: 'fast' });
+ * ```
+ */
+export function useToolUseStream(options: UseToolUseStreamOptions = {}) {
+  const { scenario, speed, timing, clock, onEvent, createTransport, persistKey } = options;
+
+  const [transcript, setTranscript] = useState<TranscriptItem[]>([]);
+  const [calls, setCalls] = useState<Map<string, ToolCall>>(new Map());
+  const { phase, can, restart, transition } = useLifecycle();
+  const [isComplete, setIsComplete] = useState(false);
+  const { savedSession, begin, observe, finish, discardSession } = useSessionPersistence({
+    persistKey,
+    clock,
+  });
+
+  // Track stream abort controller
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // One incremental parser per call's argument text
+  const parsersRef = useRef<Map<string, PartialJsonParser>>(new Map());
+
+  /**
+   * Apply changes to one call
+   */
+  const updateCall = useCallback(
+    (callId: string, update: (call: ToolCall) => Partial<ToolCall>) => {
+      setCalls((prev) => {
+        const call = prev.get(callId);
+        if (!call) {
+          return prev;
+        }
+
+        const next = new Map(prev);
+        next.set(callId, { ...call, ...update(call) });
+        return next;
+      });
+    },
+    []
+  );
+
+  /**
+   * Process individual stream events
+   */
+  const processEvent = useCallback(
+    (event: ToolUseStreamEvent) => {
+      switch (event.type) {
+        case 'agent_text': {
+          const { text, isFinal } = event.data;
+          setTranscript((prev) => {
+            const last = prev[prev.length - 1];
+
+            // Continue the open narration segment
+            if (last?.kind === 'text' && !last.isFinal) {
+              return [...prev.slice(0, -1), { ...last, text: last.text + text, isFinal }];
+            }
+
+            return [...prev, { kind: 'text', id: `text-${prev.length}`, text, isFinal }];
+          });
+          break;
+        }
+
+        case 'tool_call_start': {
+          const { callId, toolName, description } = event.data;
+          parsersRef.current.set(callId, new PartialJsonParser());
+          setCalls((prev) =>
+            new Map(prev).set(callId, {
+              callId,
+              toolName,
+              description,
+              status: 'streaming',
+              argumentsText: '',
+            })
+          );
+          setTranscript((prev) => [...prev, { kind: 'tool_call', callId }]);
+          break;
+        }
+
+        case 'tool_call_delta': {
+          const { callId, delta } = event.data;
+          const snapshot = parsersRef.current.get(callId)?.write(delta);
+          if (!snapshot) {
+            break;
+          }
+
+          const { value, complete, error } = snapshot;
+          updateCall(callId, (call) => ({
+            argumentsText: call.argumentsText + delta,
+            arguments: value,
+            argumentsError: error
+              ? `${error.message} (line ${error.line}, column ${error.column})`
+              : undefined,
+            status: complete ? 'running' : 'streaming',
+          }));
+          break;
+        }
+
+        case 'tool_result':
+          updateCall(event.data.callId, () => ({
+            status: 'succeeded',
+            result: event.data.result,
+            durationMs: event.data.durationMs,
+          }));
+          break;
+
+        case 'tool_error': {
+          const { callId, message, code, retryable } = event.data;
+          updateCall(callId, () => ({ status: 'failed', error: { message, code, retryable } }));
+          break;
+        }
+      }
+    },
+    [updateCall]
+  );
+
+  /**
+   * Clear all run state
+   */
+  const clearState = useCallback(() => {
+    setTranscript([]);
+    setCalls(new Map());
+    setIsComplete(false);
+    parsersRef.current.clear();
+  }, []);
+
+  /**
+   * Run the agent, or continue a run saved before a reload
+   */
+  const run = useCallback(
+    (resumed: PersistedSession<RecordedRun> | null) => {
+      abortControllerRef.current?.abort();
+      clearState();
+      restart();
+
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      // A resumed run continues the scenario it was saved with
+      const runScenario = resumed ? (resumed.fixtureId as StreamScenario | undefined) : scenario;
+      const sessionId = begin(runScenario, resumed);
+
+      (async () => {
+        try {
+          // Read from the supplied transport, or fall back to the mock stream.
+          // A new transport per run restarts the canonical event IDs.
+          const transport =
+            createTransport?.() ??
+            new PatternTransport(
+              (context) =>
+                createMockToolUseStream({
+                  scenario: runScenario,
+                  speed,
+                  timing,
+                  clock: context.clock,
+                }),
+              adaptToolUseEvent,
+              { idPrefix: 'tool-use', clock }
+            );
+          const stream = readPatternStream(transport, readToolUseEvent, {
+            sessionId,
+            history: resumed?.data.events,
+            onEvent: (event) => {
+              observe(event);
+              onEvent?.(event);
+            },
+            signal: controller.signal,
+          });
+
+          for await (const event of stream) {
+            // Check if stream was aborted
+            if (controller.signal.aborted) {
+              return;
+            }
+
+            processEvent(event);
+          }
+
+          // A stopped stream was already closed
+          if (controller.signal.aborted) {
+            return;
+          }
+
+          finish('closed');
+          setIsComplete(true);
+          transition('complete');
+        } catch (error) {
+          console.error('Stream error:', error);
+          if (!controller.signal.aborted) {
+            finish('error');
+            transition('fail');
+          }
+        }
+      })();
+    },
+    [
+      scenario,
+      speed,
+      timing,
+      clock,
+      onEvent,
+      createTransport,
+      begin,
+      observe,
+      finish,
+      clearState,
+      processEvent,
+      restart,
+      transition,
+    ]
+  );
+
+  /**
+   * Start the agent run
+   */
+  const startStream = useCallback(() => run(null), [run]);
+
+  /**
+   * Continue the run saved before a reload
+   */
+  const resumeSession = useCallback(() => {
+    if (savedSession) {
+      run(savedSession);
+    }
+  }, [savedSession, run]);
+
+  /**
+   * Stop the stream (a stopped run is not offered for resuming)
+   */
+  const stopStream = useCallback(() => {
+    abortControllerRef.current?.abort();
+    finish('closed');
+    if (can('close')) {
+      transition('close');
+    }
+  }, [finish, can, transition]);
+
+  /**
+   * Stop the stream and clear the transcript
+   */
+  const reset = useCallback(() => {
+    stopStream();
+    transition('reset');
+    clearState();
+  }, [stopStream, clearState, transition]);
+
+  // Stop streaming on unmount
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
+  return {
+    // State
+    transcript,
+    calls,
+    isStreaming: phase === 'streaming',
+    isComplete,
+    phase,
+    savedSession,
+
+    // Actions
+    startStream,
+    stopStream,
+    reset,
+    resumeSession,
+    discardSession,
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Tool-Use Stream Pattern - Mock Stream Generator
+ *
+ * Replays an agent run with realistic pacing: narration and argument text
+ * arrive at a token rate, and each tool result waits for the tool's own
+ * (fixture-recorded) run time.
+ *
+ * @pattern Tool-Use Stream
+ * @educational Demonstrates how tool latency shapes a streaming agent UI
+ */
+
+import type { ToolUseStreamEvent } from './types';
+import { sprintHealthRun, toolFailureRun } from './fixtures';
+import {
+  DELAY_PROFILE_MS,
+  createPerEventTypeTiming,
+  createProfileTiming,
+  createTokenRateTiming,
+  type DelayProfile,
+  type TimingModel,
+} from '@/lib/streaming/timingModels';
+import { chunkAnswerEvents } from '@/lib/streaming/tokenChunking';
+import { systemClock, type Clock } from '@/lib/utils/clock';
+import { delay } from '@/lib/utils/delay';
+
+/**
+ * Stream speed presets
+ */
+export type StreamSpeed = DelayProfile;
+
+/**
+ * Stream scenario types
+ */
+export type StreamScenario =
+  | 'sprint-health' // Sequential and parallel calls that all succeed
+  | 'tool-failure'; // A call times out and is retried
+
+/**
+ * Generation speed (tokens per second) for narration and argument text
+ */
+const TOKENS_PER_SECOND: Record<StreamSpeed, number> = {
+  fast: 200,
+  normal: 40,
+  slow: 15,
+};
+
+/**
+ * Multiplier applied to each tool's recorded run time
+ */
+const TOOL_LATENCY_SCALE: Record<StreamSpeed, number> = {
+  fast: 0.25,
+  normal: 1,
+  slow: 2,
+};
+
+/**
+ * Configuration for the mock stream generator.
+ */
+export interface MockStreamOptions {
+  /** Agent run to replay (default: 'sprint-health') */
+  scenario?: StreamScenario;
+
+  /** Speed of event emission (default: 'normal') */
+  speed?: StreamSpeed;
+
+  /** Timing model overriding `speed` */
+  timing?: TimingModel;
+
+  /** Optional: Callback for each emitted event (for network inspector) */
+  onEvent?: (event: ToolUseStreamEvent) => void;
+
+  /** Clock the delays are waited on (default: system clock; a VirtualClock in tests) */
+  clock?: Clock;
+}
+
+/**
+ * Create the default timing model for a speed
+ *
+ * Text deltas are paced by length, tool results and errors by the tool's
+ * recorded `durationMs`, and everything else by the speed profile.
+ *
+ * @param speed - Stream speed
+ * @returns Timing model
+ */
+export function createToolUseTiming(speed: StreamSpeed): TimingModel {
+  const textTiming = createTokenRateTiming({ tokensPerSecond: TOKENS_PER_SECOND[speed] });
+  const toolTiming: TimingModel = {
+    getDelay({ event }) {
+      const { durationMs } = (event?.data ?? {}) as { durationMs?: number };
+      return (durationMs ?? DELAY_PROFILE_MS[speed]) * TOOL_LATENCY_SCALE[speed];
+    },
+  };
+
+  return createPerEventTypeTiming(
+    {
+      agent_text: textTiming,
+      tool_call_delta: textTiming,
+      tool_result: toolTiming,
+      tool_error: toolTiming,
+    },
+    createProfileTiming(speed)
+  );
+}
+
+/**
+ * Creates a mock tool-use stream.
+ *
+ * @param options - Stream configuration
+ * @returns AsyncGenerator that yields tool-use events
+ *
+ * @example
+ * ```typescript
+ * const stream = createMockToolUseStream({ scenario: 'tool-failure', speed: 'fast' });
+ * for await (const event of stream) {
+ *   console.log(event.type, event.data);
+ * }
+ * ```
+ */
+export async function* createMockToolUseStream(
+  options: MockStreamOptions = {}
+): AsyncGenerator<ToolUseStreamEvent, void, undefined> {
+  const {
+    scenario = 'sprint-health',
+    speed = 'normal',
+    timing = createToolUseTiming(speed),
+    onEvent,
+    clock = systemClock,
+  } = options;
+
+  const events = createSyncToolUseStream(scenario);
+
+  for (const [index, event] of events.entries()) {
+    // Wait before emitting next event (except first event)
+    const delayMs = index > 0 ? timing.getDelay({ index, event, previous: events[index - 1] }) : 0;
+    if (delayMs > 0) {
+      await delay(delayMs, clock);
+    }
+
+    if (onEvent) {
+      onEvent(event);
+    }
+
+    yield event;
+  }
+}
+
+/**
+ * Get the events of a scenario without delays.
+ *
+ * Narration is split into token chunks; only the last chunk of each
+ * segment is `isFinal`.
+ *
+ * @param scenario - Agent run to replay
+ * @returns Events in stream order
+ */
+export function createSyncToolUseStream(
+  scenario: StreamScenario = 'sprint-health'
+): ToolUseStreamEvent[] {
+  const fixture = scenario === 'tool-failure' ? toolFailureRun : sprintHealthRun;
+
+  return chunkAnswerEvents(fixture, { types: ['agent_text'] });
+}
@@ -0,0 +1,167 @@
+/**
+ * Tool-Use Stream Pattern - TypeScript Type Definitions
+ *
+ * This file defines the type system for the Tool-Use Stream pattern, which
+ * demonstrates how to surface an agent's tool calls while they happen: the
+ * call appears as soon as the agent picks a tool, its arguments fill in as
+ * they stream, and the tool's result (or error) lands on the same card.
+ *
+ * @pattern Tool-Use Stream
+ * @educational Teaches tool-call lifecycles, streamed argument previews and result rendering
+ */
+
+import type { JsonValue } from '@/lib/streaming/partialJson';
+
+/**
+ * Tools the StreamFlow PM agent can call.
+ *
+ * - get_sprint: Sprint dates, scope and progress
+ * - list_tasks: Tasks in a sprint, filtered by status
+ * - get_team_capacity: Available hours per team member
+ */
+export type ToolName = 'get_sprint' | 'list_tasks' | 'get_team_capacity';
+
+/**
+ * Stream event types for the tool-call lifecycle.
+ */
+export type ToolUseEventType =
+  'agent_text' | 'tool_call_start' | 'tool_call_delta' | 'tool_result' | 'tool_error';
+
+/**
+ * Event emitted as the agent's narration streams.
+ *
+ * Educational Note: Narration arrives a few tokens at a time. Consecutive
+ * text events belong to one message segment until `isFinal` is set.
+ */
+export interface AgentTextEvent {
+  type: 'agent_text';
+  data: {
+    text: string;
+    isFinal: boolean;
+  };
+}
+
+/**
+ * Event emitted when the agent starts calling a tool.
+ *
+ * Educational Note: The call is announced before its arguments exist, so
+ * the UI can show which tool was chosen while the model is still writing
+ * the arguments.
+ */
+export interface ToolCallStartEvent {
+  type: 'tool_call_start';
+  data: {
+    callId: string;
+    toolName: ToolName;
+    description?: string;
+  };
+}
+
+/**
+ * Event emitted for each fragment of a call's JSON arguments.
+ *
+ * Educational Note: Fragments are raw text and rarely end on a JSON
+ * boundary; an incremental parser turns them into a usable preview.
+ */
+export interface ToolCallDeltaEvent {
+  type: 'tool_call_delta';
+  data: {
+    callId: string;
+    delta: string;
+    chunkIndex: number;
+  };
+}
+
+/**
+ * Event emitted when a tool returns.
+ */
+export interface ToolResultEvent {
+  type: 'tool_result';
+  data: {
+    callId: string;
+    result: JsonValue;
+    durationMs: number;
+  };
+}
+
+/**
+ * Event emitted when a tool call fails.
+ *
+ * Educational Note: `retryable` tells the UI whether the agent is likely
+ * to try again, so a failure can be shown as recoverable.
+ */
+export interface ToolErrorEvent {
+  type: 'tool_error';
+  data: {
+    callId: string;
+    message: string;
+    code?: string;
+    retryable: boolean;
+  };
+}
+
+/**
+ * Union type of all possible stream events.
+ */
+export type ToolUseStreamEvent =
+  AgentTextEvent | ToolCallStartEvent | ToolCallDeltaEvent | ToolResultEvent | ToolErrorEvent;
+
+/**
+ * Lifecycle status of a tool call.
+ *
+ * - streaming: Arguments are still arriving
+ * - running: Arguments are complete and the tool is executing
+ * - succeeded: The tool returned a result
+ * - failed: The tool returned an error
+ */
+export type ToolCallStatus = 'streaming' | 'running' | 'succeeded' | 'failed';
+
+/**
+ * Tool call state shown on a call card.
+ */
+export interface ToolCall {
+  /** Call identifier */
+  callId: string;
+
+  /** Tool being called */
+  toolName: ToolName;
+
+  /** Why the agent is calling the tool */
+  description?: string;
+
+  /** Current lifecycle status */
+  status: ToolCallStatus;
+
+  /** Raw argument text received so far */
+  argumentsText: string;
+
+  /** Arguments parsed from the text so far (undefined until the object opens) */
+  arguments?: JsonValue;
+
+  /** Argument syntax error, if the text is not valid JSON */
+  argumentsError?: string;
+
+  /** Value returned by the tool */
+  result?: JsonValue;
+
+  /** Time the tool took to run (milliseconds) */
+  durationMs?: number;
+
+  /** Failure details */
+  error?: {
+    message: string;
+    code?: string;
+    retryable: boolean;
+  };
+}
+
+/**
+ * Transcript entry - narration or a tool call, in stream order.
+ *
+ * Educational Note: Keeping calls in the transcript (rather than a separate
+ * panel) shows users *when* the agent looked something up relative to what
+ * it said.
+ */
+export type TranscriptItem =
+  | { kind: 'text'; id: string; text: string; isFinal: boolean }
+  | { kind: 'tool_call'; callId: string };
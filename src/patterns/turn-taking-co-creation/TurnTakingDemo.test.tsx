@@ -5,7 +5,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { screen, waitFor } from '@testing-library/react';
+import { act, screen, waitFor, within } from '@testing-library/react';
 import { render } from '../../../tests/test-utils';
 import userEvent from '@testing-library/user-event';
 import { TurnTakingDemo } from './TurnTakingDemo';
@@ -127,4 +127,64 @@ describe('TurnTakingDemo', () => {
     // Verify the section is in editing mode
     expect(goalsSection?.getAttribute('data-editing')).toBe('true');
   }, 15000);
+
+  describe('resuming after a reload', () => {
+    /**
+     * Wait for the goals section, edit it while the agent streams, then "reload"
+     */
+    async function interruptRun(user: ReturnType<typeof userEvent.setup>) {
+      const { unmount } = render(<TurnTakingDemo />);
+
+      await user.click(screen.getByRole('button', { name: /^Fast$/ }));
+      const goalsSection = await waitFor(
+        () => {
+          const section = document.querySelector('[data-section-id="goals"]');
+          expect(section?.getAttribute('data-complete')).toBe('true');
+          return section as HTMLElement;
+        },
+        { timeout: 8000 }
+      );
+
+      await user.click(within(goalsSection).getByRole('textbox'));
+      const textarea = goalsSection.querySelector('textarea') as Element;
+      await user.type(textarea, ' Edited by the user.');
+      await user.click(within(goalsSection).getByRole('button', { name: /Save/ }));
+      expect(goalsSection).toHaveTextContent('Edited by the user.');
+
+      unmount();
+    }
+
+    it('should resume with the edits made before the reload', async () => {
+      const user = userEvent.setup();
+      await interruptRun(user);
+      render(<TurnTakingDemo />);
+
+      const banner = screen.getByRole('region', { name: 'Unfinished run' });
+      expect(banner).toHaveTextContent(/stopped after \d+ events/);
+
+      // user-event drives its own copy of the DOM library, so clicks are wrapped in act here
+      await act(async () => {
+        await user.click(within(banner).getByRole('button', { name: 'Resume where you left off' }));
+      });
+
+      await waitFor(() => {
+        const goalsSection = document.querySelector('[data-section-id="goals"]');
+        expect(goalsSection).toHaveTextContent('Edited by the user.');
+      });
+      expect(screen.queryByRole('region', { name: 'Unfinished run' })).not.toBeInTheDocument();
+    }, 20000);
+
+    it('should not offer a run the user reset', async () => {
+      const user = userEvent.setup();
+      render(<TurnTakingDemo />);
+      await waitFor(() => expect(localStorage.length).toBe(1), { timeout: 4000 });
+
+      await act(async () => {
+        await user.click(screen.getByRole('button', { name: /reset demo/i }));
+      });
+
+      expect(screen.queryByRole('region', { name: 'Unfinished run' })).not.toBeInTheDocument();
+      expect(localStorage.length).toBe(0);
+    }, 15000);
+  });
 });
@@ -19,22 +19,22 @@
  * @module patterns/turn-taking-co-creation/TurnTakingDemo
  */
 
-import { useState, useCallback, useMemo, memo } from 'react';
+import { useState, useCallback, useMemo, useRef, memo, type MutableRefObject } from 'react';
 import { DemoContainer } from '@/components/layout/DemoContainer';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
+import { ResumeSessionBanner } from '@/components/ui/ResumeSessionBanner';
 import { ScenarioCard } from '@/components/ui/ScenarioCard';
 import { PatternHelmet } from '@/components/PatternHelmet';
 import { NetworkInspector } from '@/components/NetworkInspector/NetworkInspector';
 import { useNetworkCapture } from '@/lib/hooks/useNetworkCapture';
-import type { StreamEvent as GlobalStreamEvent } from '@/types/events';
+import type { StreamEvent } from '@/types/events';
 import { CollaborativeEditor } from './CollaborativeEditor';
 import { PatchToolbar } from './PatchToolbar';
 import { AuthorshipLegend } from './AuthorshipLegend';
 import { TurnIndicator } from './TurnIndicator';
 import type { TurnState } from './TurnIndicator';
 import { useCollaborativeDocument } from './hooks';
-import type { StreamEvent as PatternStreamEvent } from './types';
 import styles from './TurnTakingDemo.module.css';
 
 /**
@@ -67,7 +67,10 @@ const SPEED_OPTIONS: Array<{
  */
 interface CollaborativeContentProps {
   speed: 'fast' | 'normal' | 'slow';
-  onEventCapture: (event: PatternStreamEvent) => void;
+  onEventCapture: (event: StreamEvent) => void;
+  onClearEvents: () => void;
+  /** Receives the hook's discardSession, so a reset does not leave the run saved */
+  discardRef: MutableRefObject<(() => void) | null>;
 }
 
 /**
@@ -82,12 +85,15 @@ interface CollaborativeContentProps {
 const CollaborativeContent = memo(function CollaborativeContent({
   speed,
   onEventCapture,
+  onClearEvents,
+  discardRef,
 }: CollaborativeContentProps): JSX.Element {
   // Collaborative document with agent streaming
   const {
     sectionsWithAuthorship,
     isStreaming,
     pendingPatches,
+    savedSession,
     actions,
   } = useCollaborativeDocument({
     speed,
@@ -95,7 +101,9 @@ const CollaborativeContent = memo(function CollaborativeContent({
     variableDelay: true,
     autoStart: true,
     onEvent: onEventCapture,
+    persistKey: 'turn-taking-co-creation',
   });
+  discardRef.current = actions.discardSession;
 
   /**
    * Calculate authorship statistics for the legend.
@@ -134,47 +142,64 @@ const CollaborativeContent = memo(function CollaborativeContent({
   }, [isStreaming, sectionsWithAuthorship.length]);
 
   return (
-    <div className={styles.mainContent}>
-      {/* Left Column: Document Editor */}
-      <div className={styles.editorColumn}>
-        <TurnIndicator
-          turnState={turnState}
-          isStreaming={isStreaming}
-          className={styles.turnIndicator}
-        />
+    <>
+      {/* Saved run */}
+      {savedSession && !isStreaming && (
+        <section className={styles.scenarioSection}>
+          <ResumeSessionBanner
+            eventCount={savedSession.position}
+            savedAt={savedSession.savedAt}
+            onResume={() => {
+              onClearEvents();
+              actions.resumeSession();
+            }}
+            onDiscard={actions.discardSession}
+          />
+        </section>
+      )}
 
-        <div
-          role="log"
-          aria-live="polite"
-          aria-label="Collaborative document editor"
-        >
-          <CollaborativeEditor
-            sections={sectionsWithAuthorship}
+      <div className={styles.mainContent}>
+        {/* Left Column: Document Editor */}
+        <div className={styles.editorColumn}>
+          <TurnIndicator
+            turnState={turnState}
             isStreaming={isStreaming}
-            onUserEdit={actions.applyUserEdit}
-            className={styles.editor}
+            className={styles.turnIndicator}
           />
+
+          <div
+            role="log"
+            aria-live="polite"
+            aria-label="Collaborative document editor"
+          >
+            <CollaborativeEditor
+              sections={sectionsWithAuthorship}
+              isStreaming={isStreaming}
+              onUserEdit={actions.applyUserEdit}
+              className={styles.editor}
+            />
+          </div>
         </div>
-      </div>
 
-      {/* Right Column: Sidebar */}
-      <div className={styles.sidebar}>
-        <AuthorshipLegend
-          stats={authorshipStats}
-          showStats={authorshipStats.totalCharCount > 0}
-          className={styles.legend}
-        />
+        {/* Right Column: Sidebar */}
+        <div className={styles.sidebar}>
+          <AuthorshipLegend
+            stats={authorshipStats}
+            showStats={authorshipStats.totalCharCount > 0}
+            className={styles.legend}
+          />
 
-        <PatchToolbar
-          pendingPatches={pendingPatches}
-          onAcceptPatch={actions.acceptAgentPatch}
-          onRejectPatch={(patchId) => actions.rejectAgentPatch(patchId, 'User rejected')}
-          onAskWhy={actions.askWhy}
-          isStreaming={isStreaming}
-          className={styles.toolbar}
-        />
+          <PatchToolbar
+            pendingPatches={pendingPatches}
+            onAcceptPatch={actions.acceptAgentPatch}
+            onRejectPatch={(patchId) => actions.rejectAgentPatch(patchId, 'User rejected')}
+            onAskWhy={actions.askWhy}
+            isStreaming={isStreaming}
+            className={styles.toolbar}
+          />
+        </div>
       </div>
-    </div>
+    </>
   );
 });
 
@@ -193,6 +218,7 @@ const CollaborativeContent = memo(function CollaborativeContent({
  * - Network Inspector for stream event visualization
  * - Speed controls for educational exploration
  * - Reset functionality to replay the demo
+ * - Resuming a run interrupted by a reload
  *
  * @example
  * ```tsx
@@ -210,74 +236,13 @@ export function TurnTakingDemo(): JSX.Element {
   // State: Demo key for forcing reset
   const [demoKey, setDemoKey] = useState(0);
 
+  // Discards the saved run of the current content before a reset remounts it
+  const discardRef = useRef<(() => void) | null>(null);
+
   // Network capture for debugging and visualization
   const { events, captureEvent, clearEvents, filter, setFilter } =
     useNetworkCapture();
 
-  /**
-   * Convert pattern-specific events to global StreamEvent format.
-   * The NetworkInspector expects events with id and timestamp at the root level.
-   *
-   * Note: Pattern-specific event types aren't in the global enum, so we cast
-   * to any to avoid TypeScript errors while maintaining event structure.
-   */
-  const handleEventCapture = useCallback(
-    (event: PatternStreamEvent): void => {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      let globalEvent: any;
-
-      switch (event.type) {
-        case 'agent_patch':
-          globalEvent = {
-            id: event.data.patchId,
-            timestamp: event.timestamp,
-            type: 'agent_patch',
-            data: event.data,
-          };
-          break;
-        case 'user_patch':
-          globalEvent = {
-            id: event.data.patchId,
-            timestamp: event.timestamp,
-            type: 'user_patch',
-            data: event.data,
-          };
-          break;
-        case 'patch_ack':
-          globalEvent = {
-            id: `ack-${event.data.patchId}`,
-            timestamp: event.timestamp,
-            type: 'patch_ack',
-            data: event.data,
-          };
-          break;
-        case 'section_complete':
-          globalEvent = {
-            id: `complete-${event.data.sectionId}`,
-            timestamp: event.timestamp,
-            type: 'section_complete',
-            data: event.data,
-          };
-          break;
-        case 'conflict':
-          globalEvent = {
-            id: `conflict-${event.data.sectionId}`,
-            timestamp: event.timestamp,
-            type: 'conflict',
-            data: event.data,
-          };
-          break;
-        default: {
-          const _exhaustive: never = event;
-          throw new Error(`Unknown event type: ${_exhaustive}`);
-        }
-      }
-
-      captureEvent(globalEvent as GlobalStreamEvent);
-    },
-    [captureEvent]
-  );
-
   /**
    * Handle speed change from controls.
    * Note: Changing speed will restart the stream.
@@ -286,6 +251,7 @@ export function TurnTakingDemo(): JSX.Element {
     (newSpeed: 'fast' | 'normal' | 'slow'): void => {
       setSpeed(newSpeed);
       // Reset demo to apply new speed
+      discardRef.current?.();
       setDemoKey((prev) => prev + 1);
       clearEvents();
     },
@@ -297,6 +263,7 @@ export function TurnTakingDemo(): JSX.Element {
    * Clears all state and restarts from the beginning.
    */
   const handleReset = useCallback((): void => {
+    discardRef.current?.();
     clearEvents();
     setDemoKey((prev) => prev + 1);
   }, [clearEvents]);
@@ -379,7 +346,9 @@ export function TurnTakingDemo(): JSX.Element {
       <CollaborativeContent
         key={demoKey}
         speed={speed}
-        onEventCapture={handleEventCapture}
+        onEventCapture={captureEvent}
+        onClearEvents={clearEvents}
+        discardRef={discardRef}
       />
 
       {/* Network Inspector */}
@@ -398,6 +367,7 @@ export function TurnTakingDemo(): JSX.Element {
 
           <NetworkInspector
             events={events}
+            pattern="turn-taking-co-creation"
             filter={filter}
             onFilterChange={setFilter}
             onClearEvents={clearEvents}
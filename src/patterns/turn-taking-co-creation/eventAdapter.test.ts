@@ -0,0 +1,71 @@
+/**
+ * Tests for the Turn-Taking Co-Creation event adapter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createEventAdapter } from '@/lib/streaming/eventAdapter';
+import { isStreamEvent } from '@/lib/streaming/eventSchema';
+import { adaptCollaborationEvent, readCollaborationEvent } from './eventAdapter';
+import { conflictScenario, projectCharterCollaboration } from './fixtures';
+
+describe('adaptCollaborationEvent', () => {
+  it('should produce valid canonical events for every fixture event', () => {
+    const toStreamEvent = createEventAdapter(adaptCollaborationEvent);
+
+    [...projectCharterCollaboration, ...conflictScenario].forEach((event) => {
+      expect(isStreamEvent(toStreamEvent(event))).toBe(true);
+    });
+  });
+
+  it.each([
+    ['insert', { op: 'add', path: '/sections/goals/content', value: 'text' }],
+    ['replace', { op: 'replace', path: '/sections/goals/content', value: 'text' }],
+    ['delete', { op: 'remove', path: '/sections/goals/content' }],
+  ] as const)('should map %s to a JSON Patch operation', (operation, expected) => {
+    const toStreamEvent = createEventAdapter(adaptCollaborationEvent);
+    const event = toStreamEvent({
+      type: 'user_patch',
+      timestamp: 1000,
+      data: {
+        patchId: 'u1',
+        sectionId: 'goals',
+        operation,
+        content: 'text',
+        position: { start: 2, end: 6 },
+        supersedes: 'a1',
+      },
+    });
+
+    expect(event.data).toEqual({
+      id: 'u1',
+      operations: [expected],
+      timestamp: 1000,
+      target: { sectionId: 'goals', start: 2, end: 6 },
+      supersedes: 'a1',
+    });
+  });
+});
+
+describe('readCollaborationEvent', () => {
+  it('should read back every event it adapts', () => {
+    const toStreamEvent = createEventAdapter(adaptCollaborationEvent);
+
+    [...projectCharterCollaboration, ...conflictScenario].forEach((event) => {
+      expect(readCollaborationEvent(toStreamEvent(event))).toEqual(event);
+    });
+  });
+
+  it('should ignore events the pattern does not render', () => {
+    expect(
+      readCollaborationEvent({ id: 't1', type: 'text', timestamp: 1, data: { text: 'Hi' } })
+    ).toBeNull();
+    expect(
+      readCollaborationEvent({
+        id: 'p1',
+        type: 'agent_patch',
+        timestamp: 1,
+        data: { id: 'p1', operations: [{ op: 'add', path: '/title', value: 'x' }], timestamp: 1 },
+      })
+    ).toBeNull();
+  });
+});
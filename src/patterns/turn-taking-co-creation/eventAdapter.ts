@@ -0,0 +1,174 @@
+/**
+ * Event adapter for the Turn-Taking Co-Creation pattern.
+ *
+ * The pattern describes edits as section-relative text operations
+ * (insert/replace/delete at a position). The canonical patch events use
+ * JSON Patch operations, so each edit becomes a single operation on
+ * `/sections/<sectionId>/content` with the original span kept as `target`.
+ * The reader reverses this; patches without a target cannot be placed and
+ * are skipped.
+ *
+ * @module patterns/turn-taking-co-creation/eventAdapter
+ */
+
+import type { EventAdapter, EventReader } from '@/lib/streaming/eventAdapter';
+import type {
+  PatchOperation as CanonicalPatchOperation,
+  PatchTarget,
+} from '@/types/events';
+import type { Patch, PatchOperation, Position, StreamEvent } from './types';
+
+/**
+ * JSON Patch operation for each text operation
+ */
+const PATCH_OPS: Readonly<Record<PatchOperation, CanonicalPatchOperation['op']>> = {
+  insert: 'add',
+  replace: 'replace',
+  delete: 'remove',
+};
+
+/**
+ * Build the JSON Patch operation for a section edit.
+ *
+ * @param sectionId - Edited section
+ * @param operation - Text operation
+ * @param content - Inserted or replacement text
+ * @returns Canonical patch operation
+ */
+function toPatchOperation(
+  sectionId: string,
+  operation: PatchOperation,
+  content: string
+): CanonicalPatchOperation {
+  const path = `/sections/${sectionId}/content`;
+  return operation === 'delete'
+    ? { op: 'remove', path }
+    : { op: PATCH_OPS[operation], path, value: content };
+}
+
+/**
+ * Recover the section edit from a canonical patch.
+ *
+ * @param operations - JSON Patch operations (the first one is used)
+ * @param target - Document range the patch applies to
+ * @returns Section edit, or null if the patch cannot be placed
+ */
+function fromPatchOperations(
+  operations: CanonicalPatchOperation[],
+  target: PatchTarget | undefined
+): { sectionId: string; operation: PatchOperation; content: string; position: Position } | null {
+  const [first] = operations;
+  const operation = (Object.keys(PATCH_OPS) as PatchOperation[]).find(
+    (key) => PATCH_OPS[key] === first?.op
+  );
+  if (!first || !operation || !target) {
+    return null;
+  }
+
+  const { sectionId, start, end } = target;
+  const content = typeof first.value === 'string' ? first.value : '';
+  return { sectionId, operation, content, position: { start, end } };
+}
+
+/**
+ * Convert a co-creation stream event to a canonical stream event.
+ *
+ * @example
+ * ```typescript
+ * const toStreamEvent = createEventAdapter(adaptCollaborationEvent, { idPrefix: 'co-creation' });
+ * captureEvent(toStreamEvent(event));
+ * ```
+ */
+export const adaptCollaborationEvent: EventAdapter<StreamEvent> = (event, { id, timestamp }) => {
+  switch (event.type) {
+    case 'agent_patch':
+      return {
+        id,
+        timestamp,
+        type: 'agent_patch',
+        data: {
+          id: event.data.patchId,
+          operations: [
+            toPatchOperation(event.data.sectionId, event.data.operation, event.data.content),
+          ],
+          timestamp,
+          target: { sectionId: event.data.sectionId, ...event.data.position },
+          metadata: event.data.metadata,
+        },
+      };
+    case 'user_patch':
+      return {
+        id,
+        timestamp,
+        type: 'user_patch',
+        data: {
+          id: event.data.patchId,
+          operations: [
+            toPatchOperation(event.data.sectionId, event.data.operation, event.data.content),
+          ],
+          timestamp,
+          target: { sectionId: event.data.sectionId, ...event.data.position },
+          supersedes: event.data.supersedes,
+        },
+      };
+    case 'patch_ack':
+      return { id, timestamp, type: 'patch_ack', data: event.data };
+    case 'section_complete':
+      return { id, timestamp, type: 'section_complete', data: event.data };
+    case 'conflict':
+      return { id, timestamp, type: 'conflict', data: event.data };
+  }
+};
+
+/**
+ * Read a canonical stream event as a co-creation stream event.
+ *
+ * @example
+ * ```typescript
+ * for await (const event of readPatternStream(transport, readCollaborationEvent)) {
+ *   processEvent(event);
+ * }
+ * ```
+ */
+export const readCollaborationEvent: EventReader<StreamEvent> = (event) => {
+  const { timestamp } = event;
+
+  switch (event.type) {
+    case 'agent_patch': {
+      const edit = fromPatchOperations(event.data.operations, event.data.target);
+      if (!edit) {
+        return null;
+      }
+
+      return {
+        type: 'agent_patch',
+        timestamp,
+        data: {
+          patchId: event.data.id,
+          ...edit,
+          metadata: event.data.metadata as Patch['metadata'],
+        },
+      };
+    }
+    case 'user_patch': {
+      const edit = fromPatchOperations(event.data.operations, event.data.target);
+      if (!edit) {
+        return null;
+      }
+
+      return {
+        type: 'user_patch',
+        timestamp,
+        data: { patchId: event.data.id, ...edit, supersedes: event.data.supersedes },
+      };
+    }
+    case 'patch_ack':
+      return { type: 'patch_ack', timestamp, data: event.data };
+    case 'section_complete':
+      return { type: 'section_complete', timestamp, data: event.data };
+    case 'conflict':
+      return { type: 'conflict', timestamp, data: event.data };
+    default:
+      return null;
+  }
+};
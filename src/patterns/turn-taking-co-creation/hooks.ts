@@ -13,7 +13,6 @@ import type {
   CollaborativeDocument,
   DocumentSection,
   Patch,
-  StreamEvent,
   UseCollaborativeDocumentReturn,
   PatchWithStatus,
   SectionWithAuthorship,
@@ -29,19 +28,41 @@ import {
   buildDeletionSpans,
 } from './patchEngine';
 import { initialDocument } from './fixtures';
+import { adaptCollaborationEvent, readCollaborationEvent } from './eventAdapter';
+import {
+  PatternTransport,
+  createEventAdapter,
+  readPatternStream,
+} from '@/lib/streaming/eventAdapter';
+import { StreamSession } from '@/lib/streaming/streamSession';
+import {
+  getResumeConfig,
+  type PersistedSession,
+  type RecordedRun,
+} from '@/lib/streaming/sessionPersistence';
+import type { StreamTransport } from '@/lib/streaming/transport';
+import { useSessionPersistence } from '@/lib/hooks/useSessionPersistence';
+import { useLifecycle } from '@/lib/hooks/useLifecycle';
+import type { StreamEvent as CanonicalStreamEvent } from '@/types/events';
 
 /**
  * Hook configuration options.
  */
 export interface UseCollaborativeDocumentConfig extends Partial<StreamConfig> {
-  /** Optional: Callback when events are emitted (for network inspector) */
-  onEvent?: (event: StreamEvent) => void;
+  /** Optional: Callback with each canonical event (for network inspector) */
+  onEvent?: (event: CanonicalStreamEvent) => void;
+
+  /** Optional: Event source to read instead of the mock stream */
+  createTransport?: () => StreamTransport;
 
   /** Optional: Enable auto-start streaming */
   autoStart?: boolean;
 
   /** Optional: Merge strategy configuration */
   mergeConfig?: MergeConfig;
+
+  /** Optional: Key to save runs under, so a reload can offer to resume them */
+  persistKey?: string;
 }
 
 /**
@@ -57,6 +78,11 @@ export interface UseCollaborativeDocumentConfig extends Partial<StreamConfig> {
  * Educational Note: Collaborative editing requires careful state management
  * to ensure user edits don't get overwritten by streaming agent patches.
  *
+ * With a `persistKey`, the agent's patches and the user's edits are saved as
+ * the run streams. After a reload the saved run is offered (`savedSession`)
+ * instead of starting the agent again; resuming applies them again and the
+ * agent continues where it stopped.
+ *
  * @param config - Hook configuration
  * @returns Collaborative document state and actions
  *
@@ -89,10 +115,12 @@ export function useCollaborativeDocument(
 ): UseCollaborativeDocumentReturn {
   const {
     onEvent,
+    createTransport,
     autoStart = true,
     fixture = 'full',
     speed = 'normal',
     variableDelay = true,
+    persistKey,
   } = config;
 
   // ========== State Management ==========
@@ -101,7 +129,8 @@ export function useCollaborativeDocument(
   const [document, setDocument] = useState<CollaborativeDocument | null>(null);
   const [pendingPatches, setPendingPatches] = useState<PatchWithStatus[]>([]);
   const [patchHistory, setPatchHistory] = useState<Patch[]>([]);
-  const [isStreaming, setIsStreaming] = useState(false);
+  const { phase, can, restart, transition } = useLifecycle();
+  const isStreaming = phase === 'streaming';
   const [completedSections, setCompletedSections] = useState<Set<string>>(new Set());
 
   // Auto-accept delay (ms) - how long patches stay visible before being auto-accepted
@@ -117,6 +146,32 @@ export function useCollaborativeDocument(
   const onEventRef = useRef(onEvent);
   onEventRef.current = onEvent;
 
+  // Session of the running stream (user edits are sent through it)
+  const sessionRef = useRef<StreamSession | null>(null);
+
+  // Saved runs: offered on mount, then recorded event by event
+  const {
+    savedSession,
+    begin,
+    observe,
+    finish,
+    discardSession: clearSavedSession,
+  } = useSessionPersistence({ persistKey, clock: config.clock });
+  const savedSessionRef = useRef(savedSession);
+  savedSessionRef.current = savedSession;
+
+  // Saved run the next stream continues (set by resumeSession)
+  const resumeRef = useRef<PersistedSession<RecordedRun> | null>(null);
+
+  // Bumped to start the stream after resuming or discarding a saved run
+  const [runTrigger, setRunTrigger] = useState(0);
+
+  // Converts the user's own edits to canonical events for the network inspector
+  const toUserPatchEvent = useMemo(
+    () => createEventAdapter(adaptCollaborationEvent, { idPrefix: 'user-patch' }),
+    []
+  );
+
   // ========== Initialize Document ==========
   /**
    * Initialize document structure from fixture.
@@ -156,9 +211,20 @@ export function useCollaborativeDocument(
     // CRITICAL: Prevent duplicate streams - only start if not already running
     // Once streamActiveRef is true, it stays true for this component instance
     if (!autoStart || streamActiveRef.current) return;
+
+    // A saved run is offered first: wait for resumeSession or discardSession
+    const resumed = resumeRef.current;
+    resumeRef.current = null;
+    if (!resumed && savedSessionRef.current) return;
     streamActiveRef.current = true;
 
+    // A resumed run continues the fixture it was saved with
+    const streamFixture = (resumed?.fixtureId as StreamConfig['fixture'] | undefined) ?? fixture;
+    const history = resumed?.data.events ?? [];
+    const sessionId = begin(streamFixture, resumed);
+
     let cancelled = false;
+    const abortController = new AbortController();
 
     (async () => {
       // Wait for document to be initialized (via polling)
@@ -169,23 +235,49 @@ export function useCollaborativeDocument(
       }
       if (cancelled) return;
 
-      setIsStreaming(true);
+      restart();
       try {
-        const stream = createMockCollaborationStream({
-          fixture,
-          speed,
-          variableDelay,
+        const transport =
+          createTransport?.() ??
+          new PatternTransport(
+            (context) =>
+              createMockCollaborationStream({
+                fixture: streamFixture,
+                speed,
+                variableDelay,
+                clock: context.clock,
+              }),
+            adaptCollaborationEvent,
+            { idPrefix: 'co-creation', clock: config.clock }
+          );
+
+        // Notify external listeners (e.g., network inspector) and save the run
+        // Using ref to avoid re-running effect when callback changes
+        const handleEvent = (event: CanonicalStreamEvent) => {
+          observe(event);
+          onEventRef.current?.(event);
+        };
+
+        // Own the session so user edits are sent on it. A resumed session
+        // restores the edits already sent along with the agent's position.
+        const session = new StreamSession({
+          sessionId,
+          transport,
+          onSend: handleEvent,
+          clock: config.clock,
+          ...getResumeConfig(history),
+        });
+        sessionRef.current = session;
+
+        const stream = readPatternStream(session, readCollaborationEvent, {
+          history,
+          onEvent: handleEvent,
+          signal: abortController.signal,
         });
 
         for await (const event of stream) {
           if (cancelled) break;
 
-          // Notify external listeners (e.g., network inspector)
-          // Using ref to avoid re-running effect when callback changes
-          if (onEventRef.current) {
-            onEventRef.current(event);
-          }
-
           // Process event based on type
           switch (event.type) {
             case 'agent_patch': {
@@ -238,6 +330,7 @@ export function useCollaborativeDocument(
               break;
             }
 
+            // The user's own edits, sent live or read again from a resumed run
             case 'user_patch': {
               const patch: Patch = {
                 id: event.data.patchId,
@@ -278,20 +371,31 @@ export function useCollaborativeDocument(
             }
           }
         }
+
+        // Stream completed (not just closed by the cleanup)
+        // NOTE: We do NOT reset streamActiveRef here - the stream has completed
+        // naturally and should not restart. Only component remount resets it.
+        if (!cancelled) {
+          finish('closed');
+          transition('complete');
+        }
       } catch (error) {
         console.error('Stream error:', error);
-      } finally {
         if (!cancelled) {
-          setIsStreaming(false);
-          // NOTE: We do NOT reset streamActiveRef here - the stream has completed
-          // naturally and should not restart. Only component remount resets it.
+          finish('error');
+          transition('fail');
         }
+      } finally {
+        sessionRef.current = null;
       }
     })();
 
     return () => {
       cancelled = true;
-      setIsStreaming(false);
+      abortController.abort();
+      if (can('close')) {
+        transition('close');
+      }
       // CRITICAL: Do NOT reset streamActiveRef in cleanup!
       // The ref persists across re-renders and prevents duplicate streams.
       // Only component unmount (via demoKey change) creates a fresh ref.
@@ -301,7 +405,29 @@ export function useCollaborativeDocument(
     // every time a patch updates the document state, which cancels the stream.
     // The stream waits for document to be truthy via polling instead.
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [autoStart, fixture, speed, variableDelay]);
+  }, [autoStart, fixture, speed, variableDelay, createTransport, config.clock, runTrigger]);
+
+  /**
+   * Continue the run saved before a reload.
+   */
+  const resumeSession = useCallback(() => {
+    if (savedSessionRef.current) {
+      resumeRef.current = savedSessionRef.current;
+      streamActiveRef.current = false;
+      setRunTrigger((prev) => prev + 1);
+    }
+  }, []);
+
+  /**
+   * Drop the saved run (or stop saving the current one) and start over.
+   */
+  const discardSession = useCallback(() => {
+    finish('closed');
+    clearSavedSession();
+    savedSessionRef.current = null;
+    streamActiveRef.current = false;
+    setRunTrigger((prev) => prev + 1);
+  }, [finish, clearSavedSession]);
 
   // ========== Patch Application ==========
   /**
@@ -389,23 +515,29 @@ export function useCollaborativeDocument(
 
       applyPatchToDocument(patch);
 
-      // Notify server (in real app, this would be a WebSocket message)
-      if (onEvent) {
-        onEvent({
-          type: 'user_patch',
-          timestamp: patch.timestamp,
-          data: {
-            patchId: patch.id,
-            sectionId: patch.sectionId,
-            operation: patch.operation,
-            content: patch.content,
-            position: patch.position,
-            supersedes: patch.supersedes,
-          },
-        });
+      const event = toUserPatchEvent({
+        type: 'user_patch',
+        timestamp: patch.timestamp,
+        data: {
+          patchId: patch.id,
+          sectionId: patch.sectionId,
+          operation: patch.operation,
+          content: patch.content,
+          position: patch.position,
+          supersedes: patch.supersedes,
+        },
+      });
+
+      // Notify server (in real app, this would be a WebSocket message).
+      // Edits made while the agent streams are sent on its session, which
+      // reports them to onEvent and saves them with the run.
+      if (sessionRef.current) {
+        sessionRef.current.send(event);
+      } else {
+        onEvent?.(event);
       }
     },
-    [applyPatchToDocument, onEvent]
+    [applyPatchToDocument, onEvent, toUserPatchEvent]
   );
 
   /**
@@ -459,14 +591,18 @@ export function useCollaborativeDocument(
     document,
     sectionsWithAuthorship,
     isStreaming,
+    phase,
     pendingPatches,
     patchHistory,
+    savedSession,
     actions: {
       applyUserEdit,
       acceptAgentPatch,
       rejectAgentPatch,
       askWhy,
       revertSection,
+      resumeSession,
+      discardSession,
     },
   };
 }
@@ -10,6 +10,13 @@
  */
 
 import type { StreamEvent } from './types';
+import {
+  createJitteredTiming,
+  createProfileTiming,
+  type TimingModel,
+} from '@/lib/streaming/timingModels';
+import { systemClock, type Clock } from '@/lib/utils/clock';
+import { delay } from '@/lib/utils/delay';
 import { projectCharterCollaboration, shortCollaboration, conflictScenario } from './fixtures';
 
 /**
@@ -27,32 +34,27 @@ export interface StreamConfig {
   speed: StreamSpeed;
   /** Whether to simulate network variability */
   variableDelay: boolean;
+  /** Custom timing model (overrides speed and variableDelay) */
+  timing?: TimingModel;
+  /** Clock the delays are waited on (default: system clock; a VirtualClock in tests) */
+  clock?: Clock;
 }
 
 /**
- * Get delay in milliseconds based on stream speed.
+ * Get the timing model for a stream speed.
  *
  * Educational Note: Different speeds are useful for:
  * - fast: Testing and automated checks
  * - normal: Realistic demo experience
  * - slow: Educational walkthroughs and debugging
+ *
+ * Variable delay adds seeded ±30% jitter, so the "network variability"
+ * is the same on every run.
  */
-function getDelay(speed: StreamSpeed, isVariableDelay: boolean): number {
-  const baseDelays: Record<StreamSpeed, number> = {
-    fast: 50,
-    normal: 300,
-    slow: 1000,
-  };
-
-  const delay = baseDelays[speed];
-
-  if (!isVariableDelay) {
-    return delay;
-  }
-
-  // Add random variance (±30%)
-  const variance = delay * 0.3;
-  return delay + (Math.random() * variance * 2 - variance);
+function getTiming(speed: StreamSpeed, isVariableDelay: boolean): TimingModel {
+  return isVariableDelay
+    ? createJitteredTiming(speed, { jitter: 0.3 })
+    : createProfileTiming(speed);
 }
 
 /**
@@ -92,10 +94,12 @@ export async function* createMockCollaborationStream(
     }
   }
 
+  const timing = config.timing ?? getTiming(config.speed, config.variableDelay);
+
   // Stream events with delays
-  for (const event of fixture) {
-    const delay = getDelay(config.speed, config.variableDelay);
-    await new Promise((resolve) => setTimeout(resolve, delay));
+  for (const [index, event] of fixture.entries()) {
+    const delayMs = timing.getDelay({ index, event, previous: fixture[index - 1] });
+    await delay(delayMs, config.clock);
     yield event;
   }
 }
@@ -108,15 +112,19 @@ export async function* createMockCollaborationStream(
  *
  * @param events - Custom stream events
  * @param speed - Stream speed
+ * @param clock - Clock the delays are waited on (default: system clock)
  * @returns Async generator of events
  */
 export async function* createCustomStream(
   events: StreamEvent[],
-  speed: StreamSpeed = 'fast'
+  speed: StreamSpeed = 'fast',
+  clock: Clock = systemClock
 ): AsyncGenerator<StreamEvent> {
-  for (const event of events) {
-    const delay = getDelay(speed, false);
-    await new Promise((resolve) => setTimeout(resolve, delay));
+  const timing = getTiming(speed, false);
+
+  for (const [index, event] of events.entries()) {
+    const delayMs = timing.getDelay({ index, event, previous: events[index - 1] });
+    await delay(delayMs, clock);
     yield event;
   }
 }
@@ -185,9 +193,10 @@ export function createPatchAckEvent(
  * Useful for testing how the UI handles gaps in the stream.
  *
  * @param ms - Milliseconds to pause
+ * @param clock - Clock to pause on (default: system clock)
  */
-export async function pauseStream(ms: number): Promise<void> {
-  await new Promise((resolve) => setTimeout(resolve, ms));
+export async function pauseStream(ms: number, clock: Clock = systemClock): Promise<void> {
+  await delay(ms, clock);
 }
 
 /**
@@ -199,19 +208,19 @@ export async function pauseStream(ms: number): Promise<void> {
  * @returns Estimated duration in milliseconds
  */
 export function getStreamDuration(config: StreamConfig): number {
-  let eventCount: number;
+  let events: StreamEvent[];
 
   switch (config.fixture) {
     case 'full': {
-      eventCount = projectCharterCollaboration.length;
+      events = projectCharterCollaboration;
       break;
     }
     case 'short': {
-      eventCount = shortCollaboration.length;
+      events = shortCollaboration;
       break;
     }
     case 'conflict': {
-      eventCount = conflictScenario.length;
+      events = conflictScenario;
       break;
     }
     default: {
@@ -220,8 +229,12 @@ export function getStreamDuration(config: StreamConfig): number {
     }
   }
 
-  const avgDelay = getDelay(config.speed, false);
-  return eventCount * avgDelay;
+  const timing = config.timing ?? getTiming(config.speed, false);
+  return events.reduce(
+    (total, event, index) =>
+      total + timing.getDelay({ index, event, previous: events[index - 1] }),
+    0
+  );
 }
 
 /**
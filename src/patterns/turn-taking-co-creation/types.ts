@@ -9,6 +9,9 @@
  * @educational Teaches bidirectional streaming, conflict resolution, authorship tracking
  */
 
+import type { PersistedSession, RecordedRun } from '@/lib/streaming/sessionPersistence';
+import type { LifecyclePhase } from '@/lib/streaming/lifecycle';
+
 /**
  * Author types for tracking who made each edit.
  */
@@ -316,6 +319,12 @@ export interface CollaborativeActions {
 
   /** Revert to a previous version of a section */
   revertSection: (sectionId: string, patchId: string) => void;
+
+  /** Continue the saved run: its patches and edits are applied again, then the agent continues */
+  resumeSession: () => void;
+
+  /** Drop the saved run (or stop saving the current one) and start over */
+  discardSession: () => void;
 }
 
 /**
@@ -334,11 +343,20 @@ export interface CollaborativeDocumentState {
   /** Whether the agent stream is currently active */
   isStreaming: boolean;
 
+  /** Lifecycle phase of the agent stream (see lib/streaming/lifecycle) */
+  phase: LifecyclePhase;
+
   /** Queue of pending patches not yet applied */
   pendingPatches: PatchWithStatus[];
 
   /** History of all patches for undo/redo */
   patchHistory: Patch[];
+
+  /**
+   * Run saved before a reload (with `persistKey`), until it is resumed or discarded.
+   * While one is offered, the agent does not start on its own.
+   */
+  savedSession: PersistedSession<RecordedRun> | null;
 }
 
 /**
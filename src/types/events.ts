@@ -21,6 +21,12 @@ export interface BaseStreamEvent {
 
   /** Optional session identifier for grouping related events */
   sessionId?: string;
+
+  /**
+   * Optional logical channel (e.g. 'reasoning', 'answer', 'tools') when
+   * several channels are multiplexed over one stream
+   */
+  channel?: string;
 }
 
 // ============================================================================
@@ -119,6 +125,143 @@ export interface MemoryEvent extends BaseStreamEvent {
   data: MemoryEntry;
 }
 
+/**
+ * Memory category used by the memory timeline
+ */
+export type MemoryCategory = 'fact' | 'decision' | 'task' | 'risk';
+
+/**
+ * Memory provenance and confidence metadata
+ */
+export interface MemoryMetadata {
+  /** Who the information came from */
+  source?: 'user' | 'agent';
+
+  /** Confidence score (0.0 to 1.0) */
+  confidence?: number;
+
+  /** Additional metadata */
+  [key: string]: unknown;
+}
+
+/**
+ * Memory creation - a new memory extracted from the conversation
+ */
+export interface MemoryCreation {
+  /** Memory identifier */
+  id: string;
+
+  /** Memory category */
+  memoryType: MemoryCategory;
+
+  /** Human-readable summary */
+  summary: string;
+
+  /** Token excerpt the memory was extracted from (provenance) */
+  tokenExcerpt: string;
+
+  /** Optional time-to-live in seconds before auto-pruning */
+  ttl?: number;
+
+  /** Optional metadata */
+  metadata?: MemoryMetadata;
+}
+
+/**
+ * Memory create event - emitted when the agent records a new memory
+ */
+export interface MemoryCreateEvent extends BaseStreamEvent {
+  type: 'memory.create';
+  data: MemoryCreation;
+}
+
+/**
+ * Memory update - changes to an existing memory
+ */
+export interface MemoryUpdate {
+  /** ID of the memory being updated */
+  id: string;
+
+  /** Changed fields */
+  updates: {
+    summary?: string;
+    tokenExcerpt?: string;
+    memoryType?: MemoryCategory;
+    metadata?: MemoryMetadata;
+  };
+}
+
+/**
+ * Memory update event - emitted when a memory is revised
+ */
+export interface MemoryUpdateEvent extends BaseStreamEvent {
+  type: 'memory.update';
+  data: MemoryUpdate;
+}
+
+/**
+ * Memory prune - removal of a memory from the active set
+ */
+export interface MemoryPrune {
+  /** ID of the pruned memory */
+  id: string;
+
+  /** Why the memory was pruned */
+  reason: string;
+}
+
+/**
+ * Memory prune event - emitted when a memory is removed
+ */
+export interface MemoryPruneEvent extends BaseStreamEvent {
+  type: 'memory.prune';
+  data: MemoryPrune;
+}
+
+/**
+ * Memory pin - user pinning or unpinning a memory
+ */
+export interface MemoryPin {
+  /** ID of the memory */
+  id: string;
+
+  /** Whether the memory is now pinned */
+  pinned: boolean;
+}
+
+/**
+ * Memory pin event - emitted when a memory is pinned or unpinned
+ */
+export interface MemoryPinEvent extends BaseStreamEvent {
+  type: 'memory.pin';
+  data: MemoryPin;
+}
+
+/**
+ * Conversation message - one chat message in a multi-turn conversation
+ */
+export interface ConversationMessage {
+  /** Message identifier */
+  id: string;
+
+  /** Message author */
+  role: 'user' | 'agent';
+
+  /** Message text */
+  content: string;
+
+  /** Conversation turn this message belongs to */
+  turnNumber: number;
+}
+
+/**
+ * Message event - emitted for each conversation message
+ */
+export interface ConversationMessageEvent extends BaseStreamEvent {
+  type: 'message';
+  data: ConversationMessage;
+}
+
 // ============================================================================
 // Agent Await Prompt Pattern Events
 // ============================================================================
@@ -147,6 +290,38 @@ export interface InputRequest {
 
   /** Optional placeholder text */
   placeholder?: string;
+
+  /** Optional structured fields when several values are requested at once */
+  fields?: InputFieldSpec[];
+
+  /** Optional time before the agent continues without input (milliseconds) */
+  timeoutMs?: number;
+}
+
+/**
+ * Input field specification - one field in a multi-field input request
+ */
+export interface InputFieldSpec {
+  /** Field name (key in the submitted values) */
+  name: string;
+
+  /** Field input type */
+  type: 'text' | 'number' | 'date' | 'email' | 'url';
+
+  /** Human-readable label */
+  label: string;
+
+  /** Whether the field must be filled */
+  required: boolean;
+
+  /** Optional placeholder text */
+  placeholder?: string;
+
+  /** Optional help text */
+  helpText?: string;
+
+  /** Optional default value */
+  defaultValue?: string | number;
 }
 
 /**
@@ -169,6 +344,9 @@ export interface InputSubmission {
 
   /** Timestamp of submission */
   submittedAt: number;
+
+  /** Optional per-field values for multi-field requests */
+  fields?: Record<string, string | number | Date>;
 }
 
 /**
@@ -179,6 +357,63 @@ export interface InputSubmissionEvent extends BaseStreamEvent {
   data: InputSubmission;
 }
 
+/**
+ * Text chunk - streamed agent text around input requests
+ */
+export interface TextChunk {
+  /** Text content */
+  text: string;
+
+  /** Whether this chunk completes a message segment */
+  isComplete?: boolean;
+}
+
+/**
+ * Text event - emitted when agent text is streamed
+ */
+export interface TextEvent extends BaseStreamEvent {
+  type: 'text';
+  data: TextChunk;
+}
+
+/**
+ * Resume details - acknowledgement that requested input was received
+ */
+export interface ResumeInfo {
+  /** Optional acknowledgement message */
+  message?: string;
+
+  /** Names of the fields that were received */
+  receivedFields?: string[];
+}
+
+/**
+ * Resume event - emitted when the stream continues after input
+ */
+export interface ResumeEvent extends BaseStreamEvent {
+  type: 'resume';
+  data: ResumeInfo;
+}
+
+/**
+ * Input timeout - the user did not answer an input request in time
+ */
+export interface InputTimeout {
+  /** Explanation of the fallback behavior */
+  message: string;
+
+  /** Names of the fields that were not provided */
+  expiredFields?: string[];
+}
+
+/**
+ * Input timeout event - emitted when an input request expires
+ */
+export interface InputTimeoutEvent extends BaseStreamEvent {
+  type: 'timeout';
+  data: InputTimeout;
+}
+
 // ============================================================================
 // Streaming Validation Loop Pattern Events
 // ============================================================================
@@ -188,6 +423,31 @@ export interface InputSubmissionEvent extends BaseStreamEvent {
  */
 export type CheckpointStatus = 'pending' | 'validating' | 'passed' | 'failed';
 
+/**
+ * Actions a user can take at a checkpoint
+ */
+export type CheckpointAction = 'approve' | 'edit' | 'skip';
+
+/**
+ * Budget allocation for a team - the value validated at checkpoints
+ */
+export interface BudgetAllocation {
+  /** Team receiving the budget */
+  team: string;
+
+  /** Total budget amount in USD */
+  budget: number;
+
+  /** Number of full-time employees */
+  headcount: number;
+
+  /** Number of contractors */
+  contractors: number;
+
+  /** Budget justification */
+  rationale: string;
+}
+
 /**
  * Checkpoint - represents a validation point in the stream
  */
@@ -209,6 +469,18 @@ export interface Checkpoint {
 
   /** Timestamp when checkpoint was created */
   timestamp: number;
+
+  /** Optional question shown to the user */
+  question?: string;
+
+  /** Optional value awaiting approval */
+  proposedValue?: BudgetAllocation;
+
+  /** Optional actions the user can take */
+  actions?: CheckpointAction[];
+
+  /** Optional time before auto-approval (milliseconds, 0 = none) */
+  timeoutMs?: number;
 }
 
 /**
@@ -247,6 +519,91 @@ export interface ValidationEvent extends BaseStreamEvent {
   data: ValidationResult;
 }
 
+/**
+ * Checkpoint response - the user's decision at a checkpoint
+ */
+export interface CheckpointResponse {
+  /** ID of the checkpoint being answered */
+  checkpointId: string;
+
+  /** Action taken */
+  action: CheckpointAction;
+
+  /** Edited value (when action is 'edit') */
+  editedValue?: BudgetAllocation;
+}
+
+/**
+ * Checkpoint response event - emitted when the user answers a checkpoint
+ */
+export interface CheckpointResponseEvent extends BaseStreamEvent {
+  type: 'checkpoint_response';
+  data: CheckpointResponse;
+}
+
+/**
+ * Checkpoint resume - the stream continuing with the approved value
+ */
+export interface CheckpointResume {
+  /** ID of the resolved checkpoint */
+  checkpointId: string;
+
+  /** Value that was approved (may differ from the proposal) */
+  approvedValue: BudgetAllocation;
+
+  /** Checkpoint phase */
+  phase: 'resuming';
+}
+
+/**
+ * Checkpoint resume event - emitted when streaming continues after a checkpoint
+ */
+export interface CheckpointResumeEvent extends BaseStreamEvent {
+  type: 'checkpoint_resume';
+  data: CheckpointResume;
+}
+
+/**
+ * Budget analysis - agent reasoning before a checkpoint
+ */
+export interface BudgetAnalysis {
+  /** Team being analyzed */
+  team: string;
+
+  /** Analysis text */
+  analysis: string;
+}
+
+/**
+ * Budget analysis event - emitted with analysis for a team
+ */
+export interface BudgetAnalysisEvent extends BaseStreamEvent {
+  type: 'budget_analysis';
+  data: BudgetAnalysis;
+}
+
+/**
+ * Final plan - all approved allocations
+ */
+export interface FinalPlan {
+  /** Approved allocations */
+  allocations: BudgetAllocation[];
+
+  /** Sum of all allocations */
+  totalBudget: number;
+
+  /** Plan summary */
+  summary: string;
+}
+
+/**
+ * Final plan event - emitted once all checkpoints are resolved
+ */
+export interface FinalPlanEvent extends BaseStreamEvent {
+  type: 'final_plan';
+  data: FinalPlan;
+}
+
 // ============================================================================
 // Tabular Stream View Pattern Events
 // ============================================================================
@@ -269,6 +626,24 @@ export interface ColumnDefinition {
 
   /** Whether column is required */
   required?: boolean;
+
+  /** Optional: whether the column can be sorted */
+  sortable?: boolean;
+
+  /** Optional: whether the column can be filtered */
+  filterable?: boolean;
+
+  /** Optional unit label (e.g., '$', '%') */
+  unit?: string;
+
+  /** Optional aggregation applied on completion */
+  aggregation?: 'sum' | 'avg' | 'min' | 'max' | 'count';
+
+  /** Optional width hint (CSS value) */
+  width?: string;
+
+  /** Optional: whether the column is hidden by default */
+  hidden?: boolean;
 }
 
 /**
@@ -286,6 +661,12 @@ export interface TableSchema {
 
   /** Optional description */
   description?: string;
+
+  /** Optional hint for the number of rows that will follow */
+  totalRows?: number;
+
+  /** Optional metadata about the data source */
+  metadata?: Record<string, unknown>;
 }
 
 /**
@@ -311,6 +692,9 @@ export interface TableRow {
 
   /** Timestamp when row was created */
   timestamp: number;
+
+  /** Optional row-specific metadata */
+  metadata?: Record<string, unknown>;
 }
 
 /**
@@ -336,6 +720,15 @@ export interface TableMetadata {
 
   /** Optional status message */
   statusMessage?: string;
+
+  /** Optional aggregated values keyed by column ID */
+  aggregations?: Record<string, number>;
+
+  /** Optional completion time (Unix epoch ms) */
+  completedAt?: number;
+
+  /** Optional additional metadata from the server */
+  metadata?: Record<string, unknown>;
 }
 
 /**
@@ -367,6 +760,20 @@ export interface PatchOperation {
   from?: string;
 }
 
+/**
+ * Document range a patch applies to
+ */
+export interface PatchTarget {
+  /** Section of the document */
+  sectionId: string;
+
+  /** Character offset where the range starts */
+  start: number;
+
+  /** Character offset where the range ends (exclusive) */
+  end: number;
+}
+
 /**
  * Agent-generated patch
  */
@@ -382,6 +789,12 @@ export interface AgentPatch {
 
   /** Timestamp when patch was created */
   timestamp: number;
+
+  /** Optional document range the patch applies to */
+  target?: PatchTarget;
+
+  /** Optional tracking metadata (source, confidence, ...) */
+  metadata?: Record<string, unknown>;
 }
 
 /**
@@ -404,6 +817,12 @@ export interface UserPatch {
 
   /** Timestamp when patch was created */
   timestamp: number;
+
+  /** Optional document range the patch applies to */
+  target?: PatchTarget;
+
+  /** Optional ID of the agent patch this edit replaces */
+  supersedes?: string;
 }
 
 /**
@@ -414,6 +833,69 @@ export interface UserPatchEvent extends BaseStreamEvent {
   data: UserPatch;
 }
 
+/**
+ * Patch acknowledgement - the agent's response to a user edit
+ */
+export interface PatchAck {
+  /** ID of the acknowledged patch */
+  patchId: string;
+
+  /** Outcome */
+  status: 'accepted' | 'rejected' | 'modified';
+
+  /** Explanation */
+  message: string;
+}
+
+/**
+ * Patch acknowledgement event - emitted when the agent responds to a user edit
+ */
+export interface PatchAckEvent extends BaseStreamEvent {
+  type: 'patch_ack';
+  data: PatchAck;
+}
+
+/**
+ * Section completion - the agent finished drafting a section
+ */
+export interface SectionCompletion {
+  /** Completed section */
+  sectionId: string;
+}
+
+/**
+ * Section complete event - emitted when a section is fully drafted
+ */
+export interface SectionCompleteEvent extends BaseStreamEvent {
+  type: 'section_complete';
+  data: SectionCompletion;
+}
+
+/**
+ * Edit conflict - agent and user edited the same region
+ */
+export interface EditConflict {
+  /** Section containing the conflict */
+  sectionId: string;
+
+  /** Conflicting agent patch */
+  agentPatchId: string;
+
+  /** Conflicting user patch */
+  userPatchId: string;
+
+  /** How the conflict is resolved */
+  resolution: 'user_wins' | 'agent_wins' | 'manual';
+}
+
+/**
+ * Conflict event - emitted when concurrent edits collide
+ */
+export interface ConflictEvent extends BaseStreamEvent {
+  type: 'conflict';
+  data: EditConflict;
+}
+
 // ============================================================================
 // Schema-Governed Exchange Pattern Events
 // ============================================================================
@@ -467,6 +949,12 @@ export interface PayloadData {
 
   /** Timestamp when payload was created */
   timestamp: number;
+
+  /** Optional chunk sequence number for progressively streamed payloads */
+  chunkIndex?: number;
+
+  /** Optional flag marking the final chunk */
+  complete?: boolean;
 }
 
 /**
@@ -477,6 +965,31 @@ export interface PayloadEvent extends BaseStreamEvent {
   data: PayloadData;
 }
 
+/**
+ * Payload text fragment
+ */
+export interface PayloadDeltaData {
+  /** Payload identifier */
+  id: string;
+
+  /** Next fragment of the payload's raw JSON text */
+  delta: string;
+
+  /** Timestamp when the fragment was sent */
+  timestamp: number;
+
+  /** Optional fragment sequence number */
+  chunkIndex?: number;
+}
+
+/**
+ * Payload delta event - emitted as a payload's raw JSON text streams in
+ */
+export interface PayloadDeltaEvent extends BaseStreamEvent {
+  type: 'payload_delta';
+  data: PayloadDeltaData;
+}
+
 /**
  * Schema validation error
  */
@@ -498,6 +1011,15 @@ export interface SchemaError {
 
   /** Timestamp when error occurred */
   timestamp: number;
+
+  /** Optional severity (default: error) */
+  severity?: 'error' | 'warning' | 'info';
+
+  /** Optional suggested fix */
+  suggestion?: string;
+
+  /** Optional machine-readable error code */
+  code?: string;
 }
 
 /**
@@ -508,6 +1030,212 @@ export interface SchemaErrorEvent extends BaseStreamEvent {
   data: SchemaError;
 }
 
+// ============================================================================
+// Tool-Use Pattern Events
+// ============================================================================
+
+/**
+ * Tool call start - the agent begins calling a tool
+ */
+export interface ToolCallStart {
+  /** Call identifier linking the call's deltas, result and error */
+  callId: string;
+
+  /** Name of the tool being called */
+  toolName: string;
+
+  /** Optional human-readable reason for the call */
+  description?: string;
+}
+
+/**
+ * Tool call start event - emitted before the call's arguments stream
+ */
+export interface ToolCallStartEvent extends BaseStreamEvent {
+  type: 'tool_call_start';
+  data: ToolCallStart;
+}
+
+/**
+ * Tool call argument fragment
+ */
+export interface ToolCallDelta {
+  /** Call the fragment belongs to */
+  callId: string;
+
+  /** Next fragment of the call's JSON arguments */
+  delta: string;
+
+  /** Optional fragment sequence number */
+  chunkIndex?: number;
+}
+
+/**
+ * Tool call delta event - emitted as a call's arguments stream in
+ */
+export interface ToolCallDeltaEvent extends BaseStreamEvent {
+  type: 'tool_call_delta';
+  data: ToolCallDelta;
+}
+
+/**
+ * Tool result - the value a tool returned
+ */
+export interface ToolResult {
+  /** Call that produced the result */
+  callId: string;
+
+  /** JSON value returned by the tool */
+  result: unknown;
+
+  /** Optional time the tool took to run (milliseconds) */
+  durationMs?: number;
+}
+
+/**
+ * Tool result event - emitted when a tool call succeeds
+ */
+export interface ToolResultEvent extends BaseStreamEvent {
+  type: 'tool_result';
+  data: ToolResult;
+}
+
+/**
+ * Tool error - why a tool call failed
+ */
+export interface ToolError {
+  /** Call that failed */
+  callId: string;
+
+  /** Error message */
+  message: string;
+
+  /** Optional machine-readable error code */
+  code?: string;
+
+  /** Whether the agent may retry the call */
+  retryable?: boolean;
+}
+
+/**
+ * Tool error event - emitted when a tool call fails
+ */
+export interface ToolErrorEvent extends BaseStreamEvent {
+  type: 'tool_error';
+  data: ToolError;
+}
+
+// ============================================================================
+// Sub-Agent Orchestration Pattern Events
+// ============================================================================
+
+/**
+ * Sub-agent spawn - a parent agent hands a task to a sub-agent
+ */
+export interface AgentSpawn {
+  /** Sub-agent identifier linking its wrapped events and completion */
+  agentId: string;
+
+  /** ID of the spawning agent (absent for sub-agents of the root planner) */
+  parentId?: string;
+
+  /** Display name of the sub-agent */
+  name: string;
+
+  /** Task the sub-agent was given */
+  task: string;
+}
+
+/**
+ * Agent spawn event - emitted before a sub-agent's first event
+ */
+export interface AgentSpawnEvent extends BaseStreamEvent {
+  type: 'agent_spawn';
+  data: AgentSpawn;
+}
+
+/**
+ * Sub-agent event envelope - one event from a sub-agent's own stream
+ */
+export interface AgentEnvelope {
+  /** Sub-agent that emitted the event */
+  agentId: string;
+
+  /** The wrapped event (may itself wrap a nested sub-agent's event) */
+  event: StreamEvent;
+}
+
+/**
+ * Agent event - carries a sub-agent's event on the parent stream
+ */
+export interface AgentEventEvent extends BaseStreamEvent {
+  type: 'agent_event';
+  data: AgentEnvelope;
+}
+
+/**
+ * Sub-agent outcome
+ */
+export type AgentCompletionStatus = 'succeeded' | 'failed';
+
+/**
+ * Sub-agent completion - a sub-agent's stream has ended
+ */
+export interface AgentComplete {
+  /** Sub-agent that finished */
+  agentId: string;
+
+  /** Whether the sub-agent's stream ended normally */
+  status: AgentCompletionStatus;
+
+  /** Number of events the sub-agent emitted */
+  eventCount: number;
+
+  /** Optional time from spawn to completion (milliseconds) */
+  durationMs?: number;
+
+  /** Error message when the sub-agent failed */
+  error?: string;
+}
+
+/**
+ * Agent complete event - emitted after a sub-agent's last event
+ */
+export interface AgentCompleteEvent extends BaseStreamEvent {
+  type: 'agent_complete';
+  data: AgentComplete;
+}
+
+// ============================================================================
+// Stream Infrastructure Events
+// ============================================================================
+
+/**
+ * Reconnection details - describes how a dropped stream was resumed
+ */
+export interface ReconnectInfo {
+  /** Reconnect attempt number that succeeded (1-based) */
+  attempt: number;
+
+  /** Backoff delay waited before reconnecting (milliseconds) */
+  delayMs: number;
+
+  /** ID of the last event received before the drop */
+  lastEventId?: string;
+
+  /** Sequence number of the last event received before the drop */
+  sequenceNumber: number;
+}
+
+/**
+ * Reconnected event - synthetic marker emitted after a dropped stream resumes
+ * Generated by StreamSession, never present in fixtures.
+ */
+export interface ReconnectedEvent extends BaseStreamEvent {
+  type: 'reconnected';
+  data: ReconnectInfo;
+}
+
 // ============================================================================
 // Union Types
 // ============================================================================
@@ -520,18 +1248,42 @@ export type StreamEvent =
   | ReasoningEvent
   | AnswerEvent
   | MemoryEvent
+  | MemoryCreateEvent
+  | MemoryUpdateEvent
+  | MemoryPruneEvent
+  | MemoryPinEvent
+  | ConversationMessageEvent
   | AwaitInputEvent
   | InputSubmissionEvent
+  | TextEvent
+  | ResumeEvent
+  | InputTimeoutEvent
   | CheckpointEvent
   | ValidationEvent
+  | CheckpointResponseEvent
+  | CheckpointResumeEvent
+  | BudgetAnalysisEvent
+  | FinalPlanEvent
   | SchemaEvent
   | RowEvent
   | MetaEvent
   | AgentPatchEvent
   | UserPatchEvent
+  | PatchAckEvent
+  | SectionCompleteEvent
+  | ConflictEvent
   | SchemaDefinitionEvent
   | PayloadEvent
-  | SchemaErrorEvent;
+  | PayloadDeltaEvent
+  | SchemaErrorEvent
+  | ToolCallStartEvent
+  | ToolCallDeltaEvent
+  | ToolResultEvent
+  | ToolErrorEvent
+  | AgentSpawnEvent
+  | AgentEventEvent
+  | AgentCompleteEvent
+  | ReconnectedEvent;
 
 /**
  * Event type discriminator
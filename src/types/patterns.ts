@@ -18,7 +18,9 @@ export type PatternId =
   | 'streaming-validation-loop'
   | 'tabular-stream-view'
   | 'turn-taking-co-creation'
-  | 'schema-governed-exchange';
+  | 'schema-governed-exchange'
+  | 'tool-use-stream'
+  | 'sub-agent-orchestration';
 
 /**
  * Pattern complexity levels
@@ -13,10 +13,13 @@ import { afterEach } from 'vitest';
  * Cleanup after each test
  *
  * Automatically unmount React components and clean up the DOM after each test
- * to prevent test pollution and memory leaks.
+ * to prevent test pollution and memory leaks. Demos save unfinished runs to
+ * localStorage (so a reload can resume them); clearing it keeps a run saved
+ * by one test from being offered in the next.
  */
 afterEach(() => {
   cleanup();
+  localStorage.clear();
 });
 
 /**